@@ -4,6 +4,8 @@
  * License: MIT
  */
 export * from './lib/rpc.js'
+/** Chain backends */
+export * as Chain from './lib/chain/index.js'
 /** Bitcore modules */
 export * as Bitcore from './lib/bitcore/index.js'
 export * as P2P from './lib/p2p/index.js'
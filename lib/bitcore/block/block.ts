@@ -26,6 +26,22 @@ export interface BlockObject {
   transactions: unknown[]
 }
 
+/**
+ * Proof that a transaction is included in a block
+ */
+export interface MerkleProof {
+  /** Hash of the block containing the transaction */
+  blockHash: string
+  /** Transaction ID */
+  txid: string
+  /** Transaction hash (double SHA256 of its serialization) */
+  txHash: string
+  /** Index of the transaction in the block */
+  index: number
+  /** Sibling hashes from the transaction up to the root, as hex */
+  branch: string[]
+}
+
 export class Block {
   // Constants
   static readonly MAX_BLOCK_SIZE = 32 * 1024 * 1024 // 32MiB
@@ -324,6 +340,76 @@ export class Block {
     return tree[tree.length - 1]
   }
 
+  /**
+   * Build a merkle inclusion proof for one of the block's transactions
+   *
+   * @param txid - Transaction ID
+   * @returns Merkle proof, verifiable against the block header alone
+   * @throws Error if the transaction is not in the block
+   */
+  getMerkleProof(txid: string): MerkleProof {
+    let index = this.transactions.findIndex(tx => tx.id === txid)
+    if (index === -1) {
+      throw new Error(`Transaction ${txid} is not in block ${this.id}`)
+    }
+    const proofIndex = index
+
+    // Walk up the levels of getMerkleTree(), whose odd levels are padded
+    const tree = this.getMerkleTree()
+    const branch: string[] = []
+    let j = 0
+    for (let size = this.transactions.length; size > 1; ) {
+      size += size % 2
+      branch.push(tree[j + (index ^ 1)].toString('hex'))
+      j += size
+      index >>= 1
+      size /= 2
+    }
+
+    return {
+      blockHash: this.id,
+      txid,
+      txHash: this.transactions[proofIndex].hash,
+      index: proofIndex,
+      branch,
+    }
+  }
+
+  /**
+   * Verify a merkle inclusion proof against a block header
+   *
+   * @param proof - Merkle proof from getMerkleProof()
+   * @param header - Header of the block the proof claims
+   * @returns true if the proof leads to the header's merkle root
+   */
+  static verifyMerkleProof(proof: MerkleProof, header: BlockHeader): boolean {
+    if (
+      proof.blockHash !== header.hash ||
+      proof.index < 0 ||
+      proof.index >= 2 ** proof.branch.length
+    ) {
+      return false
+    }
+
+    let hash = Hash.sha256sha256(
+      Buffer.concat([
+        BufferUtil.reverse(Buffer.from(proof.txHash, 'hex')),
+        BufferUtil.reverse(Buffer.from(proof.txid, 'hex')),
+      ]),
+    )
+    let index = proof.index
+    for (const sibling of proof.branch) {
+      const siblingHash = Buffer.from(sibling, 'hex')
+      hash = Hash.sha256sha256(
+        index & 1
+          ? Buffer.concat([siblingHash, hash])
+          : Buffer.concat([hash, siblingHash]),
+      )
+      index >>= 1
+    }
+    return hash.equals(header.merkleRoot)
+  }
+
   /**
    * Verifies that the transactions in the block match the header merkle root
    */
@@ -0,0 +1,491 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * Header Chain
+ *
+ * In-memory store of Lotus block headers for light clients. Headers are
+ * connected through prevHash starting from a trusted root (the genesis block
+ * or a checkpoint), and each one is checked for height continuity, timestamp
+ * rules, proof of work and the difficulty retarget before it is accepted.
+ * The retarget rule is supplied by the caller: the store does not bundle the
+ * network's ASERT anchor or proof of work limit.
+ * The chain with the most cumulative work is the main chain; when a side
+ * branch overtakes it, the store reorganizes and reports the headers that
+ * were disconnected and connected.
+ *
+ * Combined with Block.getMerkleProof(), the store verifies that a
+ * transaction was mined in the main chain without trusting an indexer.
+ */
+
+import { BufferUtil } from '../util/buffer.js'
+import { BlockHeader } from './blockheader.js'
+import { Block, type MerkleProof } from './block.js'
+
+/** Lotus target block interval, in seconds */
+export const LOTUS_TARGET_SPACING = 2 * 60
+
+/** ASERT half-life: difficulty halves or doubles per 2 days of drift */
+export const ASERT_HALF_LIFE = 2 * 24 * 60 * 60
+
+/** Number of previous headers whose median time a header must exceed */
+const MEDIAN_TIME_SPAN = 11
+
+/**
+ * Header accepted by the chain
+ */
+export interface HeaderChainEntry {
+  /** The block header */
+  header: BlockHeader
+
+  /** Block hash (display byte order) */
+  hash: string
+
+  /** Block height */
+  height: number
+
+  /** Cumulative work of the chain ending at this header */
+  chainWork: bigint
+}
+
+/**
+ * Result of adding a header
+ */
+export interface HeaderChainUpdate {
+  /** The header's entry */
+  entry: HeaderChainEntry
+
+  /** false if the header was already known */
+  added: boolean
+
+  /** Headers removed from the main chain, tip first */
+  disconnected: HeaderChainEntry[]
+
+  /** Headers added to the main chain, lowest first */
+  connected: HeaderChainEntry[]
+}
+
+/**
+ * Reference block of the ASERT difficulty algorithm
+ */
+export interface AsertAnchor {
+  /** Anchor block height */
+  height: number
+
+  /** Anchor block bits */
+  bits: number
+
+  /** Timestamp of the anchor block's parent */
+  parentTime: number
+}
+
+/**
+ * Compute the bits a header must carry, given its parent
+ */
+export type DifficultyRule = (
+  parent: HeaderChainEntry,
+  header: BlockHeader,
+) => number
+
+/**
+ * Header chain options
+ */
+export interface HeaderChainOptions {
+  /**
+   * Difficulty retarget rule: HeaderChain.asertRule() with the network's
+   * anchor and proof of work limit, or HeaderChain.fixedRule() for networks
+   * that never retarget
+   */
+  difficultyRule: DifficultyRule
+
+  /** Whether to check proof of work (default: true) */
+  checkProofOfWork?: boolean
+}
+
+/**
+ * Error for headers that cannot be connected or fail validation
+ */
+export class HeaderChainError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'HeaderChainError'
+  }
+}
+
+/**
+ * Store of validated block headers tracking the most-work tip
+ *
+ * @example
+ * ```typescript
+ * const chain = new HeaderChain(checkpointHeader, {
+ *   difficultyRule: HeaderChain.asertRule(anchor, powLimitBits),
+ * })
+ * for (const raw of headersFromPeer) {
+ *   const { disconnected } = chain.add(raw)
+ *   // Roll back wallet state for disconnected blocks
+ * }
+ *
+ * const proof = block.getMerkleProof(txid)
+ * if (
+ *   chain.verifyMerkleProof(proof) &&
+ *   chain.getConfirmations(proof.blockHash) >= 6
+ * ) {
+ *   // Payment confirmed
+ * }
+ * ```
+ */
+export class HeaderChain {
+  private _entries = new Map<string, HeaderChainEntry>()
+  private _mainChain: string[] = []
+  private _root: HeaderChainEntry
+  private _difficultyRule: DifficultyRule
+  private _checkProofOfWork: boolean
+
+  /**
+   * @param root - Trusted first header (genesis block or checkpoint)
+   * @param options - Validation options
+   * @throws HeaderChainError if no difficulty rule is given
+   */
+  constructor(
+    root: BlockHeader | Buffer | string,
+    options: HeaderChainOptions,
+  ) {
+    if (!options?.difficultyRule) {
+      throw new HeaderChainError('A difficulty rule is required')
+    }
+    const header = HeaderChain._toHeader(root)
+    this._root = {
+      header,
+      hash: header.hash,
+      height: header.height,
+      chainWork: HeaderChain.getWork(header.bits),
+    }
+    this._entries.set(this._root.hash, this._root)
+    this._mainChain.push(this._root.hash)
+
+    this._difficultyRule = options.difficultyRule
+    this._checkProofOfWork = options.checkProofOfWork ?? true
+  }
+
+  /**
+   * Tip of the main chain
+   */
+  get tip(): HeaderChainEntry {
+    return this._entries.get(this._mainChain[this._mainChain.length - 1])!
+  }
+
+  /**
+   * Trusted first header
+   */
+  get root(): HeaderChainEntry {
+    return this._root
+  }
+
+  /**
+   * Height of the main chain tip
+   */
+  get height(): number {
+    return this.tip.height
+  }
+
+  /**
+   * Validate and add a header
+   *
+   * @param data - Header, or its serialization
+   * @returns The header's entry and any change to the main chain
+   * @throws HeaderChainError if the parent is unknown or validation fails
+   */
+  add(data: BlockHeader | Buffer | string): HeaderChainUpdate {
+    const header = HeaderChain._toHeader(data)
+    const hash = header.hash
+    const known = this._entries.get(hash)
+    if (known) {
+      return { entry: known, added: false, disconnected: [], connected: [] }
+    }
+
+    const parent = this._entries.get(
+      BufferUtil.reverse(header.prevHash).toString('hex'),
+    )
+    if (!parent) {
+      throw new HeaderChainError(`Header ${hash} has an unknown parent`)
+    }
+    this._validate(header, parent)
+
+    const entry: HeaderChainEntry = {
+      header,
+      hash,
+      height: header.height,
+      chainWork: parent.chainWork + HeaderChain.getWork(header.bits),
+    }
+    this._entries.set(hash, entry)
+
+    if (entry.chainWork <= this.tip.chainWork) {
+      return { entry, added: true, disconnected: [], connected: [] }
+    }
+    return { entry, added: true, ...this._setTip(entry) }
+  }
+
+  /**
+   * Validate and add headers in order
+   *
+   * @param headers - Headers, or their serializations
+   * @returns One update per header
+   * @throws HeaderChainError on the first header that cannot be added
+   */
+  addHeaders(
+    headers: Array<BlockHeader | Buffer | string>,
+  ): HeaderChainUpdate[] {
+    return headers.map(header => this.add(header))
+  }
+
+  /**
+   * Get a known header by hash, in or out of the main chain
+   */
+  getEntry(hash: string): HeaderChainEntry | undefined {
+    return this._entries.get(hash)
+  }
+
+  /**
+   * Get the main chain header at a height
+   */
+  getEntryAt(height: number): HeaderChainEntry | undefined {
+    const hash = this._mainChain[height - this._root.height]
+    return hash ? this._entries.get(hash) : undefined
+  }
+
+  /**
+   * Check whether a header is part of the main chain
+   */
+  isInMainChain(hash: string): boolean {
+    const entry = this._entries.get(hash)
+    return !!entry && this._mainChain[entry.height - this._root.height] === hash
+  }
+
+  /**
+   * Number of confirmations of a main chain block (0 if not in the main chain)
+   */
+  getConfirmations(hash: string): number {
+    if (!this.isInMainChain(hash)) {
+      return 0
+    }
+    return this.tip.height - this._entries.get(hash)!.height + 1
+  }
+
+  /**
+   * Verify that a transaction is included in a main chain block
+   *
+   * @param proof - Merkle proof from Block.getMerkleProof()
+   * @returns true if the block is in the main chain and the proof matches its
+   * merkle root
+   */
+  verifyMerkleProof(proof: MerkleProof): boolean {
+    if (!this.isInMainChain(proof.blockHash)) {
+      return false
+    }
+    return Block.verifyMerkleProof(
+      proof,
+      this._entries.get(proof.blockHash)!.header,
+    )
+  }
+
+  /**
+   * Median timestamp of a header and up to 10 of its ancestors
+   */
+  getMedianTimePast(entry: HeaderChainEntry): number {
+    const times: number[] = []
+    let current: HeaderChainEntry | undefined = entry
+    while (current && times.length < MEDIAN_TIME_SPAN) {
+      times.push(current.header.time)
+      current = this._parent(current)
+    }
+    times.sort((a, b) => a - b)
+    return times[Math.floor(times.length / 2)]
+  }
+
+  /**
+   * Work represented by a header's target: 2^256 / (target + 1)
+   */
+  static getWork(bits: number): bigint {
+    const target = HeaderChain.bitsToTarget(bits)
+    return target > 0n ? (1n << 256n) / (target + 1n) : 0n
+  }
+
+  /**
+   * Expand compact bits to a target
+   */
+  static bitsToTarget(bits: number): bigint {
+    const exponent = bits >>> 24
+    const mantissa = BigInt(bits & 0x007fffff)
+    if (bits & 0x00800000) {
+      // Negative targets are invalid
+      return 0n
+    }
+    return exponent <= 3
+      ? mantissa >> BigInt(8 * (3 - exponent))
+      : mantissa << BigInt(8 * (exponent - 3))
+  }
+
+  /**
+   * Compress a target to compact bits
+   */
+  static targetToBits(target: bigint): number {
+    let size = 0
+    for (let value = target; value > 0n; value >>= 8n) {
+      size++
+    }
+    let mantissa =
+      size <= 3
+        ? Number(target << BigInt(8 * (3 - size)))
+        : Number(target >> BigInt(8 * (size - 3)))
+    // The mantissa's sign bit must be clear
+    if (mantissa & 0x00800000) {
+      mantissa >>= 8
+      size++
+    }
+    return ((size << 24) | mantissa) >>> 0
+  }
+
+  /**
+   * ASERT (aserti3-2d) difficulty rule
+   *
+   * The target grows or shrinks exponentially with the drift of the parent's
+   * timestamp from the ideal schedule since the anchor block, doubling per
+   * half-life of lateness. Uses the same fixed-point approximation of 2^x as
+   * the reference implementation, so results are bit-exact.
+   *
+   * @param anchor - Anchor block of the schedule
+   * @param powLimitBits - Easiest target allowed by the network
+   * @param targetSpacing - Target block interval (default: 120 seconds)
+   * @param halfLife - Half-life in seconds (default: 2 days)
+   * @returns Difficulty rule
+   */
+  static asertRule(
+    anchor: AsertAnchor,
+    powLimitBits: number,
+    targetSpacing: number = LOTUS_TARGET_SPACING,
+    halfLife: number = ASERT_HALF_LIFE,
+  ): DifficultyRule {
+    const powLimit = HeaderChain.bitsToTarget(powLimitBits)
+    const anchorTarget = HeaderChain.bitsToTarget(anchor.bits)
+
+    return parent => {
+      const timeDiff = BigInt(parent.header.time - anchor.parentTime)
+      const heightDiff = BigInt(parent.height - anchor.height)
+      const exponent =
+        ((timeDiff - BigInt(targetSpacing) * (heightDiff + 1n)) * 65536n) /
+        BigInt(halfLife)
+
+      // 2^exponent = 2^shifts * (1 + frac / 65536), with 0 <= frac < 65536
+      let shifts = exponent >> 16n
+      const frac = BigInt.asUintN(16, exponent)
+      const factor =
+        65536n +
+        ((195766423245049n * frac +
+          971821376n * frac * frac +
+          5127n * frac * frac * frac +
+          (1n << 47n)) >>
+          48n)
+      let target = anchorTarget * factor
+      shifts -= 16n
+      target = shifts <= 0n ? target >> -shifts : target << shifts
+
+      if (target === 0n) {
+        target = 1n
+      } else if (target > powLimit) {
+        target = powLimit
+      }
+      return HeaderChain.targetToBits(target)
+    }
+  }
+
+  /**
+   * Difficulty rule for networks that never retarget (e.g. regtest)
+   */
+  static fixedRule(): DifficultyRule {
+    return parent => parent.header.bits
+  }
+
+  /**
+   * Check a header against its parent
+   */
+  private _validate(header: BlockHeader, parent: HeaderChainEntry): void {
+    const hash = header.hash
+    if (header.height !== parent.height + 1) {
+      throw new HeaderChainError(
+        `Header ${hash} has height ${header.height}, expected ${parent.height + 1}`,
+      )
+    }
+    if (header.time <= this.getMedianTimePast(parent)) {
+      throw new HeaderChainError(
+        `Header ${hash} time is not after the median time of its ancestors`,
+      )
+    }
+    if (!header.validTimestamp()) {
+      throw new HeaderChainError(`Header ${hash} time is too far in the future`)
+    }
+
+    const expectedBits = this._difficultyRule(parent, header)
+    if (header.bits !== expectedBits) {
+      throw new HeaderChainError(
+        `Header ${hash} has bits 0x${header.bits.toString(16)}, expected 0x${expectedBits.toString(16)}`,
+      )
+    }
+    if (this._checkProofOfWork && !header.validProofOfWork()) {
+      throw new HeaderChainError(`Header ${hash} has invalid proof of work`)
+    }
+  }
+
+  /**
+   * Make a header the main chain tip
+   */
+  private _setTip(entry: HeaderChainEntry): {
+    disconnected: HeaderChainEntry[]
+    connected: HeaderChainEntry[]
+  } {
+    // Walk back to the fork point with the current main chain
+    const connected: HeaderChainEntry[] = []
+    let current: HeaderChainEntry = entry
+    while (!this.isInMainChain(current.hash)) {
+      connected.unshift(current)
+      current = this._parent(current)!
+    }
+
+    const forkIndex = current.height - this._root.height
+    const disconnected = this._mainChain
+      .slice(forkIndex + 1)
+      .reverse()
+      .map(hash => this._entries.get(hash)!)
+    this._mainChain.length = forkIndex + 1
+    this._mainChain.push(
+      ...connected.map(connectedEntry => connectedEntry.hash),
+    )
+    return { disconnected, connected }
+  }
+
+  /**
+   * Parent entry of a header (undefined for the root)
+   */
+  private _parent(entry: HeaderChainEntry): HeaderChainEntry | undefined {
+    if (entry === this._root) {
+      return undefined
+    }
+    return this._entries.get(
+      BufferUtil.reverse(entry.header.prevHash).toString('hex'),
+    )
+  }
+
+  /**
+   * Parse a header from any supported input
+   */
+  private static _toHeader(data: BlockHeader | Buffer | string): BlockHeader {
+    if (data instanceof BlockHeader) {
+      return data
+    }
+    return Buffer.isBuffer(data)
+      ? BlockHeader.fromBuffer(data)
+      : BlockHeader.fromString(data)
+  }
+}
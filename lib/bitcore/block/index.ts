@@ -1,4 +1,17 @@
 export { Block } from './block.js'
 export { BlockHeader } from './blockheader.js'
-export type { BlockData, BlockObject } from './block.js'
+export {
+  HeaderChain,
+  HeaderChainError,
+  LOTUS_TARGET_SPACING,
+  ASERT_HALF_LIFE,
+} from './headerchain.js'
+export type { BlockData, BlockObject, MerkleProof } from './block.js'
+export type {
+  HeaderChainEntry,
+  HeaderChainUpdate,
+  HeaderChainOptions,
+  AsertAnchor,
+  DifficultyRule,
+} from './headerchain.js'
 export type { BlockHeaderData, BlockHeaderObject } from './blockheader.js'
@@ -0,0 +1,319 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * Schnorr Adaptor Signatures for Lotus
+ *
+ * An adaptor signature (pre-signature) is a Schnorr signature encrypted to an
+ * adaptor point T = t·G. Anyone can verify that it becomes a valid signature
+ * once completed with the secret t, and whoever sees both the pre-signature
+ * and the completed signature learns t. This is the building block of
+ * scriptless atomic swaps: publishing the signature that claims one output
+ * reveals the secret that claims the other.
+ *
+ * Algorithm (Lotus Schnorr adaptation):
+ * 1. Pick nonce k, compute the final nonce R = k·G + T
+ * 2. If R.y is not a quadratic residue, negate k (Lotus specific!)
+ * 3. Compute challenge e = H(R.x || compressed(P) || m) (Lotus format!)
+ * 4. Pre-signature: ŝ = k + e·x (mod n), published as (R, ŝ)
+ * 5. Completion: s = ŝ + t, or s = ŝ - t if k was negated
+ * 6. Extraction: t = s - ŝ, or t = ŝ - s if k was negated
+ *
+ * The completed signature (R.x, s) is a standard 64-byte Lotus Schnorr
+ * signature. MuSig2 pre-signatures are produced by passing the adaptor point
+ * to musigPartialSign() and aggregating with musigAdaptorSigAgg().
+ *
+ * WARNING: Never create two pre-signatures with the same nonce for different
+ * adaptor points, and never complete a pre-signature for a message you did
+ * not intend to sign. The nonce is derived from fresh randomness on every
+ * call for this reason.
+ *
+ * @module Adaptor
+ */
+
+import { PublicKey } from '../publickey.js'
+import { PrivateKey } from '../privatekey.js'
+import { Point } from './point.js'
+import { BN } from './bn.js'
+import { Hash } from './hash.js'
+import { Random } from './random.js'
+import { Signature } from './signature.js'
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Adaptor Signature (pre-signature)
+ *
+ * Encrypted to an adaptor point T. Completed with the discrete log of T into
+ * a standard Lotus Schnorr signature.
+ */
+export interface AdaptorSignature {
+  /** Final nonce R = R' + T, whose x-coordinate is the signature's r */
+  R: Point
+
+  /** Pre-signature scalar ŝ */
+  s: BN
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Tag for adaptor signature nonce generation */
+export const ADAPTOR_TAG_NONCE = 'Adaptor/nonce'
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Tagged hash, SHA256(SHA256(tag) || SHA256(tag) || data)
+ */
+function taggedHash(tag: string, data: Buffer): Buffer {
+  const tagHash = Hash.sha256(Buffer.from(tag, 'utf8'))
+  return Hash.sha256(Buffer.concat([tagHash, tagHash, data]))
+}
+
+/**
+ * Lotus Schnorr challenge e = H(R.x || compressed(P) || m) mod n
+ */
+function challenge(R: Point, publicKey: PublicKey, message: Buffer): BN {
+  const data = Buffer.concat([
+    R.getX().toArrayLike(Buffer, 'be', 32),
+    Point.pointToCompressed(publicKey.point),
+    message,
+  ])
+  return new BN(Hash.sha256(data), 'be').umod(Point.getN())
+}
+
+/**
+ * Validate a 32-byte message
+ */
+function validateMessage(message: Buffer): void {
+  if (!Buffer.isBuffer(message) || message.length !== 32) {
+    throw new Error('Message must be a 32-byte buffer')
+  }
+}
+
+// ============================================================================
+// Signing and Verification
+// ============================================================================
+
+/**
+ * Create a Schnorr adaptor signature
+ *
+ * k = H("Adaptor/nonce", rand || x || T || m), so the nonce differs from the
+ * RFC6979 nonce Schnorr.sign() would use for the same key and message.
+ *
+ * @param message - 32-byte message to sign (typically transaction sighash)
+ * @param privateKey - Signer's private key
+ * @param adaptorPoint - Adaptor point T = t·G
+ * @param extraInput - Optional randomness (default: 32 random bytes)
+ * @returns Pre-signature encrypted to T
+ *
+ * @example
+ * ```typescript
+ * const secret = new PrivateKey()
+ * const preSig = adaptorSign(sighash, alice, secret.publicKey.point)
+ *
+ * // Bob checks it before revealing anything
+ * adaptorVerify(sighash, preSig, alice.publicKey, secret.publicKey.point)
+ * ```
+ */
+export function adaptorSign(
+  message: Buffer,
+  privateKey: PrivateKey,
+  adaptorPoint: Point,
+  extraInput?: Buffer,
+): AdaptorSignature {
+  validateMessage(message)
+  adaptorPoint.validate()
+
+  const n = Point.getN()
+  const x = privateKey.bn
+  const P = privateKey.publicKey
+
+  // Step 1: Derive nonce k from fresh randomness, the key, T and the message
+  const nonceData = Buffer.concat([
+    extraInput ?? Random.getRandomBuffer(32),
+    x.toArrayLike(Buffer, 'be', 32),
+    Point.pointToCompressed(adaptorPoint),
+    message,
+  ])
+  let k = new BN(taggedHash(ADAPTOR_TAG_NONCE, nonceData), 'be').umod(n)
+  if (k.isZero()) {
+    k = new BN(1)
+  }
+
+  // Step 2: Final nonce R = k*G + T
+  const R = Point.getG().mul(k).add(adaptorPoint)
+
+  // Step 3: LOTUS SPECIFIC - negate k if R.y is not a quadratic residue
+  if (!R.hasSquare()) {
+    k = n.sub(k)
+  }
+
+  // Step 4: ŝ = k + e*x (mod n)
+  const e = challenge(R, P, message)
+  const s = k.add(e.mul(x)).umod(n)
+
+  return { R, s }
+}
+
+/**
+ * Verify an adaptor signature
+ *
+ * Checks ŝ·G = R' + e·P where R' = R - T, or ŝ·G = -R' + e·P if the nonce
+ * was negated. A valid pre-signature completes into a signature that
+ * Schnorr.verify() accepts for the same message and public key.
+ *
+ * Works for single-signer and MuSig2 pre-signatures alike: pass the
+ * aggregated public key (or Taproot commitment) for the latter.
+ *
+ * @param message - 32-byte message that was signed
+ * @param adaptorSig - Pre-signature to verify
+ * @param publicKey - Signer's (or aggregated) public key
+ * @param adaptorPoint - Adaptor point T the pre-signature is encrypted to
+ * @returns true if the pre-signature is valid
+ */
+export function adaptorVerify(
+  message: Buffer,
+  adaptorSig: AdaptorSignature,
+  publicKey: PublicKey,
+  adaptorPoint: Point,
+): boolean {
+  try {
+    validateMessage(message)
+    const n = Point.getN()
+    const { R, s } = adaptorSig
+    if (s.gte(n)) {
+      return false
+    }
+    R.validate()
+    adaptorPoint.validate()
+
+    // R' = R - T, negated along with k if R.y is not a quadratic residue
+    let R_prime = R.add(adaptorPoint.mul(n.sub(new BN(1))))
+    if (!R.hasSquare()) {
+      R_prime = R_prime.mul(n.sub(new BN(1)))
+    }
+
+    const e = challenge(R, publicKey, message)
+    const lhs = Point.getG().mul(s)
+    const rhs = R_prime.add(publicKey.point.mul(e))
+    return lhs.eq(rhs)
+  } catch (error) {
+    // Any error in verification means invalid pre-signature
+    return false
+  }
+}
+
+// ============================================================================
+// Completion and Extraction
+// ============================================================================
+
+/**
+ * Complete an adaptor signature with the adaptor secret
+ *
+ * @param adaptorSig - Verified pre-signature
+ * @param secret - Adaptor secret t, with T = t·G
+ * @param sighashType - Optional sighash type to embed in the signature
+ * @returns Standard 64-byte Lotus Schnorr signature
+ *
+ * @example
+ * ```typescript
+ * const signature = adaptorComplete(preSig, secret.bn, TAPROOT_SIGHASH_TYPE)
+ * Schnorr.verify(sighash, signature, alice.publicKey, 'big') // true
+ * ```
+ */
+export function adaptorComplete(
+  adaptorSig: AdaptorSignature,
+  secret: BN,
+  sighashType?: number,
+): Signature {
+  const n = Point.getN()
+  const { R, s } = adaptorSig
+
+  // s = ŝ + t, or ŝ - t if the nonce (and so the adaptor) was negated
+  const completed = R.hasSquare()
+    ? s.add(secret).umod(n)
+    : s.sub(secret).umod(n)
+  if (completed.isZero()) {
+    throw new Error('Completed signature s is zero (invalid)')
+  }
+
+  return new Signature({
+    r: R.getX(),
+    s: completed,
+    compressed: true,
+    isSchnorr: true,
+    nhashtype: sighashType,
+  })
+}
+
+/**
+ * Extract the adaptor secret from a completed signature
+ *
+ * @param adaptorSig - Pre-signature the signature was completed from
+ * @param signature - Completed signature (e.g. seen on chain)
+ * @param adaptorPoint - Adaptor point T
+ * @returns Adaptor secret t, with T = t·G
+ * @throws Error if the signature was not completed from the pre-signature
+ *
+ * @example
+ * ```typescript
+ * // Alice claimed her output, revealing the secret to Bob
+ * const secret = adaptorExtract(preSig, claimedSignature, adaptorPoint)
+ * const claimBob = adaptorComplete(bobPreSig, secret)
+ * ```
+ */
+export function adaptorExtract(
+  adaptorSig: AdaptorSignature,
+  signature: Signature,
+  adaptorPoint: Point,
+): BN {
+  const n = Point.getN()
+  const { R, s } = adaptorSig
+
+  if (!signature.r.eq(R.getX())) {
+    throw new Error('Signature nonce does not match the adaptor signature')
+  }
+
+  const secret = R.hasSquare()
+    ? signature.s.sub(s).umod(n)
+    : s.sub(signature.s).umod(n)
+  if (secret.isZero() || !Point.getG().mul(secret).eq(adaptorPoint)) {
+    throw new Error('Extracted secret does not match the adaptor point')
+  }
+
+  return secret
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+/**
+ * Adaptor Module Exports
+ *
+ * Core functions:
+ * - adaptorSign: Create a single-signer pre-signature
+ * - adaptorVerify: Verify a pre-signature
+ * - adaptorComplete: Complete a pre-signature with the adaptor secret
+ * - adaptorExtract: Extract the adaptor secret from a completed signature
+ *
+ * Types:
+ * - AdaptorSignature: Pre-signature (R, ŝ)
+ */
+
+export default {
+  adaptorSign,
+  adaptorVerify,
+  adaptorComplete,
+  adaptorExtract,
+}
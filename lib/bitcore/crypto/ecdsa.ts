@@ -196,7 +196,7 @@ export class ECDSA {
       throw new Error('nR is not a valid curve point')
     }
 
-    const eNeg = e.neg().mod(n)
+    const eNeg = e.neg().umod(n)
     const rInv = r.invm(n)
 
     const Q = R.mul(s).add(G.mul(eNeg)).mul(rInv)
@@ -0,0 +1,966 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * FROST Threshold Signature Scheme for Lotus
+ *
+ * Implements FROST (Flexible Round-Optimized Schnorr Threshold signatures,
+ * RFC 9591) adapted for Lotus Schnorr signatures. Any `threshold` of the
+ * `maxSigners` participants can produce a signature for the group public key,
+ * so offline participants do not block signing (unlike MuSig2, which is
+ * n-of-n).
+ *
+ * Key Generation (Pedersen DKG with Feldman VSS, no trusted dealer):
+ * 1. Round 1: each participant commits to a random polynomial of degree
+ *    threshold - 1 and proves knowledge of its constant term
+ * 2. Round 2: each participant privately sends every other participant the
+ *    evaluation of its polynomial at their index
+ * 3. Each participant verifies the received shares against the commitments
+ *    and sums them into its secret share
+ *
+ * Signing (two rounds):
+ * 1. Round 1: each signer publishes hiding and binding nonce commitments
+ * 2. Round 2: each signer computes a partial signature over the commitment
+ *    list of the signing set; partial signatures are summed into a standard
+ *    64-byte Lotus Schnorr signature
+ *
+ * Lotus Specifics (same rules as MuSig2):
+ * - Challenge hash: e = Hash(R.x || compressed(Y) || m) (33-byte key!)
+ * - If the group commitment R.y is not a quadratic residue, every signer
+ *   negates its nonce
+ * - Taproot key-path spending: the challenge uses the tweaked key
+ *   Y' = Y + t·G and the aggregator adds e·t to the signature
+ *
+ * Identifiable Aborts: invalid DKG packages and invalid partial signatures
+ * are attributed to their senders through FrostError.culprits.
+ *
+ * WARNING: Signing nonces are single-use. Reusing a nonce with a different
+ * signing set or message reveals the signer's secret share.
+ *
+ * Reference: RFC 9591 - The FROST Protocol for Two-Round Schnorr Signatures
+ *            (adapted for Lotus Schnorr)
+ *
+ * @module FROST
+ */
+
+import { PublicKey } from '../publickey.js'
+import { Point } from './point.js'
+import { BN } from './bn.js'
+import { Hash } from './hash.js'
+import { Random } from './random.js'
+import { Signature } from './signature.js'
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Round 1 DKG package, broadcast to all participants
+ */
+export interface FrostDkgCommitment {
+  /** Index of the participant (1-based) */
+  participantIndex: number
+
+  /** Polynomial commitments Cₖ = aₖ·G for k = 0..threshold-1 */
+  commitments: Point[]
+
+  /** Schnorr proof of knowledge of a₀ */
+  proofOfKnowledge: { R: Point; mu: BN }
+}
+
+/**
+ * Secret DKG state of one participant - MUST be kept secret
+ */
+export interface FrostDkgSecret {
+  /** Index of the participant (1-based) */
+  participantIndex: number
+
+  /** Minimum number of signers */
+  threshold: number
+
+  /** Total number of participants */
+  maxSigners: number
+
+  /** Ceremony context bound into the proof of knowledge */
+  context: Buffer
+
+  /** Polynomial coefficients a₀..aₜ₋₁ */
+  coefficients: BN[]
+
+  /** Round 1 package to broadcast */
+  commitment: FrostDkgCommitment
+}
+
+/**
+ * Public key material of a FROST group
+ *
+ * Sufficient to verify partial signatures and aggregate them.
+ */
+export interface FrostPublicKeyPackage {
+  /** Minimum number of signers */
+  threshold: number
+
+  /** Total number of participants */
+  maxSigners: number
+
+  /** Group public key Y = Σ Cⱼ,₀ */
+  groupPublicKey: PublicKey
+
+  /** Verification share Yᵢ = xᵢ·G of every participant */
+  verificationShares: Map<number, Point>
+}
+
+/**
+ * Key share of one participant, result of the DKG
+ */
+export interface FrostKeyShare extends FrostPublicKeyPackage {
+  /** Index of the participant (1-based) */
+  participantIndex: number
+
+  /** Secret share xᵢ - MUST be kept secret */
+  secretShare: BN
+}
+
+/**
+ * Public nonce commitments of a signer (signing round 1)
+ */
+export interface FrostSigningCommitment {
+  /** Index of the signer (1-based) */
+  participantIndex: number
+
+  /** Hiding nonce commitment D = d·G */
+  hiding: Point
+
+  /** Binding nonce commitment E = e·G */
+  binding: Point
+}
+
+/**
+ * Secret and public signing nonces
+ */
+export interface FrostNonce {
+  /** Secret nonces (d, e) - MUST be kept secret and used only once */
+  secretNonces: [BN, BN]
+
+  /** Public commitments shared with the signing set */
+  commitment: FrostSigningCommitment
+}
+
+/**
+ * Error with the participants responsible for an aborted protocol run
+ */
+export class FrostError extends Error {
+  constructor(
+    message: string,
+    /** Indices of the participants who misbehaved or did not respond */
+    public readonly culprits: number[] = [],
+  ) {
+    super(message)
+    this.name = 'FrostError'
+  }
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Tag for the DKG proof of knowledge challenge */
+export const FROST_TAG_DKG_POK = 'FROST/dkg-pok'
+
+/** Tag for signing binding factors */
+export const FROST_TAG_BINDING = 'FROST/rho'
+
+/** Tag for nonce generation */
+export const FROST_TAG_NONCE = 'FROST/nonce'
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Tagged hash for FROST
+ *
+ * tagged_hash = SHA256(SHA256(tag) || SHA256(tag) || data)
+ *
+ * @param tag - Tag string
+ * @param data - Data to hash
+ * @returns 32-byte hash
+ */
+export function frostTaggedHash(tag: string, data: Buffer): Buffer {
+  const tagHash = Hash.sha256(Buffer.from(tag, 'utf8'))
+  return Hash.sha256(Buffer.concat([tagHash, tagHash, data]))
+}
+
+/**
+ * Encode a participant index as 4 bytes big-endian
+ */
+function indexBuffer(index: number): Buffer {
+  const buf = Buffer.alloc(4)
+  buf.writeUInt32BE(index)
+  return buf
+}
+
+/**
+ * Random non-zero scalar
+ */
+function randomScalar(): BN {
+  const n = Point.getN()
+  for (;;) {
+    const k = new BN(Random.getRandomBuffer(32), 'be').umod(n)
+    if (!k.isZero()) {
+      return k
+    }
+  }
+}
+
+/**
+ * Negate a point: -P = (n-1)·P
+ */
+function negate(point: Point): Point {
+  return point.mul(Point.getN().sub(new BN(1)))
+}
+
+/**
+ * Evaluate a secret polynomial at x: f(x) = Σ aₖ·xᵏ (mod n)
+ */
+function evaluatePolynomial(coefficients: BN[], x: number): BN {
+  const n = Point.getN()
+  const xBN = new BN(x)
+  let result = new BN(0)
+  // Horner's method
+  for (let k = coefficients.length - 1; k >= 0; k--) {
+    result = result.mul(xBN).add(coefficients[k]).umod(n)
+  }
+  return result
+}
+
+/**
+ * Evaluate polynomial commitments at x: Σ Cₖ·xᵏ = f(x)·G
+ */
+function evaluateCommitments(commitments: Point[], x: number): Point {
+  const n = Point.getN()
+  const xBN = new BN(x)
+  let power = new BN(1)
+  let result = commitments[0]
+  for (let k = 1; k < commitments.length; k++) {
+    power = power.mul(xBN).umod(n)
+    result = result.add(commitments[k].mul(power))
+  }
+  return result
+}
+
+/**
+ * Validate threshold parameters and a participant index
+ */
+function checkParameters(
+  participantIndex: number,
+  threshold: number,
+  maxSigners: number,
+): void {
+  if (
+    !Number.isInteger(threshold) ||
+    !Number.isInteger(maxSigners) ||
+    threshold < 1 ||
+    threshold > maxSigners
+  ) {
+    throw new Error(
+      `Invalid threshold ${threshold} for ${maxSigners} participants`,
+    )
+  }
+  if (
+    !Number.isInteger(participantIndex) ||
+    participantIndex < 1 ||
+    participantIndex > maxSigners
+  ) {
+    throw new Error(`Invalid participant index: ${participantIndex}`)
+  }
+}
+
+/**
+ * Challenge for the DKG proof of knowledge
+ *
+ * c = H("FROST/dkg-pok", i || context || C₀ || R)
+ */
+function dkgChallenge(
+  participantIndex: number,
+  context: Buffer,
+  C0: Point,
+  R: Point,
+): BN {
+  const data = Buffer.concat([
+    indexBuffer(participantIndex),
+    context,
+    Point.pointToCompressed(C0),
+    Point.pointToCompressed(R),
+  ])
+  return new BN(frostTaggedHash(FROST_TAG_DKG_POK, data), 'be').umod(
+    Point.getN(),
+  )
+}
+
+// ============================================================================
+// Distributed Key Generation
+// ============================================================================
+
+/**
+ * DKG round 1: commit to a random polynomial
+ *
+ * Generates the secret polynomial f(x) = a₀ + a₁·x + ... + aₜ₋₁·xᵗ⁻¹,
+ * its commitments Cₖ = aₖ·G and a proof of knowledge of a₀ bound to the
+ * ceremony context. Broadcast `result.commitment` to all participants.
+ *
+ * @param participantIndex - This participant's index (1..maxSigners)
+ * @param threshold - Minimum number of signers
+ * @param maxSigners - Total number of participants
+ * @param context - Ceremony context shared by all participants (e.g. a hash
+ *   of the ceremony ID and participant keys), prevents proof replay
+ * @returns Secret DKG state including the round 1 package
+ *
+ * @example
+ * ```typescript
+ * const secret = frostDkgRound1(1, 3, 5, context)
+ * // Broadcast secret.commitment
+ * ```
+ */
+export function frostDkgRound1(
+  participantIndex: number,
+  threshold: number,
+  maxSigners: number,
+  context: Buffer,
+): FrostDkgSecret {
+  checkParameters(participantIndex, threshold, maxSigners)
+
+  const G = Point.getG()
+  const n = Point.getN()
+
+  const coefficients: BN[] = []
+  for (let k = 0; k < threshold; k++) {
+    coefficients.push(randomScalar())
+  }
+  const commitments = coefficients.map(a => G.mul(a))
+
+  // Schnorr proof of knowledge of a₀: mu = k + a₀·c
+  const k = randomScalar()
+  const R = G.mul(k)
+  const c = dkgChallenge(participantIndex, context, commitments[0], R)
+  const mu = k.add(coefficients[0].mul(c)).umod(n)
+
+  return {
+    participantIndex,
+    threshold,
+    maxSigners,
+    context,
+    coefficients,
+    commitment: {
+      participantIndex,
+      commitments,
+      proofOfKnowledge: { R, mu },
+    },
+  }
+}
+
+/**
+ * Verify a round 1 DKG package
+ *
+ * Checks the number of commitments and the proof of knowledge:
+ * mu·G - c·C₀ = R
+ *
+ * @param commitment - Round 1 package of another participant
+ * @param threshold - Minimum number of signers
+ * @param context - Ceremony context
+ * @returns true if the package is valid
+ */
+export function frostVerifyDkgCommitment(
+  commitment: FrostDkgCommitment,
+  threshold: number,
+  context: Buffer,
+): boolean {
+  try {
+    const { participantIndex, commitments, proofOfKnowledge } = commitment
+    if (commitments.length !== threshold) {
+      return false
+    }
+    for (const C of commitments) {
+      C.validate()
+    }
+
+    const G = Point.getG()
+    const n = Point.getN()
+    const { R, mu } = proofOfKnowledge
+    const c = dkgChallenge(participantIndex, context, commitments[0], R)
+    const lhs = G.mul(mu.umod(n)).add(commitments[0].mul(n.sub(c)))
+    return lhs.eq(R)
+  } catch (error) {
+    return false
+  }
+}
+
+/**
+ * DKG round 2: compute the secret shares for the other participants
+ *
+ * Each share fᵢ(j) must be sent privately to participant j.
+ *
+ * @param secret - Secret DKG state from frostDkgRound1
+ * @returns Map of recipient index to secret share
+ */
+export function frostDkgRound2(secret: FrostDkgSecret): Map<number, BN> {
+  const shares = new Map<number, BN>()
+  for (let j = 1; j <= secret.maxSigners; j++) {
+    if (j !== secret.participantIndex) {
+      shares.set(j, evaluatePolynomial(secret.coefficients, j))
+    }
+  }
+  return shares
+}
+
+/**
+ * Verify a received secret share against its sender's commitments
+ *
+ * Feldman VSS check: share·G = Σ Cₖ·jᵏ
+ *
+ * @param share - Secret share fᵢ(j) received from participant i
+ * @param recipientIndex - Index j of the recipient
+ * @param commitment - Round 1 package of the sender
+ * @returns true if the share is consistent with the commitments
+ */
+export function frostVerifyDkgShare(
+  share: BN,
+  recipientIndex: number,
+  commitment: FrostDkgCommitment,
+): boolean {
+  try {
+    const n = Point.getN()
+    if (share.isZero() || share.gte(n)) {
+      return false
+    }
+    return Point.getG()
+      .mul(share)
+      .eq(evaluateCommitments(commitment.commitments, recipientIndex))
+  } catch (error) {
+    return false
+  }
+}
+
+/**
+ * Finalize the DKG
+ *
+ * Verifies every other participant's round 1 package and secret share and
+ * computes this participant's key share, the group public key and the
+ * verification shares of all participants. Exactly one package and one
+ * share is expected from each of the maxSigners - 1 other participants.
+ *
+ * @param secret - Secret DKG state from frostDkgRound1
+ * @param commitments - Round 1 packages of the other participants
+ * @param shares - Map of sender index to the share received from it
+ * @returns Key share of this participant
+ * @throws FrostError naming the participants with missing or invalid
+ * packages, or if a package or share has an index other than a peer's
+ *
+ * @example
+ * ```typescript
+ * const keyShare = frostDkgFinalize(secret, peerCommitments, receivedShares)
+ * console.log('Group key:', keyShare.groupPublicKey.toString())
+ * ```
+ */
+export function frostDkgFinalize(
+  secret: FrostDkgSecret,
+  commitments: FrostDkgCommitment[],
+  shares: Map<number, BN>,
+): FrostKeyShare {
+  const { participantIndex, threshold, maxSigners, context } = secret
+  const n = Point.getN()
+
+  const isPeer = (index: number) =>
+    Number.isInteger(index) &&
+    index >= 1 &&
+    index <= maxSigners &&
+    index !== participantIndex
+
+  const byIndex = new Map<number, FrostDkgCommitment>([
+    [participantIndex, secret.commitment],
+  ])
+  for (const commitment of commitments) {
+    const index = commitment.participantIndex
+    if (!isPeer(index) || byIndex.has(index)) {
+      throw new FrostError(`Unexpected or duplicate DKG package ${index}`)
+    }
+    byIndex.set(index, commitment)
+  }
+  for (const index of shares.keys()) {
+    if (!isPeer(index)) {
+      throw new FrostError(`Unexpected DKG share ${index}`)
+    }
+  }
+
+  // Identify every participant with a missing or invalid package. With the
+  // indices checked above, none missing means exactly maxSigners - 1 of each
+  const culprits: number[] = []
+  for (let j = 1; j <= maxSigners; j++) {
+    if (j === participantIndex) continue
+    const commitment = byIndex.get(j)
+    const share = shares.get(j)
+    if (
+      !commitment ||
+      !share ||
+      !frostVerifyDkgCommitment(commitment, threshold, context) ||
+      !frostVerifyDkgShare(share, participantIndex, commitment)
+    ) {
+      culprits.push(j)
+    }
+  }
+  if (culprits.length > 0) {
+    throw new FrostError(
+      `Invalid DKG packages from participants ${culprits.join(', ')}`,
+      culprits,
+    )
+  }
+
+  // xᵢ = fᵢ(i) + Σ fⱼ(i)
+  let secretShare = evaluatePolynomial(secret.coefficients, participantIndex)
+  for (const share of shares.values()) {
+    secretShare = secretShare.add(share).umod(n)
+  }
+  if (secretShare.isZero()) {
+    throw new FrostError('Secret share is zero')
+  }
+
+  // Y = Σ Cⱼ,₀
+  const all = [...byIndex.values()]
+  let Y = all[0].commitments[0]
+  for (let j = 1; j < all.length; j++) {
+    Y = Y.add(all[j].commitments[0])
+  }
+  Y.validate()
+
+  // Yₖ = Σⱼ fⱼ(k)·G
+  const verificationShares = new Map<number, Point>()
+  for (let k = 1; k <= maxSigners; k++) {
+    let Yk = evaluateCommitments(all[0].commitments, k)
+    for (let j = 1; j < all.length; j++) {
+      Yk = Yk.add(evaluateCommitments(all[j].commitments, k))
+    }
+    verificationShares.set(k, Yk)
+  }
+
+  return {
+    participantIndex,
+    threshold,
+    maxSigners,
+    secretShare,
+    groupPublicKey: new PublicKey(Y, { compressed: true }),
+    verificationShares,
+  }
+}
+
+// ============================================================================
+// Nonce Generation
+// ============================================================================
+
+/**
+ * Generate signing nonces (signing round 1)
+ *
+ * d = H("FROST/nonce", rand || xᵢ || Y || m || extra || 0x01)
+ * e = H("FROST/nonce", rand || xᵢ || Y || m || extra || 0x02)
+ *
+ * ⚠️ SECURITY CRITICAL ⚠️
+ * Unlike musigNonceGen, 32 bytes of fresh randomness are always mixed in:
+ * the same message may be signed by different signing sets, and reusing a
+ * nonce across signing sets reveals the secret share. `extraInput` is only
+ * hashed in alongside the randomness, never in place of it.
+ *
+ * @param keyShare - Signer's key share
+ * @param message - Optional message to be signed
+ * @param extraInput - Optional additional data (e.g. a session ID)
+ * @returns Secret nonces and public commitments
+ */
+export function frostNonceGen(
+  keyShare: FrostKeyShare,
+  message?: Buffer,
+  extraInput?: Buffer,
+): FrostNonce {
+  const G = Point.getG()
+  const n = Point.getN()
+
+  const data = Buffer.concat([
+    Random.getRandomBuffer(32),
+    keyShare.secretShare.toArrayLike(Buffer, 'be', 32),
+    keyShare.groupPublicKey.toBuffer(),
+    message ?? Buffer.alloc(32),
+    extraInput ?? Buffer.alloc(0),
+  ])
+  const derive = (tag: number): BN => {
+    const k = new BN(
+      frostTaggedHash(
+        FROST_TAG_NONCE,
+        Buffer.concat([data, Buffer.from([tag])]),
+      ),
+      'be',
+    ).umod(n)
+    return k.isZero() ? new BN(1) : k
+  }
+  const d = derive(0x01)
+  const e = derive(0x02)
+
+  return {
+    secretNonces: [d, e],
+    commitment: {
+      participantIndex: keyShare.participantIndex,
+      hiding: G.mul(d),
+      binding: G.mul(e),
+    },
+  }
+}
+
+// ============================================================================
+// Signing
+// ============================================================================
+
+/**
+ * Compute the Lagrange coefficient of a signer
+ *
+ * λᵢ = Π (j / (j - i)) over all other signers j (mod n)
+ *
+ * @param participantIndex - Index of the signer
+ * @param signerIndices - Indices of the whole signing set
+ * @returns Lagrange coefficient λᵢ
+ */
+export function frostLagrangeCoefficient(
+  participantIndex: number,
+  signerIndices: number[],
+): BN {
+  const n = Point.getN()
+  const i = new BN(participantIndex)
+  let numerator = new BN(1)
+  let denominator = new BN(1)
+  for (const index of signerIndices) {
+    if (index === participantIndex) continue
+    const j = new BN(index)
+    numerator = numerator.mul(j).umod(n)
+    denominator = denominator.mul(j.sub(i).umod(n)).umod(n)
+  }
+  return numerator.mul(denominator.invm(n)).umod(n)
+}
+
+/**
+ * Compute the binding factor of every signer
+ *
+ * ρᵢ = H("FROST/rho", Y || m || H(commitment list) || i)
+ *
+ * @param commitments - Nonce commitments of the signing set
+ * @param message - Message being signed
+ * @param signingKey - Key the signature verifies against
+ * @returns Map of signer index to binding factor
+ */
+export function frostBindingFactors(
+  commitments: FrostSigningCommitment[],
+  message: Buffer,
+  signingKey: PublicKey,
+): Map<number, BN> {
+  const n = Point.getN()
+  const sorted = sortCommitments(commitments)
+  const encoded = Buffer.concat(
+    sorted.map(c =>
+      Buffer.concat([
+        indexBuffer(c.participantIndex),
+        Point.pointToCompressed(c.hiding),
+        Point.pointToCompressed(c.binding),
+      ]),
+    ),
+  )
+  const prefix = Buffer.concat([
+    signingKey.toBuffer(),
+    message,
+    Hash.sha256(encoded),
+  ])
+
+  const factors = new Map<number, BN>()
+  for (const c of sorted) {
+    const data = Buffer.concat([prefix, indexBuffer(c.participantIndex)])
+    factors.set(
+      c.participantIndex,
+      new BN(frostTaggedHash(FROST_TAG_BINDING, data), 'be').umod(n),
+    )
+  }
+  return factors
+}
+
+/**
+ * Sort commitments by signer index, rejecting duplicates
+ */
+function sortCommitments(
+  commitments: FrostSigningCommitment[],
+): FrostSigningCommitment[] {
+  if (commitments.length === 0) {
+    throw new Error('Cannot sign with zero nonce commitments')
+  }
+  const sorted = [...commitments].sort(
+    (a, b) => a.participantIndex - b.participantIndex,
+  )
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].participantIndex === sorted[i - 1].participantIndex) {
+      throw new Error(
+        `Duplicate nonce commitment for signer ${sorted[i].participantIndex}`,
+      )
+    }
+  }
+  return sorted
+}
+
+/**
+ * State shared by signing, verification and aggregation
+ */
+interface SigningContext {
+  signerIndices: number[]
+  bindingFactors: Map<number, BN>
+  /** Group commitment R = Σ(Dᵢ + ρᵢ·Eᵢ) */
+  R: Point
+  /** Whether nonces are negated (R.y not a quadratic residue) */
+  negated: boolean
+  /** Challenge e = H(R.x || compressed(Y') || m) */
+  challenge: BN
+}
+
+function signingContext(
+  commitments: FrostSigningCommitment[],
+  message: Buffer,
+  groupPublicKey: PublicKey,
+  tweak?: Buffer,
+): SigningContext {
+  const n = Point.getN()
+  const signingKey = tweak ? groupPublicKey.addScalar(tweak) : groupPublicKey
+  const sorted = sortCommitments(commitments)
+  const bindingFactors = frostBindingFactors(sorted, message, signingKey)
+
+  let R: Point | null = null
+  for (const c of sorted) {
+    c.hiding.validate()
+    c.binding.validate()
+    const Ri = c.hiding.add(
+      c.binding.mul(bindingFactors.get(c.participantIndex)!),
+    )
+    R = R === null ? Ri : R.add(Ri)
+  }
+  if (!R || R.isInfinity()) {
+    throw new Error('Group commitment is the point at infinity')
+  }
+
+  // LOTUS FORMAT: e = H(R.x || compressed(Y') || m)
+  const challengeData = Buffer.concat([
+    R.getX().toArrayLike(Buffer, 'be', 32),
+    Point.pointToCompressed(signingKey.point),
+    message,
+  ])
+
+  return {
+    signerIndices: sorted.map(c => c.participantIndex),
+    bindingFactors,
+    R,
+    negated: !R.hasSquare(),
+    challenge: new BN(Hash.sha256(challengeData), 'be').umod(n),
+  }
+}
+
+/**
+ * Create a partial signature (signing round 2)
+ *
+ * Algorithm (Lotus Schnorr adaptation):
+ * 1. Compute binding factors ρⱼ and group commitment R = Σ(Dⱼ + ρⱼ·Eⱼ)
+ * 2. Compute effective nonce k = d + ρᵢ·e, negated if R.y is not a
+ *    quadratic residue (Lotus specific!)
+ * 3. Compute challenge e = H(R.x || compressed(Y') || m)
+ * 4. Compute partial signature zᵢ = k + λᵢ·xᵢ·e (mod n)
+ *
+ * @param nonce - Signer's nonce from frostNonceGen (use only once!)
+ * @param keyShare - Signer's key share
+ * @param commitments - Nonce commitments of the whole signing set
+ * @param message - Message to sign (typically transaction sighash)
+ * @param tweak - Optional Taproot tweak (signature verifies against Y + t·G)
+ * @returns Partial signature zᵢ
+ */
+export function frostPartialSign(
+  nonce: FrostNonce,
+  keyShare: FrostKeyShare,
+  commitments: FrostSigningCommitment[],
+  message: Buffer,
+  tweak?: Buffer,
+): BN {
+  const n = Point.getN()
+  const own = commitments.find(
+    c => c.participantIndex === keyShare.participantIndex,
+  )
+  if (
+    !own ||
+    !own.hiding.eq(nonce.commitment.hiding) ||
+    !own.binding.eq(nonce.commitment.binding)
+  ) {
+    throw new Error('Signing commitments do not include this signer nonce')
+  }
+  if (commitments.length < keyShare.threshold) {
+    throw new Error(
+      `Signing set has ${commitments.length} signers, threshold is ${keyShare.threshold}`,
+    )
+  }
+
+  const ctx = signingContext(
+    commitments,
+    message,
+    keyShare.groupPublicKey,
+    tweak,
+  )
+
+  const [d, e] = nonce.secretNonces
+  const rho = ctx.bindingFactors.get(keyShare.participantIndex)!
+  let k = d.add(rho.mul(e)).umod(n)
+  if (ctx.negated) {
+    k = n.sub(k).umod(n)
+  }
+
+  const lambda = frostLagrangeCoefficient(
+    keyShare.participantIndex,
+    ctx.signerIndices,
+  )
+  return k
+    .add(lambda.mul(keyShare.secretShare).umod(n).mul(ctx.challenge))
+    .umod(n)
+}
+
+/**
+ * Verify a partial signature
+ *
+ * Verification equation: zᵢ·G = ±(Dᵢ + ρᵢ·Eᵢ) + λᵢ·e·Yᵢ
+ *
+ * @param partialSig - Partial signature to verify
+ * @param participantIndex - Index of the signer
+ * @param publicKeyPackage - Group public key and verification shares
+ * @param commitments - Nonce commitments of the whole signing set
+ * @param message - Message being signed
+ * @param tweak - Optional Taproot tweak
+ * @returns true if the partial signature is valid
+ */
+export function frostPartialSigVerify(
+  partialSig: BN,
+  participantIndex: number,
+  publicKeyPackage: FrostPublicKeyPackage,
+  commitments: FrostSigningCommitment[],
+  message: Buffer,
+  tweak?: Buffer,
+): boolean {
+  try {
+    const n = Point.getN()
+    const Yi = publicKeyPackage.verificationShares.get(participantIndex)
+    const own = commitments.find(c => c.participantIndex === participantIndex)
+    if (!Yi || !own || partialSig.gte(n)) {
+      return false
+    }
+
+    const ctx = signingContext(
+      commitments,
+      message,
+      publicKeyPackage.groupPublicKey,
+      tweak,
+    )
+    const rho = ctx.bindingFactors.get(participantIndex)!
+    const Ri = own.hiding.add(own.binding.mul(rho))
+    const lambda = frostLagrangeCoefficient(participantIndex, ctx.signerIndices)
+
+    const lhs = Point.getG().mul(partialSig)
+    const rhs = (ctx.negated ? negate(Ri) : Ri).add(
+      Yi.mul(lambda.mul(ctx.challenge).umod(n)),
+    )
+    return lhs.eq(rhs)
+  } catch (error) {
+    return false
+  }
+}
+
+/**
+ * Aggregate partial signatures into a final Schnorr signature
+ *
+ * Every partial signature is verified first, so a failure identifies the
+ * responsible signers. With a Taproot tweak, e·t is added so the signature
+ * verifies against the commitment Y + t·G.
+ *
+ * @param partialSigs - Map of signer index to partial signature
+ * @param commitments - Nonce commitments of the whole signing set
+ * @param message - Message that was signed
+ * @param publicKeyPackage - Group public key and verification shares
+ * @param tweak - Optional Taproot tweak
+ * @param sighashType - Optional sighash type to embed in the signature
+ * @returns Final 64-byte Schnorr signature
+ * @throws FrostError naming signers with missing or invalid partial signatures
+ *
+ * @example
+ * ```typescript
+ * const signature = frostSigAgg(partialSigs, commitments, message, keyShare)
+ * Schnorr.verify(message, signature, keyShare.groupPublicKey, 'big')
+ * ```
+ */
+export function frostSigAgg(
+  partialSigs: Map<number, BN>,
+  commitments: FrostSigningCommitment[],
+  message: Buffer,
+  publicKeyPackage: FrostPublicKeyPackage,
+  tweak?: Buffer,
+  sighashType?: number,
+): Signature {
+  const n = Point.getN()
+  if (commitments.length < publicKeyPackage.threshold) {
+    throw new Error(
+      `Signing set has ${commitments.length} signers, threshold is ${publicKeyPackage.threshold}`,
+    )
+  }
+
+  const culprits: number[] = []
+  for (const { participantIndex } of commitments) {
+    const partialSig = partialSigs.get(participantIndex)
+    if (
+      !partialSig ||
+      !frostPartialSigVerify(
+        partialSig,
+        participantIndex,
+        publicKeyPackage,
+        commitments,
+        message,
+        tweak,
+      )
+    ) {
+      culprits.push(participantIndex)
+    }
+  }
+  if (culprits.length > 0) {
+    throw new FrostError(
+      `Invalid partial signatures from signers ${culprits.join(', ')}`,
+      culprits.sort((a, b) => a - b),
+    )
+  }
+
+  const ctx = signingContext(
+    commitments,
+    message,
+    publicKeyPackage.groupPublicKey,
+    tweak,
+  )
+
+  let s = new BN(0)
+  for (const { participantIndex } of commitments) {
+    s = s.add(partialSigs.get(participantIndex)!).umod(n)
+  }
+  if (tweak) {
+    // s·G = R + e·Y, but the signature must verify against Y + t·G
+    s = s.add(ctx.challenge.mul(new BN(tweak, 'be').umod(n))).umod(n)
+  }
+  if (s.isZero()) {
+    throw new Error('Aggregated signature s is zero (invalid)')
+  }
+
+  return new Signature({
+    r: ctx.R.getX(),
+    s,
+    compressed: true,
+    isSchnorr: true,
+    nhashtype: sighashType,
+  })
+}
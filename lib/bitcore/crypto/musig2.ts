@@ -37,6 +37,7 @@ import { Point } from './point.js'
 import { BN } from './bn.js'
 import { Hash } from './hash.js'
 import { Signature } from './signature.js'
+import type { AdaptorSignature } from './adaptor.js'
 
 // ============================================================================
 // Type Definitions
@@ -55,8 +56,16 @@ export interface MuSigKeyAggContext {
   /** Key aggregation coefficient for each signer */
   keyAggCoeff: Map<number, BN>
 
-  /** Aggregated public key Q = Σ(aᵢ · Pᵢ) */
+  /** Aggregated public key Q = Σ(aᵢ · Pᵢ), plus tweak·G if tweaked */
   aggregatedPubKey: PublicKey
+
+  /**
+   * Accumulated tweak t (from musigApplyTweak or nesting)
+   *
+   * Signer 0 adds e·t to its partial signature so the aggregate signature
+   * verifies against the tweaked aggregatedPubKey.
+   */
+  tweak?: BN
 }
 
 /**
@@ -168,6 +177,42 @@ function keyAggCoeff(
   return new BN(hash, 'be')
 }
 
+/**
+ * Tweak term e·t added to the partial signature of signer 0
+ *
+ * @param keyAggContext - Key aggregation context (possibly tweaked)
+ * @param signerIndex - Index of the signer
+ * @param e - Challenge
+ * @returns e·t for signer 0 of a tweaked context, zero otherwise
+ */
+function tweakTerm(
+  keyAggContext: MuSigKeyAggContext,
+  signerIndex: number,
+  e: BN,
+): BN {
+  if (signerIndex !== 0 || !keyAggContext.tweak) {
+    return new BN(0)
+  }
+  return e.mul(keyAggContext.tweak).umod(Point.getN())
+}
+
+/**
+ * Effective aggregated nonce R = R₁ + b·R₂, plus T for adaptor signatures
+ *
+ * @param aggregatedNonce - Aggregated nonces
+ * @param b - Nonce coefficient
+ * @param adaptorPoint - Optional adaptor point T
+ * @returns Final nonce R of the (pre-)signature
+ */
+function effectiveNonce(
+  aggregatedNonce: MuSigAggregatedNonce,
+  b: BN,
+  adaptorPoint?: Point,
+): Point {
+  const R = aggregatedNonce.R1.add(aggregatedNonce.R2.mul(b))
+  return adaptorPoint ? R.add(adaptorPoint) : R
+}
+
 // ============================================================================
 // Key Aggregation
 // ============================================================================
@@ -278,6 +323,121 @@ export function musigKeyAgg(pubkeys: PublicKey[]): MuSigKeyAggContext {
   }
 }
 
+/**
+ * Tweak an aggregated key
+ *
+ * Returns a context for the key Q' = Q + t·G. Signing with the returned
+ * context produces signatures valid for Q': signer 0 adds e·t to its partial
+ * signature. Tweaks accumulate, so BIP32 derivation tweaks and a Taproot
+ * tweak can be applied on top of each other.
+ *
+ * @param keyAggContext - Key aggregation context (from musigKeyAgg)
+ * @param tweak - 32-byte tweak t
+ * @returns Key aggregation context for the tweaked key
+ * @throws Error if the tweaked key is the point at infinity
+ *
+ * @example
+ * ```typescript
+ * const ctx = musigKeyAgg([alice.publicKey, bob.publicKey])
+ * const tweaked = musigApplyTweak(ctx, tweak)
+ *
+ * // Sign with `tweaked` instead of `ctx`; verify against
+ * // tweaked.aggregatedPubKey
+ * ```
+ */
+export function musigApplyTweak(
+  keyAggContext: MuSigKeyAggContext,
+  tweak: Buffer | BN,
+): MuSigKeyAggContext {
+  const n = Point.getN()
+  const t = (Buffer.isBuffer(tweak) ? new BN(tweak, 'be') : tweak).umod(n)
+  const accumulated = (keyAggContext.tweak ?? new BN(0)).add(t).umod(n)
+
+  return {
+    ...keyAggContext,
+    aggregatedPubKey: keyAggContext.aggregatedPubKey.addScalar(t),
+    tweak: accumulated.isZero() ? undefined : accumulated,
+  }
+}
+
+/**
+ * Build the signing context of a nested MuSig2 group
+ *
+ * An aggregated key can itself be a participant of another aggregation
+ * (e.g. a 2-of-2 custody key made of a user key and a 3-of-3 server key).
+ * The members of the inner group sign for the outer key with the context
+ * returned here:
+ *
+ * - Keys are the inner group's keys, with coefficients aᵢ·aⱼ (outer
+ *   coefficient of the inner group times inner coefficient of the member)
+ * - The aggregated key is the outer key
+ * - Signer 0 of the inner group carries the inner group's share of the
+ *   tweaks: aᵢ·t_inner, plus the outer tweak if the inner group is outer
+ *   signer 0
+ *
+ * The inner group presents musigNonceAgg() of its members' public nonces as
+ * its public nonce in the outer session, and the sum of its members' partial
+ * signatures as its partial signature. Both verify in the outer session with
+ * musigPartialSigVerify() against the inner aggregated key. Contexts nest
+ * repeatedly for deeper trees.
+ *
+ * Nesting stays n-of-n: every member of every nested group must sign.
+ *
+ * @param outerContext - Key aggregation context of the outer group
+ * @param outerIndex - Index of the inner group in outerContext.pubkeys
+ * @param innerContext - Key aggregation context of the inner group
+ * @returns Key aggregation context for the inner group's members
+ * @throws Error if the inner aggregated key is not the outer participant key
+ *
+ * @example
+ * ```typescript
+ * const server = musigKeyAgg([s1.publicKey, s2.publicKey, s3.publicKey])
+ * const custody = musigKeyAgg([user.publicKey, server.aggregatedPubKey])
+ * const serverIndex = custody.pubkeys.findIndex(
+ *   pk => pk.toString() === server.aggregatedPubKey.toString(),
+ * )
+ * const nested = musigNestedKeyAggContext(custody, serverIndex, server)
+ *
+ * // Server member i signs for the custody key
+ * musigPartialSign(nonce, s1, nested, 0, custodyNonce, message)
+ * ```
+ */
+export function musigNestedKeyAggContext(
+  outerContext: MuSigKeyAggContext,
+  outerIndex: number,
+  innerContext: MuSigKeyAggContext,
+): MuSigKeyAggContext {
+  const n = Point.getN()
+  const participant = outerContext.pubkeys[outerIndex]
+  const outerCoeff = outerContext.keyAggCoeff.get(outerIndex)
+  if (!participant || !outerCoeff) {
+    throw new Error(`Invalid signer index: ${outerIndex}`)
+  }
+  if (participant.toString() !== innerContext.aggregatedPubKey.toString()) {
+    throw new Error(
+      'Inner aggregated key is not the outer participant key at this index',
+    )
+  }
+
+  const keyAggCoeff = new Map<number, BN>()
+  for (const [index, coeff] of innerContext.keyAggCoeff) {
+    keyAggCoeff.set(index, coeff.mul(outerCoeff).umod(n))
+  }
+
+  let tweak = (innerContext.tweak ?? new BN(0)).mul(outerCoeff)
+  if (outerIndex === 0 && outerContext.tweak) {
+    tweak = tweak.add(outerContext.tweak)
+  }
+  tweak = tweak.umod(n)
+
+  return {
+    pubkeys: innerContext.pubkeys,
+    keyAggCoeff,
+    aggregatedPubKey: outerContext.aggregatedPubKey,
+    tweak: tweak.isZero() ? undefined : tweak,
+  }
+}
+
 // ============================================================================
 // Nonce Generation
 // ============================================================================
@@ -476,17 +636,22 @@ export function musigNonceAgg(
  * Algorithm (Lotus Schnorr adaptation):
  * 1. Compute b = H("MuSig/noncecoef", Q || R₁ || R₂ || m)
  * 2. Compute effective nonce: k = k₁ + b·k₂ (mod n)
- * 3. Compute effective public nonce: R = R₁ + b·R₂
+ * 3. Compute effective public nonce: R = R₁ + b·R₂ (+ T for adaptor signatures)
  * 4. Check if R.y is quadratic residue, negate k if not (Lotus specific!)
  * 5. Compute challenge: e = H(R.x || compressed(Q) || m) (Lotus format!)
  * 6. Compute partial signature: sᵢ = k + e·aᵢ·xᵢ (mod n)
  *
+ * With an adaptor point T, the partial signatures aggregate into a
+ * pre-signature encrypted to T (see musigAdaptorSigAgg). Every signer must
+ * use the same adaptor point.
+ *
  * @param secretNonce - Signer's secret nonce (from musigNonceGen)
  * @param privateKey - Signer's private key
  * @param keyAggContext - Key aggregation context (from musigKeyAgg)
  * @param signerIndex - Index of this signer in the pubkeys array
  * @param aggregatedNonce - Aggregated nonces (from musigNonceAgg)
  * @param message - Message to sign (typically transaction sighash)
+ * @param adaptorPoint - Optional adaptor point T for an adaptor signature
  * @returns Partial signature sᵢ
  *
  * @example
@@ -508,6 +673,7 @@ export function musigPartialSign(
   signerIndex: number,
   aggregatedNonce: MuSigAggregatedNonce,
   message: Buffer,
+  adaptorPoint?: Point,
 ): BN {
   const n = Point.getN()
   const [k1, k2] = secretNonce.secretNonces
@@ -526,8 +692,8 @@ export function musigPartialSign(
   // Step 2: Compute effective nonce k = k1 + b*k2 (mod n)
   let k = k1.add(b.mul(k2)).umod(n)
 
-  // Step 3: Compute effective public nonce R = R1 + b*R2
-  const R = R1.add(R2.mul(b))
+  // Step 3: Compute effective public nonce R = R1 + b*R2 (+ T)
+  const R = effectiveNonce(aggregatedNonce, b, adaptorPoint)
 
   // Step 4: LOTUS SPECIFIC - Check if R.y is quadratic residue, negate k if not
   // This ensures the final signature's R point has an even Y coordinate
@@ -551,7 +717,8 @@ export function musigPartialSign(
   const x = privateKey.bn
   const s = k.add(e.mul(a).mul(x)).umod(n)
 
-  return s
+  // Step 8: Signer 0 adds e*t for a tweaked key: s·G = R + e·(Q + t·G)
+  return s.add(tweakTerm(keyAggContext, signerIndex, e)).umod(n)
 }
 
 // ============================================================================
@@ -574,6 +741,7 @@ export function musigPartialSign(
  * @param signerIndex - Index of the signer
  * @param aggregatedNonce - Aggregated nonces
  * @param message - Message being signed
+ * @param adaptorPoint - Optional adaptor point T for an adaptor signature
  * @returns true if partial signature is valid
  *
  * @example
@@ -597,6 +765,7 @@ export function musigPartialSigVerify(
   signerIndex: number,
   aggregatedNonce: MuSigAggregatedNonce,
   message: Buffer,
+  adaptorPoint?: Point,
 ): boolean {
   try {
     const G = Point.getG()
@@ -620,8 +789,8 @@ export function musigPartialSigVerify(
     // Step 2: Compute effective public nonce for this signer: Ri = R1,i + b*R2,i
     const R_i = R1_i.add(R2_i.mul(b))
 
-    // Step 3: Compute effective aggregated nonce: R = R1 + b*R2
-    const R = R1.add(R2.mul(b))
+    // Step 3: Compute effective aggregated nonce: R = R1 + b*R2 (+ T)
+    const R = effectiveNonce(aggregatedNonce, b, adaptorPoint)
 
     // Handle Lotus nonce negation (if R.y not quadratic residue, negate)
     const negated = !R.hasSquare()
@@ -641,8 +810,10 @@ export function musigPartialSigVerify(
     // Step 6: Verify equation: s_i * G = R_i + e * a * P_i
     // (or s_i * G = -R_i + e * a * P_i if R was negated)
     //
-    // Left side: s_i * G
-    const lhs = G.mul(partialSig.umod(n))
+    // Left side: s_i * G, without the tweak term of signer 0
+    const lhs = G.mul(
+      partialSig.sub(tweakTerm(keyAggContext, signerIndex, e)).umod(n),
+    )
 
     // Right side: R_i + e * a * P_i (or -R_i + e * a * P_i)
     const eaP = publicKey.point.mul(e.mul(a).umod(n))
@@ -762,6 +933,68 @@ export function musigSigAgg(
   return signature
 }
 
+/**
+ * Aggregate partial signatures into an adaptor signature
+ *
+ * Like musigSigAgg, for partial signatures created with an adaptor point.
+ * The result is a pre-signature (R, ŝ) that verifies with adaptorVerify()
+ * against the aggregated public key and completes with adaptorComplete()
+ * once the adaptor secret is known.
+ *
+ * @param partialSigs - Array of partial signatures from all signers
+ * @param aggregatedNonce - Aggregated nonces
+ * @param message - Message that was signed
+ * @param aggregatedPubKey - Aggregated public key (Taproot commitment if tweaked)
+ * @param adaptorPoint - Adaptor point T used by every signer
+ * @returns Pre-signature encrypted to T
+ *
+ * @example
+ * ```typescript
+ * const preSig = musigAdaptorSigAgg(
+ *   [alicePartialSig, bobPartialSig],
+ *   aggNonce,
+ *   message,
+ *   ctx.aggregatedPubKey,
+ *   adaptorPoint
+ * )
+ *
+ * // Completing reveals the secret to anyone holding preSig
+ * const signature = adaptorComplete(preSig, secret)
+ * ```
+ */
+export function musigAdaptorSigAgg(
+  partialSigs: BN[],
+  aggregatedNonce: MuSigAggregatedNonce,
+  message: Buffer,
+  aggregatedPubKey: PublicKey,
+  adaptorPoint: Point,
+): AdaptorSignature {
+  if (partialSigs.length === 0) {
+    throw new Error('Cannot aggregate zero partial signatures')
+  }
+
+  const n = Point.getN()
+  const { R1, R2 } = aggregatedNonce
+
+  // Compute nonce coefficient b = H("MuSig/noncecoef", Q || R1 || R2 || m)
+  const nonceCoefData = Buffer.concat([
+    aggregatedPubKey.toBuffer(),
+    Point.pointToCompressed(R1),
+    Point.pointToCompressed(R2),
+    message,
+  ])
+  const b = new BN(musigTaggedHash(MUSIG_TAG_NONCE_COEFF, nonceCoefData), 'be')
+
+  // Final nonce R = R1 + b*R2 + T, pre-signature ŝ = Σ(s_i) mod n
+  const R = effectiveNonce(aggregatedNonce, b, adaptorPoint)
+  let s = new BN(0)
+  for (const partialSig of partialSigs) {
+    s = s.add(partialSig).umod(n)
+  }
+
+  return { R, s }
+}
+
 // ============================================================================
 // Exports
 // ============================================================================
@@ -771,11 +1004,14 @@ export function musigSigAgg(
  *
  * Core functions:
  * - musigKeyAgg: Aggregate public keys
+ * - musigApplyTweak: Tweak an aggregated key
+ * - musigNestedKeyAggContext: Sign as a member of a nested group
  * - musigNonceGen: Generate signing nonces
  * - musigNonceAgg: Aggregate nonces from all signers
  * - musigPartialSign: Create partial signature
  * - musigPartialSigVerify: Verify a partial signature
  * - musigSigAgg: Aggregate partial signatures into final signature
+ * - musigAdaptorSigAgg: Aggregate partial signatures into an adaptor signature
  *
  * Types:
  * - MuSigKeyAggContext: Key aggregation result
@@ -785,10 +1021,13 @@ export function musigSigAgg(
 
 export default {
   musigKeyAgg,
+  musigApplyTweak,
+  musigNestedKeyAggContext,
   musigNonceGen,
   musigNonceAgg,
   musigPartialSign,
   musigPartialSigVerify,
   musigSigAgg,
+  musigAdaptorSigAgg,
   musigTaggedHash,
 }
@@ -0,0 +1,896 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+/**
+ * Output Script Descriptors for Lotus
+ *
+ * Parses output script descriptors (BIP380-386, BIP390) into objects that
+ * derive output scripts, `Address` and `XAddress` values for single indexes
+ * or ranges of indexes.
+ *
+ * Supported script expressions:
+ * - `pk(KEY)`, `pkh(KEY)`
+ * - `multi(k,KEY,...)`, `sortedmulti(k,KEY,...)`
+ * - `sh(SCRIPT)` wrapping any of the above
+ * - `tr(KEY)` and `tr(KEY,TREE)`, where TREE is a leaf script expression or
+ *   a `{TREE,TREE}` branch
+ * - `addr(ADDRESS)`, `raw(HEX)`
+ *
+ * Supported key expressions:
+ * - Hex encoded compressed public keys and WIF private keys
+ * - `xpub`/`xprv` extended keys with an optional `[fingerprint/path]` origin
+ *   and a `/path` suffix, optionally ending in a `*` or `*'` wildcard
+ * - `musig(KEY,...)` inside `tr()`, aggregated with MuSig2
+ *
+ * Lotus differences:
+ * - Only 33-byte compressed keys are accepted; `tr()` commits to the full
+ *   compressed internal key rather than an x-only key
+ * - `tr(KEY)` tweaks with a zero merkle root, matching buildKeyPathTaproot
+ * - `musig()` aggregates with musigKeyAgg, which sorts the participant keys
+ *
+ * Reference: https://github.com/bitcoin/bips/blob/master/bip-0380.mediawiki
+ *
+ * @module Descriptor
+ */
+
+import { PublicKey } from './publickey.js'
+import { PrivateKey } from './privatekey.js'
+import { HDPrivateKey } from './hdprivatekey.js'
+import { HDPublicKey } from './hdpublickey.js'
+import { Address } from './address.js'
+import { XAddress } from './xaddress.js'
+import { Script } from './script.js'
+import { Base58Check } from './encoding/base58check.js'
+import { Network, get as getNetwork, defaultNetwork } from './networks.js'
+import { musigKeyAgg } from './crypto/musig2.js'
+import {
+  HARDENED_OFFSET,
+  formatDerivationPath,
+  parseDerivationStep,
+} from './util/derivation.js'
+import {
+  buildKeyPathTaproot,
+  buildScriptPathTaproot,
+  type TapLeaf,
+  type TapNode,
+} from './taproot.js'
+
+const INPUT_CHARSET =
+  "0123456789()[],'/*abcdefgh@:$%{}" +
+  'IJKLMNOPQRSTUVWXYZ&+-.;<=>?!^_|~' +
+  'ijklmnopqrstuvwxyzABCDEFGH`#"\\ '
+const CHECKSUM_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l'
+const GENERATOR = [
+  0xf5dee51989n,
+  0xa9fdca3312n,
+  0x1bab10e32dn,
+  0x3706b1677an,
+  0x644d626ffdn,
+]
+
+/**
+ * Descriptor parsing or derivation error
+ */
+export class DescriptorError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DescriptorError'
+  }
+}
+
+/**
+ * Everything needed to fund or spend one derived descriptor output
+ */
+export interface DescriptorExpansion {
+  /** Output script (scriptPubKey) */
+  script: Script
+  /** Redeem script for `sh()` descriptors */
+  redeemScript?: Script
+  /** Public keys in the order they appear in the descriptor */
+  publicKeys: PublicKey[]
+  /** Taproot internal key for `tr()` descriptors */
+  internalPubKey?: PublicKey
+  /** Taproot merkle root (all zeros without a script tree) */
+  merkleRoot?: Buffer
+  /** Taproot script tree for `tr(KEY,TREE)` descriptors */
+  scriptTree?: TapNode
+  /** Taproot leaves in the order they appear in the tree */
+  leaves?: TapLeaf[]
+}
+
+/**
+ * Compute the 8 character checksum of a descriptor (without `#checksum`)
+ *
+ * @param descriptor - Descriptor string
+ * @returns Checksum string
+ * @throws DescriptorError if the descriptor contains invalid characters
+ */
+export function descriptorChecksum(descriptor: string): string {
+  const symbols: number[] = []
+  const groups: number[] = []
+  for (const char of descriptor) {
+    const value = INPUT_CHARSET.indexOf(char)
+    if (value === -1) {
+      throw new DescriptorError(`Invalid descriptor character: ${char}`)
+    }
+    symbols.push(value & 31)
+    groups.push(value >> 5)
+    if (groups.length === 3) {
+      symbols.push(groups[0] * 9 + groups[1] * 3 + groups[2])
+      groups.length = 0
+    }
+  }
+  if (groups.length === 1) {
+    symbols.push(groups[0])
+  } else if (groups.length === 2) {
+    symbols.push(groups[0] * 3 + groups[1])
+  }
+  symbols.push(0, 0, 0, 0, 0, 0, 0, 0)
+
+  let checksum = 1n
+  for (const value of symbols) {
+    const top = checksum >> 35n
+    checksum = ((checksum & 0x7ffffffffn) << 5n) ^ BigInt(value)
+    for (let i = 0; i < 5; i++) {
+      if ((top >> BigInt(i)) & 1n) {
+        checksum ^= GENERATOR[i]
+      }
+    }
+  }
+  checksum ^= 1n
+
+  let result = ''
+  for (let i = 0; i < 8; i++) {
+    result += CHECKSUM_CHARSET[Number((checksum >> BigInt(5 * (7 - i))) & 31n)]
+  }
+  return result
+}
+
+/**
+ * Split a comma separated argument list at the top nesting level
+ */
+function splitArgs(str: string): string[] {
+  const args: string[] = []
+  let depth = 0
+  let start = 0
+  for (let i = 0; i < str.length; i++) {
+    const char = str[i]
+    if (char === '(' || char === '{' || char === '[') {
+      depth++
+    } else if (char === ')' || char === '}' || char === ']') {
+      depth--
+      if (depth < 0) {
+        throw new DescriptorError(`Unbalanced '${char}' in: ${str}`)
+      }
+    } else if (char === ',' && depth === 0) {
+      args.push(str.slice(start, i))
+      start = i + 1
+    }
+  }
+  if (depth !== 0) {
+    throw new DescriptorError(`Unbalanced brackets in: ${str}`)
+  }
+  args.push(str.slice(start))
+  return args
+}
+
+/**
+ * Split `name(args)` into its name and argument list
+ */
+function parseCall(expr: string): { name: string; args: string[] } | null {
+  const match = /^([a-z]+)\((.*)\)$/s.exec(expr)
+  if (!match) {
+    return null
+  }
+  return { name: match[1], args: splitArgs(match[2]) }
+}
+
+/**
+ * Parse one derivation step such as `0`, `1'` or `2h`
+ */
+function parsePathElement(element: string): number {
+  const index = parseDerivationStep(element)
+  if (index === null) {
+    throw new DescriptorError(`Invalid derivation step: ${element}`)
+  }
+  return index
+}
+
+/**
+ * Identify a serialized extended key by its version bytes
+ */
+function extendedKeyKind(str: string): 'xprv' | 'xpub' | null {
+  let decoded: Buffer
+  try {
+    decoded = Base58Check.decode(str)
+  } catch (e) {
+    return null
+  }
+  if (decoded.length !== 78) {
+    return null
+  }
+  const version = decoded.readUInt32BE(0)
+  if (getNetwork(version, 'xprivkey')) {
+    return 'xprv'
+  }
+  if (getNetwork(version, 'xpubkey')) {
+    return 'xpub'
+  }
+  return null
+}
+
+/**
+ * Parsed key expression
+ */
+class KeyExpression {
+  /** Key origin fingerprint and path, printed as `[fingerprint/path]` */
+  origin?: { fingerprint: Buffer; path: number[] }
+  /** Single key or extended key */
+  key?: PublicKey | PrivateKey | HDPublicKey | HDPrivateKey
+  /** Derivation steps following an extended key */
+  path: number[] = []
+  /** Trailing wildcard */
+  wildcard: 'none' | 'unhardened' | 'hardened' = 'none'
+  /** Participants of a `musig()` expression */
+  musig?: KeyExpression[]
+
+  static parse(str: string, allowMuSig: boolean): KeyExpression {
+    const expr = new KeyExpression()
+
+    const call = parseCall(str)
+    if (call && call.name === 'musig') {
+      if (!allowMuSig) {
+        throw new DescriptorError('musig() is only allowed inside tr()')
+      }
+      if (call.args.length < 2) {
+        throw new DescriptorError('musig() requires at least two keys')
+      }
+      expr.musig = call.args.map(arg => KeyExpression.parse(arg, false))
+      return expr
+    }
+
+    let rest = str
+    if (rest.startsWith('[')) {
+      const end = rest.indexOf(']')
+      if (end === -1) {
+        throw new DescriptorError(`Unterminated key origin: ${str}`)
+      }
+      const [fingerprint, ...steps] = rest.slice(1, end).split('/')
+      if (!/^[0-9a-fA-F]{8}$/.test(fingerprint)) {
+        throw new DescriptorError(`Invalid key origin fingerprint: ${str}`)
+      }
+      expr.origin = {
+        fingerprint: Buffer.from(fingerprint, 'hex'),
+        path: steps.map(parsePathElement),
+      }
+      rest = rest.slice(end + 1)
+    }
+
+    const [keyStr, ...steps] = rest.split('/')
+    if (/^[0-9a-fA-F]+$/.test(keyStr)) {
+      if (keyStr.length !== 66) {
+        throw new DescriptorError(`Expected a compressed public key: ${str}`)
+      }
+      try {
+        expr.key = new PublicKey(keyStr)
+      } catch (e) {
+        throw new DescriptorError(`Invalid public key: ${keyStr}`)
+      }
+    } else {
+      const kind = extendedKeyKind(keyStr)
+      if (kind === 'xprv') {
+        expr.key = HDPrivateKey.fromString(keyStr)
+      } else if (kind === 'xpub') {
+        expr.key = HDPublicKey.fromString(keyStr)
+      } else {
+        try {
+          expr.key = PrivateKey.fromWIF(keyStr)
+        } catch (e) {
+          throw new DescriptorError(`Invalid key: ${keyStr}`)
+        }
+        if (!expr.key.compressed) {
+          throw new DescriptorError(`Expected a compressed private key: ${str}`)
+        }
+      }
+    }
+
+    if (steps.length > 0) {
+      if (!expr.isExtended()) {
+        throw new DescriptorError(`Derivation requires an extended key: ${str}`)
+      }
+      const last = steps[steps.length - 1]
+      if (last === '*') {
+        expr.wildcard = 'unhardened'
+        steps.pop()
+      } else if (last === "*'" || last === '*h') {
+        expr.wildcard = 'hardened'
+        steps.pop()
+      }
+      expr.path = steps.map(parsePathElement)
+      const hardened =
+        expr.wildcard === 'hardened' ||
+        expr.path.some(i => i >= HARDENED_OFFSET)
+      if (hardened && !(expr.key instanceof HDPrivateKey)) {
+        throw new DescriptorError(
+          `Hardened derivation requires an extended private key: ${str}`,
+        )
+      }
+    }
+
+    return expr
+  }
+
+  isExtended(): boolean {
+    return this.key instanceof HDPrivateKey || this.key instanceof HDPublicKey
+  }
+
+  isRange(): boolean {
+    if (this.musig) {
+      return this.musig.some(key => key.isRange())
+    }
+    return this.wildcard !== 'none'
+  }
+
+  hasPrivate(): boolean {
+    if (this.musig) {
+      return this.musig.some(key => key.hasPrivate())
+    }
+    return this.key instanceof PrivateKey || this.key instanceof HDPrivateKey
+  }
+
+  get network(): Network | undefined {
+    if (this.musig) {
+      return this.musig.find(key => key.network)?.network
+    }
+    if (this.isExtended() || this.key instanceof PrivateKey) {
+      return (this.key as HDPublicKey | HDPrivateKey | PrivateKey).network
+    }
+    return undefined
+  }
+
+  getPublicKey(index: number): PublicKey {
+    if (this.musig) {
+      return musigKeyAgg(this.musig.map(key => key.getPublicKey(index)))
+        .aggregatedPubKey
+    }
+    const key = this.key!
+    if (key instanceof PublicKey) {
+      return key
+    }
+    if (key instanceof PrivateKey) {
+      return key.publicKey
+    }
+
+    const path = [...this.path]
+    if (this.wildcard !== 'none') {
+      if (!Number.isInteger(index) || index < 0 || index >= HARDENED_OFFSET) {
+        throw new DescriptorError(`Invalid derivation index: ${index}`)
+      }
+      path.push(this.wildcard === 'hardened' ? index + HARDENED_OFFSET : index)
+    }
+
+    let derived: HDPrivateKey | HDPublicKey = key
+    for (const step of path) {
+      derived = derived.deriveChild(step)
+    }
+    return derived.publicKey
+  }
+
+  toString(includePrivate: boolean): string {
+    if (this.musig) {
+      return `musig(${this.musig
+        .map(key => key.toString(includePrivate))
+        .join(',')})`
+    }
+
+    let str = ''
+    if (this.origin) {
+      const fingerprint = this.origin.fingerprint.toString('hex')
+      str += `[${formatDerivationPath(this.origin.path, fingerprint)}]`
+    }
+
+    const key = this.key!
+    if (key instanceof HDPrivateKey) {
+      str += includePrivate ? key.toString() : key.hdPublicKey.toString()
+    } else if (key instanceof HDPublicKey) {
+      str += key.toString()
+    } else if (key instanceof PrivateKey) {
+      str += includePrivate ? key.toWIF() : key.publicKey.toString()
+    } else {
+      str += key.toString()
+    }
+
+    str += formatDerivationPath(this.path, '')
+    if (this.wildcard === 'unhardened') {
+      str += '/*'
+    } else if (this.wildcard === 'hardened') {
+      str += "/*'"
+    }
+    return str
+  }
+}
+
+/**
+ * Taproot script tree of script expressions
+ */
+type TreeExpression =
+  | ScriptExpression
+  | { left: TreeExpression; right: TreeExpression }
+
+/**
+ * Parsed script expression
+ */
+type ScriptExpression =
+  | { type: 'pk' | 'pkh'; key: KeyExpression }
+  | { type: 'multi' | 'sortedmulti'; threshold: number; keys: KeyExpression[] }
+  | { type: 'sh'; inner: ScriptExpression }
+  | { type: 'tr'; internalKey: KeyExpression; tree?: TreeExpression }
+  | { type: 'addr'; address: Address }
+  | { type: 'raw'; script: Script }
+
+type ScriptContext = 'top' | 'sh' | 'leaf'
+
+function parseScript(expr: string, context: ScriptContext): ScriptExpression {
+  const call = parseCall(expr)
+  if (!call) {
+    throw new DescriptorError(`Invalid script expression: ${expr}`)
+  }
+  const { name, args } = call
+  const allowMuSig = context === 'leaf'
+
+  switch (name) {
+    case 'pk':
+    case 'pkh':
+      if (args.length !== 1) {
+        throw new DescriptorError(`${name}() takes exactly one key`)
+      }
+      return { type: name, key: KeyExpression.parse(args[0], allowMuSig) }
+
+    case 'multi':
+    case 'sortedmulti': {
+      if (!/^\d+$/.test(args[0])) {
+        throw new DescriptorError(`Invalid ${name}() threshold: ${args[0]}`)
+      }
+      const threshold = Number(args[0])
+      const keys = args
+        .slice(1)
+        .map(arg => KeyExpression.parse(arg, allowMuSig))
+      if (keys.length === 0 || keys.length > 16) {
+        throw new DescriptorError(`${name}() requires between 1 and 16 keys`)
+      }
+      if (threshold < 1 || threshold > keys.length) {
+        throw new DescriptorError(
+          `${name}() threshold must be between 1 and ${keys.length}`,
+        )
+      }
+      return { type: name, threshold, keys }
+    }
+
+    case 'sh': {
+      if (context !== 'top') {
+        throw new DescriptorError('sh() is only allowed at the top level')
+      }
+      if (args.length !== 1) {
+        throw new DescriptorError('sh() takes exactly one script')
+      }
+      return { type: 'sh', inner: parseScript(args[0], 'sh') }
+    }
+
+    case 'tr': {
+      if (context !== 'top') {
+        throw new DescriptorError('tr() is only allowed at the top level')
+      }
+      if (args.length !== 1 && args.length !== 2) {
+        throw new DescriptorError('tr() takes a key and an optional tree')
+      }
+      return {
+        type: 'tr',
+        internalKey: KeyExpression.parse(args[0], true),
+        tree: args.length === 2 ? parseTree(args[1]) : undefined,
+      }
+    }
+
+    case 'addr': {
+      if (context !== 'top') {
+        throw new DescriptorError('addr() is only allowed at the top level')
+      }
+      let address: Address
+      try {
+        address = Address.fromString(args.join(','))
+      } catch (e) {
+        throw new DescriptorError(`Invalid address: ${args.join(',')}`)
+      }
+      return { type: 'addr', address }
+    }
+
+    case 'raw': {
+      if (context !== 'top') {
+        throw new DescriptorError('raw() is only allowed at the top level')
+      }
+      if (args.length !== 1 || !/^([0-9a-fA-F]{2})*$/.test(args[0])) {
+        throw new DescriptorError(`Invalid raw() script: ${args.join(',')}`)
+      }
+      return {
+        type: 'raw',
+        script: Script.fromBuffer(Buffer.from(args[0], 'hex')),
+      }
+    }
+
+    default:
+      throw new DescriptorError(`Unknown script expression: ${name}()`)
+  }
+}
+
+function parseTree(expr: string): TreeExpression {
+  if (expr.startsWith('{') && expr.endsWith('}')) {
+    const branches = splitArgs(expr.slice(1, -1))
+    if (branches.length !== 2) {
+      throw new DescriptorError(`Tree branches must have two children: ${expr}`)
+    }
+    return { left: parseTree(branches[0]), right: parseTree(branches[1]) }
+  }
+  return parseScript(expr, 'leaf')
+}
+
+function isBranch(
+  node: TreeExpression,
+): node is { left: TreeExpression; right: TreeExpression } {
+  return 'left' in node
+}
+
+function expressionKeys(expr: ScriptExpression): KeyExpression[] {
+  switch (expr.type) {
+    case 'pk':
+    case 'pkh':
+      return [expr.key]
+    case 'multi':
+    case 'sortedmulti':
+      return expr.keys
+    case 'sh':
+      return expressionKeys(expr.inner)
+    case 'tr': {
+      const keys = [expr.internalKey]
+      const walk = (node: TreeExpression): void => {
+        if (isBranch(node)) {
+          walk(node.left)
+          walk(node.right)
+        } else {
+          keys.push(...expressionKeys(node))
+        }
+      }
+      if (expr.tree) {
+        walk(expr.tree)
+      }
+      return keys
+    }
+    default:
+      return []
+  }
+}
+
+function formatScript(expr: ScriptExpression, includePrivate: boolean): string {
+  switch (expr.type) {
+    case 'pk':
+    case 'pkh':
+      return `${expr.type}(${expr.key.toString(includePrivate)})`
+    case 'multi':
+    case 'sortedmulti':
+      return `${expr.type}(${[
+        expr.threshold,
+        ...expr.keys.map(key => key.toString(includePrivate)),
+      ].join(',')})`
+    case 'sh':
+      return `sh(${formatScript(expr.inner, includePrivate)})`
+    case 'tr': {
+      const internalKey = expr.internalKey.toString(includePrivate)
+      if (!expr.tree) {
+        return `tr(${internalKey})`
+      }
+      const formatTree = (node: TreeExpression): string =>
+        isBranch(node)
+          ? `{${formatTree(node.left)},${formatTree(node.right)}}`
+          : formatScript(node, includePrivate)
+      return `tr(${internalKey},${formatTree(expr.tree)})`
+    }
+    case 'addr':
+      return `addr(${expr.address.toString()})`
+    case 'raw':
+      return `raw(${expr.script.toBuffer().toString('hex')})`
+  }
+}
+
+/**
+ * Output script descriptor
+ *
+ * @example
+ * ```typescript
+ * const desc = Descriptor.parse(`pkh(${xpub}/0/*)`)
+ * const addresses = desc.getAddresses(0, 20)
+ * console.log(desc.toString()) // pkh(xpub.../0/*)#checksum
+ * ```
+ */
+export class Descriptor {
+  private readonly _expr: ScriptExpression
+
+  private constructor(expr: ScriptExpression) {
+    this._expr = expr
+  }
+
+  /**
+   * Parse a descriptor string
+   *
+   * A trailing `#checksum` is verified when present.
+   *
+   * @param descriptor - Descriptor string
+   * @param opts.requireChecksum - Reject descriptors without a checksum
+   * @returns Parsed descriptor
+   * @throws DescriptorError if the descriptor or its checksum is invalid
+   */
+  static parse(
+    descriptor: string,
+    opts: { requireChecksum?: boolean } = {},
+  ): Descriptor {
+    const hash = descriptor.indexOf('#')
+    let body = descriptor
+    if (hash !== -1) {
+      body = descriptor.slice(0, hash)
+      const checksum = descriptor.slice(hash + 1)
+      if (checksum.length !== 8) {
+        throw new DescriptorError('Descriptor checksum must be 8 characters')
+      }
+      const expected = descriptorChecksum(body)
+      if (checksum !== expected) {
+        throw new DescriptorError(
+          `Invalid descriptor checksum: expected ${expected}, got ${checksum}`,
+        )
+      }
+    } else if (opts.requireChecksum) {
+      throw new DescriptorError('Descriptor checksum is missing')
+    } else {
+      // Reject characters that cannot be checksummed
+      descriptorChecksum(body)
+    }
+    return new Descriptor(parseScript(body, 'top'))
+  }
+
+  /**
+   * Check whether a descriptor string is valid
+   */
+  static isValid(
+    descriptor: string,
+    opts: { requireChecksum?: boolean } = {},
+  ): boolean {
+    try {
+      Descriptor.parse(descriptor, opts)
+      return true
+    } catch (e) {
+      return false
+    }
+  }
+
+  /** Top level script expression name, e.g. `pkh`, `sh` or `tr` */
+  get type(): ScriptExpression['type'] {
+    return this._expr.type
+  }
+
+  /**
+   * Network of the descriptor's keys, or the default network if none of
+   * the keys carry one
+   */
+  get network(): Network {
+    if (this._expr.type === 'addr') {
+      return this._expr.address.network
+    }
+    for (const key of expressionKeys(this._expr)) {
+      if (key.network) {
+        return key.network
+      }
+    }
+    return defaultNetwork
+  }
+
+  /** Checksum of the public form of the descriptor */
+  get checksum(): string {
+    return descriptorChecksum(formatScript(this._expr, false))
+  }
+
+  /**
+   * Whether the descriptor contains a wildcard and derives a range of scripts
+   */
+  isRange(): boolean {
+    return expressionKeys(this._expr).some(key => key.isRange())
+  }
+
+  /**
+   * Whether the descriptor contains private keys
+   */
+  hasPrivateKeys(): boolean {
+    return expressionKeys(this._expr).some(key => key.hasPrivate())
+  }
+
+  /**
+   * Derive the output script and spending data at an index
+   *
+   * @param index - Wildcard index (ignored by non-range descriptors)
+   */
+  expand(index: number = 0): DescriptorExpansion {
+    return this._expand(this._expr, index)
+  }
+
+  /**
+   * Derive the output script at an index
+   */
+  getScript(index: number = 0): Script {
+    return this.expand(index).script
+  }
+
+  /**
+   * Derive output scripts for the indexes in [start, end)
+   */
+  getScripts(start: number, end: number): Script[] {
+    return this._range(start, end).map(index => this.getScript(index))
+  }
+
+  /**
+   * Derive the address at an index
+   *
+   * @throws DescriptorError if the script has no address form (pk, multi, raw)
+   */
+  getAddress(index: number = 0, network?: Network | string): Address {
+    if (this._expr.type === 'addr') {
+      return network
+        ? Script.fromAddress(this._expr.address).toAddress(network)!
+        : this._expr.address
+    }
+    const script = this.getScript(index)
+    if (
+      !script.isPayToTaproot() &&
+      !script.isPublicKeyHashOut() &&
+      !script.isScriptHashOut()
+    ) {
+      throw new DescriptorError(
+        `${this._expr.type}() descriptors have no address form`,
+      )
+    }
+    return script.toAddress(network ?? this.network)!
+  }
+
+  /**
+   * Derive addresses for the indexes in [start, end)
+   */
+  getAddresses(
+    start: number,
+    end: number,
+    network?: Network | string,
+  ): Address[] {
+    return this._range(start, end).map(index => this.getAddress(index, network))
+  }
+
+  /**
+   * Derive the XAddress at an index
+   */
+  getXAddress(index: number = 0, network?: Network | string): XAddress {
+    return XAddress.fromString(
+      this.getAddress(index, network).toXAddress(network),
+    )
+  }
+
+  /**
+   * Derive XAddresses for the indexes in [start, end)
+   */
+  getXAddresses(
+    start: number,
+    end: number,
+    network?: Network | string,
+  ): XAddress[] {
+    return this._range(start, end).map(index =>
+      this.getXAddress(index, network),
+    )
+  }
+
+  /**
+   * Serialize the descriptor with its checksum
+   *
+   * @param includePrivate - Print private keys instead of their public keys
+   */
+  toString(includePrivate: boolean = false): string {
+    const body = formatScript(this._expr, includePrivate)
+    return `${body}#${descriptorChecksum(body)}`
+  }
+
+  private _range(start: number, end: number): number[] {
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start > end) {
+      throw new DescriptorError(`Invalid index range: ${start}..${end}`)
+    }
+    if (!this.isRange() && end - start > 1) {
+      throw new DescriptorError('Descriptor is not ranged')
+    }
+    const indexes: number[] = []
+    for (let index = start; index < end; index++) {
+      indexes.push(index)
+    }
+    return indexes
+  }
+
+  private _expand(expr: ScriptExpression, index: number): DescriptorExpansion {
+    switch (expr.type) {
+      case 'pk': {
+        const pubkey = expr.key.getPublicKey(index)
+        return {
+          script: Script.buildPublicKeyOut(pubkey),
+          publicKeys: [pubkey],
+        }
+      }
+      case 'pkh': {
+        const pubkey = expr.key.getPublicKey(index)
+        return {
+          script: Script.buildPublicKeyHashOut(pubkey),
+          publicKeys: [pubkey],
+        }
+      }
+      case 'multi':
+      case 'sortedmulti': {
+        const publicKeys = expr.keys.map(key => key.getPublicKey(index))
+        const ordered =
+          expr.type === 'sortedmulti'
+            ? [...publicKeys].sort((a, b) =>
+                Buffer.compare(a.toBuffer(), b.toBuffer()),
+              )
+            : publicKeys
+        return {
+          script: Script.buildMultisigOut(ordered, expr.threshold, {
+            noSorting: true,
+          }),
+          publicKeys,
+        }
+      }
+      case 'sh': {
+        const inner = this._expand(expr.inner, index)
+        return {
+          script: Script.buildScriptHashOut(inner.script),
+          redeemScript: inner.script,
+          publicKeys: inner.publicKeys,
+        }
+      }
+      case 'tr': {
+        const internalPubKey = expr.internalKey.getPublicKey(index)
+        if (!expr.tree) {
+          return {
+            script: buildKeyPathTaproot(internalPubKey),
+            publicKeys: [internalPubKey],
+            internalPubKey,
+            merkleRoot: Buffer.alloc(32),
+          }
+        }
+        const publicKeys = [internalPubKey]
+        const buildTree = (node: TreeExpression): TapNode => {
+          if (isBranch(node)) {
+            return { left: buildTree(node.left), right: buildTree(node.right) }
+          }
+          const leaf = this._expand(node, index)
+          publicKeys.push(...leaf.publicKeys)
+          return { script: leaf.script }
+        }
+        const scriptTree = buildTree(expr.tree)
+        const result = buildScriptPathTaproot(internalPubKey, scriptTree)
+        return {
+          script: result.script,
+          publicKeys,
+          internalPubKey,
+          merkleRoot: result.merkleRoot,
+          scriptTree,
+          leaves: result.leaves,
+        }
+      }
+      case 'addr':
+        return {
+          script: Script.fromAddress(expr.address),
+          publicKeys: [],
+        }
+      case 'raw':
+        return { script: expr.script, publicKeys: [] }
+    }
+  }
+}
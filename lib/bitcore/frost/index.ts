@@ -0,0 +1,19 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * FROST High-Level API
+ *
+ * Threshold (t-of-n) signing with FROST key shares.
+ *
+ * @module FROST
+ */
+
+export {
+  FrostSigner,
+  createFrostSigner,
+  type FrostSignerConfig,
+} from './signer.js'
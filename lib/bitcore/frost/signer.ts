@@ -0,0 +1,336 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * FROST Signer - High-Level Wrapper for Threshold Signing
+ *
+ * Counterpart of MuSig2Signer for t-of-n signing with a FROST key share.
+ * Signatures are standard Lotus Schnorr signatures for the group public key
+ * (or its Taproot commitment), and transaction inputs are signed with the
+ * same SIGHASH_LOTUS rules as MuSig2Signer.
+ *
+ * Signing Flow:
+ * 1. Every signer of the signing set calls prepare() and shares
+ *    nonce.commitment
+ * 2. With the commitments of the whole signing set, every signer calls
+ *    createPartialSignature() (or signTaprootInput()) and shares the result
+ * 3. Any participant calls sign() (or completeTaprootSigning()); invalid
+ *    partial signatures raise a FrostError naming the culprits
+ *
+ * @module FrostSigner
+ */
+
+import { PublicKey } from '../publickey.js'
+import { Signature } from '../crypto/signature.js'
+import { Hash } from '../crypto/hash.js'
+import { BN } from '../crypto/bn.js'
+import {
+  frostNonceGen,
+  frostPartialSign,
+  frostPartialSigVerify,
+  frostSigAgg,
+  type FrostKeyShare,
+  type FrostNonce,
+  type FrostSigningCommitment,
+} from '../crypto/frost.js'
+import {
+  buildFrostTaprootKey,
+  type FrostTaprootKeyResult,
+} from '../taproot/frost.js'
+import { TAPROOT_SIGHASH_TYPE } from '../taproot.js'
+import { Transaction } from '../transaction/transaction.js'
+import { sighash } from '../transaction/sighash.js'
+
+/**
+ * Configuration for creating a FROST signer
+ */
+export interface FrostSignerConfig {
+  /** This participant's key share (from the DKG) */
+  keyShare: FrostKeyShare
+}
+
+/**
+ * High-level FROST Signer
+ *
+ * @example
+ * ```typescript
+ * // 3-of-5 treasury: carol, dave and erin sign
+ * const signer = new FrostSigner({ keyShare: carolShare })
+ *
+ * // Round 1: share nonce.commitment with the signing set
+ * const nonce = signer.prepare(message)
+ *
+ * // Round 2: after receiving all commitments
+ * const partialSig = signer.createPartialSignature(nonce, commitments, message)
+ *
+ * // Any participant aggregates
+ * const signature = signer.sign(partialSigs, commitments, message)
+ * ```
+ */
+export class FrostSigner {
+  private config: FrostSignerConfig
+
+  // Nonces already used for a partial signature
+  private usedNonces = new WeakSet<FrostNonce>()
+
+  /**
+   * Create a new FROST signer
+   *
+   * @param config - Signer configuration
+   */
+  constructor(config: FrostSignerConfig) {
+    if (!config.keyShare) {
+      throw new Error('FrostSigner: keyShare is required')
+    }
+    this.config = config
+  }
+
+  /**
+   * Prepare for signing (Round 1: Generate nonces)
+   *
+   * Nonces are single-use: call prepare() again for every signing session.
+   * Every call draws fresh randomness, so repeated calls for the same
+   * message return different nonces.
+   *
+   * @param message - Optional message to sign (mixed into nonce generation)
+   * @param extraInput - Optional additional data mixed into nonce generation
+   * @returns Nonce whose commitment must be shared with the signing set
+   */
+  prepare(message?: Buffer | string, extraInput?: Buffer): FrostNonce {
+    return frostNonceGen(
+      this.config.keyShare,
+      message === undefined ? undefined : this._normalizeMessage(message),
+      extraInput,
+    )
+  }
+
+  /**
+   * Create a partial signature (Round 2)
+   *
+   * @param nonce - Result from prepare() (consumed by this call)
+   * @param commitments - Nonce commitments of the whole signing set
+   * @param message - Message to sign
+   * @param tweak - Optional Taproot tweak
+   * @returns Partial signature to share with the aggregator
+   */
+  createPartialSignature(
+    nonce: FrostNonce,
+    commitments: FrostSigningCommitment[],
+    message: Buffer | string,
+    tweak?: Buffer,
+  ): BN {
+    if (this.usedNonces.has(nonce)) {
+      throw new Error('FrostSigner: nonce already used')
+    }
+    const partialSig = frostPartialSign(
+      nonce,
+      this.config.keyShare,
+      commitments,
+      this._normalizeMessage(message),
+      tweak,
+    )
+    this.usedNonces.add(nonce)
+    return partialSig
+  }
+
+  /**
+   * Verify a partial signature from another signer
+   *
+   * @param partialSig - Partial signature to verify
+   * @param participantIndex - Index of the signer
+   * @param commitments - Nonce commitments of the whole signing set
+   * @param message - Message being signed
+   * @param tweak - Optional Taproot tweak
+   * @returns true if partial signature is valid
+   */
+  verifyPartialSignature(
+    partialSig: BN,
+    participantIndex: number,
+    commitments: FrostSigningCommitment[],
+    message: Buffer | string,
+    tweak?: Buffer,
+  ): boolean {
+    return frostPartialSigVerify(
+      partialSig,
+      participantIndex,
+      this.config.keyShare,
+      commitments,
+      this._normalizeMessage(message),
+      tweak,
+    )
+  }
+
+  /**
+   * Aggregate the partial signatures of the signing set
+   *
+   * @param partialSigs - Map of signer index to partial signature
+   * @param commitments - Nonce commitments of the whole signing set
+   * @param message - Message being signed
+   * @param tweak - Optional Taproot tweak
+   * @param sighashType - Optional sighash type to embed in the signature
+   * @returns Final aggregated signature
+   * @throws FrostError naming signers with invalid partial signatures
+   */
+  sign(
+    partialSigs: Map<number, BN>,
+    commitments: FrostSigningCommitment[],
+    message: Buffer | string,
+    tweak?: Buffer,
+    sighashType?: number,
+  ): Signature {
+    return frostSigAgg(
+      partialSigs,
+      commitments,
+      this._normalizeMessage(message),
+      this.config.keyShare,
+      tweak,
+      sighashType,
+    )
+  }
+
+  /**
+   * Prepare for Taproot key-path signing
+   *
+   * @param state - Optional 32-byte state data
+   * @returns Taproot output script, commitment and tweak
+   */
+  prepareTaproot(state?: Buffer): FrostTaprootKeyResult {
+    return buildFrostTaprootKey(this.config.keyShare.groupPublicKey, state)
+  }
+
+  /**
+   * Sign a Taproot transaction input (Round 2)
+   *
+   * @param prepare - Result from prepareTaproot()
+   * @param nonce - Result from prepare() (consumed by this call)
+   * @param commitments - Nonce commitments of the whole signing set
+   * @param transaction - Transaction being signed
+   * @param inputIndex - Index of the input to sign
+   * @param amount - Amount of the output being spent
+   * @param sighashType - Signature hash type (default: SIGHASH_ALL | SIGHASH_LOTUS)
+   * @returns Partial signature for Taproot spending
+   */
+  signTaprootInput(
+    prepare: FrostTaprootKeyResult,
+    nonce: FrostNonce,
+    commitments: FrostSigningCommitment[],
+    transaction: Transaction,
+    inputIndex: number,
+    amount: number,
+    sighashType?: number,
+  ): BN {
+    return this.createPartialSignature(
+      nonce,
+      commitments,
+      this._taprootSighash(
+        prepare,
+        transaction,
+        inputIndex,
+        amount,
+        sighashType,
+      ),
+      prepare.tweak,
+    )
+  }
+
+  /**
+   * Complete Taproot transaction signing
+   *
+   * @param prepare - Result from prepareTaproot()
+   * @param commitments - Nonce commitments of the whole signing set
+   * @param partialSigs - Map of signer index to partial signature
+   * @param transaction - Transaction being signed
+   * @param inputIndex - Index of input being signed
+   * @param amount - Amount being spent
+   * @param sighashType - Signature hash type (default: SIGHASH_ALL | SIGHASH_LOTUS)
+   * @returns Final signature for the Taproot input
+   */
+  completeTaprootSigning(
+    prepare: FrostTaprootKeyResult,
+    commitments: FrostSigningCommitment[],
+    partialSigs: Map<number, BN>,
+    transaction: Transaction,
+    inputIndex: number,
+    amount: number,
+    sighashType?: number,
+  ): Signature {
+    const sigType = sighashType || TAPROOT_SIGHASH_TYPE
+    return this.sign(
+      partialSigs,
+      commitments,
+      this._taprootSighash(prepare, transaction, inputIndex, amount, sigType),
+      prepare.tweak,
+      sigType,
+    )
+  }
+
+  /**
+   * Get this participant's index
+   */
+  get participantIndex(): number {
+    return this.config.keyShare.participantIndex
+  }
+
+  /**
+   * Get the FROST group public key
+   */
+  get groupPublicKey(): PublicKey {
+    return this.config.keyShare.groupPublicKey
+  }
+
+  // Private helper methods
+
+  /**
+   * Compute the SIGHASH_LOTUS sighash of a Taproot key-path input
+   */
+  private _taprootSighash(
+    prepare: FrostTaprootKeyResult,
+    transaction: Transaction,
+    inputIndex: number,
+    amount: number,
+    sighashType?: number,
+  ): Buffer {
+    const sigType = sighashType || TAPROOT_SIGHASH_TYPE
+    // Taproot key path MUST use SIGHASH_LOTUS
+    if ((sigType & 0x60) !== Signature.SIGHASH_LOTUS) {
+      throw new Error(
+        'Taproot key spend signatures must use "SIGHASH_ALL | SIGHASH_LOTUS" (0x61)',
+      )
+    }
+    return sighash(
+      transaction,
+      sigType,
+      inputIndex,
+      prepare.script,
+      new BN(amount),
+    )
+  }
+
+  /**
+   * Normalize message to 32 bytes (required for Lotus Schnorr)
+   *
+   * If message is a string or not exactly 32 bytes, hash it to 32 bytes.
+   */
+  private _normalizeMessage(message: Buffer | string): Buffer {
+    if (typeof message === 'string') {
+      return Hash.sha256(Buffer.from(message, 'utf8'))
+    }
+    if (message.length === 32) {
+      return message
+    }
+    return Hash.sha256(message)
+  }
+}
+
+/**
+ * Helper function to create a FROST signer quickly
+ *
+ * @param keyShare - This participant's key share
+ * @returns New FrostSigner instance
+ */
+export function createFrostSigner(keyShare: FrostKeyShare): FrostSigner {
+  return new FrostSigner({ keyShare })
+}
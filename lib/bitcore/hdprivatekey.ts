@@ -20,6 +20,7 @@ import { Base58Check } from './encoding/base58check.js'
 import { JSUtil } from './util/js.js'
 import { Preconditions } from './util/preconditions.js'
 import { HDPublicKey } from './hdpublickey.js'
+import { parseDerivationPath } from './util/derivation.js'
 
 export interface HDPrivateKeyData {
   xprivkey?: string
@@ -303,38 +304,11 @@ export class HDPrivateKey {
 
   /**
    * Internal function that splits a string path into a derivation index array.
+   * Hardened steps may be written as `1'`, `1h` or `1H`.
    * It will return null if the string path is malformed.
-   * It does not validate if indexes are in bounds.
    */
   private static _getDerivationIndexes(path: string): number[] | null {
-    const steps = path.split('/')
-
-    // Special cases:
-    if (HDPrivateKey.RootElementAlias.includes(path)) {
-      return []
-    }
-
-    if (!HDPrivateKey.RootElementAlias.includes(steps[0])) {
-      return null
-    }
-
-    const indexes = steps.slice(1).map(step => {
-      const isHardened = step.slice(-1) === "'"
-      if (isHardened) {
-        step = step.slice(0, -1)
-      }
-      if (!step || step[0] === '-') {
-        return NaN
-      }
-      let index = +step // cast to number
-      if (isHardened) {
-        index += HDPrivateKey.Hardened
-      }
-
-      return index
-    })
-
-    return indexes.some(isNaN) ? null : indexes
+    return parseDerivationPath(path)
   }
 
   /**
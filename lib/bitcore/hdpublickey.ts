@@ -12,6 +12,7 @@ import { Base58Check } from './encoding/base58check.js'
 import { JSUtil } from './util/js.js'
 import { Preconditions } from './util/preconditions.js'
 import { Point } from './crypto/point.js'
+import { parseDerivationPath } from './util/derivation.js'
 import type { HDPrivateKeyBuffers } from './hdprivatekey.js'
 
 export interface HDPublicKeyData {
@@ -139,9 +140,8 @@ export class HDPublicKey {
    */
   static isValidPath(arg: string | number): boolean {
     if (typeof arg === 'string') {
-      // Simplified implementation since HDPrivateKey._getDerivationIndexes is not available
-      const indexes = arg.split('/').slice(1).map(Number)
-      return indexes.every(HDPublicKey.isValidPath)
+      const indexes = parseDerivationPath(arg)
+      return indexes !== null && indexes.every(HDPublicKey.isValidPath)
     }
 
     if (typeof arg === 'number') {
@@ -563,14 +563,13 @@ export class HDPublicKey {
    * Derive from string path
    */
   private _deriveFromString(path: string): HDPublicKey {
-    if (path.includes("'")) {
-      throw new Error('Cannot derive hardened keys from public key')
-    } else if (!HDPublicKey.isValidPath(path)) {
+    const indexes = parseDerivationPath(path)
+    if (indexes === null) {
       throw new Error('Invalid path')
+    } else if (indexes.some(index => index >= HDPublicKey.Hardened)) {
+      throw new Error('Cannot derive hardened keys from public key')
     }
 
-    // For now, we'll implement a simplified version since HDPrivateKey._getDerivationIndexes is not available
-    const indexes = path.split('/').slice(1).map(Number)
     const derived = indexes.reduce((prev: HDPublicKey, index: number) => {
       return prev._deriveWithNumber(index)
     }, this)
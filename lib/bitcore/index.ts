@@ -16,17 +16,29 @@ export { BN } from './crypto/bn.js'
 // MuSig2 module
 export {
   musigKeyAgg,
+  musigApplyTweak,
+  musigNestedKeyAggContext,
   musigNonceGen,
   musigNonceAgg,
   musigPartialSign,
   musigPartialSigVerify,
   musigSigAgg,
+  musigAdaptorSigAgg,
   musigTaggedHash,
   type MuSigKeyAggContext,
   type MuSigNonce,
   type MuSigAggregatedNonce,
 } from './crypto/musig2.js'
 
+// Schnorr adaptor signatures
+export {
+  adaptorSign,
+  adaptorVerify,
+  adaptorComplete,
+  adaptorExtract,
+  type AdaptorSignature,
+} from './crypto/adaptor.js'
+
 // MuSig2 session management
 export {
   MuSigSessionManager,
@@ -44,6 +56,13 @@ export {
   type MuSig2TaprootSignResult,
 } from './musig2/signer.js'
 
+// MuSig2 aggregate extended public keys (BIP328)
+export {
+  musigAggregateXpub,
+  musigDeriveKeyAggContext,
+  MUSIG_XPUB_CHAIN_CODE,
+} from './musig2/xpub.js'
+
 // Taproot + MuSig2 integration
 export {
   buildMuSigTaprootKey,
@@ -55,17 +74,81 @@ export {
   type MuSigTaprootKeyResult,
 } from './taproot/musig2.js'
 
+// Timelocked refund paths for MuSig2 Taproot outputs
+export {
+  buildMuSigRefundTaproot,
+  buildRefundLeafScript,
+  buildRefundSpend,
+  getRefundSequence,
+  REFUND_SIGHASH_TYPE,
+  type MuSigRefundTaprootResult,
+  type RefundSpendConfig,
+  type RefundSpendResult,
+} from './taproot/refund.js'
+
+// FROST threshold signatures
+export {
+  frostDkgRound1,
+  frostDkgRound2,
+  frostDkgFinalize,
+  frostVerifyDkgCommitment,
+  frostVerifyDkgShare,
+  frostNonceGen,
+  frostLagrangeCoefficient,
+  frostBindingFactors,
+  frostPartialSign,
+  frostPartialSigVerify,
+  frostSigAgg,
+  frostTaggedHash,
+  FrostError,
+  type FrostDkgCommitment,
+  type FrostDkgSecret,
+  type FrostPublicKeyPackage,
+  type FrostKeyShare,
+  type FrostSigningCommitment,
+  type FrostNonce,
+} from './crypto/frost.js'
+
+export {
+  // FROST high-level wrapper (simplified API)
+  FrostSigner,
+  createFrostSigner,
+  type FrostSignerConfig,
+} from './frost/signer.js'
+
+// Taproot + FROST integration
+export {
+  buildFrostTaprootKey,
+  buildFrostTaprootKeyWithScripts,
+  createFrostTaprootAddress,
+  type FrostTaprootKeyResult,
+} from './taproot/frost.js'
+
 // Key modules
 export { PrivateKey } from './privatekey.js'
 export { PublicKey } from './publickey.js'
 export { HDPrivateKey } from './hdprivatekey.js'
 export { HDPublicKey } from './hdpublickey.js'
 
+// Descriptor module
+export {
+  Descriptor,
+  DescriptorError,
+  descriptorChecksum,
+  type DescriptorExpansion,
+} from './descriptor.js'
+
 // Utility modules
 export { JSUtil } from './util/js.js'
 export { Preconditions } from './util/preconditions.js'
 export { Base32 } from './util/base32.js'
 export { convertBits } from './util/convertBits.js'
+export {
+  HARDENED_OFFSET,
+  parseDerivationPath,
+  parseDerivationStep,
+  formatDerivationPath,
+} from './util/derivation.js'
 export { BufferUtil, NULL_HASH, EMPTY_BUFFER } from './util/buffer.js'
 export { util } from './util.js'
 
@@ -101,6 +184,13 @@ export { XAddress } from './xaddress.js'
 export { Script } from './script.js'
 export { Opcode } from './opcode.js'
 export { Interpreter } from './script/interpreter.js'
+export { InterpreterTrace } from './script/trace.js'
+export type {
+  InterpreterTracePhase,
+  InterpreterTraceStep,
+  InterpreterTraceObject,
+  InterpreterTraceTableOptions,
+} from './script/trace.js'
 export { Chunk } from './chunk.js'
 export { type ScriptType, ScriptTypes, toAddress, empty } from './script.js'
 
@@ -109,6 +199,12 @@ export { Unit } from './unit.js'
 
 // Message module
 export { Message } from './message.js'
+export type {
+  MessageOptions,
+  MessageSignOptions,
+  MessageProofOptions,
+  MessageAddress,
+} from './message.js'
 
 // URI module
 export { URI } from './uri.js'
@@ -124,10 +220,26 @@ export {
   Output,
   UnspentOutput,
   sighash,
+  sighashPreimage,
+  explainSighash,
   sign,
   verify,
   TransactionSignature,
   Transaction,
+  selectCoins,
+  CoinSelectionError,
+  PSBT,
+  PSBTError,
+  PSBT_MAGIC,
+  PSBT_VERSION,
+  checkStandardness,
+  getDustThreshold,
+  MAX_STANDARD_VERSION,
+  MAX_STANDARD_TX_SIZE,
+  MAX_TX_IN_SCRIPT_SIG_SIZE,
+  MAX_STANDARD_MULTISIG_KEYS,
+  MAX_STANDARD_TX_SIGCHECKS,
+  DUST_RELAY_FEE_PER_KB,
 } from './transaction/index.js'
 
 // Sighash constants
@@ -191,18 +303,50 @@ export type {
   NFTTransfer,
   NFTMintConfig,
   NFTTransferConfig,
+  NFTBatchTransfer,
+  NFTBatchTransferConfig,
   NFTUtxo,
   NFTWithScriptPath,
   NFTWithCollection,
   NFTInfo,
   NFTObject,
+  NFTSwapOfferConfig,
+  NFTSwapOffer,
+  NFTSwapOfferObject,
+  NFTSwapCompleteConfig,
+  NFTRoyalty,
+  NFTEscrow,
+  NFTPolicy,
+  NFTRoyaltyTransferConfig,
+  NFTBurnConfig,
+  NFTEscrowClaimConfig,
+  NFTWithPolicy,
 } from './taproot/nft.js'
 
 // Block components
-export { Block, BlockHeader } from './block/index.js'
+export {
+  Block,
+  BlockHeader,
+  HeaderChain,
+  HeaderChainError,
+  LOTUS_TARGET_SPACING,
+  ASERT_HALF_LIFE,
+} from './block/index.js'
 
 // Mnemonic components
-export { Mnemonic, MnemonicError, pbkdf2, Words } from './mnemonic/index.js'
+export {
+  Mnemonic,
+  MnemonicError,
+  pbkdf2,
+  Words,
+  Slip39,
+} from './mnemonic/index.js'
+export type {
+  Pbkdf2Digest,
+  Slip39Group,
+  Slip39Options,
+  Slip39Share,
+} from './mnemonic/index.js'
 
 // TypeScript type exports
 export type {
@@ -216,6 +360,23 @@ export type {
   TransactionSignatureObject,
   TransactionData,
   TransactionObject,
+  TransactionInputScriptVerification,
+  TransactionScriptVerification,
+  CoinSelectionStrategy,
+  CoinSelectionCandidate,
+  CoinSelectionOptions,
+  CoinSelectionResult,
+  PSBTInput,
+  PSBTOutput,
+  PSBTInputUpdate,
+  PSBTOutputUpdate,
+  PSBTSignOptions,
+  PSBTTapLeafScript,
+  StandardnessReason,
+  StandardnessViolation,
+  StandardnessUtxo,
+  StandardnessOptions,
+  StandardnessResult,
 } from './transaction/index.js'
 
 export type {
@@ -223,6 +384,12 @@ export type {
   BlockObject,
   BlockHeaderData,
   BlockHeaderObject,
+  MerkleProof,
+  HeaderChainEntry,
+  HeaderChainUpdate,
+  HeaderChainOptions,
+  AsertAnchor,
+  DifficultyRule,
 } from './block/index.js'
 
 // Additional interface exports for commonly used types
@@ -269,4 +436,9 @@ export type { URIParams } from './uri.js'
 
 export type { UnitData } from './unit.js'
 
-export type { TransactionLike } from './transaction/sighash.js'
+export type {
+  TransactionLike,
+  SighashField,
+  SighashExplanation,
+  SighashExplainOptions,
+} from './transaction/sighash.js'
@@ -1,48 +1,138 @@
 /**
  * Message class for signing and verifying Bitcoin messages
  * Migrated from bitcore-lib-xpi with ESM support
+ *
+ * Three signature formats are supported, all base64 encoded:
+ * - Compact ECDSA (65 bytes): the public key is recovered from the signature,
+ *   so only P2PKH addresses can verify it
+ * - Schnorr (97 bytes): the 33-byte public key followed by a 64-byte Schnorr
+ *   signature, verifiable against P2PKH and key-path Taproot addresses
+ * - Proof of ownership (BIP322-style): a signed virtual transaction spending
+ *   the address's script, so any address the signer can spend from (P2SH
+ *   multisig, Taproot) can prove control
  */
 
 import { Hash } from './crypto/hash.js'
 import { ECDSA } from './crypto/ecdsa.js'
+import { Schnorr } from './crypto/schnorr.js'
 import { Signature } from './crypto/signature.js'
 import { PrivateKey } from './privatekey.js'
 import { PublicKey } from './publickey.js'
 import { Address } from './address.js'
+import { XAddress } from './xaddress.js'
+import { Script } from './script.js'
+import { Opcode } from './opcode.js'
+import { Interpreter } from './script/interpreter.js'
+import { Transaction } from './transaction/transaction.js'
+import { Input } from './transaction/input.js'
+import { Output } from './transaction/output.js'
+import { taggedHash, tweakPrivateKey } from './taproot.js'
 import { JSUtil } from './util/js.js'
 import { BufferWriter } from './encoding/bufferwriter.js'
 import { Preconditions } from './util/preconditions.js'
 
+/**
+ * Message construction options
+ */
+export interface MessageOptions {
+  /** Magic prefix of the signed message hash (default: Message.MAGIC_BYTES) */
+  magic?: string | Buffer
+}
+
+/**
+ * Schnorr message signing options
+ */
+export interface MessageSignOptions {
+  /** Sign for a key-path Taproot address by tweaking the private key */
+  taproot?: boolean
+
+  /** Merkle root of the Taproot script tree (default: key-path only) */
+  merkleRoot?: Buffer
+}
+
+/**
+ * Proof of ownership options
+ */
+export interface MessageProofOptions {
+  /** Public keys of a P2SH multisig address */
+  publicKeys?: PublicKey[]
+
+  /** Number of signatures required by a P2SH multisig address */
+  threshold?: number
+
+  /** Merkle root of a Taproot address's script tree (default: key-path only) */
+  merkleRoot?: Buffer
+}
+
+/** Address forms accepted by signature verification */
+export type MessageAddress = Address | XAddress | string
+
 export class Message {
   private _message: string
+  private _magic: Buffer
+  private _legacyFallback: boolean
   public error?: string // Match reference: error property for verification failures
 
-  // Constants to match reference
-  // Note: Lotus uses "Bitcoin Signed Message:\n" for compatibility with Bitcoin message signing standard
-  // This matches lotusd/src/util/message.cpp:22 MESSAGE_MAGIC
-  static readonly MAGIC_BYTES = Buffer.from('Bitcoin Signed Message:\n')
+  /**
+   * Magic prefix of lotusd's signmessage/verifymessage RPCs
+   * This matches lotusd/src/util/message.cpp:22 MESSAGE_MAGIC
+   */
+  static readonly BITCOIN_MAGIC_BYTES = Buffer.from('Bitcoin Signed Message:\n')
+  /** Lotus-specific magic prefix */
+  static readonly LOTUS_MAGIC_BYTES = Buffer.from('Lotus Signed Message:\n')
+  /** Default magic prefix */
+  static readonly MAGIC_BYTES = Message.LOTUS_MAGIC_BYTES
+
+  /** Tag of the message hash committed to by proofs of ownership */
+  static readonly PROOF_TAG = 'BIP0322-signed-message'
 
-  constructor(message: string) {
+  /** Script verification flags for proofs of ownership */
+  static readonly PROOF_VERIFY_FLAGS =
+    Interpreter.SCRIPT_VERIFY_P2SH |
+    Interpreter.SCRIPT_VERIFY_STRICTENC |
+    Interpreter.SCRIPT_VERIFY_DERSIG |
+    Interpreter.SCRIPT_VERIFY_LOW_S |
+    Interpreter.SCRIPT_VERIFY_NULLFAIL |
+    Interpreter.SCRIPT_ENABLE_SIGHASH_FORKID |
+    Interpreter.SCRIPT_ENABLE_SCHNORR_MULTISIG
+
+  private static readonly COMPACT_SIZE = 65
+  private static readonly SCHNORR_SIZE = 33 + 64
+
+  /**
+   * @param message - Message to sign or verify
+   * @param options - Message options. Without a magic prefix, signatures are
+   * made with the Lotus prefix and compact ECDSA signatures made with the
+   * legacy Bitcoin prefix (e.g. by lotusd) still verify
+   */
+  constructor(message: string, options: MessageOptions = {}) {
     Preconditions.checkArgument(
       typeof message === 'string',
       'First argument should be a string',
     )
     this._message = message
+    this._magic =
+      options.magic === undefined
+        ? Message.MAGIC_BYTES
+        : Buffer.from(options.magic)
+    this._legacyFallback = options.magic === undefined
+  }
+
+  /**
+   * Magic prefix of the signed message hash
+   */
+  get magic(): Buffer {
+    return this._magic
   }
 
   /**
    * Get the magic hash for signing
    */
-  magicHash(): Buffer {
-    const prefix1 = BufferWriter.varintBufNum(Message.MAGIC_BYTES.length)
+  magicHash(magic: Buffer = this._magic): Buffer {
+    const prefix1 = BufferWriter.varintBufNum(magic.length)
     const messageBuffer = Buffer.from(this._message)
     const prefix2 = BufferWriter.varintBufNum(messageBuffer.length)
-    const buf = Buffer.concat([
-      prefix1,
-      Message.MAGIC_BYTES,
-      prefix2,
-      messageBuffer,
-    ])
+    const buf = Buffer.concat([prefix1, magic, prefix2, messageBuffer])
     const hash = Hash.sha256sha256(buf)
     return hash
   }
@@ -73,10 +163,45 @@ export class Message {
     return signature.toCompact().toString('base64') // Match reference: base64 format
   }
 
+  /**
+   * Sign the message with a Schnorr signature
+   *
+   * Schnorr signatures do not allow public key recovery, so the signature
+   * carries the public key. For a Taproot address the key is tweaked to the
+   * address's commitment, so only key-path Taproot addresses can be used
+   * (see signProof() for script-path addresses).
+   *
+   * @param privateKey - Signing key, or the internal key of a Taproot address
+   * @param options - Taproot signing options
+   * @returns Base64 public key and signature
+   */
+  signSchnorr(
+    privateKey: PrivateKey,
+    options: MessageSignOptions = {},
+  ): string {
+    Preconditions.checkArgument(
+      privateKey instanceof PrivateKey,
+      'First argument should be an instance of PrivateKey',
+    )
+    const key =
+      options.taproot || options.merkleRoot
+        ? tweakPrivateKey(privateKey, options.merkleRoot)
+        : privateKey
+    const signature = Schnorr.sign(this.magicHash(), key, 'big')
+    return Buffer.concat([
+      key.publicKey.toBuffer(),
+      signature.toBuffer('schnorr'),
+    ]).toString('base64')
+  }
+
   /**
    * Internal verify method
    */
-  private _verify(publicKey: PublicKey, signature: Signature): boolean {
+  private _verify(
+    publicKey: PublicKey,
+    signature: Signature,
+    magic: Buffer = this._magic,
+  ): boolean {
     Preconditions.checkArgument(
       publicKey instanceof PublicKey,
       'First argument should be an instance of PublicKey',
@@ -85,7 +210,7 @@ export class Message {
       signature instanceof Signature,
       'Second argument should be an instance of Signature',
     )
-    const hash = this.magicHash()
+    const hash = this.magicHash(magic)
     const verified = ECDSA.verify(hash, signature, publicKey)
     if (!verified) {
       this.error = 'The signature was invalid'
@@ -94,29 +219,63 @@ export class Message {
   }
 
   /**
-   * Verify a signature against a Bitcoin address
+   * Verify a signature against an address
+   *
+   * Accepts compact ECDSA signatures (P2PKH), Schnorr signatures (P2PKH and
+   * key-path Taproot) and proofs of ownership (any address).
    */
-  verify(bitcoinAddress: Address | string, signatureString: string): boolean {
+  verify(bitcoinAddress: MessageAddress, signatureString: string): boolean {
     Preconditions.checkArgument(!!bitcoinAddress, 'bitcoinAddress is required')
     Preconditions.checkArgument(
       !!(signatureString && typeof signatureString === 'string'),
       'signatureString is required',
     )
 
-    const address =
-      typeof bitcoinAddress === 'string'
-        ? Address.fromString(bitcoinAddress)
-        : bitcoinAddress
+    const address = Message._toAddress(bitcoinAddress)
+    const signatureBuffer = Buffer.from(signatureString, 'base64')
 
-    const signature = Signature.fromCompact(
-      Buffer.from(signatureString, 'base64'),
+    switch (signatureBuffer.length) {
+      case Message.COMPACT_SIZE:
+        return this._verifyCompact(address, signatureBuffer)
+      case Message.SCHNORR_SIZE:
+        return this._verifySchnorr(address, signatureBuffer)
+      default:
+        return this.verifyProof(address, signatureString)
+    }
+  }
+
+  /**
+   * Verify a compact ECDSA signature, falling back to the legacy prefix
+   */
+  private _verifyCompact(address: Address, signatureBuffer: Buffer): boolean {
+    const verified = this._verifyCompactWith(
+      address,
+      signatureBuffer,
+      this._magic,
     )
+    if (verified || !this._legacyFallback) {
+      return verified
+    }
+    if (
+      this._verifyCompactWith(
+        address,
+        signatureBuffer,
+        Message.BITCOIN_MAGIC_BYTES,
+      )
+    ) {
+      this.error = undefined
+      return true
+    }
+    return false
+  }
 
-    // Recover the public key
-    const ecdsa = new ECDSA()
-    ecdsa.hashbuf = this.magicHash()
-    ecdsa.sig = signature
-    const publicKey = ecdsa.toPublicKey()
+  private _verifyCompactWith(
+    address: Address,
+    signatureBuffer: Buffer,
+    magic: Buffer,
+  ): boolean {
+    const signature = Signature.fromCompact(signatureBuffer)
+    const publicKey = this._recover(signature, magic)
 
     const signatureAddress = Address.fromPublicKey(publicKey, address.network)
 
@@ -126,14 +285,52 @@ export class Message {
       return false
     }
 
-    return this._verify(publicKey, signature)
+    return this._verify(publicKey, signature, magic)
+  }
+
+  /**
+   * Verify a Schnorr signature prefixed with its public key
+   */
+  private _verifySchnorr(address: Address, signatureBuffer: Buffer): boolean {
+    let publicKey: PublicKey
+    try {
+      publicKey = PublicKey.fromBuffer(signatureBuffer.subarray(0, 33))
+    } catch {
+      this.error = 'The signature public key was invalid'
+      return false
+    }
+
+    const signatureAddress = address.isPayToTaproot()
+      ? Address.fromTaprootCommitment(publicKey, address.network)
+      : Address.fromPublicKey(publicKey, address.network)
+    if (address.toString() !== signatureAddress.toString()) {
+      this.error = 'The signature public key did not match the address'
+      return false
+    }
+
+    const signature = Signature.fromSchnorr(signatureBuffer.subarray(33))
+    if (!Schnorr.verify(this.magicHash(), signature, publicKey, 'big')) {
+      this.error = 'The signature was invalid'
+      return false
+    }
+    return true
+  }
+
+  /**
+   * Recover the public key of a compact signature
+   */
+  private _recover(signature: Signature, magic: Buffer): PublicKey {
+    const ecdsa = new ECDSA()
+    ecdsa.hashbuf = this.magicHash(magic)
+    ecdsa.sig = signature
+    return ecdsa.toPublicKey()
   }
 
   /**
    * Recover public key from signature
    */
   recoverPublicKey(
-    bitcoinAddress: Address | string,
+    bitcoinAddress: MessageAddress,
     signatureString: string,
   ): string {
     Preconditions.checkArgument(!!bitcoinAddress, 'bitcoinAddress is required')
@@ -142,36 +339,196 @@ export class Message {
       'signatureString is required',
     )
 
-    const address =
-      typeof bitcoinAddress === 'string'
-        ? Address.fromString(bitcoinAddress)
-        : bitcoinAddress
+    const address = Message._toAddress(bitcoinAddress)
 
     const signature = Signature.fromCompact(
       Buffer.from(signatureString, 'base64'),
     )
 
     // Recover the public key
-    const ecdsa = new ECDSA()
-    ecdsa.hashbuf = this.magicHash()
-    ecdsa.sig = signature
-    const publicKey = ecdsa.toPublicKey()
+    let publicKey = this._recover(signature, this._magic)
+    const matches = (key: PublicKey) =>
+      address.toString() ===
+      Address.fromPublicKey(key, address.network).toString()
 
-    const signatureAddress = Address.fromPublicKey(publicKey, address.network)
+    if (!matches(publicKey) && this._legacyFallback) {
+      const legacyKey = this._recover(signature, Message.BITCOIN_MAGIC_BYTES)
+      if (matches(legacyKey)) {
+        publicKey = legacyKey
+      }
+    }
 
     // Check that the recovered address and specified address match
-    if (address.toString() !== signatureAddress.toString()) {
+    if (!matches(publicKey)) {
       this.error = 'The signature did not match the message digest'
     }
 
     return publicKey.toString()
   }
 
+  /**
+   * Sign a BIP322-style proof of ownership
+   *
+   * The proof is a virtual transaction spending an output locked by the
+   * address's script. The output's transaction commits to the message, so
+   * the spend can only be reused for the same message and address. Proofs
+   * do not use the magic prefix.
+   *
+   * @param privateKeys - Key(s) able to spend from the address. For Taproot,
+   * the internal key
+   * @param address - P2PKH, P2SH multisig or Taproot address
+   * @param options - Multisig public keys and threshold, or Taproot merkle root
+   * @returns Base64 signed virtual transaction
+   * @throws if the keys cannot spend from the address
+   */
+  signProof(
+    privateKeys: PrivateKey | PrivateKey[],
+    address: MessageAddress,
+    options: MessageProofOptions = {},
+  ): string {
+    const proofAddress = Message._toAddress(address)
+    const toSpend = this._toSpend(Script.fromAddress(proofAddress))
+    const utxo = {
+      txId: toSpend.id,
+      outputIndex: 0,
+      script: toSpend.outputs[0].script,
+      satoshis: 0,
+      merkleRoot: options.merkleRoot,
+    }
+
+    const toSign = new Transaction()
+    if (proofAddress.isPayToScriptHash()) {
+      const { publicKeys, threshold } = options
+      Preconditions.checkArgument(
+        !!publicKeys && !!threshold,
+        'P2SH proofs require the multisig public keys and threshold',
+      )
+      Preconditions.checkArgument(
+        Address.createMultisig(
+          publicKeys!,
+          threshold!,
+          proofAddress.network,
+        ).toString() === proofAddress.toString(),
+        'Multisig public keys and threshold do not match the address',
+      )
+      toSign.from(utxo, publicKeys, threshold)
+    } else {
+      toSign.from(utxo)
+    }
+    toSign.version = 0
+    toSign.nLockTime = 0
+    toSign.inputs[0].sequenceNumber = 0
+    toSign.addOutput(
+      new Output({ script: Message._proofOutputScript(), satoshis: 0 }),
+    )
+
+    if (proofAddress.isPayToTaproot()) {
+      toSign.signSchnorr(privateKeys)
+    } else {
+      toSign.sign(privateKeys)
+    }
+
+    const proof = toSign.toBuffer().toString('base64')
+    Preconditions.checkState(
+      this.verifyProof(proofAddress, proof),
+      `The private keys cannot prove ownership of the address: ${this.error}`,
+    )
+    return proof
+  }
+
+  /**
+   * Verify a BIP322-style proof of ownership
+   */
+  verifyProof(address: MessageAddress, proof: string): boolean {
+    const proofAddress = Message._toAddress(address)
+
+    let toSign: Transaction
+    try {
+      toSign = new Transaction(Buffer.from(proof, 'base64'))
+    } catch {
+      this.error = 'The proof was not a transaction'
+      return false
+    }
+
+    const toSpend = this._toSpend(Script.fromAddress(proofAddress))
+    const input = toSign.inputs[0]
+    const output = toSign.outputs[0]
+    if (
+      toSign.version !== 0 ||
+      toSign.nLockTime !== 0 ||
+      toSign.inputs.length !== 1 ||
+      toSign.outputs.length !== 1 ||
+      input.prevTxId.toString('hex') !== toSpend.id ||
+      input.outputIndex !== 0 ||
+      input.sequenceNumber !== 0 ||
+      output.satoshis !== 0 ||
+      !output.script.equals(Message._proofOutputScript())
+    ) {
+      this.error = 'The proof did not spend the message and address'
+      return false
+    }
+
+    input.output = toSpend.outputs[0]
+    const interpreter = new Interpreter()
+    const verified = interpreter.verify(
+      input.script!,
+      input.output.script,
+      toSign,
+      0,
+      Message.PROOF_VERIFY_FLAGS,
+      0n,
+    )
+    if (!verified) {
+      this.error = `The proof was invalid: ${interpreter.errstr}`
+    }
+    return verified
+  }
+
+  /**
+   * Build the virtual transaction whose output a proof spends
+   *
+   * Unlike BIP322, the message hash is the ID of the spent outpoint rather
+   * than an input script push, as Lotus transaction IDs do not commit to
+   * input scripts.
+   */
+  private _toSpend(scriptPubKey: Script): Transaction {
+    const messageHash = taggedHash(
+      Message.PROOF_TAG,
+      Buffer.from(this._message),
+    )
+    const toSpend = new Transaction()
+    toSpend.version = 0
+    toSpend.nLockTime = 0
+    toSpend.uncheckedAddInput(
+      new Input({
+        prevTxId: messageHash,
+        outputIndex: 0xffffffff,
+        sequenceNumber: 0,
+        script: new Script(),
+      }),
+    )
+    toSpend.addOutput(new Output({ script: scriptPubKey, satoshis: 0 }))
+    return toSpend
+  }
+
+  /**
+   * Output script of a proof's virtual transaction
+   */
+  private static _proofOutputScript(): Script {
+    return new Script().add(Opcode.OP_RETURN)
+  }
+
+  private static _toAddress(address: MessageAddress): Address {
+    return address instanceof Address
+      ? address
+      : Address.fromString(address.toString())
+  }
+
   /**
    * Create Message from string
    */
-  static fromString(str: string): Message {
-    return new Message(str)
+  static fromString(str: string, options?: MessageOptions): Message {
+    return new Message(str, options)
   }
 
   /**
@@ -5,5 +5,11 @@
 
 export { Mnemonic, default } from './mnemonic.js'
 export { MnemonicError } from './errors.js'
-export { pbkdf2 } from './pbkdf2.js'
+export { pbkdf2, type Pbkdf2Digest } from './pbkdf2.js'
+export {
+  Slip39,
+  type Slip39Group,
+  type Slip39Options,
+  type Slip39Share,
+} from './slip39.js'
 export { Words } from './words/index.js'
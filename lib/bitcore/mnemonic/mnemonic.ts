@@ -14,13 +14,16 @@ import { pbkdf2 } from './pbkdf2.js'
 import { MnemonicError, MnemonicErrorType } from './errors.js'
 import { Words } from './words/index.js'
 
+/** Word separator for Japanese mnemonics */
+const IDEOGRAPHIC_SPACE = '\u3000'
+
+/** NFKD normalized word indexes, per wordlist */
+const wordIndexes = new WeakMap<string[], Map<string, number>>()
+
 /**
- * Simple Unicode normalization function
- * Replaces unorm dependency with a basic implementation
+ * BIP39 Unicode normalization (NFKD)
  */
 function normalizeUnicode(str: string): string {
-  // For now, we'll use a simple implementation
-  // In a production environment, you might want to use a proper Unicode normalization library
   return str.normalize('NFKD')
 }
 
@@ -80,6 +83,11 @@ export class Mnemonic {
     }
 
     if (seed) {
+      if (seed.length < 16 || seed.length > 32 || seed.length % 4 !== 0) {
+        throw new Error(
+          'Entropy must be 16 to 32 bytes and a multiple of 4 bytes',
+        )
+      }
       phrase = Mnemonic._entropy2mnemonic(seed, wordlist)
     }
 
@@ -94,10 +102,15 @@ export class Mnemonic {
       )
     }
 
-    phrase = phrase || Mnemonic._mnemonic(ent, wordlist)
-
-    // this fixes spacing in JP
-    phrase = normalizeUnicode(phrase)
+    if (phrase) {
+      // Use the word list's spelling and separator, whatever was typed
+      const index = Mnemonic._wordIndex(wordlist)
+      phrase = Mnemonic._splitWords(phrase)
+        .map(word => wordlist![index.get(word)!])
+        .join(Mnemonic._separator(wordlist))
+    } else {
+      phrase = Mnemonic._mnemonic(ent, wordlist)
+    }
 
     // Initialize readonly properties
     this.wordlist = wordlist
@@ -119,31 +132,11 @@ export class Mnemonic {
    * @returns {boolean}
    */
   static isValid(mnemonic: string, wordlist?: string[]): boolean {
-    mnemonic = normalizeUnicode(mnemonic)
-    const detectedWordlist = Mnemonic._getDictionary(mnemonic)
-    wordlist = wordlist || detectedWordlist
-
+    wordlist = wordlist || Mnemonic._getDictionary(mnemonic)
     if (!wordlist) {
       return false
     }
-
-    const words = mnemonic.split(' ')
-    let bin = ''
-    for (let i = 0; i < words.length; i++) {
-      const ind = wordlist.indexOf(words[i])
-      if (ind < 0) return false
-      bin = bin + ('00000000000' + ind.toString(2)).slice(-11)
-    }
-
-    const cs = bin.length / 33
-    const hash_bits = bin.slice(-cs)
-    const nonhash_bits = bin.slice(0, bin.length - cs)
-    const buf = Buffer.alloc(nonhash_bits.length / 8)
-    for (let i = 0; i < nonhash_bits.length / 8; i++) {
-      buf.writeUInt8(parseInt(bin.slice(i * 8, (i + 1) * 8), 2), i)
-    }
-    const expected_hash_bits = Mnemonic._entropyChecksum(buf)
-    return expected_hash_bits === hash_bits
+    return Mnemonic._decode(mnemonic, wordlist) !== null
   }
 
   /**
@@ -154,32 +147,43 @@ export class Mnemonic {
    * @returns {boolean}
    */
   static _belongsToWordlist(mnemonic: string, wordlist: string[]): boolean {
-    const words = normalizeUnicode(mnemonic).split(' ')
-    for (let i = 0; i < words.length; i++) {
-      const ind = wordlist.indexOf(words[i])
-      if (ind < 0) return false
-    }
-    return true
+    const index = Mnemonic._wordIndex(wordlist)
+    return Mnemonic._splitWords(mnemonic).every(word => index.has(word))
   }
 
   /**
    * Internal function to detect the wordlist used to generate the mnemonic.
    *
+   * Some words appear in several word lists (e.g. English and French, or
+   * simplified and traditional Chinese). When more than one list contains
+   * every word, the one the checksum is valid for is preferred.
+   *
    * @param {String} mnemonic - The mnemonic string
    * @returns {Array} the wordlist or null
    */
   static _getDictionary(mnemonic?: string): string[] | undefined {
     if (!mnemonic) return undefined
 
-    const dicts = Object.keys(Words)
-    for (let i = 0; i < dicts.length; i++) {
-      const key = dicts[i]
-      const wordlist = (Words as Record<string, string[]>)[key]
-      if (Mnemonic._belongsToWordlist(mnemonic, wordlist)) {
-        return wordlist
-      }
-    }
-    return undefined
+    const candidates = Object.values(Words as Record<string, string[]>).filter(
+      wordlist => Mnemonic._belongsToWordlist(mnemonic, wordlist),
+    )
+    return (
+      candidates.find(
+        wordlist => Mnemonic._decode(mnemonic, wordlist) !== null,
+      ) ?? candidates[0]
+    )
+  }
+
+  /**
+   * Name of the word list this mnemonic uses (e.g. 'ENGLISH'), if it is one
+   * of Mnemonic.Words
+   *
+   * @returns {String|undefined}
+   */
+  get language(): string | undefined {
+    return Object.entries(Words as Record<string, string[]>).find(
+      ([, wordlist]) => wordlist === this.wordlist,
+    )?.[0]
   }
 
   /**
@@ -216,6 +220,35 @@ export class Mnemonic {
     return new Mnemonic(seed, wordlist)
   }
 
+  /**
+   * Will generate a Mnemonic object encoding the given entropy.
+   *
+   * @example
+   *
+   * var mnemonic = Mnemonic.fromEntropy(Buffer.alloc(16));
+   * // 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+   *
+   * @param {Buffer} entropy - 16, 20, 24, 28 or 32 bytes
+   * @param {Array} [wordlist] - The wordlist to encode with (default: English)
+   * @returns {Mnemonic}
+   */
+  static fromEntropy(entropy: Buffer, wordlist?: string[]): Mnemonic {
+    Preconditions.checkArgument(
+      Buffer.isBuffer(entropy),
+      'entropy must be a Buffer.',
+    )
+    return new Mnemonic(entropy, wordlist)
+  }
+
+  /**
+   * Will return the entropy encoded by the mnemonic.
+   *
+   * @returns {Buffer}
+   */
+  toEntropy(): Buffer {
+    return Mnemonic._decode(this.phrase, this.wordlist)!
+  }
+
   /**
    *
    * Generates a HD Private Key from a Mnemonic.
@@ -287,13 +320,81 @@ export class Mnemonic {
       const wi = parseInt(bin.slice(i * 11, (i + 1) * 11), 2)
       mnemonic.push(wordlist[wi])
     }
-    let ret: string
-    if (wordlist === Words.ENGLISH) {
-      ret = mnemonic.join(' ')
-    } else {
-      ret = mnemonic.join(' ')
+    return mnemonic.join(Mnemonic._separator(wordlist))
+  }
+
+  /**
+   * Internal function to decode a mnemonic into its entropy
+   *
+   * @param {String} mnemonic - The mnemonic string
+   * @param {Array} wordlist - The wordlist
+   * @returns {Buffer} The entropy, or null if a word is unknown, the word
+   * count is invalid or the checksum does not match
+   */
+  static _decode(mnemonic: string, wordlist: string[]): Buffer | null {
+    const words = Mnemonic._splitWords(mnemonic)
+    if (words.length < 12 || words.length > 24 || words.length % 3 !== 0) {
+      return null
+    }
+
+    const index = Mnemonic._wordIndex(wordlist)
+    let bin = ''
+    for (const word of words) {
+      const ind = index.get(word)
+      if (ind === undefined) return null
+      bin = bin + ('00000000000' + ind.toString(2)).slice(-11)
+    }
+
+    const cs = bin.length / 33
+    const entropy = Buffer.alloc((bin.length - cs) / 8)
+    for (let i = 0; i < entropy.length; i++) {
+      entropy.writeUInt8(parseInt(bin.slice(i * 8, (i + 1) * 8), 2), i)
+    }
+    if (Mnemonic._entropyChecksum(entropy) !== bin.slice(-cs)) {
+      return null
+    }
+    return entropy
+  }
+
+  /**
+   * Internal function to split a mnemonic into NFKD normalized words.
+   * Accepts any whitespace between words, including the ideographic space.
+   *
+   * @param {String} mnemonic - The mnemonic string
+   * @returns {Array} words
+   */
+  static _splitWords(mnemonic: string): string[] {
+    const normalized = normalizeUnicode(mnemonic).trim()
+    return normalized ? normalized.split(/[\s\u3000]+/) : []
+  }
+
+  /**
+   * Internal function returning the word separator of a wordlist.
+   * BIP39 joins Japanese words with an ideographic space (U+3000).
+   *
+   * @param {Array} wordlist - The wordlist
+   * @returns {String} separator
+   */
+  static _separator(wordlist: string[]): string {
+    return wordlist === (Words as Record<string, string[]>).JAPANESE
+      ? IDEOGRAPHIC_SPACE
+      : ' '
+  }
+
+  /**
+   * Internal function mapping the NFKD normalized words of a wordlist to
+   * their indexes.
+   *
+   * @param {Array} wordlist - The wordlist
+   * @returns {Map} word to index
+   */
+  static _wordIndex(wordlist: string[]): Map<string, number> {
+    let index = wordIndexes.get(wordlist)
+    if (!index) {
+      index = new Map(wordlist.map((word, i) => [normalizeUnicode(word), i]))
+      wordIndexes.set(wordlist, index)
     }
-    return ret
+    return index
   }
 
   /**
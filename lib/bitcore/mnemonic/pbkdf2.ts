@@ -6,10 +6,14 @@
  */
 
 import { pbkdf2 as noblePbkdf2 } from '@noble/hashes/pbkdf2'
+import { sha256 } from '@noble/hashes/sha256'
 import { sha512 } from '@noble/hashes/sha512'
 
+/** PBKDF2 pseudorandom function: HMAC-SHA512 (BIP39) or HMAC-SHA256 (SLIP-39) */
+export type Pbkdf2Digest = 'sha512' | 'sha256'
+
 /**
- * PBKDF2 implementation using SHA512
+ * PBKDF2 implementation using SHA512, or SHA256 when requested
  * Uses @noble/hashes for browser compatibility
  *
  * Credit to: https://github.com/stayradiated/pbkdf2-sha512
@@ -20,8 +24,9 @@ export function pbkdf2(
   salt: string | Buffer,
   iterations: number,
   dkLen: number,
+  digest: Pbkdf2Digest = 'sha512',
 ): Buffer {
-  const hLen = 64 // SHA512 Mac length
+  const hLen = digest === 'sha256' ? 32 : 64 // Mac length
   if (dkLen > (Math.pow(2, 32) - 1) * hLen) {
     throw new Error('Requested key length too long')
   }
@@ -44,11 +49,15 @@ export function pbkdf2(
       ? new TextEncoder().encode(salt)
       : new Uint8Array(salt)
 
-  // Use @noble/hashes pbkdf2 with sha512
-  const result = noblePbkdf2(sha512, keyBytes, saltBytes, {
-    c: iterations,
-    dkLen: dkLen,
-  })
+  const result = noblePbkdf2(
+    digest === 'sha256' ? sha256 : sha512,
+    keyBytes,
+    saltBytes,
+    {
+      c: iterations,
+      dkLen: dkLen,
+    },
+  )
 
   return Buffer.from(result)
 }
@@ -0,0 +1,793 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * SLIP-39 Shamir's Secret-Sharing for Mnemonic Codes
+ * See https://github.com/satoshilabs/slips/blob/master/slip-0039.md
+ *
+ * A master secret is encrypted with an optional passphrase and split in two
+ * levels: into groups, of which `groupThreshold` are needed, and each group
+ * into member shares, of which the group's `threshold` are needed. Every share
+ * is encoded as a mnemonic of 10-bit words with an RS1024 checksum.
+ */
+
+import { Hash } from '../crypto/hash.js'
+import { Random } from '../crypto/random.js'
+import { Preconditions } from '../util/preconditions.js'
+import { Mnemonic } from './mnemonic.js'
+import { pbkdf2 } from './pbkdf2.js'
+import { slip39 } from './words/slip39.js'
+
+/** Bits encoded by each word */
+const RADIX_BITS = 10
+
+/** Random identifier shared by every share of a secret */
+const ID_LENGTH_BITS = 15
+
+/** Words encoding the identifier, extendable flag and iteration exponent */
+const ID_EXP_LENGTH_WORDS = 2
+
+/** Words encoding the group and member parameters */
+const GROUP_LENGTH_WORDS = 2
+
+/** RS1024 checksum words */
+const CHECKSUM_LENGTH_WORDS = 3
+
+/** Shortest share mnemonic, for a 128-bit secret */
+const MIN_MNEMONIC_LENGTH_WORDS = 20
+
+/** Maximum number of groups, and of members per group */
+const MAX_SHARE_COUNT = 16
+
+/** Minimum master secret length in bytes */
+const MIN_STRENGTH_BYTES = 16
+
+/** Feistel rounds of the passphrase encryption */
+const ROUND_COUNT = 4
+
+/** PBKDF2 iterations across all rounds, shifted by the iteration exponent */
+const BASE_ITERATION_COUNT = 10000
+
+/** x-coordinates of the secret and of its digest */
+const SECRET_INDEX = 255
+const DIGEST_INDEX = 254
+
+/** Length of the digest that authenticates the recovered secret */
+const DIGEST_LENGTH_BYTES = 4
+
+/** RS1024 generator */
+const GEN = [
+  0xe0e040, 0x1c1c080, 0x3838100, 0x7070200, 0xe0e0009, 0x1c0c2412, 0x38086c24,
+  0x3090fc48, 0x21b1f890, 0x3f3f120,
+]
+
+/** GF(256) exponent and logarithm tables, with the AES polynomial */
+const EXP: number[] = new Array(255)
+const LOG: number[] = new Array(256).fill(0)
+for (let i = 0, poly = 1; i < 255; i++) {
+  EXP[i] = poly
+  LOG[poly] = i
+  poly = (poly << 1) ^ poly
+  if (poly & 0x100) {
+    poly ^= 0x11b
+  }
+}
+
+/** Word indexes, keyed by the four letters that identify each word */
+const wordIndex = new Map(slip39.map((word, i) => [word.slice(0, 4), i]))
+
+/**
+ * Group of member shares in a SLIP-39 split
+ */
+export interface Slip39Group {
+  /** Member shares needed to recover the group */
+  threshold: number
+
+  /** Member shares to generate */
+  count: number
+}
+
+/**
+ * SLIP-39 share generation options
+ */
+export interface Slip39Options {
+  /** Passphrase that encrypts the master secret (default: none) */
+  passphrase?: string
+
+  /** PBKDF2 iteration exponent, 0 to 15 (default: 1) */
+  iterationExponent?: number
+
+  /**
+   * Whether the shares may later be extended with new groups without changing
+   * the encryption (default: true)
+   */
+  extendable?: boolean
+}
+
+/**
+ * Decoded SLIP-39 share
+ */
+export interface Slip39Share {
+  /** Random identifier common to every share of a secret */
+  identifier: number
+
+  /** Whether the identifier is excluded from the encryption salt */
+  extendable: boolean
+
+  /** PBKDF2 iteration exponent */
+  iterationExponent: number
+
+  /** Index of the share's group */
+  groupIndex: number
+
+  /** Groups needed to recover the secret */
+  groupThreshold: number
+
+  /** Total number of groups */
+  groupCount: number
+
+  /** Index of the share within its group */
+  memberIndex: number
+
+  /** Member shares needed to recover the group */
+  memberThreshold: number
+
+  /** Share value */
+  value: Buffer
+}
+
+/**
+ * SLIP-39 Shamir share mnemonics
+ *
+ * @example
+ * // 2-of-3 backup of a BIP39 mnemonic
+ * var shares = Slip39.fromMnemonic(mnemonic, 1, [{ threshold: 2, count: 3 }]);
+ * var recovered = Slip39.toMnemonic([shares[0][0], shares[0][2]]);
+ * // recovered.phrase === mnemonic.phrase
+ */
+export class Slip39 {
+  static Words = slip39
+
+  /**
+   * Will split a master secret into share mnemonics.
+   *
+   * @param {Buffer} masterSecret - At least 16 bytes, of even length
+   * @param {Number} groupThreshold - Groups needed to recover the secret
+   * @param {Array} groups - Member threshold and count of each group
+   * @param {Object} [options] - Passphrase, iteration exponent and extendable flag
+   * @returns {Array} The share mnemonics of each group
+   */
+  static split(
+    masterSecret: Buffer,
+    groupThreshold: number,
+    groups: Slip39Group[],
+    options: Slip39Options = {},
+  ): string[][] {
+    Preconditions.checkArgument(
+      Buffer.isBuffer(masterSecret),
+      'masterSecret must be a Buffer.',
+    )
+    const passphrase = options.passphrase ?? ''
+    const iterationExponent = options.iterationExponent ?? 1
+    const extendable = options.extendable ?? true
+
+    if (masterSecret.length < MIN_STRENGTH_BYTES) {
+      throw new Error(
+        `Master secret must be at least ${MIN_STRENGTH_BYTES} bytes`,
+      )
+    }
+    if (masterSecret.length % 2 !== 0) {
+      throw new Error('Master secret length must be an even number of bytes')
+    }
+    if (
+      !Number.isInteger(iterationExponent) ||
+      iterationExponent < 0 ||
+      iterationExponent > 15
+    ) {
+      throw new Error('Iteration exponent must be an integer from 0 to 15')
+    }
+    Slip39._checkPassphrase(passphrase)
+    if (groups.length < 1 || groups.length > MAX_SHARE_COUNT) {
+      throw new Error(`Group count must be between 1 and ${MAX_SHARE_COUNT}`)
+    }
+    if (
+      !Number.isInteger(groupThreshold) ||
+      groupThreshold < 1 ||
+      groupThreshold > groups.length
+    ) {
+      throw new Error(
+        'Group threshold must be between 1 and the number of groups',
+      )
+    }
+    for (const { threshold, count } of groups) {
+      if (
+        !Number.isInteger(threshold) ||
+        !Number.isInteger(count) ||
+        threshold < 1 ||
+        threshold > count ||
+        count > MAX_SHARE_COUNT
+      ) {
+        throw new Error(
+          `Member threshold must be between 1 and a count of at most ${MAX_SHARE_COUNT}`,
+        )
+      }
+      if (threshold === 1 && count > 1) {
+        throw new Error(
+          'Creating multiple member shares with member threshold 1 is not allowed, use 1-of-1 member sharing instead',
+        )
+      }
+    }
+
+    const identifier =
+      Random.getRandomBuffer(2).readUInt16BE(0) & ((1 << ID_LENGTH_BITS) - 1)
+    const encrypted = Slip39._encrypt(
+      masterSecret,
+      passphrase,
+      iterationExponent,
+      identifier,
+      extendable,
+    )
+
+    const groupShares = Slip39._splitSecret(
+      groupThreshold,
+      groups.length,
+      encrypted,
+    )
+    return groups.map(({ threshold, count }, groupIndex) =>
+      Slip39._splitSecret(threshold, count, groupShares[groupIndex].value).map(
+        member =>
+          Slip39.encodeShare({
+            identifier,
+            extendable,
+            iterationExponent,
+            groupIndex,
+            groupThreshold,
+            groupCount: groups.length,
+            memberIndex: member.x,
+            memberThreshold: threshold,
+            value: member.value,
+          }),
+      ),
+    )
+  }
+
+  /**
+   * Will recover the master secret from enough share mnemonics.
+   *
+   * Shares beyond the group and member thresholds are ignored.
+   *
+   * @param {Array} mnemonics - Share mnemonics
+   * @param {String} [passphrase] - Passphrase the secret was encrypted with
+   * @returns {Buffer} The master secret
+   */
+  static combine(mnemonics: string[], passphrase: string = ''): Buffer {
+    Slip39._checkPassphrase(passphrase)
+    if (mnemonics.length === 0) {
+      throw new Error('The list of mnemonics is empty')
+    }
+
+    const shares = mnemonics.map(mnemonic => Slip39.decodeShare(mnemonic))
+    const first = shares[0]
+    for (const share of shares) {
+      if (
+        share.identifier !== first.identifier ||
+        share.extendable !== first.extendable ||
+        share.iterationExponent !== first.iterationExponent
+      ) {
+        throw new Error('All mnemonics must begin with the same 2 words')
+      }
+      if (
+        share.groupThreshold !== first.groupThreshold ||
+        share.groupCount !== first.groupCount
+      ) {
+        throw new Error('All mnemonics must have the same group parameters')
+      }
+    }
+
+    // Member shares by group, without duplicates
+    const groups = new Map<number, Map<number, Slip39Share>>()
+    for (const share of shares) {
+      let members = groups.get(share.groupIndex)
+      if (!members) {
+        members = new Map()
+        groups.set(share.groupIndex, members)
+      }
+      const duplicate = members.get(share.memberIndex)
+      if (duplicate && !duplicate.value.equals(share.value)) {
+        throw new Error(
+          `Conflicting shares for member ${share.memberIndex} of group ${share.groupIndex}`,
+        )
+      }
+      const memberThreshold = members.values().next().value?.memberThreshold
+      if (
+        memberThreshold !== undefined &&
+        memberThreshold !== share.memberThreshold
+      ) {
+        throw new Error(
+          'Mnemonics in a group must have the same member threshold',
+        )
+      }
+      members.set(share.memberIndex, share)
+    }
+
+    const complete = [...groups].filter(
+      ([, members]) =>
+        members.size >= members.values().next().value!.memberThreshold,
+    )
+    if (complete.length < first.groupThreshold) {
+      throw new Error(
+        `Insufficient number of mnemonic groups. ${first.groupThreshold} complete groups are required, but ${complete.length} were provided`,
+      )
+    }
+
+    const groupShares = complete
+      .slice(0, first.groupThreshold)
+      .map(([groupIndex, members]) => {
+        const memberShares = [...members.values()]
+        const threshold = memberShares[0].memberThreshold
+        return {
+          x: groupIndex,
+          value: Slip39._recoverSecret(
+            threshold,
+            memberShares
+              .slice(0, threshold)
+              .map(share => ({ x: share.memberIndex, value: share.value })),
+          ),
+        }
+      })
+
+    const encrypted = Slip39._recoverSecret(first.groupThreshold, groupShares)
+    return Slip39._decrypt(
+      encrypted,
+      passphrase,
+      first.iterationExponent,
+      first.identifier,
+      first.extendable,
+    )
+  }
+
+  /**
+   * Will split the entropy of a BIP39 mnemonic into share mnemonics.
+   *
+   * The shares recover the BIP39 phrase itself, so the wallet seed is still
+   * derived with Mnemonic.toSeed() and its BIP39 passphrase.
+   *
+   * @param {Mnemonic} mnemonic - The BIP39 mnemonic to back up
+   * @param {Number} groupThreshold - Groups needed to recover the mnemonic
+   * @param {Array} groups - Member threshold and count of each group
+   * @param {Object} [options] - Passphrase, iteration exponent and extendable flag
+   * @returns {Array} The share mnemonics of each group
+   */
+  static fromMnemonic(
+    mnemonic: Mnemonic,
+    groupThreshold: number,
+    groups: Slip39Group[],
+    options?: Slip39Options,
+  ): string[][] {
+    return Slip39.split(mnemonic.toEntropy(), groupThreshold, groups, options)
+  }
+
+  /**
+   * Will recover a BIP39 mnemonic backed up with Slip39.fromMnemonic().
+   *
+   * @param {Array} mnemonics - Share mnemonics
+   * @param {String} [passphrase] - Passphrase the shares were encrypted with
+   * @param {Array} [wordlist] - The wordlist of the BIP39 mnemonic (default: English)
+   * @returns {Mnemonic}
+   */
+  static toMnemonic(
+    mnemonics: string[],
+    passphrase?: string,
+    wordlist?: string[],
+  ): Mnemonic {
+    return Mnemonic.fromEntropy(Slip39.combine(mnemonics, passphrase), wordlist)
+  }
+
+  /**
+   * Will return a boolean if the share mnemonic is well formed and its
+   * checksum is valid.
+   *
+   * @param {String} mnemonic - The share mnemonic
+   * @returns {boolean}
+   */
+  static isValid(mnemonic: string): boolean {
+    try {
+      Slip39.decodeShare(mnemonic)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Will decode a share mnemonic.
+   *
+   * Words are matched by their first four letters.
+   *
+   * @param {String} mnemonic - The share mnemonic
+   * @returns {Slip39Share}
+   */
+  static decodeShare(mnemonic: string): Slip39Share {
+    const words = mnemonic.toLowerCase().trim().split(/\s+/)
+    if (words.length < MIN_MNEMONIC_LENGTH_WORDS) {
+      throw new Error(
+        `Invalid mnemonic length. The length of each mnemonic must be at least ${MIN_MNEMONIC_LENGTH_WORDS} words`,
+      )
+    }
+    const data = words.map(word => {
+      const index = wordIndex.get(word.slice(0, 4))
+      if (index === undefined || !slip39[index].startsWith(word)) {
+        throw new Error(`Invalid mnemonic word ${word}`)
+      }
+      return index
+    })
+
+    const paddingLength = (RADIX_BITS * (data.length - 7)) % 16
+    if (paddingLength > 8) {
+      throw new Error('Invalid mnemonic length')
+    }
+
+    const idExp = (data[0] << RADIX_BITS) | data[1]
+    const identifier = idExp >> 5
+    const extendable = ((idExp >> 4) & 1) === 1
+    if (!Slip39._verifyChecksum(data, extendable)) {
+      throw new Error(
+        `Invalid mnemonic checksum for "${words.slice(0, ID_EXP_LENGTH_WORDS + 2).join(' ')} ..."`,
+      )
+    }
+
+    const params = (data[2] << RADIX_BITS) | data[3]
+    const groupThreshold = ((params >> 12) & 0xf) + 1
+    const groupCount = ((params >> 8) & 0xf) + 1
+    if (groupCount < groupThreshold) {
+      throw new Error(
+        'Invalid mnemonic. Group threshold cannot be greater than group count',
+      )
+    }
+
+    const valueData = data.slice(
+      ID_EXP_LENGTH_WORDS + GROUP_LENGTH_WORDS,
+      -CHECKSUM_LENGTH_WORDS,
+    )
+    const valueBits = valueData.reduce(
+      (acc, index) => (acc << BigInt(RADIX_BITS)) | BigInt(index),
+      0n,
+    )
+    const valueLength = (RADIX_BITS * valueData.length - paddingLength) / 8
+    if (valueBits >> BigInt(valueLength * 8) !== 0n) {
+      throw new Error('Invalid mnemonic padding')
+    }
+
+    return {
+      identifier,
+      extendable,
+      iterationExponent: idExp & 0xf,
+      groupIndex: params >> 16,
+      groupThreshold,
+      groupCount,
+      memberIndex: (params >> 4) & 0xf,
+      memberThreshold: (params & 0xf) + 1,
+      value: Buffer.from(
+        valueBits.toString(16).padStart(valueLength * 2, '0'),
+        'hex',
+      ),
+    }
+  }
+
+  /**
+   * Will encode a share as a mnemonic.
+   *
+   * @param {Slip39Share} share - The share to encode
+   * @returns {String} The share mnemonic
+   */
+  static encodeShare(share: Slip39Share): string {
+    const idExp =
+      (share.identifier << 5) |
+      ((share.extendable ? 1 : 0) << 4) |
+      share.iterationExponent
+    const params =
+      (share.groupIndex << 16) |
+      ((share.groupThreshold - 1) << 12) |
+      ((share.groupCount - 1) << 8) |
+      (share.memberIndex << 4) |
+      (share.memberThreshold - 1)
+
+    const valueWords = Math.ceil((share.value.length * 8) / RADIX_BITS)
+    let value = BigInt('0x' + (share.value.toString('hex') || '0'))
+    const valueData: number[] = []
+    for (let i = 0; i < valueWords; i++) {
+      valueData.unshift(Number(value & 0x3ffn))
+      value >>= BigInt(RADIX_BITS)
+    }
+
+    const data = [
+      idExp >> RADIX_BITS,
+      idExp & 0x3ff,
+      params >> RADIX_BITS,
+      params & 0x3ff,
+      ...valueData,
+    ]
+    return [...data, ...Slip39._createChecksum(data, share.extendable)]
+      .map(index => slip39[index])
+      .join(' ')
+  }
+
+  /**
+   * Internal function to check that a passphrase is printable ASCII.
+   *
+   * @param {String} passphrase - The passphrase
+   */
+  static _checkPassphrase(passphrase: string): void {
+    if (!/^[\x20-\x7e]*$/.test(passphrase)) {
+      throw new Error(
+        'The passphrase must contain only printable ASCII characters (code points 32-126)',
+      )
+    }
+  }
+
+  /**
+   * Internal function computing the RS1024 checksum polynomial.
+   *
+   * @param {Array} values - 10-bit values
+   * @returns {Number}
+   */
+  static _polymod(values: number[]): number {
+    let chk = 1
+    for (const v of values) {
+      const b = chk >> 20
+      chk = ((chk & 0xfffff) << 10) ^ v
+      for (let i = 0; i < 10; i++) {
+        if ((b >> i) & 1) {
+          chk ^= GEN[i]
+        }
+      }
+    }
+    return chk
+  }
+
+  /**
+   * Internal function returning the checksum customization string.
+   *
+   * @param {boolean} extendable - The extendable flag
+   * @returns {Array} 10-bit values
+   */
+  static _customization(extendable: boolean): number[] {
+    return [...Buffer.from(extendable ? 'shamir_extendable' : 'shamir')]
+  }
+
+  /**
+   * Internal function to create the three checksum words.
+   *
+   * @param {Array} data - Word indexes before the checksum
+   * @param {boolean} extendable - The extendable flag
+   * @returns {Array} Checksum word indexes
+   */
+  static _createChecksum(data: number[], extendable: boolean): number[] {
+    const polymod =
+      Slip39._polymod([
+        ...Slip39._customization(extendable),
+        ...data,
+        0,
+        0,
+        0,
+      ]) ^ 1
+    return [2, 1, 0].map(i => (polymod >> (RADIX_BITS * i)) & 0x3ff)
+  }
+
+  /**
+   * Internal function to verify the checksum words.
+   *
+   * @param {Array} data - Word indexes including the checksum
+   * @param {boolean} extendable - The extendable flag
+   * @returns {boolean}
+   */
+  static _verifyChecksum(data: number[], extendable: boolean): boolean {
+    return (
+      Slip39._polymod([...Slip39._customization(extendable), ...data]) === 1
+    )
+  }
+
+  /**
+   * Internal function for the Feistel round function.
+   */
+  static _roundFunction(
+    i: number,
+    passphrase: string,
+    iterationExponent: number,
+    salt: Buffer,
+    r: Buffer,
+  ): Buffer {
+    return pbkdf2(
+      Buffer.concat([Buffer.from([i]), Buffer.from(passphrase, 'ascii')]),
+      Buffer.concat([salt, r]),
+      (BASE_ITERATION_COUNT << iterationExponent) / ROUND_COUNT,
+      r.length,
+      'sha256',
+    )
+  }
+
+  /**
+   * Internal function returning the encryption salt.
+   * Extendable shares do not bind the encryption to their identifier.
+   */
+  static _salt(identifier: number, extendable: boolean): Buffer {
+    if (extendable) {
+      return Buffer.alloc(0)
+    }
+    const salt = Buffer.alloc(8)
+    salt.write('shamir', 'ascii')
+    salt.writeUInt16BE(identifier, 6)
+    return salt
+  }
+
+  /**
+   * Internal function to encrypt the master secret with the passphrase.
+   */
+  static _encrypt(
+    masterSecret: Buffer,
+    passphrase: string,
+    iterationExponent: number,
+    identifier: number,
+    extendable: boolean,
+  ): Buffer {
+    return Slip39._feistel(
+      masterSecret,
+      passphrase,
+      iterationExponent,
+      Slip39._salt(identifier, extendable),
+      [0, 1, 2, 3],
+    )
+  }
+
+  /**
+   * Internal function to decrypt the master secret with the passphrase.
+   */
+  static _decrypt(
+    encrypted: Buffer,
+    passphrase: string,
+    iterationExponent: number,
+    identifier: number,
+    extendable: boolean,
+  ): Buffer {
+    return Slip39._feistel(
+      encrypted,
+      passphrase,
+      iterationExponent,
+      Slip39._salt(identifier, extendable),
+      [3, 2, 1, 0],
+    )
+  }
+
+  /**
+   * Internal function running the Feistel network over the given rounds.
+   */
+  static _feistel(
+    input: Buffer,
+    passphrase: string,
+    iterationExponent: number,
+    salt: Buffer,
+    rounds: number[],
+  ): Buffer {
+    let l = input.subarray(0, input.length / 2)
+    let r = input.subarray(input.length / 2)
+    for (const i of rounds) {
+      const f = Slip39._roundFunction(i, passphrase, iterationExponent, salt, r)
+      const next = Buffer.alloc(l.length)
+      for (let j = 0; j < l.length; j++) {
+        next[j] = l[j] ^ f[j]
+      }
+      l = r
+      r = next
+    }
+    return Buffer.concat([r, l])
+  }
+
+  /**
+   * Internal function computing the digest that authenticates a secret.
+   */
+  static _digest(randomPart: Buffer, secret: Buffer): Buffer {
+    return Hash.sha256hmac(secret, randomPart).subarray(0, DIGEST_LENGTH_BYTES)
+  }
+
+  /**
+   * Internal function evaluating at `x` the polynomial through the shares.
+   *
+   * @param {Array} shares - Points with distinct x-coordinates
+   * @param {Number} x - x-coordinate to evaluate
+   * @returns {Buffer}
+   */
+  static _interpolate(
+    shares: Array<{ x: number; value: Buffer }>,
+    x: number,
+  ): Buffer {
+    const known = shares.find(share => share.x === x)
+    if (known) {
+      return known.value
+    }
+
+    const logProd = shares.reduce((sum, share) => sum + LOG[share.x ^ x], 0)
+    const result = Buffer.alloc(shares[0].value.length)
+    for (const share of shares) {
+      const logBasis =
+        (((logProd -
+          LOG[share.x ^ x] -
+          shares.reduce((sum, other) => sum + LOG[share.x ^ other.x], 0)) %
+          255) +
+          255) %
+        255
+      for (let i = 0; i < result.length; i++) {
+        if (share.value[i] !== 0) {
+          result[i] ^= EXP[(LOG[share.value[i]] + logBasis) % 255]
+        }
+      }
+    }
+    return result
+  }
+
+  /**
+   * Internal function to split a secret into `count` shares, `threshold` of
+   * which recover it.
+   */
+  static _splitSecret(
+    threshold: number,
+    count: number,
+    secret: Buffer,
+  ): Array<{ x: number; value: Buffer }> {
+    if (threshold === 1) {
+      return Array.from({ length: count }, (_, x) => ({ x, value: secret }))
+    }
+
+    const randomCount = threshold - 2
+    const shares = Array.from({ length: randomCount }, (_, x) => ({
+      x,
+      value: Random.getRandomBuffer(secret.length),
+    }))
+    const randomPart = Random.getRandomBuffer(
+      secret.length - DIGEST_LENGTH_BYTES,
+    )
+    const base = [
+      ...shares,
+      {
+        x: DIGEST_INDEX,
+        value: Buffer.concat([Slip39._digest(randomPart, secret), randomPart]),
+      },
+      { x: SECRET_INDEX, value: secret },
+    ]
+    for (let x = randomCount; x < count; x++) {
+      shares.push({ x, value: Slip39._interpolate(base, x) })
+    }
+    return shares
+  }
+
+  /**
+   * Internal function to recover a secret from `threshold` shares and check
+   * its digest.
+   */
+  static _recoverSecret(
+    threshold: number,
+    shares: Array<{ x: number; value: Buffer }>,
+  ): Buffer {
+    if (threshold === 1) {
+      return shares[0].value
+    }
+    if (new Set(shares.map(share => share.value.length)).size !== 1) {
+      throw new Error(
+        'Invalid set of shares. All share values must have the same length',
+      )
+    }
+
+    const secret = Slip39._interpolate(shares, SECRET_INDEX)
+    const digestShare = Slip39._interpolate(shares, DIGEST_INDEX)
+    const digest = digestShare.subarray(0, DIGEST_LENGTH_BYTES)
+    const randomPart = digestShare.subarray(DIGEST_LENGTH_BYTES)
+    if (!digest.equals(Slip39._digest(randomPart, secret))) {
+      throw new Error('Invalid digest of the shared secret')
+    }
+    return secret
+  }
+}
+
+export default Slip39
@@ -1,18 +1,27 @@
 /**
  * Word lists for BIP39 mnemonic generation
- * Migrated from @abcpros/bitcore-mnemonic with ESM support and TypeScript
+ * Generated by scripts/generate-bip39-wordlists.ts from the BIP39 reference
+ * lists. Mnemonic detects a phrase's language by trying each list in order.
  */
 
 import { english } from './english.js'
+import { spanish } from './spanish.js'
+import { french } from './french.js'
+import { italian } from './italian.js'
+import { czech } from './czech.js'
+import { japanese } from './japanese.js'
+import { korean } from './korean.js'
+import { chineseSimplified } from './chinese_simplified.js'
+import { chineseTraditional } from './chinese_traditional.js'
 
-// For now, we'll only include English word list
-// Other language word lists can be added later if needed
 export const Words = {
   ENGLISH: english,
-  // CHINESE: chinese,
-  // FRENCH: french,
-  // ITALIAN: italian,
-  // JAPANESE: japanese,
-  // KOREAN: korean,
-  // SPANISH: spanish,
+  SPANISH: spanish,
+  FRENCH: french,
+  ITALIAN: italian,
+  CZECH: czech,
+  JAPANESE: japanese,
+  KOREAN: korean,
+  CHINESE_SIMPLIFIED: chineseSimplified,
+  CHINESE_TRADITIONAL: chineseTraditional,
 }
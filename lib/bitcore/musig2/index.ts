@@ -28,3 +28,9 @@ export {
   MuSigSessionPhase,
   type MuSigSession,
 } from './session.js'
+
+export {
+  musigAggregateXpub,
+  musigDeriveKeyAggContext,
+  MUSIG_XPUB_CHAIN_CODE,
+} from './xpub.js'
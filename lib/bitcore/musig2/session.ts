@@ -26,11 +26,16 @@ import {
   musigPartialSign,
   musigPartialSigVerify,
   musigSigAgg,
+  musigAdaptorSigAgg,
   type MuSigKeyAggContext,
   type MuSigNonce,
   type MuSigAggregatedNonce,
 } from '../crypto/musig2.js'
-import { verifyTaprootKeyPathMuSigPartial } from '../taproot/musig2.js'
+import { adaptorComplete, type AdaptorSignature } from '../crypto/adaptor.js'
+import {
+  signTaprootKeyPathWithMuSig2,
+  verifyTaprootKeyPathMuSigPartial,
+} from '../taproot/musig2.js'
 import { calculateTapTweak, tweakPublicKey } from '../taproot.js'
 
 /**
@@ -98,6 +103,9 @@ export interface MuSigSession {
   /** Optional: Session metadata */
   metadata?: Record<string, unknown>
 
+  /** Optional: Adaptor point T, if signing an adaptor signature */
+  adaptorPoint?: Point
+
   // Round 1 state
   /** This signer's secret nonce (NEVER share!) */
   mySecretNonce?: MuSigNonce
@@ -122,6 +130,9 @@ export interface MuSigSession {
   /** Final aggregated signature (if complete) */
   finalSignature?: Signature
 
+  /** Aggregated adaptor signature (if complete and adaptorPoint is set) */
+  adaptorSignature?: AdaptorSignature
+
   /** Current phase of the session */
   phase: MuSigSessionPhase
 
@@ -148,6 +159,21 @@ export interface MuSigSession {
   backupCoordinators?: number[]
 }
 
+/**
+ * Public state of a session, e.g. as persisted across restarts
+ *
+ * The key aggregation context, aggregated nonce and final (or adaptor)
+ * signature are derived from it. The secret nonce is never part of it.
+ */
+export type MuSigSessionState = Omit<
+  MuSigSession,
+  | 'keyAggContext'
+  | 'mySecretNonce'
+  | 'aggregatedNonce'
+  | 'finalSignature'
+  | 'adaptorSignature'
+>
+
 /**
  * MuSig2 Session Manager
  *
@@ -166,6 +192,9 @@ export class MuSigSessionManager {
    * @param myPrivateKey - This signer's private key
    * @param message - Message to be signed
    * @param metadata - Optional session metadata
+   * @param adaptorPoint - Optional adaptor point T. The session then completes
+   * with an adaptor signature instead of a final signature, see
+   * getAdaptorSignature() and completeAdaptorSignature()
    * @returns Initialized session
    * @throws Error if signers array is empty or doesn't contain myPrivateKey's public key
    */
@@ -174,6 +203,7 @@ export class MuSigSessionManager {
     myPrivateKey: PrivateKey,
     message: Buffer,
     metadata?: Record<string, unknown>,
+    adaptorPoint?: Point,
   ): MuSigSession {
     // Validate inputs
     if (signers.length === 0) {
@@ -184,6 +214,14 @@ export class MuSigSessionManager {
       throw new Error('Cannot create MuSig2 session with empty message')
     }
 
+    if (adaptorPoint) {
+      try {
+        adaptorPoint.validate()
+      } catch (error) {
+        throw new Error(`Invalid adaptor point: ${error}`)
+      }
+    }
+
     // Perform key aggregation (sorts keys internally for deterministic ordering)
     const keyAggContext = musigKeyAgg(signers)
 
@@ -212,6 +250,7 @@ export class MuSigSessionManager {
       keyAggContext,
       message,
       metadata,
+      adaptorPoint,
       receivedPublicNonces: new Map(),
       receivedPartialSigs: new Map(),
       phase: MuSigSessionPhase.INIT,
@@ -222,6 +261,59 @@ export class MuSigSessionManager {
     return session
   }
 
+  /**
+   * Restore a session from its public state
+   *
+   * Recomputes the key aggregation context, the aggregated nonce once all
+   * public nonces are known and the final (or adaptor) signature once all
+   * partial signatures are known. A completed adaptor signature is not part
+   * of the state: call completeAdaptorSignature() again.
+   *
+   * The secret nonce does not survive a restore. A restored session that
+   * already shared its public nonce but has no partial signature cannot
+   * sign: generating another nonce for it is refused, and signing would need
+   * all signers to start over with fresh nonces.
+   *
+   * @param state - Public session state
+   * @returns Restored session
+   * @throws Error if the state does not match the signers
+   */
+  restoreSession(state: MuSigSessionState): MuSigSession {
+    const keyAggContext = musigKeyAgg(state.signers)
+    if (
+      keyAggContext.pubkeys.length !== state.signers.length ||
+      !keyAggContext.pubkeys.every((key, i) =>
+        key.toBuffer().equals(state.signers[i].toBuffer()),
+      )
+    ) {
+      throw new Error('Cannot restore session: signers are not sorted')
+    }
+    if (state.myIndex < 0 || state.myIndex >= state.signers.length) {
+      throw new Error(`Cannot restore session: invalid index ${state.myIndex}`)
+    }
+
+    const session: MuSigSession = {
+      ...state,
+      keyAggContext,
+      receivedPublicNonces: new Map(state.receivedPublicNonces),
+      receivedPartialSigs: new Map(state.receivedPartialSigs),
+    }
+
+    if (session.myPublicNonce && this.hasAllNonces(session)) {
+      this._aggregateNonces(session)
+    }
+    if (
+      session.myPartialSig &&
+      session.aggregatedNonce &&
+      this.hasAllPartialSignatures(session)
+    ) {
+      this._finalizeSignature(session)
+    }
+    session.updatedAt = state.updatedAt
+
+    return session
+  }
+
   /**
    * Generate and store public nonces for this signer
    *
@@ -359,8 +451,9 @@ export class MuSigSessionManager {
     session.receivedPublicNonces.set(signerIndex, publicNonces)
     session.updatedAt = Date.now()
 
-    // If we have all nonces, aggregate them
-    if (this.hasAllNonces(session)) {
+    // If we have all nonces, aggregate them (our own nonce may not be
+    // generated yet, in which case generateNonces() aggregates later)
+    if (this.hasAllNonces(session) && session.myPublicNonce) {
       this._aggregateNonces(session)
     }
   }
@@ -402,14 +495,35 @@ export class MuSigSessionManager {
     }
 
     // Create partial signature
-    const partialSig = musigPartialSign(
-      session.mySecretNonce,
-      privateKey,
-      session.keyAggContext,
-      session.myIndex,
-      session.aggregatedNonce,
-      session.message,
-    )
+    // For Taproot, sign against the tweaked commitment so the partial
+    // signature matches verifyTaprootKeyPathMuSigPartial on the other side
+    let partialSig: BN
+    if (session.metadata?.inputScriptType === 'taproot') {
+      const tweak = calculateTapTweak(
+        session.keyAggContext.aggregatedPubKey,
+        this._getTaprootMerkleRoot(session),
+      )
+      partialSig = signTaprootKeyPathWithMuSig2(
+        session.mySecretNonce,
+        privateKey,
+        session.keyAggContext,
+        session.myIndex,
+        session.aggregatedNonce,
+        session.message,
+        tweak,
+        session.adaptorPoint,
+      )
+    } else {
+      partialSig = musigPartialSign(
+        session.mySecretNonce,
+        privateKey,
+        session.keyAggContext,
+        session.myIndex,
+        session.aggregatedNonce,
+        session.message,
+        session.adaptorPoint,
+      )
+    }
 
     // Store partial signature
     session.myPartialSig = partialSig
@@ -420,6 +534,12 @@ export class MuSigSessionManager {
     // Clear secret nonce from memory for security
     this._clearSecretNonce(session)
 
+    // RACE CONDITION FIX: If all other partial signatures arrived before we
+    // signed, finalize now
+    if (this.hasAllPartialSignatures(session)) {
+      this._finalizeSignature(session)
+    }
+
     return partialSig
   }
 
@@ -472,11 +592,9 @@ export class MuSigSessionManager {
     let isValid: boolean
     if (session.metadata?.inputScriptType === 'taproot') {
       // Taproot key-path spending requires special verification
-      // Compute Taproot tweak (merkle root is all zeros for key-path only)
-      const merkleRoot = Buffer.alloc(32)
       const tweak = calculateTapTweak(
         session.keyAggContext.aggregatedPubKey,
-        merkleRoot,
+        this._getTaprootMerkleRoot(session),
       )
 
       isValid = verifyTaprootKeyPathMuSigPartial(
@@ -488,6 +606,7 @@ export class MuSigSessionManager {
         session.aggregatedNonce!,
         session.message,
         tweak,
+        session.adaptorPoint,
       )
     } else {
       // Regular MuSig2 verification (non-Taproot)
@@ -499,6 +618,7 @@ export class MuSigSessionManager {
         signerIndex,
         session.aggregatedNonce!,
         session.message,
+        session.adaptorPoint,
       )
     }
 
@@ -516,8 +636,9 @@ export class MuSigSessionManager {
     session.receivedPartialSigs.set(signerIndex, partialSig)
     session.updatedAt = Date.now()
 
-    // If we have all partial signatures, finalize
-    if (this.hasAllPartialSignatures(session)) {
+    // If we have all partial signatures, finalize (our own partial signature
+    // may not be created yet, in which case createPartialSignature() finalizes)
+    if (this.hasAllPartialSignatures(session) && session.myPartialSig) {
       this._finalizeSignature(session)
     }
   }
@@ -541,12 +662,76 @@ export class MuSigSessionManager {
     }
 
     if (!session.finalSignature) {
-      throw new Error('Final signature not found')
+      throw new Error(
+        session.adaptorSignature
+          ? 'Adaptor signature not completed. Call completeAdaptorSignature() first.'
+          : 'Final signature not found',
+      )
     }
 
     return session.finalSignature
   }
 
+  /**
+   * Get the aggregated adaptor signature
+   *
+   * Can only be called after all partial signatures of a session created
+   * with an adaptor point have been collected. The pre-signature can be
+   * shared: it verifies with adaptorVerify() against the aggregated key (or
+   * Taproot commitment) and completes once the adaptor secret is known.
+   *
+   * @param session - The signing session
+   * @returns The adaptor signature (pre-signature)
+   * @throws Error if the session has no adaptor point or is not complete
+   */
+  getAdaptorSignature(session: MuSigSession): AdaptorSignature {
+    if (!session.adaptorPoint) {
+      throw new Error(
+        'Cannot get adaptor signature: session has no adaptor point',
+      )
+    }
+
+    if (session.phase !== MuSigSessionPhase.COMPLETE) {
+      throw new Error(
+        `Cannot get adaptor signature: session is in phase ${session.phase}`,
+      )
+    }
+
+    if (!session.adaptorSignature) {
+      throw new Error('Adaptor signature not found')
+    }
+
+    return session.adaptorSignature
+  }
+
+  /**
+   * Complete the adaptor signature with the adaptor secret
+   *
+   * Stores the result as the session's final signature, so
+   * getFinalSignature() returns it afterwards.
+   *
+   * @param session - The signing session
+   * @param secret - Adaptor secret t, with adaptorPoint = t·G
+   * @returns The final Schnorr signature
+   * @throws Error if the session has no adaptor signature or the secret does
+   * not match the adaptor point
+   */
+  completeAdaptorSignature(session: MuSigSession, secret: BN): Signature {
+    const adaptorSignature = this.getAdaptorSignature(session)
+    if (!Point.getG().mul(secret).eq(session.adaptorPoint!)) {
+      throw new Error('Adaptor secret does not match the adaptor point')
+    }
+
+    session.finalSignature = adaptorComplete(
+      adaptorSignature,
+      secret,
+      this._getSighashType(session),
+    )
+    session.updatedAt = Date.now()
+
+    return session.finalSignature
+  }
+
   /**
    * Abort a session with an error reason
    *
@@ -724,37 +909,66 @@ export class MuSigSessionManager {
       }
     }
 
-    // Aggregate into final signature
+    // Aggregate into final (or adaptor) signature
     // For Taproot, use the commitment (tweaked pubkey) instead of aggregated pubkey
     // because the partial signatures were created using the commitment in the challenge hash
     let pubKeyForAggregation = session.keyAggContext.aggregatedPubKey
     if (session.metadata?.inputScriptType === 'taproot') {
-      // Compute Taproot commitment (merkle root is all zeros for key-path only)
-      const merkleRoot = Buffer.alloc(32)
+      // Compute Taproot commitment
       pubKeyForAggregation = tweakPublicKey(
         session.keyAggContext.aggregatedPubKey,
-        merkleRoot,
+        this._getTaprootMerkleRoot(session),
+      )
+    }
+
+    if (session.adaptorPoint) {
+      // Pre-signature: the final signature needs the adaptor secret
+      session.adaptorSignature = musigAdaptorSigAgg(
+        allPartialSigs,
+        session.aggregatedNonce,
+        session.message,
+        pubKeyForAggregation,
+        session.adaptorPoint,
+      )
+    } else {
+      session.finalSignature = musigSigAgg(
+        allPartialSigs,
+        session.aggregatedNonce,
+        session.message,
+        pubKeyForAggregation,
+        this._getSighashType(session),
       )
     }
 
-    // Get sighash type from metadata (defaults to SIGHASH_ALL | SIGHASH_LOTUS for Taproot)
-    // BUG FIX: This nhashtype will be embedded in the signature for proper transaction serialization
-    const sighashType = session.metadata?.sighashType
+    session.phase = MuSigSessionPhase.COMPLETE
+    session.updatedAt = Date.now()
+  }
+
+  /**
+   * Get the sighash type to embed in the final signature
+   *
+   * Taken from metadata.sighashType, defaulting to SIGHASH_ALL | SIGHASH_LOTUS
+   * for Taproot. The nhashtype is needed for proper transaction serialization.
+   */
+  private _getSighashType(session: MuSigSession): number | undefined {
+    return session.metadata?.sighashType
       ? (session.metadata.sighashType as number)
       : session.metadata?.inputScriptType === 'taproot'
         ? Signature.SIGHASH_ALL | Signature.SIGHASH_LOTUS
         : undefined
+  }
 
-    session.finalSignature = musigSigAgg(
-      allPartialSigs,
-      session.aggregatedNonce,
-      session.message,
-      pubKeyForAggregation,
-      sighashType,
-    )
-
-    session.phase = MuSigSessionPhase.COMPLETE
-    session.updatedAt = Date.now()
+  /**
+   * Get the Taproot merkle root for a session
+   *
+   * Outputs with a script tree (e.g. refund leaves) pass the merkle root as
+   * hex in metadata.taprootMerkleRoot. Key-path-only outputs use all zeros.
+   */
+  private _getTaprootMerkleRoot(session: MuSigSession): Buffer {
+    const merkleRoot = session.metadata?.taprootMerkleRoot
+    return typeof merkleRoot === 'string'
+      ? Buffer.from(merkleRoot, 'hex')
+      : Buffer.alloc(32)
   }
 
   /**
@@ -901,8 +1115,8 @@ export class MuSigSessionManager {
         break
 
       case MuSigSessionPhase.COMPLETE:
-        // Should have final signature
-        if (!session.finalSignature) {
+        // Should have final (or adaptor) signature
+        if (!session.finalSignature && !session.adaptorSignature) {
           throw new Error('COMPLETE phase requires final signature')
         }
         break
@@ -58,6 +58,7 @@ import {
   signTaprootKeyPathWithMuSig2,
   type MuSigTaprootKeyResult,
 } from '../taproot/musig2.js'
+import { musigDeriveKeyAggContext } from './xpub.js'
 import { Transaction } from '../transaction/transaction.js'
 import { sighash } from '../transaction/sighash.js'
 import { BN } from '../crypto/bn.js'
@@ -396,20 +397,21 @@ export class MuSig2Signer {
    * Use this when creating Taproot outputs that will be spent via MuSig2.
    *
    * @param state - Optional 32-byte state data (e.g., NFT metadata hash)
+   * @param derivationPath - Optional non-hardened path (e.g. `m/0/5`) to
+   * derive a fresh key from the signers' aggregate xpub
    * @returns Taproot-specific preparation result
    */
   prepareTaproot(
     state?: Buffer,
+    derivationPath?: string | number[],
   ): MuSigTaprootKeyResult & { keyAggContext: MuSigKeyAggContext } {
-    const result = buildMuSigTaprootKey(this.config.signers, state)
-
-    // Get key aggregation context
-    const keyAggContext = musigKeyAgg(this.config.signers)
-
-    return {
-      ...result,
-      keyAggContext,
+    // Get key aggregation context, tweaked along the derivation path
+    let keyAggContext = musigKeyAgg(this.config.signers)
+    if (derivationPath !== undefined) {
+      keyAggContext = musigDeriveKeyAggContext(keyAggContext, derivationPath)
     }
+
+    return buildMuSigTaprootKey(keyAggContext, state)
   }
 
   /**
@@ -0,0 +1,143 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * MuSig2 Aggregate Extended Public Keys
+ *
+ * Implements synthetic extended public keys for MuSig2 aggregated keys
+ * (BIP328). The aggregated key is paired with a fixed chain code so that
+ * standard non-hardened BIP32 derivation produces fresh keys for the same
+ * signer set, e.g. one Taproot address per payment, without another key
+ * aggregation round.
+ *
+ * Each derivation step adds a BIP32 tweak to the aggregated key.
+ * musigDeriveKeyAggContext() accumulates the same tweaks in the key
+ * aggregation context so the signers can sign for the derived key.
+ *
+ * @module MuSig2Xpub
+ */
+
+import { HDPublicKey } from '../hdpublickey.js'
+import { Network, get as getNetwork } from '../networks.js'
+import { BN } from '../crypto/bn.js'
+import { Hash } from '../crypto/hash.js'
+import { Point } from '../crypto/point.js'
+import { musigApplyTweak, type MuSigKeyAggContext } from '../crypto/musig2.js'
+import { HARDENED_OFFSET, parseDerivationPath } from '../util/derivation.js'
+
+/**
+ * Chain code of synthetic aggregate extended public keys (BIP328)
+ */
+export const MUSIG_XPUB_CHAIN_CODE = Buffer.from(
+  '868087ca02a6f974c4598924c36b57762d32cb45717167e300622c7167e38965',
+  'hex',
+)
+
+/**
+ * Create the synthetic extended public key of an aggregated key
+ *
+ * The xpub can be shared with watch-only wallets: non-hardened derivation
+ * from it yields the same keys as musigDeriveKeyAggContext().
+ *
+ * @param keyAggContext - Untweaked key aggregation context (from musigKeyAgg)
+ * @param network - Network of the xpub (default: livenet)
+ * @returns Depth 0 extended public key with the BIP328 chain code
+ * @throws Error if the context is tweaked or the network is unknown
+ *
+ * @example
+ * ```typescript
+ * const ctx = musigKeyAgg([alice.publicKey, bob.publicKey])
+ * const xpub = musigAggregateXpub(ctx)
+ *
+ * // Watch-only: address for payment #5
+ * const child = xpub.deriveChild('m/0/5')
+ * ```
+ */
+export function musigAggregateXpub(
+  keyAggContext: MuSigKeyAggContext,
+  network: string | Network = 'livenet',
+): HDPublicKey {
+  if (keyAggContext.tweak) {
+    throw new Error('Aggregate xpub requires an untweaked key aggregation')
+  }
+  const resolved = getNetwork(network)
+  if (!resolved) {
+    throw new Error(`Unknown network: ${network}`)
+  }
+
+  return new HDPublicKey({
+    network: resolved,
+    depth: 0,
+    childIndex: 0,
+    chainCode: MUSIG_XPUB_CHAIN_CODE,
+    publicKey: keyAggContext.aggregatedPubKey,
+  })
+}
+
+/**
+ * Derive a key aggregation context along a non-hardened path
+ *
+ * Applies the BIP32 tweak of every step with musigApplyTweak(). The derived
+ * context's aggregatedPubKey equals the public key of
+ * musigAggregateXpub(keyAggContext).deriveChild(path), and musigPartialSign()
+ * with the derived context produces signatures valid for it.
+ *
+ * @param keyAggContext - Untweaked key aggregation context (from musigKeyAgg)
+ * @param path - Path such as `m/0/5`, or child indexes
+ * @returns Key aggregation context for the derived key
+ * @throws Error if the path is malformed or hardened, or the context is tweaked
+ *
+ * @example
+ * ```typescript
+ * const ctx = musigKeyAgg([alice.publicKey, bob.publicKey])
+ * const derived = musigDeriveKeyAggContext(ctx, 'm/0/5')
+ *
+ * // Fresh Taproot output for payment #5
+ * const taproot = buildMuSigTaprootKey(derived)
+ * ```
+ */
+export function musigDeriveKeyAggContext(
+  keyAggContext: MuSigKeyAggContext,
+  path: string | number[],
+): MuSigKeyAggContext {
+  if (keyAggContext.tweak) {
+    throw new Error('Derivation requires an untweaked key aggregation')
+  }
+  const indexes = typeof path === 'string' ? parseDerivationPath(path) : path
+  if (indexes === null) {
+    throw new Error('Invalid path')
+  }
+
+  const n = Point.getN()
+  let derived = keyAggContext
+  let chainCode = MUSIG_XPUB_CHAIN_CODE
+
+  for (const index of indexes) {
+    if (!Number.isInteger(index) || index < 0) {
+      throw new Error('Invalid path')
+    }
+    if (index >= HARDENED_OFFSET) {
+      throw new Error('Cannot derive hardened keys from an aggregated key')
+    }
+
+    // I = HMAC-SHA512(c, serP(K) || ser32(i))
+    const indexBuffer = Buffer.alloc(4)
+    indexBuffer.writeUInt32BE(index, 0)
+    const hash = Hash.sha512hmac(
+      Buffer.concat([derived.aggregatedPubKey.toBuffer(), indexBuffer]),
+      chainCode,
+    )
+    const tweak = new BN(hash.subarray(0, 32), 'be')
+    if (tweak.gte(n)) {
+      throw new Error(`Invalid derivation at index ${index}, use the next one`)
+    }
+
+    derived = musigApplyTweak(derived, tweak)
+    chainCode = hash.subarray(32, 64)
+  }
+
+  return derived
+}
@@ -1413,6 +1413,7 @@ export class Script {
       MULTISIG_OUT: this.isMultisigOut.bind(this),
       SCRIPTHASH_OUT: this.isScriptHashOut.bind(this),
       DATA_OUT: this.isDataOut.bind(this),
+      TAPROOT_OUT: this.isPayToTaproot.bind(this),
     }
 
     for (const type in outputIdentifiers) {
@@ -1755,6 +1756,10 @@ export const ScriptTypes = {
   MULTISIG_OUT: 'Pay to multisig',
   MULTISIG_IN: 'Spend from multisig',
   DATA_OUT: 'Data push',
+  /**
+   * Pay to taproot, with or without state
+   */
+  TAPROOT_OUT: 'Pay to taproot',
 }
 
 /**
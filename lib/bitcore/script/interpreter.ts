@@ -14,6 +14,7 @@ import {
   TAPROOT_SCRIPTTYPE,
   verifyTaprootSpend,
 } from '../taproot.js'
+import type { InterpreterTrace, InterpreterTracePhase } from './trace.js'
 
 export interface InterpreterData {
   script?: Script
@@ -32,6 +33,7 @@ export interface InterpreterObject {
   satoshisBN?: bigint
   outputScript?: Script // Output script (scriptPubKey) for sighash calculation
   stack?: Buffer[] // Stack for script execution
+  trace?: InterpreterTrace // Records each executed step
 }
 
 /**
@@ -86,6 +88,28 @@ export class Interpreter {
    */
   static SCRIPT_DISABLE_TAPROOT_SIGHASH_LOTUS = 1 << 24 // lotusd uses 1<<1 (STANDARD)
 
+  /**
+   * Flags lotusd applies to transactions relayed into its mempool
+   *
+   * SCRIPT_VERIFY_INPUT_SIGCHECKS is left out: its bit selects the Taproot
+   * phaseout in verifyTaprootSpend(), and the sigchecks density rule is
+   * checked by checkStandardness() from Interpreter.sigChecks instead.
+   */
+  static STANDARD_SCRIPT_VERIFY_FLAGS =
+    Interpreter.SCRIPT_VERIFY_P2SH |
+    Interpreter.SCRIPT_VERIFY_STRICTENC |
+    Interpreter.SCRIPT_VERIFY_DERSIG |
+    Interpreter.SCRIPT_VERIFY_LOW_S |
+    Interpreter.SCRIPT_VERIFY_SIGPUSHONLY |
+    Interpreter.SCRIPT_VERIFY_MINIMALDATA |
+    Interpreter.SCRIPT_VERIFY_DISCOURAGE_UPGRADABLE_NOPS |
+    Interpreter.SCRIPT_VERIFY_CLEANSTACK |
+    Interpreter.SCRIPT_VERIFY_CHECKLOCKTIMEVERIFY |
+    Interpreter.SCRIPT_VERIFY_CHECKSEQUENCEVERIFY |
+    Interpreter.SCRIPT_VERIFY_NULLFAIL |
+    Interpreter.SCRIPT_ENABLE_SIGHASH_FORKID |
+    Interpreter.SCRIPT_ENABLE_SCHNORR_MULTISIG
+
   // Constants
   static MAX_SCRIPT_ELEMENT_SIZE = 520
   static MAX_SCRIPT_SIZE = 10000
@@ -102,7 +126,7 @@ export class Interpreter {
   static LOCKTIME_THRESHOLD_BN = new BN(500000000)
 
   // Sequence locktime flags
-  static SEQUENCE_LOCKTIME_DISABLE_FLAG = 1 << 31
+  static SEQUENCE_LOCKTIME_DISABLE_FLAG = 0x80000000 // (1 << 31)
   static SEQUENCE_LOCKTIME_TYPE_FLAG = 1 << 22
   static SEQUENCE_LOCKTIME_MASK = 0x0000ffff
 
@@ -120,6 +144,8 @@ export class Interpreter {
   nOpCount: number = 0
   vfExec: boolean[] = []
   errstr: string = ''
+  trace?: InterpreterTrace // Execution trace, kept across initialize()
+  sigChecks: number = 0 // Signature checks counted by verify(), as in lotusd
 
   constructor(obj?: InterpreterObject) {
     this.initialize()
@@ -155,9 +181,10 @@ export class Interpreter {
     this.tx = obj.tx || this.tx
     this.nin = obj.nin !== undefined ? obj.nin : this.nin
     this.flags = obj.flags !== undefined ? obj.flags : this.flags
-    this.satoshisBN = obj.satoshisBN || this.satoshisBN
+    this.satoshisBN = obj.satoshisBN ?? this.satoshisBN
     this.outputScript = obj.outputScript || this.outputScript
     this.stack = obj.stack || this.stack
+    this.trace = obj.trace || this.trace
     return this
   }
 
@@ -171,6 +198,14 @@ export class Interpreter {
    * @param {number} nin - index of the transaction input containing the scriptSig verified.
    * @param {number} flags - evaluation flags. See Interpreter.SCRIPT_* constants
    * @param {bigint} satoshisBN - amount in satoshis of the input to be verified
+   *
+   * With a trace attached, each call starts a new trace recording every
+   * executed step and the verification result.
+   *
+   * Each call also recounts sigChecks: one per non-empty signature checked
+   * by OP_CHECKSIG(VERIFY) and OP_CHECKDATASIG(VERIFY), one per key of a
+   * legacy OP_CHECKMULTISIG with any non-empty signature, one per signature
+   * of a Schnorr OP_CHECKMULTISIG, and one for a Taproot key path spend.
    */
   verify(
     scriptSig: Script,
@@ -179,6 +214,28 @@ export class Interpreter {
     nin: number,
     flags: number,
     satoshisBN: bigint,
+  ): boolean {
+    this.trace?.clear()
+    this.sigChecks = 0
+    const valid = this._verifyInput(
+      scriptSig,
+      scriptPubkey,
+      tx,
+      nin,
+      flags,
+      satoshisBN,
+    )
+    this.trace?.finish(valid, this.errstr)
+    return valid
+  }
+
+  private _verifyInput(
+    scriptSig: Script,
+    scriptPubkey: Script,
+    tx: Transaction,
+    nin: number,
+    flags: number,
+    satoshisBN: bigint,
   ): boolean {
     Preconditions.checkArgument(
       scriptSig instanceof Script,
@@ -196,7 +253,7 @@ export class Interpreter {
       flags |= Interpreter.SCRIPT_VERIFY_STRICTENC
 
       // If FORKID is enabled, we need the input amount
-      if (!satoshisBN) {
+      if (satoshisBN === undefined) {
         throw new Error(
           'internal error - need satoshisBN to verify FORKID transactions',
         )
@@ -222,6 +279,7 @@ export class Interpreter {
     }
 
     // Evaluate scriptSig first
+    this._tracePhase('scriptSig')
     if (!this.evaluate()) {
       return false
     }
@@ -260,6 +318,7 @@ export class Interpreter {
     }
 
     // Evaluate scriptPubkey with the stack from scriptSig
+    this._tracePhase('scriptPubKey')
     if (!this.evaluate()) {
       return false
     }
@@ -307,6 +366,7 @@ export class Interpreter {
       this.satoshisBN = satoshisBN
 
       // evaluate redeemScript
+      this._tracePhase('redeemScript')
       if (!this.evaluate()) {
         return false
       }
@@ -334,7 +394,8 @@ export class Interpreter {
         throw new Error('internal error - CLEANSTACK without P2SH')
       }
 
-      if (stackCopy.length != 1) {
+      // The redeem script was evaluated on stackCopy, which is this.stack
+      if (this.stack.length != 1) {
         this.errstr = 'SCRIPT_ERR_CLEANSTACK'
         return false
       }
@@ -641,8 +702,54 @@ export class Interpreter {
 
   /**
    * Execute one step of the script
+   *
+   * Steps are recorded in the attached trace, if any, so a script can be
+   * stepped through one opcode at a time.
    */
   step(): boolean {
+    if (!this.trace || this.pc >= this.script.chunks.length) {
+      return this._step()
+    }
+
+    const step = this.trace.begin(
+      this.pc,
+      this.script.chunks[this.pc],
+      this.stack,
+      this.altstack,
+      this.vfExec,
+    )
+    try {
+      const success = this._step()
+      this.trace.end(
+        step,
+        this.stack,
+        this.altstack,
+        this.vfExec,
+        success ? undefined : this.errstr,
+      )
+      return success
+    } catch (e) {
+      this.trace.end(
+        step,
+        this.stack,
+        this.altstack,
+        this.vfExec,
+        'SCRIPT_ERR_UNKNOWN_ERROR: ' + (e as Error).message,
+      )
+      throw e
+    }
+  }
+
+  /**
+   * Set the phase of subsequently traced steps
+   */
+  private _tracePhase(phase: InterpreterTracePhase): void {
+    if (this.trace) {
+      this.trace.phase = phase
+    }
+  }
+
+  private _step(): boolean {
     // This is a simplified version - the full implementation would be very long
     // For now, we'll implement basic opcode handling
 
@@ -690,7 +797,8 @@ export class Interpreter {
         return false
       }
       if (!chunk.buf) {
-        this.stack.push(Interpreter.false)
+        // OP_0 pushes an empty vector, which the Schnorr multisig dummy check relies on
+        this.stack.push(Buffer.alloc(0))
       } else if (chunk.len !== chunk.buf.length) {
         throw new Error('Length of push value not equal to length of data')
       } else {
@@ -1462,6 +1570,9 @@ export class Interpreter {
           ) {
             return false
           }
+          if (bufSig.length) {
+            this.sigChecks++
+          }
 
           let fSuccess = false
 
@@ -1532,6 +1643,9 @@ export class Interpreter {
           ) {
             return false
           }
+          if (sigBuf.length) {
+            this.sigChecks++
+          }
 
           // Subset of script starting at the most recent codeseparator
           const subscript = new Script()
@@ -1608,6 +1722,9 @@ export class Interpreter {
           ) {
             return false
           }
+          if (sigBuf2.length) {
+            this.sigChecks++
+          }
 
           // Subset of script starting at the most recent codeseparator
           const subscript2 = new Script()
@@ -1752,6 +1869,7 @@ export class Interpreter {
             // SCHNORR MULTISIG
 
             const dummy = this.stacktop(-idxDummy)
+            this.sigChecks += nSigsCount
 
             const bitfieldObj = this.decodeBitfield(dummy, nKeysCount)
 
@@ -1839,6 +1957,13 @@ export class Interpreter {
           } else {
             // LEGACY MULTISIG (ECDSA / NULL)
 
+            for (let k = 0; k < nSigsCount; k++) {
+              if (this.stacktop(-isig - k).length) {
+                this.sigChecks += nKeysCount
+                break
+              }
+            }
+
             // Drop the signatures, since there's no way for a signature to sign itself
             for (let k = 0; k < nSigsCount; k++) {
               const bufSig = this.stacktop(-isig - k)
@@ -2355,6 +2480,7 @@ export class Interpreter {
           this.pc = 0
           this.pbegincodehash = 0
 
+          this._tracePhase('tapscript')
           const evalResult = this.evaluate()
 
           // Restore state
@@ -2401,6 +2527,7 @@ export class Interpreter {
             this.errstr = 'SCRIPT_ERR_TAPROOT_VERIFY_SIGNATURE_FAILED'
             return false
           }
+          this.sigChecks++
 
           // Verify Schnorr signature with SIGHASH_LOTUS
           const sig = Signature.fromTxFormat(vchSig)
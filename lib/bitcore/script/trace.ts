@@ -0,0 +1,273 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * Interpreter Execution Trace
+ *
+ * Records every opcode an Interpreter executes: the program counter, the
+ * main and alt stacks before and after the step, and the branch (vfExec)
+ * state. Attach a trace to an Interpreter to follow a failing script opcode
+ * by opcode, including P2SH redeem scripts and Taproot script-path leaves.
+ *
+ * @example
+ * ```typescript
+ * const trace = new InterpreterTrace()
+ * const interpreter = new Interpreter({ trace })
+ * interpreter.verify(scriptSig, scriptPubKey, tx, 0, flags, satoshis)
+ * console.log(trace.toTable())
+ * ```
+ */
+
+import { Script } from '../script.js'
+import { Opcode } from '../opcode.js'
+import type { Chunk } from '../chunk.js'
+
+/**
+ * Script being executed when a step was recorded
+ *
+ * - script: evaluate() or step() called directly
+ * - scriptSig, scriptPubKey: the input and output scripts of verify()
+ * - redeemScript: the P2SH redeem script
+ * - tapscript: the revealed Taproot script-path leaf
+ */
+export type InterpreterTracePhase =
+  | 'script'
+  | 'scriptSig'
+  | 'scriptPubKey'
+  | 'redeemScript'
+  | 'tapscript'
+
+/**
+ * One executed opcode
+ *
+ * Stack items are hex encoded, bottom first.
+ */
+export interface InterpreterTraceStep {
+  /** Script being executed */
+  phase: InterpreterTracePhase
+
+  /** Index of the opcode in its script */
+  pc: number
+
+  /** Opcode or push in ASM */
+  asm: string
+
+  /**
+   * Whether the opcode ran (false inside an unexecuted branch, except for
+   * the conditionals themselves)
+   */
+  executed: boolean
+
+  /** Main stack before the step */
+  stackBefore: string[]
+
+  /** Main stack after the step */
+  stackAfter: string[]
+
+  /** Alt stack before the step */
+  altstackBefore: string[]
+
+  /** Alt stack after the step */
+  altstackAfter: string[]
+
+  /** Branch state before the step, innermost last */
+  vfExecBefore: boolean[]
+
+  /** Branch state after the step, innermost last */
+  vfExecAfter: boolean[]
+
+  /** Script error raised by the step */
+  error?: string
+}
+
+/**
+ * JSON form of a trace
+ */
+export interface InterpreterTraceObject {
+  steps: InterpreterTraceStep[]
+
+  /** Verification result (undefined until verify() completes) */
+  valid?: boolean
+
+  /** Verification error */
+  error?: string
+}
+
+/**
+ * Table rendering options
+ */
+export interface InterpreterTraceTableOptions {
+  /** Maximum hex characters shown per stack item (default: 16) */
+  maxItemLength?: number
+}
+
+export class InterpreterTrace {
+  /** Recorded steps, in execution order */
+  steps: InterpreterTraceStep[] = []
+
+  /** Phase assigned to newly recorded steps */
+  phase: InterpreterTracePhase = 'script'
+
+  /** Verification result (undefined until verify() completes) */
+  valid?: boolean
+
+  /** Verification error */
+  error?: string
+
+  /**
+   * Record the state before a step
+   *
+   * @returns The step, to be completed with end()
+   */
+  begin(
+    pc: number,
+    chunk: Chunk,
+    stack: Buffer[],
+    altstack: Buffer[],
+    vfExec: boolean[],
+  ): InterpreterTraceStep {
+    const script = new Script()
+    script.chunks = [chunk]
+    const step: InterpreterTraceStep = {
+      phase: this.phase,
+      pc,
+      asm: script.toASM(),
+      executed:
+        !vfExec.includes(false) ||
+        (chunk.opcodenum >= Opcode.OP_IF && chunk.opcodenum <= Opcode.OP_ENDIF),
+      stackBefore: InterpreterTrace._snapshot(stack),
+      stackAfter: [],
+      altstackBefore: InterpreterTrace._snapshot(altstack),
+      altstackAfter: [],
+      vfExecBefore: vfExec.slice(),
+      vfExecAfter: [],
+    }
+    this.steps.push(step)
+    return step
+  }
+
+  /**
+   * Record the state after a step
+   */
+  end(
+    step: InterpreterTraceStep,
+    stack: Buffer[],
+    altstack: Buffer[],
+    vfExec: boolean[],
+    error?: string,
+  ): void {
+    step.stackAfter = InterpreterTrace._snapshot(stack)
+    step.altstackAfter = InterpreterTrace._snapshot(altstack)
+    step.vfExecAfter = vfExec.slice()
+    if (error) {
+      step.error = error
+    }
+  }
+
+  /**
+   * Record the verification result
+   */
+  finish(valid: boolean, error?: string): void {
+    this.valid = valid
+    this.error = valid ? undefined : error
+  }
+
+  /**
+   * Discard all recorded steps and the result
+   */
+  clear(): void {
+    this.steps = []
+    this.phase = 'script'
+    this.valid = undefined
+    this.error = undefined
+  }
+
+  /**
+   * The step that raised the verification error, if any
+   */
+  get failedStep(): InterpreterTraceStep | undefined {
+    return this.steps.find(step => step.error !== undefined)
+  }
+
+  toObject(): InterpreterTraceObject {
+    return {
+      steps: this.steps.map(step => ({ ...step })),
+      valid: this.valid,
+      error: this.error,
+    }
+  }
+
+  toJSON(): InterpreterTraceObject {
+    return this.toObject()
+  }
+
+  /**
+   * Render the trace as a table of opcodes and the stacks after each step
+   *
+   * Stack items are hex encoded with the top of the stack last. Opcodes in
+   * unexecuted branches are marked "skip".
+   */
+  toTable(options: InterpreterTraceTableOptions = {}): string {
+    const maxItemLength = options.maxItemLength ?? 16
+    const item = (hex: string) =>
+      hex === ''
+        ? "''"
+        : hex.length > maxItemLength
+          ? `${hex.slice(0, maxItemLength)}…`
+          : hex
+    const stack = (items: string[]) => items.map(item).join(' ')
+    const asm = (text: string) =>
+      text
+        .split(' ')
+        .map(word => (/^[0-9a-f]+$/.test(word) ? item(word) : word))
+        .join(' ')
+
+    const rows = this.steps.map((step, index) => [
+      String(index),
+      step.phase,
+      String(step.pc),
+      asm(step.asm),
+      step.executed ? '' : 'skip',
+      step.vfExecAfter.map(exec => (exec ? '1' : '0')).join(''),
+      stack(step.stackAfter) +
+        (step.altstackAfter.length
+          ? ` | alt: ${stack(step.altstackAfter)}`
+          : ''),
+      step.error ?? '',
+    ])
+    const header = [
+      'STEP',
+      'PHASE',
+      'PC',
+      'OPCODE',
+      'EXEC',
+      'BRANCH',
+      'STACK',
+      'ERROR',
+    ]
+    const widths = header.map((title, column) =>
+      Math.max(title.length, ...rows.map(row => row[column].length)),
+    )
+    const lines = [header, ...rows].map(row =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join('  ')
+        .trimEnd(),
+    )
+    if (this.valid !== undefined) {
+      lines.push(this.valid ? 'Result: valid' : `Result: ${this.error}`)
+    }
+    return lines.join('\n')
+  }
+
+  toString(): string {
+    return this.toTable()
+  }
+
+  private static _snapshot(stack: Buffer[]): string[] {
+    return stack.map(buf => buf.toString('hex'))
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * Taproot + FROST Integration
+ *
+ * Uses a FROST group public key as the Taproot internal key. A key-path
+ * spend signed by any threshold of the participants looks like a single-sig
+ * spend on chain, exactly like a MuSig2 key-path spend.
+ *
+ * Signing: pass `tweak` to frostPartialSign, frostPartialSigVerify and
+ * frostSigAgg. Signers compute their partial signatures against the tweaked
+ * key and the aggregator adds e·t, so no signer needs to tweak its share.
+ *
+ * @module TaprootFROST
+ */
+
+import { PublicKey } from '../publickey.js'
+import { Address } from '../address.js'
+import { Script } from '../script.js'
+import {
+  buildKeyPathTaproot,
+  buildScriptPathTaproot,
+  calculateTapTweak,
+  tweakPublicKey,
+  type TapNode,
+  type TapLeaf,
+} from '../taproot.js'
+
+/**
+ * Result of FROST Taproot key creation
+ */
+export interface FrostTaprootKeyResult {
+  /** FROST group public key (before Taproot tweak) */
+  groupPublicKey: PublicKey
+
+  /** Taproot commitment (group key + tweak) */
+  commitment: PublicKey
+
+  /** Taproot output script */
+  script: Script
+
+  /** Merkle root (if using script tree) */
+  merkleRoot: Buffer
+
+  /** Taproot tweak value (pass to FROST signing) */
+  tweak: Buffer
+}
+
+/**
+ * Build a Taproot output for a FROST group key (key-path only)
+ *
+ * Algorithm:
+ * 1. Compute Taproot tweak: t = H("TapTweak", Y || merkle_root)
+ * 2. Compute commitment: C = Y + t·G
+ * 3. Build Taproot script: OP_SCRIPTTYPE OP_1 <33-byte C>
+ *
+ * @param groupPublicKey - FROST group public key (from the DKG)
+ * @param state - Optional 32-byte Taproot state
+ * @returns FROST Taproot key result with the tweak needed for signing
+ *
+ * @example
+ * ```typescript
+ * const result = buildFrostTaprootKey(keyShare.groupPublicKey)
+ * // Sign key-path spends with frostPartialSign(..., result.tweak)
+ * ```
+ */
+export function buildFrostTaprootKey(
+  groupPublicKey: PublicKey,
+  state?: Buffer,
+): FrostTaprootKeyResult {
+  // For key-path only, merkle root is all zeros
+  const merkleRoot = Buffer.alloc(32)
+
+  return {
+    groupPublicKey,
+    commitment: tweakPublicKey(groupPublicKey, merkleRoot),
+    script: buildKeyPathTaproot(groupPublicKey, state),
+    merkleRoot,
+    tweak: calculateTapTweak(groupPublicKey, merkleRoot),
+  }
+}
+
+/**
+ * Build a Taproot output for a FROST group key with a script tree
+ *
+ * @param groupPublicKey - FROST group public key (from the DKG)
+ * @param scriptTree - Taproot script tree structure
+ * @param state - Optional 32-byte Taproot state
+ * @returns FROST Taproot key result with script tree info
+ */
+export function buildFrostTaprootKeyWithScripts(
+  groupPublicKey: PublicKey,
+  scriptTree: TapNode,
+  state?: Buffer,
+): FrostTaprootKeyResult & { leaves: TapLeaf[] } {
+  const { script, commitment, merkleRoot, leaves } = buildScriptPathTaproot(
+    groupPublicKey,
+    scriptTree,
+    state,
+  )
+
+  return {
+    groupPublicKey,
+    commitment,
+    script,
+    merkleRoot,
+    tweak: calculateTapTweak(groupPublicKey, merkleRoot),
+    leaves,
+  }
+}
+
+/**
+ * Create a Taproot address for a FROST group key
+ *
+ * @param groupPublicKey - FROST group public key
+ * @param network - Network for address ('livenet' or 'testnet')
+ * @param state - Optional 32-byte state
+ * @returns Taproot address and key info
+ */
+export function createFrostTaprootAddress(
+  groupPublicKey: PublicKey,
+  network: string = 'livenet',
+  state?: Buffer,
+): FrostTaprootKeyResult & { address: Address } {
+  const result = buildFrostTaprootKey(groupPublicKey, state)
+  return {
+    ...result,
+    address: Address.fromTaprootCommitment(result.commitment, network),
+  }
+}
@@ -24,16 +24,15 @@ import { PublicKey } from '../publickey.js'
 import { PrivateKey } from '../privatekey.js'
 import { Address } from '../address.js'
 import { Script } from '../script.js'
-import { BN, Point, Hash } from '../crypto/index.js'
+import { BN, Point } from '../crypto/index.js'
 import {
   musigKeyAgg,
+  musigApplyTweak,
   musigPartialSign,
   musigPartialSigVerify,
   type MuSigKeyAggContext,
   type MuSigNonce,
   type MuSigAggregatedNonce,
-  musigTaggedHash,
-  MUSIG_TAG_NONCE_COEFF,
 } from '../crypto/musig2.js'
 import {
   buildKeyPathTaproot,
@@ -68,6 +67,17 @@ export interface MuSigTaprootKeyResult {
   tweak: Buffer
 }
 
+/**
+ * Aggregate signer keys unless given an existing key aggregation context
+ */
+function toKeyAggContext(
+  signerPubKeys: PublicKey[] | MuSigKeyAggContext,
+): MuSigKeyAggContext {
+  return Array.isArray(signerPubKeys)
+    ? musigKeyAgg(signerPubKeys)
+    : signerPubKeys
+}
+
 /**
  * Build a MuSig2 aggregated key for Taproot (key-path only)
  *
@@ -81,7 +91,8 @@ export interface MuSigTaprootKeyResult {
  * 3. Compute commitment: C = Q + t·G
  * 4. Build Taproot script: OP_SCRIPTTYPE OP_1 <33-byte C>
  *
- * @param signerPubKeys - Array of signer public keys to aggregate
+ * @param signerPubKeys - Array of signer public keys to aggregate, or an
+ * existing key aggregation context (e.g. from musigDeriveKeyAggContext)
  * @param state - Optional 32-byte Taproot state
  * @returns MuSig2 Taproot key result with all necessary data for signing
  *
@@ -102,11 +113,11 @@ export interface MuSigTaprootKeyResult {
  * ```
  */
 export function buildMuSigTaprootKey(
-  signerPubKeys: PublicKey[],
+  signerPubKeys: PublicKey[] | MuSigKeyAggContext,
   state?: Buffer,
 ): MuSigTaprootKeyResult {
   // Step 1: Aggregate signer public keys
-  const keyAggContext = musigKeyAgg(signerPubKeys)
+  const keyAggContext = toKeyAggContext(signerPubKeys)
   const aggregatedPubKey = keyAggContext.aggregatedPubKey
 
   // Step 2: For key-path only, merkle root is all zeros
@@ -144,7 +155,8 @@ export function buildMuSigTaprootKey(
  * 4. Compute commitment: C = Q + t·G
  * 5. Build Taproot script with commitment
  *
- * @param signerPubKeys - Array of signer public keys
+ * @param signerPubKeys - Array of signer public keys, or an existing key
+ * aggregation context
  * @param scriptTree - Taproot script tree structure
  * @param state - Optional 32-byte Taproot state
  * @returns MuSig2 Taproot key result with script tree info
@@ -167,12 +179,12 @@ export function buildMuSigTaprootKey(
  * ```
  */
 export function buildMuSigTaprootKeyWithScripts(
-  signerPubKeys: PublicKey[],
+  signerPubKeys: PublicKey[] | MuSigKeyAggContext,
   scriptTree: TapNode,
   state?: Buffer,
 ): MuSigTaprootKeyResult & { leaves: TapLeaf[] } {
   // Step 1: Aggregate signer public keys
-  const keyAggContext = musigKeyAgg(signerPubKeys)
+  const keyAggContext = toKeyAggContext(signerPubKeys)
   const aggregatedPubKey = keyAggContext.aggregatedPubKey
 
   // Step 2: Build script tree
@@ -210,6 +222,10 @@ export function buildMuSigTaprootKeyWithScripts(
  * we need s·G = R + e·Q', but normal MuSig2 gives s·G = R + e·Q.
  * So signer 0 adds e·t to bridge the gap: (R + e·Q + e·t·G) = R + e·Q'
  *
+ * This is musigPartialSign() with a context tweaked by musigApplyTweak().
+ * Contexts that are already tweaked (e.g. derived from an aggregate xpub)
+ * or nested are supported.
+ *
  * @param secretNonce - Signer's secret nonce
  * @param privateKey - Signer's private key (UNTWEAKED)
  * @param keyAggContext - Key aggregation context (with INTERNAL key)
@@ -217,6 +233,7 @@ export function buildMuSigTaprootKeyWithScripts(
  * @param aggregatedNonce - Aggregated nonces from all signers
  * @param message - Message to sign (transaction sighash)
  * @param tweak - Taproot tweak (from result.tweak)
+ * @param adaptorPoint - Optional adaptor point T for an adaptor signature
  * @returns Partial signature for Taproot spending
  */
 export function signTaprootKeyPathWithMuSig2(
@@ -227,69 +244,23 @@ export function signTaprootKeyPathWithMuSig2(
   aggregatedNonce: MuSigAggregatedNonce,
   message: Buffer,
   tweak: Buffer,
+  adaptorPoint?: Point,
 ): BN {
-  const n = Point.getN()
-
-  // Compute commitment Q' = Q + t·G
-  const commitment = keyAggContext.aggregatedPubKey.addScalar(tweak)
-
-  // ALL signers use commitment in challenge hash
-  const modifiedKeyAggContext: MuSigKeyAggContext = {
-    ...keyAggContext,
-    aggregatedPubKey: commitment,
-  }
-
-  // Compute normal partial signature using commitment
-  const partialSig = musigPartialSign(
+  return musigPartialSign(
     secretNonce,
     privateKey,
-    modifiedKeyAggContext,
+    musigApplyTweak(keyAggContext, tweak),
     signerIndex,
     aggregatedNonce,
     message,
+    adaptorPoint,
   )
-
-  // BIP327: Only signer 0 adds the correction term
-  if (signerIndex === 0) {
-    // The partial signature gives: s_i·G = R_i + e·a_i·P_i
-    // When summed: s·G = R + e·(Σ a_i·P_i) = R + e·Q
-    // But we need: s·G = R + e·Q' = R + e·(Q + t·G) = R + e·Q + e·t·G
-    // So signer 0 adds: e·t
-
-    // Recompute challenge e with commitment
-    const { R1, R2 } = aggregatedNonce
-
-    const nonceCoefData = Buffer.concat([
-      commitment.toBuffer(), // Use commitment!
-      Point.pointToCompressed(R1),
-      Point.pointToCompressed(R2),
-      message,
-    ])
-    const b = new BN(
-      musigTaggedHash(MUSIG_TAG_NONCE_COEFF, nonceCoefData),
-      'be',
-    )
-
-    const R = R1.add(R2.mul(b))
-    const R_x = R.getX().toArrayLike(Buffer, 'be', 32)
-    const commitment_compressed = Point.pointToCompressed(commitment.point)
-    const challengeData = Buffer.concat([R_x, commitment_compressed, message])
-    const e = new BN(Hash.sha256(challengeData), 'be').umod(n)
-
-    // Add e·t
-    const tweakBN = new BN(tweak, 'be').umod(n)
-    const tweakTerm = e.mul(tweakBN).umod(n)
-
-    return partialSig.add(tweakTerm).umod(n)
-  }
-
-  return partialSig
 }
 
 /**
  * Verify MuSig2 partial signature for Taproot key path
  *
- * For signer 0: must subtract the tweak term before verification
+ * For signer 0: the tweak term is subtracted before verification
  * For other signers: verify normally with commitment
  *
  * @param partialSig - Partial signature to verify
@@ -300,6 +271,7 @@ export function signTaprootKeyPathWithMuSig2(
  * @param aggregatedNonce - Aggregated nonces
  * @param message - Message being signed
  * @param tweak - Taproot tweak (from result.tweak)
+ * @param adaptorPoint - Optional adaptor point T for an adaptor signature
  * @returns true if partial signature is valid
  */
 export function verifyTaprootKeyPathMuSigPartial(
@@ -311,56 +283,17 @@ export function verifyTaprootKeyPathMuSigPartial(
   aggregatedNonce: MuSigAggregatedNonce,
   message: Buffer,
   tweak: Buffer,
+  adaptorPoint?: Point,
 ): boolean {
-  const n = Point.getN()
-
-  // Compute commitment
-  const commitment = keyAggContext.aggregatedPubKey.addScalar(tweak)
-
-  // Modified context with commitment
-  const modifiedKeyAggContext: MuSigKeyAggContext = {
-    ...keyAggContext,
-    aggregatedPubKey: commitment,
-  }
-
-  // For signer 0: subtract the tweak term before verifying
-  let adjustedPartialSig = partialSig
-
-  if (signerIndex === 0) {
-    // Recompute challenge e with commitment
-    const { R1, R2 } = aggregatedNonce
-
-    const nonceCoefData = Buffer.concat([
-      commitment.toBuffer(),
-      Point.pointToCompressed(R1),
-      Point.pointToCompressed(R2),
-      message,
-    ])
-    const b = new BN(
-      musigTaggedHash(MUSIG_TAG_NONCE_COEFF, nonceCoefData),
-      'be',
-    )
-
-    const R = R1.add(R2.mul(b))
-    const R_x = R.getX().toArrayLike(Buffer, 'be', 32)
-    const commitment_compressed = Point.pointToCompressed(commitment.point)
-    const challengeData = Buffer.concat([R_x, commitment_compressed, message])
-    const e = new BN(Hash.sha256(challengeData), 'be').umod(n)
-
-    // Subtract e·t from partial signature
-    const tweakBN = new BN(tweak, 'be').umod(n)
-    const tweakTerm = e.mul(tweakBN).umod(n)
-    adjustedPartialSig = partialSig.sub(tweakTerm).umod(n)
-  }
-
   return musigPartialSigVerify(
-    adjustedPartialSig,
+    partialSig,
     publicNonce,
     publicKey,
-    modifiedKeyAggContext,
+    musigApplyTweak(keyAggContext, tweak),
     signerIndex,
     aggregatedNonce,
     message,
+    adaptorPoint,
   )
 }
 
@@ -382,13 +315,14 @@ export function isMuSigTaprootOutput(script: Script): boolean {
 /**
  * Utility to create Taproot address from MuSig2 aggregated key
  *
- * @param signerPubKeys - Array of signer public keys
+ * @param signerPubKeys - Array of signer public keys, or an existing key
+ * aggregation context
  * @param network - Network for address ('livenet' or 'testnet')
  * @param state - Optional 32-byte state
  * @returns Taproot address and key info
  */
 export function createMuSigTaprootAddress(
-  signerPubKeys: PublicKey[],
+  signerPubKeys: PublicKey[] | MuSigKeyAggContext,
   network: string = 'livenet',
   state?: Buffer,
 ): {
@@ -9,6 +9,8 @@
  * - Provable metadata commitments via SHA256 hashing
  * - Privacy via key path transfers
  * - Flexible trading mechanisms via script trees
+ * - Single-hop creator royalties, provable burns and time-locked escrow
+ *   via prebuilt script tree policies
  * - Collection support with shared attributes
  *
  * Reference: lotus-website/app/content/6.docs/specs/2.script/examples/taproot-nfts.md
@@ -17,21 +19,26 @@
  */
 
 import { Hash } from '../crypto/hash.js'
+import { BN } from '../crypto/bn.js'
 import { PublicKey } from '../publickey.js'
 import { PrivateKey } from '../privatekey.js'
 import { Script } from '../script.js'
+import { Opcode } from '../opcode.js'
 import {
   buildScriptPathTaproot,
   buildKeyPathTaproot,
+  createControlBlock,
   extractTaprootCommitment,
   extractTaprootState,
   isPayToTaproot,
+  tweakPublicKey,
   type TapNode,
   type TapLeaf,
 } from '../taproot.js'
 import { Transaction } from '../transaction/transaction.js'
 import { Output } from '../transaction/output.js'
 import { TaprootInput } from '../transaction/input.js'
+import { sighashPreimage, sign } from '../transaction/sighash.js'
 import {
   UnspentOutput,
   UnspentOutputData,
@@ -181,6 +188,229 @@ export interface NFTTransferConfig {
   fee?: number
 }
 
+/**
+ * A single NFT moved by a batch transfer
+ */
+export interface NFTBatchTransfer {
+  /** Current owner's private key */
+  currentOwnerKey: PrivateKey
+  /** New owner's public key */
+  newOwnerKey: PublicKey
+  /** Current NFT UTXO */
+  nftUtxo: NFTUtxo
+  /** Metadata hash (must match UTXO) */
+  metadataHash: Buffer
+}
+
+/**
+ * NFT batch transfer configuration
+ */
+export interface NFTBatchTransferConfig {
+  /** NFTs to transfer, from any number of owners to any number of recipients */
+  transfers: NFTBatchTransfer[]
+  /** UTXOs funding the fee, so the NFTs keep their full value */
+  fundingUtxos?: Array<UnspentOutput | UnspentOutputData>
+  /** Private key signing the funding inputs (required with fundingUtxos) */
+  fundingKey?: PrivateKey
+  /** Change address (default: the funding key's address) */
+  changeAddress?: Address | string
+  /** Optional fee rate in satoshis per byte, with fundingUtxos */
+  feePerByte?: number
+  /**
+   * Optional total fee in satoshis without fundingUtxos, deducted evenly from
+   * the NFTs' values
+   */
+  fee?: number
+}
+
+/**
+ * NFT swap offer configuration
+ */
+export interface NFTSwapOfferConfig {
+  /** Current owner's private key */
+  sellerKey: PrivateKey
+  /** NFT UTXO being sold */
+  nftUtxo: NFTUtxo
+  /** Metadata hash (must match UTXO) */
+  metadataHash: Buffer
+  /** Sale price in satoshis */
+  price: number
+  /** Address the price is paid to (default: the seller key's address) */
+  paymentAddress?: Address | string
+  /** Merkle root of the NFT's script tree, for script path NFTs */
+  merkleRoot?: Buffer
+}
+
+/**
+ * Signed offer to sell an NFT for a fixed price
+ *
+ * The seller's signature commits to the NFT input and to the payment output
+ * at the same index, and to nothing else, so any buyer can add inputs and
+ * outputs without invalidating it.
+ */
+export interface NFTSwapOffer {
+  /** NFT UTXO being sold */
+  nftUtxo: NFTUtxo
+  /** Metadata hash of the NFT */
+  metadataHash: Buffer
+  /** Output paying the seller */
+  payment: Output
+  /** Seller's Schnorr signature in transaction format (65 bytes) */
+  signature: Buffer
+  /** Merkle root of the NFT's script tree, for script path NFTs */
+  merkleRoot?: Buffer
+}
+
+/**
+ * NFT swap offer JSON serialization format
+ */
+export interface NFTSwapOfferObject {
+  /** NFT UTXO transaction ID */
+  txid: string
+  /** NFT UTXO output index */
+  outputIndex: number
+  /** NFT script as hex string */
+  script: string
+  /** NFT value in satoshis */
+  satoshis: number
+  /** Metadata hash as hex string */
+  metadataHash: string
+  /** Payment output script as hex string */
+  paymentScript: string
+  /** Sale price in satoshis */
+  price: number
+  /** Seller signature as hex string */
+  signature: string
+  /** Optional merkle root (hex) */
+  merkleRoot?: string
+}
+
+/**
+ * NFT swap completion configuration
+ */
+export interface NFTSwapCompleteConfig {
+  /** Buyer's private key, signing the funding inputs */
+  buyerKey: PrivateKey
+  /** UTXOs funding the price and fee */
+  fundingUtxos: Array<UnspentOutput | UnspentOutputData>
+  /** Public key receiving the NFT (default: the buyer key's) */
+  recipientKey?: PublicKey
+  /** Change address (default: the buyer key's address) */
+  changeAddress?: Address | string
+  /** Optional fee rate in satoshis per byte */
+  feePerByte?: number
+}
+
+/**
+ * Fixed creator royalty paid by spends of a policy NFT
+ *
+ * Consensus only enforces it on the NFT output that commits to it: the
+ * royalty leaf cannot see the sale price or the next owner's output. The
+ * next owner's commitment is a key tweaked by their key, which Script
+ * cannot compute, so the leaf cannot require the NFT to stay under the same
+ * policy. NFTUtil's spend builders always carry the royalty forward, but a
+ * transaction built by other means can move the NFT to an output without
+ * it. Royalties are therefore enforced for one hop only.
+ */
+export interface NFTRoyalty {
+  /** Creator's address */
+  address: Address | string
+  /** Royalty in satoshis, the same for every spend */
+  satoshis: number
+}
+
+/**
+ * Time-locked escrow of a policy NFT
+ */
+export interface NFTEscrow {
+  /** Public key able to claim the NFT once the lock time has passed */
+  publicKey: PublicKey
+  /** Absolute lock time (block height, or unix time from 500000000) */
+  locktime: number
+}
+
+/**
+ * Spending policy of an NFT, committed to as leaves of its script tree
+ */
+export interface NFTPolicy {
+  /** Royalty leaf: spends of this output must pay the creator */
+  royalty?: NFTRoyalty
+  /** Burn leaf: the owner can provably end the NFT's lineage */
+  burnable?: boolean
+  /** Escrow leaf: the escrow key can claim the NFT after the lock time */
+  escrow?: NFTEscrow
+}
+
+/**
+ * Royalty-paying NFT transfer configuration
+ */
+export interface NFTRoyaltyTransferConfig {
+  /** Current owner's private key, also signing the funding inputs */
+  currentOwnerKey: PrivateKey
+  /** New owner's public key */
+  newOwnerKey: PublicKey
+  /** Current NFT UTXO */
+  nftUtxo: NFTUtxo
+  /** Metadata hash (must match UTXO) */
+  metadataHash: Buffer
+  /** Policy of the current NFT UTXO */
+  policy: NFTPolicy
+  /**
+   * Policy of the new NFT output (default: the royalty and burn leaves).
+   * Must keep the same royalty; the royalty leaf itself does not check it.
+   */
+  newPolicy?: NFTPolicy
+  /** UTXOs funding the royalty and fee */
+  fundingUtxos: Array<UnspentOutput | UnspentOutputData>
+  /** Change address (default: the current owner key's address) */
+  changeAddress?: Address | string
+  /** Optional fee rate in satoshis per byte */
+  feePerByte?: number
+}
+
+/**
+ * NFT burn configuration
+ */
+export interface NFTBurnConfig {
+  /** Owner's private key */
+  ownerKey: PrivateKey
+  /** NFT UTXO being burned */
+  nftUtxo: NFTUtxo
+  /** Metadata hash (must match UTXO) */
+  metadataHash: Buffer
+  /** Policy of the NFT UTXO */
+  policy: NFTPolicy
+}
+
+/**
+ * NFT escrow claim configuration
+ */
+export interface NFTEscrowClaimConfig {
+  /** Escrow private key, also signing the funding inputs */
+  escrowKey: PrivateKey
+  /** Public key of the owner the escrowed NFT was created for */
+  ownerKey: PublicKey
+  /** Escrowed NFT UTXO */
+  nftUtxo: NFTUtxo
+  /** Metadata hash (must match UTXO) */
+  metadataHash: Buffer
+  /** Policy of the escrowed NFT UTXO */
+  policy: NFTPolicy
+  /** Public key receiving the NFT (default: the escrow key's) */
+  recipientKey?: PublicKey
+  /**
+   * Policy of the new NFT output (default: the royalty and burn leaves).
+   * Must keep the royalty, if the policy has one.
+   */
+  newPolicy?: NFTPolicy
+  /** UTXOs funding the fee, and the royalty if the policy has one */
+  fundingUtxos: Array<UnspentOutput | UnspentOutputData>
+  /** Change address (default: the escrow key's address) */
+  changeAddress?: Address | string
+  /** Optional fee rate in satoshis per byte */
+  feePerByte?: number
+}
+
 /**
  * NFT with script path information
  */
@@ -193,6 +423,18 @@ export interface NFTWithScriptPath extends NFTData {
   leaves: TapLeaf[]
 }
 
+/**
+ * NFT whose script tree implements an NFTPolicy
+ */
+export interface NFTWithPolicy extends NFTWithScriptPath {
+  /** Internal public key (unspendable when the policy has a royalty) */
+  internalPubKey: PublicKey
+  /** Script tree committed to by the output */
+  scriptTree: TapNode
+  /** Policy implemented by the script tree */
+  policy: NFTPolicy
+}
+
 /**
  * NFT that belongs to a collection
  */
@@ -1109,6 +1351,160 @@ export class NFTUtil {
     return tx
   }
 
+  /**
+   * Transfer many NFTs in a single transaction (key path)
+   *
+   * Input i spends the NFT of transfer i and output i recreates it, with the
+   * same metadata hash, for its new owner. With fundingUtxos, the remaining
+   * inputs pay the fee and change goes to the funding key; otherwise the fee
+   * is deducted evenly from the NFTs' values.
+   *
+   * @param config - Batch transfer configuration
+   * @returns Signed transaction ready to broadcast
+   * @throws Error if a key does not own its NFT, an NFT appears twice, an
+   * output would be dust or the funding is insufficient
+   *
+   * @example
+   * ```typescript
+   * // Airdrop a collection in one transaction
+   * const tx = NFTUtil.transferBatch({
+   *   transfers: nftUtxos.map((nftUtxo, i) => ({
+   *     currentOwnerKey: creator,
+   *     newOwnerKey: recipients[i],
+   *     nftUtxo,
+   *     metadataHash: NFTUtil.extractMetadataHash(nftUtxo.script)!,
+   *   })),
+   *   fundingUtxos: [feeUtxo],
+   *   fundingKey: creator,
+   * })
+   * ```
+   */
+  static transferBatch(config: NFTBatchTransferConfig): Transaction {
+    const { transfers, fundingUtxos, fundingKey } = config
+    if (transfers.length === 0) {
+      throw new Error('At least one NFT transfer is required')
+    }
+    if (fundingUtxos && !fundingKey) {
+      throw new Error('Funding key is required with funding UTXOs')
+    }
+
+    // Without funding, the first (fee % n) NFTs pay one extra satoshi
+    const fee = fundingUtxos ? 0 : (config.fee ?? 0)
+    const feeShare = Math.floor(fee / transfers.length)
+    const feeRemainder = fee % transfers.length
+
+    const tx = new Transaction()
+    const outpoints = new Set<string>()
+    transfers.forEach((transfer, index) => {
+      const { currentOwnerKey, newOwnerKey, nftUtxo, metadataHash } = transfer
+
+      const inputState = NFTUtil.extractMetadataHash(nftUtxo.script)
+      if (!inputState || !inputState.equals(metadataHash)) {
+        throw new Error(
+          `Input script metadata hash does not match for transfer ${index}`,
+        )
+      }
+      const outpoint = `${nftUtxo.txid}:${nftUtxo.outputIndex}`
+      if (outpoints.has(outpoint)) {
+        throw new Error(`NFT ${outpoint} is transferred more than once`)
+      }
+      outpoints.add(outpoint)
+      if (
+        !tweakPublicKey(currentOwnerKey.publicKey)
+          .toBuffer()
+          .equals(extractTaprootCommitment(nftUtxo.script).toBuffer())
+      ) {
+        throw new Error(`Key does not own the NFT of transfer ${index}`)
+      }
+
+      const outputSatoshis =
+        nftUtxo.satoshis - feeShare - (index < feeRemainder ? 1 : 0)
+      if (outputSatoshis < 546) {
+        throw new Error('Output value below dust limit (546 satoshis)')
+      }
+
+      tx.addInput(
+        new TaprootInput({
+          prevTxId: Buffer.from(nftUtxo.txid, 'hex'),
+          outputIndex: nftUtxo.outputIndex,
+          output: new Output({
+            script: nftUtxo.script,
+            satoshis: nftUtxo.satoshis,
+          }),
+          script: new Script(),
+        }),
+      )
+      tx.addOutput(
+        new Output({
+          script: buildKeyPathTaproot(newOwnerKey, metadataHash),
+          satoshis: outputSatoshis,
+        }),
+      )
+    })
+
+    if (fundingUtxos) {
+      tx.from(fundingUtxos)
+      if (config.feePerByte !== undefined) {
+        tx.feePerByte(config.feePerByte)
+      }
+      tx.change(config.changeAddress ?? fundingKey!.toAddress())
+
+      if (tx.inputAmount - tx.outputAmount < tx.getFee()) {
+        throw new Error('Insufficient funds to pay the fee')
+      }
+    }
+
+    // Sign every NFT input with its owner's key, then the funding inputs
+    transfers.forEach((transfer, index) => {
+      const [signature] = tx.inputs[index].getSignatures(
+        tx,
+        transfer.currentOwnerKey,
+        index,
+        Signature.SIGHASH_ALL | Signature.SIGHASH_LOTUS,
+        undefined,
+        'schnorr',
+      )
+      tx.applySignature(signature, 'schnorr')
+    })
+    if (fundingUtxos) {
+      NFTUtil._signFundingInputs(tx, fundingKey!, transfers.length)
+    }
+
+    if (!NFTUtil.validateBatchTransfer(tx)) {
+      throw new Error('Batch transfer does not preserve every NFT')
+    }
+    return tx
+  }
+
+  /**
+   * Validate that a batch transfer preserves every NFT
+   *
+   * Every metadata hash spent by the transaction's inputs must be carried by
+   * exactly as many NFT outputs, and no NFT output may carry a metadata hash
+   * that no input spends.
+   *
+   * @param tx - Batch transfer transaction (inputs need their output info)
+   * @returns true if every NFT's state is preserved
+   */
+  static validateBatchTransfer(tx: Transaction): boolean {
+    const states = (scripts: Script[]) =>
+      scripts
+        .filter(script => NFTUtil.isNFT(script))
+        .map(script => NFTUtil.extractMetadataHash(script)!.toString('hex'))
+        .sort()
+
+    if (tx.inputs.some(input => !input.output)) {
+      return false
+    }
+    const inputStates = states(tx.inputs.map(input => input.output!.script))
+    const outputStates = states(tx.outputs.map(output => output.script))
+    return (
+      inputStates.length > 0 &&
+      inputStates.length === outputStates.length &&
+      inputStates.every((state, index) => state === outputStates[index])
+    )
+  }
+
   /**
    * Validate NFT transfer preserves metadata
    *
@@ -1130,6 +1526,951 @@ export class NFTUtil {
     return inputState.equals(outputState)
   }
 
+  /**
+   * Sighash type of swap offer signatures
+   *
+   * SIGHASH_SINGLE | SIGHASH_ANYONECANPAY | SIGHASH_LOTUS: the signature
+   * commits to the NFT input and the payment output at the same index only.
+   */
+  static readonly SWAP_SIGHASH_TYPE =
+    Signature.SIGHASH_SINGLE |
+    Signature.SIGHASH_ANYONECANPAY |
+    Signature.SIGHASH_LOTUS
+
+  /**
+   * Create a signed offer to sell an NFT (seller side of an atomic swap)
+   *
+   * The seller signs the NFT input with SWAP_SIGHASH_TYPE against a payment
+   * output at input 0's index. The offer can be published; whoever completes
+   * it must pay the price to get a valid transaction.
+   *
+   * @param config - Offer configuration
+   * @returns Signed swap offer
+   *
+   * @example
+   * ```typescript
+   * const offer = NFTUtil.createSwapOffer({
+   *   sellerKey: seller,
+   *   nftUtxo: nft.getUtxo(),
+   *   metadataHash: nft.metadataHash,
+   *   price: 50_000_000, // 50 XPI
+   * })
+   * const listing = NFTUtil.serializeSwapOffer(offer)
+   * ```
+   */
+  static createSwapOffer(config: NFTSwapOfferConfig): NFTSwapOffer {
+    const { sellerKey, nftUtxo, metadataHash, price, merkleRoot } = config
+
+    const inputState = NFTUtil.extractMetadataHash(nftUtxo.script)
+    if (!inputState || !inputState.equals(metadataHash)) {
+      throw new Error('Input script metadata hash does not match')
+    }
+    if (price < 546) {
+      throw new Error('Price below dust limit (546 satoshis)')
+    }
+    const commitment = extractTaprootCommitment(nftUtxo.script)
+    if (
+      !tweakPublicKey(sellerKey.publicKey, merkleRoot)
+        .toBuffer()
+        .equals(commitment.toBuffer())
+    ) {
+      throw new Error('Seller key does not own the NFT')
+    }
+
+    const payment = new Output({
+      script: Script.fromAddress(
+        config.paymentAddress ?? sellerKey.toAddress(),
+      ),
+      satoshis: price,
+    })
+    const tx = NFTUtil._swapOfferTransaction(nftUtxo, payment, merkleRoot)
+    const [signature] = tx.inputs[0].getSignatures(
+      tx,
+      sellerKey,
+      0,
+      NFTUtil.SWAP_SIGHASH_TYPE,
+      undefined,
+      'schnorr',
+    )
+
+    return {
+      nftUtxo,
+      metadataHash,
+      payment,
+      signature: signature.signature.toTxFormat('schnorr'),
+      merkleRoot,
+    }
+  }
+
+  /**
+   * Verify a swap offer
+   *
+   * Checks that the offered UTXO is an NFT with the offer's metadata hash and
+   * that the seller signature is valid for the NFT input and payment output
+   * with SWAP_SIGHASH_TYPE.
+   *
+   * @param offer - Swap offer
+   * @returns true if the offer can be completed
+   */
+  static verifySwapOffer(offer: NFTSwapOffer): boolean {
+    try {
+      const state = NFTUtil.extractMetadataHash(offer.nftUtxo.script)
+      if (!state || !state.equals(offer.metadataHash)) {
+        return false
+      }
+
+      const signature = Signature.fromSchnorr(offer.signature)
+      if (
+        offer.signature.length !== 65 ||
+        signature.nhashtype !== NFTUtil.SWAP_SIGHASH_TYPE
+      ) {
+        return false
+      }
+
+      const tx = NFTUtil._swapOfferTransaction(
+        offer.nftUtxo,
+        offer.payment,
+        offer.merkleRoot,
+      )
+      return tx.verifySignature(
+        signature,
+        extractTaprootCommitment(offer.nftUtxo.script),
+        0,
+        offer.nftUtxo.script,
+        new BN(offer.nftUtxo.satoshis),
+        undefined,
+        'schnorr',
+      )
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Complete a swap offer (buyer side of an atomic swap)
+   *
+   * Builds the swap transaction:
+   * - input 0: the NFT, with the seller's signature
+   * - output 0: the payment to the seller
+   * - output 1: the NFT, with the same metadata hash, for the buyer
+   * - remaining inputs fund the price and fee, with change to the buyer
+   *
+   * @param offer - Verified swap offer
+   * @param config - Buyer's funding and signing configuration
+   * @returns Fully signed transaction ready to broadcast
+   * @throws Error if the offer is invalid or the funding is insufficient
+   */
+  static completeSwapOffer(
+    offer: NFTSwapOffer,
+    config: NFTSwapCompleteConfig,
+  ): Transaction {
+    if (!NFTUtil.verifySwapOffer(offer)) {
+      throw new Error('Invalid swap offer')
+    }
+    const { buyerKey, fundingUtxos, feePerByte } = config
+    const recipientKey = config.recipientKey ?? buyerKey.publicKey
+
+    const tx = NFTUtil._swapOfferTransaction(
+      offer.nftUtxo,
+      offer.payment,
+      offer.merkleRoot,
+    )
+    tx.addOutput(
+      new Output({
+        script: buildKeyPathTaproot(recipientKey, offer.metadataHash),
+        satoshis: offer.nftUtxo.satoshis,
+      }),
+    )
+    tx.from(fundingUtxos)
+    if (feePerByte !== undefined) {
+      tx.feePerByte(feePerByte)
+    }
+    tx.change(config.changeAddress ?? buyerKey.toAddress())
+
+    if (tx.inputAmount - tx.outputAmount < tx.getFee()) {
+      throw new Error('Insufficient funds to pay the price and fee')
+    }
+
+    // Sign the funding inputs only; the NFT input carries the seller's
+    // signature, which adding inputs and change did not invalidate
+    NFTUtil._signFundingInputs(tx, buyerKey)
+    tx.inputs[0].setScript(new Script().add(offer.signature))
+
+    if (!tx.isFullySigned()) {
+      throw new Error('Buyer key cannot sign every funding input')
+    }
+    if (!NFTUtil.validateSwap(tx, offer)) {
+      throw new Error('Swap transaction does not preserve the NFT')
+    }
+    return tx
+  }
+
+  /**
+   * Validate a swap transaction against its offer
+   *
+   * Checks that input 0 spends the offered NFT, output 0 pays the seller and
+   * another output carries the NFT's metadata hash.
+   *
+   * @param tx - Swap transaction
+   * @param offer - Swap offer it completes
+   * @returns true if the swap pays the seller and preserves the NFT
+   */
+  static validateSwap(tx: Transaction, offer: NFTSwapOffer): boolean {
+    const input = tx.inputs[0]
+    const payment = tx.outputs[0]
+    if (
+      !input ||
+      !payment ||
+      input.prevTxId.toString('hex') !== offer.nftUtxo.txid ||
+      input.outputIndex !== offer.nftUtxo.outputIndex ||
+      !payment.script.equals(offer.payment.script) ||
+      payment.satoshis !== offer.payment.satoshis
+    ) {
+      return false
+    }
+
+    return tx.outputs
+      .slice(1)
+      .some(
+        output =>
+          NFTUtil.isNFT(output.script) &&
+          NFTUtil.validateTransfer(offer.nftUtxo.script, output.script),
+      )
+  }
+
+  /**
+   * Serialize a swap offer to a JSON string
+   *
+   * @param offer - Swap offer
+   * @returns JSON string
+   */
+  static serializeSwapOffer(offer: NFTSwapOffer): string {
+    const object: NFTSwapOfferObject = {
+      txid: offer.nftUtxo.txid,
+      outputIndex: offer.nftUtxo.outputIndex,
+      script: offer.nftUtxo.script.toBuffer().toString('hex'),
+      satoshis: offer.nftUtxo.satoshis,
+      metadataHash: offer.metadataHash.toString('hex'),
+      paymentScript: offer.payment.script.toBuffer().toString('hex'),
+      price: offer.payment.satoshis,
+      signature: offer.signature.toString('hex'),
+      merkleRoot: offer.merkleRoot?.toString('hex'),
+    }
+    return JSON.stringify(object)
+  }
+
+  /**
+   * Deserialize a swap offer from a JSON string or object
+   *
+   * The offer is not verified; call verifySwapOffer() before completing it.
+   *
+   * @param data - JSON string or object from serializeSwapOffer()
+   * @returns Swap offer
+   */
+  static deserializeSwapOffer(data: string | NFTSwapOfferObject): NFTSwapOffer {
+    const object: NFTSwapOfferObject =
+      typeof data === 'string' ? JSON.parse(data) : data
+    return {
+      nftUtxo: {
+        txid: object.txid,
+        outputIndex: object.outputIndex,
+        script: Script.fromHex(object.script),
+        satoshis: object.satoshis,
+      },
+      metadataHash: Buffer.from(object.metadataHash, 'hex'),
+      payment: new Output({
+        script: Script.fromHex(object.paymentScript),
+        satoshis: object.price,
+      }),
+      signature: Buffer.from(object.signature, 'hex'),
+      merkleRoot: object.merkleRoot
+        ? Buffer.from(object.merkleRoot, 'hex')
+        : undefined,
+    }
+  }
+
+  /**
+   * Transaction spending the NFT at input 0 and paying the seller at
+   * output 0, as covered by the seller's signature
+   */
+  private static _swapOfferTransaction(
+    nftUtxo: NFTUtxo,
+    payment: Output,
+    merkleRoot?: Buffer,
+  ): Transaction {
+    const tx = new Transaction()
+    tx.addInput(
+      new TaprootInput({
+        prevTxId: Buffer.from(nftUtxo.txid, 'hex'),
+        outputIndex: nftUtxo.outputIndex,
+        output: new Output({
+          script: nftUtxo.script,
+          satoshis: nftUtxo.satoshis,
+        }),
+        script: new Script(),
+        merkleRoot,
+      }),
+    )
+    tx.addOutput(
+      new Output({ script: payment.script, satoshis: payment.satoshis }),
+    )
+    return tx
+  }
+
+  /**
+   * Internal key of policy NFTs with a royalty leaf
+   *
+   * The BIP341 "nothing up my sleeve" point, which has no known private key.
+   * It disables the key path, so spends of the output cannot skip the
+   * royalty.
+   */
+  static readonly UNSPENDABLE_KEY = new PublicKey(
+    '0250929b74c1a04954b78b4b6035e97a5e078a5a0f28ec96d547bfee9ace803ac0',
+  )
+
+  /**
+   * Sighash type of the authorizing signature in policy leaves
+   */
+  static readonly POLICY_SIGHASH_TYPE =
+    Signature.SIGHASH_ALL | Signature.SIGHASH_FORKID
+
+  /**
+   * Sighash type of covenant signatures in policy leaves
+   *
+   * SIGHASH_SINGLE | SIGHASH_ANYONECANPAY | SIGHASH_FORKID: the signed
+   * preimage commits to the output at the NFT input's index only.
+   */
+  static readonly COVENANT_SIGHASH_TYPE =
+    Signature.SIGHASH_SINGLE |
+    Signature.SIGHASH_ANYONECANPAY |
+    Signature.SIGHASH_FORKID
+
+  /**
+   * Build a creator royalty leaf
+   *
+   * The leaf only accepts spends whose output at the NFT input's index pays
+   * the royalty. Lotus has no introspection opcodes, so it checks a BIP143
+   * preimage pushed by the spender: OP_CHECKDATASIG and OP_CHECKSIG verify
+   * the same covenant signature against the preimage and the transaction,
+   * which proves the preimage is genuine. Its hash type must be
+   * COVENANT_SIGHASH_TYPE and its hashOutputs field the hash of the royalty
+   * output. A second signature authorizes the whole transaction.
+   *
+   * The royalty is a fixed amount paid by every spend through the leaf; the
+   * script cannot see a sale price, nor the outputs at other indexes, so it
+   * does not constrain where the NFT goes next.
+   *
+   * Like every policy leaf, it starts by dropping the NFT's state, which the
+   * interpreter pushes onto the stack for script path spends.
+   *
+   * Input script: <signature> <covenant signature> <preimage>
+   *
+   * @param ownerKey - Owner's public key
+   * @param royalty - Royalty paid to the creator
+   * @returns Leaf script
+   */
+  static createRoyaltyLeaf(ownerKey: PublicKey, royalty: NFTRoyalty): Script {
+    return NFTUtil._covenantScript(
+      new Script().add(Opcode.OP_DROP),
+      ownerKey,
+      NFTUtil.COVENANT_SIGHASH_TYPE,
+      [NFTUtil._royaltyOutput(royalty)],
+    )
+  }
+
+  /**
+   * Build a burn leaf
+   *
+   * Works like the royalty leaf, but the covenant signature is
+   * SIGHASH_ALL | SIGHASH_FORKID and the committed outputs are a single
+   * OP_RETURN carrying the metadata hash. The spend cannot recreate the NFT
+   * at any index, so the burn cannot be used to skip the royalty leaf, and
+   * the OP_RETURN proves which NFT was burned. The NFT's value goes to the
+   * fee.
+   *
+   * Input script: <signature> <covenant signature> <preimage>
+   *
+   * @param ownerKey - Owner's public key
+   * @param metadataHash - NFT metadata hash
+   * @returns Leaf script
+   */
+  static createBurnLeaf(ownerKey: PublicKey, metadataHash: Buffer): Script {
+    return NFTUtil._covenantScript(
+      new Script().add(Opcode.OP_DROP),
+      ownerKey,
+      NFTUtil.POLICY_SIGHASH_TYPE,
+      [NFTUtil._burnOutput(metadataHash)],
+    )
+  }
+
+  /**
+   * Build a time-locked escrow leaf
+   *
+   * Script: OP_DROP <locktime> OP_CHECKLOCKTIMEVERIFY OP_DROP <pubkey>
+   * OP_CHECKSIG
+   *
+   * With a royalty, the leaf ends in the royalty covenant for the escrow key
+   * instead of OP_CHECKSIG, so claiming the NFT pays the creator too.
+   *
+   * @param publicKey - Escrow public key
+   * @param locktime - Absolute lock time
+   * @param royalty - Royalty of the NFT's policy, if any
+   * @returns Leaf script
+   */
+  static createEscrowLeaf(
+    publicKey: PublicKey,
+    locktime: number,
+    royalty?: NFTRoyalty,
+  ): Script {
+    const script = new Script()
+      .add(Opcode.OP_DROP)
+      .add(new BN(locktime).toScriptNumBuffer())
+      .add(Opcode.OP_CHECKLOCKTIMEVERIFY)
+      .add(Opcode.OP_DROP)
+    if (royalty) {
+      return NFTUtil._covenantScript(
+        script,
+        publicKey,
+        NFTUtil.COVENANT_SIGHASH_TYPE,
+        [NFTUtil._royaltyOutput(royalty)],
+      )
+    }
+    return script.add(publicKey.toBuffer()).add(Opcode.OP_CHECKSIG)
+  }
+
+  /**
+   * Create an NFT whose script tree implements a policy
+   *
+   * The tree holds the royalty, burn and escrow leaves the policy enables,
+   * in that order. With a royalty the internal key is UNSPENDABLE_KEY, so
+   * every spend of this output pays it; otherwise the owner keeps the key
+   * path.
+   *
+   * The royalty is a fixed amount, not a share of a sale price, and is
+   * enforced for one hop only (see NFTRoyalty): transferWithRoyalty() and
+   * claimEscrow() refuse to drop it, but a transfer built otherwise can.
+   *
+   * @param ownerKey - Owner's public key
+   * @param metadata - NFT metadata
+   * @param policy - Spending policy
+   * @param satoshis - NFT value in satoshis (default: 1000)
+   * @param network - Network (default: livenet)
+   * @returns NFT with its script tree and policy
+   *
+   * @example
+   * ```typescript
+   * const nft = NFTUtil.createPolicyNFT(owner.publicKey, metadata, {
+   *   royalty: { address: creator.toAddress(), satoshis: 1_000_000 },
+   *   burnable: true,
+   * })
+   * // Later transfers go through NFTUtil.transferWithRoyalty()
+   * ```
+   */
+  static createPolicyNFT(
+    ownerKey: PublicKey,
+    metadata: NFTMetadata,
+    policy: NFTPolicy,
+    satoshis: number = 1000,
+    network?: Network,
+  ): NFTWithPolicy {
+    const metadataHash = NFTUtil.hashMetadata(metadata)
+    const taproot = NFTUtil._policyTaproot(ownerKey, metadataHash, policy)
+
+    const address = taproot.script.toAddress(network)
+    if (!address) {
+      throw new Error('Failed to create address from script')
+    }
+
+    return {
+      ...taproot,
+      address,
+      metadataHash,
+      metadata,
+      satoshis,
+      policy,
+    }
+  }
+
+  /**
+   * Transfer a policy NFT through its royalty leaf
+   *
+   * Builds the transfer transaction:
+   * - input 0: the NFT, spending the royalty leaf
+   * - output 0: the royalty to the creator
+   * - output 1: the NFT, with the same metadata hash, for the new owner
+   * - remaining inputs fund the royalty and fee, with change to the owner
+   *
+   * The new NFT keeps the current policy, less any escrow, unless newPolicy
+   * says otherwise. newPolicy cannot drop or change the royalty.
+   *
+   * @param config - Transfer configuration
+   * @returns Fully signed transaction ready to broadcast
+   * @throws Error if the UTXO does not match the policy, newPolicy drops the
+   * royalty or the funding is insufficient
+   */
+  static transferWithRoyalty(config: NFTRoyaltyTransferConfig): Transaction {
+    const { currentOwnerKey, nftUtxo, metadataHash, policy } = config
+    if (!policy.royalty) {
+      throw new Error('NFT policy has no royalty leaf')
+    }
+
+    const leafScript = NFTUtil.createRoyaltyLeaf(
+      currentOwnerKey.publicKey,
+      policy.royalty,
+    )
+    const { tx, controlBlock } = NFTUtil._policySpendTransaction(
+      currentOwnerKey.publicKey,
+      nftUtxo,
+      metadataHash,
+      policy,
+      leafScript,
+    )
+    tx.addOutput(NFTUtil._royaltyOutput(policy.royalty))
+    tx.addOutput(
+      new Output({
+        script: NFTUtil._nextOwnerScript(
+          config.newOwnerKey,
+          metadataHash,
+          NFTUtil._nextPolicy(policy, config.newPolicy),
+        ),
+        satoshis: nftUtxo.satoshis,
+      }),
+    )
+    NFTUtil._fundPolicySpend(tx, currentOwnerKey, config)
+
+    NFTUtil._signPolicyInput(
+      tx,
+      currentOwnerKey,
+      leafScript,
+      controlBlock,
+      nftUtxo.satoshis,
+      NFTUtil.COVENANT_SIGHASH_TYPE,
+    )
+    NFTUtil._signFundingInputs(tx, currentOwnerKey)
+    return tx
+  }
+
+  /**
+   * Burn a policy NFT through its burn leaf
+   *
+   * The only output is the OP_RETURN proving the burn, as the burn leaf
+   * requires; the NFT's value pays the fee.
+   *
+   * @param config - Burn configuration
+   * @returns Fully signed transaction ready to broadcast
+   * @throws Error if the UTXO does not match the policy
+   */
+  static burnNFT(config: NFTBurnConfig): Transaction {
+    const { ownerKey, nftUtxo, metadataHash, policy } = config
+    if (!policy.burnable) {
+      throw new Error('NFT policy has no burn leaf')
+    }
+
+    const leafScript = NFTUtil.createBurnLeaf(ownerKey.publicKey, metadataHash)
+    const { tx, controlBlock } = NFTUtil._policySpendTransaction(
+      ownerKey.publicKey,
+      nftUtxo,
+      metadataHash,
+      policy,
+      leafScript,
+    )
+    tx.addOutput(NFTUtil._burnOutput(metadataHash))
+
+    NFTUtil._signPolicyInput(
+      tx,
+      ownerKey,
+      leafScript,
+      controlBlock,
+      nftUtxo.satoshis,
+      NFTUtil.POLICY_SIGHASH_TYPE,
+    )
+    return tx
+  }
+
+  /**
+   * Claim an escrowed policy NFT through its escrow leaf
+   *
+   * The transaction is locked until the escrow lock time. With a royalty,
+   * output 0 pays it and the NFT moves to output 1; otherwise the NFT is
+   * output 0.
+   *
+   * @param config - Escrow claim configuration
+   * @returns Fully signed transaction, valid once the lock time has passed
+   * @throws Error if the escrow key does not match the policy, newPolicy
+   * drops the royalty or the funding is insufficient
+   */
+  static claimEscrow(config: NFTEscrowClaimConfig): Transaction {
+    const { escrowKey, nftUtxo, metadataHash, policy } = config
+    if (!policy.escrow) {
+      throw new Error('NFT policy has no escrow leaf')
+    }
+    if (
+      !policy.escrow.publicKey.toBuffer().equals(escrowKey.publicKey.toBuffer())
+    ) {
+      throw new Error('Private key does not belong to the escrow leaf')
+    }
+
+    const leafScript = NFTUtil.createEscrowLeaf(
+      policy.escrow.publicKey,
+      policy.escrow.locktime,
+      policy.royalty,
+    )
+    const { tx, controlBlock } = NFTUtil._policySpendTransaction(
+      config.ownerKey,
+      nftUtxo,
+      metadataHash,
+      policy,
+      leafScript,
+    )
+    if (policy.escrow.locktime < Transaction.NLOCKTIME_BLOCKHEIGHT_LIMIT) {
+      tx.lockUntilBlockHeight(policy.escrow.locktime)
+    } else {
+      tx.lockUntilDate(policy.escrow.locktime)
+    }
+    if (policy.royalty) {
+      tx.addOutput(NFTUtil._royaltyOutput(policy.royalty))
+    }
+    tx.addOutput(
+      new Output({
+        script: NFTUtil._nextOwnerScript(
+          config.recipientKey ?? escrowKey.publicKey,
+          metadataHash,
+          NFTUtil._nextPolicy(policy, config.newPolicy),
+        ),
+        satoshis: nftUtxo.satoshis,
+      }),
+    )
+    NFTUtil._fundPolicySpend(tx, escrowKey, config)
+
+    NFTUtil._signPolicyInput(
+      tx,
+      escrowKey,
+      leafScript,
+      controlBlock,
+      nftUtxo.satoshis,
+      policy.royalty ? NFTUtil.COVENANT_SIGHASH_TYPE : undefined,
+    )
+    NFTUtil._signFundingInputs(tx, escrowKey)
+    return tx
+  }
+
+  /**
+   * Validate that a transaction burns an NFT
+   *
+   * @param tx - Burn transaction
+   * @param metadataHash - Metadata hash of the burned NFT
+   * @returns true if the transaction carries the burn OP_RETURN and no output
+   * with the NFT's metadata hash
+   */
+  static validateBurn(tx: Transaction, metadataHash: Buffer): boolean {
+    const burnScript = NFTUtil._burnOutput(metadataHash).script
+    return (
+      tx.outputs.some(output => output.script.equals(burnScript)) &&
+      !tx.outputs.some(
+        output =>
+          NFTUtil.isNFT(output.script) &&
+          NFTUtil.extractMetadataHash(output.script)!.equals(metadataHash),
+      )
+    )
+  }
+
+  /**
+   * Append a covenant on the outputs signed by a sighash type to a script
+   *
+   * The outputs are those hashOutputs covers: the output at the input's
+   * index for SIGHASH_SINGLE, every output for SIGHASH_ALL.
+   *
+   * Stack: <signature> <covenant signature> <preimage>
+   */
+  private static _covenantScript(
+    script: Script,
+    publicKey: PublicKey,
+    sighashType: number,
+    outputs: Output[],
+  ): Script {
+    const outputsHash = Hash.sha256sha256(
+      Buffer.concat(outputs.map(output => output.toBuffer())),
+    )
+    const hashType = Buffer.alloc(4)
+    hashType.writeUInt32LE(sighashType >>> 0)
+    return (
+      script
+        // The preimage ends with hashOutputs, nLockTime and its hash type
+        .add(Opcode.OP_DUP)
+        .add(Opcode.OP_SIZE)
+        .add(new BN(40).toScriptNumBuffer())
+        .add(Opcode.OP_SUB)
+        .add(Opcode.OP_SPLIT)
+        .add(Opcode.OP_NIP)
+        .add(new BN(32).toScriptNumBuffer())
+        .add(Opcode.OP_SPLIT)
+        .add(new BN(4).toScriptNumBuffer())
+        .add(Opcode.OP_SPLIT)
+        .add(Opcode.OP_NIP)
+        .add(hashType)
+        .add(Opcode.OP_EQUALVERIFY)
+        .add(outputsHash)
+        .add(Opcode.OP_EQUALVERIFY)
+        // The covenant signature, without its sighash byte, signs the
+        // preimage; OP_CHECKDATASIG hashes the message once more
+        .add(Opcode.OP_SHA256)
+        .add(Opcode.OP_OVER)
+        .add(new BN(64).toScriptNumBuffer())
+        .add(Opcode.OP_SPLIT)
+        .add(Opcode.OP_DROP)
+        .add(Opcode.OP_SWAP)
+        .add(publicKey.toBuffer())
+        .add(Opcode.OP_CHECKDATASIGVERIFY)
+        // ...and this transaction, so the preimage is genuine
+        .add(publicKey.toBuffer())
+        .add(Opcode.OP_CHECKSIGVERIFY)
+        .add(publicKey.toBuffer())
+        .add(Opcode.OP_CHECKSIG)
+    )
+  }
+
+  /**
+   * Output paying a royalty
+   */
+  private static _royaltyOutput(royalty: NFTRoyalty): Output {
+    if (royalty.satoshis < 546) {
+      throw new Error('Royalty below dust limit (546 satoshis)')
+    }
+    return new Output({
+      script: Script.fromAddress(royalty.address),
+      satoshis: royalty.satoshis,
+    })
+  }
+
+  /**
+   * OP_RETURN output proving an NFT burn
+   */
+  private static _burnOutput(metadataHash: Buffer): Output {
+    return new Output({
+      script: Script.buildDataOut(metadataHash),
+      satoshis: 0,
+    })
+  }
+
+  /**
+   * Build the Taproot output implementing a policy
+   */
+  private static _policyTaproot(
+    ownerKey: PublicKey,
+    metadataHash: Buffer,
+    policy: NFTPolicy,
+  ) {
+    const nodes: TapNode[] = []
+    if (policy.royalty) {
+      nodes.push({
+        script: NFTUtil.createRoyaltyLeaf(ownerKey, policy.royalty),
+      })
+    }
+    if (policy.burnable) {
+      nodes.push({ script: NFTUtil.createBurnLeaf(ownerKey, metadataHash) })
+    }
+    if (policy.escrow) {
+      nodes.push({
+        script: NFTUtil.createEscrowLeaf(
+          policy.escrow.publicKey,
+          policy.escrow.locktime,
+          policy.royalty,
+        ),
+      })
+    }
+    if (nodes.length === 0) {
+      throw new Error('NFT policy must enable at least one leaf')
+    }
+
+    // Balanced tree of up to three leaves
+    const scriptTree: TapNode =
+      nodes.length === 1
+        ? nodes[0]
+        : nodes.length === 2
+          ? { left: nodes[0], right: nodes[1] }
+          : { left: { left: nodes[0], right: nodes[1] }, right: nodes[2] }
+    const internalPubKey = policy.royalty ? NFTUtil.UNSPENDABLE_KEY : ownerKey
+    return {
+      ...buildScriptPathTaproot(internalPubKey, scriptTree, metadataHash),
+      internalPubKey,
+      scriptTree,
+    }
+  }
+
+  /**
+   * Policy of the NFT output created for the next owner
+   *
+   * Defaults to the current policy less any escrow. The royalty leaf cannot
+   * carry itself forward, so the builders refuse policies that drop it.
+   */
+  private static _nextPolicy(
+    policy: NFTPolicy,
+    newPolicy?: NFTPolicy,
+  ): NFTPolicy {
+    if (!newPolicy) {
+      return { ...policy, escrow: undefined }
+    }
+    if (
+      policy.royalty &&
+      (!newPolicy.royalty ||
+        newPolicy.royalty.satoshis !== policy.royalty.satoshis ||
+        !Script.fromAddress(newPolicy.royalty.address).equals(
+          Script.fromAddress(policy.royalty.address),
+        ))
+    ) {
+      throw new Error('New NFT policy must keep the royalty')
+    }
+    return newPolicy
+  }
+
+  /**
+   * Script of the NFT output created for the next owner
+   */
+  private static _nextOwnerScript(
+    ownerKey: PublicKey,
+    metadataHash: Buffer,
+    policy: NFTPolicy,
+  ): Script {
+    if (!policy.royalty && !policy.burnable && !policy.escrow) {
+      return buildKeyPathTaproot(ownerKey, metadataHash)
+    }
+    return NFTUtil._policyTaproot(ownerKey, metadataHash, policy).script
+  }
+
+  /**
+   * Transaction spending a policy NFT at input 0 through one of its leaves
+   */
+  private static _policySpendTransaction(
+    ownerKey: PublicKey,
+    nftUtxo: NFTUtxo,
+    metadataHash: Buffer,
+    policy: NFTPolicy,
+    leafScript: Script,
+  ): { tx: Transaction; controlBlock: Buffer } {
+    const inputState = NFTUtil.extractMetadataHash(nftUtxo.script)
+    if (!inputState || !inputState.equals(metadataHash)) {
+      throw new Error('Input script metadata hash does not match')
+    }
+    const taproot = NFTUtil._policyTaproot(ownerKey, metadataHash, policy)
+    if (!taproot.script.equals(nftUtxo.script)) {
+      throw new Error('NFT script does not match the policy')
+    }
+
+    const controlBlock = createControlBlock(
+      taproot.internalPubKey,
+      taproot.leaves.findIndex(leaf => leaf.script.equals(leafScript)),
+      taproot.scriptTree,
+    )
+    const tx = new Transaction()
+    tx.addInput(
+      new TaprootInput({
+        prevTxId: Buffer.from(nftUtxo.txid, 'hex'),
+        outputIndex: nftUtxo.outputIndex,
+        output: new Output({
+          script: nftUtxo.script,
+          satoshis: nftUtxo.satoshis,
+        }),
+        script: new Script(),
+        internalPubKey: taproot.internalPubKey,
+        merkleRoot: taproot.merkleRoot,
+        controlBlock,
+        tapScript: leafScript,
+      }),
+    )
+    return { tx, controlBlock }
+  }
+
+  /**
+   * Add funding inputs and change to a policy spend
+   */
+  private static _fundPolicySpend(
+    tx: Transaction,
+    key: PrivateKey,
+    config: NFTRoyaltyTransferConfig | NFTEscrowClaimConfig,
+  ): void {
+    tx.from(config.fundingUtxos)
+    if (config.feePerByte !== undefined) {
+      tx.feePerByte(config.feePerByte)
+    }
+    tx.change(config.changeAddress ?? key.toAddress())
+
+    if (tx.inputAmount - tx.outputAmount < tx.getFee()) {
+      throw new Error('Insufficient funds to pay the royalty and fee')
+    }
+  }
+
+  /**
+   * Sign input 0 of a policy spend and reveal the leaf
+   */
+  private static _signPolicyInput(
+    tx: Transaction,
+    key: PrivateKey,
+    leafScript: Script,
+    controlBlock: Buffer,
+    satoshis: number,
+    covenantSighashType?: number,
+  ): void {
+    const satoshisBN = new BN(satoshis)
+    const signature = sign(
+      tx,
+      key,
+      NFTUtil.POLICY_SIGHASH_TYPE,
+      0,
+      leafScript,
+      satoshisBN,
+      undefined,
+      'schnorr',
+    )
+    const script = new Script().add(signature.toTxFormat('schnorr'))
+    if (covenantSighashType !== undefined) {
+      const covenantSignature = sign(
+        tx,
+        key,
+        covenantSighashType,
+        0,
+        leafScript,
+        satoshisBN,
+        undefined,
+        'schnorr',
+      )
+      script
+        .add(covenantSignature.toTxFormat('schnorr'))
+        .add(
+          sighashPreimage(tx, covenantSighashType, 0, leafScript, satoshisBN),
+        )
+    }
+    tx.inputs[0].setScript(script.add(leafScript.toBuffer()).add(controlBlock))
+  }
+
+  /**
+   * Sign every input from firstIndex on (default: after the NFT input) with
+   * the funding key
+   */
+  private static _signFundingInputs(
+    tx: Transaction,
+    key: PrivateKey,
+    firstIndex: number = 1,
+  ): void {
+    const hashData = Hash.sha256ripemd160(key.publicKey.toBuffer())
+    for (let index = firstIndex; index < tx.inputs.length; index++) {
+      const input = tx.inputs[index]
+      const isTaproot = input.output!.script.isPayToTaproot()
+      const signatures = input.getSignatures(
+        tx,
+        key,
+        index,
+        isTaproot
+          ? Signature.SIGHASH_ALL | Signature.SIGHASH_LOTUS
+          : Signature.SIGHASH_ALL | Signature.SIGHASH_FORKID,
+        hashData,
+        isTaproot ? 'schnorr' : undefined,
+      )
+      for (const signature of signatures) {
+        tx.applySignature(signature, isTaproot ? 'schnorr' : undefined)
+      }
+    }
+  }
+
   /**
    * Trace NFT provenance
    *
@@ -0,0 +1,307 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * Timelocked Refund Paths for MuSig2 Taproot Outputs
+ *
+ * A MuSig2 Taproot output can only be spent cooperatively through its key
+ * path. If a signing session aborts after funds reach the aggregated output,
+ * participants would otherwise have no way to recover them. This module
+ * commits one refund leaf per participant into the Taproot script tree:
+ *
+ *   <sequence> OP_CHECKSEQUENCEVERIFY OP_DROP <pubkey> OP_CHECKSIG
+ *
+ * The key path (cooperative spend) is unchanged and still looks like a
+ * single-sig spend. Each leaf becomes spendable by its participant alone once
+ * the relative timelock has elapsed since the output confirmed.
+ *
+ * Refund leaves are signed with SIGHASH_ALL | SIGHASH_FORKID Schnorr
+ * signatures, which commit to the executed leaf script.
+ *
+ * @module TaprootRefund
+ */
+
+import { PublicKey } from '../publickey.js'
+import { PrivateKey } from '../privatekey.js'
+import { Address } from '../address.js'
+import { Script } from '../script.js'
+import { Opcode } from '../opcode.js'
+import { BN } from '../crypto/bn.js'
+import { Signature } from '../crypto/signature.js'
+import { musigKeyAgg } from '../crypto/musig2.js'
+import {
+  buildScriptPathTaproot,
+  calculateTapTweak,
+  createControlBlock,
+  type TapNode,
+  type TapLeaf,
+} from '../taproot.js'
+import { Transaction } from '../transaction/transaction.js'
+import { Output } from '../transaction/output.js'
+import { Input, TaprootInput } from '../transaction/input.js'
+import { sign } from '../transaction/sighash.js'
+import type { MuSigTaprootKeyResult } from './musig2.js'
+
+/** SIGHASH_ALL | SIGHASH_FORKID */
+export const REFUND_SIGHASH_TYPE =
+  Signature.SIGHASH_ALL | Signature.SIGHASH_FORKID
+
+/**
+ * Result of building a MuSig2 Taproot output with refund leaves
+ */
+export interface MuSigRefundTaprootResult extends MuSigTaprootKeyResult {
+  /** Refund leaves, one per refund key, in refund key order */
+  leaves: TapLeaf[]
+
+  /** Script tree committed to by the output */
+  scriptTree: TapNode
+
+  /** Public keys able to claim a refund, in leaf order */
+  refundPubKeys: PublicKey[]
+
+  /** Relative timelock of the refund leaves, in seconds */
+  refundDelay: number
+
+  /** nSequence value a refund input must carry (BIP68 time-based) */
+  refundSequence: number
+}
+
+/**
+ * Configuration for spending a refund leaf
+ */
+export interface RefundSpendConfig {
+  /** Output description returned by buildMuSigRefundTaproot() */
+  refund: MuSigRefundTaprootResult
+
+  /** The shared output being refunded */
+  utxo: {
+    txId: string
+    outputIndex: number
+    satoshis: number
+  }
+
+  /** Private key of the participant claiming the refund */
+  privateKey: PrivateKey
+
+  /** Destination of the refunded funds */
+  address: Address | string
+
+  /** Fee in satoshis */
+  fee: number
+}
+
+/**
+ * Result of building a refund spend
+ */
+export interface RefundSpendResult {
+  /** Fully signed refund transaction */
+  transaction: Transaction
+
+  /** Index of the spent leaf in the script tree */
+  leafIndex: number
+
+  /** Revealed leaf script */
+  leafScript: Script
+
+  /** Control block proving the leaf is committed to by the output */
+  controlBlock: Buffer
+}
+
+/**
+ * Get the nSequence value for a relative timelock in seconds
+ *
+ * Uses the same encoding as Input.lockForSeconds(), so the delay is rounded
+ * down to 512-second granularity.
+ *
+ * @param refundDelay - Relative timelock in seconds
+ * @returns BIP68 time-based sequence number
+ */
+export function getRefundSequence(refundDelay: number): number {
+  return new Input().lockForSeconds(refundDelay).sequenceNumber
+}
+
+/**
+ * Build the refund leaf script for a single participant
+ *
+ * Script: <sequence> OP_CHECKSEQUENCEVERIFY OP_DROP <pubkey> OP_CHECKSIG
+ *
+ * @param publicKey - Participant public key
+ * @param refundDelay - Relative timelock in seconds
+ * @returns Leaf script
+ */
+export function buildRefundLeafScript(
+  publicKey: PublicKey,
+  refundDelay: number,
+): Script {
+  const sequence = getRefundSequence(refundDelay)
+
+  return new Script()
+    .add(new BN(sequence).toScriptNumBuffer())
+    .add(Opcode.OP_CHECKSEQUENCEVERIFY)
+    .add(Opcode.OP_DROP)
+    .add(publicKey.toBuffer())
+    .add(Opcode.OP_CHECKSIG)
+}
+
+/**
+ * Build a MuSig2 Taproot output with a timelocked refund leaf per signer
+ *
+ * The internal key is the MuSig2 aggregate of all signers, so the
+ * cooperative key path works exactly as with buildMuSigTaprootKey(). The
+ * leaves are arranged in a balanced tree, keeping control blocks small.
+ *
+ * By default every signer gets a refund leaf. Pass refundPubKeys to restrict
+ * refunds to a subset, e.g. the participants who funded the output.
+ *
+ * @param signerPubKeys - Signer public keys
+ * @param refundDelay - Relative timelock of the refund leaves, in seconds
+ * @param refundPubKeys - Keys receiving a refund leaf (defaults to all signers)
+ * @returns Output description including the refund leaves
+ *
+ * @example
+ * ```typescript
+ * const refund = buildMuSigRefundTaproot(
+ *   [alice.publicKey, bob.publicKey],
+ *   24 * 60 * 60,
+ * )
+ * // Fund refund.script; sign cooperatively with refund.tweak, or after
+ * // 24 hours spend alone with buildRefundSpend()
+ * ```
+ */
+export function buildMuSigRefundTaproot(
+  signerPubKeys: PublicKey[],
+  refundDelay: number,
+  refundPubKeys: PublicKey[] = signerPubKeys,
+): MuSigRefundTaprootResult {
+  if (signerPubKeys.length === 0) {
+    throw new Error('At least one signer public key is required')
+  }
+  if (refundPubKeys.length === 0) {
+    throw new Error('At least one refund public key is required')
+  }
+
+  const refundSequence = getRefundSequence(refundDelay)
+
+  const keyAggContext = musigKeyAgg(signerPubKeys)
+  const aggregatedPubKey = keyAggContext.aggregatedPubKey
+
+  const scriptTree = buildBalancedTree(
+    refundPubKeys.map(publicKey => ({
+      script: buildRefundLeafScript(publicKey, refundDelay),
+    })),
+  )
+
+  const { script, commitment, merkleRoot, leaves } = buildScriptPathTaproot(
+    aggregatedPubKey,
+    scriptTree,
+  )
+
+  const tweak = calculateTapTweak(aggregatedPubKey, merkleRoot)
+
+  return {
+    aggregatedPubKey,
+    commitment,
+    script,
+    keyAggContext,
+    merkleRoot,
+    tweak,
+    leaves,
+    scriptTree,
+    refundPubKeys,
+    refundDelay,
+    refundSequence,
+  }
+}
+
+/**
+ * Build a signed transaction spending a refund leaf
+ *
+ * The input sequence is locked with Input.lockForSeconds(), and the input
+ * script is <signature> <leaf script> <control block>. The transaction is
+ * only valid once the refund delay has elapsed since the output confirmed.
+ *
+ * @param config - Refund spend configuration
+ * @returns Signed transaction with the revealed leaf and control block
+ * @throws Error if the private key has no refund leaf
+ */
+export function buildRefundSpend(config: RefundSpendConfig): RefundSpendResult {
+  const { refund, utxo, privateKey, address, fee } = config
+
+  const publicKey = privateKey.publicKey.toString()
+  const leafIndex = refund.refundPubKeys.findIndex(
+    key => key.toString() === publicKey,
+  )
+  if (leafIndex === -1) {
+    throw new Error('Private key does not belong to any refund leaf')
+  }
+
+  const outputSatoshis = utxo.satoshis - fee
+  if (outputSatoshis < 546) {
+    throw new Error('Output value below dust limit (546 satoshis)')
+  }
+
+  const leafScript = refund.leaves[leafIndex].script
+  const controlBlock = createControlBlock(
+    refund.aggregatedPubKey,
+    leafIndex,
+    refund.scriptTree,
+  )
+
+  const input = new TaprootInput({
+    prevTxId: Buffer.from(utxo.txId, 'hex'),
+    outputIndex: utxo.outputIndex,
+    output: new Output({
+      script: refund.script,
+      satoshis: utxo.satoshis,
+    }),
+    script: new Script(),
+    internalPubKey: refund.aggregatedPubKey,
+    merkleRoot: refund.merkleRoot,
+    controlBlock,
+    tapScript: leafScript,
+  })
+  input.lockForSeconds(refund.refundDelay)
+
+  const transaction = new Transaction()
+  transaction.addInput(input)
+  transaction.to(address, outputSatoshis)
+
+  // The leaf script is the subscript committed to by the signature
+  const signature = sign(
+    transaction,
+    privateKey,
+    REFUND_SIGHASH_TYPE,
+    0,
+    leafScript,
+    new BN(utxo.satoshis),
+    undefined,
+    'schnorr',
+  )
+
+  input.setScript(
+    new Script()
+      .add(signature.toTxFormat('schnorr'))
+      .add(leafScript.toBuffer())
+      .add(controlBlock),
+  )
+
+  return { transaction, leafIndex, leafScript, controlBlock }
+}
+
+/**
+ * Arrange nodes in a balanced tree, preserving their left-to-right order
+ */
+function buildBalancedTree(nodes: TapNode[]): TapNode {
+  if (nodes.length === 1) {
+    return nodes[0]
+  }
+
+  const mid = Math.ceil(nodes.length / 2)
+  return {
+    left: buildBalancedTree(nodes.slice(0, mid)),
+    right: buildBalancedTree(nodes.slice(mid)),
+  }
+}
@@ -0,0 +1,530 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * Coin Selection
+ *
+ * Picks inputs from a UTXO pool to fund a set of outputs at a fee rate.
+ * Input sizes come from each input type's _estimateSize() (P2PKH, P2PK,
+ * multisig, P2SH multisig, Taproot key path and script path), using the same
+ * size formula as Transaction.getFee().
+ *
+ * Strategies:
+ * - branch-and-bound: search for an input set that needs no change output,
+ *   falling back to largest-first
+ * - largest-first: fewest inputs
+ * - smallest-first: spends small outputs first, consolidating the pool
+ * - privacy: avoids linking scripts by spending whole per-script groups
+ */
+
+import { BufferWriter } from '../encoding/bufferwriter.js'
+import type { Address } from '../address.js'
+import { Script } from '../script.js'
+import type { PublicKey } from '../publickey.js'
+import { Input, PublicKeyHashInput } from './input.js'
+import { Output } from './output.js'
+import { UnspentOutput, type UnspentOutputData } from './unspentoutput.js'
+import { Transaction } from './transaction.js'
+
+/**
+ * Coin selection strategy
+ */
+export type CoinSelectionStrategy =
+  | 'branch-and-bound'
+  | 'largest-first'
+  | 'smallest-first'
+  | 'privacy'
+
+/**
+ * UTXO that can be selected
+ *
+ * Pass a prepared Input (e.g. a TaprootInput with tapScript and controlBlock)
+ * when the spend path affects its size.
+ */
+export type CoinSelectionCandidate = UnspentOutput | UnspentOutputData | Input
+
+/**
+ * Coin selection options
+ */
+export interface CoinSelectionOptions {
+  /** Strategy to use (default: branch-and-bound) */
+  strategy?: CoinSelectionStrategy
+
+  /** Fee rate in satoshis per byte (default: Transaction.FEE_PER_KB / 1000) */
+  feePerByte?: number
+
+  /** Change output script (default: P2PKH-sized) */
+  changeScript?: Script | Address | string
+
+  /** Public keys for multisig and P2SH multisig UTXOs, as in Transaction.from() */
+  pubkeys?: PublicKey[]
+
+  /** Signature threshold for multisig and P2SH multisig UTXOs */
+  threshold?: number
+
+  /** Maximum number of inputs to select */
+  maxInputs?: number
+
+  /** Maximum branch-and-bound search steps (default: 100000) */
+  maxTries?: number
+}
+
+/**
+ * Coin selection result
+ */
+export interface CoinSelectionResult<
+  T extends CoinSelectionCandidate = CoinSelectionCandidate,
+> {
+  /** Selected UTXOs, as passed in */
+  selected: T[]
+
+  /** Total value of the selected UTXOs */
+  inputAmount: number
+
+  /** Transaction fee; includes any excess too small for a change output */
+  fee: number
+
+  /** Change amount (0 if no change output) */
+  change: number
+
+  /** Estimated transaction size in bytes, including any change output */
+  size: number
+
+  /** Strategy that produced the selection */
+  strategy: CoinSelectionStrategy
+}
+
+/**
+ * Error raised when the pool cannot fund the outputs
+ */
+export class CoinSelectionError extends Error {
+  constructor(
+    message: string,
+    /** Satoshis needed, including the fee */
+    public readonly needed: number,
+    /** Satoshis available in economic UTXOs */
+    public readonly available: number,
+  ) {
+    super(message)
+    this.name = 'CoinSelectionError'
+  }
+}
+
+/** Default branch-and-bound search steps */
+const DEFAULT_MAX_TRIES = 100_000
+
+/** Size of a P2PKH output (8 value + 1 length + 25 script) */
+const P2PKH_OUTPUT_SIZE = 34
+
+/**
+ * Candidate with precomputed value and size
+ */
+interface Coin<T> {
+  candidate: T
+  satoshis: number
+  /** Serialized input size in bytes */
+  size: number
+  /** Value minus the fee for spending it */
+  effectiveValue: number
+  /** Output script hex, for grouping */
+  scriptHex: string
+  /** Tie-breaker for stable ordering */
+  key: string
+}
+
+/**
+ * Select UTXOs to fund a set of outputs
+ *
+ * @param utxos - UTXO pool
+ * @param outputs - Outputs to fund (without change)
+ * @param options - Selection options
+ * @returns The selection, fee and change
+ * @throws CoinSelectionError if the pool cannot fund the outputs
+ *
+ * @example
+ * ```typescript
+ * const outputs = [new Output({ script: Script.fromAddress(to), satoshis: 50000 })]
+ * const result = selectCoins(utxos, outputs, {
+ *   strategy: 'branch-and-bound',
+ *   feePerByte: 1,
+ *   changeScript: Script.fromAddress(changeAddress),
+ * })
+ * ```
+ */
+export function selectCoins<T extends CoinSelectionCandidate>(
+  utxos: T[],
+  outputs: Output[],
+  options: CoinSelectionOptions = {},
+): CoinSelectionResult<T> {
+  const feePerByte = options.feePerByte ?? Transaction.FEE_PER_KB / 1000
+  const strategy = options.strategy ?? 'branch-and-bound'
+  const maxInputs = options.maxInputs ?? Infinity
+
+  const outputAmount = outputs.reduce((sum, output) => sum + output.satoshis, 0)
+  const outputSizes = outputs.map(output => output.getSize())
+  const changeOutputSize =
+    options.changeScript !== undefined
+      ? new Output({
+          script: toScript(options.changeScript),
+          satoshis: 0,
+        }).getSize()
+      : P2PKH_OUTPUT_SIZE
+
+  // Uneconomic UTXOs cost more to spend than they are worth
+  const coins = utxos
+    .map(utxo => toCoin(utxo, feePerByte, options))
+    .filter(coin => coin.effectiveValue > 0)
+
+  const finalize = (selected: Coin<T>[], used: CoinSelectionStrategy) =>
+    settle(selected, used, {
+      outputAmount,
+      outputSizes,
+      changeOutputSize,
+      feePerByte,
+    })
+
+  let result: CoinSelectionResult<T> | null = null
+  switch (strategy) {
+    case 'branch-and-bound': {
+      const selected = branchAndBound(coins, {
+        target:
+          outputAmount + Math.ceil(getTxSize([], outputSizes) * feePerByte),
+        costOfChange: Math.ceil(
+          (changeOutputSize +
+            getInputSize(PublicKeyHashInput.SCRIPT_MAX_SIZE)) *
+            feePerByte,
+        ),
+        maxInputs,
+        maxTries: options.maxTries ?? DEFAULT_MAX_TRIES,
+      })
+      result = selected && finalize(selected, 'branch-and-bound')
+      // No changeless solution; fall back to fewest inputs
+      result ??= accumulate(sortCoins(coins, 'desc'), maxInputs, selected =>
+        finalize(selected, 'largest-first'),
+      )
+      break
+    }
+    case 'largest-first':
+      result = accumulate(sortCoins(coins, 'desc'), maxInputs, selected =>
+        finalize(selected, 'largest-first'),
+      )
+      break
+    case 'smallest-first':
+      result = accumulate(sortCoins(coins, 'asc'), maxInputs, selected =>
+        finalize(selected, 'smallest-first'),
+      )
+      break
+    case 'privacy':
+      result = selectByScript(coins, maxInputs, selected =>
+        finalize(selected, 'privacy'),
+      )
+      break
+    default:
+      throw new Error(`Unknown coin selection strategy: ${strategy}`)
+  }
+
+  if (!result) {
+    const available = coins.reduce((sum, coin) => sum + coin.satoshis, 0)
+    const needed =
+      outputAmount + Math.ceil(getTxSize([], outputSizes) * feePerByte)
+    throw new CoinSelectionError(
+      `Insufficient funds: need at least ${needed} satoshis plus input fees, ` +
+        `${available} available in ${coins.length} spendable UTXOs` +
+        (maxInputs !== Infinity ? ` (max ${maxInputs} inputs)` : ''),
+      needed,
+      available,
+    )
+  }
+  return result
+}
+
+/**
+ * Branch-and-bound search for a changeless input set
+ *
+ * Depth-first search over coins sorted by effective value, looking for a
+ * set whose effective value lands in [target, target + costOfChange]. Among
+ * the sets found within maxTries, the one wasting the least is returned.
+ *
+ * The search keeps its own stack rather than recursing, since the exclusion
+ * branch is as deep as the pool is large.
+ */
+function branchAndBound<T>(
+  coins: Coin<T>[],
+  params: {
+    target: number
+    costOfChange: number
+    maxInputs: number
+    maxTries: number
+  },
+): Coin<T>[] | null {
+  const { target, costOfChange, maxInputs, maxTries } = params
+  const sorted = sortCoins(coins, 'desc')
+  const upperBound = target + costOfChange
+
+  let tries = 0
+  let best: Coin<T>[] | null = null
+  let bestExcess = Infinity
+  const selection: Coin<T>[] = []
+
+  // 'include' and 'exclude' visit a node; 'pop' undoes an inclusion once
+  // its branch is exhausted. Exclusion is skipped after an exact match.
+  type Step =
+    | {
+        kind: 'include' | 'exclude'
+        index: number
+        value: number
+        remaining: number
+      }
+    | { kind: 'pop' }
+  const total = sorted.reduce((sum, coin) => sum + coin.effectiveValue, 0)
+  const stack: Step[] = [
+    { kind: 'include', index: 0, value: 0, remaining: total },
+  ]
+
+  while (stack.length > 0) {
+    const step = stack.pop()!
+    if (step.kind === 'pop') {
+      selection.pop()
+      continue
+    }
+    if (step.kind === 'exclude' && bestExcess === 0) {
+      continue
+    }
+
+    const { index, value, remaining } = step
+    if (++tries > maxTries) {
+      break
+    }
+    if (value > upperBound) {
+      continue
+    }
+    if (value >= target) {
+      if (value - target < bestExcess) {
+        bestExcess = value - target
+        best = [...selection]
+      }
+      continue
+    }
+    if (
+      index >= sorted.length ||
+      value + remaining < target ||
+      selection.length >= maxInputs
+    ) {
+      continue
+    }
+
+    // Explore with the coin first, then without it
+    const coin = sorted[index]
+    const next = {
+      index: index + 1,
+      remaining: remaining - coin.effectiveValue,
+    }
+    stack.push({ kind: 'exclude', value, ...next })
+    stack.push({ kind: 'pop' })
+    stack.push({ kind: 'include', value: value + coin.effectiveValue, ...next })
+    selection.push(coin)
+  }
+
+  return best
+}
+
+/**
+ * Add coins in order until the outputs and fee are covered
+ */
+function accumulate<T, R>(
+  ordered: Coin<T>[],
+  maxInputs: number,
+  finalize: (selected: Coin<T>[]) => R | null,
+): R | null {
+  const selected: Coin<T>[] = []
+  for (const coin of ordered) {
+    if (selected.length >= maxInputs) {
+      break
+    }
+    selected.push(coin)
+    const result = finalize(selected)
+    if (result) {
+      return result
+    }
+  }
+  return null
+}
+
+/**
+ * Spend whole per-script groups so scripts are not linked needlessly
+ *
+ * Prefers the smallest single group that covers the outputs. Otherwise
+ * combines groups, largest first.
+ */
+function selectByScript<T, R>(
+  coins: Coin<T>[],
+  maxInputs: number,
+  finalize: (selected: Coin<T>[]) => R | null,
+): R | null {
+  const groups = new Map<string, Coin<T>[]>()
+  for (const coin of sortCoins(coins, 'desc')) {
+    const group = groups.get(coin.scriptHex) ?? []
+    group.push(coin)
+    groups.set(coin.scriptHex, group)
+  }
+
+  const groupValue = (group: Coin<T>[]) =>
+    group.reduce((sum, coin) => sum + coin.effectiveValue, 0)
+  const ordered = [...groups.values()]
+    .filter(group => group.length <= maxInputs)
+    .sort((a, b) => groupValue(a) - groupValue(b))
+
+  for (const group of ordered) {
+    const result = finalize(group)
+    if (result) {
+      return result
+    }
+  }
+
+  const selected: Coin<T>[] = []
+  for (const group of ordered.reverse()) {
+    if (selected.length + group.length > maxInputs) {
+      continue
+    }
+    selected.push(...group)
+    const result = finalize(selected)
+    if (result) {
+      return result
+    }
+  }
+  return null
+}
+
+/**
+ * Compute fee and change for a selection, or null if it is insufficient
+ */
+function settle<T extends CoinSelectionCandidate>(
+  selected: Coin<T>[],
+  strategy: CoinSelectionStrategy,
+  params: {
+    outputAmount: number
+    outputSizes: number[]
+    changeOutputSize: number
+    feePerByte: number
+  },
+): CoinSelectionResult<T> | null {
+  const { outputAmount, outputSizes, changeOutputSize, feePerByte } = params
+  const inputSizes = selected.map(coin => coin.size)
+  const inputAmount = selected.reduce((sum, coin) => sum + coin.satoshis, 0)
+
+  const size = getTxSize(inputSizes, outputSizes)
+  const fee = Math.ceil(size * feePerByte)
+  if (inputAmount < outputAmount + fee) {
+    return null
+  }
+
+  const sizeWithChange = getTxSize(inputSizes, [
+    ...outputSizes,
+    changeOutputSize,
+  ])
+  const feeWithChange = Math.ceil(sizeWithChange * feePerByte)
+  const change = inputAmount - outputAmount - feeWithChange
+
+  const candidates = selected.map(coin => coin.candidate)
+  if (change >= Transaction.DUST_AMOUNT) {
+    return {
+      selected: candidates,
+      inputAmount,
+      fee: feeWithChange,
+      change,
+      size: sizeWithChange,
+      strategy,
+    }
+  }
+  return {
+    selected: candidates,
+    inputAmount,
+    fee: inputAmount - outputAmount,
+    change: 0,
+    size,
+    strategy,
+  }
+}
+
+/**
+ * Precompute value and size of a candidate
+ */
+function toCoin<T extends CoinSelectionCandidate>(
+  candidate: T,
+  feePerByte: number,
+  options: CoinSelectionOptions,
+): Coin<T> {
+  let input: Input
+  if (candidate instanceof Input) {
+    input = candidate
+  } else {
+    const utxo =
+      candidate instanceof UnspentOutput
+        ? candidate
+        : new UnspentOutput(candidate)
+    const isMultisig =
+      utxo.script.isMultisigOut() || utxo.script.isPayToScriptHash()
+    input = new Transaction().from(
+      utxo,
+      isMultisig ? options.pubkeys : undefined,
+      isMultisig ? options.threshold : undefined,
+    ).inputs[0]
+  }
+
+  const output = input.output!
+  const size = getInputSize(input._estimateSize())
+  return {
+    candidate,
+    satoshis: output.satoshis,
+    size,
+    effectiveValue: output.satoshis - size * feePerByte,
+    scriptHex: output.script.toHex(),
+    key: `${input.prevTxId.toString('hex')}:${input.outputIndex}`,
+  }
+}
+
+/**
+ * Sort coins by effective value, breaking ties by outpoint
+ */
+function sortCoins<T>(coins: Coin<T>[], order: 'asc' | 'desc'): Coin<T>[] {
+  const sign = order === 'asc' ? 1 : -1
+  return [...coins].sort(
+    (a, b) =>
+      sign * (a.effectiveValue - b.effectiveValue) ||
+      (a.key < b.key ? -1 : a.key > b.key ? 1 : 0),
+  )
+}
+
+/**
+ * Serialized input size for a given input script size
+ *
+ * Matches Transaction._estimateSize(): outpoint and sequence (40 bytes),
+ * script length varint and script.
+ */
+function getInputSize(scriptSize: number): number {
+  return 40 + BufferWriter.varintBufNum(scriptSize).length + scriptSize
+}
+
+/**
+ * Serialized transaction size
+ */
+function getTxSize(inputSizes: number[], outputSizes: number[]): number {
+  return (
+    4 +
+    BufferWriter.varintBufNum(inputSizes.length).length +
+    inputSizes.reduce((sum, size) => sum + size, 0) +
+    BufferWriter.varintBufNum(outputSizes.length).length +
+    outputSizes.reduce((sum, size) => sum + size, 0) +
+    4
+  )
+}
+
+/**
+ * Parse a change script argument
+ */
+function toScript(script: Script | Address | string): Script {
+  return script instanceof Script ? script : Script.fromAddress(script)
+}
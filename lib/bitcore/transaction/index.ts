@@ -9,15 +9,64 @@ export {
 } from './input.js'
 export { Output } from './output.js'
 export { UnspentOutput } from './unspentoutput.js'
-export { sighash, sign, verify } from './sighash.js'
+export {
+  sighash,
+  sighashPreimage,
+  explainSighash,
+  sign,
+  verify,
+} from './sighash.js'
 export { TransactionSignature } from './signature.js'
 export { Transaction } from './transaction.js'
+export { selectCoins, CoinSelectionError } from './coinselection.js'
+export { PSBT, PSBTError, PSBT_MAGIC, PSBT_VERSION } from './psbt.js'
+export {
+  checkStandardness,
+  getDustThreshold,
+  MAX_STANDARD_VERSION,
+  MAX_STANDARD_TX_SIZE,
+  MAX_TX_IN_SCRIPT_SIG_SIZE,
+  MAX_STANDARD_MULTISIG_KEYS,
+  MAX_STANDARD_TX_SIGCHECKS,
+  DUST_RELAY_FEE_PER_KB,
+} from './policy.js'
 
 export type { InputData, InputObject } from './input.js'
 export type { OutputData, OutputObject } from './output.js'
 export type { UnspentOutputData, UnspentOutputObject } from './unspentoutput.js'
+export type {
+  SighashField,
+  SighashExplanation,
+  SighashExplainOptions,
+} from './sighash.js'
 export type {
   TransactionSignatureData,
   TransactionSignatureObject,
 } from './signature.js'
-export type { TransactionData, TransactionObject } from './transaction.js'
+export type {
+  TransactionData,
+  TransactionObject,
+  TransactionInputScriptVerification,
+  TransactionScriptVerification,
+} from './transaction.js'
+export type {
+  CoinSelectionStrategy,
+  CoinSelectionCandidate,
+  CoinSelectionOptions,
+  CoinSelectionResult,
+} from './coinselection.js'
+export type {
+  PSBTInput,
+  PSBTOutput,
+  PSBTInputUpdate,
+  PSBTOutputUpdate,
+  PSBTSignOptions,
+  PSBTTapLeafScript,
+} from './psbt.js'
+export type {
+  StandardnessReason,
+  StandardnessViolation,
+  StandardnessUtxo,
+  StandardnessOptions,
+  StandardnessResult,
+} from './policy.js'
@@ -1597,8 +1597,16 @@ export class TaprootInput extends Input {
    * Estimate size of input script
    */
   _estimateSize(): number {
-    // Key path: 65 bytes (64-byte Schnorr + 1-byte sighash)
-    // + varint for length (1 byte)
+    // Script path: <65-byte schnorr signature> <script> <control_block>
+    if (this.tapScript && this.controlBlock) {
+      return new Script()
+        .add(Buffer.alloc(65))
+        .add(this.tapScript.toBuffer())
+        .add(this.controlBlock)
+        .toBuffer().length
+    }
+
+    // Key path: push opcode + 65 bytes (64-byte Schnorr + 1-byte sighash)
     return 66
   }
 }
@@ -0,0 +1,596 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * Standardness Policy
+ *
+ * Checks a transaction against the relay policy of lotusd, the rules a node
+ * applies on top of consensus before accepting a transaction into its
+ * mempool. Transaction.verify() only covers consensus sanity and the fee, so
+ * a transaction can pass it and still be rejected by the node.
+ *
+ * checkStandardness() reports every violation rather than the first, each
+ * with a reason code following the lotusd reject reason:
+ *
+ * - version, tx-size: transaction version and serialized size
+ * - scriptsig-size, scriptsig-not-pushonly: input scripts
+ * - scriptpubkey, bare-multisig: output script templates
+ * - dust: outputs below the dust threshold of their type
+ * - oversize-op-return, multi-op-return: OP_RETURN size and count limits
+ * - missing-inputs, bad-txns-in-belowout, min-relay-fee-not-met: fees
+ * - non-final, non-BIP68-final: nLockTime and relative lock times
+ * - bad-txns-too-many-sigchecks, input-sigchecks: signature check limits
+ * - taproot-annex, taproot-control-block: Taproot script path spends
+ * - script-verify-failed: the input does not satisfy its output script
+ *
+ * @example
+ * ```typescript
+ * const { standard, violations } = checkStandardness(tx, utxos)
+ * if (!standard) {
+ *   for (const { reason, message } of violations) {
+ *     console.log(`${reason}: ${message}`)
+ *   }
+ * }
+ * ```
+ */
+
+import {
+  MAX_OP_RETURN_OUTPUTS,
+  MAX_OP_RETURN_RELAY,
+} from '../../../utils/constants.js'
+import { BufferWriter } from '../encoding/bufferwriter.js'
+import { Interpreter } from '../script/interpreter.js'
+import { Opcode } from '../opcode.js'
+import { Script } from '../script.js'
+import {
+  TAPROOT_ANNEX_TAG,
+  TAPROOT_CONTROL_BASE_SIZE,
+  TAPROOT_CONTROL_MAX_SIZE,
+  TAPROOT_CONTROL_NODE_SIZE,
+  TAPROOT_LEAF_MASK,
+  TAPROOT_LEAF_TAPSCRIPT,
+} from '../taproot.js'
+import { Input } from './input.js'
+import { Output } from './output.js'
+import { UnspentOutput, type UnspentOutputData } from './unspentoutput.js'
+import { Transaction } from './transaction.js'
+
+/** Highest transaction version relayed by lotusd */
+export const MAX_STANDARD_VERSION = 2
+
+/** Maximum serialized size of a standard transaction, in bytes */
+export const MAX_STANDARD_TX_SIZE = 100_000
+
+/** Maximum size of a standard input script, in bytes */
+export const MAX_TX_IN_SCRIPT_SIG_SIZE = 1_650
+
+/** Maximum number of keys in a standard bare multisig output */
+export const MAX_STANDARD_MULTISIG_KEYS = 3
+
+/** Maximum signature checks in a standard transaction */
+export const MAX_STANDARD_TX_SIGCHECKS = 3_000
+
+/** Dust relay fee rate, in satoshis per kilobyte */
+export const DUST_RELAY_FEE_PER_KB = 1_000
+
+/**
+ * Reason a transaction is not standard
+ */
+export type StandardnessReason =
+  | 'coinbase'
+  | 'version'
+  | 'tx-size'
+  | 'scriptsig-size'
+  | 'scriptsig-not-pushonly'
+  | 'scriptpubkey'
+  | 'bare-multisig'
+  | 'dust'
+  | 'oversize-op-return'
+  | 'multi-op-return'
+  | 'missing-inputs'
+  | 'bad-txns-in-belowout'
+  | 'min-relay-fee-not-met'
+  | 'non-final'
+  | 'non-BIP68-final'
+  | 'bad-txns-too-many-sigchecks'
+  | 'input-sigchecks'
+  | 'taproot-annex'
+  | 'taproot-control-block'
+  | 'script-verify-failed'
+
+/**
+ * A single policy violation
+ */
+export interface StandardnessViolation {
+  reason: StandardnessReason
+
+  /** Human readable description */
+  message: string
+
+  /** Index of the offending input */
+  input?: number
+
+  /** Index of the offending output */
+  output?: number
+}
+
+/**
+ * Output being spent, with the block that confirmed it
+ *
+ * height and medianTimePast are only needed to check relative lock times.
+ * Outputs without a height are treated as unconfirmed.
+ */
+export type StandardnessUtxo = (UnspentOutput | UnspentOutputData) & {
+  /** Height of the block that confirmed the output */
+  height?: number
+
+  /** Median time past of the block before the one that confirmed it */
+  medianTimePast?: number
+}
+
+export interface StandardnessOptions {
+  /** Minimum relay fee rate, in satoshis per kilobyte (default: 1000) */
+  feePerKb?: number
+
+  /** Dust relay fee rate, in satoshis per kilobyte (default: 1000) */
+  dustRelayFeePerKb?: number
+
+  /** Maximum size of an OP_RETURN output script (default: 223) */
+  maxDataCarrierBytes?: number
+
+  /** Maximum number of OP_RETURN outputs (default: 3) */
+  maxDataOutputs?: number
+
+  /** Relay bare multisig outputs (default: true) */
+  permitBareMultisig?: boolean
+
+  /**
+   * Height of the next block. Lock times are only checked against a height
+   * when this is set
+   */
+  height?: number
+
+  /**
+   * Median time past of the chain tip. Lock times are only checked against
+   * a time when this is set
+   */
+  medianTimePast?: number
+
+  /**
+   * Script verification flags (default:
+   * Interpreter.STANDARD_SCRIPT_VERIFY_FLAGS)
+   */
+  flags?: number
+}
+
+export interface StandardnessResult {
+  /** True when there are no violations */
+  standard: boolean
+
+  violations: StandardnessViolation[]
+
+  /** Serialized size, in bytes */
+  size: number
+
+  /** Fee paid, when every spent output is known */
+  fee?: number
+
+  /** Signature checks counted over all verified inputs */
+  sigChecks: number
+}
+
+/**
+ * Check whether lotusd would relay a transaction
+ *
+ * Spent outputs are taken from the inputs of the transaction, or from utxos
+ * when an input has no output attached. The transaction is not modified.
+ *
+ * @param tx - Signed transaction
+ * @param utxos - Outputs spent by the transaction
+ * @param options - Policy parameters and chain state
+ * @returns Every violation found
+ */
+export function checkStandardness(
+  tx: Transaction,
+  utxos: StandardnessUtxo[] = [],
+  options: StandardnessOptions = {},
+): StandardnessResult {
+  const violations: StandardnessViolation[] = []
+  const report = (
+    reason: StandardnessReason,
+    message: string,
+    index?: { input?: number; output?: number },
+  ) => violations.push({ reason, message, ...index })
+
+  const size = tx.toBuffer().length
+  const result = (fee?: number, sigChecks = 0): StandardnessResult => ({
+    standard: violations.length === 0,
+    violations,
+    size,
+    fee,
+    sigChecks,
+  })
+
+  if (tx.isCoinbase()) {
+    report('coinbase', 'coinbase transactions are not relayed')
+    return result()
+  }
+
+  if (tx.version < 1 || tx.version > MAX_STANDARD_VERSION) {
+    report('version', `transaction version ${tx.version} is not standard`)
+  }
+  if (size > MAX_STANDARD_TX_SIZE) {
+    report(
+      'tx-size',
+      `transaction size ${size} exceeds ${MAX_STANDARD_TX_SIZE} bytes`,
+    )
+  }
+
+  _checkOutputs(tx, options, report)
+
+  // Attach the spent outputs to a copy of the transaction, for fees and
+  // signature hashes
+  const checked = new Transaction(tx.toBuffer())
+  const utxoMap = new Map<string, StandardnessUtxo>()
+  for (const data of utxos) {
+    const utxo = data instanceof UnspentOutput ? data : new UnspentOutput(data)
+    utxoMap.set(`${utxo.txId}:${utxo.outputIndex}`, data)
+  }
+  const spent: (StandardnessUtxo | undefined)[] = []
+  tx.inputs.forEach((input, index) => {
+    const data = utxoMap.get(
+      `${input.prevTxId.toString('hex')}:${input.outputIndex}`,
+    )
+    spent.push(data)
+    if (input.output) {
+      checked.inputs[index].output = input.output
+    } else if (data) {
+      const utxo =
+        data instanceof UnspentOutput ? data : new UnspentOutput(data)
+      checked.inputs[index].output = new Output({
+        script: utxo.script,
+        satoshis: utxo.satoshis,
+      })
+    } else {
+      report(
+        'missing-inputs',
+        `spent output ${input.prevTxId.toString('hex')}:${input.outputIndex} is unknown`,
+        { input: index },
+      )
+    }
+  })
+
+  _checkFinality(tx, spent, options, report)
+
+  if (!checked.hasAllUtxoInfo()) {
+    tx.inputs.forEach((input, index) =>
+      _checkInputScript(input.script ?? new Script(), index, report),
+    )
+    return result()
+  }
+
+  const fee = checked.inputAmount - checked.outputAmount
+  if (fee < 0) {
+    report(
+      'bad-txns-in-belowout',
+      `inputs of ${checked.inputAmount} are less than outputs of ${checked.outputAmount}`,
+    )
+  } else {
+    const feePerKb = options.feePerKb ?? Transaction.FEE_PER_KB
+    const minFee = Math.ceil((size * feePerKb) / 1000)
+    if (fee < minFee) {
+      report(
+        'min-relay-fee-not-met',
+        `fee of ${fee} is below the minimum relay fee of ${minFee}`,
+      )
+    }
+  }
+
+  const verification = checked.verifyScripts(
+    options.flags ?? Interpreter.STANDARD_SCRIPT_VERIFY_FLAGS,
+  )
+  let sigChecks = 0
+  checked.inputs.forEach((input, index) => {
+    const scriptSig = input.script ?? new Script()
+    if (!_checkInputScript(scriptSig, index, report)) {
+      return
+    }
+    if (
+      input.output!.script.isPayToTaproot() &&
+      !_checkTaprootSpend(scriptSig, index, report)
+    ) {
+      return
+    }
+
+    const {
+      valid,
+      error,
+      sigChecks: inputSigChecks,
+    } = verification.inputs[index]
+    if (!valid) {
+      report(
+        'script-verify-failed',
+        `input ${index} script verification failed: ${error}`,
+        { input: index },
+      )
+      return
+    }
+
+    sigChecks += inputSigChecks
+    if (inputSigChecks * 43 > scriptSig.toBuffer().length + 60) {
+      report(
+        'input-sigchecks',
+        `input ${index} performs ${inputSigChecks} signature checks, too many for its input script size`,
+        { input: index },
+      )
+    }
+  })
+
+  if (sigChecks > MAX_STANDARD_TX_SIGCHECKS) {
+    report(
+      'bad-txns-too-many-sigchecks',
+      `transaction performs ${sigChecks} signature checks, more than ${MAX_STANDARD_TX_SIGCHECKS}`,
+    )
+  }
+
+  return result(fee, sigChecks)
+}
+
+/**
+ * Get the dust threshold of an output script
+ *
+ * An output is dust when spending it would cost more than a third of its
+ * value at the dust relay fee rate, assuming a 148 byte input. OP_RETURN
+ * outputs are unspendable and have no threshold.
+ *
+ * @param script - Output script
+ * @param dustRelayFeePerKb - Fee rate, in satoshis per kilobyte
+ * @returns Minimum value of the output, in satoshis
+ */
+export function getDustThreshold(
+  script: Script,
+  dustRelayFeePerKb: number = DUST_RELAY_FEE_PER_KB,
+): number {
+  if (_isDataOut(script)) {
+    return 0
+  }
+  const scriptBuffer = script.toBuffer()
+  const outputSize =
+    8 +
+    new BufferWriter().writeVarintNum(scriptBuffer.length).toBuffer().length +
+    scriptBuffer.length
+  return 3 * Math.floor(((outputSize + 148) * dustRelayFeePerKb) / 1000)
+}
+
+type Report = (
+  reason: StandardnessReason,
+  message: string,
+  index?: { input?: number; output?: number },
+) => void
+
+/**
+ * Check output templates, dust and OP_RETURN limits
+ */
+function _checkOutputs(
+  tx: Transaction,
+  options: StandardnessOptions,
+  report: Report,
+): void {
+  const maxDataCarrierBytes = options.maxDataCarrierBytes ?? MAX_OP_RETURN_RELAY
+  const maxDataOutputs = options.maxDataOutputs ?? MAX_OP_RETURN_OUTPUTS
+  let dataOutputs = 0
+
+  tx.outputs.forEach((output, index) => {
+    const script = output.script
+    const at = { output: index }
+
+    if (_isDataOut(script)) {
+      dataOutputs++
+      const scriptSize = script.toBuffer().length
+      if (scriptSize > maxDataCarrierBytes) {
+        report(
+          'oversize-op-return',
+          `output ${index} OP_RETURN script of ${scriptSize} bytes exceeds ${maxDataCarrierBytes}`,
+          at,
+        )
+      }
+      return
+    }
+
+    if (!script.isStandard()) {
+      report('scriptpubkey', `output ${index} script is not standard`, at)
+      return
+    }
+
+    if (script.isMultisigOut()) {
+      const keys = script.chunks.length - 3
+      if (keys > MAX_STANDARD_MULTISIG_KEYS) {
+        report(
+          'scriptpubkey',
+          `output ${index} multisig has ${keys} keys, more than ${MAX_STANDARD_MULTISIG_KEYS}`,
+          at,
+        )
+        return
+      }
+      if (options.permitBareMultisig === false) {
+        report('bare-multisig', `output ${index} is bare multisig`, at)
+        return
+      }
+    }
+
+    const threshold = getDustThreshold(script, options.dustRelayFeePerKb)
+    if (output.satoshis < threshold) {
+      report(
+        'dust',
+        `output ${index} value of ${output.satoshis} is below the dust threshold of ${threshold}`,
+        at,
+      )
+    }
+  })
+
+  if (dataOutputs > maxDataOutputs) {
+    report(
+      'multi-op-return',
+      `transaction has ${dataOutputs} OP_RETURN outputs, more than ${maxDataOutputs}`,
+    )
+  }
+}
+
+/**
+ * Check the transaction lock time and BIP68 relative lock times
+ */
+function _checkFinality(
+  tx: Transaction,
+  spent: (StandardnessUtxo | undefined)[],
+  options: StandardnessOptions,
+  report: Report,
+): void {
+  const { height, medianTimePast } = options
+
+  const lockTime = tx.nLockTime
+  const byHeight = lockTime < Transaction.NLOCKTIME_BLOCKHEIGHT_LIMIT
+  const now = byHeight ? height : medianTimePast
+  if (
+    lockTime !== 0 &&
+    now !== undefined &&
+    lockTime >= now &&
+    !tx.inputs.every(input => input.sequenceNumber === Input.MAXINT)
+  ) {
+    report(
+      'non-final',
+      `transaction is locked until ${byHeight ? 'block' : 'time'} ${lockTime}`,
+    )
+  }
+
+  if (tx.version < 2) {
+    return
+  }
+  tx.inputs.forEach((input, index) => {
+    const sequence = input.sequenceNumber
+    if (sequence & Input.SEQUENCE_LOCKTIME_DISABLE_FLAG) {
+      return
+    }
+    const value = sequence & Input.SEQUENCE_LOCKTIME_MASK
+    if (sequence & Input.SEQUENCE_LOCKTIME_TYPE_FLAG) {
+      const confirmedTime = spent[index]?.medianTimePast ?? medianTimePast
+      if (medianTimePast === undefined || confirmedTime === undefined) {
+        return
+      }
+      const minTime =
+        confirmedTime + value * Input.SEQUENCE_LOCKTIME_GRANULARITY - 1
+      if (minTime >= medianTimePast) {
+        report(
+          'non-BIP68-final',
+          `input ${index} is locked until time ${minTime + 1}`,
+          { input: index },
+        )
+      }
+    } else {
+      const confirmedHeight = spent[index]?.height ?? height
+      if (height === undefined || confirmedHeight === undefined) {
+        return
+      }
+      const minHeight = confirmedHeight + value - 1
+      if (minHeight >= height) {
+        report(
+          'non-BIP68-final',
+          `input ${index} is locked until block ${minHeight + 1}`,
+          { input: index },
+        )
+      }
+    }
+  })
+}
+
+/**
+ * Check the size and opcodes of an input script
+ *
+ * @returns Whether the script can be verified further
+ */
+function _checkInputScript(
+  scriptSig: Script,
+  index: number,
+  report: Report,
+): boolean {
+  let ok = true
+  const scriptSize = scriptSig.toBuffer().length
+  if (scriptSize > MAX_TX_IN_SCRIPT_SIG_SIZE) {
+    report(
+      'scriptsig-size',
+      `input ${index} script of ${scriptSize} bytes exceeds ${MAX_TX_IN_SCRIPT_SIG_SIZE}`,
+      { input: index },
+    )
+    ok = false
+  }
+  if (!scriptSig.isPushOnly()) {
+    report(
+      'scriptsig-not-pushonly',
+      `input ${index} script contains non-push opcodes`,
+      { input: index },
+    )
+    ok = false
+  }
+  return ok
+}
+
+/**
+ * Check the annex and control block of a Taproot spend
+ *
+ * @returns Whether the spend can be verified further
+ */
+function _checkTaprootSpend(
+  scriptSig: Script,
+  index: number,
+  report: Report,
+): boolean {
+  const stack = scriptSig.chunks.map(chunk => chunk.buf ?? Buffer.alloc(0))
+  if (stack.length < 2) {
+    // Key path spend
+    return true
+  }
+
+  const last = stack[stack.length - 1]
+  if (last.length > 0 && last[0] === TAPROOT_ANNEX_TAG) {
+    report('taproot-annex', `input ${index} has an annex`, { input: index })
+    return false
+  }
+
+  const controlBlock = last
+  if (
+    controlBlock.length < TAPROOT_CONTROL_BASE_SIZE ||
+    controlBlock.length > TAPROOT_CONTROL_MAX_SIZE ||
+    (controlBlock.length - TAPROOT_CONTROL_BASE_SIZE) %
+      TAPROOT_CONTROL_NODE_SIZE !==
+      0
+  ) {
+    report(
+      'taproot-control-block',
+      `input ${index} control block of ${controlBlock.length} bytes has an invalid size`,
+      { input: index },
+    )
+    return false
+  }
+  if ((controlBlock[0] & TAPROOT_LEAF_MASK) !== TAPROOT_LEAF_TAPSCRIPT) {
+    report(
+      'taproot-control-block',
+      `input ${index} control block has unknown leaf version 0x${(controlBlock[0] & TAPROOT_LEAF_MASK).toString(16)}`,
+      { input: index },
+    )
+    return false
+  }
+  return true
+}
+
+/**
+ * Whether a script is a push-only OP_RETURN output
+ */
+function _isDataOut(script: Script): boolean {
+  return (
+    script.chunks.length >= 1 &&
+    script.chunks[0].opcodenum === Opcode.OP_RETURN &&
+    new Script({ chunks: script.chunks.slice(1) }).isPushOnly()
+  )
+}
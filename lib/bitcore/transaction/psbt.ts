@@ -0,0 +1,1476 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * Partially Signed Transactions (PSBT) for Lotus
+ *
+ * Interchange format for unsigned and partially signed transactions, modeled
+ * on BIP174. A PSBT carries the unsigned transaction together with everything
+ * a signer needs that the transaction itself does not: spent outputs, P2SH
+ * redeem scripts, Taproot internal keys, leaf scripts and control blocks,
+ * MuSig2 public nonces and partial signatures.
+ *
+ * Roles:
+ * - Creator:   new PSBT(tx) captures the inputs' metadata from a Transaction
+ * - Updater:   updateInput() / updateOutput() add metadata
+ * - Signer:    sign() and signMuSig2() add signatures for a private key
+ * - Combiner:  combine() merges PSBTs for the same unsigned transaction
+ * - Finalizer: finalize() builds each input's scriptSig
+ * - Extractor: extractTransaction() returns the network transaction
+ *
+ * Serialization follows the BIP174 key-value map layout with a Lotus magic
+ * prefix. Key types reuse the BIP174/BIP371/BIP373 numbering where a
+ * counterpart exists. The spent output of every input is stored in full,
+ * since Lotus has no witness data and SIGHASH_LOTUS commits to the spent
+ * outputs of all inputs.
+ *
+ * SIGHASH rules:
+ * - Taproot key path signatures must use SIGHASH_LOTUS and Schnorr
+ * - Taproot script path signatures use SIGHASH_FORKID and Schnorr
+ * - SIGHASH_LOTUS signatures require the spent output of every input
+ * - P2SH multisig signatures are ECDSA (OP_CHECKMULTISIG legacy mode)
+ *
+ * @example
+ * ```typescript
+ * // Alice creates the PSBT and hands it to Bob
+ * const psbt = new PSBT(tx)
+ * const base64 = psbt.sign(aliceKey).toBase64()
+ *
+ * // Bob signs his inputs, then finalizes
+ * const signed = PSBT.fromBase64(base64).sign(bobKey)
+ * const final = signed.finalize().extractTransaction()
+ * ```
+ */
+
+import { Preconditions } from '../util/preconditions.js'
+import { BufferReader } from '../encoding/bufferreader.js'
+import { BufferWriter } from '../encoding/bufferwriter.js'
+import { Script } from '../script.js'
+import { Opcode } from '../opcode.js'
+import { BN } from '../crypto/bn.js'
+import { Hash } from '../crypto/hash.js'
+import { Point } from '../crypto/point.js'
+import { Signature } from '../crypto/signature.js'
+import { PrivateKey } from '../privatekey.js'
+import { PublicKey } from '../publickey.js'
+import {
+  musigKeyAgg,
+  musigNonceAgg,
+  musigSigAgg,
+  type MuSigNonce,
+} from '../crypto/musig2.js'
+import {
+  TAPROOT_LEAF_MASK,
+  TAPROOT_LEAF_TAPSCRIPT,
+  TAPROOT_SIGHASH_TYPE,
+  calculateTapLeaf,
+  calculateTapTweak,
+  extractTaprootCommitment,
+  tweakPrivateKey,
+} from '../taproot.js'
+import {
+  signTaprootKeyPathWithMuSig2,
+  verifyTaprootKeyPathMuSigPartial,
+} from '../taproot/musig2.js'
+import { Transaction } from './transaction.js'
+import { Output } from './output.js'
+import {
+  Input,
+  MultisigScriptHashInput,
+  MuSigTaprootInput,
+  TaprootInput,
+} from './input.js'
+import { sighash, sign } from './sighash.js'
+
+/** Magic bytes: "lpsbt" followed by 0xff */
+export const PSBT_MAGIC = Buffer.from([0x6c, 0x70, 0x73, 0x62, 0x74, 0xff])
+
+/** Serialization version written to the global map */
+export const PSBT_VERSION = 0
+
+// Global key types
+const PSBT_GLOBAL_UNSIGNED_TX = 0x00
+const PSBT_GLOBAL_VERSION = 0xfb
+
+// Input key types
+const PSBT_IN_UTXO = 0x01
+const PSBT_IN_PARTIAL_SIG = 0x02
+const PSBT_IN_SIGHASH_TYPE = 0x03
+const PSBT_IN_REDEEM_SCRIPT = 0x04
+const PSBT_IN_FINAL_SCRIPTSIG = 0x07
+const PSBT_IN_TAP_KEY_SIG = 0x13
+const PSBT_IN_TAP_SCRIPT_SIG = 0x14
+const PSBT_IN_TAP_LEAF_SCRIPT = 0x15
+const PSBT_IN_TAP_INTERNAL_KEY = 0x17
+const PSBT_IN_TAP_MERKLE_ROOT = 0x18
+const PSBT_IN_MUSIG2_PARTICIPANT_PUBKEYS = 0x1a
+const PSBT_IN_MUSIG2_PUB_NONCE = 0x1b
+const PSBT_IN_MUSIG2_PARTIAL_SIG = 0x1c
+
+// Output key types
+const PSBT_OUT_REDEEM_SCRIPT = 0x00
+const PSBT_OUT_TAP_INTERNAL_KEY = 0x05
+
+/**
+ * A Taproot leaf that can be used to spend an input through its script path
+ */
+export interface PSBTTapLeafScript {
+  /** Leaf script */
+  script: Script
+  /** Control block proving the leaf is committed to by the output */
+  controlBlock: Buffer
+  /** Leaf version (default: 0xc0) */
+  leafVersion: number
+}
+
+/**
+ * Per-input data of a PSBT
+ */
+export interface PSBTInput {
+  /** Output spent by this input */
+  utxo?: Output
+  /** Sighash type signers must use */
+  sighashType?: number
+  /** Signatures in transaction format, by public key hex */
+  partialSigs: Map<string, Buffer>
+  /** P2SH redeem script */
+  redeemScript?: Script
+  /** Taproot internal key */
+  tapInternalKey?: PublicKey
+  /** Taproot script tree merkle root */
+  tapMerkleRoot?: Buffer
+  /** Taproot key path signature in transaction format */
+  tapKeySig?: Buffer
+  /** Taproot script path signatures, by public key hex + leaf hash hex */
+  tapScriptSigs: Map<string, Buffer>
+  /** Spendable Taproot leaves */
+  tapLeafScripts: PSBTTapLeafScript[]
+  /** MuSig2 participant public keys, in key aggregation order */
+  musig2Participants?: PublicKey[]
+  /** MuSig2 public nonces, by participant public key hex */
+  musig2PubNonces: Map<string, [Point, Point]>
+  /** MuSig2 partial signatures, by participant public key hex */
+  musig2PartialSigs: Map<string, BN>
+  /** Final input script, set by the finalizer */
+  finalScriptSig?: Script
+  /** Unrecognized key-value pairs, by key hex */
+  unknown: Map<string, Buffer>
+}
+
+/**
+ * Per-output data of a PSBT
+ */
+export interface PSBTOutput {
+  /** P2SH redeem script */
+  redeemScript?: Script
+  /** Taproot internal key */
+  tapInternalKey?: PublicKey
+  /** Unrecognized key-value pairs, by key hex */
+  unknown: Map<string, Buffer>
+}
+
+/**
+ * Metadata an updater can add to an input
+ */
+export interface PSBTInputUpdate {
+  utxo?: Output | { script: Script | string; satoshis: number }
+  sighashType?: number
+  redeemScript?: Script
+  tapInternalKey?: PublicKey
+  tapMerkleRoot?: Buffer
+  tapLeafScript?: {
+    script: Script
+    controlBlock: Buffer
+    leafVersion?: number
+  }
+  musig2Participants?: PublicKey[]
+}
+
+/**
+ * Metadata an updater can add to an output
+ */
+export interface PSBTOutputUpdate {
+  redeemScript?: Script
+  tapInternalKey?: PublicKey
+}
+
+/**
+ * Signer options
+ */
+export interface PSBTSignOptions {
+  /** Sighash type for inputs without one (default depends on input type) */
+  sigtype?: number
+  /** Signing method for P2PKH and P2PK inputs (default: 'ecdsa') */
+  signingMethod?: 'ecdsa' | 'schnorr'
+}
+
+/**
+ * Error thrown for malformed PSBTs and invalid role operations
+ */
+export class PSBTError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PSBTError'
+  }
+}
+
+/**
+ * Partially signed transaction
+ */
+export class PSBT {
+  /** Unsigned transaction; input scripts are always empty */
+  readonly tx: Transaction
+  readonly inputs: PSBTInput[]
+  readonly outputs: PSBTOutput[]
+  /** Unrecognized global key-value pairs, by key hex */
+  readonly unknown: Map<string, Buffer> = new Map()
+
+  /**
+   * Create a PSBT from a transaction (creator role)
+   *
+   * Input scripts are moved out of the unsigned transaction. Metadata of
+   * typed inputs is captured: spent outputs, TaprootInput keys and leaves,
+   * MultisigScriptHashInput redeem scripts and signatures, and
+   * MuSigTaprootInput participants, nonces and partial signatures. Any other
+   * non-empty input script is kept as the input's final scriptSig.
+   *
+   * @param transaction - Transaction to wrap
+   */
+  constructor(transaction: Transaction) {
+    this.tx = new Transaction(transaction.toBuffer())
+    for (const input of this.tx.inputs) {
+      input.setScript(new Script())
+    }
+    this.inputs = transaction.inputs.map(toPSBTInput)
+    this.outputs = transaction.outputs.map(() => ({ unknown: new Map() }))
+  }
+
+  /**
+   * Parse a serialized PSBT
+   *
+   * @param buf - Serialized PSBT
+   * @throws PSBTError if the encoding is invalid
+   */
+  static fromBuffer(buf: Buffer): PSBT {
+    const reader = new BufferReader(buf)
+    try {
+      return PSBT._fromBufferReader(reader)
+    } catch (error) {
+      if (error instanceof PSBTError) {
+        throw error
+      }
+      throw new PSBTError(`Invalid PSBT: ${(error as Error).message}`)
+    }
+  }
+
+  /**
+   * Parse a base64-encoded PSBT
+   */
+  static fromBase64(str: string): PSBT {
+    return PSBT.fromBuffer(Buffer.from(str, 'base64'))
+  }
+
+  /**
+   * Parse a hex-encoded PSBT
+   */
+  static fromHex(str: string): PSBT {
+    return PSBT.fromBuffer(Buffer.from(str, 'hex'))
+  }
+
+  /**
+   * Merge several PSBTs for the same unsigned transaction (combiner role)
+   *
+   * @param psbts - PSBTs to merge; the first one is copied, not modified
+   * @returns New combined PSBT
+   */
+  static combine(psbts: PSBT[]): PSBT {
+    Preconditions.checkArgument(psbts.length > 0, 'No PSBTs to combine')
+    const combined = psbts[0].clone()
+    return combined.combine(...psbts.slice(1))
+  }
+
+  /** Unsigned transaction ID */
+  get id(): string {
+    return this.tx.id
+  }
+
+  // ============================================================================
+  // Updater
+  // ============================================================================
+
+  /**
+   * Add metadata to an input (updater role)
+   *
+   * @param index - Input index
+   * @param update - Metadata to set; a leaf script is added to the known leaves
+   * @returns this PSBT (for chaining)
+   */
+  updateInput(index: number, update: PSBTInputUpdate): this {
+    const input = this._getInput(index)
+
+    if (update.utxo) {
+      input.utxo =
+        update.utxo instanceof Output ? update.utxo : new Output(update.utxo)
+    }
+    if (update.sighashType !== undefined) {
+      input.sighashType = update.sighashType
+    }
+    if (update.redeemScript) {
+      input.redeemScript = update.redeemScript
+    }
+    if (update.tapInternalKey) {
+      input.tapInternalKey = update.tapInternalKey
+    }
+    if (update.tapMerkleRoot) {
+      input.tapMerkleRoot = update.tapMerkleRoot
+    }
+    if (update.tapLeafScript) {
+      addTapLeafScript(input, {
+        ...update.tapLeafScript,
+        leafVersion: update.tapLeafScript.leafVersion ?? TAPROOT_LEAF_TAPSCRIPT,
+      })
+    }
+    if (update.musig2Participants) {
+      input.musig2Participants = musigKeyAgg(update.musig2Participants).pubkeys
+    }
+    return this
+  }
+
+  /**
+   * Add metadata to an output (updater role)
+   *
+   * @param index - Output index
+   * @param update - Metadata to set
+   * @returns this PSBT (for chaining)
+   */
+  updateOutput(index: number, update: PSBTOutputUpdate): this {
+    Preconditions.checkArgument(
+      index >= 0 && index < this.outputs.length,
+      `Output index ${index} out of range`,
+    )
+    const output = this.outputs[index]
+    if (update.redeemScript) {
+      output.redeemScript = update.redeemScript
+    }
+    if (update.tapInternalKey) {
+      output.tapInternalKey = update.tapInternalKey
+    }
+    return this
+  }
+
+  // ============================================================================
+  // Signer
+  // ============================================================================
+
+  /**
+   * Sign every input the private key can sign (signer role)
+   *
+   * Handles P2PKH, P2PK, P2SH multisig, Taproot key path and Taproot script
+   * path inputs. Finalized inputs, inputs without a spent output and inputs
+   * the key has no part in are skipped. MuSig2 inputs are signed with
+   * signMuSig2().
+   *
+   * @param privateKey - Private key or WIF string
+   * @param options - Signer options
+   * @returns this PSBT (for chaining)
+   * @throws PSBTError if a signature would break the SIGHASH rules
+   */
+  sign(privateKey: PrivateKey | string, options: PSBTSignOptions = {}): this {
+    const key = new PrivateKey(privateKey)
+    const signingTx = this._getSigningTransaction()
+
+    this.inputs.forEach((input, index) => {
+      if (input.finalScriptSig || !input.utxo) {
+        return
+      }
+      const script = input.utxo.script
+      if (script.isPayToTaproot()) {
+        this._signTaproot(signingTx, index, key, options)
+      } else if (script.isPayToScriptHash()) {
+        this._signMultisig(signingTx, index, key, options)
+      } else if (script.isPublicKeyHashOut() || script.isPublicKeyOut()) {
+        this._signSingle(signingTx, index, key, options)
+      }
+    })
+    return this
+  }
+
+  /**
+   * Get the sighash an input's signers commit to
+   *
+   * @param index - Input index
+   * @param sigtype - Sighash type (default: the input's, or SIGHASH_ALL | SIGHASH_LOTUS)
+   * @param subscript - Script committed to (default: the spent output script)
+   * @returns 32-byte sighash
+   */
+  getSighash(index: number, sigtype?: number, subscript?: Script): Buffer {
+    const input = this._getInput(index)
+    if (!input.utxo) {
+      throw new PSBTError(`Input ${index} is missing its spent output`)
+    }
+    sigtype ??= input.sighashType ?? TAPROOT_SIGHASH_TYPE
+    this._checkLotusOutputs(sigtype)
+
+    return sighash(
+      this._getSigningTransaction(),
+      sigtype,
+      index,
+      subscript ?? input.utxo.script,
+      new BN(input.utxo.satoshis),
+    )
+  }
+
+  /**
+   * Add a participant's public nonce to a MuSig2 input
+   *
+   * @param index - Input index
+   * @param publicKey - Participant public key
+   * @param nonce - Public nonce pair [R1, R2]
+   * @returns this PSBT (for chaining)
+   */
+  addMuSig2PublicNonce(
+    index: number,
+    publicKey: PublicKey,
+    nonce: [Point, Point],
+  ): this {
+    const input = this._getInput(index)
+    this._getParticipantIndex(index, publicKey)
+    input.musig2PubNonces.set(publicKey.toString(), nonce)
+    return this
+  }
+
+  /**
+   * Add a participant's partial signature to a MuSig2 input
+   *
+   * The partial signature is verified once every public nonce is known.
+   *
+   * @param index - Input index
+   * @param publicKey - Participant public key
+   * @param partialSig - Partial signature for the key path sighash
+   * @returns this PSBT (for chaining)
+   * @throws PSBTError if the partial signature is invalid
+   */
+  addMuSig2PartialSignature(
+    index: number,
+    publicKey: PublicKey,
+    partialSig: BN,
+  ): this {
+    const input = this._getInput(index)
+    const signerIndex = this._getParticipantIndex(index, publicKey)
+
+    if (this._hasAllMuSig2Nonces(input)) {
+      const { keyAggContext, aggregatedNonce, message, tweak } =
+        this._getMuSig2SigningData(index)
+      const valid = verifyTaprootKeyPathMuSigPartial(
+        partialSig,
+        input.musig2PubNonces.get(publicKey.toString())!,
+        publicKey,
+        keyAggContext,
+        signerIndex,
+        aggregatedNonce,
+        message,
+        tweak,
+      )
+      if (!valid) {
+        throw new PSBTError(
+          `Invalid MuSig2 partial signature for input ${index} from ${publicKey}`,
+        )
+      }
+    }
+
+    input.musig2PartialSigs.set(publicKey.toString(), partialSig)
+    return this
+  }
+
+  /**
+   * Create this participant's partial signature for a MuSig2 input
+   *
+   * Every participant's public nonce must be present. The secret nonce must
+   * never be used again afterwards.
+   *
+   * @param index - Input index
+   * @param privateKey - Participant private key
+   * @param secretNonce - Nonce generated for this input with musigNonceGen()
+   * @returns this PSBT (for chaining)
+   */
+  signMuSig2(
+    index: number,
+    privateKey: PrivateKey,
+    secretNonce: MuSigNonce,
+  ): this {
+    const input = this._getInput(index)
+    const signerIndex = this._getParticipantIndex(index, privateKey.publicKey)
+    if (!this._hasAllMuSig2Nonces(input)) {
+      throw new PSBTError(`Input ${index} is missing MuSig2 public nonces`)
+    }
+
+    const { keyAggContext, aggregatedNonce, message, tweak } =
+      this._getMuSig2SigningData(index)
+    const partialSig = signTaprootKeyPathWithMuSig2(
+      secretNonce,
+      privateKey,
+      keyAggContext,
+      signerIndex,
+      aggregatedNonce,
+      message,
+      tweak,
+    )
+    input.musig2PartialSigs.set(privateKey.publicKey.toString(), partialSig)
+    return this
+  }
+
+  // ============================================================================
+  // Combiner
+  // ============================================================================
+
+  /**
+   * Merge other PSBTs for the same unsigned transaction into this one
+   *
+   * @param others - PSBTs to merge
+   * @returns this PSBT (for chaining)
+   * @throws PSBTError if an unsigned transaction differs
+   */
+  combine(...others: PSBT[]): this {
+    for (const other of others) {
+      if (other.id !== this.id) {
+        throw new PSBTError(
+          `Cannot combine PSBTs for different transactions (${this.id}, ${other.id})`,
+        )
+      }
+      mergeMap(this.unknown, other.unknown)
+      this.inputs.forEach((input, index) =>
+        mergeInput(input, other.inputs[index]),
+      )
+      this.outputs.forEach((output, index) => {
+        const theirs = other.outputs[index]
+        output.redeemScript ??= theirs.redeemScript
+        output.tapInternalKey ??= theirs.tapInternalKey
+        mergeMap(output.unknown, theirs.unknown)
+      })
+    }
+    return this
+  }
+
+  // ============================================================================
+  // Finalizer / Extractor
+  // ============================================================================
+
+  /**
+   * Build the final scriptSig of one input (finalizer role)
+   *
+   * Signing metadata of the input is cleared once it is finalized.
+   *
+   * @param index - Input index
+   * @returns this PSBT (for chaining)
+   * @throws PSBTError if the input is missing signatures
+   */
+  finalizeInput(index: number): this {
+    const input = this._getInput(index)
+    if (input.finalScriptSig) {
+      return this
+    }
+    if (!input.utxo) {
+      throw new PSBTError(`Input ${index} is missing its spent output`)
+    }
+
+    const script = input.utxo.script
+    let finalScriptSig: Script | null = null
+    if (script.isPayToTaproot()) {
+      finalScriptSig = this._finalizeTaproot(index)
+    } else if (script.isPayToScriptHash()) {
+      finalScriptSig = finalizeMultisig(input)
+    } else if (script.isPublicKeyHashOut()) {
+      const [publicKey, signature] =
+        [...input.partialSigs].find(([publicKey]) =>
+          Hash.sha256ripemd160(Buffer.from(publicKey, 'hex')).equals(
+            script.getPublicKeyHash(),
+          ),
+        ) ?? []
+      if (publicKey) {
+        finalScriptSig = new Script()
+          .add(signature!)
+          .add(Buffer.from(publicKey, 'hex'))
+      }
+    } else if (script.isPublicKeyOut()) {
+      const signature = input.partialSigs.get(
+        script.getPublicKey().toString('hex'),
+      )
+      if (signature) {
+        finalScriptSig = new Script().add(signature)
+      }
+    }
+
+    if (!finalScriptSig) {
+      throw new PSBTError(`Input ${index} cannot be finalized`)
+    }
+
+    this.inputs[index] = {
+      utxo: input.utxo,
+      partialSigs: new Map(),
+      tapScriptSigs: new Map(),
+      tapLeafScripts: [],
+      musig2PubNonces: new Map(),
+      musig2PartialSigs: new Map(),
+      finalScriptSig,
+      unknown: input.unknown,
+    }
+    return this
+  }
+
+  /**
+   * Build the final scriptSig of every input (finalizer role)
+   *
+   * @returns this PSBT (for chaining)
+   * @throws PSBTError if an input is missing signatures
+   */
+  finalize(): this {
+    for (let i = 0; i < this.inputs.length; i++) {
+      this.finalizeInput(i)
+    }
+    return this
+  }
+
+  /**
+   * Check if every input has a final scriptSig
+   */
+  isFinalized(): boolean {
+    return this.inputs.every(input => input.finalScriptSig !== undefined)
+  }
+
+  /**
+   * Get the network transaction (extractor role)
+   *
+   * @returns Signed transaction; inputs carry their spent outputs when known
+   * @throws PSBTError if an input is not finalized
+   */
+  extractTransaction(): Transaction {
+    const tx = new Transaction(this.tx.toBuffer())
+    this.inputs.forEach((input, index) => {
+      if (!input.finalScriptSig) {
+        throw new PSBTError(`Input ${index} is not finalized`)
+      }
+      tx.inputs[index].setScript(input.finalScriptSig)
+      tx.inputs[index].output = input.utxo
+    })
+    return tx
+  }
+
+  // ============================================================================
+  // Serialization
+  // ============================================================================
+
+  /**
+   * Serialize to the binary PSBT format
+   */
+  toBuffer(): Buffer {
+    const writer = new BufferWriter()
+    writer.write(PSBT_MAGIC)
+
+    writeKeyValue(writer, [PSBT_GLOBAL_UNSIGNED_TX], this.tx.toBuffer())
+    writeKeyValue(
+      writer,
+      [PSBT_GLOBAL_VERSION],
+      new BufferWriter().writeUInt32LE(PSBT_VERSION).toBuffer(),
+    )
+    writeUnknown(writer, this.unknown)
+    writer.writeUInt8(0x00)
+
+    for (const input of this.inputs) {
+      writeInput(writer, input)
+      writer.writeUInt8(0x00)
+    }
+    for (const output of this.outputs) {
+      if (output.redeemScript) {
+        writeKeyValue(
+          writer,
+          [PSBT_OUT_REDEEM_SCRIPT],
+          output.redeemScript.toBuffer(),
+        )
+      }
+      if (output.tapInternalKey) {
+        writeKeyValue(
+          writer,
+          [PSBT_OUT_TAP_INTERNAL_KEY],
+          output.tapInternalKey.toBuffer(),
+        )
+      }
+      writeUnknown(writer, output.unknown)
+      writer.writeUInt8(0x00)
+    }
+
+    return writer.toBuffer()
+  }
+
+  /**
+   * Serialize to base64
+   */
+  toBase64(): string {
+    return this.toBuffer().toString('base64')
+  }
+
+  /**
+   * Serialize to hex
+   */
+  toHex(): string {
+    return this.toBuffer().toString('hex')
+  }
+
+  /**
+   * String representation (base64)
+   */
+  toString(): string {
+    return this.toBase64()
+  }
+
+  /**
+   * Deep copy via serialization
+   */
+  clone(): PSBT {
+    return PSBT.fromBuffer(this.toBuffer())
+  }
+
+  // ============================================================================
+  // Private
+  // ============================================================================
+
+  private static _fromBufferReader(reader: BufferReader): PSBT {
+    if (!reader.read(PSBT_MAGIC.length).equals(PSBT_MAGIC)) {
+      throw new PSBTError('Invalid PSBT magic bytes')
+    }
+
+    let tx: Transaction | undefined
+    const globalUnknown: Map<string, Buffer> = new Map()
+    for (const { key, value } of readMap(reader)) {
+      switch (key[0]) {
+        case PSBT_GLOBAL_UNSIGNED_TX:
+          tx = new Transaction(value)
+          break
+        case PSBT_GLOBAL_VERSION:
+          if (value.readUInt32LE(0) > PSBT_VERSION) {
+            throw new PSBTError(
+              `Unsupported PSBT version ${value.readUInt32LE(0)}`,
+            )
+          }
+          break
+        default:
+          globalUnknown.set(key.toString('hex'), value)
+      }
+    }
+    if (!tx) {
+      throw new PSBTError('PSBT is missing the unsigned transaction')
+    }
+    if (tx.inputs.some(input => input.scriptBuffer.length > 0)) {
+      throw new PSBTError('PSBT unsigned transaction has input scripts')
+    }
+
+    const psbt = new PSBT(tx)
+    mergeMap(psbt.unknown, globalUnknown)
+    for (let i = 0; i < tx.inputs.length; i++) {
+      psbt.inputs[i] = readInput(reader)
+    }
+    for (let i = 0; i < tx.outputs.length; i++) {
+      psbt.outputs[i] = readOutput(reader)
+    }
+    if (!reader.finished()) {
+      throw new PSBTError('Unexpected data after PSBT')
+    }
+    return psbt
+  }
+
+  private _getInput(index: number): PSBTInput {
+    Preconditions.checkArgument(
+      index >= 0 && index < this.inputs.length,
+      `Input index ${index} out of range`,
+    )
+    return this.inputs[index]
+  }
+
+  /**
+   * Unsigned transaction with each input's spent output attached
+   */
+  private _getSigningTransaction(): Transaction {
+    const tx = new Transaction(this.tx.toBuffer())
+    tx.inputs.forEach((input, index) => {
+      input.output = this.inputs[index].utxo
+    })
+    return tx
+  }
+
+  /**
+   * SIGHASH_LOTUS commits to every spent output
+   */
+  private _checkLotusOutputs(sigtype: number): void {
+    if ((sigtype & 0x60) !== Signature.SIGHASH_LOTUS) {
+      return
+    }
+    const missing = this.inputs.findIndex(input => !input.utxo)
+    if (missing !== -1) {
+      throw new PSBTError(
+        `SIGHASH_LOTUS requires the spent output of every input (input ${missing} is missing)`,
+      )
+    }
+  }
+
+  private _signSingle(
+    signingTx: Transaction,
+    index: number,
+    privateKey: PrivateKey,
+    options: PSBTSignOptions,
+  ): void {
+    const input = this.inputs[index]
+    const script = input.utxo!.script
+    const publicKey = privateKey.publicKey.toBuffer()
+
+    const matches = script.isPublicKeyHashOut()
+      ? Hash.sha256ripemd160(publicKey).equals(script.getPublicKeyHash())
+      : script.getPublicKey().equals(publicKey)
+    if (!matches) {
+      return
+    }
+
+    const sigtype =
+      input.sighashType ??
+      options.sigtype ??
+      Signature.SIGHASH_ALL | Signature.SIGHASH_FORKID
+    const signingMethod = options.signingMethod ?? 'ecdsa'
+    if ((sigtype & 0x60) === Signature.SIGHASH_LOTUS) {
+      if (signingMethod !== 'schnorr') {
+        throw new PSBTError('SIGHASH_LOTUS signatures must be Schnorr')
+      }
+      this._checkLotusOutputs(sigtype)
+    }
+
+    const signature = sign(
+      signingTx,
+      privateKey,
+      sigtype,
+      index,
+      script,
+      new BN(input.utxo!.satoshis),
+      undefined,
+      signingMethod,
+    )
+    input.partialSigs.set(
+      publicKey.toString('hex'),
+      signature.toTxFormat(signingMethod),
+    )
+  }
+
+  private _signMultisig(
+    signingTx: Transaction,
+    index: number,
+    privateKey: PrivateKey,
+    options: PSBTSignOptions,
+  ): void {
+    const input = this.inputs[index]
+    const redeemScript = input.redeemScript
+    if (
+      !redeemScript ||
+      !redeemScript.isMultisigOut() ||
+      !Script.buildScriptHashOut(redeemScript).equals(input.utxo!.script)
+    ) {
+      return
+    }
+
+    const publicKey = privateKey.publicKey.toBuffer()
+    if (
+      !getMultisigPublicKeys(redeemScript).some(key => key.equals(publicKey))
+    ) {
+      return
+    }
+
+    const sigtype =
+      input.sighashType ??
+      options.sigtype ??
+      Signature.SIGHASH_ALL | Signature.SIGHASH_FORKID
+    if ((sigtype & 0x60) === Signature.SIGHASH_LOTUS) {
+      throw new PSBTError(
+        'P2SH multisig signatures must use SIGHASH_FORKID (ECDSA)',
+      )
+    }
+
+    const signature = sign(
+      signingTx,
+      privateKey,
+      sigtype,
+      index,
+      redeemScript,
+      new BN(input.utxo!.satoshis),
+      undefined,
+      'ecdsa',
+    )
+    input.partialSigs.set(
+      publicKey.toString('hex'),
+      signature.toTxFormat('ecdsa'),
+    )
+  }
+
+  private _signTaproot(
+    signingTx: Transaction,
+    index: number,
+    privateKey: PrivateKey,
+    options: PSBTSignOptions,
+  ): void {
+    const input = this.inputs[index]
+    const { script, satoshis } = input.utxo!
+
+    // Key path: the tweaked key must match the output commitment
+    const merkleRoot = input.tapMerkleRoot ?? Buffer.alloc(32)
+    const tweakedKey = tweakPrivateKey(privateKey, merkleRoot)
+    if (
+      tweakedKey.publicKey.toString() ===
+      extractTaprootCommitment(script).toString()
+    ) {
+      const sigtype =
+        input.sighashType ?? options.sigtype ?? TAPROOT_SIGHASH_TYPE
+      if ((sigtype & 0x60) !== Signature.SIGHASH_LOTUS) {
+        throw new PSBTError(
+          'Taproot key spend signatures must use SIGHASH_LOTUS',
+        )
+      }
+      this._checkLotusOutputs(sigtype)
+
+      input.tapKeySig = sign(
+        signingTx,
+        tweakedKey,
+        sigtype,
+        index,
+        script,
+        new BN(satoshis),
+        undefined,
+        'schnorr',
+      ).toTxFormat('schnorr')
+      return
+    }
+
+    // Script path: sign every leaf the key appears in
+    const publicKey = privateKey.publicKey.toBuffer()
+    for (const leaf of input.tapLeafScripts) {
+      if (!leaf.script.chunks.some(chunk => chunk.buf?.equals(publicKey))) {
+        continue
+      }
+      const sigtype =
+        input.sighashType ??
+        options.sigtype ??
+        Signature.SIGHASH_ALL | Signature.SIGHASH_FORKID
+      if ((sigtype & 0x60) === Signature.SIGHASH_LOTUS) {
+        throw new PSBTError(
+          'Taproot script path signatures must use SIGHASH_FORKID',
+        )
+      }
+
+      const signature = sign(
+        signingTx,
+        privateKey,
+        sigtype,
+        index,
+        leaf.script,
+        new BN(satoshis),
+        undefined,
+        'schnorr',
+      )
+      const leafHash = calculateTapLeaf(leaf.script, leaf.leafVersion)
+      input.tapScriptSigs.set(
+        Buffer.concat([publicKey, leafHash]).toString('hex'),
+        signature.toTxFormat('schnorr'),
+      )
+    }
+  }
+
+  private _finalizeTaproot(index: number): Script | null {
+    const input = this.inputs[index]
+
+    if (input.tapKeySig) {
+      return new Script().add(input.tapKeySig)
+    }
+
+    const participants = input.musig2Participants
+    if (
+      participants &&
+      participants.every(key => input.musig2PartialSigs.has(key.toString()))
+    ) {
+      const { aggregatedNonce, message, commitment } =
+        this._getMuSig2SigningData(index)
+      const signature = musigSigAgg(
+        participants.map(key => input.musig2PartialSigs.get(key.toString())!),
+        aggregatedNonce,
+        message,
+        commitment,
+        TAPROOT_SIGHASH_TYPE,
+      )
+      return new Script().add(signature.toTxFormat('schnorr'))
+    }
+
+    // First leaf with a signature from every key it contains. Keys are
+    // checked in script order, so signatures are pushed in reverse.
+    for (const leaf of input.tapLeafScripts) {
+      const leafHash = calculateTapLeaf(leaf.script, leaf.leafVersion)
+      const keys = leaf.script.chunks
+        .filter(chunk => chunk.buf?.length === 33)
+        .map(chunk => chunk.buf!)
+      const signatures = keys.map(key =>
+        input.tapScriptSigs.get(Buffer.concat([key, leafHash]).toString('hex')),
+      )
+      if (keys.length === 0 || signatures.some(sig => !sig)) {
+        continue
+      }
+
+      const finalScriptSig = new Script()
+      for (const signature of signatures.reverse()) {
+        finalScriptSig.add(signature!)
+      }
+      return finalScriptSig.add(leaf.script.toBuffer()).add(leaf.controlBlock)
+    }
+
+    return null
+  }
+
+  private _getParticipantIndex(index: number, publicKey: PublicKey): number {
+    const participants = this.inputs[index].musig2Participants
+    if (!participants) {
+      throw new PSBTError(`Input ${index} has no MuSig2 participants`)
+    }
+    const signerIndex = participants.findIndex(
+      key => key.toString() === publicKey.toString(),
+    )
+    if (signerIndex === -1) {
+      throw new PSBTError(
+        `${publicKey} is not a MuSig2 participant of input ${index}`,
+      )
+    }
+    return signerIndex
+  }
+
+  private _hasAllMuSig2Nonces(input: PSBTInput): boolean {
+    return (input.musig2Participants ?? []).every(key =>
+      input.musig2PubNonces.has(key.toString()),
+    )
+  }
+
+  /**
+   * Key aggregation, nonce aggregation and tweak of a MuSig2 input
+   */
+  private _getMuSig2SigningData(index: number) {
+    const input = this.inputs[index]
+    const keyAggContext = musigKeyAgg(input.musig2Participants!)
+    const merkleRoot = input.tapMerkleRoot ?? Buffer.alloc(32)
+    const tweak = calculateTapTweak(keyAggContext.aggregatedPubKey, merkleRoot)
+    const commitment = keyAggContext.aggregatedPubKey.addScalar(tweak)
+
+    if (
+      !input.utxo ||
+      commitment.toString() !==
+        extractTaprootCommitment(input.utxo.script).toString()
+    ) {
+      throw new PSBTError(
+        `MuSig2 participants of input ${index} do not match its output`,
+      )
+    }
+
+    const aggregatedNonce = musigNonceAgg(
+      input.musig2Participants!.map(
+        key => input.musig2PubNonces.get(key.toString())!,
+      ),
+    )
+    const message = this.getSighash(index, TAPROOT_SIGHASH_TYPE)
+    return { keyAggContext, aggregatedNonce, message, tweak, commitment }
+  }
+}
+
+/**
+ * Capture the PSBT metadata of a transaction input
+ */
+function toPSBTInput(input: Input): PSBTInput {
+  const psbtInput: PSBTInput = {
+    utxo: input.output,
+    partialSigs: new Map(),
+    tapScriptSigs: new Map(),
+    tapLeafScripts: [],
+    musig2PubNonces: new Map(),
+    musig2PartialSigs: new Map(),
+    unknown: new Map(),
+  }
+  const hasScript = input.scriptBuffer.length > 0
+
+  if (input instanceof MultisigScriptHashInput) {
+    psbtInput.redeemScript = input.redeemScript
+    for (const signature of input.signatures) {
+      if (signature) {
+        psbtInput.partialSigs.set(
+          signature.publicKey.toString(),
+          Buffer.concat([
+            signature.signature.toDER('ecdsa'),
+            Buffer.from([signature.sigtype]),
+          ]),
+        )
+      }
+    }
+    return psbtInput
+  }
+
+  if (input instanceof TaprootInput) {
+    psbtInput.tapInternalKey = input.internalPubKey
+    psbtInput.tapMerkleRoot = input.merkleRoot
+    if (input.tapScript && input.controlBlock) {
+      psbtInput.tapLeafScripts.push({
+        script: input.tapScript,
+        controlBlock: input.controlBlock,
+        leafVersion: input.controlBlock[0] & TAPROOT_LEAF_MASK,
+      })
+    }
+  }
+
+  if (input instanceof MuSigTaprootInput && input.keyAggContext && !hasScript) {
+    const participants = input.keyAggContext.pubkeys
+    psbtInput.musig2Participants = participants
+    psbtInput.tapInternalKey ??= input.keyAggContext.aggregatedPubKey
+    input.publicNonces?.forEach((nonce, signerIndex) =>
+      psbtInput.musig2PubNonces.set(
+        participants[signerIndex].toString(),
+        nonce,
+      ),
+    )
+    input.partialSignatures?.forEach((partialSig, signerIndex) =>
+      psbtInput.musig2PartialSigs.set(
+        participants[signerIndex].toString(),
+        partialSig,
+      ),
+    )
+  }
+
+  if (hasScript) {
+    psbtInput.finalScriptSig = new Script(input.scriptBuffer)
+  }
+  return psbtInput
+}
+
+/**
+ * Add a leaf script unless its control block is already known
+ */
+function addTapLeafScript(input: PSBTInput, leaf: PSBTTapLeafScript): void {
+  if (
+    !input.tapLeafScripts.some(known =>
+      known.controlBlock.equals(leaf.controlBlock),
+    )
+  ) {
+    input.tapLeafScripts.push(leaf)
+  }
+}
+
+/**
+ * Merge another PSBT's data for the same input
+ */
+function mergeInput(ours: PSBTInput, theirs: PSBTInput): void {
+  ours.utxo ??= theirs.utxo
+  ours.sighashType ??= theirs.sighashType
+  ours.redeemScript ??= theirs.redeemScript
+  ours.tapInternalKey ??= theirs.tapInternalKey
+  ours.tapMerkleRoot ??= theirs.tapMerkleRoot
+  ours.tapKeySig ??= theirs.tapKeySig
+  ours.musig2Participants ??= theirs.musig2Participants
+  ours.finalScriptSig ??= theirs.finalScriptSig
+  mergeMap(ours.partialSigs, theirs.partialSigs)
+  mergeMap(ours.tapScriptSigs, theirs.tapScriptSigs)
+  mergeMap(ours.musig2PubNonces, theirs.musig2PubNonces)
+  mergeMap(ours.musig2PartialSigs, theirs.musig2PartialSigs)
+  mergeMap(ours.unknown, theirs.unknown)
+  for (const leaf of theirs.tapLeafScripts) {
+    addTapLeafScript(ours, leaf)
+  }
+}
+
+function mergeMap<V>(ours: Map<string, V>, theirs: Map<string, V>): void {
+  for (const [key, value] of theirs) {
+    if (!ours.has(key)) {
+      ours.set(key, value)
+    }
+  }
+}
+
+/**
+ * Public keys of a bare multisig script, in script order
+ */
+function getMultisigPublicKeys(redeemScript: Script): Buffer[] {
+  return redeemScript.chunks.slice(1, -2).map(chunk => chunk.buf!)
+}
+
+/**
+ * Build OP_0 <sig>... <redeemScript> from the signatures in key order
+ */
+function finalizeMultisig(input: PSBTInput): Script | null {
+  const redeemScript = input.redeemScript
+  if (!redeemScript || !redeemScript.isMultisigOut()) {
+    return null
+  }
+
+  const threshold = redeemScript.chunks[0].opcodenum! - Opcode.OP_1 + 1
+  const signatures = getMultisigPublicKeys(redeemScript)
+    .map(key => input.partialSigs.get(key.toString('hex')))
+    .filter(signature => signature !== undefined)
+  if (signatures.length < threshold) {
+    return null
+  }
+
+  const script = new Script().add(Opcode.OP_0)
+  for (const signature of signatures.slice(0, threshold)) {
+    script.add(signature)
+  }
+  return script.add(redeemScript.toBuffer())
+}
+
+// ============================================================================
+// Key-value encoding
+// ============================================================================
+
+interface KeyValue {
+  key: Buffer
+  value: Buffer
+}
+
+function writeKeyValue(
+  writer: BufferWriter,
+  key: number[] | Buffer,
+  value: Buffer,
+): void {
+  writer.writeVarLengthBuffer(Buffer.from(key))
+  writer.writeVarLengthBuffer(value)
+}
+
+function writeUnknown(writer: BufferWriter, unknown: Map<string, Buffer>) {
+  for (const [key, value] of unknown) {
+    writeKeyValue(writer, Buffer.from(key, 'hex'), value)
+  }
+}
+
+/**
+ * Read key-value pairs up to the 0x00 separator
+ */
+function readMap(reader: BufferReader): KeyValue[] {
+  const pairs: KeyValue[] = []
+  const seen = new Set<string>()
+  for (;;) {
+    const key = reader.readVarLengthBuffer()
+    if (key.length === 0) {
+      return pairs
+    }
+    const keyHex = key.toString('hex')
+    if (seen.has(keyHex)) {
+      throw new PSBTError(`Duplicate PSBT key ${keyHex}`)
+    }
+    seen.add(keyHex)
+    pairs.push({ key, value: reader.readVarLengthBuffer() })
+  }
+}
+
+function writeInput(writer: BufferWriter, input: PSBTInput): void {
+  if (input.utxo) {
+    writeKeyValue(
+      writer,
+      [PSBT_IN_UTXO],
+      input.utxo.toBufferWriter().toBuffer(),
+    )
+  }
+  for (const [publicKey, signature] of input.partialSigs) {
+    writeKeyValue(
+      writer,
+      Buffer.concat([
+        Buffer.from([PSBT_IN_PARTIAL_SIG]),
+        Buffer.from(publicKey, 'hex'),
+      ]),
+      signature,
+    )
+  }
+  if (input.sighashType !== undefined) {
+    writeKeyValue(
+      writer,
+      [PSBT_IN_SIGHASH_TYPE],
+      new BufferWriter().writeUInt32LE(input.sighashType).toBuffer(),
+    )
+  }
+  if (input.redeemScript) {
+    writeKeyValue(
+      writer,
+      [PSBT_IN_REDEEM_SCRIPT],
+      input.redeemScript.toBuffer(),
+    )
+  }
+  if (input.finalScriptSig) {
+    writeKeyValue(
+      writer,
+      [PSBT_IN_FINAL_SCRIPTSIG],
+      input.finalScriptSig.toBuffer(),
+    )
+  }
+  if (input.tapKeySig) {
+    writeKeyValue(writer, [PSBT_IN_TAP_KEY_SIG], input.tapKeySig)
+  }
+  for (const [keyData, signature] of input.tapScriptSigs) {
+    writeKeyValue(
+      writer,
+      Buffer.concat([
+        Buffer.from([PSBT_IN_TAP_SCRIPT_SIG]),
+        Buffer.from(keyData, 'hex'),
+      ]),
+      signature,
+    )
+  }
+  for (const leaf of input.tapLeafScripts) {
+    writeKeyValue(
+      writer,
+      Buffer.concat([
+        Buffer.from([PSBT_IN_TAP_LEAF_SCRIPT]),
+        leaf.controlBlock,
+      ]),
+      Buffer.concat([leaf.script.toBuffer(), Buffer.from([leaf.leafVersion])]),
+    )
+  }
+  if (input.tapInternalKey) {
+    writeKeyValue(
+      writer,
+      [PSBT_IN_TAP_INTERNAL_KEY],
+      input.tapInternalKey.toBuffer(),
+    )
+  }
+  if (input.tapMerkleRoot) {
+    writeKeyValue(writer, [PSBT_IN_TAP_MERKLE_ROOT], input.tapMerkleRoot)
+  }
+
+  if (input.musig2Participants) {
+    const aggregateKey = musigKeyAgg(
+      input.musig2Participants,
+    ).aggregatedPubKey.toBuffer()
+    writeKeyValue(
+      writer,
+      Buffer.concat([
+        Buffer.from([PSBT_IN_MUSIG2_PARTICIPANT_PUBKEYS]),
+        aggregateKey,
+      ]),
+      Buffer.concat(input.musig2Participants.map(key => key.toBuffer())),
+    )
+    for (const [publicKey, [R1, R2]] of input.musig2PubNonces) {
+      writeKeyValue(
+        writer,
+        Buffer.concat([
+          Buffer.from([PSBT_IN_MUSIG2_PUB_NONCE]),
+          Buffer.from(publicKey, 'hex'),
+          aggregateKey,
+        ]),
+        Buffer.concat([
+          Point.pointToCompressed(R1),
+          Point.pointToCompressed(R2),
+        ]),
+      )
+    }
+    for (const [publicKey, partialSig] of input.musig2PartialSigs) {
+      writeKeyValue(
+        writer,
+        Buffer.concat([
+          Buffer.from([PSBT_IN_MUSIG2_PARTIAL_SIG]),
+          Buffer.from(publicKey, 'hex'),
+          aggregateKey,
+        ]),
+        partialSig.toBuffer({ size: 32 }),
+      )
+    }
+  }
+
+  writeUnknown(writer, input.unknown)
+}
+
+function readInput(reader: BufferReader): PSBTInput {
+  const input: PSBTInput = {
+    partialSigs: new Map(),
+    tapScriptSigs: new Map(),
+    tapLeafScripts: [],
+    musig2PubNonces: new Map(),
+    musig2PartialSigs: new Map(),
+    unknown: new Map(),
+  }
+
+  for (const { key, value } of readMap(reader)) {
+    const keyData = key.subarray(1)
+    switch (key[0]) {
+      case PSBT_IN_UTXO:
+        input.utxo = Output.fromBufferReader(new BufferReader(value))
+        break
+      case PSBT_IN_PARTIAL_SIG:
+        input.partialSigs.set(PublicKey.fromBuffer(keyData).toString(), value)
+        break
+      case PSBT_IN_SIGHASH_TYPE:
+        input.sighashType = value.readUInt32LE(0)
+        break
+      case PSBT_IN_REDEEM_SCRIPT:
+        input.redeemScript = Script.fromBuffer(value)
+        break
+      case PSBT_IN_FINAL_SCRIPTSIG:
+        input.finalScriptSig = Script.fromBuffer(value)
+        break
+      case PSBT_IN_TAP_KEY_SIG:
+        input.tapKeySig = value
+        break
+      case PSBT_IN_TAP_SCRIPT_SIG:
+        input.tapScriptSigs.set(keyData.toString('hex'), value)
+        break
+      case PSBT_IN_TAP_LEAF_SCRIPT:
+        input.tapLeafScripts.push({
+          script: Script.fromBuffer(value.subarray(0, -1)),
+          controlBlock: keyData,
+          leafVersion: value[value.length - 1],
+        })
+        break
+      case PSBT_IN_TAP_INTERNAL_KEY:
+        input.tapInternalKey = PublicKey.fromBuffer(value)
+        break
+      case PSBT_IN_TAP_MERKLE_ROOT:
+        input.tapMerkleRoot = value
+        break
+      case PSBT_IN_MUSIG2_PARTICIPANT_PUBKEYS: {
+        if (value.length === 0 || value.length % 33 !== 0) {
+          throw new PSBTError('Invalid MuSig2 participant public keys')
+        }
+        const participants: PublicKey[] = []
+        for (let i = 0; i < value.length; i += 33) {
+          participants.push(PublicKey.fromBuffer(value.subarray(i, i + 33)))
+        }
+        // Signer indexes refer to the sorted order, as in updateInput()
+        input.musig2Participants = musigKeyAgg(participants).pubkeys
+        break
+      }
+      case PSBT_IN_MUSIG2_PUB_NONCE:
+        input.musig2PubNonces.set(keyData.subarray(0, 33).toString('hex'), [
+          PublicKey.fromBuffer(value.subarray(0, 33)).point,
+          PublicKey.fromBuffer(value.subarray(33, 66)).point,
+        ])
+        break
+      case PSBT_IN_MUSIG2_PARTIAL_SIG:
+        input.musig2PartialSigs.set(
+          keyData.subarray(0, 33).toString('hex'),
+          new BN(value),
+        )
+        break
+      default:
+        input.unknown.set(key.toString('hex'), value)
+    }
+  }
+  return input
+}
+
+function readOutput(reader: BufferReader): PSBTOutput {
+  const output: PSBTOutput = { unknown: new Map() }
+  for (const { key, value } of readMap(reader)) {
+    switch (key[0]) {
+      case PSBT_OUT_REDEEM_SCRIPT:
+        output.redeemScript = Script.fromBuffer(value)
+        break
+      case PSBT_OUT_TAP_INTERNAL_KEY:
+        output.tapInternalKey = PublicKey.fromBuffer(value)
+        break
+      default:
+        output.unknown.set(key.toString('hex'), value)
+    }
+  }
+  return output
+}
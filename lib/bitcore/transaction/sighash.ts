@@ -35,6 +35,71 @@ export interface TransactionLike {
   nLockTime?: number
 }
 
+/**
+ * A labeled field of a signature hash preimage
+ */
+export interface SighashField {
+  /** Field name, following lotusd */
+  name: string
+
+  /** Bytes written to the preimage, hex */
+  hex: string
+
+  /** Value of integer fields */
+  value?: number
+
+  /**
+   * Serialized items a hash field commits to, hex. A single item for plain
+   * hashes, one per leaf for merkle roots
+   */
+  committed?: string[]
+}
+
+/**
+ * Breakdown of a signature hash
+ */
+export interface SighashExplanation {
+  algorithm: 'lotus' | 'forkid' | 'legacy'
+
+  sighashType: number
+
+  /** Sighash type flags, e.g. ALL|FORKID|ANYONECANPAY */
+  sighashTypeName: string
+
+  /** Preimage fields, in order */
+  fields: SighashField[]
+
+  /** The concatenated fields, hex */
+  preimage: string
+
+  /** The digest that is signed, hex, as returned by sighash() */
+  sighash: string
+}
+
+export interface SighashExplainOptions {
+  /**
+   * Script being signed, for SIGHASH_FORKID and legacy signatures
+   * (default: the script of the spent output)
+   */
+  subscript?: Script
+
+  /** Hash of the executed tapscript, for SIGHASH_LOTUS script path spends */
+  executedScriptHash?: Buffer
+
+  /** Position of the last executed OP_CODESEPARATOR (default: 0xffffffff) */
+  codeseparatorPos?: number
+}
+
+/**
+ * Preimage field with its raw bytes
+ */
+interface PreimageField {
+  name: string
+  bytes: Buffer
+  value?: number
+  committed?: Buffer[]
+}
+
 const SIGHASH_SINGLE_BUG_CONST =
   '0000000000000000000000000000000000000000000000000000000000000001'
 const BITS_64_ON_CONST = 'ffffffffffffffff'
@@ -57,6 +122,29 @@ function GetForkId(): number {
   return 0 // In the UAHF, a fork id of 0 is used (see [4] REQ-6-2 NOTE 4)
 }
 
+/**
+ * Little-endian 32-bit integer preimage field
+ */
+function uint32Field(name: string, value: number): PreimageField {
+  return {
+    name,
+    bytes: new BufferWriter().writeUInt32LE(value).toBuffer(),
+    value,
+  }
+}
+
+/**
+ * Little-endian 64-bit amount preimage field
+ */
+function uint64Field(name: string, value: number | BN): PreimageField {
+  const bn = value instanceof BN ? value : new BN(value)
+  return {
+    name,
+    bytes: new BufferWriter().writeUInt64LEBN(bn).toBuffer(),
+    value: bn.toNumber(),
+  }
+}
+
 /**
  * Calculate merkle root and height from an array of hashes
  *
@@ -144,6 +232,32 @@ function sighashForLotus(
   executedScriptHash?: Buffer,
   codeseparatorPos: number = 0xffffffff,
 ): Buffer {
+  const fields = lotusPreimageFields(
+    transaction,
+    sighashType,
+    inputNumber,
+    spentOutputs,
+    executedScriptHash,
+    codeseparatorPos,
+  )
+  // Final hash -- DO NOT REVERSE BYTES
+  return Hash.sha256sha256(Buffer.concat(fields.map(field => field.bytes)))
+}
+
+/**
+ * Build the labeled fields of the SIGHASH_LOTUS preimage
+ *
+ * Parameters as for sighashForLotus(). Hash and merkle root fields keep
+ * the serialized items they commit to.
+ */
+function lotusPreimageFields(
+  transaction: TransactionLike,
+  sighashType: number,
+  inputNumber: number,
+  spentOutputs: Output[],
+  executedScriptHash?: Buffer,
+  codeseparatorPos: number = 0xffffffff,
+): PreimageField[] {
   Preconditions.checkArgument(
     spentOutputs.length === transaction.inputs.length,
     'Must provide spent output for each input',
@@ -162,10 +276,10 @@ function sighashForLotus(
   }
 
   const input = transaction.inputs[inputNumber]
-  const writer = new BufferWriter()
+  const fields: PreimageField[] = []
 
   // 1. Hash type (4 bytes, little-endian)
-  writer.writeUInt32LE(sighashType >>> 0)
+  fields.push(uint32Field('hashType', sighashType >>> 0))
 
   // 2. Hash of (spend_type, prevout, nSequence, spent_output)
   const spendType = executedScriptHash ? 2 : 0
@@ -181,12 +295,14 @@ function sighashForLotus(
   inputHashWriter.writeUInt32LE(input.sequenceNumber)
 
   // Spent output (value + script)
-  const spentOutput = spentOutputs[inputNumber]
-  inputHashWriter.writeUInt64LEBN(new BN(spentOutput.satoshis))
-  inputHashWriter.writeVarLengthBuffer(spentOutput.scriptBuffer)
+  inputHashWriter.write(serializeSpentOutput(spentOutputs[inputNumber]))
 
-  const inputHash = Hash.sha256sha256(inputHashWriter.toBuffer())
-  writer.write(inputHash)
+  const inputData = inputHashWriter.toBuffer()
+  fields.push({
+    name: 'inputHash',
+    bytes: Hash.sha256sha256(inputData),
+    committed: [inputData],
+  })
 
   // 3. If execdata exists: codeseparator_pos and executed_script_hash
   if (executedScriptHash) {
@@ -194,30 +310,31 @@ function sighashForLotus(
       executedScriptHash.length === 32,
       'executed_script_hash must be 32 bytes',
     )
-    writer.writeUInt32LE(codeseparatorPos)
-    writer.write(executedScriptHash)
+    fields.push(uint32Field('codeseparatorPos', codeseparatorPos))
+    fields.push({ name: 'executedScriptHash', bytes: executedScriptHash })
   }
 
   // 4. If not ANYONECANPAY: input_index, inputs_spent_outputs_merkle_root, total_input_amount
   if (!(sighashType & Signature.SIGHASH_ANYONECANPAY)) {
-    writer.writeUInt32LE(inputNumber)
+    fields.push(uint32Field('inputIndex', inputNumber))
 
     // Calculate merkle root of all spent outputs
-    const spentOutputHashes = spentOutputs.map(output => {
-      const w = new BufferWriter()
-      w.writeUInt64LEBN(new BN(output.satoshis))
-      w.writeVarLengthBuffer(output.scriptBuffer)
-      return Hash.sha256sha256(w.toBuffer())
+    const spentOutputsData = spentOutputs.map(serializeSpentOutput)
+    const spentOutputsMerkle = getMerkleRoot(
+      spentOutputsData.map(data => Hash.sha256sha256(data)),
+    )
+    fields.push({
+      name: 'spentOutputsMerkleRoot',
+      bytes: spentOutputsMerkle.root,
+      committed: spentOutputsData,
     })
-    const spentOutputsMerkle = getMerkleRoot(spentOutputHashes)
-    writer.write(spentOutputsMerkle.root)
 
     // Total input amount (in satoshis, 8 bytes little-endian)
     const totalInputAmount = spentOutputs.reduce(
       (sum, output) => sum + output.satoshis,
       0,
     )
-    writer.writeUInt64LEBN(new BN(totalInputAmount))
+    fields.push(uint64Field('totalInputAmount', totalInputAmount))
   }
 
   // 5. If ALL: total_output_amount (8 bytes little-endian)
@@ -226,25 +343,35 @@ function sighashForLotus(
       (sum, output) => sum + output.satoshis,
       0,
     )
-    writer.writeUInt64LEBN(new BN(totalOutputAmount))
+    fields.push(uint64Field('totalOutputAmount', totalOutputAmount))
   }
 
   // 6. Version
-  writer.writeUInt32LE(transaction.version || 2)
+  fields.push(uint32Field('version', transaction.version || 2))
 
   // 7. If not ANYONECANPAY: inputs_merkle_root and inputs_merkle_height
   if (!(sighashType & Signature.SIGHASH_ANYONECANPAY)) {
     // Calculate merkle root of inputs (prevout + nSequence)
-    const inputHashes = transaction.inputs.map(inp => {
+    const inputsData = transaction.inputs.map(inp => {
       const w = new BufferWriter()
       w.writeReverse(inp.prevTxId)
       w.writeUInt32LE(inp.outputIndex)
       w.writeUInt32LE(inp.sequenceNumber)
-      return Hash.sha256sha256(w.toBuffer())
+      return w.toBuffer()
+    })
+    const inputsMerkle = getMerkleRoot(
+      inputsData.map(data => Hash.sha256sha256(data)),
+    )
+    fields.push({
+      name: 'inputsMerkleRoot',
+      bytes: inputsMerkle.root,
+      committed: inputsData,
+    })
+    fields.push({
+      name: 'inputsMerkleHeight',
+      bytes: Buffer.from([inputsMerkle.height]),
+      value: inputsMerkle.height,
     })
-    const inputsMerkle = getMerkleRoot(inputHashes)
-    writer.write(inputsMerkle.root)
-    writer.writeUInt8(inputsMerkle.height)
   }
 
   // 8. If SINGLE: hash of output at input_index
@@ -254,27 +381,50 @@ function sighashForLotus(
     }
     const w = new BufferWriter()
     transaction.outputs[inputNumber].toBufferWriter(w)
-    const outputHash = Hash.sha256sha256(w.toBuffer())
-    writer.write(outputHash)
+    const outputData = w.toBuffer()
+    fields.push({
+      name: 'outputHash',
+      bytes: Hash.sha256sha256(outputData),
+      committed: [outputData],
+    })
   }
 
   // 9. If ALL: outputs_merkle_root and outputs_merkle_height
   if (baseType === Signature.SIGHASH_ALL) {
-    const outputHashes = transaction.outputs.map(output => {
+    const outputsData = transaction.outputs.map(output => {
       const w = new BufferWriter()
       output.toBufferWriter(w)
-      return Hash.sha256sha256(w.toBuffer())
+      return w.toBuffer()
+    })
+    const outputsMerkle = getMerkleRoot(
+      outputsData.map(data => Hash.sha256sha256(data)),
+    )
+    fields.push({
+      name: 'outputsMerkleRoot',
+      bytes: outputsMerkle.root,
+      committed: outputsData,
+    })
+    fields.push({
+      name: 'outputsMerkleHeight',
+      bytes: Buffer.from([outputsMerkle.height]),
+      value: outputsMerkle.height,
     })
-    const outputsMerkle = getMerkleRoot(outputHashes)
-    writer.write(outputsMerkle.root)
-    writer.writeUInt8(outputsMerkle.height)
   }
 
   // 10. Locktime
-  writer.writeUInt32LE(transaction.nLockTime || 0)
+  fields.push(uint32Field('nLockTime', transaction.nLockTime || 0))
 
-  // Final hash -- DO NOT REVERSE BYTES
-  return Hash.sha256sha256(writer.toBuffer())
+  return fields
+}
+
+/**
+ * Serialize a spent output (value + script) as committed by SIGHASH_LOTUS
+ */
+function serializeSpentOutput(output: Output): Buffer {
+  const w = new BufferWriter()
+  w.writeUInt64LEBN(new BN(output.satoshis))
+  w.writeVarLengthBuffer(output.scriptBuffer)
+  return w.toBuffer()
 }
 
 /**
@@ -287,18 +437,86 @@ function sighashForForkId(
   subscript: Script,
   satoshisBN: BN,
 ): Buffer {
+  const buf = sighashPreimage(
+    transaction,
+    sighashType,
+    inputNumber,
+    subscript,
+    satoshisBN,
+  )
+  const hash = Hash.sha256sha256(buf)
+  // DO NOT read these bytes in reverse
+  // This will order the bytes in little-endian, but this must be big-endian
+  return new BufferReader(hash).read(32)
+}
+
+/**
+ * Build the BIP143 preimage hashed by SIGHASH_FORKID signatures
+ *
+ * The sighash is the double SHA256 of the preimage. Covenant scripts verify
+ * a preimage pushed by the spender with OP_CHECKDATASIG and then inspect it,
+ * e.g. the hash of the outputs committed to in its last 40 bytes.
+ *
+ * @param transaction - The transaction being signed
+ * @param sighashType - Sighash type (SIGHASH_FORKID algorithm)
+ * @param inputNumber - Index of the input being signed
+ * @param subscript - The script being executed/signed
+ * @param satoshisBN - Value of the output being spent
+ * @returns Signature preimage
+ */
+function sighashPreimage(
+  transaction: TransactionLike,
+  sighashType: number,
+  inputNumber: number,
+  subscript: Script,
+  satoshisBN: BN,
+): Buffer {
+  return Buffer.concat(
+    forkIdPreimageFields(
+      transaction,
+      sighashType,
+      inputNumber,
+      subscript,
+      satoshisBN,
+    ).map(field => field.bytes),
+  )
+}
+
+/**
+ * Build the labeled fields of the BIP143 preimage
+ *
+ * Parameters as for sighashPreimage(). Hash fields keep the serialized data
+ * they commit to, and are zero when the sighash type omits them.
+ */
+function forkIdPreimageFields(
+  transaction: TransactionLike,
+  sighashType: number,
+  inputNumber: number,
+  subscript: Script,
+  satoshisBN: BN,
+): PreimageField[] {
   const input = transaction.inputs[inputNumber]
   Preconditions.checkArgument(
     satoshisBN instanceof BN,
     'For ForkId=0 signatures, satoshis or complete input must be provided',
   )
 
-  let hashPrevouts = BufferUtil.emptyBuffer(32)
-  let hashSequence = BufferUtil.emptyBuffer(32)
-  let hashOutputs = BufferUtil.emptyBuffer(32)
+  const zeroHash = (name: string): PreimageField => ({
+    name,
+    bytes: BufferUtil.emptyBuffer(32),
+  })
+  const hashField = (name: string, data: Buffer): PreimageField => ({
+    name,
+    bytes: Hash.sha256sha256(data),
+    committed: [data],
+  })
+
+  let hashPrevouts = zeroHash('hashPrevouts')
+  let hashSequence = zeroHash('hashSequence')
+  let hashOutputs = zeroHash('hashOutputs')
 
   if (!(sighashType & Signature.SIGHASH_ANYONECANPAY)) {
-    hashPrevouts = GetPrevoutHash(transaction)
+    hashPrevouts = hashField('hashPrevouts', GetPrevoutData(transaction))
   }
 
   if (
@@ -306,52 +524,56 @@ function sighashForForkId(
     (sighashType & 31) !== Signature.SIGHASH_SINGLE &&
     (sighashType & 31) !== Signature.SIGHASH_NONE
   ) {
-    hashSequence = GetSequenceHash(transaction)
+    hashSequence = hashField('hashSequence', GetSequenceData(transaction))
   }
 
   if (
     (sighashType & 31) !== Signature.SIGHASH_SINGLE &&
     (sighashType & 31) !== Signature.SIGHASH_NONE
   ) {
-    hashOutputs = GetOutputsHash(transaction)
+    hashOutputs = hashField('hashOutputs', GetOutputsData(transaction))
   } else if (
     (sighashType & 31) === Signature.SIGHASH_SINGLE &&
     inputNumber < transaction.outputs.length
   ) {
-    hashOutputs = GetOutputsHash(transaction, inputNumber)
+    hashOutputs = hashField(
+      'hashOutputs',
+      GetOutputsData(transaction, inputNumber),
+    )
   }
 
-  const writer = new BufferWriter()
-
-  // Version
-  writer.writeUInt32LE(transaction.version || 2)
+  const outpoint = new BufferWriter()
+    .writeReverse(input.prevTxId)
+    .writeUInt32LE(input.outputIndex)
+    .toBuffer()
+  const scriptCode = new BufferWriter()
+    .writeVarintNum(subscript.toBuffer().length)
+    .write(subscript.toBuffer())
+    .toBuffer()
 
-  // Input prevouts/nSequence (none/all, depending on flags)
-  writer.write(hashPrevouts)
-  writer.write(hashSequence)
+  return [
+    // Version
+    uint32Field('version', transaction.version || 2),
 
-  // The input being signed (replacing the scriptSig with scriptCode + amount)
-  writer.writeReverse(input.prevTxId)
-  writer.writeUInt32LE(input.outputIndex)
-  writer.writeVarintNum(subscript.toBuffer().length)
-  writer.write(subscript.toBuffer())
-  writer.writeUInt64LEBN(satoshisBN)
-  writer.writeUInt32LENumber(input.sequenceNumber)
+    // Input prevouts/nSequence (none/all, depending on flags)
+    hashPrevouts,
+    hashSequence,
 
-  // Outputs (none/one/all, depending on flags)
-  writer.write(hashOutputs)
+    // The input being signed (replacing the scriptSig with scriptCode + amount)
+    { name: 'outpoint', bytes: outpoint },
+    { name: 'scriptCode', bytes: scriptCode },
+    uint64Field('amount', satoshisBN),
+    uint32Field('nSequence', input.sequenceNumber),
 
-  // Locktime
-  writer.writeUInt32LE(transaction.nLockTime || 0)
+    // Outputs (none/one/all, depending on flags)
+    hashOutputs,
 
-  // Sighash type
-  writer.writeUInt32LE(sighashType >>> 0)
+    // Locktime
+    uint32Field('nLockTime', transaction.nLockTime || 0),
 
-  const buf = writer.toBuffer()
-  const hash = Hash.sha256sha256(buf)
-  // DO NOT read these bytes in reverse
-  // This will order the bytes in little-endian, but this must be big-endian
-  return new BufferReader(hash).read(32)
+    // Sighash type
+    uint32Field('hashType', sighashType >>> 0),
+  ]
 }
 
 /**
@@ -500,6 +722,32 @@ function sighash(
     )
   }
 
+  const buf = legacyPreimage(txcopy, sighashType, inputNumber, subscript)
+  if (!buf) {
+    return Buffer.from(SIGHASH_SINGLE_BUG_CONST, 'hex')
+  }
+
+  const hash = Hash.sha256sha256(buf)
+  // Reverse the hash bytes here because Bitcoin sighash and signature logic expect little-endian order.
+  // This is a legacy convention from Satoshi's original implementation, where hashes are often displayed
+  // in big-endian for humans but processed in little-endian for signing and validation.
+  return new BufferReader(hash).readReverse(32)
+}
+
+/**
+ * Build the legacy preimage: a copy of the transaction with the signed
+ * input's script replaced by the subscript, trimmed by the sighash type,
+ * followed by the sighash type
+ *
+ * @param txcopy - Copy of the transaction, modified in place
+ * @returns The preimage, or undefined for the SIGHASH_SINGLE bug
+ */
+function legacyPreimage(
+  txcopy: Transaction,
+  sighashType: number,
+  inputNumber: number,
+  subscript: Script,
+): Buffer | undefined {
   // For no ForkId sighash, separators need to be removed.
   subscript.removeCodeseparators()
 
@@ -540,7 +788,7 @@ function sighash(
     // The SIGHASH_SINGLE bug.
     // https://bitcointalk.org/index.php?topic=260595.0
     if (inputNumber >= txcopy.outputs.length) {
-      return Buffer.from(SIGHASH_SINGLE_BUG_CONST, 'hex')
+      return undefined
     }
 
     // Truncate outputs to inputNumber + 1
@@ -561,16 +809,10 @@ function sighash(
   }
 
   // Serialize the transaction
-  const buf = new BufferWriter()
+  return new BufferWriter()
     .write(txcopy.toBuffer())
     .writeInt32LE(sighashType >>> 0)
     .toBuffer()
-
-  const hash = Hash.sha256sha256(buf)
-  // Reverse the hash bytes here because Bitcoin sighash and signature logic expect little-endian order.
-  // This is a legacy convention from Satoshi's original implementation, where hashes are often displayed
-  // in big-endian for humans but processed in little-endian for signing and validation.
-  return new BufferReader(hash).readReverse(32)
 }
 
 /**
@@ -690,11 +932,143 @@ function verify(
 }
 
 /**
- * Computes the double SHA256 hash of the prevouts (txid + index) of all inputs in the transaction.
+ * Explain a signature hash field by field
+ *
+ * Rebuilds the preimage that sighash() hashes for the given input and
+ * sighash type, labeling every field with its bytes and, for hashes and
+ * merkle roots, the data they commit to. The algorithm follows the sighash
+ * type: SIGHASH_LOTUS, SIGHASH_FORKID (BIP143) or legacy. SIGHASH_FORKID is
+ * assumed to be enabled, as with DEFAULT_SIGN_FLAGS.
+ *
+ * @param transaction - The transaction being signed
+ * @param inputIndex - Index of the input being signed
+ * @param sighashType - Signature hash type flags
+ * @param spentOutputs - Outputs spent by every input (default: the outputs
+ * attached to the transaction inputs)
+ * @param options - Subscript and tapscript execution data
+ * @returns The preimage fields, the preimage and the signature hash
+ */
+function explainSighash(
+  transaction: TransactionLike,
+  inputIndex: number,
+  sighashType: number,
+  spentOutputs: Output[] | undefined = transaction.spentOutputs,
+  options: SighashExplainOptions = {},
+): SighashExplanation {
+  Preconditions.checkArgument(
+    inputIndex >= 0 && inputIndex < transaction.inputs.length,
+    'Input index out of range',
+  )
+  const spentOutput = spentOutputs?.[inputIndex]
+  const subscript = options.subscript ?? spentOutput?.script
+  const algorithmBits = sighashType & SIGHASH_ALGORITHM_MASK
+
+  let algorithm: SighashExplanation['algorithm']
+  let fields: PreimageField[]
+  let digest: Buffer
+  if (algorithmBits === Signature.SIGHASH_LOTUS) {
+    Preconditions.checkArgument(
+      spentOutputs !== undefined,
+      'SIGHASH_LOTUS requires spent outputs for all inputs',
+    )
+    algorithm = 'lotus'
+    fields = lotusPreimageFields(
+      transaction,
+      sighashType,
+      inputIndex,
+      spentOutputs!,
+      options.executedScriptHash,
+      options.codeseparatorPos,
+    )
+    digest = Hash.sha256sha256(Buffer.concat(fields.map(field => field.bytes)))
+  } else {
+    Preconditions.checkArgument(
+      subscript !== undefined && spentOutput !== undefined,
+      'Spent output of the input is required',
+    )
+    if (algorithmBits === Signature.SIGHASH_FORKID) {
+      algorithm = 'forkid'
+      fields = forkIdPreimageFields(
+        transaction,
+        sighashType,
+        inputIndex,
+        subscript!,
+        new BN(spentOutput!.satoshis),
+      )
+    } else {
+      algorithm = 'legacy'
+      const preimage = legacyPreimage(
+        Transaction.shallowCopy(transaction as Transaction),
+        sighashType,
+        inputIndex,
+        new Script(subscript!),
+      )
+      fields = preimage
+        ? [
+            {
+              name: 'transaction',
+              bytes: preimage.subarray(0, preimage.length - 4),
+            },
+            {
+              name: 'hashType',
+              bytes: preimage.subarray(preimage.length - 4),
+              value: sighashType >>> 0,
+            },
+          ]
+        : []
+    }
+    digest = sighash(
+      transaction,
+      sighashType,
+      inputIndex,
+      subscript!,
+      new BN(spentOutput!.satoshis),
+    )
+  }
+
+  return {
+    algorithm,
+    sighashType,
+    sighashTypeName: sighashTypeName(sighashType),
+    fields: fields.map(field => ({
+      name: field.name,
+      hex: field.bytes.toString('hex'),
+      value: field.value,
+      committed: field.committed?.map(data => data.toString('hex')),
+    })),
+    preimage: Buffer.concat(fields.map(field => field.bytes)).toString('hex'),
+    sighash: digest.toString('hex'),
+  }
+}
+
+/**
+ * Name the flags of a sighash type, e.g. ALL|LOTUS|ANYONECANPAY
+ */
+function sighashTypeName(sighashType: number): string {
+  const baseTypes = ['', 'ALL', 'NONE', 'SINGLE']
+  const names = [
+    baseTypes[sighashType & 0x03] ||
+      `0x${(sighashType & 0x1f).toString(16).padStart(2, '0')}`,
+  ]
+  const algorithmBits = sighashType & SIGHASH_ALGORITHM_MASK
+  if (algorithmBits === Signature.SIGHASH_LOTUS) {
+    names.push('LOTUS')
+  } else if (algorithmBits === Signature.SIGHASH_FORKID) {
+    names.push('FORKID')
+  }
+  if (sighashType & Signature.SIGHASH_ANYONECANPAY) {
+    names.push('ANYONECANPAY')
+  }
+  return names.join('|')
+}
+
+/**
+ * Serializes the prevouts (txid + index) of all inputs in the transaction,
+ * as committed to by hashPrevouts.
  * @param tx - The transaction-like object.
- * @returns Buffer - The double SHA256 hash of all input prevouts.
+ * @returns Buffer - The concatenated input prevouts.
  */
-function GetPrevoutHash(tx: TransactionLike): Buffer {
+function GetPrevoutData(tx: TransactionLike): Buffer {
   const writer = new BufferWriter()
 
   for (const input of tx.inputs) {
@@ -702,34 +1076,33 @@ function GetPrevoutHash(tx: TransactionLike): Buffer {
     writer.writeUInt32LE(input.outputIndex)
   }
 
-  const buf = writer.toBuffer()
-  return Hash.sha256sha256(buf)
+  return writer.toBuffer()
 }
 
 /**
- * Computes the double SHA256 hash of the sequence numbers of all inputs in the transaction.
+ * Serializes the sequence numbers of all inputs in the transaction, as
+ * committed to by hashSequence.
  * @param tx - The transaction-like object.
- * @returns Buffer - The double SHA256 hash of all input sequence numbers.
+ * @returns Buffer - The concatenated input sequence numbers.
  */
-function GetSequenceHash(tx: TransactionLike): Buffer {
+function GetSequenceData(tx: TransactionLike): Buffer {
   const writer = new BufferWriter()
 
   for (const input of tx.inputs) {
     writer.writeUInt32LENumber(input.sequenceNumber)
   }
 
-  const buf = writer.toBuffer()
-  return Hash.sha256sha256(buf)
+  return writer.toBuffer()
 }
 
 /**
- * Computes the double SHA256 hash of the serialized outputs in the transaction.
- * If n is provided, only that output is hashed.
+ * Serializes the outputs in the transaction, as committed to by hashOutputs.
+ * If n is provided, only that output is serialized.
  * @param tx - The transaction-like object.
- * @param n - Optional output index to hash a single output.
- * @returns Buffer - The double SHA256 hash of outputs.
+ * @param n - Optional output index to serialize a single output.
+ * @returns Buffer - The serialized outputs.
  */
-function GetOutputsHash(tx: TransactionLike, n?: number): Buffer {
+function GetOutputsData(tx: TransactionLike, n?: number): Buffer {
   const writer = new BufferWriter()
 
   if (n === undefined) {
@@ -740,8 +1113,7 @@ function GetOutputsHash(tx: TransactionLike, n?: number): Buffer {
     tx.outputs[n].toBufferWriter(writer)
   }
 
-  const buf = writer.toBuffer()
-  return Hash.sha256sha256(buf)
+  return writer.toBuffer()
 }
 
 /**
@@ -758,4 +1130,4 @@ export const BITS_64_ON = BITS_64_ON_CONST
 /**
  * @namespace Signing
  */
-export { sighash, sign, verify }
+export { sighash, sighashPreimage, explainSighash, sign, verify }
@@ -41,6 +41,12 @@ import { TransactionSignature } from './signature.js'
 import type { Point } from '../crypto/point.js'
 import { sighash as computeSighash } from './sighash.js'
 import { Interpreter } from '../script/interpreter.js'
+import {
+  selectCoins,
+  type CoinSelectionCandidate,
+  type CoinSelectionOptions,
+  type CoinSelectionResult,
+} from './coinselection.js'
 
 export interface TransactionData {
   version?: number
@@ -66,6 +72,35 @@ export interface TransactionObject {
   fee?: number
 }
 
+/**
+ * Script verification result of a single input
+ */
+export interface TransactionInputScriptVerification {
+  /** Input index */
+  index: number
+
+  valid: boolean
+
+  /** Interpreter error (SCRIPT_ERR_*) or reason the input was not checked */
+  error?: string
+
+  /** Signature checks performed by the input */
+  sigChecks: number
+}
+
+/**
+ * Script verification result of a transaction
+ */
+export interface TransactionScriptVerification {
+  /** True when every input is valid */
+  valid: boolean
+
+  inputs: TransactionInputScriptVerification[]
+
+  /** Signature checks performed by all inputs */
+  sigChecks: number
+}
+
 // Constants
 const CURRENT_VERSION = 2
 const DEFAULT_NLOCKTIME = 0
@@ -355,7 +390,7 @@ export class Transaction {
       const output = this.outputs[i]
       // The output hash is calculated by hashing the output data
       const writer = new BufferWriter()
-      writer.writeUInt64LEBN(new BN(output.satoshis))
+      writer.writeUInt64LEBN(output.satoshisBN)
       writer.writeVarLengthBuffer(output.scriptBuffer)
       const hash = Hash.sha256sha256(writer.toBuffer())
       hashes.push(hash)
@@ -591,7 +626,7 @@ export class Transaction {
     }
     writer.writeVarintNum(this.outputs.length)
     for (const output of this.outputs) {
-      writer.writeUInt64LEBN(new BN(output.satoshis))
+      writer.writeUInt64LEBN(output.satoshisBN)
       writer.writeVarLengthBuffer(output.scriptBuffer)
     }
     writer.writeUInt32LE(this.nLockTime)
@@ -831,6 +866,55 @@ export class Transaction {
     return this
   }
 
+  /**
+   * Select inputs from a UTXO pool to fund the current outputs
+   *
+   * Adds the selected UTXOs with from(), fixes the fee to the selection's
+   * estimate and, if changeAddress is given, adds change. Add all outputs
+   * before calling this.
+   *
+   * @param utxos - UTXO pool
+   * @param options - Coin selection options and change address
+   * @returns The coin selection result
+   * @throws CoinSelectionError if the pool cannot fund the outputs
+   */
+  selectInputs<T extends CoinSelectionCandidate>(
+    utxos: T[],
+    options: Omit<CoinSelectionOptions, 'changeScript'> & {
+      changeAddress?: Address | string
+    } = {},
+  ): CoinSelectionResult<T> {
+    Preconditions.checkState(
+      this.inputs.length === 0,
+      'selectInputs() requires a transaction without inputs',
+    )
+    const { changeAddress, ...selectOptions } = options
+    const result = selectCoins(utxos, this.outputs, {
+      ...selectOptions,
+      changeScript: changeAddress,
+    })
+
+    for (const utxo of result.selected) {
+      if (utxo instanceof Input) {
+        this.addInput(utxo)
+        continue
+      }
+      const script = new UnspentOutput(utxo).script
+      const isMultisig = script.isMultisigOut() || script.isPayToScriptHash()
+      this.from(
+        utxo,
+        isMultisig ? options.pubkeys : undefined,
+        isMultisig ? options.threshold : undefined,
+      )
+    }
+
+    this.fee(result.fee)
+    if (changeAddress) {
+      this.change(changeAddress)
+    }
+    return result
+  }
+
   /**
    * Set change address
    */
@@ -1520,76 +1604,99 @@ export class Transaction {
   }
 
   /**
-   * Verify all input scripts using the Interpreter
-   * This validates that each scriptSig properly satisfies its corresponding scriptPubkey
+   * Verify every input script against the output it spends
+   *
+   * Each input is checked with the Interpreter against its attached
+   * output. Inputs without an attached output or script are reported as
+   * invalid rather than throwing, so one call gives the status of every
+   * input. Coinbase transactions have no input scripts to verify.
    *
-   * @param flags - Script verification flags (optional, defaults to standard Lotus flags)
-   * @returns Object with success boolean and optional error message
+   * @param flags - Script verification flags (default: the lotusd standard
+   * flags, Interpreter.STANDARD_SCRIPT_VERIFY_FLAGS)
+   * @returns Per-input results and the total signature checks
    */
-  private _verifyScripts(flags?: number): { success: boolean; error?: string } {
-    // Skip script verification for coinbase transactions
+  verifyScripts(
+    flags: number = Interpreter.STANDARD_SCRIPT_VERIFY_FLAGS,
+  ): TransactionScriptVerification {
     if (this.isCoinbase()) {
-      return { success: true }
-    }
-
-    // Check that all inputs have output information
-    if (!this.hasAllUtxoInfo()) {
-      return {
-        success: false,
-        error: 'Missing UTXO (output) information for script verification',
-      }
+      return { valid: true, inputs: [], sigChecks: 0 }
     }
 
-    // Verify each input's script
-    for (let i = 0; i < this.inputs.length; i++) {
-      const input = this.inputs[i]
-
-      // Ensure scripts are defined
-      if (!input.script || !input.output?.script) {
-        return {
-          success: false,
-          error: `Input ${i} script verification failed: missing script`,
+    const inputs = this.inputs.map(
+      (input, index): TransactionInputScriptVerification => {
+        if (!input.output) {
+          return {
+            index,
+            valid: false,
+            error: 'missing spent output',
+            sigChecks: 0,
+          }
+        }
+        if (!input.script) {
+          return { index, valid: false, error: 'missing script', sigChecks: 0 }
         }
-      }
 
-      try {
-        // Use standard Lotus verification flags if not provided
-        const verifyFlags =
-          flags !== undefined
-            ? flags
-            : Interpreter.SCRIPT_VERIFY_P2SH |
-              Interpreter.SCRIPT_VERIFY_STRICTENC |
-              Interpreter.SCRIPT_VERIFY_DERSIG |
-              Interpreter.SCRIPT_VERIFY_LOW_S |
-              Interpreter.SCRIPT_VERIFY_NULLFAIL |
-              Interpreter.SCRIPT_ENABLE_SIGHASH_FORKID |
-              Interpreter.SCRIPT_ENABLE_SCHNORR_MULTISIG
-
-        // Verify once and capture both result and error
         const interpreter = new Interpreter()
-        const isValid = interpreter.verify(
-          input.script,
-          input.output.script,
-          this,
-          i,
-          verifyFlags,
-          BigInt(input.output.satoshis),
-        )
-
-        if (!isValid) {
+        try {
+          const valid = interpreter.verify(
+            input.script,
+            input.output.script,
+            this,
+            index,
+            flags,
+            BigInt(input.output.satoshis),
+          )
           return {
-            success: false,
-            error: `Input ${i} script verification failed: ${interpreter.errstr}`,
+            index,
+            valid,
+            error: valid ? undefined : interpreter.errstr,
+            sigChecks: interpreter.sigChecks,
+          }
+        } catch (error: unknown) {
+          return {
+            index,
+            valid: false,
+            error: error instanceof Error ? error.message : String(error),
+            sigChecks: interpreter.sigChecks,
           }
         }
-      } catch (error: unknown) {
-        return {
-          success: false,
-          error: `Input ${i} script verification error: ${error instanceof Error ? error.message : String(error)}`,
-        }
+      },
+    )
+
+    return {
+      valid: inputs.every(input => input.valid),
+      inputs,
+      sigChecks: inputs.reduce((total, input) => total + input.sigChecks, 0),
+    }
+  }
+
+  /**
+   * Verify all input scripts for verify(), returning the first failure
+   */
+  private _verifyScripts(): { success: boolean; error?: string } {
+    // Check that all inputs have output information
+    if (!this.isCoinbase() && !this.hasAllUtxoInfo()) {
+      return {
+        success: false,
+        error: 'Missing UTXO (output) information for script verification',
       }
     }
 
+    const failed = this.verifyScripts(
+      Interpreter.SCRIPT_VERIFY_P2SH |
+        Interpreter.SCRIPT_VERIFY_STRICTENC |
+        Interpreter.SCRIPT_VERIFY_DERSIG |
+        Interpreter.SCRIPT_VERIFY_LOW_S |
+        Interpreter.SCRIPT_VERIFY_NULLFAIL |
+        Interpreter.SCRIPT_ENABLE_SIGHASH_FORKID |
+        Interpreter.SCRIPT_ENABLE_SCHNORR_MULTISIG,
+    ).inputs.find(input => !input.valid)
+    if (failed) {
+      return {
+        success: false,
+        error: `Input ${failed.index} script verification failed: ${failed.error}`,
+      }
+    }
     return { success: true }
   }
 
@@ -0,0 +1,79 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+/**
+ * BIP32 derivation path utilities
+ *
+ * Paths look like `m/44'/10605'/0'/0/5`. Hardened steps may be written with
+ * `'`, `h` or `H`; they are always formatted with `'`.
+ */
+
+/** Index offset for hardened derivation */
+export const HARDENED_OFFSET = 0x80000000
+
+/** Accepted path roots */
+const ROOT_ALIASES = ['m', 'M', "m'", "M'"]
+
+/**
+ * Parse one derivation step such as `0`, `1'`, `2h` or `3H`
+ *
+ * @param step - Path step
+ * @returns Child index (hardened steps are offset by HARDENED_OFFSET), or
+ * null if the step is malformed or out of range
+ */
+export function parseDerivationStep(step: string): number | null {
+  const match = /^(\d+)(['hH])?$/.exec(step)
+  if (!match) {
+    return null
+  }
+  const index = Number(match[1])
+  if (index >= HARDENED_OFFSET) {
+    return null
+  }
+  return match[2] ? index + HARDENED_OFFSET : index
+}
+
+/**
+ * Parse a derivation path into child indexes
+ *
+ * @param path - Path starting with `m`, e.g. `m/44'/10605'/0'`
+ * @returns Child indexes, or null if the path is malformed
+ */
+export function parseDerivationPath(path: string): number[] | null {
+  const [root, ...steps] = path.split('/')
+  if (!ROOT_ALIASES.includes(root)) {
+    return null
+  }
+  const indexes: number[] = []
+  for (const step of steps) {
+    const index = parseDerivationStep(step)
+    if (index === null) {
+      return null
+    }
+    indexes.push(index)
+  }
+  return indexes
+}
+
+/**
+ * Format child indexes as a derivation path
+ *
+ * @param indexes - Child indexes
+ * @param root - Leading path element (default: `m`; empty for a relative path)
+ * @returns Path such as `m/44'/10605'/0'`
+ */
+export function formatDerivationPath(
+  indexes: number[],
+  root: string = 'm',
+): string {
+  return (
+    root +
+    indexes
+      .map(index =>
+        index >= HARDENED_OFFSET ? `/${index - HARDENED_OFFSET}'` : `/${index}`,
+      )
+      .join('')
+  )
+}
@@ -0,0 +1,260 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * Chronik Chain Backend
+ *
+ * ChainBackend backed by a Chronik indexer. Supports every ChainBackend
+ * operation natively, including push notifications over WebSocket.
+ */
+
+import {
+  ChronikClient,
+  type ScriptType,
+  type SubscribeMsg,
+  type Tx as ChronikTx,
+  type WsEndpoint,
+} from 'chronik-client'
+import { Script } from '../bitcore/script.js'
+import type { Transaction } from '../bitcore/transaction/index.js'
+import type {
+  ChainBackend,
+  ChainTip,
+  ChainTransaction,
+  ChainUtxo,
+  ScriptEventHandler,
+  Unsubscribe,
+} from './types.js'
+
+/** Largest history page Chronik serves */
+const HISTORY_PAGE_SIZE = 200
+
+/**
+ * ChainBackend using a Chronik indexer
+ *
+ * @example
+ * ```typescript
+ * const backend = new ChronikBackend('https://chronik.lotusia.org')
+ * const tip = await backend.getTip()
+ * ```
+ */
+export class ChronikBackend implements ChainBackend {
+  readonly hasFullHistory = true
+  private chronik: ChronikClient
+  private ws?: WsEndpoint
+  private handlers: Map<string, Set<ScriptEventHandler>> = new Map()
+
+  /**
+   * Create a new ChronikBackend
+   * @param chronik - Chronik URL(s) (e.g., 'https://chronik.lotusia.org') or client
+   */
+  constructor(chronik: string | string[] | ChronikClient) {
+    this.chronik =
+      chronik instanceof ChronikClient ? chronik : new ChronikClient(chronik)
+  }
+
+  async getUtxos(script: Script | string): Promise<ChainUtxo[]> {
+    const outputScript = toScript(script)
+    const [type, payload] = getScriptEndpoint(outputScript)
+    const result = await this.chronik.script(type, payload).utxos()
+
+    return result.flatMap(scriptUtxos =>
+      scriptUtxos.utxos.map(utxo => ({
+        txId: utxo.outpoint.txid,
+        outputIndex: utxo.outpoint.outIdx,
+        satoshis: Number(utxo.value),
+        script: scriptUtxos.outputScript,
+        blockHeight: utxo.blockHeight,
+        isCoinbase: utxo.isCoinbase,
+      })),
+    )
+  }
+
+  async getHistory(
+    script: Script | string,
+    limit: number = Infinity,
+  ): Promise<ChainTransaction[]> {
+    const [type, payload] = getScriptEndpoint(toScript(script))
+    const endpoint = this.chronik.script(type, payload)
+    const pageSize = Math.min(limit, HISTORY_PAGE_SIZE)
+
+    const txs: ChainTransaction[] = []
+    for (let page = 0; txs.length < limit; page++) {
+      const result = await endpoint.history(page, pageSize)
+      txs.push(...result.txs.map(toChainTransaction))
+      if (page + 1 >= result.numPages) {
+        break
+      }
+    }
+    return txs.slice(0, limit)
+  }
+
+  async getTransaction(txId: string): Promise<ChainTransaction | null> {
+    let tx: ChronikTx
+    try {
+      tx = await this.chronik.tx(txId)
+    } catch (error) {
+      // Chronik reports unknown transactions as "tx-not-found"
+      if (error instanceof Error && /not-found/.test(error.message)) {
+        return null
+      }
+      throw error
+    }
+    return toChainTransaction(tx)
+  }
+
+  async broadcast(tx: Transaction | string): Promise<string> {
+    const rawTx = typeof tx === 'string' ? tx : tx.toString()
+    const result = await this.chronik.broadcastTx(rawTx)
+    return result.txid
+  }
+
+  async getTip(): Promise<ChainTip> {
+    const info = await this.chronik.blockchainInfo()
+    return { height: info.tipHeight, hash: info.tipHash }
+  }
+
+  async subscribeToScript(
+    script: Script | string,
+    handler: ScriptEventHandler,
+  ): Promise<Unsubscribe> {
+    const [type, payload] = getScriptEndpoint(toScript(script))
+    const key = `${type}:${payload}`
+
+    if (!this.ws) {
+      this.ws = this.chronik.ws({
+        onMessage: msg => this._handleMessage(msg),
+        autoReconnect: true,
+      })
+      await this.ws.waitForOpen()
+    }
+
+    let handlers = this.handlers.get(key)
+    if (!handlers) {
+      handlers = new Set()
+      this.handlers.set(key, handlers)
+      this.ws.subscribe(type, payload)
+    }
+    handlers.add(handler)
+
+    return () => {
+      handlers.delete(handler)
+      if (handlers.size === 0 && this.handlers.get(key) === handlers) {
+        this.handlers.delete(key)
+        this.ws?.unsubscribe(type, payload)
+      }
+      if (this.handlers.size === 0) {
+        this.ws?.close()
+        this.ws = undefined
+      }
+    }
+  }
+
+  /**
+   * Dispatch a WebSocket message to script handlers
+   *
+   * Chronik messages do not say which subscription matched, so the
+   * transaction's outputs are checked against each subscribed script.
+   */
+  private async _handleMessage(msg: SubscribeMsg): Promise<void> {
+    let type: 'added-to-mempool' | 'removed-from-mempool' | 'confirmed'
+    switch (msg.type) {
+      case 'AddedToMempool':
+        type = 'added-to-mempool'
+        break
+      case 'RemovedFromMempool':
+        type = 'removed-from-mempool'
+        break
+      case 'Confirmed':
+        type = 'confirmed'
+        break
+      default:
+        return
+    }
+
+    // A single subscription needs no lookup
+    if (this.handlers.size === 1) {
+      for (const handler of [...this.handlers.values()][0]) {
+        handler({ type, txId: msg.txid })
+      }
+      return
+    }
+
+    let tx: ChronikTx
+    try {
+      tx = await this.chronik.tx(msg.txid)
+    } catch (error) {
+      console.error(`[ChronikBackend] Error fetching ${msg.txid}:`, error)
+      return
+    }
+
+    const notified = new Set<ScriptEventHandler>()
+    for (const output of tx.outputs) {
+      const [scriptType, payload] = getScriptEndpoint(
+        Script.fromHex(output.outputScript),
+      )
+      for (const handler of this.handlers.get(`${scriptType}:${payload}`) ??
+        []) {
+        if (!notified.has(handler)) {
+          notified.add(handler)
+          handler({ type, txId: msg.txid })
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Convert a Chronik transaction to a ChainTransaction
+ */
+function toChainTransaction(tx: ChronikTx): ChainTransaction {
+  return {
+    txId: tx.txid,
+    inputs: tx.inputs.map(input => ({
+      txId: input.prevOut.txid,
+      outputIndex: input.prevOut.outIdx,
+      script: input.inputScript,
+      sequence: input.sequenceNo,
+    })),
+    outputs: tx.outputs.map(output => ({
+      satoshis: Number(output.value),
+      script: output.outputScript,
+    })),
+    blockHeight: tx.block?.height ?? -1,
+    blockHash: tx.block?.hash,
+    // Chronik reports 0 when the first-seen time is unknown
+    timestamp:
+      Number(tx.timeFirstSeen) || Number(tx.block?.timestamp) || undefined,
+    isCoinbase: tx.isCoinbase,
+  }
+}
+
+/**
+ * Parse a script argument
+ */
+function toScript(script: Script | string): Script {
+  return typeof script === 'string' ? Script.fromHex(script) : script
+}
+
+/**
+ * Get the Chronik script endpoint (type and payload) for an output script
+ */
+function getScriptEndpoint(script: Script): [ScriptType, string] {
+  if (script.isPayToTaproot()) {
+    return ['p2tr-commitment', script.getData().toString('hex')]
+  }
+
+  const type = script.getType()
+  switch (type) {
+    case 'p2pk':
+      return [type, script.getPublicKey().toString('hex')]
+    case 'p2pkh':
+    case 'p2sh':
+      return [type, script.getData().toString('hex')]
+    default:
+      return ['other', script.toHex()]
+  }
+}
@@ -0,0 +1,317 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * Account Discovery
+ *
+ * Gap-limit scanning of BIP44 accounts against a ChainBackend. Each account
+ * has an external (receive, `0/i`) and an internal (change, `1/i`) chain;
+ * a chain is scanned until `gapLimit` consecutive addresses have no history.
+ *
+ * Used to restore a wallet from its Mnemonic: the account keys are derived at
+ * `m/44'/10605'/account'` and their addresses are looked up on chain.
+ */
+
+import { HDPrivateKey } from '../bitcore/hdprivatekey.js'
+import { HDPublicKey } from '../bitcore/hdpublickey.js'
+import type { PublicKey } from '../bitcore/publickey.js'
+import type { Address } from '../bitcore/address.js'
+import type { Network } from '../bitcore/networks.js'
+import { Script } from '../bitcore/script.js'
+import { buildKeyPathTaproot } from '../bitcore/taproot.js'
+import {
+  HARDENED_OFFSET,
+  formatDerivationPath,
+} from '../bitcore/util/derivation.js'
+import type { ChainBackend, ChainUtxo } from './types.js'
+
+/** SLIP-44 coin type for Lotus */
+export const LOTUS_COIN_TYPE = 10605
+
+/** Consecutive unused addresses that end a chain scan (BIP44 default) */
+export const DEFAULT_GAP_LIMIT = 20
+
+/** Receive address chain */
+const EXTERNAL_CHAIN = 0
+
+/** Change address chain */
+const INTERNAL_CHAIN = 1
+
+/**
+ * Output type derived for each account key
+ * - `p2pkh`: Pay-to-public-key-hash
+ * - `p2tr`: Key path only Taproot (same as a `tr(KEY)` descriptor)
+ */
+export type DiscoveryAddressType = 'p2pkh' | 'p2tr'
+
+/**
+ * Account discovery options
+ */
+export interface AccountDiscoveryOptions {
+  /** Consecutive unused addresses that end a chain scan (default: 20) */
+  gapLimit?: number
+
+  /** Output type derived for each key (default: 'p2pkh') */
+  addressType?: DiscoveryAddressType
+
+  /** Network for addresses (default: the account key's network) */
+  network?: Network | string
+
+  /**
+   * Scan with a backend whose getHistory() misses spent outputs, such as
+   * RPCBackend (default: false). Addresses whose outputs have all been spent
+   * then look unused, which can end a scan before later funded addresses.
+   */
+  allowPartialHistory?: boolean
+}
+
+/**
+ * Address with on-chain history
+ */
+export interface DiscoveredAddress {
+  /** Chain (0 = external/receive, 1 = internal/change) */
+  chain: number
+
+  /** Address index within the chain */
+  index: number
+
+  /** Derivation path relative to the account key, e.g. `m/0/5` */
+  path: string
+
+  /** Derived public key */
+  publicKey: PublicKey
+
+  /** Output script */
+  script: Script
+
+  /** Address paying to the output script */
+  address: Address
+
+  /** Unspent outputs paying the address */
+  utxos: ChainUtxo[]
+
+  /** Sum of the unspent outputs in satoshis */
+  balance: number
+}
+
+/**
+ * Result of scanning one account
+ */
+export interface AccountDiscoveryResult {
+  /** Used receive addresses, by index */
+  external: DiscoveredAddress[]
+
+  /** Used change addresses, by index */
+  internal: DiscoveredAddress[]
+
+  /** Unspent outputs of every used address */
+  utxos: ChainUtxo[]
+
+  /** Account balance in satoshis */
+  balance: number
+
+  /** First receive index after the last used one */
+  nextReceiveIndex: number
+
+  /** First change index after the last used one */
+  nextChangeIndex: number
+}
+
+/**
+ * Result of scanning one account of a wallet
+ */
+export interface WalletAccountDiscoveryResult extends AccountDiscoveryResult {
+  /** Account index */
+  account: number
+
+  /** Derivation path of the account key, e.g. `m/44'/10605'/0'` */
+  path: string
+
+  /** Account extended public key */
+  xpub: HDPublicKey
+}
+
+/**
+ * Scan an account's receive and change chains for used addresses
+ *
+ * @param backend - Chain backend used to look up address history
+ * @param account - Account extended key (e.g. `m/44'/10605'/0'`) or its xpub
+ * @param options - Discovery options
+ * @returns Used addresses, balances and the next unused indexes
+ * @throws Error if the backend cannot see spent outputs (see
+ * ChainBackend.hasFullHistory) and allowPartialHistory is not set
+ *
+ * @example
+ * ```typescript
+ * const root = mnemonic.toHDPrivateKey()
+ * const account = root.deriveChild("m/44'/10605'/0'").hdPublicKey
+ * const result = await discoverAccount(backend, account)
+ * console.log(result.balance, result.nextReceiveIndex)
+ * ```
+ */
+export async function discoverAccount(
+  backend: ChainBackend,
+  account: HDPublicKey | HDPrivateKey | string,
+  options: AccountDiscoveryOptions = {},
+): Promise<AccountDiscoveryResult> {
+  const xpub = toHDPublicKey(account)
+  const gapLimit = options.gapLimit ?? DEFAULT_GAP_LIMIT
+  if (!Number.isInteger(gapLimit) || gapLimit < 1) {
+    throw new Error('Gap limit must be a positive integer')
+  }
+  if (!backend.hasFullHistory && !options.allowPartialHistory) {
+    throw new Error(
+      'Chain backend cannot find spent address history; set allowPartialHistory to scan it anyway',
+    )
+  }
+
+  const scan = {
+    addressType: options.addressType ?? 'p2pkh',
+    network: options.network ?? xpub.network,
+  }
+  const external = await scanChain(
+    backend,
+    xpub,
+    EXTERNAL_CHAIN,
+    gapLimit,
+    scan,
+  )
+  const internal = await scanChain(
+    backend,
+    xpub,
+    INTERNAL_CHAIN,
+    gapLimit,
+    scan,
+  )
+
+  const used = [...external, ...internal]
+  return {
+    external,
+    internal,
+    utxos: used.flatMap(address => address.utxos),
+    balance: used.reduce((sum, address) => sum + address.balance, 0),
+    nextReceiveIndex: nextIndex(external),
+    nextChangeIndex: nextIndex(internal),
+  }
+}
+
+/**
+ * Scan the BIP44 accounts of a wallet
+ *
+ * Accounts `m/44'/10605'/n'` are scanned in order until one has no used
+ * addresses. The unused account is not included in the result.
+ *
+ * @param backend - Chain backend used to look up address history
+ * @param root - Wallet master key (e.g. from Mnemonic.toHDPrivateKey())
+ * @param options - Discovery options, plus the coin type to derive
+ * @returns Every account with on-chain history
+ */
+export async function discoverAccounts(
+  backend: ChainBackend,
+  root: HDPrivateKey,
+  options: AccountDiscoveryOptions & { coinType?: number } = {},
+): Promise<WalletAccountDiscoveryResult[]> {
+  const coinType = options.coinType ?? LOTUS_COIN_TYPE
+  const accounts: WalletAccountDiscoveryResult[] = []
+
+  for (let account = 0; ; account++) {
+    const indexes = [44, coinType, account].map(i => i + HARDENED_OFFSET)
+    const path = formatDerivationPath(indexes)
+    const xpub = root.deriveChild(path).hdPublicKey
+
+    const result = await discoverAccount(backend, xpub, options)
+    if (result.external.length === 0 && result.internal.length === 0) {
+      return accounts
+    }
+    accounts.push({ ...result, account, path, xpub })
+  }
+}
+
+/**
+ * Scan one chain until `gapLimit` consecutive addresses are unused
+ *
+ * Lookups for the addresses that could still extend the scan are made
+ * concurrently, one batch at a time.
+ */
+async function scanChain(
+  backend: ChainBackend,
+  xpub: HDPublicKey,
+  chain: number,
+  gapLimit: number,
+  opts: { addressType: DiscoveryAddressType; network: Network | string },
+): Promise<DiscoveredAddress[]> {
+  const chainKey = xpub.deriveChild(chain)
+  const used: DiscoveredAddress[] = []
+  let lastUsed = -1
+  let index = 0
+
+  while (index - lastUsed - 1 < gapLimit) {
+    const batch: number[] = []
+    for (let i = index; i < lastUsed + 1 + gapLimit; i++) {
+      batch.push(i)
+    }
+
+    const results = await Promise.all(
+      batch.map(async i => {
+        const publicKey = chainKey.deriveChild(i).publicKey
+        const script =
+          opts.addressType === 'p2tr'
+            ? buildKeyPathTaproot(publicKey)
+            : Script.buildPublicKeyHashOut(publicKey)
+
+        const history = await backend.getHistory(script, 1)
+        if (history.length === 0) {
+          return null
+        }
+        const utxos = await backend.getUtxos(script)
+        return {
+          chain,
+          index: i,
+          path: formatDerivationPath([chain, i]),
+          publicKey,
+          script,
+          address: script.toAddress(opts.network)!,
+          utxos,
+          balance: utxos.reduce((sum, utxo) => sum + utxo.satoshis, 0),
+        }
+      }),
+    )
+
+    for (const result of results) {
+      if (result) {
+        used.push(result)
+        lastUsed = result.index
+      }
+    }
+    index = batch[batch.length - 1] + 1
+  }
+
+  return used
+}
+
+/**
+ * First index after the last used address of a chain
+ */
+function nextIndex(used: DiscoveredAddress[]): number {
+  return used.length > 0 ? used[used.length - 1].index + 1 : 0
+}
+
+/**
+ * Normalize an account key argument to its extended public key
+ */
+function toHDPublicKey(
+  account: HDPublicKey | HDPrivateKey | string,
+): HDPublicKey {
+  if (account instanceof HDPrivateKey) {
+    return account.hdPublicKey
+  }
+  if (account instanceof HDPublicKey) {
+    return account
+  }
+  return HDPrivateKey.isValidSerialized(account)
+    ? HDPrivateKey.fromString(account).hdPublicKey
+    : HDPublicKey.fromString(account)
+}
@@ -0,0 +1,37 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * Chain Backend Module
+ *
+ * Exports the ChainBackend interface, its Chronik, RPC and in-memory
+ * implementations, and gap-limit account discovery and NFT provenance
+ * tracing on top of them
+ */
+
+export * from './types.js'
+export { ChronikBackend } from './chronik.js'
+export { RPCBackend, type RPCBackendOptions } from './rpc.js'
+export { MockChainBackend } from './mock.js'
+export {
+  discoverAccount,
+  discoverAccounts,
+  LOTUS_COIN_TYPE,
+  DEFAULT_GAP_LIMIT,
+  type DiscoveryAddressType,
+  type AccountDiscoveryOptions,
+  type DiscoveredAddress,
+  type AccountDiscoveryResult,
+  type WalletAccountDiscoveryResult,
+} from './discovery.js'
+export {
+  traceNFTProvenance,
+  NFTProvenanceError,
+  DEFAULT_MAX_PROVENANCE_HOPS,
+  type NFTProvenanceOptions,
+  type NFTProvenanceResult,
+  type NFTCollectionBinding,
+} from './nft-provenance.js'
@@ -0,0 +1,368 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * Mock Chain Backend
+ *
+ * In-memory ChainBackend for tests. Transactions are accepted without script
+ * validation; the mock only tracks outputs, spends, blocks and mempool.
+ */
+
+import { Script } from '../bitcore/script.js'
+import { Address } from '../bitcore/address.js'
+import { Random } from '../bitcore/crypto/random.js'
+import { Transaction } from '../bitcore/transaction/index.js'
+import type {
+  ChainBackend,
+  ChainTip,
+  ChainTransaction,
+  ChainUtxo,
+  ScriptEvent,
+  ScriptEventHandler,
+  Unsubscribe,
+} from './types.js'
+
+/**
+ * In-memory ChainBackend
+ *
+ * @example
+ * ```typescript
+ * const backend = new MockChainBackend()
+ * const utxo = backend.fund(address, 100000)
+ * // ... build and sign a transaction spending utxo
+ * await backend.broadcast(tx)
+ * backend.mineBlocks(6)
+ * ```
+ */
+export class MockChainBackend implements ChainBackend {
+  readonly hasFullHistory = true
+  private txs: Map<string, ChainTransaction> = new Map()
+  private spentBy: Map<string, string> = new Map() // outpoint -> txId
+  private mempool: Set<string> = new Set()
+  private blockHashes: string[] = []
+  private handlers: Map<string, Set<ScriptEventHandler>> = new Map()
+
+  /** Serialized transactions passed to broadcast(), in order */
+  readonly broadcasts: string[] = []
+
+  /**
+   * Create a new MockChainBackend
+   * @param height - Initial tip height (default: 0)
+   */
+  constructor(height: number = 0) {
+    for (let h = 0; h <= height; h++) {
+      this.blockHashes.push(randomHash())
+    }
+  }
+
+  async getUtxos(script: Script | string): Promise<ChainUtxo[]> {
+    const scriptHex = toScriptHex(script)
+    const utxos: ChainUtxo[] = []
+
+    for (const tx of this.txs.values()) {
+      tx.outputs.forEach((output, outputIndex) => {
+        if (
+          output.script === scriptHex &&
+          !this.spentBy.has(outpointKey(tx.txId, outputIndex))
+        ) {
+          utxos.push({
+            txId: tx.txId,
+            outputIndex,
+            satoshis: output.satoshis,
+            script: output.script,
+            blockHeight: tx.blockHeight,
+            isCoinbase: tx.isCoinbase,
+          })
+        }
+      })
+    }
+    return utxos
+  }
+
+  async getHistory(
+    script: Script | string,
+    limit: number = Infinity,
+  ): Promise<ChainTransaction[]> {
+    const scriptHex = toScriptHex(script)
+    const history = [...this.txs.values()].filter(
+      tx =>
+        tx.outputs.some(output => output.script === scriptHex) ||
+        tx.inputs.some(
+          input =>
+            this.txs.get(input.txId)?.outputs[input.outputIndex]?.script ===
+            scriptHex,
+        ),
+    )
+
+    // Mempool first, then newest block first, latest added first
+    const height = (tx: ChainTransaction) =>
+      tx.blockHeight === -1 ? Number.MAX_SAFE_INTEGER : tx.blockHeight
+    return history
+      .reverse()
+      .sort((a, b) => height(b) - height(a))
+      .slice(0, limit)
+      .map(tx => structuredClone(tx))
+  }
+
+  async getTransaction(txId: string): Promise<ChainTransaction | null> {
+    const tx = this.txs.get(txId)
+    return tx ? structuredClone(tx) : null
+  }
+
+  /**
+   * Add a transaction to the mempool
+   *
+   * @throws Error if an input is unknown or already spent
+   */
+  async broadcast(tx: Transaction | string): Promise<string> {
+    const transaction = typeof tx === 'string' ? new Transaction(tx) : tx
+    const chainTx = toChainTransaction(transaction)
+
+    if (this.txs.has(chainTx.txId)) {
+      return chainTx.txId
+    }
+    for (const input of chainTx.inputs) {
+      const prevTx = this.txs.get(input.txId)
+      if (!prevTx || !prevTx.outputs[input.outputIndex]) {
+        throw new Error(`Missing input ${input.txId}:${input.outputIndex}`)
+      }
+      if (this.spentBy.has(outpointKey(input.txId, input.outputIndex))) {
+        throw new Error(
+          `Input ${input.txId}:${input.outputIndex} already spent (txn-mempool-conflict)`,
+        )
+      }
+    }
+
+    this.broadcasts.push(transaction.toString())
+    this._add(chainTx)
+    return chainTx.txId
+  }
+
+  async getTip(): Promise<ChainTip> {
+    return {
+      height: this.height,
+      hash: this.blockHashes[this.height],
+    }
+  }
+
+  async subscribeToScript(
+    script: Script | string,
+    handler: ScriptEventHandler,
+  ): Promise<Unsubscribe> {
+    const scriptHex = toScriptHex(script)
+    let handlers = this.handlers.get(scriptHex)
+    if (!handlers) {
+      handlers = new Set()
+      this.handlers.set(scriptHex, handlers)
+    }
+    handlers.add(handler)
+
+    return () => {
+      handlers.delete(handler)
+    }
+  }
+
+  // ============================================================================
+  // Test Helpers
+  // ============================================================================
+
+  /** Current tip height */
+  get height(): number {
+    return this.blockHashes.length - 1
+  }
+
+  /**
+   * Create an output paying a script or address, from nowhere
+   *
+   * @param script - Output script, its hex encoding, or an address
+   * @param satoshis - Output value
+   * @param confirmed - Whether to mine the output in a new block (default: true)
+   * @returns The new unspent output
+   */
+  fund(
+    script: Script | Address | string,
+    satoshis: number,
+    confirmed: boolean = true,
+  ): ChainUtxo {
+    const outputScript =
+      script instanceof Address ||
+      (typeof script === 'string' && Address.isValid(script))
+        ? Script.fromAddress(script).toHex()
+        : toScriptHex(script as Script | string)
+
+    const tx: ChainTransaction = {
+      txId: randomHash(),
+      inputs: [],
+      outputs: [{ satoshis, script: outputScript }],
+      blockHeight: -1,
+      timestamp: unixTime(),
+      isCoinbase: false,
+    }
+    this._add(tx)
+    if (confirmed) {
+      this.mineBlock()
+    }
+
+    return {
+      txId: tx.txId,
+      outputIndex: 0,
+      satoshis,
+      script: outputScript,
+      blockHeight: tx.blockHeight,
+      isCoinbase: false,
+    }
+  }
+
+  /**
+   * Add a transaction as-is, without checking its inputs
+   *
+   * @param tx - Transaction or its serialized hex
+   * @param blockHeight - Height to confirm it at; mempool if omitted
+   * @returns Transaction ID
+   */
+  addTransaction(tx: Transaction | string, blockHeight?: number): string {
+    const transaction = typeof tx === 'string' ? new Transaction(tx) : tx
+    const chainTx = toChainTransaction(transaction)
+    this._add(chainTx)
+
+    if (blockHeight !== undefined) {
+      while (this.height < blockHeight) {
+        this.blockHashes.push(randomHash())
+      }
+      this._confirm(chainTx, blockHeight)
+    }
+    return chainTx.txId
+  }
+
+  /**
+   * Mine a block containing every mempool transaction
+   *
+   * @returns The new tip
+   */
+  mineBlock(): ChainTip {
+    this.blockHashes.push(randomHash())
+    for (const txId of [...this.mempool]) {
+      this._confirm(this.txs.get(txId)!, this.height)
+    }
+    return { height: this.height, hash: this.blockHashes[this.height] }
+  }
+
+  /**
+   * Mine several blocks
+   *
+   * @param count - Number of blocks
+   * @returns The new tip
+   */
+  mineBlocks(count: number): ChainTip {
+    let tip = { height: this.height, hash: this.blockHashes[this.height] }
+    for (let i = 0; i < count; i++) {
+      tip = this.mineBlock()
+    }
+    return tip
+  }
+
+  /**
+   * Drop a transaction from the mempool, releasing its inputs
+   *
+   * @param txId - Transaction ID
+   */
+  evict(txId: string): void {
+    const tx = this.txs.get(txId)
+    if (!tx || !this.mempool.has(txId)) {
+      return
+    }
+    this.mempool.delete(txId)
+    this.txs.delete(txId)
+    for (const input of tx.inputs) {
+      this.spentBy.delete(outpointKey(input.txId, input.outputIndex))
+    }
+    this._emit(tx, { type: 'removed-from-mempool', txId })
+  }
+
+  /**
+   * Record a transaction in the mempool
+   */
+  private _add(tx: ChainTransaction): void {
+    this.txs.set(tx.txId, tx)
+    this.mempool.add(tx.txId)
+    for (const input of tx.inputs) {
+      this.spentBy.set(outpointKey(input.txId, input.outputIndex), tx.txId)
+    }
+    this._emit(tx, { type: 'added-to-mempool', txId: tx.txId })
+  }
+
+  /**
+   * Move a transaction from the mempool into a block
+   */
+  private _confirm(tx: ChainTransaction, blockHeight: number): void {
+    this.mempool.delete(tx.txId)
+    tx.blockHeight = blockHeight
+    tx.blockHash = this.blockHashes[blockHeight]
+    this._emit(tx, { type: 'confirmed', txId: tx.txId })
+  }
+
+  /**
+   * Notify handlers of the scripts paid by a transaction
+   */
+  private _emit(tx: ChainTransaction, event: ScriptEvent): void {
+    const scripts = new Set(tx.outputs.map(output => output.script))
+    for (const scriptHex of scripts) {
+      for (const handler of this.handlers.get(scriptHex) ?? []) {
+        handler(event)
+      }
+    }
+  }
+}
+
+/**
+ * Convert a bitcore transaction to a mempool ChainTransaction
+ */
+function toChainTransaction(tx: Transaction): ChainTransaction {
+  return {
+    txId: tx.id,
+    inputs: tx.inputs.map(input => ({
+      txId: input.prevTxId.toString('hex'),
+      outputIndex: input.outputIndex,
+      script: input.script?.toHex() ?? '',
+      sequence: input.sequenceNumber,
+    })),
+    outputs: tx.outputs.map(output => ({
+      satoshis: output.satoshis,
+      script: output.script.toHex(),
+    })),
+    blockHeight: -1,
+    timestamp: unixTime(),
+    isCoinbase: tx.isCoinbase(),
+  }
+}
+
+/**
+ * Key for an outpoint
+ */
+function outpointKey(txId: string, outputIndex: number): string {
+  return `${txId}:${outputIndex}`
+}
+
+/**
+ * Random 32-byte hash, hex-encoded
+ */
+function randomHash(): string {
+  return Random.getRandomBuffer(32).toString('hex')
+}
+
+/**
+ * Current Unix time in seconds
+ */
+function unixTime(): number {
+  return Math.floor(Date.now() / 1000)
+}
+
+/**
+ * Hex-encode a script argument
+ */
+function toScriptHex(script: Script | string): string {
+  return typeof script === 'string' ? script.toLowerCase() : script.toHex()
+}
@@ -0,0 +1,267 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * NFT Provenance Tracing
+ *
+ * Walks an NFT's history backwards from one of its outputs to the
+ * transaction that minted it, using a ChainBackend to look up transactions.
+ * Every hop must spend exactly one output carrying the NFT's Taproot state
+ * (its metadata hash) and create exactly one output carrying the same state.
+ * The transaction whose inputs do not carry the state is the mint.
+ */
+
+import { Script } from '../bitcore/script.js'
+import type { Network } from '../bitcore/networks.js'
+import {
+  NFTUtil,
+  type NFTCollectionMetadata,
+  type NFTMetadata,
+  type NFTTransfer,
+  type NFTUtxo,
+} from '../bitcore/taproot/nft.js'
+import type {
+  ChainBackend,
+  ChainOutPoint,
+  ChainTransaction,
+  ChainTxOutput,
+} from './types.js'
+
+/** Transactions walked before a trace is abandoned */
+export const DEFAULT_MAX_PROVENANCE_HOPS = 10000
+
+/**
+ * NFT provenance tracing options
+ */
+export interface NFTProvenanceOptions {
+  /** Maximum number of transactions to walk (default: 10000) */
+  maxHops?: number
+
+  /** Off-chain metadata to check against the metadata hash */
+  metadata?: NFTMetadata
+
+  /** Collection the NFT claims to belong to, or its hash */
+  collection?: NFTCollectionMetadata | Buffer
+
+  /** Network for addresses (default: livenet) */
+  network?: Network | string
+}
+
+/**
+ * Binding of an NFT to its collection
+ */
+export interface NFTCollectionBinding {
+  /** Collection hash */
+  collectionHash: Buffer
+
+  /** Whether the metadata hash commits to the collection and metadata */
+  verified: boolean
+}
+
+/**
+ * Verified NFT history
+ */
+export interface NFTProvenanceResult {
+  /** Metadata hash preserved by every transfer */
+  metadataHash: Buffer
+
+  /** Transfers from the mint to the traced output, in chronological order */
+  transfers: NFTTransfer[]
+
+  /** Transaction ID of the mint */
+  mintTxId: string
+
+  /** The traced NFT output */
+  utxo: NFTUtxo
+
+  /**
+   * Whether the metadata option matches the metadata hash, directly or
+   * through the collection (undefined without metadata)
+   */
+  metadataVerified?: boolean
+
+  /** Collection binding (null without both the metadata and collection) */
+  collection: NFTCollectionBinding | null
+}
+
+/**
+ * Error for NFT histories that cannot be traced or verified
+ */
+export class NFTProvenanceError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'NFTProvenanceError'
+  }
+}
+
+/**
+ * Trace an NFT's history from one of its outputs back to its mint
+ *
+ * @param backend - Chain backend used to look up transactions
+ * @param outpoint - NFT output to start from (e.g. the current UTXO)
+ * @param options - Tracing options
+ * @returns The verified transfer history and collection binding
+ * @throws NFTProvenanceError if a transaction is missing, the output is not
+ * an NFT, or a hop duplicates or merges the NFT's state
+ *
+ * @example
+ * ```typescript
+ * const backend = new ChronikBackend('https://chronik.lotusia.org')
+ * const provenance = await traceNFTProvenance(backend, nft.getUtxo(), {
+ *   metadata: nft.metadata,
+ * })
+ * console.log(provenance.mintTxId, provenance.transfers.length)
+ * ```
+ */
+export async function traceNFTProvenance(
+  backend: ChainBackend,
+  outpoint: ChainOutPoint | NFTUtxo,
+  options: NFTProvenanceOptions = {},
+): Promise<NFTProvenanceResult> {
+  const maxHops = options.maxHops ?? DEFAULT_MAX_PROVENANCE_HOPS
+  const txs = new Map<string, ChainTransaction>()
+  const getTransaction = async (txId: string) => {
+    let tx = txs.get(txId)
+    if (!tx) {
+      tx = (await backend.getTransaction(txId)) ?? undefined
+      if (!tx) {
+        throw new NFTProvenanceError(`Transaction ${txId} not found`)
+      }
+      txs.set(txId, tx)
+    }
+    return tx
+  }
+
+  const startTxId = 'txid' in outpoint ? outpoint.txid : outpoint.txId
+  let tx = await getTransaction(startTxId)
+  let output = tx.outputs[outpoint.outputIndex]
+  if (!output) {
+    throw new NFTProvenanceError(
+      `Output ${startTxId}:${outpoint.outputIndex} not found`,
+    )
+  }
+  const metadataHash = nftState(output)
+  if (!metadataHash) {
+    throw new NFTProvenanceError(
+      `Output ${startTxId}:${outpoint.outputIndex} is not an NFT`,
+    )
+  }
+  const utxo: NFTUtxo = {
+    txid: startTxId,
+    outputIndex: outpoint.outputIndex,
+    script: Script.fromHex(output.script),
+    satoshis: output.satoshis,
+  }
+
+  const transfers: NFTTransfer[] = []
+  for (let hop = 0; ; hop++) {
+    if (hop >= maxHops) {
+      throw new NFTProvenanceError(
+        `NFT history is longer than ${maxHops} transactions`,
+      )
+    }
+    if (countState(tx.outputs, metadataHash) > 1) {
+      throw new NFTProvenanceError(
+        `Transaction ${tx.txId} creates more than one output with the NFT's metadata hash`,
+      )
+    }
+
+    const spent: Array<{ tx: ChainTransaction; outputIndex: number }> = []
+    for (const input of tx.isCoinbase ? [] : tx.inputs) {
+      const prevTx = await getTransaction(input.txId)
+      const prevOutput = prevTx.outputs[input.outputIndex]
+      if (prevOutput && nftState(prevOutput)?.equals(metadataHash)) {
+        spent.push({ tx: prevTx, outputIndex: input.outputIndex })
+      }
+    }
+    if (spent.length > 1) {
+      throw new NFTProvenanceError(
+        `Transaction ${tx.txId} spends more than one output with the NFT's metadata hash`,
+      )
+    }
+
+    const previous = spent[0]
+    transfers.push({
+      txid: tx.txId,
+      from: previous
+        ? address(previous.tx.outputs[previous.outputIndex], options.network)
+        : null,
+      to: address(output, options.network),
+      metadataHash: metadataHash.toString('hex'),
+      timestamp: tx.timestamp ?? 0,
+      blockHeight: tx.blockHeight >= 0 ? tx.blockHeight : undefined,
+    })
+    if (!previous) {
+      break
+    }
+    tx = previous.tx
+    output = tx.outputs[previous.outputIndex]
+  }
+
+  transfers.reverse()
+  if (!NFTUtil.verifyProvenance(transfers)) {
+    throw new NFTProvenanceError('NFT history does not preserve its state')
+  }
+
+  const collection =
+    options.collection && options.metadata
+      ? bindCollection(options.collection, options.metadata, metadataHash)
+      : null
+  return {
+    metadataHash,
+    transfers,
+    mintTxId: transfers[0].txid,
+    utxo,
+    metadataVerified: options.metadata
+      ? NFTUtil.verifyMetadata(options.metadata, metadataHash) ||
+        !!collection?.verified
+      : undefined,
+    collection,
+  }
+}
+
+/**
+ * Metadata hash of an NFT output, or null if the output is not an NFT
+ */
+function nftState(output: ChainTxOutput): Buffer | null {
+  const script = Script.fromHex(output.script)
+  return NFTUtil.isNFT(script) ? NFTUtil.extractMetadataHash(script) : null
+}
+
+/**
+ * Number of outputs carrying a metadata hash
+ */
+function countState(outputs: ChainTxOutput[], metadataHash: Buffer): number {
+  return outputs.filter(output => nftState(output)?.equals(metadataHash)).length
+}
+
+/**
+ * Address of an output
+ */
+function address(output: ChainTxOutput, network?: Network | string): string {
+  return Script.fromHex(output.script).toAddress(network)!.toString()
+}
+
+/**
+ * Check that a metadata hash commits to a collection and metadata
+ */
+function bindCollection(
+  collection: NFTCollectionMetadata | Buffer,
+  metadata: NFTMetadata,
+  metadataHash: Buffer,
+): NFTCollectionBinding {
+  const collectionHash = Buffer.isBuffer(collection)
+    ? collection
+    : NFTUtil.hashCollection(collection)
+  return {
+    collectionHash,
+    verified: NFTUtil.verifyCollectionNFT(
+      collectionHash,
+      metadata,
+      metadataHash,
+    ),
+  }
+}
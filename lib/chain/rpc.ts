@@ -0,0 +1,321 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * RPC Chain Backend
+ *
+ * ChainBackend backed by a lotusd node over JSON-RPC. The node has no
+ * address index, so:
+ * - getUtxos() uses `scantxoutset`, which only sees confirmed outputs
+ * - getHistory() only finds transactions whose outputs to the script are
+ *   still unspent, for the same reason
+ * - subscribeToScript() polls the mempool and new blocks
+ */
+
+import type { Script } from '../bitcore/script.js'
+import type { Transaction } from '../bitcore/transaction/index.js'
+import {
+  RPCClient,
+  RPCError,
+  type RPCClientConfig,
+  type RawTransaction,
+} from '../rpc.js'
+import type {
+  ChainBackend,
+  ChainTip,
+  ChainTransaction,
+  ChainUtxo,
+  ScriptEvent,
+  ScriptEventHandler,
+  Unsubscribe,
+} from './types.js'
+
+/** RPC_INVALID_ADDRESS_OR_KEY: returned for unknown transactions */
+const RPC_INVALID_ADDRESS_OR_KEY = -5
+
+/** Satoshis per coin (1 XPI = 1,000,000 satoshis) */
+const SATOSHIS_PER_XPI = 1_000_000
+
+/**
+ * RPCBackend options
+ */
+export interface RPCBackendOptions {
+  /** Polling interval for script subscriptions in milliseconds (default: 5000) */
+  pollInterval?: number
+}
+
+/**
+ * ChainBackend using a lotusd node
+ *
+ * @example
+ * ```typescript
+ * const backend = new RPCBackend({ host: '127.0.0.1', cookieFile })
+ * const txId = await backend.broadcast(tx)
+ * ```
+ */
+export class RPCBackend implements ChainBackend {
+  /** getHistory() only sees scripts with unspent outputs */
+  readonly hasFullHistory = false
+  private rpc: RPCClient
+  private pollInterval: number
+  private pollTimer?: ReturnType<typeof setInterval>
+  private polling = false
+  private handlers: Map<string, Set<ScriptEventHandler>> = new Map()
+  private lastHeight = -1
+  private seenMempool: Set<string> = new Set()
+  private pendingMempool: Map<string, Set<string>> = new Map() // txId -> scripts
+
+  /**
+   * Create a new RPCBackend
+   * @param rpc - RPC client, or configuration for a new one
+   * @param options - Backend options
+   */
+  constructor(
+    rpc: RPCClient | RPCClientConfig,
+    options: RPCBackendOptions = {},
+  ) {
+    this.rpc = rpc instanceof RPCClient ? rpc : new RPCClient(rpc)
+    this.pollInterval = options.pollInterval ?? 5000
+  }
+
+  async getUtxos(script: Script | string): Promise<ChainUtxo[]> {
+    const scriptHex = toScriptHex(script)
+    const result = await this.rpc.scanTxOutSet([`raw(${scriptHex})`])
+
+    return result.unspents.map(unspent => ({
+      txId: unspent.txid,
+      outputIndex: unspent.vout,
+      satoshis: toSatoshis(unspent.amount),
+      script: unspent.scriptPubKey,
+      blockHeight: unspent.height,
+      // scantxoutset does not report coinbase outputs
+      isCoinbase: false,
+    }))
+  }
+
+  async getHistory(
+    script: Script | string,
+    limit: number = Infinity,
+  ): Promise<ChainTransaction[]> {
+    const utxos = await this.getUtxos(script)
+    const txIds = [
+      ...new Set(
+        utxos
+          .sort((a, b) => b.blockHeight - a.blockHeight)
+          .map(utxo => utxo.txId),
+      ),
+    ].slice(0, limit)
+
+    const txs: ChainTransaction[] = []
+    for (const txId of txIds) {
+      const tx = await this.getTransaction(txId)
+      if (tx) {
+        txs.push(tx)
+      }
+    }
+    return txs
+  }
+
+  async getTransaction(txId: string): Promise<ChainTransaction | null> {
+    let tx: RawTransaction
+    try {
+      tx = await this.rpc.getRawTransaction(txId)
+    } catch (error) {
+      if (
+        error instanceof RPCError &&
+        error.code === RPC_INVALID_ADDRESS_OR_KEY
+      ) {
+        return null
+      }
+      throw error
+    }
+
+    let blockHeight = -1
+    if (tx.blockhash && tx.confirmations) {
+      blockHeight = (await this.rpc.getBlockHeader(tx.blockhash)).height
+    }
+    return toChainTransaction(tx, blockHeight)
+  }
+
+  async broadcast(tx: Transaction | string): Promise<string> {
+    return this.rpc.sendRawTransaction(tx)
+  }
+
+  async getTip(): Promise<ChainTip> {
+    const [height, hash] = await this.rpc.batch<[number, string]>([
+      { method: 'getblockcount' },
+      { method: 'getbestblockhash' },
+    ])
+    return { height, hash }
+  }
+
+  async subscribeToScript(
+    script: Script | string,
+    handler: ScriptEventHandler,
+  ): Promise<Unsubscribe> {
+    const scriptHex = toScriptHex(script)
+
+    if (!this.pollTimer) {
+      // Only report transactions seen after subscribing
+      this.lastHeight = await this.rpc.getBlockCount()
+      this.seenMempool = new Set(await this.rpc.getRawMemPool())
+      this.pendingMempool.clear()
+      this.pollTimer = setInterval(() => void this.poll(), this.pollInterval)
+    }
+
+    let handlers = this.handlers.get(scriptHex)
+    if (!handlers) {
+      handlers = new Set()
+      this.handlers.set(scriptHex, handlers)
+    }
+    handlers.add(handler)
+
+    return () => {
+      handlers.delete(handler)
+      if (handlers.size === 0 && this.handlers.get(scriptHex) === handlers) {
+        this.handlers.delete(scriptHex)
+      }
+      if (this.handlers.size === 0 && this.pollTimer) {
+        clearInterval(this.pollTimer)
+        this.pollTimer = undefined
+      }
+    }
+  }
+
+  /**
+   * Check new blocks and mempool transactions against subscribed scripts
+   *
+   * Runs on the subscription timer; exposed so callers can poll on demand.
+   */
+  async poll(): Promise<void> {
+    if (this.polling) {
+      return
+    }
+    this.polling = true
+
+    try {
+      const confirmed = new Set<string>()
+      const height = await this.rpc.getBlockCount()
+      for (let h = this.lastHeight + 1; h <= height; h++) {
+        const hash = await this.rpc.getBlockHash(h)
+        const block = await this.rpc.call<{ tx: RawTransaction[] }>(
+          'getblock',
+          [hash, 2],
+        )
+        for (const tx of block.tx) {
+          if (this._matchScripts(tx).size > 0) {
+            confirmed.add(tx.txid)
+            this.pendingMempool.delete(tx.txid)
+            this._emit(tx, { type: 'confirmed', txId: tx.txid })
+          }
+        }
+        this.lastHeight = h
+      }
+
+      const mempool = new Set(await this.rpc.getRawMemPool())
+      for (const txId of mempool) {
+        if (this.seenMempool.has(txId) || confirmed.has(txId)) {
+          continue
+        }
+        let tx: RawTransaction
+        try {
+          tx = await this.rpc.getRawTransaction(txId)
+        } catch {
+          // Evicted or mined since the mempool listing
+          continue
+        }
+        const scripts = this._matchScripts(tx)
+        if (scripts.size > 0) {
+          this.pendingMempool.set(txId, scripts)
+          this._emit(tx, { type: 'added-to-mempool', txId })
+        }
+      }
+
+      for (const [txId, scripts] of this.pendingMempool) {
+        if (!mempool.has(txId)) {
+          this.pendingMempool.delete(txId)
+          for (const scriptHex of scripts) {
+            for (const handler of this.handlers.get(scriptHex) ?? []) {
+              handler({ type: 'removed-from-mempool', txId })
+            }
+          }
+        }
+      }
+      this.seenMempool = mempool
+    } catch (error) {
+      console.error('[RPCBackend] Error polling subscriptions:', error)
+    } finally {
+      this.polling = false
+    }
+  }
+
+  /**
+   * Get the subscribed scripts paid by a transaction
+   */
+  private _matchScripts(tx: RawTransaction): Set<string> {
+    const scripts = new Set<string>()
+    for (const output of tx.vout) {
+      const scriptHex = output.scriptPubKey.hex
+      if (scriptHex && this.handlers.has(scriptHex)) {
+        scripts.add(scriptHex)
+      }
+    }
+    return scripts
+  }
+
+  /**
+   * Notify handlers of the scripts paid by a transaction
+   */
+  private _emit(tx: RawTransaction, event: ScriptEvent): void {
+    for (const scriptHex of this._matchScripts(tx)) {
+      for (const handler of this.handlers.get(scriptHex) ?? []) {
+        handler(event)
+      }
+    }
+  }
+}
+
+/**
+ * Convert a verbose RPC transaction to a ChainTransaction
+ */
+function toChainTransaction(
+  tx: RawTransaction,
+  blockHeight: number,
+): ChainTransaction {
+  const isCoinbase = tx.vin.length === 1 && tx.vin[0].coinbase !== undefined
+
+  return {
+    txId: tx.txid,
+    inputs: tx.vin.map(input => ({
+      txId: input.coinbase !== undefined ? '00'.repeat(32) : input.txid,
+      outputIndex: input.coinbase !== undefined ? 0xffffffff : input.vout,
+      script: input.coinbase ?? input.scriptSig?.hex ?? '',
+      sequence: input.sequence ?? 0xffffffff,
+    })),
+    outputs: tx.vout.map(output => ({
+      satoshis: toSatoshis(output.value),
+      script: output.scriptPubKey.hex ?? '',
+    })),
+    blockHeight,
+    blockHash: tx.blockhash,
+    timestamp: tx.time ?? tx.blocktime,
+    isCoinbase,
+  }
+}
+
+/**
+ * Convert an RPC coin amount to satoshis
+ */
+function toSatoshis(value: number): number {
+  return Math.round(value * SATOSHIS_PER_XPI)
+}
+
+/**
+ * Hex-encode a script argument
+ */
+function toScriptHex(script: Script | string): string {
+  return typeof script === 'string' ? script.toLowerCase() : script.toHex()
+}
@@ -0,0 +1,190 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * Chain Backend Types
+ *
+ * Backend-neutral view of the chain used by burn verification, confirmation
+ * tracking and the NFT/SwapSig flows. Amounts are in satoshis and scripts are
+ * hex-encoded, whichever service the data came from.
+ */
+
+import type { Script } from '../bitcore/script.js'
+import type { Transaction } from '../bitcore/transaction/index.js'
+
+/**
+ * Reference to a transaction output
+ */
+export interface ChainOutPoint {
+  /** Transaction ID */
+  txId: string
+
+  /** Output index */
+  outputIndex: number
+}
+
+/**
+ * Unspent output paying a script
+ */
+export interface ChainUtxo extends ChainOutPoint {
+  /** Output value in satoshis */
+  satoshis: number
+
+  /** Hex-encoded output script */
+  script: string
+
+  /** Block height of the output (-1 if in mempool) */
+  blockHeight: number
+
+  /** Whether the output was created by a coinbase transaction */
+  isCoinbase: boolean
+}
+
+/**
+ * Transaction input
+ */
+export interface ChainTxInput extends ChainOutPoint {
+  /** Hex-encoded input script */
+  script: string
+
+  /** Input sequence number */
+  sequence: number
+}
+
+/**
+ * Transaction output
+ */
+export interface ChainTxOutput {
+  /** Output value in satoshis */
+  satoshis: number
+
+  /** Hex-encoded output script */
+  script: string
+}
+
+/**
+ * Transaction as seen by a chain backend
+ */
+export interface ChainTransaction {
+  /** Transaction ID */
+  txId: string
+
+  /** Transaction inputs (outpoints spent) */
+  inputs: ChainTxInput[]
+
+  /** Transaction outputs */
+  outputs: ChainTxOutput[]
+
+  /** Height of the block containing the transaction (-1 if in mempool) */
+  blockHeight: number
+
+  /** Hash of the block containing the transaction */
+  blockHash?: string
+
+  /** Unix time the transaction was first seen or mined, if known */
+  timestamp?: number
+
+  /** Whether this is a coinbase transaction */
+  isCoinbase: boolean
+}
+
+/**
+ * Current chain tip
+ */
+export interface ChainTip {
+  /** Tip block height */
+  height: number
+
+  /** Tip block hash */
+  hash: string
+}
+
+/**
+ * Event for a transaction paying a subscribed script
+ */
+export interface ScriptEvent {
+  /** What happened to the transaction */
+  type: 'added-to-mempool' | 'removed-from-mempool' | 'confirmed'
+
+  /** Transaction ID */
+  txId: string
+}
+
+/**
+ * Handler for script subscription events
+ */
+export type ScriptEventHandler = (event: ScriptEvent) => void
+
+/**
+ * Cancels a script subscription
+ */
+export type Unsubscribe = () => void
+
+/**
+ * Chain data source
+ *
+ * Implemented by ChronikBackend (indexer), RPCBackend (lotusd JSON-RPC) and
+ * MockChainBackend (in-memory, for tests).
+ */
+export interface ChainBackend {
+  /**
+   * Whether getHistory() finds every transaction of a script, including
+   * those whose outputs to it have all been spent
+   */
+  readonly hasFullHistory: boolean
+
+  /**
+   * Get unspent outputs paying a script
+   *
+   * @param script - Output script, or its hex encoding
+   */
+  getUtxos(script: Script | string): Promise<ChainUtxo[]>
+
+  /**
+   * Get transactions paying to or spending from a script, newest first
+   *
+   * @param script - Output script, or its hex encoding
+   * @param limit - Maximum number of transactions to return (default: all)
+   */
+  getHistory(
+    script: Script | string,
+    limit?: number,
+  ): Promise<ChainTransaction[]>
+
+  /**
+   * Get a transaction
+   *
+   * @param txId - Transaction ID
+   * @returns The transaction, or null if unknown
+   */
+  getTransaction(txId: string): Promise<ChainTransaction | null>
+
+  /**
+   * Broadcast a transaction
+   *
+   * @param tx - Transaction or its serialized hex
+   * @returns Transaction ID
+   * @throws Error if the transaction is rejected
+   */
+  broadcast(tx: Transaction | string): Promise<string>
+
+  /**
+   * Get the current chain tip
+   */
+  getTip(): Promise<ChainTip>
+
+  /**
+   * Watch for transactions paying a script
+   *
+   * @param script - Output script, or its hex encoding
+   * @param handler - Called for each event
+   * @returns Function cancelling the subscription
+   */
+  subscribeToScript(
+    script: Script | string,
+    handler: ScriptEventHandler,
+  ): Promise<Unsubscribe>
+}
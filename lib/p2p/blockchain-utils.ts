@@ -5,13 +5,15 @@
  * Provides infrastructure for burn verification without enforcing policy
  */
 
-import {
-  ChronikClient,
-  type BlockchainInfo,
-  type Tx as ChronikTx,
-} from 'chronik-client'
 import { Hash } from '../bitcore/crypto/hash.js'
 import { Script } from '../bitcore/script.js'
+import {
+  ChronikBackend,
+  type ChainBackend,
+  type ChainTip,
+  type ChainTransaction,
+  type ChainUtxo,
+} from '../chain/index.js'
 
 // ============================================================================
 // Types
@@ -67,14 +69,14 @@ export interface BurnVerificationResult {
  * Protocols use this to verify burns, then apply their own requirements
  */
 export class BurnVerifier {
-  private chronik: ChronikClient
+  private backend: ChainBackend
 
   /**
    * Create a new BurnVerifier
-   * @param chronikUrl - Chronik indexer URL (e.g., 'https://chronik.lotusia.org')
+   * @param backend - Chain backend, or Chronik indexer URL (e.g., 'https://chronik.lotusia.org')
    */
-  constructor(chronikUrl: string | string[]) {
-    this.chronik = new ChronikClient(chronikUrl)
+  constructor(backend: ChainBackend | string | string[]) {
+    this.backend = resolveChainBackend(backend)
   }
 
   /**
@@ -105,23 +107,22 @@ export class BurnVerifier {
     maturationPeriod: number = 100,
   ): Promise<BurnVerificationResult | null> {
     try {
-      // Fetch transaction from blockchain using Chronik
-      const tx = await this.chronik.tx(txId)
+      // Fetch transaction from the chain backend
+      const tx = await this.backend.getTransaction(txId)
       if (!tx) {
         console.warn(`[BurnVerifier] Transaction not found: ${txId}`)
         return null
       }
 
-      // Check if transaction is mined (has block info)
-      if (!tx.block) {
+      // Check if transaction is mined
+      if (tx.blockHeight < 0) {
         console.warn(`[BurnVerifier] Transaction not mined yet: ${txId}`)
         return null
       }
 
       // Get current blockchain height and calculate confirmations
-      const blockchainInfo = await this.chronik.blockchainInfo()
-      const currentHeight = blockchainInfo.tipHeight
-      const confirmations = currentHeight - tx.block.height + 1
+      const tip = await this.backend.getTip()
+      const confirmations = tip.height - tx.blockHeight + 1
 
       // Calculate maturation status
       // Note: We return the result even if not matured - protocol decides if maturation is required
@@ -144,18 +145,17 @@ export class BurnVerifier {
       }
 
       // Parse script from hex
-      const script = Script.fromHex(output.outputScript)
+      const script = Script.fromHex(output.script)
 
       // Verify it's an OP_RETURN
       if (!script.isDataOut()) {
         console.warn(
-          `[BurnVerifier] Output ${outputIndex} is not OP_RETURN (script: ${output.outputScript})`,
+          `[BurnVerifier] Output ${outputIndex} is not OP_RETURN (script: ${output.script})`,
         )
         return null
       }
 
-      // Calculate burn amount (chronik returns value as string in satoshis)
-      const burnAmount = parseInt(output.value, 10)
+      const burnAmount = output.satoshis
 
       // Parse LOKAD prefix if present
       let lokadPrefix: Buffer | undefined
@@ -191,14 +191,14 @@ export class BurnVerifier {
         txId,
         outputIndex,
         burnAmount,
-        blockHeight: tx.block.height,
+        blockHeight: tx.blockHeight,
         confirmations,
         isMatured,
         script,
         lokadPrefix,
         lokadVersion,
         lokadPayload,
-        scriptHex: output.outputScript,
+        scriptHex: output.script,
       }
     } catch (error) {
       console.error('[BurnVerifier] Error verifying burn transaction:', error)
@@ -312,11 +312,15 @@ export interface TxConfirmationInfo {
  * Tracks transaction confirmations and emits events
  */
 export class TransactionMonitor {
-  private chronik: ChronikClient
+  private backend: ChainBackend
   private monitoredTxs: Map<string, number> = new Map() // txId -> required confirmations
 
-  constructor(chronikUrl: string | string[]) {
-    this.chronik = new ChronikClient(chronikUrl)
+  /**
+   * Create a new TransactionMonitor
+   * @param backend - Chain backend, or Chronik indexer URL(s)
+   */
+  constructor(backend: ChainBackend | string | string[]) {
+    this.backend = resolveChainBackend(backend)
   }
 
   /**
@@ -330,9 +334,9 @@ export class TransactionMonitor {
     txId: string,
     requiredConfirmations: number = 1,
   ): Promise<TxConfirmationInfo | null> {
-    let tx: ChronikTx | null = null
+    let tx: ChainTransaction | null = null
     try {
-      tx = await this.chronik.tx(txId)
+      tx = await this.backend.getTransaction(txId)
     } catch (error) {
       console.error(
         `[TxMonitor] Error checking confirmations for ${txId}:`,
@@ -345,7 +349,7 @@ export class TransactionMonitor {
       return null
     }
 
-    if (!tx.block) {
+    if (tx.blockHeight < 0) {
       // Transaction not yet mined
       return {
         txId,
@@ -356,20 +360,19 @@ export class TransactionMonitor {
     }
 
     // Calculate confirmations
-    let blockchainInfo: BlockchainInfo | null = null
+    let tip: ChainTip
     try {
-      blockchainInfo = await this.chronik.blockchainInfo()
+      tip = await this.backend.getTip()
     } catch (error) {
-      console.error(`[TxMonitor] Error getting blockchain info:`, error)
+      console.error(`[TxMonitor] Error getting chain tip:`, error)
       return null
     }
 
-    const currentHeight = blockchainInfo.tipHeight
-    const confirmations = currentHeight - tx.block.height + 1
+    const confirmations = tip.height - tx.blockHeight + 1
 
     return {
       txId,
-      blockHeight: tx.block.height,
+      blockHeight: tx.blockHeight,
       confirmations,
       isConfirmed: confirmations >= requiredConfirmations,
     }
@@ -417,9 +420,9 @@ export class TransactionMonitor {
    */
   async broadcastTransaction(txHex: string): Promise<string | null> {
     try {
-      const result = await this.chronik.broadcastTx(txHex)
-      console.log(`[TxMonitor] Broadcast successful: ${result.txid}`)
-      return result.txid
+      const txId = await this.backend.broadcast(txHex)
+      console.log(`[TxMonitor] Broadcast successful: ${txId}`)
+      return txId
     } catch (error) {
       console.error('[TxMonitor] Broadcast failed:', error)
       return null
@@ -432,9 +435,9 @@ export class TransactionMonitor {
    * @param txId - Transaction ID
    * @returns Transaction details or null
    */
-  async getTransaction(txId: string) {
+  async getTransaction(txId: string): Promise<ChainTransaction | null> {
     try {
-      return await this.chronik.tx(txId)
+      return await this.backend.getTransaction(txId)
     } catch (error) {
       console.error(`[TxMonitor] Error fetching transaction ${txId}:`, error)
       return null
@@ -447,12 +450,9 @@ export class TransactionMonitor {
    * @param address - Lotus address
    * @returns Array of UTXOs
    */
-  async getUtxos(address: string) {
+  async getUtxos(address: string): Promise<ChainUtxo[]> {
     try {
-      const script = Script.fromAddress(address)
-      const scriptHex = script.toHex()
-      const utxos = await this.chronik.script('p2pkh', scriptHex).utxos()
-      return utxos[0]?.utxos || []
+      return await this.backend.getUtxos(Script.fromAddress(address))
     } catch (error) {
       console.error(`[TxMonitor] Error fetching UTXOs for ${address}:`, error)
       return []
@@ -482,3 +482,14 @@ export class TransactionMonitor {
     return results
   }
 }
+
+/**
+ * Use a chain backend as-is, or create a Chronik backend from URL(s)
+ */
+function resolveChainBackend(
+  backend: ChainBackend | string | string[],
+): ChainBackend {
+  return typeof backend === 'string' || Array.isArray(backend)
+    ? new ChronikBackend(backend)
+    : backend
+}
@@ -0,0 +1,1318 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * FROST P2P Coordinator
+ *
+ * Runs FROST distributed key generation and threshold signing over the P2P
+ * network, alongside MuSig2P2PCoordinator on the same P2PCoordinator.
+ *
+ * DKG (every participant talks to every participant):
+ * 1. The initiator sends DKG_REQUEST; participants accept with joinDkg()
+ * 2. Every participant broadcasts its round 1 package (DKG_COMMITMENT)
+ * 3. Once all packages are received, every participant sends each other
+ *    participant its secret share (DKG_SHARE), encrypted with an ECDH key
+ *    between their identity keys
+ * 4. Every participant verifies its shares, derives its key share and
+ *    broadcasts a hash of all round 1 packages (DKG_CONFIRM); the ceremony
+ *    completes once all hashes match, which detects participants sending
+ *    different packages to different peers
+ *
+ * Signing (the initiator collects and aggregates, RFC 9591 coordinator role):
+ * 1. The initiator picks any threshold-sized set of online signers and sends
+ *    SIGNING_REQUEST; signers accept with approveSigning() and return their
+ *    nonce commitments (NONCE_COMMITMENT)
+ * 2. The initiator sends the commitment list (SIGNING_PACKAGE); signers
+ *    return partial signatures (SIGNATURE_SHARE)
+ * 3. The initiator verifies every partial signature, aggregates and sends
+ *    the signature to the signers (SIGNING_COMPLETE)
+ *
+ * Identifiable aborts: invalid packages, shares or partial signatures abort
+ * the ceremony or session with the culprit indices, and timeouts name the
+ * participants that did not respond. Retry without them.
+ */
+
+import { EventEmitter } from 'events'
+import { P2PCoordinator } from '../coordinator.js'
+import type { PeerInfo } from '../types.js'
+import { P2PProtocol } from '../protocol.js'
+import { FrostProtocolHandler } from './protocol.js'
+import { FrostP2PError, FrostSessionNotFoundError } from './errors.js'
+import {
+  FrostEvent,
+  FrostMessageType,
+  DEFAULT_FROST_P2P_CONFIG,
+  type FrostEventMap,
+  type FrostP2PConfig,
+  type FrostParticipant,
+  type FrostGroup,
+  type FrostDkgRequest,
+  type FrostSigningRequest,
+  type SerializedSigningCommitment,
+  type DkgRequestPayload,
+  type DkgCommitmentPayload,
+  type DkgSharePayload,
+  type DkgConfirmPayload,
+  type SigningRequestPayload,
+  type NonceCommitmentPayload,
+  type SigningPackagePayload,
+  type SignatureSharePayload,
+  type SigningCompletePayload,
+  type FrostAbortPayload,
+} from './types.js'
+import {
+  serializePoint,
+  deserializePoint,
+  serializeBN,
+  deserializeBN,
+  serializePublicKey,
+  deserializePublicKey,
+  serializeMessage,
+  deserializeMessage,
+} from '../musig2/serialization.js'
+import {
+  frostDkgRound1,
+  frostDkgRound2,
+  frostDkgFinalize,
+  frostVerifyDkgCommitment,
+  frostNonceGen,
+  frostPartialSign,
+  frostPartialSigVerify,
+  frostSigAgg,
+  FrostError,
+  type FrostDkgCommitment,
+  type FrostDkgSecret,
+  type FrostKeyShare,
+  type FrostNonce,
+  type FrostSigningCommitment,
+} from '../../bitcore/crypto/frost.js'
+import { PrivateKey } from '../../bitcore/privatekey.js'
+import { PublicKey } from '../../bitcore/publickey.js'
+import { Point, BN } from '../../bitcore/crypto/index.js'
+import { Hash } from '../../bitcore/crypto/hash.js'
+import { Random } from '../../bitcore/crypto/random.js'
+import { Schnorr } from '../../bitcore/crypto/schnorr.js'
+import { Signature } from '../../bitcore/crypto/signature.js'
+
+/** Maximum buffered DKG messages per ceremony not yet requested */
+const MAX_EARLY_MESSAGES = 64
+
+/**
+ * Local state of a DKG ceremony
+ */
+interface DkgCeremony {
+  sessionId: string
+  initiatorPeerId: string
+  threshold: number
+  participants: FrostParticipant[]
+  myIndex: number
+  /** Context bound into the round 1 proofs of knowledge */
+  context: Buffer
+  privateKey?: PrivateKey
+  secret?: FrostDkgSecret
+  commitments: Map<number, FrostDkgCommitment>
+  encryptedShares: Map<number, string>
+  sharesSent: boolean
+  keyShare?: FrostKeyShare
+  transcriptHash?: string
+  confirmations: Map<number, string>
+}
+
+/**
+ * Local state of a signing session
+ */
+interface SigningSession {
+  sessionId: string
+  initiatorPeerId: string
+  isInitiator: boolean
+  groupPublicKey: PublicKey
+  message: Buffer
+  signers: number[]
+  tweak?: Buffer
+  group?: FrostGroup
+  nonce?: FrostNonce
+  commitments: Map<number, FrostSigningCommitment>
+  partialSigs: Map<number, BN>
+}
+
+/**
+ * FROST P2P Coordinator
+ *
+ * Uses an already-instantiated P2PCoordinator (caller manages lifecycle).
+ */
+export class FrostP2PCoordinator extends EventEmitter<FrostEventMap> {
+  private coordinator: P2PCoordinator
+  private protocolHandler: FrostProtocolHandler
+  private protocol: P2PProtocol
+  private config: Required<FrostP2PConfig>
+
+  // DKG ceremonies by session ID
+  private ceremonies: Map<string, DkgCeremony> = new Map()
+
+  // Signing sessions by session ID
+  private signingSessions: Map<string, SigningSession> = new Map()
+
+  // DKG messages received before their ceremony request
+  private earlyMessages: Map<
+    string,
+    { type: FrostMessageType; payload: unknown; from: string }[]
+  > = new Map()
+
+  // Ceremony and session timeouts by session ID
+  private timeouts: Map<string, NodeJS.Timeout> = new Map()
+
+  /**
+   * Create a FrostP2PCoordinator
+   *
+   * @param coordinator - An already-instantiated P2PCoordinator (caller manages lifecycle)
+   * @param frostConfig - FROST-specific configuration
+   */
+  constructor(coordinator: P2PCoordinator, frostConfig?: FrostP2PConfig) {
+    super()
+
+    this.config = {
+      ...DEFAULT_FROST_P2P_CONFIG,
+      ...frostConfig,
+    }
+    this.coordinator = coordinator
+    this.protocolHandler = new FrostProtocolHandler()
+    this.protocol = new P2PProtocol()
+
+    this.coordinator.registerProtocol(this.protocolHandler)
+    this._setupProtocolHandlers()
+  }
+
+  /**
+   * Cleanup FROST state
+   *
+   * NOTE: The caller is responsible for stopping the P2PCoordinator.
+   */
+  async cleanup(): Promise<void> {
+    for (const timeout of this.timeouts.values()) {
+      clearTimeout(timeout)
+    }
+    this.timeouts.clear()
+    this.ceremonies.clear()
+    this.signingSessions.clear()
+    this.earlyMessages.clear()
+  }
+
+  /**
+   * Get this node's peer ID
+   */
+  get peerId(): string {
+    return this.coordinator.peerId
+  }
+
+  // ============================================================================
+  // Distributed Key Generation
+  // ============================================================================
+
+  /**
+   * Start a DKG ceremony
+   *
+   * Participant indices follow the order of `participants` (first is 1).
+   * This node joins the ceremony immediately.
+   *
+   * @param participants - All participants, including this node
+   * @param threshold - Minimum number of signers
+   * @param privateKey - This node's identity key (must match its participant entry)
+   * @returns Ceremony session ID
+   */
+  async createDkg(
+    participants: FrostParticipant[],
+    threshold: number,
+    privateKey: PrivateKey,
+  ): Promise<string> {
+    const peerIds = new Set(participants.map(p => p.peerId))
+    const keys = new Set(participants.map(p => p.publicKey.toString()))
+    if (
+      participants.length < 2 ||
+      peerIds.size !== participants.length ||
+      keys.size !== participants.length
+    ) {
+      throw new FrostP2PError(
+        'DKG requires at least 2 participants with unique peers and keys',
+      )
+    }
+    if (
+      !Number.isInteger(threshold) ||
+      threshold < 1 ||
+      threshold > participants.length
+    ) {
+      throw new FrostP2PError(
+        `Invalid threshold ${threshold} for ${participants.length} participants`,
+      )
+    }
+
+    const sessionId = Random.getRandomBuffer(32).toString('hex')
+    const ceremony = this._trackCeremony(sessionId, this.peerId, {
+      threshold,
+      participants,
+    })
+    if (!ceremony) {
+      throw new FrostP2PError('This node is not a DKG participant')
+    }
+
+    await this._send(this._otherPeers(participants), {
+      type: FrostMessageType.DKG_REQUEST,
+      payload: {
+        sessionId,
+        threshold,
+        participants: participants.map(p => ({
+          peerId: p.peerId,
+          publicKey: serializePublicKey(p.publicKey),
+        })),
+      } satisfies DkgRequestPayload,
+    })
+
+    await this.joinDkg(sessionId, privateKey)
+    return sessionId
+  }
+
+  /**
+   * Join a DKG ceremony requested by another participant
+   *
+   * @param sessionId - Ceremony session ID (from FrostEvent.DKG_REQUESTED)
+   * @param privateKey - This node's identity key (must match its participant entry)
+   */
+  async joinDkg(sessionId: string, privateKey: PrivateKey): Promise<void> {
+    const ceremony = this.ceremonies.get(sessionId)
+    if (!ceremony) {
+      throw new FrostSessionNotFoundError(sessionId)
+    }
+    if (ceremony.secret) {
+      throw new FrostP2PError(`Already joined DKG ${sessionId}`)
+    }
+    const me = ceremony.participants[ceremony.myIndex - 1]
+    if (privateKey.publicKey.toString() !== me.publicKey.toString()) {
+      throw new FrostP2PError(
+        'Private key does not match this node participant key',
+      )
+    }
+
+    ceremony.privateKey = privateKey
+    ceremony.secret = frostDkgRound1(
+      ceremony.myIndex,
+      ceremony.threshold,
+      ceremony.participants.length,
+      ceremony.context,
+    )
+    ceremony.commitments.set(ceremony.myIndex, ceremony.secret.commitment)
+
+    const { commitments, proofOfKnowledge } = ceremony.secret.commitment
+    await this._send(this._otherPeers(ceremony.participants), {
+      type: FrostMessageType.DKG_COMMITMENT,
+      payload: {
+        sessionId,
+        participantIndex: ceremony.myIndex,
+        commitments: commitments.map(serializePoint),
+        proofR: serializePoint(proofOfKnowledge.R),
+        proofMu: serializeBN(proofOfKnowledge.mu),
+      } satisfies DkgCommitmentPayload,
+    })
+
+    await this._advanceDkg(ceremony)
+  }
+
+  /**
+   * Start tracking a ceremony and replay messages received before it
+   *
+   * @returns The ceremony, or undefined if this node is not a participant
+   */
+  private _trackCeremony(
+    sessionId: string,
+    initiatorPeerId: string,
+    request: Pick<FrostDkgRequest, 'threshold' | 'participants'>,
+  ): DkgCeremony | undefined {
+    const { threshold, participants } = request
+    const myIndex = participants.findIndex(p => p.peerId === this.peerId) + 1
+    if (myIndex === 0) {
+      return undefined
+    }
+
+    const ceremony: DkgCeremony = {
+      sessionId,
+      initiatorPeerId,
+      threshold,
+      participants,
+      myIndex,
+      context: Hash.sha256(
+        Buffer.concat([
+          Buffer.from(sessionId, 'utf8'),
+          Buffer.from([threshold]),
+          ...participants.map(p => p.publicKey.toBuffer()),
+        ]),
+      ),
+      commitments: new Map(),
+      encryptedShares: new Map(),
+      sharesSent: false,
+      confirmations: new Map(),
+    }
+    this.ceremonies.set(sessionId, ceremony)
+    this._startTimeout(sessionId, this.config.dkgTimeout, () =>
+      this._abortDkg(
+        ceremony,
+        'DKG timed out',
+        this._missingDkgParticipants(ceremony),
+      ),
+    )
+
+    const early = this.earlyMessages.get(sessionId) ?? []
+    this.earlyMessages.delete(sessionId)
+    for (const { type, payload, from } of early) {
+      this._dispatch(type, payload, from)
+    }
+    return ceremony
+  }
+
+  /**
+   * Move a joined ceremony forward once the messages for a step are in
+   */
+  private async _advanceDkg(ceremony: DkgCeremony): Promise<void> {
+    const { secret, privateKey, participants, myIndex, sessionId } = ceremony
+    if (!secret || !privateKey || !this.ceremonies.has(sessionId)) {
+      return
+    }
+    const n = participants.length
+
+    // Round 2: send encrypted shares once all round 1 packages are in
+    if (!ceremony.sharesSent && ceremony.commitments.size === n) {
+      ceremony.sharesSent = true
+      for (const [index, share] of frostDkgRound2(secret)) {
+        const recipient = participants[index - 1]
+        await this._send([recipient.peerId], {
+          type: FrostMessageType.DKG_SHARE,
+          payload: {
+            sessionId,
+            participantIndex: myIndex,
+            recipientIndex: index,
+            encryptedShare: encryptShare(
+              share,
+              shareKey(
+                privateKey,
+                recipient.publicKey,
+                sessionId,
+                myIndex,
+                index,
+              ),
+            ),
+          } satisfies DkgSharePayload,
+        })
+      }
+    }
+
+    // Finalize once all shares are in
+    if (
+      !ceremony.keyShare &&
+      ceremony.sharesSent &&
+      ceremony.encryptedShares.size === n - 1
+    ) {
+      const shares = new Map<number, BN>()
+      for (const [index, encrypted] of ceremony.encryptedShares) {
+        const sender = participants[index - 1]
+        shares.set(
+          index,
+          decryptShare(
+            encrypted,
+            shareKey(privateKey, sender.publicKey, sessionId, index, myIndex),
+          ),
+        )
+      }
+
+      try {
+        ceremony.keyShare = frostDkgFinalize(
+          secret,
+          [...ceremony.commitments]
+            .filter(([index]) => index !== myIndex)
+            .map(([, commitment]) => commitment),
+          shares,
+        )
+      } catch (error) {
+        if (error instanceof FrostError) {
+          await this._abortDkg(ceremony, error.message, error.culprits)
+          return
+        }
+        throw error
+      }
+
+      ceremony.transcriptHash = dkgTranscriptHash(ceremony)
+      ceremony.confirmations.set(myIndex, ceremony.transcriptHash)
+      await this._send(this._otherPeers(participants), {
+        type: FrostMessageType.DKG_CONFIRM,
+        payload: {
+          sessionId,
+          participantIndex: myIndex,
+          transcriptHash: ceremony.transcriptHash,
+        } satisfies DkgConfirmPayload,
+      })
+    }
+
+    // Complete once every participant confirmed the same transcript
+    if (ceremony.keyShare && ceremony.confirmations.size === n) {
+      const mismatched = [...ceremony.confirmations]
+        .filter(([, hash]) => hash !== ceremony.transcriptHash)
+        .map(([index]) => index)
+      if (mismatched.length > 0) {
+        await this._abortDkg(
+          ceremony,
+          'Participants saw different DKG packages',
+          mismatched,
+        )
+        return
+      }
+
+      this._clearTimeout(sessionId)
+      this.ceremonies.delete(sessionId)
+      console.log(`[FROST] DKG ${sessionId} complete`)
+      this.emit(FrostEvent.DKG_COMPLETE, sessionId, {
+        keyShare: ceremony.keyShare,
+        participants,
+      })
+    }
+  }
+
+  private _handleDkgRequest = async (
+    payload: DkgRequestPayload,
+    fromPeerId: string,
+  ): Promise<void> => {
+    if (this.ceremonies.has(payload.sessionId)) {
+      return
+    }
+    const participants = payload.participants.map(p => ({
+      peerId: p.peerId,
+      publicKey: deserializePublicKey(p.publicKey),
+    }))
+    if (!participants.some(p => p.peerId === fromPeerId)) {
+      console.warn(`[FROST] Ignoring DKG request from non-participant`)
+      return
+    }
+
+    const request: FrostDkgRequest = {
+      initiatorPeerId: fromPeerId,
+      threshold: payload.threshold,
+      participants,
+    }
+    if (this._trackCeremony(payload.sessionId, fromPeerId, request)) {
+      this.emit(FrostEvent.DKG_REQUESTED, payload.sessionId, request)
+    }
+  }
+
+  private _handleDkgCommitment = async (
+    payload: DkgCommitmentPayload,
+    fromPeerId: string,
+  ): Promise<void> => {
+    const ceremony = this._ceremonyFrom(
+      FrostMessageType.DKG_COMMITMENT,
+      payload,
+      fromPeerId,
+    )
+    if (!ceremony || ceremony.commitments.has(payload.participantIndex)) {
+      return
+    }
+
+    const commitment: FrostDkgCommitment = {
+      participantIndex: payload.participantIndex,
+      commitments: payload.commitments.map(deserializePoint),
+      proofOfKnowledge: {
+        R: deserializePoint(payload.proofR),
+        mu: deserializeBN(payload.proofMu),
+      },
+    }
+    if (
+      !frostVerifyDkgCommitment(
+        commitment,
+        ceremony.threshold,
+        ceremony.context,
+      )
+    ) {
+      await this._abortDkg(ceremony, 'Invalid DKG commitment', [
+        payload.participantIndex,
+      ])
+      return
+    }
+
+    ceremony.commitments.set(payload.participantIndex, commitment)
+    await this._advanceDkg(ceremony)
+  }
+
+  private _handleDkgShare = async (
+    payload: DkgSharePayload,
+    fromPeerId: string,
+  ): Promise<void> => {
+    const ceremony = this._ceremonyFrom(
+      FrostMessageType.DKG_SHARE,
+      payload,
+      fromPeerId,
+    )
+    if (
+      !ceremony ||
+      payload.recipientIndex !== ceremony.myIndex ||
+      ceremony.encryptedShares.has(payload.participantIndex)
+    ) {
+      return
+    }
+    ceremony.encryptedShares.set(
+      payload.participantIndex,
+      payload.encryptedShare,
+    )
+    await this._advanceDkg(ceremony)
+  }
+
+  private _handleDkgConfirm = async (
+    payload: DkgConfirmPayload,
+    fromPeerId: string,
+  ): Promise<void> => {
+    const ceremony = this._ceremonyFrom(
+      FrostMessageType.DKG_CONFIRM,
+      payload,
+      fromPeerId,
+    )
+    if (!ceremony || ceremony.confirmations.has(payload.participantIndex)) {
+      return
+    }
+    ceremony.confirmations.set(payload.participantIndex, payload.transcriptHash)
+    await this._advanceDkg(ceremony)
+  }
+
+  /**
+   * Get the ceremony of a DKG message whose sender matches its index
+   *
+   * Messages for ceremonies not requested yet are buffered.
+   */
+  private _ceremonyFrom(
+    type: FrostMessageType,
+    payload: { sessionId: string; participantIndex: number },
+    fromPeerId: string,
+  ): DkgCeremony | undefined {
+    const ceremony = this.ceremonies.get(payload.sessionId)
+    if (!ceremony) {
+      const early = this.earlyMessages.get(payload.sessionId) ?? []
+      if (early.length < MAX_EARLY_MESSAGES) {
+        early.push({ type, payload, from: fromPeerId })
+        this.earlyMessages.set(payload.sessionId, early)
+      }
+      return undefined
+    }
+    if (
+      ceremony.participants[payload.participantIndex - 1]?.peerId !== fromPeerId
+    ) {
+      console.warn(
+        `[FROST] Ignoring ${type} from ${fromPeerId}: not participant ${payload.participantIndex}`,
+      )
+      return undefined
+    }
+    return ceremony
+  }
+
+  /**
+   * Participants this node is still waiting for in the current DKG step
+   */
+  private _missingDkgParticipants(ceremony: DkgCeremony): number[] {
+    const received = !ceremony.sharesSent
+      ? ceremony.commitments
+      : !ceremony.keyShare
+        ? new Map([
+            ...ceremony.encryptedShares,
+            [ceremony.myIndex, ''] as [number, string],
+          ])
+        : ceremony.confirmations
+    return ceremony.participants
+      .map((_, i) => i + 1)
+      .filter(index => !received.has(index))
+  }
+
+  private async _abortDkg(
+    ceremony: DkgCeremony,
+    reason: string,
+    culprits: number[],
+    notify = true,
+  ): Promise<void> {
+    if (!this.ceremonies.delete(ceremony.sessionId)) {
+      return
+    }
+    this._clearTimeout(ceremony.sessionId)
+    console.warn(`[FROST] DKG ${ceremony.sessionId} aborted: ${reason}`)
+    this.emit(FrostEvent.DKG_ABORTED, ceremony.sessionId, reason, culprits)
+    if (notify) {
+      await this._sendAbort(
+        this._otherPeers(ceremony.participants),
+        ceremony.sessionId,
+        reason,
+        culprits,
+      )
+    }
+  }
+
+  // ============================================================================
+  // Signing
+  // ============================================================================
+
+  /**
+   * Request a signature from a signing set
+   *
+   * This node collects the nonce commitments and partial signatures and
+   * aggregates them. It signs too if its index is in `signers`.
+   *
+   * @param group - Group membership of this node (from FrostEvent.DKG_COMPLETE)
+   * @param message - 32-byte message to sign (typically transaction sighash)
+   * @param signers - Indices of at least threshold online participants
+   * @param tweak - Optional Taproot tweak (buildFrostTaprootKey().tweak)
+   * @returns Signing session ID
+   */
+  async requestSignature(
+    group: FrostGroup,
+    message: Buffer,
+    signers: number[],
+    tweak?: Buffer,
+  ): Promise<string> {
+    const { keyShare, participants } = group
+    if (message.length !== 32) {
+      throw new FrostP2PError('Message must be 32 bytes')
+    }
+    const sorted = [...new Set(signers)].sort((a, b) => a - b)
+    if (
+      sorted.length !== signers.length ||
+      sorted.length < keyShare.threshold ||
+      sorted.some(index => !participants[index - 1])
+    ) {
+      throw new FrostP2PError(
+        `Signing set must have at least ${keyShare.threshold} distinct participants`,
+      )
+    }
+
+    const sessionId = Random.getRandomBuffer(32).toString('hex')
+    const session: SigningSession = {
+      sessionId,
+      initiatorPeerId: this.peerId,
+      isInitiator: true,
+      groupPublicKey: keyShare.groupPublicKey,
+      message,
+      signers: sorted,
+      tweak,
+      group,
+      commitments: new Map(),
+      partialSigs: new Map(),
+    }
+    this._trackSigningSession(session)
+
+    await this._send(this._signerPeers(session), {
+      type: FrostMessageType.SIGNING_REQUEST,
+      payload: {
+        sessionId,
+        groupPublicKey: serializePublicKey(keyShare.groupPublicKey),
+        message: serializeMessage(message),
+        signers: sorted,
+        tweak: tweak ? serializeMessage(tweak) : undefined,
+      } satisfies SigningRequestPayload,
+    })
+
+    if (sorted.includes(keyShare.participantIndex)) {
+      session.nonce = frostNonceGen(keyShare, message)
+      session.commitments.set(
+        keyShare.participantIndex,
+        session.nonce.commitment,
+      )
+      await this._checkCommitments(session)
+    }
+    return sessionId
+  }
+
+  /**
+   * Approve a signing request and send this node's nonce commitment
+   *
+   * @param sessionId - Signing session ID (from FrostEvent.SIGNING_REQUESTED)
+   * @param group - Group membership of this node for the requested group key
+   */
+  async approveSigning(sessionId: string, group: FrostGroup): Promise<void> {
+    const session = this.signingSessions.get(sessionId)
+    if (!session) {
+      throw new FrostSessionNotFoundError(sessionId)
+    }
+    const { keyShare, participants } = group
+    if (session.group) {
+      throw new FrostP2PError(`Already approved signing session ${sessionId}`)
+    }
+    if (
+      keyShare.groupPublicKey.toString() !== session.groupPublicKey.toString()
+    ) {
+      throw new FrostP2PError('Group does not match the requested group key')
+    }
+    if (
+      !session.signers.includes(keyShare.participantIndex) ||
+      !participants.some(p => p.peerId === session.initiatorPeerId) ||
+      session.signers.some(index => !participants[index - 1])
+    ) {
+      throw new FrostP2PError('Signing request does not match the group')
+    }
+
+    session.group = group
+    session.nonce = frostNonceGen(keyShare, session.message)
+    const { participantIndex, hiding, binding } = session.nonce.commitment
+    await this._send([session.initiatorPeerId], {
+      type: FrostMessageType.NONCE_COMMITMENT,
+      payload: {
+        sessionId,
+        participantIndex,
+        hiding: serializePoint(hiding),
+        binding: serializePoint(binding),
+      } satisfies NonceCommitmentPayload,
+    })
+  }
+
+  /**
+   * Abort a signing session
+   */
+  async abortSigning(sessionId: string, reason: string): Promise<void> {
+    const session = this.signingSessions.get(sessionId)
+    if (!session) {
+      throw new FrostSessionNotFoundError(sessionId)
+    }
+    await this._abortSigning(session, reason, [])
+  }
+
+  private _trackSigningSession(session: SigningSession): void {
+    this.signingSessions.set(session.sessionId, session)
+    this._startTimeout(session.sessionId, this.config.signingTimeout, () =>
+      this._abortSigning(
+        session,
+        'Signing timed out',
+        session.isInitiator ? this._missingSigners(session) : [],
+      ),
+    )
+  }
+
+  private _handleSigningRequest = async (
+    payload: SigningRequestPayload,
+    fromPeerId: string,
+  ): Promise<void> => {
+    if (this.signingSessions.has(payload.sessionId)) {
+      return
+    }
+    const message = deserializeMessage(payload.message)
+    if (message.length !== 32 || !Array.isArray(payload.signers)) {
+      console.warn(`[FROST] Ignoring malformed signing request`)
+      return
+    }
+
+    const request: FrostSigningRequest = {
+      initiatorPeerId: fromPeerId,
+      groupPublicKey: deserializePublicKey(payload.groupPublicKey),
+      message,
+      signers: payload.signers,
+      tweak: payload.tweak ? deserializeMessage(payload.tweak) : undefined,
+    }
+    this._trackSigningSession({
+      sessionId: payload.sessionId,
+      isInitiator: false,
+      ...request,
+      commitments: new Map(),
+      partialSigs: new Map(),
+    })
+    this.emit(FrostEvent.SIGNING_REQUESTED, payload.sessionId, request)
+  }
+
+  private _handleNonceCommitment = async (
+    payload: NonceCommitmentPayload,
+    fromPeerId: string,
+  ): Promise<void> => {
+    const session = this._initiatedSessionFrom(payload, fromPeerId)
+    if (!session || session.commitments.has(payload.participantIndex)) {
+      return
+    }
+    session.commitments.set(
+      payload.participantIndex,
+      deserializeCommitment(payload),
+    )
+    await this._checkCommitments(session)
+  }
+
+  /**
+   * Send the signing package once all signers committed (initiator)
+   */
+  private async _checkCommitments(session: SigningSession): Promise<void> {
+    if (session.commitments.size !== session.signers.length) {
+      return
+    }
+    const commitments = [...session.commitments.values()]
+    await this._send(this._signerPeers(session), {
+      type: FrostMessageType.SIGNING_PACKAGE,
+      payload: {
+        sessionId: session.sessionId,
+        commitments: commitments.map(serializeCommitment),
+      } satisfies SigningPackagePayload,
+    })
+
+    if (session.nonce) {
+      const { keyShare } = session.group!
+      session.partialSigs.set(
+        keyShare.participantIndex,
+        this._partialSign(session, commitments),
+      )
+      await this._checkPartialSigs(session)
+    }
+  }
+
+  private _handleSigningPackage = async (
+    payload: SigningPackagePayload,
+    fromPeerId: string,
+  ): Promise<void> => {
+    const session = this.signingSessions.get(payload.sessionId)
+    if (
+      !session ||
+      session.isInitiator ||
+      !session.nonce ||
+      fromPeerId !== session.initiatorPeerId
+    ) {
+      return
+    }
+
+    const commitments = payload.commitments.map(deserializeCommitment)
+    const indices = commitments
+      .map(c => c.participantIndex)
+      .sort((a, b) => a - b)
+    if (indices.join() !== session.signers.join()) {
+      await this._abortSigning(session, 'Signing package does not match', [])
+      return
+    }
+
+    let partialSig: BN
+    try {
+      partialSig = this._partialSign(session, commitments)
+    } catch (error) {
+      // Our own nonce commitment was replaced
+      await this._abortSigning(
+        session,
+        error instanceof Error ? error.message : String(error),
+        [],
+      )
+      return
+    }
+
+    await this._send([session.initiatorPeerId], {
+      type: FrostMessageType.SIGNATURE_SHARE,
+      payload: {
+        sessionId: session.sessionId,
+        participantIndex: session.group!.keyShare.participantIndex,
+        partialSig: serializeBN(partialSig),
+      } satisfies SignatureSharePayload,
+    })
+  }
+
+  /**
+   * Sign with this node's nonce, which is then discarded
+   */
+  private _partialSign(
+    session: SigningSession,
+    commitments: FrostSigningCommitment[],
+  ): BN {
+    const nonce = session.nonce!
+    session.nonce = undefined
+    return frostPartialSign(
+      nonce,
+      session.group!.keyShare,
+      commitments,
+      session.message,
+      session.tweak,
+    )
+  }
+
+  private _handleSignatureShare = async (
+    payload: SignatureSharePayload,
+    fromPeerId: string,
+  ): Promise<void> => {
+    const session = this._initiatedSessionFrom(payload, fromPeerId)
+    if (
+      !session ||
+      session.commitments.size !== session.signers.length ||
+      session.partialSigs.has(payload.participantIndex)
+    ) {
+      return
+    }
+
+    const partialSig = deserializeBN(payload.partialSig)
+    if (
+      !frostPartialSigVerify(
+        partialSig,
+        payload.participantIndex,
+        session.group!.keyShare,
+        [...session.commitments.values()],
+        session.message,
+        session.tweak,
+      )
+    ) {
+      await this._abortSigning(session, 'Invalid partial signature', [
+        payload.participantIndex,
+      ])
+      return
+    }
+
+    session.partialSigs.set(payload.participantIndex, partialSig)
+    await this._checkPartialSigs(session)
+  }
+
+  /**
+   * Aggregate once all partial signatures are in (initiator)
+   */
+  private async _checkPartialSigs(session: SigningSession): Promise<void> {
+    if (session.partialSigs.size !== session.signers.length) {
+      return
+    }
+
+    let signature: Signature
+    try {
+      signature = frostSigAgg(
+        session.partialSigs,
+        [...session.commitments.values()],
+        session.message,
+        session.group!.keyShare,
+        session.tweak,
+      )
+    } catch (error) {
+      if (error instanceof FrostError) {
+        await this._abortSigning(session, error.message, error.culprits)
+        return
+      }
+      throw error
+    }
+
+    await this._send(this._signerPeers(session), {
+      type: FrostMessageType.SIGNING_COMPLETE,
+      payload: {
+        sessionId: session.sessionId,
+        signature: signature.toBuffer('schnorr').toString('hex'),
+      } satisfies SigningCompletePayload,
+    })
+    this._completeSigning(session, signature)
+  }
+
+  private _handleSigningComplete = async (
+    payload: SigningCompletePayload,
+    fromPeerId: string,
+  ): Promise<void> => {
+    const session = this.signingSessions.get(payload.sessionId)
+    if (!session || fromPeerId !== session.initiatorPeerId) {
+      return
+    }
+
+    const signature = Signature.fromSchnorr(
+      Buffer.from(payload.signature, 'hex'),
+    )
+    if (
+      !Schnorr.verify(session.message, signature, signingKey(session), 'big')
+    ) {
+      await this._abortSigning(session, 'Invalid final signature', [], false)
+      return
+    }
+    this._completeSigning(session, signature)
+  }
+
+  private _completeSigning(
+    session: SigningSession,
+    signature: Signature,
+  ): void {
+    this._clearTimeout(session.sessionId)
+    this.signingSessions.delete(session.sessionId)
+    console.log(`[FROST] Signing session ${session.sessionId} complete`)
+    this.emit(FrostEvent.SIGNING_COMPLETE, session.sessionId, signature)
+  }
+
+  /**
+   * Get a session initiated by this node for a message from one of its signers
+   */
+  private _initiatedSessionFrom(
+    payload: { sessionId: string; participantIndex: number },
+    fromPeerId: string,
+  ): SigningSession | undefined {
+    const session = this.signingSessions.get(payload.sessionId)
+    if (
+      !session?.isInitiator ||
+      !session.signers.includes(payload.participantIndex) ||
+      session.group!.participants[payload.participantIndex - 1].peerId !==
+        fromPeerId
+    ) {
+      return undefined
+    }
+    return session
+  }
+
+  /**
+   * Signers the initiator is still waiting for
+   */
+  private _missingSigners(session: SigningSession): number[] {
+    const received =
+      session.commitments.size < session.signers.length
+        ? session.commitments
+        : session.partialSigs
+    return session.signers.filter(index => !received.has(index))
+  }
+
+  private async _abortSigning(
+    session: SigningSession,
+    reason: string,
+    culprits: number[],
+    notify = true,
+  ): Promise<void> {
+    if (!this.signingSessions.delete(session.sessionId)) {
+      return
+    }
+    this._clearTimeout(session.sessionId)
+    console.warn(
+      `[FROST] Signing session ${session.sessionId} aborted: ${reason}`,
+    )
+    this.emit(FrostEvent.SIGNING_ABORTED, session.sessionId, reason, culprits)
+    if (notify) {
+      await this._sendAbort(
+        session.isInitiator
+          ? this._signerPeers(session)
+          : [session.initiatorPeerId],
+        session.sessionId,
+        reason,
+        culprits,
+      )
+    }
+  }
+
+  // ============================================================================
+  // Aborts
+  // ============================================================================
+
+  private _handleAbort = async (
+    payload: FrostAbortPayload,
+    fromPeerId: string,
+  ): Promise<void> => {
+    const culprits = Array.isArray(payload.culprits) ? payload.culprits : []
+    const reason = `${fromPeerId} aborted: ${payload.reason}`
+
+    const ceremony = this.ceremonies.get(payload.sessionId)
+    if (ceremony?.participants.some(p => p.peerId === fromPeerId)) {
+      await this._abortDkg(ceremony, reason, culprits, false)
+      return
+    }
+
+    const session = this.signingSessions.get(payload.sessionId)
+    if (
+      session &&
+      (fromPeerId === session.initiatorPeerId ||
+        (session.isInitiator &&
+          this._signerPeers(session).includes(fromPeerId)))
+    ) {
+      await this._abortSigning(session, reason, culprits, false)
+    }
+  }
+
+  private async _sendAbort(
+    peerIds: string[],
+    sessionId: string,
+    reason: string,
+    culprits: number[],
+  ): Promise<void> {
+    await this._send(peerIds, {
+      type: FrostMessageType.ABORT,
+      payload: { sessionId, reason, culprits } satisfies FrostAbortPayload,
+    }).catch(error => {
+      console.error(`[FROST] Failed to send abort for ${sessionId}:`, error)
+    })
+  }
+
+  // ============================================================================
+  // Messaging
+  // ============================================================================
+
+  /**
+   * Setup protocol message handlers
+   */
+  private _setupProtocolHandlers(): void {
+    for (const type of Object.values(FrostMessageType)) {
+      this.protocolHandler.on(type, (payload: unknown, from: PeerInfo) => {
+        this._dispatch(type, payload, from.peerId)
+      })
+    }
+  }
+
+  private _dispatch(
+    type: FrostMessageType,
+    payload: unknown,
+    fromPeerId: string,
+  ): void {
+    // P2PCoordinator.broadcast() also delivers to ourselves
+    if (fromPeerId === this.peerId) return
+
+    const handlers: Record<
+      FrostMessageType,
+      (payload: never, fromPeerId: string) => Promise<void>
+    > = {
+      [FrostMessageType.DKG_REQUEST]: this._handleDkgRequest,
+      [FrostMessageType.DKG_COMMITMENT]: this._handleDkgCommitment,
+      [FrostMessageType.DKG_SHARE]: this._handleDkgShare,
+      [FrostMessageType.DKG_CONFIRM]: this._handleDkgConfirm,
+      [FrostMessageType.SIGNING_REQUEST]: this._handleSigningRequest,
+      [FrostMessageType.NONCE_COMMITMENT]: this._handleNonceCommitment,
+      [FrostMessageType.SIGNING_PACKAGE]: this._handleSigningPackage,
+      [FrostMessageType.SIGNATURE_SHARE]: this._handleSignatureShare,
+      [FrostMessageType.SIGNING_COMPLETE]: this._handleSigningComplete,
+      [FrostMessageType.ABORT]: this._handleAbort,
+    }
+    handlers[type](payload as never, fromPeerId).catch(error => {
+      console.error(`[FROST] Error handling ${type}:`, error)
+    })
+  }
+
+  /**
+   * Send a message to the given peers
+   */
+  private async _send(
+    peerIds: string[],
+    message: { type: FrostMessageType; payload: object },
+  ): Promise<void> {
+    if (peerIds.length === 0) {
+      return
+    }
+    const p2pMessage = this.protocol.createMessage(
+      message.type,
+      message.payload,
+      this.peerId,
+      { protocol: 'frost' },
+    )
+    if (peerIds.length === 1) {
+      await this.coordinator.sendTo(peerIds[0], p2pMessage)
+    } else {
+      await this.coordinator.broadcast(p2pMessage, { includedOnly: peerIds })
+    }
+  }
+
+  private _otherPeers(participants: FrostParticipant[]): string[] {
+    return participants
+      .map(p => p.peerId)
+      .filter(peerId => peerId !== this.peerId)
+  }
+
+  /**
+   * Peers of the signing set other than this node (initiator only)
+   */
+  private _signerPeers(session: SigningSession): string[] {
+    return this._otherPeers(
+      session.signers.map(index => session.group!.participants[index - 1]),
+    )
+  }
+
+  private _startTimeout(
+    sessionId: string,
+    ms: number,
+    onTimeout: () => Promise<void>,
+  ): void {
+    this._clearTimeout(sessionId)
+    this.timeouts.set(
+      sessionId,
+      setTimeout(() => {
+        this.timeouts.delete(sessionId)
+        onTimeout().catch(error => {
+          console.error(
+            `[FROST] Error handling timeout of ${sessionId}:`,
+            error,
+          )
+        })
+      }, ms),
+    )
+  }
+
+  private _clearTimeout(sessionId: string): void {
+    clearTimeout(this.timeouts.get(sessionId))
+    this.timeouts.delete(sessionId)
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function serializeCommitment(
+  commitment: FrostSigningCommitment,
+): SerializedSigningCommitment {
+  return {
+    participantIndex: commitment.participantIndex,
+    hiding: serializePoint(commitment.hiding),
+    binding: serializePoint(commitment.binding),
+  }
+}
+
+function deserializeCommitment(
+  commitment: SerializedSigningCommitment,
+): FrostSigningCommitment {
+  return {
+    participantIndex: commitment.participantIndex,
+    hiding: deserializePoint(commitment.hiding),
+    binding: deserializePoint(commitment.binding),
+  }
+}
+
+/**
+ * Key the signature of a signing session verifies against
+ */
+function signingKey(session: SigningSession): PublicKey {
+  return session.tweak
+    ? session.groupPublicKey.addScalar(session.tweak)
+    : session.groupPublicKey
+}
+
+/**
+ * One-time pad for a DKG share, from an ECDH secret between the sender and
+ * recipient identity keys
+ *
+ * Each (ceremony, sender, recipient) triple encrypts exactly one share.
+ * Tampering is detected by the Feldman check against the sender's
+ * commitments.
+ */
+function shareKey(
+  privateKey: PrivateKey,
+  publicKey: PublicKey,
+  sessionId: string,
+  from: number,
+  to: number,
+): Buffer {
+  const shared = publicKey.point.mul(privateKey.bn)
+  const indices = Buffer.alloc(8)
+  indices.writeUInt32BE(from, 0)
+  indices.writeUInt32BE(to, 4)
+  return Hash.sha256(
+    Buffer.concat([
+      Buffer.from('lotus-sdk/frost/dkg-share', 'utf8'),
+      Point.pointToCompressed(shared),
+      Buffer.from(sessionId, 'utf8'),
+      indices,
+    ]),
+  )
+}
+
+function encryptShare(share: BN, key: Buffer): string {
+  const plaintext = share.toArrayLike(Buffer, 'be', 32)
+  return Buffer.from(plaintext.map((byte, i) => byte ^ key[i])).toString('hex')
+}
+
+function decryptShare(encrypted: string, key: Buffer): BN {
+  const ciphertext = Buffer.from(encrypted, 'hex')
+  if (ciphertext.length !== 32) {
+    // Rejected by the Feldman check
+    return new BN(0)
+  }
+  return new BN(Buffer.from(ciphertext.map((byte, i) => byte ^ key[i])), 'be')
+}
+
+/**
+ * Hash of all round 1 packages of a ceremony, in participant order
+ */
+function dkgTranscriptHash(ceremony: DkgCeremony): string {
+  const data: Buffer[] = [ceremony.context]
+  for (let index = 1; index <= ceremony.participants.length; index++) {
+    const { commitments, proofOfKnowledge } = ceremony.commitments.get(index)!
+    data.push(
+      ...commitments.map(C => Point.pointToCompressed(C)),
+      Point.pointToCompressed(proofOfKnowledge.R),
+      proofOfKnowledge.mu.toArrayLike(Buffer, 'be', 32),
+    )
+  }
+  return Hash.sha256(Buffer.concat(data)).toString('hex')
+}
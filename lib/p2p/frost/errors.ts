@@ -0,0 +1,29 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * FROST P2P Error Classes
+ */
+
+/**
+ * Base class for all FROST P2P errors
+ */
+export class FrostP2PError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FrostP2PError'
+  }
+}
+
+/**
+ * DKG ceremony or signing session is not tracked by this node
+ */
+export class FrostSessionNotFoundError extends FrostP2PError {
+  constructor(public readonly sessionId: string) {
+    super(`FROST session not found: ${sessionId}`)
+    this.name = 'FrostSessionNotFoundError'
+  }
+}
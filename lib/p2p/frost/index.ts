@@ -0,0 +1,11 @@
+/**
+ * FROST P2P Module
+ *
+ * Exports all components for FROST key generation and threshold signing over
+ * P2P networks
+ */
+
+export { FrostP2PCoordinator } from './coordinator.js'
+export { FrostProtocolHandler } from './protocol.js'
+export * from './types.js'
+export * from './errors.js'
@@ -0,0 +1,83 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * FROST Protocol Handler
+ *
+ * Handles FROST-specific P2P messages and routes them to the coordinator.
+ * Only message structure is checked here; participant membership and
+ * cryptographic checks happen in the coordinator, which owns the ceremony
+ * and signing state.
+ */
+
+import { EventEmitter } from 'events'
+import type { IProtocolHandler, P2PMessage, PeerInfo } from '../types.js'
+import { FrostMessageType } from './types.js'
+
+/**
+ * FROST Protocol Handler
+ *
+ * Implements IProtocolHandler for FROST messages. Each message type is
+ * re-emitted under its type name with (payload, from).
+ */
+export class FrostProtocolHandler
+  extends EventEmitter
+  implements IProtocolHandler
+{
+  readonly protocolName = 'frost'
+  readonly protocolId = '/lotus/frost/1.0.0'
+
+  /**
+   * Handle incoming FROST message
+   */
+  async handleMessage(message: P2PMessage, from: PeerInfo): Promise<void> {
+    if (message.protocol !== this.protocolName) {
+      console.warn(
+        `[FrostProtocol] Ignoring message with wrong protocol: ${message.protocol}`,
+      )
+      return
+    }
+
+    if (
+      !Object.values(FrostMessageType).includes(
+        message.type as FrostMessageType,
+      )
+    ) {
+      console.warn(
+        `[FrostProtocol] Unknown message type ${message.type} from ${from.peerId}`,
+      )
+      return
+    }
+
+    const payload = message.payload as { sessionId?: unknown } | undefined
+    if (
+      !payload ||
+      typeof payload !== 'object' ||
+      typeof payload.sessionId !== 'string'
+    ) {
+      console.warn(
+        `[FrostProtocol] Malformed ${message.type} payload from ${from.peerId}`,
+      )
+      return
+    }
+
+    this.emit(message.type, payload, from)
+  }
+
+  /**
+   * Handle peer connection
+   */
+  async onPeerConnected(peerId: string): Promise<void> {
+    this.emit('peer:connected', peerId)
+  }
+
+  /**
+   * Handle peer disconnection
+   */
+  async onPeerDisconnected(peerId: string): Promise<void> {
+    this.emit('peer:disconnected', peerId)
+  }
+}
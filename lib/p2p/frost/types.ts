@@ -0,0 +1,227 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * FROST P2P Types
+ *
+ * Types for running FROST distributed key generation and threshold signing
+ * over the P2P network
+ */
+
+import type { PublicKey } from '../../bitcore/publickey.js'
+import type { Signature } from '../../bitcore/crypto/signature.js'
+import type { FrostKeyShare } from '../../bitcore/crypto/frost.js'
+
+/**
+ * FROST message types
+ */
+export enum FrostMessageType {
+  // Distributed key generation
+  DKG_REQUEST = 'frost:dkg-request',
+  DKG_COMMITMENT = 'frost:dkg-commitment',
+  DKG_SHARE = 'frost:dkg-share',
+  DKG_CONFIRM = 'frost:dkg-confirm',
+
+  // Signing
+  SIGNING_REQUEST = 'frost:signing-request',
+  NONCE_COMMITMENT = 'frost:nonce-commitment',
+  SIGNING_PACKAGE = 'frost:signing-package',
+  SIGNATURE_SHARE = 'frost:signature-share',
+  SIGNING_COMPLETE = 'frost:signing-complete',
+
+  // DKG or signing aborted
+  ABORT = 'frost:abort',
+}
+
+/**
+ * FROST coordination events
+ */
+export enum FrostEvent {
+  /** Another participant requested a DKG ceremony including this node */
+  DKG_REQUESTED = 'frost:dkg-requested',
+
+  /** DKG finished, every participant confirmed the same transcript */
+  DKG_COMPLETE = 'frost:dkg-complete',
+
+  /** DKG aborted */
+  DKG_ABORTED = 'frost:dkg-aborted',
+
+  /** Another participant requested a signature from this node */
+  SIGNING_REQUESTED = 'frost:signing-requested',
+
+  /** Signing produced a valid signature */
+  SIGNING_COMPLETE = 'frost:signing-complete',
+
+  /** Signing aborted */
+  SIGNING_ABORTED = 'frost:signing-aborted',
+}
+
+/**
+ * Event map for FrostP2PCoordinator
+ *
+ * Abort events carry the indices of the participants responsible, if known.
+ */
+export type FrostEventMap = {
+  'frost:dkg-requested': [sessionId: string, request: FrostDkgRequest]
+  'frost:dkg-complete': [sessionId: string, group: FrostGroup]
+  'frost:dkg-aborted': [sessionId: string, reason: string, culprits: number[]]
+  'frost:signing-requested': [sessionId: string, request: FrostSigningRequest]
+  'frost:signing-complete': [sessionId: string, signature: Signature]
+  'frost:signing-aborted': [
+    sessionId: string,
+    reason: string,
+    culprits: number[],
+  ]
+}
+
+/**
+ * FROST P2P configuration
+ */
+export interface FrostP2PConfig {
+  /** Time for a DKG ceremony to complete (ms) */
+  dkgTimeout?: number
+
+  /** Time for a signing session to complete (ms) */
+  signingTimeout?: number
+}
+
+/**
+ * Default FROST P2P configuration
+ */
+export const DEFAULT_FROST_P2P_CONFIG: Required<FrostP2PConfig> = {
+  dkgTimeout: 5 * 60 * 1000, // 5 minutes
+  signingTimeout: 2 * 60 * 1000, // 2 minutes
+}
+
+// ============================================================================
+// Groups and Requests
+// ============================================================================
+
+/**
+ * Participant of a FROST group
+ *
+ * The participant index is its position in the participant list plus one.
+ */
+export interface FrostParticipant {
+  peerId: string
+
+  /** Identity key, used to encrypt DKG shares for this participant */
+  publicKey: PublicKey
+}
+
+/**
+ * FROST group membership of this node, result of a DKG ceremony
+ *
+ * Persist it to sign with the group later.
+ */
+export interface FrostGroup {
+  keyShare: FrostKeyShare
+  participants: FrostParticipant[]
+}
+
+/**
+ * DKG ceremony request received from another participant
+ */
+export interface FrostDkgRequest {
+  initiatorPeerId: string
+  threshold: number
+  participants: FrostParticipant[]
+}
+
+/**
+ * Signing request received from another participant
+ */
+export interface FrostSigningRequest {
+  initiatorPeerId: string
+
+  /** Group public key (untweaked) */
+  groupPublicKey: PublicKey
+
+  /** 32-byte message to sign */
+  message: Buffer
+
+  /** Indices of the signing set */
+  signers: number[]
+
+  /** Taproot tweak, for key-path spends */
+  tweak?: Buffer
+}
+
+// ============================================================================
+// Message Payloads
+// ============================================================================
+
+/**
+ * Serialized nonce commitment of a signer
+ */
+export interface SerializedSigningCommitment {
+  participantIndex: number
+  hiding: string
+  binding: string
+}
+
+export interface DkgRequestPayload {
+  sessionId: string
+  threshold: number
+  participants: { peerId: string; publicKey: string }[]
+}
+
+export interface DkgCommitmentPayload {
+  sessionId: string
+  participantIndex: number
+  commitments: string[]
+  proofR: string
+  proofMu: string
+}
+
+export interface DkgSharePayload {
+  sessionId: string
+  participantIndex: number
+  recipientIndex: number
+  /** Share encrypted for the recipient's identity key */
+  encryptedShare: string
+}
+
+export interface DkgConfirmPayload {
+  sessionId: string
+  participantIndex: number
+  /** Hash of all round 1 packages seen by the sender */
+  transcriptHash: string
+}
+
+export interface SigningRequestPayload {
+  sessionId: string
+  groupPublicKey: string
+  message: string
+  signers: number[]
+  tweak?: string
+}
+
+export interface NonceCommitmentPayload extends SerializedSigningCommitment {
+  sessionId: string
+}
+
+export interface SigningPackagePayload {
+  sessionId: string
+  commitments: SerializedSigningCommitment[]
+}
+
+export interface SignatureSharePayload {
+  sessionId: string
+  participantIndex: number
+  partialSig: string
+}
+
+export interface SigningCompletePayload {
+  sessionId: string
+  signature: string
+}
+
+export interface FrostAbortPayload {
+  sessionId: string
+  reason: string
+  culprits: number[]
+}
@@ -65,4 +65,7 @@ export {
 export * from './musig2/index.js'
 
 // SwapSig protocol
-//export * from './swapsig/index.js'
+export * from './swapsig/index.js'
+
+// FROST threshold signing
+export * from './frost/index.js'
@@ -95,6 +95,8 @@ import {
   validateSessionAbortPayload,
   validateSessionCompletePayload,
   validateSessionAnnouncementPayload,
+  validateSessionRecoveryRequestPayload,
+  validateSessionRecoveryResponsePayload,
 } from './validation.js'
 import { SessionLock, withSessionLock } from './session-lock.js'
 import {
@@ -102,6 +104,11 @@ import {
   type SignedP2PMessage,
 } from './message-signing.js'
 import { ReplayProtection } from './replay-protection.js'
+import {
+  SessionPersistence,
+  type SessionRecoveryRequest,
+  type SessionRecoveryResponse,
+} from './session-persistence.js'
 
 /**
  * MuSig2 P2P Coordinator
@@ -127,6 +134,11 @@ export class MuSig2P2PCoordinator extends EventEmitter {
   private cleanupInterval?: NodeJS.Timeout
   private sessionTimeouts: Map<string, NodeJS.Timeout> = new Map()
   private broadcastTimeouts: Map<string, NodeJS.Timeout> = new Map()
+  private reconnectTimeouts: Map<string, NodeJS.Timeout> = new Map()
+
+  // Session persistence for crash recovery, writes are queued per session
+  private persistence?: SessionPersistence
+  private persistenceWrites: Map<string, Promise<void>> = new Map()
 
   // Security: Track used nonces globally to prevent reuse
   private usedNonces: Set<string> = new Set()
@@ -159,6 +171,7 @@ export class MuSig2P2PCoordinator extends EventEmitter {
    * @param securityConfig - Security validation configuration
    * @param discoveryConfig - Discovery layer configuration
    * @param discoveryCache - Optional external cache for discovery persistence (e.g., localStorage-backed)
+   * @param sessionPersistence - Optional session persistence for crash recovery
    */
   constructor(
     coordinator: P2PCoordinator,
@@ -166,6 +179,7 @@ export class MuSig2P2PCoordinator extends EventEmitter {
     securityConfig?: MuSig2SecurityConfig,
     discoveryConfig?: MuSig2DiscoveryConfig,
     discoveryCache?: IDiscoveryCache,
+    sessionPersistence?: SessionPersistence,
   ) {
     super()
 
@@ -181,6 +195,7 @@ export class MuSig2P2PCoordinator extends EventEmitter {
     this.securityValidator = new MuSig2SecurityValidator(securityConfig)
     this.sessionManager = new MuSigSessionManager()
     this.protocol = new P2PProtocol()
+    this.persistence = sessionPersistence
 
     // Connect security validator to protocol handler for message validation
     this.protocolHandler.setSecurityValidator(this.securityValidator)
@@ -220,6 +235,11 @@ export class MuSig2P2PCoordinator extends EventEmitter {
    *
    * NOTE: The caller is responsible for starting the P2PCoordinator before
    * calling this method. This only sets up MuSig2-specific subscriptions.
+   *
+   * With session persistence, active sessions are restored from storage and
+   * their missing nonces and partial signatures are requested from the other
+   * participants. Peers know participants by peer ID, so recovery requires
+   * the P2PCoordinator to keep its peer identity across restarts.
    */
   async initialize(): Promise<void> {
     // Subscribe to session announcement topic
@@ -238,6 +258,11 @@ export class MuSig2P2PCoordinator extends EventEmitter {
     this.replayProtection.start()
     console.log('[MuSig2] Replay protection started')
 
+    // Restore sessions interrupted by a restart
+    if (this.persistence) {
+      await this._recoverSessions()
+    }
+
     console.log('[MuSig2] Protocol initialized')
   }
 
@@ -275,6 +300,14 @@ export class MuSig2P2PCoordinator extends EventEmitter {
       this._clearBroadcastTimeout(sessionId)
     }
 
+    // Clear all peer reconnect timeouts
+    for (const peerId of this.reconnectTimeouts.keys()) {
+      this._clearReconnectTimeout(peerId)
+    }
+
+    // Finish pending writes, persisted sessions are kept for recovery
+    await Promise.allSettled(this.persistenceWrites.values())
+
     // Unsubscribe from topic
     await this.coordinator.unsubscribeFromTopic(this.config.announcementTopic)
 
@@ -458,6 +491,7 @@ export class MuSig2P2PCoordinator extends EventEmitter {
 
     // Store session
     this.sessions.set(session.sessionId, p2pSession)
+    this._persistSession(p2pSession)
 
     // Update metrics
     this.metrics.sessionsCreated++
@@ -512,13 +546,20 @@ export class MuSig2P2PCoordinator extends EventEmitter {
    * and want to join it. It creates a local session state and sends a join
    * request to the coordinator.
    *
+   * The announcement only carries the hash of the message being signed. When
+   * the participant has built the message independently (e.g. a transaction
+   * sighash), pass it as `message` so it is checked against the announced
+   * hash and signed directly.
+   *
    * @param announcement - Session announcement received from GossipSub
    * @param myPrivateKey - This signer's private key
+   * @param message - Optional locally computed message matching the announcement
    * @returns Session ID if join request was sent successfully
    */
   async joinSession(
     announcement: SessionAnnouncement,
     myPrivateKey: PrivateKey,
+    message?: Buffer,
   ): Promise<string> {
     const sessionId = announcement.sessionId
 
@@ -553,11 +594,15 @@ export class MuSig2P2PCoordinator extends EventEmitter {
     // Deserialize message hash
     const messageHash = deserializeMessage(announcement.messageHash)
 
+    if (message && !Hash.sha256(message).equals(messageHash)) {
+      throw new Error('Message does not match session announcement')
+    }
+
     // Create local session using session manager
     const session = this.sessionManager.createSession(
       signers,
       myPrivateKey,
-      messageHash,
+      message ?? messageHash,
       announcement.metadata,
     )
 
@@ -577,6 +622,7 @@ export class MuSig2P2PCoordinator extends EventEmitter {
 
     // Store session
     this.sessions.set(sessionId, p2pSession)
+    this._persistSession(p2pSession)
 
     // Send join request to coordinator
     const joinPayload: SessionJoinPayload = {
@@ -591,16 +637,14 @@ export class MuSig2P2PCoordinator extends EventEmitter {
 
       const message = this.protocol.createMessage(
         MuSig2MessageType.SESSION_JOIN,
-        JSON.stringify(joinPayload),
+        joinPayload,
         this.peerId,
         { protocol: 'musig2' },
       )
 
-      await this.coordinator.sendTo(
-        announcement.coordinatorPeerId,
-        message,
-        this.protocolHandler.protocolId,
-      )
+      // Sent over the default message stream; the coordinator routes it to
+      // the MuSig2 protocol handler by message.protocol
+      await this.coordinator.sendTo(announcement.coordinatorPeerId, message)
 
       console.log(
         `[MuSig2] Sent join request for session ${sessionId} to coordinator ${announcement.coordinatorPeerId}`,
@@ -613,6 +657,7 @@ export class MuSig2P2PCoordinator extends EventEmitter {
     } catch (error) {
       // Remove session on failure
       this.sessions.delete(sessionId)
+      this._forgetSession(sessionId)
       throw error
     }
   }
@@ -667,6 +712,11 @@ export class MuSig2P2PCoordinator extends EventEmitter {
     // Generate ν ≥ 2 nonces using session manager
     const publicNonces = this.sessionManager.generateNonces(session, privateKey)
 
+    // All other nonces may have arrived before ours was generated. Otherwise
+    // the last incoming nonce completes the round (possibly while we are
+    // still broadcasting ours below)
+    const noncesComplete = !!session.aggregatedNonce
+
     // SECURITY: Track nonce to prevent reuse
     const nonceHash = this._hashNonce(publicNonces)
     if (this.usedNonces.has(nonceHash)) {
@@ -677,6 +727,10 @@ export class MuSig2P2PCoordinator extends EventEmitter {
     // Update session state
     p2pSession.lastActivity = Date.now()
 
+    // Persist the public nonce before sharing it. After a restart the session
+    // then knows its secret nonce is lost instead of generating a new one
+    await this._saveSession(p2pSession)
+
     // Serialize nonces using serialization layer
     const nonceMap = serializePublicNonces(publicNonces)
 
@@ -695,7 +749,9 @@ export class MuSig2P2PCoordinator extends EventEmitter {
     )
 
     // Set timeout for nonce collection
-    this._setNonceTimeout(sessionId)
+    if (!session.aggregatedNonce) {
+      this._setNonceTimeout(sessionId)
+    }
 
     // Transition to NONCE_EXCHANGE phase
     if (session.phase === MuSigSessionPhase.INIT) {
@@ -706,6 +762,16 @@ export class MuSig2P2PCoordinator extends EventEmitter {
     console.log(
       `[MuSig2] Shared ${publicNonces.length} nonces for session: ${sessionId}`,
     )
+
+    if (noncesComplete) {
+      console.log(`[MuSig2] All nonces collected for ${sessionId}`)
+      this._clearSessionTimeout(sessionId)
+      session.phase = MuSigSessionPhase.PARTIAL_SIG_EXCHANGE
+      session.updatedAt = Date.now()
+      this.emit(MuSig2Event.NONCES_COMPLETE, sessionId)
+    }
+
+    this._persistSession(p2pSession)
   }
   // ============================================================================
 
@@ -739,9 +805,16 @@ export class MuSig2P2PCoordinator extends EventEmitter {
       privateKey,
     )
 
+    // All other partial signatures may have arrived before ours was created.
+    // Otherwise the last incoming partial signature completes the session
+    const partialSigsComplete = !!session.finalSignature
+
     // Update session state
     p2pSession.lastActivity = Date.now()
 
+    // Persist the partial signature so it can be re-sent after a restart
+    await this._saveSession(p2pSession)
+
     // Broadcast partial signature to all other participants
     const payload: PartialSigSharePayload = {
       sessionId,
@@ -757,9 +830,17 @@ export class MuSig2P2PCoordinator extends EventEmitter {
     )
 
     // Set timeout for partial signature collection
-    this._setPartialSigTimeout(sessionId)
+    if (!session.finalSignature) {
+      this._setPartialSigTimeout(sessionId)
+    }
 
     console.log(`[MuSig2] Shared partial signature for session: ${sessionId}`)
+
+    if (partialSigsComplete) {
+      console.log(`[MuSig2] All partial signatures collected for ${sessionId}`)
+      this._clearSessionTimeout(sessionId)
+      this.emit(MuSig2Event.PARTIAL_SIGS_COMPLETE, sessionId)
+    }
   }
 
   // ============================================================================
@@ -824,6 +905,7 @@ export class MuSig2P2PCoordinator extends EventEmitter {
 
     // Cleanup: Clear nonces from this session to free memory
     this._clearSessionNonces(p2pSession.session)
+    this._forgetSession(sessionId)
 
     return sigBuffer
   }
@@ -879,6 +961,7 @@ export class MuSig2P2PCoordinator extends EventEmitter {
 
     // Remove session after abort
     this.sessions.delete(sessionId)
+    this._forgetSession(sessionId)
   }
 
   // ============================================================================
@@ -922,6 +1005,8 @@ export class MuSig2P2PCoordinator extends EventEmitter {
     this.protocolHandler.on(
       'nonce:share',
       async (payload: NonceSharePayload, from) => {
+        // P2PCoordinator.broadcast() also delivers to ourselves
+        if (from.peerId === this.peerId) return
         try {
           await this._handleNonceShare(payload, from.peerId)
         } catch (error) {
@@ -934,6 +1019,8 @@ export class MuSig2P2PCoordinator extends EventEmitter {
     this.protocolHandler.on(
       'partial-sig:share',
       async (payload: PartialSigSharePayload, from) => {
+        // P2PCoordinator.broadcast() also delivers to ourselves
+        if (from.peerId === this.peerId) return
         try {
           await this._handlePartialSigShare(payload, from.peerId)
         } catch (error) {
@@ -951,6 +1038,8 @@ export class MuSig2P2PCoordinator extends EventEmitter {
     this.protocolHandler.on(
       'session:abort',
       async (payload: SessionAbortPayload, from) => {
+        // P2PCoordinator.broadcast() also delivers to ourselves
+        if (from.peerId === this.peerId) return
         try {
           await this._handleSessionAbort(payload, from.peerId)
         } catch (error) {
@@ -968,6 +1057,8 @@ export class MuSig2P2PCoordinator extends EventEmitter {
     this.protocolHandler.on(
       'session:complete',
       async (payload: SessionCompletePayload, from) => {
+        // P2PCoordinator.broadcast() also delivers to ourselves
+        if (from.peerId === this.peerId) return
         try {
           await this._handleSessionComplete(payload, from.peerId)
         } catch (error) {
@@ -981,6 +1072,40 @@ export class MuSig2P2PCoordinator extends EventEmitter {
       },
     )
 
+    // Session state requested by a restarted participant
+    this.protocolHandler.on(
+      'session:recovery-request',
+      async (payload: SessionRecoveryRequest, from) => {
+        try {
+          await this._handleSessionRecoveryRequest(payload, from.peerId)
+        } catch (error) {
+          this._handleProtocolError(
+            'session:recovery-request',
+            error,
+            payload,
+            from.peerId,
+          )
+        }
+      },
+    )
+
+    // Session state of a participant (after our restart)
+    this.protocolHandler.on(
+      'session:recovery-response',
+      async (payload: SessionRecoveryResponse, from) => {
+        try {
+          await this._handleSessionRecoveryResponse(payload, from.peerId)
+        } catch (error) {
+          this._handleProtocolError(
+            'session:recovery-response',
+            error,
+            payload,
+            from.peerId,
+          )
+        }
+      },
+    )
+
     // Validation errors from protocol handler
     this.protocolHandler.on('validation:error', ({ error, message, from }) => {
       console.warn(
@@ -1036,6 +1161,7 @@ export class MuSig2P2PCoordinator extends EventEmitter {
     // Peer connected - forward to coordinator event emitter
     this.protocolHandler.on('peer:connected', (peerId: string) => {
       console.log(`[MuSig2] Peer connected: ${peerId}`)
+      this._clearReconnectTimeout(peerId)
       this.emit('peer:connected', peerId)
     })
 
@@ -1153,6 +1279,7 @@ export class MuSig2P2PCoordinator extends EventEmitter {
     // Update session state
     p2pSession.session.phase = MuSigSessionPhase.COMPLETE
     p2pSession.session.updatedAt = Date.now()
+    this._forgetSession(payload.sessionId)
 
     // Update metrics
     this.metrics.sessionsCompleted++
@@ -1238,8 +1365,8 @@ export class MuSig2P2PCoordinator extends EventEmitter {
         payload.signerIndex,
       )
 
-      // Check if all nonces collected
-      if (this.sessionManager.hasAllNonces(p2pSession.session)) {
+      // Check if all nonces collected (and aggregated with our own)
+      if (p2pSession.session.aggregatedNonce) {
         console.log(`[MuSig2] All nonces collected for ${payload.sessionId}`)
 
         // Clear nonce timeout
@@ -1252,6 +1379,8 @@ export class MuSig2P2PCoordinator extends EventEmitter {
         // Emit event - ready for partial signatures
         this.emit(MuSig2Event.NONCES_COMPLETE, payload.sessionId)
       }
+
+      this._persistSession(p2pSession)
     } catch (error) {
       console.error('[MuSig2] Error processing nonce share:', error)
       this.emit(MuSig2Event.SESSION_ERROR, payload.sessionId, error)
@@ -1308,8 +1437,11 @@ export class MuSig2P2PCoordinator extends EventEmitter {
         payload.signerIndex,
       )
 
-      // Check if all partial signatures collected
-      if (this.sessionManager.hasAllPartialSignatures(p2pSession.session)) {
+      // Check if all partial signatures collected (including our own)
+      if (
+        this.sessionManager.hasAllPartialSignatures(p2pSession.session) &&
+        p2pSession.session.myPartialSig
+      ) {
         console.log(
           `[MuSig2] All partial signatures collected for ${payload.sessionId}`,
         )
@@ -1337,6 +1469,8 @@ export class MuSig2P2PCoordinator extends EventEmitter {
           )
         }
       }
+
+      this._persistSession(p2pSession)
     } catch (error) {
       console.error('[MuSig2] Error processing partial signature:', error)
       this.emit(MuSig2Event.SESSION_ERROR, payload.sessionId, error)
@@ -1372,6 +1506,7 @@ export class MuSig2P2PCoordinator extends EventEmitter {
 
     // Remove session
     this.sessions.delete(payload.sessionId)
+    this._forgetSession(payload.sessionId)
   }
 
   /**
@@ -1509,6 +1644,7 @@ export class MuSig2P2PCoordinator extends EventEmitter {
 
       session.participants.set(fromPeerId, participant)
       session.lastActivity = Date.now()
+      this._persistSession(session)
 
       console.log(
         `[MuSig2] Accepted join request from ${fromPeerId} for session ${payload.sessionId} (index ${signerIndex})`,
@@ -1581,6 +1717,7 @@ export class MuSig2P2PCoordinator extends EventEmitter {
       }
 
       p2pSession.lastActivity = Date.now()
+      this._persistSession(p2pSession)
 
       // Emit join accepted event
       this.emit('session:join-accepted', {
@@ -1602,6 +1739,7 @@ export class MuSig2P2PCoordinator extends EventEmitter {
 
       // Remove the session since we couldn't join
       this.sessions.delete(payload.sessionId)
+      this._forgetSession(payload.sessionId)
     }
   }
 
@@ -1618,16 +1756,12 @@ export class MuSig2P2PCoordinator extends EventEmitter {
 
       const message = this.protocol.createMessage(
         MuSig2MessageType.SESSION_JOIN_ACK,
-        JSON.stringify(payload),
+        payload,
         this.peerId,
         { protocol: 'musig2' },
       )
 
-      await this.coordinator.sendTo(
-        peerId,
-        message,
-        this.protocolHandler.protocolId,
-      )
+      await this.coordinator.sendTo(peerId, message)
     } catch (error) {
       console.error(`[MuSig2] Failed to send join ack to ${peerId}:`, error)
     }
@@ -1635,8 +1769,46 @@ export class MuSig2P2PCoordinator extends EventEmitter {
 
   /**
    * Handle peer disconnection
+   *
+   * With a peer reconnect timeout, in-progress sessions are only aborted if
+   * the peer does not come back in time
    */
   private _handlePeerDisconnected = (peerId: string): void => {
+    if (this.config.peerReconnectTimeout <= 0) {
+      this._abortSessionsWithPeer(peerId)
+      return
+    }
+
+    if (this.reconnectTimeouts.has(peerId)) {
+      return
+    }
+
+    console.warn(
+      `[MuSig2] Peer ${peerId} disconnected, waiting ${this.config.peerReconnectTimeout}ms for it to reconnect`,
+    )
+    const timeout = setTimeout(() => {
+      this.reconnectTimeouts.delete(peerId)
+      this._abortSessionsWithPeer(peerId)
+    }, this.config.peerReconnectTimeout)
+
+    this.reconnectTimeouts.set(peerId, timeout)
+  }
+
+  /**
+   * Clear peer reconnect timeout
+   */
+  private _clearReconnectTimeout(peerId: string): void {
+    const timeout = this.reconnectTimeouts.get(peerId)
+    if (timeout) {
+      clearTimeout(timeout)
+      this.reconnectTimeouts.delete(peerId)
+    }
+  }
+
+  /**
+   * Abort in-progress sessions with a disconnected peer
+   */
+  private _abortSessionsWithPeer(peerId: string): void {
     // Find sessions with this peer
     for (const [sessionId, p2pSession] of this.sessions) {
       if (p2pSession.participants.has(peerId)) {
@@ -1660,6 +1832,348 @@ export class MuSig2P2PCoordinator extends EventEmitter {
     }
   }
 
+  // ============================================================================
+  // Session Persistence and Recovery
+  // ============================================================================
+
+  /**
+   * Save a session to persistent storage
+   *
+   * Writes are queued per session, so a slow write never overwrites a newer
+   * one. Sessions removed in the meantime are not written.
+   */
+  private _saveSession(p2pSession: MuSig2P2PSession): Promise<void> {
+    const persistence = this.persistence
+    if (!persistence) {
+      return Promise.resolve()
+    }
+
+    const sessionId = p2pSession.session.sessionId
+    return this._queuePersistenceWrite(sessionId, async () => {
+      if (this.sessions.get(sessionId) === p2pSession) {
+        await persistence.save(p2pSession)
+      }
+    })
+  }
+
+  /**
+   * Save a session to persistent storage in the background
+   */
+  private _persistSession(p2pSession: MuSig2P2PSession): void {
+    this._saveSession(p2pSession).catch(error => {
+      console.error(
+        `[MuSig2] Failed to persist session ${p2pSession.session.sessionId}:`,
+        error,
+      )
+    })
+  }
+
+  /**
+   * Delete a session from persistent storage in the background
+   */
+  private _forgetSession(sessionId: string): void {
+    const persistence = this.persistence
+    if (!persistence) {
+      return
+    }
+
+    this._queuePersistenceWrite(sessionId, () =>
+      persistence.delete(sessionId),
+    ).catch(error => {
+      console.error(
+        `[MuSig2] Failed to delete persisted session ${sessionId}:`,
+        error,
+      )
+    })
+  }
+
+  /**
+   * Run a storage write after the pending writes of a session
+   */
+  private _queuePersistenceWrite(
+    sessionId: string,
+    write: () => Promise<void>,
+  ): Promise<void> {
+    const pending = this.persistenceWrites.get(sessionId) ?? Promise.resolve()
+    const next = pending.catch(() => undefined).then(write)
+    this.persistenceWrites.set(sessionId, next)
+
+    const settle = () => {
+      if (this.persistenceWrites.get(sessionId) === next) {
+        this.persistenceWrites.delete(sessionId)
+      }
+    }
+    next.then(settle, settle)
+
+    return next
+  }
+
+  /**
+   * Restore persisted sessions and request missing state from participants
+   *
+   * Secret nonces are never persisted. A session that shared its public
+   * nonce but had not signed yet can no longer sign and is aborted; a new
+   * nonce is never generated for it.
+   */
+  private async _recoverSessions(): Promise<void> {
+    const persistence = this.persistence!
+
+    await persistence.cleanupExpired()
+    const persisted = await persistence.loadActive()
+
+    const recovered: MuSig2P2PSession[] = []
+    for (const data of persisted) {
+      const {
+        coordinatorPeerId,
+        isCoordinator,
+        participants,
+        lastActivity,
+        ...state
+      } = data
+
+      if (this.sessions.has(state.sessionId)) {
+        continue
+      }
+
+      if (state.phase === MuSigSessionPhase.ABORTED) {
+        this._forgetSession(state.sessionId)
+        continue
+      }
+
+      let session: MuSigSession
+      try {
+        session = this.sessionManager.restoreSession({
+          ...state,
+          updatedAt: lastActivity,
+        })
+      } catch (error) {
+        console.error(
+          `[MuSig2] Failed to restore session ${state.sessionId}:`,
+          error,
+        )
+        this._forgetSession(state.sessionId)
+        continue
+      }
+
+      const p2pSession: MuSig2P2PSession = {
+        session,
+        coordinatorPeerId,
+        participants,
+        isCoordinator,
+        createdAt: state.createdAt,
+        lastActivity,
+      }
+      this.sessions.set(session.sessionId, p2pSession)
+
+      // SECURITY: The restored public nonce was used
+      if (session.myPublicNonce) {
+        this.usedNonces.add(this._hashNonce(session.myPublicNonce))
+      }
+
+      if (session.myPublicNonce && !session.myPartialSig) {
+        await this.abortSession(
+          session.sessionId,
+          'Secret nonce lost in restart',
+        ).catch(error => {
+          console.error('[MuSig2] Error aborting session:', error)
+        })
+        continue
+      }
+
+      console.log(
+        `[MuSig2] Recovered session ${session.sessionId} in phase ${session.phase}`,
+      )
+      this.emit(MuSig2Event.SESSION_RECOVERED, session.sessionId, session.phase)
+
+      if (
+        session.phase === MuSigSessionPhase.PARTIAL_SIG_EXCHANGE &&
+        !session.finalSignature
+      ) {
+        this._setPartialSigTimeout(session.sessionId)
+      }
+
+      recovered.push(p2pSession)
+    }
+
+    for (const p2pSession of recovered) {
+      const payload: SessionRecoveryRequest = {
+        sessionId: p2pSession.session.sessionId,
+        requestingPeerId: this.peerId,
+        lastKnownPhase: p2pSession.session.phase,
+        timestamp: Date.now(),
+      }
+
+      for (const peerId of p2pSession.participants.keys()) {
+        await this._sendToPeer(
+          peerId,
+          MuSig2MessageType.SESSION_RECOVERY_REQUEST,
+          payload,
+        ).catch(error => {
+          console.error(
+            `[MuSig2] Failed to request recovery of session ${payload.sessionId} from ${peerId}:`,
+            error,
+          )
+        })
+      }
+    }
+  }
+
+  /**
+   * Handle session recovery request from a restarted participant
+   *
+   * ARCHITECTURE NOTE: Payload validation is performed by protocol.ts before
+   * this handler is called. No re-validation needed here.
+   */
+  private _handleSessionRecoveryRequest = async (
+    payload: SessionRecoveryRequest,
+    fromPeerId: string,
+  ): Promise<void> => {
+    // NOTE: Payload already validated by protocol.ts via _validateAndRouteMessage()
+
+    // The peer is back
+    this._clearReconnectTimeout(fromPeerId)
+
+    const p2pSession = this.sessions.get(payload.sessionId)
+    const participant = p2pSession?.participants.get(fromPeerId)
+
+    const response: SessionRecoveryResponse = {
+      sessionId: payload.sessionId,
+      found: false,
+      timestamp: Date.now(),
+    }
+
+    // Only share session state with the participant itself
+    if (p2pSession && participant && payload.requestingPeerId === fromPeerId) {
+      participant.lastSeen = Date.now()
+      p2pSession.lastActivity = Date.now()
+
+      response.found = true
+      response.currentPhase = p2pSession.session.phase
+      response.sessionState = (
+        this.persistence ?? new SessionPersistence()
+      ).serialize(p2pSession)
+
+      console.log(
+        `[MuSig2] Sending state of session ${payload.sessionId} to recovering peer ${fromPeerId}`,
+      )
+    } else {
+      console.warn(
+        `[MuSig2] Received recovery request for unknown session ${payload.sessionId} from ${fromPeerId}`,
+      )
+    }
+
+    await this._sendToPeer(
+      fromPeerId,
+      MuSig2MessageType.SESSION_RECOVERY_RESPONSE,
+      response,
+    )
+  }
+
+  /**
+   * Handle session recovery response from a participant
+   *
+   * Takes the participant's nonce and partial signature if they were missed
+   * and re-sends ours if the participant missed them.
+   *
+   * ARCHITECTURE NOTE: Payload validation is performed by protocol.ts before
+   * this handler is called. No re-validation needed here.
+   */
+  private _handleSessionRecoveryResponse = async (
+    payload: SessionRecoveryResponse,
+    fromPeerId: string,
+  ): Promise<void> => {
+    // NOTE: Payload already validated by protocol.ts via _validateAndRouteMessage()
+
+    const p2pSession = this.sessions.get(payload.sessionId)
+    const participant = p2pSession?.participants.get(fromPeerId)
+    if (!p2pSession || !participant) {
+      console.warn(
+        `[MuSig2] Received recovery response for unknown session: ${payload.sessionId}`,
+      )
+      return
+    }
+
+    if (!payload.found) {
+      await this.abortSession(
+        payload.sessionId,
+        `Participant ${fromPeerId} lost the session`,
+      )
+      return
+    }
+
+    const state = payload.sessionState
+    if (
+      !state ||
+      state.sessionId !== payload.sessionId ||
+      state.myIndex !== participant.signerIndex
+    ) {
+      console.warn(
+        `[MuSig2] Ignoring recovery response from ${fromPeerId} with mismatched session state`,
+      )
+      return
+    }
+
+    participant.lastSeen = Date.now()
+    const session = p2pSession.session
+    const signerIndex = participant.signerIndex
+
+    // Nonce and partial signature we missed while down
+    if (
+      state.myPublicNonce &&
+      !session.receivedPublicNonces.has(signerIndex) &&
+      (session.phase === MuSigSessionPhase.INIT ||
+        session.phase === MuSigSessionPhase.NONCE_EXCHANGE)
+    ) {
+      await this._handleNonceShare(
+        {
+          sessionId: payload.sessionId,
+          signerIndex,
+          publicNonces: state.myPublicNonce,
+          timestamp: Date.now(),
+        },
+        fromPeerId,
+      )
+    }
+
+    if (
+      state.myPartialSig &&
+      !session.receivedPartialSigs.has(signerIndex) &&
+      session.phase === MuSigSessionPhase.PARTIAL_SIG_EXCHANGE
+    ) {
+      await this._handlePartialSigShare(
+        {
+          sessionId: payload.sessionId,
+          signerIndex,
+          partialSig: state.myPartialSig,
+          timestamp: Date.now(),
+        },
+        fromPeerId,
+      )
+    }
+
+    // Nonce and partial signature the participant missed
+    if (session.myPublicNonce && !(session.myIndex in state.receivedNonces)) {
+      await this._sendToPeer(fromPeerId, MuSig2MessageType.NONCE_SHARE, {
+        sessionId: payload.sessionId,
+        signerIndex: session.myIndex,
+        publicNonces: serializePublicNonces(session.myPublicNonce),
+        timestamp: Date.now(),
+      })
+    }
+
+    if (
+      session.myPartialSig &&
+      !(session.myIndex in state.receivedPartialSigs)
+    ) {
+      await this._sendToPeer(fromPeerId, MuSig2MessageType.PARTIAL_SIG_SHARE, {
+        sessionId: payload.sessionId,
+        signerIndex: session.myIndex,
+        partialSig: serializeBN(session.myPartialSig),
+        timestamp: Date.now(),
+      })
+    }
+  }
+
   // ============================================================================
   // Utility Methods
   // ============================================================================
@@ -1676,7 +2190,9 @@ export class MuSig2P2PCoordinator extends EventEmitter {
       | NonceSharePayload
       | PartialSigSharePayload
       | SessionAbortPayload
-      | SessionCompletePayload,
+      | SessionCompletePayload
+      | SessionRecoveryRequest
+      | SessionRecoveryResponse,
   ): Promise<void> {
     const p2pSession = this.sessions.get(sessionId)
     if (!p2pSession) {
@@ -1693,18 +2209,15 @@ export class MuSig2P2PCoordinator extends EventEmitter {
         payload,
       )
 
-      // Step 2: Serialize payload using JSON (for now - can be enhanced later)
-      const serializedPayload = JSON.stringify(validatedPayload)
-
-      // Step 3: Create P2P message with serialized payload
+      // Step 2: Create P2P message (payload is JSON-encoded with the message)
       const message = this.protocol.createMessage(
         messageType,
-        serializedPayload,
+        validatedPayload,
         this.peerId,
         { protocol: 'musig2' },
       )
 
-      // Step 4: Send to all participants
+      // Step 3: Send to all participants
       await this.coordinator.broadcast(message, {
         includedOnly: peerIds,
       })
@@ -1727,6 +2240,28 @@ export class MuSig2P2PCoordinator extends EventEmitter {
     }
   }
 
+  /**
+   * Send message to a single peer with validation
+   */
+  private async _sendToPeer(
+    peerId: string,
+    messageType: MuSig2MessageType,
+    payload:
+      | NonceSharePayload
+      | PartialSigSharePayload
+      | SessionRecoveryRequest
+      | SessionRecoveryResponse,
+  ): Promise<void> {
+    const message = this.protocol.createMessage(
+      messageType,
+      this._validatePayloadForMessage(messageType, payload),
+      this.peerId,
+      { protocol: 'musig2' },
+    )
+
+    await this.coordinator.sendTo(peerId, message)
+  }
+
   /**
    * Validate payload for specific message type
    */
@@ -1738,14 +2273,18 @@ export class MuSig2P2PCoordinator extends EventEmitter {
       | NonceSharePayload
       | PartialSigSharePayload
       | SessionAbortPayload
-      | SessionCompletePayload,
+      | SessionCompletePayload
+      | SessionRecoveryRequest
+      | SessionRecoveryResponse,
   ):
     | SessionJoinPayload
     | SessionJoinAckPayload
     | NonceSharePayload
     | PartialSigSharePayload
     | SessionAbortPayload
-    | SessionCompletePayload {
+    | SessionCompletePayload
+    | SessionRecoveryRequest
+    | SessionRecoveryResponse {
     switch (messageType) {
       case MuSig2MessageType.SESSION_JOIN:
         validateSessionJoinPayload(payload)
@@ -1771,6 +2310,14 @@ export class MuSig2P2PCoordinator extends EventEmitter {
         validateSessionCompletePayload(payload)
         return payload
 
+      case MuSig2MessageType.SESSION_RECOVERY_REQUEST:
+        validateSessionRecoveryRequestPayload(payload)
+        return payload
+
+      case MuSig2MessageType.SESSION_RECOVERY_RESPONSE:
+        validateSessionRecoveryResponsePayload(payload)
+        return payload
+
       default:
         throw new Error(`Unknown message type: ${messageType}`)
     }
@@ -1798,6 +2345,7 @@ export class MuSig2P2PCoordinator extends EventEmitter {
         console.log(`[MuSig2] Cleaning up expired session: ${sessionId}`)
         this._clearSessionTimeout(sessionId)
         this.sessions.delete(sessionId)
+        this._forgetSession(sessionId)
       }
     }
   }
@@ -2028,6 +2576,7 @@ export class MuSig2P2PCoordinator extends EventEmitter {
         `[MuSig2] Removed participant ${peerId} from session ${sessionId}`,
       )
       p2pSession.lastActivity = Date.now()
+      this._persistSession(p2pSession)
     }
     return removed
   }
@@ -2258,6 +2807,7 @@ export class MuSig2P2PCoordinator extends EventEmitter {
 
     p2pSession.participants.set(peerId, participant)
     p2pSession.lastActivity = Date.now()
+    this._persistSession(p2pSession)
 
     console.log(
       `[MuSig2] Added participant ${peerId} to session ${sessionId} (index ${signerIndex})`,
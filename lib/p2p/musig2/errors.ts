@@ -88,6 +88,19 @@ export class SerializationError extends MuSig2P2PError {
   }
 }
 
+/**
+ * Session storage errors - indicates unreadable or undecryptable records
+ */
+export class SessionStorageError extends MuSig2P2PError {
+  constructor(
+    message: string,
+    public readonly recordId?: string,
+  ) {
+    super(`Session storage failed: ${message}`)
+    this.name = 'SessionStorageError'
+  }
+}
+
 /**
  * Error codes for machine handling and categorization
  */
@@ -44,6 +44,8 @@ export {
   validateSessionAbortPayload,
   validateSessionCompletePayload,
   validateSessionAnnouncementPayload,
+  validateSessionRecoveryRequestPayload,
+  validateSessionRecoveryResponsePayload,
 } from './validation.js'
 
 // Error Classes
@@ -52,6 +54,7 @@ export {
   ValidationError,
   DeserializationError,
   SerializationError,
+  SessionStorageError,
   SecurityError,
   ProtocolError,
   ErrorCode,
@@ -111,3 +114,12 @@ export {
   type SessionRecoveryRequest,
   type SessionRecoveryResponse,
 } from './session-persistence.js'
+export {
+  SessionEncryption,
+  FileSessionStorage,
+  IndexedDBSessionStorage,
+  type EncryptedSessionRecord,
+  type SessionKeyDerivation,
+  type FileSessionStorageOptions,
+  type IndexedDBSessionStorageOptions,
+} from './session-storage.js'
@@ -38,6 +38,10 @@ import {
   type SessionAbortPayload,
   type SessionCompletePayload,
 } from './types.js'
+import type {
+  SessionRecoveryRequest,
+  SessionRecoveryResponse,
+} from './session-persistence.js'
 import { EventEmitter } from 'events'
 import {
   validateMessageStructure,
@@ -47,6 +51,8 @@ import {
   validatePartialSigSharePayload,
   validateSessionAbortPayload,
   validateSessionCompletePayload,
+  validateSessionRecoveryRequestPayload,
+  validateSessionRecoveryResponsePayload,
 } from './validation.js'
 import {
   ValidationError,
@@ -69,6 +75,8 @@ type Message =
   | PartialSigSharePayload
   | SessionAbortPayload
   | SessionCompletePayload
+  | SessionRecoveryRequest
+  | SessionRecoveryResponse
 
 /**
  * MuSig2 Protocol Handler
@@ -320,6 +328,14 @@ export class MuSig2ProtocolHandler
         validateSessionCompletePayload(message.payload)
         return message.payload as SessionCompletePayload
 
+      case MuSig2MessageType.SESSION_RECOVERY_REQUEST:
+        validateSessionRecoveryRequestPayload(message.payload)
+        return message.payload as SessionRecoveryRequest
+
+      case MuSig2MessageType.SESSION_RECOVERY_RESPONSE:
+        validateSessionRecoveryResponsePayload(message.payload)
+        return message.payload as SessionRecoveryResponse
+
       default:
         throw new ValidationError(
           ErrorCode.INVALID_PAYLOAD,
@@ -360,6 +376,22 @@ export class MuSig2ProtocolHandler
       case MuSig2MessageType.SESSION_COMPLETE:
         this.emit('session:complete', payload as SessionCompletePayload, from)
         break
+
+      case MuSig2MessageType.SESSION_RECOVERY_REQUEST:
+        this.emit(
+          'session:recovery-request',
+          payload as SessionRecoveryRequest,
+          from,
+        )
+        break
+
+      case MuSig2MessageType.SESSION_RECOVERY_RESPONSE:
+        this.emit(
+          'session:recovery-response',
+          payload as SessionRecoveryResponse,
+          from,
+        )
+        break
     }
   }
 
@@ -459,6 +491,14 @@ export class MuSig2ProtocolHandler
           validateSessionCompletePayload(payload)
           break
 
+        case MuSig2MessageType.SESSION_RECOVERY_REQUEST:
+          validateSessionRecoveryRequestPayload(payload)
+          break
+
+        case MuSig2MessageType.SESSION_RECOVERY_RESPONSE:
+          validateSessionRecoveryResponsePayload(payload)
+          break
+
         default:
           return false
       }
@@ -482,6 +522,8 @@ export class MuSig2ProtocolHandler
         MuSig2MessageType.PARTIAL_SIG_SHARE,
         MuSig2MessageType.SESSION_ABORT,
         MuSig2MessageType.SESSION_COMPLETE,
+        MuSig2MessageType.SESSION_RECOVERY_REQUEST,
+        MuSig2MessageType.SESSION_RECOVERY_RESPONSE,
       ],
       validationEnabled: true,
       errorHandlingEnabled: true,
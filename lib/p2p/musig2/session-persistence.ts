@@ -50,6 +50,15 @@ export interface SerializedSession {
   /** Optional session metadata */
   metadata?: Record<string, unknown>
 
+  /**
+   * This signer's public nonce pair, once generated. Persisted before it is
+   * shared, so a restarted signer knows its secret nonce is gone
+   */
+  myPublicNonce?: { r1: string; r2: string }
+
+  /** This signer's partial signature (serialized BN), once created */
+  myPartialSig?: string
+
   /** Received public nonces from other signers (index -> serialized nonce pair) */
   receivedNonces: Record<number, { r1: string; r2: string }>
 
@@ -93,8 +102,8 @@ export interface SerializedParticipant {
 /**
  * Session persistence storage interface
  *
- * Implement this interface to provide custom storage backends
- * (e.g., IndexedDB, localStorage, file system)
+ * Implement this interface to provide custom storage backends. See
+ * FileSessionStorage and IndexedDBSessionStorage for encrypted durable ones.
  */
 export interface SessionStorage {
   /** Save a serialized session */
@@ -111,13 +120,19 @@ export interface SessionStorage {
 
   /** Clear all sessions */
   clear(): Promise<void>
+
+  /**
+   * Delete sessions past the storage TTL, returning how many were deleted
+   * (optional, for storage backends with their own expiry)
+   */
+  evictExpired?(): Promise<number>
 }
 
 /**
  * In-memory session storage (default implementation)
  *
  * Suitable for testing and short-lived sessions.
- * For production, implement a persistent storage backend.
+ * For production, use a persistent storage backend.
  */
 export class InMemorySessionStorage implements SessionStorage {
   private sessions: Map<string, SerializedSession> = new Map()
@@ -171,8 +186,8 @@ export class SessionPersistence {
    * Serialize a P2P session for persistence
    *
    * NOTE: Secret nonces are NOT serialized for security.
-   * After recovery, nonces must be regenerated if the session
-   * is still in INIT phase.
+   * After recovery, nonces may only be generated if the session is still
+   * in INIT phase and has no public nonce.
    *
    * @param p2pSession - The P2P session to serialize
    * @returns Serialized session data
@@ -215,6 +230,11 @@ export class SessionPersistence {
       myIndex: session.myIndex,
       message: session.message.toString('hex'),
       metadata: session.metadata,
+      myPublicNonce: session.myPublicNonce && {
+        r1: serializePoint(session.myPublicNonce[0]),
+        r2: serializePoint(session.myPublicNonce[1]),
+      },
+      myPartialSig: session.myPartialSig && serializeBN(session.myPartialSig),
       receivedNonces,
       receivedPartialSigs,
       coordinatorPeerId: p2pSession.coordinatorPeerId,
@@ -245,6 +265,8 @@ export class SessionPersistence {
     myIndex: number
     message: Buffer
     metadata?: Record<string, unknown>
+    myPublicNonce?: [Point, Point]
+    myPartialSig?: BN
     receivedPublicNonces: Map<number, [Point, Point]>
     receivedPartialSigs: Map<number, BN>
     coordinatorPeerId: string
@@ -297,6 +319,14 @@ export class SessionPersistence {
       myIndex: data.myIndex,
       message: Buffer.from(data.message, 'hex'),
       metadata: data.metadata,
+      myPublicNonce: data.myPublicNonce && [
+        deserializePoint(data.myPublicNonce.r1),
+        deserializePoint(data.myPublicNonce.r2),
+      ],
+      myPartialSig:
+        data.myPartialSig !== undefined
+          ? deserializeBN(data.myPartialSig)
+          : undefined,
       receivedPublicNonces,
       receivedPartialSigs,
       coordinatorPeerId: data.coordinatorPeerId,
@@ -390,11 +420,14 @@ export class SessionPersistence {
   /**
    * Cleanup expired sessions from storage
    *
+   * Evicts sessions past the storage TTL first, if the storage has one.
+   *
    * @returns Number of sessions cleaned up
    */
   async cleanupExpired(): Promise<number> {
+    let cleaned = (await this.storage.evictExpired?.()) ?? 0
+
     const allData = await this.storage.loadAll()
-    let cleaned = 0
 
     for (const data of allData) {
       if (this.isExpired(data.lastActivity)) {
@@ -409,9 +442,12 @@ export class SessionPersistence {
 
 /**
  * Session recovery message types
+ *
+ * Same values as MuSig2MessageType.SESSION_RECOVERY_REQUEST and
+ * MuSig2MessageType.SESSION_RECOVERY_RESPONSE
  */
 export enum SessionRecoveryMessageType {
-  /** Request session state from coordinator */
+  /** Request session state from a participant */
   RECOVERY_REQUEST = 'musig2:session-recovery-request',
   /** Response with current session state */
   RECOVERY_RESPONSE = 'musig2:session-recovery-response',
@@ -0,0 +1,641 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * MuSig2 Session Storage Backends
+ *
+ * Durable SessionStorage implementations for session recovery across
+ * restarts: a file system store for Node.js and an IndexedDB store for
+ * browsers. Records are encrypted at rest with AES-256-GCM under a key
+ * derived from a passphrase or a private key, and expire after a TTL.
+ *
+ * @module SessionStorage
+ */
+
+import type {
+  SerializedSession,
+  SessionStorage,
+} from './session-persistence.js'
+import { SessionStorageError } from './errors.js'
+import type { PrivateKey } from '../../bitcore/privatekey.js'
+import { Hash } from '../../bitcore/crypto/hash.js'
+import { Random } from '../../bitcore/crypto/random.js'
+
+/** Key derivation function of an encrypted record */
+export type SessionKeyDerivation = 'pbkdf2-sha256' | 'hkdf-sha256'
+
+/**
+ * Encrypted session record as stored at rest
+ *
+ * Only the record ID (hash of the session ID) and the expiry are stored in
+ * plaintext. Both are authenticated as additional data.
+ */
+export interface EncryptedSessionRecord {
+  /** Record format version */
+  version: 1
+
+  /** SHA256 of the session ID (hex) */
+  id: string
+
+  /** Expiry timestamp, the record is evicted afterwards */
+  expiresAt: number
+
+  /** Key derivation function */
+  kdf: SessionKeyDerivation
+
+  /** PBKDF2 iterations (must match the decrypting SessionEncryption's) */
+  iterations?: number
+
+  /** Key derivation salt (hex) */
+  salt: string
+
+  /** AES-GCM initialization vector (hex) */
+  iv: string
+
+  /** AES-GCM ciphertext with authentication tag (hex) */
+  ciphertext: string
+}
+
+/** Default PBKDF2-HMAC-SHA256 iterations for passphrase keys */
+const DEFAULT_PBKDF2_ITERATIONS = 600_000
+
+/** HKDF info binding private key derived keys to session storage */
+const HKDF_INFO = Buffer.from('lotus-sdk/musig2/session-storage', 'utf8')
+
+/** Default record TTL (matches the SessionPersistence default expiry) */
+const DEFAULT_TTL = 5 * 60 * 1000
+
+/**
+ * Get the record ID of a session
+ */
+function recordId(sessionId: string): string {
+  return Hash.sha256(Buffer.from(sessionId, 'utf8')).toString('hex')
+}
+
+/**
+ * Check the plaintext fields of a record read from storage
+ */
+function isRecord(record: unknown): record is EncryptedSessionRecord {
+  const { id, expiresAt } = (record ?? {}) as Partial<EncryptedSessionRecord>
+  return typeof id === 'string' && typeof expiresAt === 'number'
+}
+
+/**
+ * Warn about a record loadAll() skips
+ */
+function skipRecord(name: string, error: unknown): void {
+  if (!(error instanceof SessionStorageError)) {
+    throw error
+  }
+  console.warn(`[MuSig2] Skipping session record ${name}: ${error.message}`)
+}
+
+/**
+ * Session record encryption
+ *
+ * Derives AES-256-GCM keys from a passphrase (PBKDF2-HMAC-SHA256) or a
+ * private key (HKDF-SHA256). Each instance encrypts with one random salt,
+ * so the key is derived once; records with other salts are decrypted with
+ * keys derived (and cached) on demand. Passphrase records are only
+ * decrypted with the configured PBKDF2 iterations, never with a count read
+ * from storage.
+ *
+ * Uses WebCrypto, available in Node.js and browsers.
+ */
+export class SessionEncryption {
+  private salt: Buffer = Random.getRandomBuffer(16)
+  private keys: Map<string, Promise<CryptoKey>> = new Map()
+
+  private constructor(
+    private readonly kdf: SessionKeyDerivation,
+    private readonly secret: Buffer,
+    private readonly iterations?: number,
+  ) {}
+
+  /**
+   * Encrypt with a key derived from a passphrase
+   *
+   * @param passphrase - User passphrase
+   * @param iterations - PBKDF2 iterations for new records (default 600000)
+   */
+  static fromPassphrase(
+    passphrase: string,
+    iterations: number = DEFAULT_PBKDF2_ITERATIONS,
+  ): SessionEncryption {
+    if (!passphrase) {
+      throw new Error('Passphrase must not be empty')
+    }
+    return new SessionEncryption(
+      'pbkdf2-sha256',
+      Buffer.from(passphrase.normalize('NFKD'), 'utf8'),
+      iterations,
+    )
+  }
+
+  /**
+   * Encrypt with a key derived from a private key
+   *
+   * @param privateKey - Private key, e.g. the signer's key
+   */
+  static fromPrivateKey(privateKey: PrivateKey): SessionEncryption {
+    return new SessionEncryption('hkdf-sha256', privateKey.toBuffer())
+  }
+
+  /**
+   * Encrypt a serialized session
+   *
+   * @param data - Serialized session
+   * @param expiresAt - Expiry timestamp of the record
+   * @returns Encrypted record
+   */
+  async encrypt(
+    data: SerializedSession,
+    expiresAt: number,
+  ): Promise<EncryptedSessionRecord> {
+    const id = recordId(data.sessionId)
+    const iv = Random.getRandomBuffer(12)
+    const key = await this._deriveKey(this.salt, this.iterations)
+
+    const ciphertext = await crypto.subtle.encrypt(
+      {
+        name: 'AES-GCM',
+        iv,
+        additionalData: this._additionalData(id, expiresAt),
+      },
+      key,
+      Buffer.from(JSON.stringify(data), 'utf8'),
+    )
+
+    return {
+      version: 1,
+      id,
+      expiresAt,
+      kdf: this.kdf,
+      iterations: this.iterations,
+      salt: this.salt.toString('hex'),
+      iv: iv.toString('hex'),
+      ciphertext: Buffer.from(ciphertext).toString('hex'),
+    }
+  }
+
+  /**
+   * Decrypt an encrypted record
+   *
+   * @param record - Encrypted record
+   * @returns Serialized session
+   * @throws SessionStorageError if the record cannot be decrypted
+   */
+  async decrypt(record: EncryptedSessionRecord): Promise<SerializedSession> {
+    if (!isRecord(record)) {
+      throw new SessionStorageError('malformed record')
+    }
+    if (record.version !== 1) {
+      throw new SessionStorageError(
+        `unsupported record version ${record.version}`,
+        record.id,
+      )
+    }
+    if (record.kdf !== this.kdf) {
+      throw new SessionStorageError(
+        `record key derivation ${record.kdf} does not match ${this.kdf}`,
+        record.id,
+      )
+    }
+    if (record.iterations !== this.iterations) {
+      throw new SessionStorageError(
+        `record iterations ${record.iterations} do not match ${this.iterations}`,
+        record.id,
+      )
+    }
+
+    let plaintext: ArrayBuffer
+    try {
+      const key = await this._deriveKey(
+        Buffer.from(record.salt, 'hex'),
+        this.iterations,
+      )
+      plaintext = await crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: Buffer.from(record.iv, 'hex'),
+          additionalData: this._additionalData(record.id, record.expiresAt),
+        },
+        key,
+        Buffer.from(record.ciphertext, 'hex'),
+      )
+    } catch (error) {
+      throw new SessionStorageError(
+        'cannot decrypt record, wrong key or corrupted data',
+        record.id,
+      )
+    }
+
+    let data: SerializedSession
+    try {
+      data = JSON.parse(
+        Buffer.from(plaintext).toString('utf8'),
+      ) as SerializedSession
+    } catch {
+      throw new SessionStorageError('malformed session data', record.id)
+    }
+    if (recordId(String(data?.sessionId)) !== record.id) {
+      throw new SessionStorageError('record ID does not match', record.id)
+    }
+    return data
+  }
+
+  /**
+   * Derive the AES key for a salt (cached)
+   */
+  private _deriveKey(salt: Buffer, iterations?: number): Promise<CryptoKey> {
+    const cacheKey = `${salt.toString('hex')}:${iterations ?? ''}`
+    let key = this.keys.get(cacheKey)
+    if (!key) {
+      key = this._importAndDerive(salt, iterations)
+      this.keys.set(cacheKey, key)
+      // Do not cache failures
+      key.catch(() => this.keys.delete(cacheKey))
+    }
+    return key
+  }
+
+  private async _importAndDerive(
+    salt: Buffer,
+    iterations?: number,
+  ): Promise<CryptoKey> {
+    const algorithm =
+      this.kdf === 'pbkdf2-sha256'
+        ? { name: 'PBKDF2', hash: 'SHA-256', salt, iterations }
+        : { name: 'HKDF', hash: 'SHA-256', salt, info: HKDF_INFO }
+
+    const material = await crypto.subtle.importKey(
+      'raw',
+      this.secret,
+      algorithm.name,
+      false,
+      ['deriveKey'],
+    )
+    return crypto.subtle.deriveKey(
+      algorithm,
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt'],
+    )
+  }
+
+  /**
+   * Authenticated plaintext fields of a record
+   */
+  private _additionalData(id: string, expiresAt: number): Buffer {
+    return Buffer.from(`${id}:${expiresAt}`, 'utf8')
+  }
+}
+
+/**
+ * File session storage options
+ */
+export interface FileSessionStorageOptions {
+  /** Time after the last session activity until a record expires (ms) */
+  ttl?: number
+}
+
+/**
+ * File system session storage (Node.js)
+ *
+ * Stores one encrypted record per session in a directory. Writes are
+ * atomic: records are written to a temporary file, synced and renamed.
+ * loadAll() skips records it cannot parse or decrypt, so one bad file does
+ * not prevent session recovery; they stay on disk until they expire.
+ */
+export class FileSessionStorage implements SessionStorage {
+  private ttl: number
+
+  /**
+   * Create a file system session storage
+   *
+   * @param directory - Directory for the records (created if missing)
+   * @param encryption - Record encryption
+   * @param options - Storage options
+   */
+  constructor(
+    private readonly directory: string,
+    private readonly encryption: SessionEncryption,
+    options: FileSessionStorageOptions = {},
+  ) {
+    this.ttl = options.ttl ?? DEFAULT_TTL
+  }
+
+  async save(sessionId: string, data: SerializedSession): Promise<void> {
+    const { fs, path } = await this._modules()
+    const record = await this.encryption.encrypt(
+      data,
+      data.lastActivity + this.ttl,
+    )
+
+    await fs.mkdir(this.directory, { recursive: true, mode: 0o700 })
+    const file = path.join(this.directory, `${recordId(sessionId)}.json`)
+    const tmp = `${file}.${Random.getRandomBuffer(8).toString('hex')}.tmp`
+
+    const handle = await fs.open(tmp, 'w', 0o600)
+    try {
+      await handle.writeFile(JSON.stringify(record), 'utf8')
+      await handle.sync()
+    } finally {
+      await handle.close()
+    }
+
+    try {
+      await fs.rename(tmp, file)
+    } catch (error) {
+      await fs.rm(tmp, { force: true })
+      throw error
+    }
+  }
+
+  async load(sessionId: string): Promise<SerializedSession | null> {
+    const record = await this._read(`${recordId(sessionId)}.json`)
+    return record ? this.encryption.decrypt(record) : null
+  }
+
+  async loadAll(): Promise<SerializedSession[]> {
+    const sessions: SerializedSession[] = []
+    for (const name of await this._recordFiles()) {
+      try {
+        const record = await this._read(name)
+        if (record) {
+          sessions.push(await this.encryption.decrypt(record))
+        }
+      } catch (error) {
+        skipRecord(name, error)
+      }
+    }
+    return sessions
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    const { fs, path } = await this._modules()
+    await fs.rm(path.join(this.directory, `${recordId(sessionId)}.json`), {
+      force: true,
+    })
+  }
+
+  async clear(): Promise<void> {
+    const { fs, path } = await this._modules()
+    for (const name of await this._listFiles()) {
+      if (name.endsWith('.json') || name.endsWith('.tmp')) {
+        await fs.rm(path.join(this.directory, name), { force: true })
+      }
+    }
+  }
+
+  /**
+   * Delete expired records without decrypting them
+   *
+   * @returns Number of records deleted
+   */
+  async evictExpired(): Promise<number> {
+    let evicted = 0
+    for (const name of await this._recordFiles()) {
+      try {
+        if (!(await this._read(name))) {
+          evicted++
+        }
+      } catch (error) {
+        // Malformed records are reported by loadAll()
+        if (!(error instanceof SessionStorageError)) {
+          throw error
+        }
+      }
+    }
+    return evicted
+  }
+
+  /**
+   * Read a record, deleting it if expired
+   */
+  private async _read(name: string): Promise<EncryptedSessionRecord | null> {
+    const { fs, path } = await this._modules()
+    const file = path.join(this.directory, name)
+
+    let json: string
+    try {
+      json = await fs.readFile(file, 'utf8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null
+      }
+      throw error
+    }
+
+    let record: unknown
+    try {
+      record = JSON.parse(json)
+    } catch {
+      throw new SessionStorageError(`malformed record file ${name}`)
+    }
+    if (!isRecord(record)) {
+      throw new SessionStorageError(`malformed record file ${name}`)
+    }
+
+    if (record.expiresAt <= Date.now()) {
+      await fs.rm(file, { force: true })
+      return null
+    }
+    return record
+  }
+
+  private async _recordFiles(): Promise<string[]> {
+    return (await this._listFiles()).filter(name => name.endsWith('.json'))
+  }
+
+  private async _listFiles(): Promise<string[]> {
+    const { fs } = await this._modules()
+    try {
+      return await fs.readdir(this.directory)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return []
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Node.js modules, imported on use so browser bundles never load them
+   */
+  private async _modules() {
+    const [fs, path] = await Promise.all([
+      import('node:fs/promises'),
+      import('node:path'),
+    ])
+    return { fs, path }
+  }
+}
+
+/**
+ * IndexedDB session storage options
+ */
+export interface IndexedDBSessionStorageOptions {
+  /** Database name (default 'lotus-musig2-sessions') */
+  databaseName?: string
+
+  /** Time after the last session activity until a record expires (ms) */
+  ttl?: number
+
+  /** IndexedDB factory (default globalThis.indexedDB) */
+  indexedDB?: IDBFactory
+}
+
+/** IndexedDB object store of the records */
+const RECORD_STORE = 'sessions'
+
+/**
+ * IndexedDB session storage (browser)
+ *
+ * Stores encrypted records in an object store keyed by record ID.
+ * loadAll() skips records it cannot decrypt, like FileSessionStorage.
+ */
+export class IndexedDBSessionStorage implements SessionStorage {
+  private databaseName: string
+  private ttl: number
+  private factory?: IDBFactory
+  private database?: Promise<IDBDatabase>
+
+  /**
+   * Create an IndexedDB session storage
+   *
+   * @param encryption - Record encryption
+   * @param options - Storage options
+   */
+  constructor(
+    private readonly encryption: SessionEncryption,
+    options: IndexedDBSessionStorageOptions = {},
+  ) {
+    this.databaseName = options.databaseName ?? 'lotus-musig2-sessions'
+    this.ttl = options.ttl ?? DEFAULT_TTL
+    this.factory = options.indexedDB ?? globalThis.indexedDB
+  }
+
+  async save(sessionId: string, data: SerializedSession): Promise<void> {
+    const record = await this.encryption.encrypt(
+      data,
+      data.lastActivity + this.ttl,
+    )
+    await this._request('readwrite', store => store.put(record))
+  }
+
+  async load(sessionId: string): Promise<SerializedSession | null> {
+    const id = recordId(sessionId)
+    const record = await this._request<EncryptedSessionRecord | undefined>(
+      'readonly',
+      store => store.get(id),
+    )
+    if (!record) {
+      return null
+    }
+    if (record.expiresAt <= Date.now()) {
+      await this._request('readwrite', store => store.delete(id))
+      return null
+    }
+    return this.encryption.decrypt(record)
+  }
+
+  async loadAll(): Promise<SerializedSession[]> {
+    await this.evictExpired()
+    const records = await this._request<EncryptedSessionRecord[]>(
+      'readonly',
+      store => store.getAll(),
+    )
+    const sessions: SerializedSession[] = []
+    for (const record of records) {
+      try {
+        sessions.push(await this.encryption.decrypt(record))
+      } catch (error) {
+        skipRecord(record.id, error)
+      }
+    }
+    return sessions
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this._request('readwrite', store => store.delete(recordId(sessionId)))
+  }
+
+  async clear(): Promise<void> {
+    await this._request('readwrite', store => store.clear())
+  }
+
+  /**
+   * Delete expired records without decrypting them
+   *
+   * @returns Number of records deleted
+   */
+  async evictExpired(): Promise<number> {
+    const records = await this._request<EncryptedSessionRecord[]>(
+      'readonly',
+      store => store.getAll(),
+    )
+    const now = Date.now()
+    const expired = records.filter(
+      record => isRecord(record) && record.expiresAt <= now,
+    )
+    for (const record of expired) {
+      await this._request('readwrite', store => store.delete(record.id))
+    }
+    return expired.length
+  }
+
+  /**
+   * Close the database connection
+   */
+  async close(): Promise<void> {
+    if (this.database) {
+      const database = await this.database
+      database.close()
+      this.database = undefined
+    }
+  }
+
+  /**
+   * Run a request in its own transaction, resolving once committed
+   */
+  private async _request<T = unknown>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest,
+  ): Promise<T> {
+    const database = await this._open()
+    return new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(RECORD_STORE, mode)
+      const request = run(transaction.objectStore(RECORD_STORE))
+      transaction.oncomplete = () => resolve(request.result as T)
+      transaction.onerror = () => reject(transaction.error ?? request.error)
+      transaction.onabort = () => reject(transaction.error ?? request.error)
+    })
+  }
+
+  private _open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const factory = this.factory
+      if (!factory) {
+        throw new SessionStorageError('IndexedDB is not available')
+      }
+      this.database = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = factory.open(this.databaseName, 1)
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(RECORD_STORE, { keyPath: 'id' })
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+      // Retry opening after a failure
+      this.database.catch(() => {
+        this.database = undefined
+      })
+    }
+    return this.database
+  }
+}
@@ -35,6 +35,12 @@ export enum MuSig2MessageType {
 
   /** Session complete notification (direct P2P) */
   SESSION_COMPLETE = 'musig2:session-complete',
+
+  /** Request a participant's session state after a restart (direct P2P) */
+  SESSION_RECOVERY_REQUEST = 'musig2:session-recovery-request',
+
+  /** Session state of a participant (direct P2P) */
+  SESSION_RECOVERY_RESPONSE = 'musig2:session-recovery-response',
 }
 
 // ============================================================================
@@ -256,6 +262,13 @@ export interface MuSig2P2PConfig {
 
   /** Timeout for coordinator to broadcast (milliseconds) */
   broadcastTimeout?: number
+
+  /**
+   * Time to wait for a disconnected participant to come back, e.g. after a
+   * restart, before aborting its in-progress sessions (milliseconds, 0 aborts
+   * immediately)
+   */
+  peerReconnectTimeout?: number
 }
 
 /**
@@ -273,6 +286,7 @@ export const DEFAULT_MUSIG2_P2P_CONFIG: Required<MuSig2P2PConfig> = {
   electionMethod: 'lexicographic',
   enableCoordinatorFailover: true,
   broadcastTimeout: 5 * 60 * 1000, // 5 minutes
+  peerReconnectTimeout: 0, // Abort on disconnect
 
   // Security Validation Limits (Phase 5)
   maxMessageSize: 100_000, // 100KB - DoS protection
@@ -324,6 +338,9 @@ export enum MuSig2Event {
   /** Session timeout */
   SESSION_TIMEOUT = 'musig2:session-timeout',
 
+  /** Session restored from persistent storage */
+  SESSION_RECOVERED = 'musig2:session-recovered',
+
   /** Error in session */
   SESSION_ERROR = 'musig2:session-error',
 
@@ -36,6 +36,10 @@ import type {
   SessionAbortPayload,
   SessionCompletePayload,
 } from './types.js'
+import type {
+  SessionRecoveryRequest,
+  SessionRecoveryResponse,
+} from './session-persistence.js'
 
 // ============================================================================
 // Local constants
@@ -72,6 +76,11 @@ function getFieldNames<T>(): Record<keyof T, string> {
     publicNonces: 'publicNonces',
     partialSig: 'partialSig',
     finalSignature: 'finalSignature',
+    requestingPeerId: 'requestingPeerId',
+    lastKnownPhase: 'lastKnownPhase',
+    found: 'found',
+    currentPhase: 'currentPhase',
+    sessionState: 'sessionState',
     timestamp: 'timestamp',
   } as Record<keyof T, string>
 }
@@ -84,6 +93,8 @@ const NONCE_FIELDS = getFieldNames<NonceSharePayload>()
 const SIG_FIELDS = getFieldNames<PartialSigSharePayload>()
 const ABORT_FIELDS = getFieldNames<SessionAbortPayload>()
 const COMPLETE_FIELDS = getFieldNames<SessionCompletePayload>()
+const RECOVERY_REQUEST_FIELDS = getFieldNames<SessionRecoveryRequest>()
+const RECOVERY_RESPONSE_FIELDS = getFieldNames<SessionRecoveryResponse>()
 
 // Additional field groups for nested objects
 const MESSAGE_FIELDS = {
@@ -97,6 +108,20 @@ const SIGNATURE_FIELDS = {
   s: 's',
 } as const
 
+const SESSION_STATE_FIELDS = {
+  sessionId: 'sessionId',
+  phase: 'phase',
+  signers: 'signers',
+  myIndex: 'myIndex',
+  message: 'message',
+  myPublicNonce: 'myPublicNonce',
+  myPartialSig: 'myPartialSig',
+  receivedNonces: 'receivedNonces',
+  receivedPartialSigs: 'receivedPartialSigs',
+  coordinatorPeerId: 'coordinatorPeerId',
+  participants: 'participants',
+} as const
+
 // ============================================================================
 // Primitive Validation Helpers
 // ============================================================================
@@ -301,6 +326,55 @@ function validateFinalSignature(
   validateField(sigObj, SIGNATURE_FIELDS.s, validate32ByteHex)
 }
 
+/**
+ * Validate the session state of a recovery response
+ *
+ * Checks the fields a recovering signer reads: its identity, public nonces
+ * and partial signatures.
+ */
+function validateSessionState(
+  value: unknown,
+  fieldName: string,
+): asserts value is Record<string, unknown> {
+  validateObject(value, fieldName)
+
+  validateField(value, SESSION_STATE_FIELDS.sessionId, validateString)
+  validateField(value, SESSION_STATE_FIELDS.phase, validateString)
+  validateField(value, SESSION_STATE_FIELDS.signers, validateSignersArray)
+  validateField(value, SESSION_STATE_FIELDS.myIndex, validateNumber)
+  validateField(value, SESSION_STATE_FIELDS.message, validateHexString)
+  validateField(value, SESSION_STATE_FIELDS.coordinatorPeerId, validateString)
+  validateField(value, SESSION_STATE_FIELDS.participants, validateArray)
+
+  if (SESSION_STATE_FIELDS.myPublicNonce in value) {
+    validateField(
+      value,
+      SESSION_STATE_FIELDS.myPublicNonce,
+      validatePublicNonces,
+    )
+  }
+  if (SESSION_STATE_FIELDS.myPartialSig in value) {
+    validateField(value, SESSION_STATE_FIELDS.myPartialSig, validate32ByteHex)
+  }
+
+  validateField(value, SESSION_STATE_FIELDS.receivedNonces, (nonces, name) => {
+    validateObject(nonces, name)
+    for (const [index, nonce] of Object.entries(nonces)) {
+      validatePublicNonces(nonce, `${name}.${index}`)
+    }
+  })
+  validateField(
+    value,
+    SESSION_STATE_FIELDS.receivedPartialSigs,
+    (partialSigs, name) => {
+      validateObject(partialSigs, name)
+      for (const [index, partialSig] of Object.entries(partialSigs)) {
+        validate32ByteHex(partialSig, `${name}.${index}`)
+      }
+    },
+  )
+}
+
 /**
  * Validate boolean input
  */
@@ -513,6 +587,56 @@ export function validateSessionCompletePayload(
   }
 }
 
+/**
+ * Validate session recovery request payload
+ */
+export function validateSessionRecoveryRequestPayload(
+  payload: unknown,
+): asserts payload is SessionRecoveryRequest {
+  validateObject(payload, 'sessionRecoveryRequest')
+
+  // Required fields
+  validateField(payload, RECOVERY_REQUEST_FIELDS.sessionId, validateString)
+  validateField(
+    payload,
+    RECOVERY_REQUEST_FIELDS.requestingPeerId,
+    validateString,
+  )
+  validateField(payload, RECOVERY_REQUEST_FIELDS.lastKnownPhase, validateString)
+  validateField(payload, RECOVERY_REQUEST_FIELDS.timestamp, validateTimestamp)
+}
+
+/**
+ * Validate session recovery response payload
+ */
+export function validateSessionRecoveryResponsePayload(
+  payload: unknown,
+): asserts payload is SessionRecoveryResponse {
+  validateObject(payload, 'sessionRecoveryResponse')
+
+  // Required fields
+  validateField(payload, RECOVERY_RESPONSE_FIELDS.sessionId, validateString)
+  validateField(payload, RECOVERY_RESPONSE_FIELDS.found, validateBoolean)
+  validateField(payload, RECOVERY_RESPONSE_FIELDS.timestamp, validateTimestamp)
+
+  // Optional fields
+  if (RECOVERY_RESPONSE_FIELDS.currentPhase in payload) {
+    validateField(
+      payload,
+      RECOVERY_RESPONSE_FIELDS.currentPhase,
+      validateString,
+    )
+  }
+
+  if (RECOVERY_RESPONSE_FIELDS.sessionState in payload) {
+    validateField(
+      payload,
+      RECOVERY_RESPONSE_FIELDS.sessionState,
+      validateSessionState,
+    )
+  }
+}
+
 // ============================================================================
 // Message Type Router
 // ============================================================================
@@ -553,6 +677,14 @@ export function validateMessagePayload(
       validateSessionCompletePayload(payload)
       break
 
+    case 'sessionRecoveryRequest':
+      validateSessionRecoveryRequestPayload(payload)
+      break
+
+    case 'sessionRecoveryResponse':
+      validateSessionRecoveryResponsePayload(payload)
+      break
+
     default:
       throw createValidationError(
         `Unknown message type: ${messageType}`,
@@ -621,6 +753,8 @@ export function getValidationInfo(): {
       'partialSigShare',
       'sessionAbort',
       'sessionComplete',
+      'sessionRecoveryRequest',
+      'sessionRecoveryResponse',
     ],
     maxMessageSize: MAX_MESSAGE_SIZE,
     maxTimestampSkew: MAX_TIMESTAMP_SKEW,
@@ -0,0 +1,119 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * SwapSig Burn Mechanism
+ *
+ * Every setup transaction burns a small fraction of the denomination in an
+ * OP_RETURN output. The burn makes Sybil attacks (filling a pool with
+ * attacker-controlled inputs) costly, and is verifiable by every participant.
+ *
+ * Burn output format:
+ *   OP_RETURN <burnIdentifier> <version> [<poolId>]
+ */
+
+import { Output } from '../../bitcore/transaction/output.js'
+import { Script } from '../../bitcore/script.js'
+import { Opcode } from '../../bitcore/opcode.js'
+import type { Transaction } from '../../bitcore/transaction/index.js'
+import { DEFAULT_BURN_CONFIG, type BurnConfig } from './types.js'
+
+/**
+ * Creates and validates SwapSig burn outputs
+ */
+export class SwapSigBurnMechanism {
+  private config: BurnConfig
+
+  constructor(config?: Partial<BurnConfig>) {
+    this.config = {
+      ...DEFAULT_BURN_CONFIG,
+      ...config,
+    }
+  }
+
+  /**
+   * Get the burn configuration
+   */
+  getConfig(): BurnConfig {
+    return { ...this.config }
+  }
+
+  /**
+   * Calculate burn amount for a denomination
+   *
+   * burn = max(minimumBurn, min(floor(amount * burnPercentage), maximumBurn))
+   *
+   * @param amount - Pool denomination in satoshis
+   * @param burnPercentage - Optional per-pool override
+   * @returns Burn amount in satoshis
+   */
+  calculateBurnAmount(amount: number, burnPercentage?: number): number {
+    const percentage = burnPercentage ?? this.config.burnPercentage
+    const burn = Math.floor(amount * percentage)
+    return Math.max(
+      this.config.minimumBurn,
+      Math.min(burn, this.config.maximumBurn),
+    )
+  }
+
+  /**
+   * Create burn output for a pool
+   *
+   * @param burnAmount - Satoshis to burn
+   * @param poolId - Pool identifier (hex pool IDs are pushed as raw bytes)
+   * @returns OP_RETURN output carrying the burned value
+   */
+  createBurnOutput(burnAmount: number, poolId: string): Output {
+    return new Output({
+      script: this._buildBurnScript(poolId),
+      satoshis: burnAmount,
+    })
+  }
+
+  /**
+   * Validate that a transaction contains the expected burn output
+   *
+   * @param tx - Setup transaction
+   * @param expectedBurn - Expected burn amount in satoshis
+   * @param poolId - Pool identifier
+   * @returns true if a matching burn output exists
+   */
+  validateBurn(tx: Transaction, expectedBurn: number, poolId: string): boolean {
+    const expectedScript = this._buildBurnScript(poolId).toHex()
+    return tx.outputs.some(
+      output =>
+        output.script.isDataOut() &&
+        output.satoshis >= expectedBurn &&
+        output.script.toHex() === expectedScript,
+    )
+  }
+
+  /**
+   * Build burn script
+   */
+  private _buildBurnScript(poolId: string): Script {
+    const script = new Script()
+      .add(Opcode.OP_RETURN)
+      .add(Buffer.from(this.config.burnIdentifier, 'utf8'))
+      .add(Buffer.from([this.config.version]))
+
+    if (this.config.poolIdInBurn) {
+      script.add(this._poolIdToBuffer(poolId))
+    }
+
+    return script
+  }
+
+  /**
+   * Encode pool ID for the burn script
+   */
+  private _poolIdToBuffer(poolId: string): Buffer {
+    if (poolId.length % 2 === 0 && /^[0-9a-f]+$/i.test(poolId)) {
+      return Buffer.from(poolId, 'hex')
+    }
+    return Buffer.from(poolId, 'utf8')
+  }
+}
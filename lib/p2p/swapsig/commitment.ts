@@ -0,0 +1,91 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * SwapSig Destination Commitments
+ *
+ * Participants register an encrypted final destination together with a
+ * commitment to it. The destination stays hidden until every setup
+ * transaction is confirmed; then each participant publishes its reveal key,
+ * and everyone decrypts the destination and checks it against the commitment.
+ *
+ * commitment = SHA256("swapsig/destination" || revealKey || address)
+ * encrypted  = address XOR HMAC-SHA256 keystream(revealKey)
+ */
+
+import { Hash } from '../../bitcore/crypto/hash.js'
+import { Random } from '../../bitcore/crypto/random.js'
+import { Address } from '../../bitcore/address.js'
+
+const COMMITMENT_TAG = Buffer.from('swapsig/destination', 'utf8')
+
+/**
+ * Destination commitment with its opening
+ */
+export interface DestinationCommitment {
+  commitment: Buffer
+  encrypted: Buffer
+  revealKey: Buffer
+}
+
+/**
+ * Commit to a final destination address
+ *
+ * @param address - Final destination
+ * @returns Commitment, encrypted destination and the key opening both
+ */
+export function createDestinationCommitment(
+  address: Address,
+): DestinationCommitment {
+  const revealKey = Random.getRandomBuffer(32)
+  const plaintext = Buffer.from(address.toString(), 'utf8')
+
+  return {
+    commitment: computeCommitment(revealKey, plaintext),
+    encrypted: xorKeystream(revealKey, plaintext),
+    revealKey,
+  }
+}
+
+/**
+ * Open a destination commitment
+ *
+ * @param encrypted - Encrypted destination
+ * @param commitment - Registered commitment
+ * @param revealKey - Published reveal key
+ * @returns Destination address
+ * @throws Error if the opening does not match the commitment
+ */
+export function openDestinationCommitment(
+  encrypted: Buffer,
+  commitment: Buffer,
+  revealKey: Buffer,
+): Address {
+  const plaintext = xorKeystream(revealKey, encrypted)
+
+  if (!computeCommitment(revealKey, plaintext).equals(commitment)) {
+    throw new Error('Destination does not match commitment')
+  }
+
+  return Address.fromString(plaintext.toString('utf8'))
+}
+
+function computeCommitment(revealKey: Buffer, plaintext: Buffer): Buffer {
+  return Hash.sha256(Buffer.concat([COMMITMENT_TAG, revealKey, plaintext]))
+}
+
+function xorKeystream(key: Buffer, data: Buffer): Buffer {
+  const out = Buffer.alloc(data.length)
+  for (let offset = 0, counter = 0; offset < data.length; counter++) {
+    const counterBuf = Buffer.alloc(4)
+    counterBuf.writeUInt32BE(counter)
+    const block = Hash.sha256hmac(counterBuf, key)
+    for (let i = 0; i < block.length && offset < data.length; i++, offset++) {
+      out[offset] = data[offset] ^ block[i]
+    }
+  }
+  return out
+}
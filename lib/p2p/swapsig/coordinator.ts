@@ -0,0 +1,2037 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * SwapSig P2P Coordinator
+ *
+ * Coordinates SwapSig privacy swaps over the P2P network:
+ *
+ * 1. Discovery/registration: pools are announced on GossipSub; participants
+ *    register an input, an ownership proof and a committed destination with
+ *    the pool creator, which relays the roster to the pool
+ * 2. Setup: every participant locks one denomination into the MuSig2 Taproot
+ *    output of its group and burns a small amount (Sybil defense)
+ * 3. Reveal: once all setup transactions are confirmed, destinations are
+ *    revealed and checked against their commitments
+ * 4. Settlement: the signers of each shared output run a MuSig2 session
+ *    (MuSig2P2PCoordinator) and pay it to a participant outside the group
+ *
+ * The pool creator only relays messages. Everything relayed is verifiable by
+ * each participant (ownership proofs, commitments, on-chain transactions).
+ */
+
+import { EventEmitter } from 'events'
+import { P2PCoordinator } from '../coordinator.js'
+import { P2PProtocol } from '../protocol.js'
+import type { P2PConfig, PeerInfo } from '../types.js'
+import { TransactionMonitor } from '../blockchain-utils.js'
+import { MuSig2P2PCoordinator } from '../musig2/coordinator.js'
+import {
+  MuSig2Event,
+  TransactionType,
+  type MuSig2P2PConfig,
+  type SessionAnnouncement,
+} from '../musig2/types.js'
+import { PrivateKey } from '../../bitcore/privatekey.js'
+import { Address } from '../../bitcore/address.js'
+import { Script } from '../../bitcore/script.js'
+import { Hash } from '../../bitcore/crypto/hash.js'
+import { Schnorr } from '../../bitcore/crypto/schnorr.js'
+import { Signature } from '../../bitcore/crypto/signature.js'
+import { Transaction } from '../../bitcore/transaction/index.js'
+import { Output } from '../../bitcore/transaction/output.js'
+import { buildRefundSpend } from '../../bitcore/taproot/refund.js'
+import {
+  UnspentOutput,
+  type UnspentOutputData,
+} from '../../bitcore/transaction/unspentoutput.js'
+import { SwapPoolManager } from './pool.js'
+import { SwapSigBurnMechanism } from './burn.js'
+import { SwapSigProtocolHandler } from './protocol.js'
+import {
+  createDestinationCommitment,
+  openDestinationCommitment,
+} from './commitment.js'
+import {
+  serializeParticipant,
+  deserializeParticipant,
+  createPoolAnnouncement,
+} from './serialization.js'
+import {
+  InvalidPhaseError,
+  PoolNotFoundError,
+  PoolValidationError,
+} from './errors.js'
+import {
+  SwapPhase,
+  SwapSigEvent,
+  SwapSigMessageType,
+  DEFAULT_SWAPSIG_CONFIG,
+  type SwapSigEventMap,
+  type SwapSigConfig,
+  type SwapPool,
+  type SwapParticipant,
+  type PoolStats,
+  type CreatePoolParams,
+  type PoolAnnouncement,
+  type PoolFilters,
+  type OutputGroup,
+  type SettlementInfo,
+  type PoolJoinPayload,
+  type PoolJoinAckPayload,
+  type ParticipantRegisteredPayload,
+  type PhaseChangePayload,
+  type SetupBroadcastPayload,
+  type DestinationRevealPayload,
+  type SettlementReadyPayload,
+  type SettlementBroadcastPayload,
+  type PoolAbortPayload,
+} from './types.js'
+
+/** Resource type used for local/DHT pool announcements */
+const POOL_RESOURCE_TYPE = 'swapsig-pool'
+
+/** Time to wait for the pool creator to acknowledge a registration */
+const JOIN_TIMEOUT = 30000
+
+/** Confirmation polling interval */
+const CONFIRMATION_POLL_INTERVAL = 5000
+
+/**
+ * Local state for a pool this node registered in
+ */
+interface LocalRegistration {
+  utxo: UnspentOutput
+  finalAddress: Address
+  revealKey: Buffer
+  setupTx?: Transaction
+}
+
+/**
+ * Local state for a settlement this node co-signs
+ */
+interface SettlementContext {
+  poolId: string
+  sourceIndex: number
+  group: OutputGroup
+  tx: Transaction
+  sighash: Buffer
+  isLeader: boolean
+  sessionId?: string
+}
+
+/**
+ * Pending registration awaiting the creator's acknowledgment
+ */
+interface PendingJoin {
+  resolve: (participantIndex: number) => void
+  reject: (error: Error) => void
+  timeout: NodeJS.Timeout
+}
+
+/**
+ * SwapSig Coordinator
+ *
+ * Owns a P2PCoordinator and a MuSig2P2PCoordinator sharing the same libp2p
+ * node, and drives pools through their phases.
+ */
+export class SwapSigCoordinator extends EventEmitter<SwapSigEventMap> {
+  private privateKey: PrivateKey
+  private p2p: P2PCoordinator
+  private musig2: MuSig2P2PCoordinator
+  private protocolHandler: SwapSigProtocolHandler
+  private protocol: P2PProtocol
+  private poolManager: SwapPoolManager
+  private burnMechanism: SwapSigBurnMechanism
+  private txMonitor: TransactionMonitor
+  private config: Required<Omit<SwapSigConfig, 'burnConfig' | 'chainBackend'>>
+
+  // Pools announced by other peers
+  private discoveredPools: Map<string, PoolAnnouncement> = new Map()
+
+  // Pools this node registered in
+  private registrations: Map<string, LocalRegistration> = new Map()
+
+  // Registrations awaiting acknowledgment
+  private pendingJoins: Map<string, PendingJoin> = new Map()
+
+  // Settlements this node co-signs, keyed by poolId:sourceIndex
+  private settlements: Map<string, SettlementContext> = new Map()
+
+  // Settlement session ID -> settlement key
+  private settlementSessions: Map<string, string> = new Map()
+
+  // Settlement announcements received before the local context existed
+  private pendingAnnouncements: Map<string, SessionAnnouncement> = new Map()
+
+  // Phase timeouts per pool
+  private poolTimeouts: Map<string, NodeJS.Timeout> = new Map()
+
+  private started = false
+
+  /**
+   * Create a SwapSig coordinator
+   *
+   * @param privateKey - Key owning registered inputs and signing settlements
+   * @param p2pConfig - P2P network configuration
+   * @param musig2Config - MuSig2 coordination configuration
+   * @param swapSigConfig - SwapSig configuration
+   */
+  constructor(
+    privateKey: PrivateKey,
+    p2pConfig: P2PConfig,
+    musig2Config?: MuSig2P2PConfig,
+    swapSigConfig?: SwapSigConfig,
+  ) {
+    super()
+
+    const { burnConfig, chainBackend, ...config } = swapSigConfig ?? {}
+
+    this.privateKey = privateKey
+    this.config = {
+      ...DEFAULT_SWAPSIG_CONFIG,
+      ...config,
+    }
+
+    this.p2p = new P2PCoordinator(p2pConfig)
+    this.musig2 = new MuSig2P2PCoordinator(this.p2p, musig2Config)
+    this.protocolHandler = new SwapSigProtocolHandler()
+    this.protocol = new P2PProtocol()
+    this.poolManager = new SwapPoolManager()
+    this.burnMechanism = new SwapSigBurnMechanism(burnConfig)
+    this.txMonitor = new TransactionMonitor(
+      chainBackend ?? this.config.chronikUrl,
+    )
+
+    this.p2p.registerProtocol(this.protocolHandler)
+    this._setupProtocolHandlers()
+    this._setupMuSig2Handlers()
+  }
+
+  // ============================================================================
+  // Lifecycle Management
+  // ============================================================================
+
+  /**
+   * Start the P2P node and SwapSig protocol
+   */
+  async start(): Promise<void> {
+    await this.p2p.start()
+    await this.musig2.initialize()
+    await this.p2p.subscribeToTopic(
+      this.config.poolAnnouncementTopic,
+      this._handlePoolAnnouncement,
+    )
+    this.started = true
+    console.log('[SwapSig] Protocol initialized')
+  }
+
+  /**
+   * Stop the SwapSig protocol and the P2P node
+   */
+  async stop(): Promise<void> {
+    for (const timeout of this.poolTimeouts.values()) {
+      clearTimeout(timeout)
+    }
+    this.poolTimeouts.clear()
+
+    for (const [poolId, pending] of this.pendingJoins) {
+      clearTimeout(pending.timeout)
+      pending.reject(new Error(`Coordinator stopped before joining ${poolId}`))
+    }
+    this.pendingJoins.clear()
+
+    if (this.started) {
+      await this.p2p
+        .unsubscribeFromTopic(this.config.poolAnnouncementTopic)
+        .catch(() => {})
+      await this.musig2.cleanup()
+      this.started = false
+    }
+    await this.p2p.stop()
+    console.log('[SwapSig] Protocol stopped')
+  }
+
+  /**
+   * Get this node's peer ID
+   */
+  get peerId(): string {
+    return this.p2p.peerId
+  }
+
+  /**
+   * Get the underlying libp2p node
+   */
+  get libp2pNode() {
+    return this.p2p.libp2pNode
+  }
+
+  /**
+   * Get the P2P coordinator
+   */
+  getP2PCoordinator(): P2PCoordinator {
+    return this.p2p
+  }
+
+  /**
+   * Get the MuSig2 coordinator used for settlement signing
+   */
+  getMuSig2Coordinator(): MuSig2P2PCoordinator {
+    return this.musig2
+  }
+
+  /**
+   * Connect to a peer
+   */
+  async connectToPeer(peerAddr: string): Promise<void> {
+    await this.p2p.connectToPeer(peerAddr)
+  }
+
+  /**
+   * Get P2P statistics
+   */
+  getStats() {
+    return this.p2p.getStats()
+  }
+
+  /**
+   * Get DHT statistics
+   */
+  getDHTStats() {
+    return this.p2p.getDHTStats()
+  }
+
+  /**
+   * Get the pool manager
+   */
+  getPoolManager(): SwapPoolManager {
+    return this.poolManager
+  }
+
+  /**
+   * Get the burn mechanism (coordinator defaults)
+   */
+  getBurnMechanism(): SwapSigBurnMechanism {
+    return this.burnMechanism
+  }
+
+  /**
+   * Get the effective SwapSig configuration
+   */
+  getSwapConfig(): SwapSigConfig {
+    return {
+      ...this.config,
+      burnConfig: this.burnMechanism.getConfig(),
+    }
+  }
+
+  // ============================================================================
+  // Pool Discovery and Registration
+  // ============================================================================
+
+  /**
+   * Create and announce a new pool
+   *
+   * @param params - Pool parameters
+   * @returns Pool ID
+   */
+  async createPool(params: CreatePoolParams): Promise<string> {
+    const pool = this.poolManager.createPool(params, {
+      creatorPeerId: this.peerId,
+      burnConfig: this.burnMechanism.getConfig(),
+      defaults: {
+        minParticipants: this.config.minParticipants,
+        maxParticipants: this.config.maxParticipants,
+        feeRate: this.config.feeRate,
+        setupTimeout: this.config.setupTimeout,
+        settlementTimeout: this.config.settlementTimeout,
+        refundDelay: this.config.refundDelay,
+      },
+    })
+
+    const announcement = createPoolAnnouncement(
+      pool,
+      this.config.poolAnnouncementTTL,
+    )
+
+    await this.p2p.announceResource(
+      POOL_RESOURCE_TYPE,
+      pool.poolId,
+      announcement,
+      { expiresAt: announcement.expiresAt },
+    )
+
+    try {
+      await this.p2p.publishToTopic(
+        this.config.poolAnnouncementTopic,
+        announcement,
+      )
+    } catch (error) {
+      console.warn(
+        `[SwapSig] Failed to publish pool announcement ${pool.poolId}:`,
+        error,
+      )
+    }
+
+    console.log(`[SwapSig] Created pool: ${pool.poolId}`)
+    this.emit(SwapSigEvent.POOL_CREATED, pool)
+
+    return pool.poolId
+  }
+
+  /**
+   * Find pools announced by other peers that are still accepting participants
+   *
+   * @param filters - Optional parameter filters
+   * @returns Matching pool announcements
+   */
+  discoverPools(filters?: PoolFilters): PoolAnnouncement[] {
+    const announcements = new Map(this.discoveredPools)
+    for (const resource of this.p2p.getLocalResources(POOL_RESOURCE_TYPE)) {
+      const announcement = resource.data as PoolAnnouncement
+      if (announcement.creatorPeerId !== this.peerId) {
+        announcements.set(announcement.poolId, announcement)
+      }
+    }
+
+    const now = Date.now()
+    return Array.from(announcements.values()).filter(
+      announcement =>
+        announcement.expiresAt > now &&
+        (announcement.phase === SwapPhase.DISCOVERY ||
+          announcement.phase === SwapPhase.REGISTRATION) &&
+        (filters?.denomination === undefined ||
+          announcement.denomination === filters.denomination) &&
+        (filters?.minParticipants === undefined ||
+          announcement.minParticipants >= filters.minParticipants) &&
+        (filters?.maxParticipants === undefined ||
+          announcement.maxParticipants <= filters.maxParticipants),
+    )
+  }
+
+  /**
+   * Get pools this node created or registered in that are still active
+   */
+  getActivePools(): SwapPool[] {
+    return this.poolManager.getActivePools()
+  }
+
+  /**
+   * Get a tracked pool
+   */
+  getPool(poolId: string): SwapPool | undefined {
+    return this.poolManager.getPool(poolId)
+  }
+
+  /**
+   * Get pool statistics
+   */
+  getPoolStats(poolId: string): PoolStats | undefined {
+    const pool = this.poolManager.getPool(poolId)
+    if (!pool) {
+      return undefined
+    }
+    return this.poolManager.getPoolStats(
+      poolId,
+      this._burnMechanismFor(pool).calculateBurnAmount(pool.denomination),
+    )
+  }
+
+  /**
+   * Register an input in a pool
+   *
+   * The input must be a P2PKH output of this coordinator's key worth more
+   * than the denomination plus burn (the remainder pays the setup fee and
+   * returns as change). The destination is committed now and revealed only
+   * after every setup transaction is confirmed.
+   *
+   * @param poolId - Pool to join
+   * @param utxo - Input to swap
+   * @param finalAddress - Destination for the swapped output
+   * @returns Assigned participant index
+   */
+  async joinPool(
+    poolId: string,
+    utxo: UnspentOutput | UnspentOutputData,
+    finalAddress: Address,
+  ): Promise<number> {
+    const pool = this._getOrTrackPool(poolId)
+    if (
+      pool.phase !== SwapPhase.DISCOVERY &&
+      pool.phase !== SwapPhase.REGISTRATION
+    ) {
+      throw new InvalidPhaseError(poolId, pool.phase, 'join pool')
+    }
+    if (this.registrations.has(poolId)) {
+      throw new PoolValidationError(`Already registered in pool ${poolId}`)
+    }
+
+    const unspent =
+      utxo instanceof UnspentOutput ? utxo : new UnspentOutput(utxo)
+    const publicKey = this.privateKey.publicKey
+    if (
+      unspent.script.toHex() !== Script.buildPublicKeyHashOut(publicKey).toHex()
+    ) {
+      throw new PoolValidationError('Input is not spendable by this key')
+    }
+
+    const burnAmount = this._burnMechanismFor(pool).calculateBurnAmount(
+      pool.denomination,
+    )
+    if (unspent.satoshis <= pool.denomination + burnAmount) {
+      throw new PoolValidationError(
+        `Input value ${unspent.satoshis} does not cover denomination and burn (${pool.denomination + burnAmount})`,
+      )
+    }
+
+    const { commitment, encrypted, revealKey } =
+      createDestinationCommitment(finalAddress)
+
+    const participant: Omit<SwapParticipant, 'participantIndex'> = {
+      peerId: this.peerId,
+      publicKey,
+      input: {
+        txId: unspent.txId,
+        outputIndex: unspent.outputIndex,
+        amount: unspent.satoshis,
+        script: unspent.script,
+        address: unspent.address ?? publicKey.toAddress(this.config.network),
+      },
+      ownershipProof: Schnorr.sign(
+        ownershipMessage(poolId, unspent.txId, unspent.outputIndex),
+        this.privateKey,
+      ).toBuffer('schnorr'),
+      finalOutputEncrypted: encrypted,
+      finalOutputCommitment: commitment,
+      multiaddrs: this.libp2pNode.getMultiaddrs().map(ma => ma.toString()),
+      setupConfirmed: false,
+      joinedAt: Date.now(),
+    }
+
+    this.registrations.set(poolId, {
+      utxo: unspent,
+      finalAddress,
+      revealKey,
+    })
+
+    let participantIndex: number
+    try {
+      if (pool.creatorPeerId === this.peerId) {
+        participantIndex = this.poolManager.addParticipant(poolId, participant)
+        await this._onParticipantRegistered(
+          pool,
+          pool.participants[participantIndex],
+        )
+      } else {
+        participantIndex = await this._requestJoin(pool, participant)
+      }
+    } catch (error) {
+      this.registrations.delete(poolId)
+      throw error
+    }
+
+    console.log(
+      `[SwapSig] Joined pool ${poolId} as participant ${participantIndex}`,
+    )
+    this.emit(SwapSigEvent.POOL_JOINED, poolId, participantIndex)
+
+    return participantIndex
+  }
+
+  /**
+   * Start the swap (pool creator only)
+   *
+   * Pools start automatically when full; call this to start with fewer
+   * participants once minParticipants is reached.
+   *
+   * @param poolId - Pool ID
+   */
+  async startSwap(poolId: string): Promise<void> {
+    const pool = this.poolManager.requirePool(poolId)
+    if (pool.creatorPeerId !== this.peerId) {
+      throw new PoolValidationError('Only the pool creator can start the swap')
+    }
+    if (pool.phase !== SwapPhase.REGISTRATION) {
+      throw new InvalidPhaseError(poolId, pool.phase, 'start swap')
+    }
+    if (pool.participants.length < pool.minParticipants) {
+      throw new PoolValidationError(
+        `Pool ${poolId} has ${pool.participants.length} of ${pool.minParticipants} required participants`,
+      )
+    }
+
+    const payload: PhaseChangePayload = {
+      poolId,
+      phase: SwapPhase.SETUP,
+      participants: pool.participants.map(serializeParticipant),
+      timestamp: Date.now(),
+    }
+    await this._sendToPool(pool, SwapSigMessageType.PHASE_CHANGE, payload)
+
+    await this._startSetup(pool)
+  }
+
+  /**
+   * Abort a pool and notify its participants
+   *
+   * @param poolId - Pool ID
+   * @param reason - Abort reason
+   */
+  async abortPool(poolId: string, reason: string): Promise<void> {
+    const pool = this.poolManager.getPool(poolId)
+    if (!pool || pool.aborted) {
+      return
+    }
+
+    const payload: PoolAbortPayload = {
+      poolId,
+      reason,
+      timestamp: Date.now(),
+    }
+    await this._publish(pool, SwapSigMessageType.POOL_ABORT, payload).catch(
+      error => console.error('[SwapSig] Failed to send pool abort:', error),
+    )
+
+    await this._abortLocally(pool, reason)
+  }
+
+  /**
+   * Build a refund for the shared output funded by our setup transaction
+   *
+   * If settlement never completes, the shared output can be reclaimed through
+   * our refund leaf once pool.refundDelay seconds have passed since it
+   * confirmed. The transaction is signed but not broadcast; nodes reject it
+   * until the relative timelock has expired.
+   *
+   * @param poolId - Pool ID
+   * @returns Signed refund transaction paying our own address
+   */
+  buildRefundTransaction(poolId: string): Transaction {
+    const pool = this.poolManager.requirePool(poolId)
+    const myIndex = this._myIndex(pool)
+    const me = myIndex !== undefined ? pool.participants[myIndex] : undefined
+    if (!me?.setupTxId) {
+      throw new PoolValidationError(
+        `No setup output to refund in pool ${poolId}`,
+      )
+    }
+
+    const group = this.poolManager.getGroupForSource(poolId, myIndex!)
+    const buildSpend = (fee: number) =>
+      buildRefundSpend({
+        refund: group.refund,
+        utxo: { txId: me.setupTxId!, outputIndex: 0, satoshis: group.amount },
+        privateKey: this.privateKey,
+        address: this.privateKey.publicKey.toAddress(this.config.network),
+        fee,
+      }).transaction
+
+    const size = buildSpend(0).toBuffer().length
+    return buildSpend(Math.ceil(pool.feeRate * size))
+  }
+
+  // ============================================================================
+  // Setup Phase
+  // ============================================================================
+
+  /**
+   * Enter setup: compute groups, then build and broadcast our setup transaction
+   */
+  private async _startSetup(pool: SwapPool): Promise<void> {
+    if (pool.phase !== SwapPhase.REGISTRATION) {
+      return
+    }
+    this._transitionPhase(pool, SwapPhase.SETUP)
+
+    this.poolManager.computeOutputGroups(pool.poolId, this.config.network)
+    this.poolManager.computeSettlementMapping(pool.poolId)
+    this._setPoolTimeout(pool, pool.setupTimeout, 'Setup timeout')
+
+    const myIndex = this._myIndex(pool)
+    if (myIndex === undefined) {
+      // Creator without an input only relays
+      return
+    }
+
+    try {
+      const tx = this._buildSetupTransaction(pool, myIndex)
+      const txId = await this.txMonitor.broadcastTransaction(tx.serialize())
+      if (!txId) {
+        throw new Error('Setup transaction broadcast failed')
+      }
+
+      const payload: SetupBroadcastPayload = {
+        poolId: pool.poolId,
+        participantIndex: myIndex,
+        txId,
+        timestamp: Date.now(),
+      }
+      await this._publish(pool, SwapSigMessageType.SETUP_BROADCAST, payload)
+      await this._handleSetupBroadcast(payload, this.peerId)
+    } catch (error) {
+      console.error(`[SwapSig] Setup failed for pool ${pool.poolId}:`, error)
+      await this.abortPool(
+        pool.poolId,
+        `Setup failed: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+  }
+
+  /**
+   * Build our setup transaction
+   *
+   * Output 0 locks the denomination to our group's MuSig2 Taproot address,
+   * output 1 is the burn, and the remainder minus fee returns as change.
+   */
+  private _buildSetupTransaction(pool: SwapPool, myIndex: number): Transaction {
+    const registration = this.registrations.get(pool.poolId)!
+    const group = this.poolManager.getGroupForSource(pool.poolId, myIndex)
+    const burnMechanism = this._burnMechanismFor(pool)
+    const burnAmount = burnMechanism.calculateBurnAmount(pool.denomination)
+
+    const tx = new Transaction()
+      .from(registration.utxo)
+      .addOutput(
+        new Output({
+          script: group.taprootScript,
+          satoshis: pool.denomination,
+        }),
+      )
+      .addOutput(burnMechanism.createBurnOutput(burnAmount, pool.poolId))
+    tx.feePerByte(pool.feeRate)
+    tx.change(this.privateKey.publicKey.toAddress(this.config.network))
+    tx.sign(this.privateKey)
+
+    registration.setupTx = tx
+    return tx
+  }
+
+  /**
+   * Record a participant's setup transaction
+   */
+  private async _handleSetupBroadcast(
+    payload: SetupBroadcastPayload,
+    fromPeerId: string,
+  ): Promise<void> {
+    const pool = this.poolManager.getPool(payload.poolId)
+    const participant = pool?.participants[payload.participantIndex]
+    if (!pool || !participant || pool.aborted) {
+      return
+    }
+    if (
+      fromPeerId !== participant.peerId &&
+      fromPeerId !== pool.creatorPeerId
+    ) {
+      console.warn(
+        `[SwapSig] Ignoring setup broadcast for participant ${payload.participantIndex} from ${fromPeerId}`,
+      )
+      return
+    }
+
+    participant.setupTxId = payload.txId
+    await this._checkSetupComplete(pool)
+  }
+
+  /**
+   * Verify and wait for all setup transactions once all are broadcast
+   */
+  private async _checkSetupComplete(pool: SwapPool): Promise<void> {
+    if (
+      pool.phase !== SwapPhase.SETUP ||
+      !pool.participants.every(p => p.setupTxId)
+    ) {
+      return
+    }
+    this._transitionPhase(pool, SwapPhase.SETUP_CONFIRM)
+
+    try {
+      await Promise.all(
+        pool.participants.map(participant =>
+          this._verifySetupTransaction(pool, participant),
+        ),
+      )
+    } catch (error) {
+      await this.abortPool(
+        pool.poolId,
+        error instanceof Error ? error.message : String(error),
+      )
+      return
+    }
+    if (pool.aborted) {
+      return
+    }
+
+    this._clearPoolTimeout(pool.poolId)
+    console.log(`[SwapSig] All setup transactions confirmed: ${pool.poolId}`)
+    this.emit(SwapSigEvent.SETUP_COMPLETE, pool.poolId)
+
+    await this._startReveal(pool)
+  }
+
+  /**
+   * Check a setup transaction on-chain and wait for its confirmations
+   *
+   * @throws Error if the transaction does not fund the expected outputs
+   */
+  private async _verifySetupTransaction(
+    pool: SwapPool,
+    participant: SwapParticipant,
+  ): Promise<void> {
+    const txId = participant.setupTxId!
+    const tx = await this.txMonitor.getTransaction(txId)
+    if (!tx) {
+      throw new Error(`Setup transaction ${txId} not found`)
+    }
+
+    const spendsInput = tx.inputs.some(
+      input =>
+        input.txId === participant.input.txId &&
+        input.outputIndex === participant.input.outputIndex,
+    )
+    const group = this.poolManager.getGroupForSource(
+      pool.poolId,
+      participant.participantIndex,
+    )
+    const sharedOutput = tx.outputs[0]
+    const burnMechanism = this._burnMechanismFor(pool)
+    const burnAmount = burnMechanism.calculateBurnAmount(pool.denomination)
+    const burnScript = burnMechanism
+      .createBurnOutput(burnAmount, pool.poolId)
+      .script.toHex()
+
+    if (
+      !spendsInput ||
+      !sharedOutput ||
+      sharedOutput.script !== group.taprootScript.toHex() ||
+      sharedOutput.satoshis !== pool.denomination ||
+      !tx.outputs.some(
+        output => output.script === burnScript && output.satoshis >= burnAmount,
+      )
+    ) {
+      throw new Error(
+        `Invalid setup transaction from participant ${participant.participantIndex}`,
+      )
+    }
+
+    const info = await this.txMonitor.waitForConfirmations(
+      txId,
+      this.config.requiredConfirmations,
+      CONFIRMATION_POLL_INTERVAL,
+      pool.setupTimeout,
+    )
+    if (!info) {
+      throw new Error(`Setup transaction ${txId} not confirmed`)
+    }
+    participant.setupConfirmed = true
+  }
+
+  // ============================================================================
+  // Reveal Phase
+  // ============================================================================
+
+  /**
+   * Publish our reveal key
+   */
+  private async _startReveal(pool: SwapPool): Promise<void> {
+    this._transitionPhase(pool, SwapPhase.REVEAL)
+    this._setPoolTimeout(pool, pool.settlementTimeout, 'Reveal timeout')
+
+    const myIndex = this._myIndex(pool)
+    if (myIndex !== undefined) {
+      const payload: DestinationRevealPayload = {
+        poolId: pool.poolId,
+        participantIndex: myIndex,
+        revealKey: this.registrations
+          .get(pool.poolId)!
+          .revealKey.toString('hex'),
+        timestamp: Date.now(),
+      }
+      await this._publish(pool, SwapSigMessageType.DESTINATION_REVEAL, payload)
+      await this._handleDestinationReveal(payload, this.peerId)
+    } else {
+      await this._checkRevealComplete(pool)
+    }
+  }
+
+  /**
+   * Open a participant's destination commitment
+   */
+  private async _handleDestinationReveal(
+    payload: DestinationRevealPayload,
+    fromPeerId: string,
+  ): Promise<void> {
+    const pool = this.poolManager.getPool(payload.poolId)
+    const participant = pool?.participants[payload.participantIndex]
+    if (!pool || !participant || pool.aborted || participant.finalAddress) {
+      return
+    }
+    if (
+      fromPeerId !== participant.peerId &&
+      fromPeerId !== pool.creatorPeerId
+    ) {
+      return
+    }
+
+    const revealKey = Buffer.from(payload.revealKey, 'hex')
+    try {
+      participant.finalAddress = openDestinationCommitment(
+        participant.finalOutputEncrypted,
+        participant.finalOutputCommitment,
+        revealKey,
+      )
+      participant.revealKey = revealKey
+    } catch {
+      await this.abortPool(
+        pool.poolId,
+        `Invalid destination reveal from participant ${payload.participantIndex}`,
+      )
+      return
+    }
+
+    await this._checkRevealComplete(pool)
+  }
+
+  /**
+   * Move to settlement once all destinations are revealed
+   */
+  private async _checkRevealComplete(pool: SwapPool): Promise<void> {
+    if (
+      pool.phase !== SwapPhase.REVEAL ||
+      !pool.participants.every(p => p.finalAddress)
+    ) {
+      return
+    }
+
+    for (const info of pool.settlementMapping.values()) {
+      info.receiverAddress = pool.participants[info.receiverIndex].finalAddress
+    }
+
+    console.log(`[SwapSig] All destinations revealed: ${pool.poolId}`)
+    this.emit(SwapSigEvent.REVEAL_COMPLETE, pool.poolId)
+
+    await this._startSettlement(pool)
+  }
+
+  // ============================================================================
+  // Settlement Phase
+  // ============================================================================
+
+  /**
+   * Build the settlements we co-sign and open their MuSig2 sessions
+   *
+   * Every signer builds the settlement transaction independently; the first
+   * signer of the group (leader) creates and announces the session, the
+   * others join with their locally computed sighash.
+   */
+  private async _startSettlement(pool: SwapPool): Promise<void> {
+    this._transitionPhase(pool, SwapPhase.SETTLEMENT)
+    this._setPoolTimeout(pool, pool.settlementTimeout, 'Settlement timeout')
+
+    const myIndex = this._myIndex(pool)
+    if (myIndex === undefined) {
+      return
+    }
+
+    for (const info of pool.settlementMapping.values()) {
+      const group = pool.outputGroups[info.groupIndex]
+      if (!group.participantIndices.includes(myIndex)) {
+        continue
+      }
+
+      const key = settlementKey(pool.poolId, info.sourceIndex)
+      const tx = this._buildSettlementTransaction(pool, info, group)
+      const context: SettlementContext = {
+        poolId: pool.poolId,
+        sourceIndex: info.sourceIndex,
+        group,
+        tx,
+        sighash: tx.getMuSig2Sighash(0),
+        isLeader: group.participantIndices[0] === myIndex,
+      }
+      this.settlements.set(key, context)
+
+      try {
+        for (const index of group.participantIndices) {
+          await this._ensureConnected(pool.participants[index])
+        }
+
+        if (context.isLeader) {
+          const sessionId = await this.musig2.createSession(
+            group.signers,
+            this.privateKey,
+            context.sighash,
+            {
+              swapPoolId: pool.poolId,
+              sourceIndex: info.sourceIndex,
+              groupIndex: group.groupIndex,
+              inputScriptType: 'taproot',
+              taprootMerkleRoot: group.refund.merkleRoot.toString('hex'),
+              transactionType: TransactionType.SWAP,
+            },
+          )
+          this._bindSettlementSession(context, sessionId)
+          await this.musig2.announceSession(sessionId)
+        } else {
+          const announcement = this.pendingAnnouncements.get(key)
+          if (announcement) {
+            this.pendingAnnouncements.delete(key)
+            await this._joinSettlementSession(context, announcement)
+          }
+        }
+      } catch (error) {
+        console.error(
+          `[SwapSig] Settlement session failed for source ${info.sourceIndex} in pool ${pool.poolId}:`,
+          error,
+        )
+        await this.abortPool(
+          pool.poolId,
+          `Settlement session failed: ${error instanceof Error ? error.message : String(error)}`,
+        )
+        return
+      }
+    }
+  }
+
+  /**
+   * Build the settlement transaction for a shared output
+   *
+   * Deterministic for all signers: spends output 0 of the source's setup
+   * transaction and pays denomination minus the settlement fee.
+   */
+  private _buildSettlementTransaction(
+    pool: SwapPool,
+    info: SettlementInfo,
+    group: OutputGroup,
+  ): Transaction {
+    const source = pool.participants[info.sourceIndex]
+    const myPubKey = this.privateKey.publicKey.toString()
+    const mySignerIndex = group.keyAggContext.pubkeys.findIndex(
+      pk => pk.toString() === myPubKey,
+    )
+
+    return new Transaction()
+      .from({
+        txId: source.setupTxId!,
+        outputIndex: 0,
+        script: group.taprootScript,
+        satoshis: pool.denomination,
+        keyAggContext: group.keyAggContext,
+        mySignerIndex,
+      })
+      .to(info.receiverAddress!, info.amount)
+  }
+
+  /**
+   * Join a settlement session announced by the group leader
+   */
+  private async _joinSettlementSession(
+    context: SettlementContext,
+    announcement: SessionAnnouncement,
+  ): Promise<void> {
+    const pool = this.poolManager.requirePool(context.poolId)
+    const leader = pool.participants[context.group.participantIndices[0]]
+    if (announcement.coordinatorPeerId !== leader.peerId) {
+      console.warn(
+        `[SwapSig] Ignoring settlement session from non-leader ${announcement.coordinatorPeerId}`,
+      )
+      return
+    }
+
+    // The Taproot tweak must commit to the refund leaves we derived
+    const merkleRoot = context.group.refund.merkleRoot.toString('hex')
+    if (announcement.metadata?.taprootMerkleRoot !== merkleRoot) {
+      console.warn(
+        `[SwapSig] Ignoring settlement session ${announcement.sessionId} with unexpected merkle root`,
+      )
+      return
+    }
+
+    const sessionId = await this.musig2.joinSession(
+      announcement,
+      this.privateKey,
+      context.sighash,
+    )
+    this._bindSettlementSession(context, sessionId)
+
+    console.log(
+      `[SwapSig] Joined settlement session ${sessionId} for pool ${context.poolId}`,
+    )
+    this.emit(SwapSigEvent.SWAPSIG_REQUEST_JOINED, sessionId, context.poolId)
+  }
+
+  /**
+   * Handle SETTLEMENT_READY from the group leader: register the other
+   * signers and start the nonce exchange
+   */
+  private async _handleSettlementReady(
+    payload: SettlementReadyPayload,
+    fromPeerId: string,
+  ): Promise<void> {
+    const context = this.settlements.get(
+      settlementKey(payload.poolId, payload.sourceIndex),
+    )
+    if (!context || context.sessionId !== payload.sessionId) {
+      return
+    }
+
+    const pool = this.poolManager.requirePool(context.poolId)
+    const leader = pool.participants[context.group.participantIndices[0]]
+    if (fromPeerId !== leader.peerId) {
+      return
+    }
+
+    const p2pSession = this.musig2.getSession(payload.sessionId)
+    if (!p2pSession) {
+      return
+    }
+    const known = new Set(
+      this.musig2.getParticipants(payload.sessionId).map(p => p.peerId),
+    )
+
+    for (const index of context.group.participantIndices) {
+      const signer = pool.participants[index]
+      if (signer.peerId === this.peerId || known.has(signer.peerId)) {
+        continue
+      }
+      const signerIndex = p2pSession.session.signers.findIndex(pk =>
+        pk.toBuffer().equals(signer.publicKey.toBuffer()),
+      )
+      this.musig2.addParticipant(
+        payload.sessionId,
+        signer.peerId,
+        signerIndex,
+        signer.publicKey,
+      )
+    }
+
+    await this._startNonceExchange(context)
+  }
+
+  /**
+   * Share our nonces for a settlement session
+   */
+  private async _startNonceExchange(context: SettlementContext): Promise<void> {
+    const sessionId = context.sessionId!
+    this.emit(SwapSigEvent.SWAPSIG_SESSION_READY, sessionId, context.poolId)
+    await this.musig2.shareNonces(sessionId, this.privateKey)
+  }
+
+  /**
+   * Attach the final signature and broadcast a settlement (leader only)
+   */
+  private async _completeSettlement(
+    context: SettlementContext,
+    signature: Signature,
+  ): Promise<void> {
+    const sessionId = context.sessionId!
+    this.emit(SwapSigEvent.SWAPSIG_SESSION_COMPLETE, sessionId, context.poolId)
+
+    if (!context.isLeader) {
+      return
+    }
+
+    context.tx.inputs[0].setScript(
+      new Script().add(signature.toTxFormat('schnorr')),
+    )
+
+    // The settlement fee is fixed by the pool (denomination minus the
+    // settlement amount), so fee-policy checks do not apply here
+    const txId = await this.txMonitor.broadcastTransaction(
+      context.tx.uncheckedSerialize(),
+    )
+    if (!txId) {
+      throw new Error(
+        `Settlement broadcast failed for source ${context.sourceIndex}`,
+      )
+    }
+
+    const pool = this.poolManager.requirePool(context.poolId)
+    const payload: SettlementBroadcastPayload = {
+      poolId: context.poolId,
+      sourceIndex: context.sourceIndex,
+      txId,
+      timestamp: Date.now(),
+    }
+    await this._publish(pool, SwapSigMessageType.SETTLEMENT_BROADCAST, payload)
+    await this._handleSettlementBroadcast(payload, this.peerId)
+  }
+
+  /**
+   * Record a broadcast settlement transaction
+   */
+  private async _handleSettlementBroadcast(
+    payload: SettlementBroadcastPayload,
+    fromPeerId: string,
+  ): Promise<void> {
+    const pool = this.poolManager.getPool(payload.poolId)
+    const info = pool?.settlementMapping.get(payload.sourceIndex)
+    if (!pool || !info || pool.aborted || info.settlementTxId) {
+      return
+    }
+
+    const group = pool.outputGroups[info.groupIndex]
+    const signerPeers = group.participantIndices.map(
+      i => pool.participants[i].peerId,
+    )
+    if (
+      !signerPeers.includes(fromPeerId) &&
+      fromPeerId !== pool.creatorPeerId
+    ) {
+      return
+    }
+
+    info.settlementTxId = payload.txId
+    await this._checkSettlementComplete(pool)
+  }
+
+  /**
+   * Verify and wait for all settlements once all are broadcast
+   */
+  private async _checkSettlementComplete(pool: SwapPool): Promise<void> {
+    const settlements = Array.from(pool.settlementMapping.values())
+    if (
+      pool.phase !== SwapPhase.SETTLEMENT ||
+      !settlements.every(info => info.settlementTxId)
+    ) {
+      return
+    }
+
+    this._clearPoolTimeout(pool.poolId)
+    console.log(`[SwapSig] All settlements broadcast: ${pool.poolId}`)
+    this.emit(SwapSigEvent.SETTLEMENT_COMPLETE, pool.poolId)
+    this._transitionPhase(pool, SwapPhase.SETTLEMENT_CONFIRM)
+
+    try {
+      await Promise.all(
+        settlements.map(info => this._verifySettlementTransaction(pool, info)),
+      )
+    } catch (error) {
+      await this.abortPool(
+        pool.poolId,
+        error instanceof Error ? error.message : String(error),
+      )
+      return
+    }
+    if (pool.aborted) {
+      return
+    }
+
+    this._transitionPhase(pool, SwapPhase.COMPLETE)
+    this._cleanupSettlements(pool.poolId)
+    console.log(`[SwapSig] Swap complete: ${pool.poolId}`)
+    this.emit(SwapSigEvent.POOL_COMPLETE, pool.poolId)
+  }
+
+  /**
+   * Check a settlement pays its receiver and wait for its confirmations
+   *
+   * @throws Error if the transaction does not pay the expected output
+   */
+  private async _verifySettlementTransaction(
+    pool: SwapPool,
+    info: SettlementInfo,
+  ): Promise<void> {
+    const txId = info.settlementTxId!
+    const tx = await this.txMonitor.getTransaction(txId)
+    const receiverScript = Script.fromAddress(info.receiverAddress!).toHex()
+    if (
+      !tx ||
+      !tx.outputs.some(
+        output =>
+          output.script === receiverScript && output.satoshis === info.amount,
+      )
+    ) {
+      throw new Error(`Invalid settlement transaction for ${info.sourceIndex}`)
+    }
+
+    const confirmation = await this.txMonitor.waitForConfirmations(
+      txId,
+      this.config.requiredConfirmations,
+      CONFIRMATION_POLL_INTERVAL,
+      pool.settlementTimeout,
+    )
+    if (!confirmation) {
+      throw new Error(`Settlement transaction ${txId} not confirmed`)
+    }
+    info.confirmed = true
+  }
+
+  // ============================================================================
+  // Message Handling
+  // ============================================================================
+
+  /**
+   * Setup protocol message handlers
+   */
+  private _setupProtocolHandlers(): void {
+    const handle = <T>(
+      type: SwapSigMessageType,
+      handler: (payload: T, fromPeerId: string) => Promise<void>,
+    ) => {
+      this.protocolHandler.on(type, (payload: T, from: PeerInfo) => {
+        handler(payload, from.peerId).catch(error => {
+          console.error(`[SwapSig] Error handling ${type}:`, error)
+        })
+      })
+    }
+
+    handle<PoolJoinPayload>(SwapSigMessageType.POOL_JOIN, this._handlePoolJoin)
+    handle<PoolJoinAckPayload>(
+      SwapSigMessageType.POOL_JOIN_ACK,
+      this._handlePoolJoinAck,
+    )
+    handle<ParticipantRegisteredPayload>(
+      SwapSigMessageType.PARTICIPANT_REGISTERED,
+      this._handleParticipantRegistered,
+    )
+    handle<PhaseChangePayload>(
+      SwapSigMessageType.PHASE_CHANGE,
+      this._handlePhaseChange,
+    )
+    handle<SetupBroadcastPayload>(
+      SwapSigMessageType.SETUP_BROADCAST,
+      this._relayAnd(
+        SwapSigMessageType.SETUP_BROADCAST,
+        (payload: SetupBroadcastPayload, from) =>
+          this._handleSetupBroadcast(payload, from),
+      ),
+    )
+    handle<DestinationRevealPayload>(
+      SwapSigMessageType.DESTINATION_REVEAL,
+      this._relayAnd(
+        SwapSigMessageType.DESTINATION_REVEAL,
+        (payload: DestinationRevealPayload, from) =>
+          this._handleDestinationReveal(payload, from),
+      ),
+    )
+    handle<SettlementReadyPayload>(
+      SwapSigMessageType.SETTLEMENT_READY,
+      (payload, from) => this._handleSettlementReady(payload, from),
+    )
+    handle<SettlementBroadcastPayload>(
+      SwapSigMessageType.SETTLEMENT_BROADCAST,
+      this._relayAnd(
+        SwapSigMessageType.SETTLEMENT_BROADCAST,
+        (payload: SettlementBroadcastPayload, from) =>
+          this._handleSettlementBroadcast(payload, from),
+      ),
+    )
+    handle<PoolAbortPayload>(
+      SwapSigMessageType.POOL_ABORT,
+      this._relayAnd(
+        SwapSigMessageType.POOL_ABORT,
+        (payload: PoolAbortPayload, from) =>
+          this._handlePoolAbort(payload, from),
+      ),
+    )
+  }
+
+  /**
+   * Wrap a pool-wide message handler so the pool creator relays the message
+   * to the other participants before processing it
+   */
+  private _relayAnd<T extends { poolId: string }>(
+    type: SwapSigMessageType,
+    handler: (payload: T, fromPeerId: string) => Promise<void>,
+  ): (payload: T, fromPeerId: string) => Promise<void> {
+    return async (payload, fromPeerId) => {
+      const pool = this.poolManager.getPool(payload.poolId)
+      if (
+        pool &&
+        pool.creatorPeerId === this.peerId &&
+        pool.participantMap.has(fromPeerId)
+      ) {
+        await this._sendToPool(pool, type, payload, [fromPeerId])
+      }
+      await handler(payload, fromPeerId)
+    }
+  }
+
+  /**
+   * Handle a registration request (pool creator)
+   */
+  private _handlePoolJoin = async (
+    payload: PoolJoinPayload,
+    fromPeerId: string,
+  ): Promise<void> => {
+    const reject = (reason: string) =>
+      this._send(fromPeerId, SwapSigMessageType.POOL_JOIN_ACK, {
+        poolId: payload.poolId,
+        accepted: false,
+        reason,
+        timestamp: Date.now(),
+      } satisfies PoolJoinAckPayload)
+
+    const pool = this.poolManager.getPool(payload.poolId)
+    if (!pool || pool.creatorPeerId !== this.peerId) {
+      await reject('Unknown pool')
+      return
+    }
+
+    let participantIndex: number
+    try {
+      const participant = deserializeParticipant(payload.participant)
+      if (participant.peerId !== fromPeerId) {
+        throw new PoolValidationError('Participant peer ID mismatch')
+      }
+      this._verifyParticipant(pool, participant)
+      participantIndex = this.poolManager.addParticipant(
+        pool.poolId,
+        participant,
+      )
+    } catch (error) {
+      await reject(error instanceof Error ? error.message : String(error))
+      return
+    }
+
+    await this._send(fromPeerId, SwapSigMessageType.POOL_JOIN_ACK, {
+      poolId: pool.poolId,
+      accepted: true,
+      participantIndex,
+      timestamp: Date.now(),
+    } satisfies PoolJoinAckPayload)
+
+    await this._onParticipantRegistered(
+      pool,
+      pool.participants[participantIndex],
+    )
+  }
+
+  /**
+   * Handle registration result (joining participant)
+   */
+  private _handlePoolJoinAck = async (
+    payload: PoolJoinAckPayload,
+    fromPeerId: string,
+  ): Promise<void> => {
+    const pending = this.pendingJoins.get(payload.poolId)
+    const pool = this.poolManager.getPool(payload.poolId)
+    if (!pending || !pool || pool.creatorPeerId !== fromPeerId) {
+      return
+    }
+
+    clearTimeout(pending.timeout)
+    this.pendingJoins.delete(payload.poolId)
+
+    if (payload.accepted && payload.participantIndex !== undefined) {
+      pending.resolve(payload.participantIndex)
+    } else {
+      pending.reject(
+        new PoolValidationError(
+          `Pool join rejected: ${payload.reason ?? 'unknown reason'}`,
+        ),
+      )
+    }
+  }
+
+  /**
+   * Handle roster update from the pool creator
+   */
+  private _handleParticipantRegistered = async (
+    payload: ParticipantRegisteredPayload,
+    fromPeerId: string,
+  ): Promise<void> => {
+    const pool = this.poolManager.getPool(payload.poolId)
+    if (!pool || pool.creatorPeerId !== fromPeerId) {
+      return
+    }
+    this._applyRoster(pool, payload.participants)
+  }
+
+  /**
+   * Handle phase change from the pool creator
+   */
+  private _handlePhaseChange = async (
+    payload: PhaseChangePayload,
+    fromPeerId: string,
+  ): Promise<void> => {
+    const pool = this.poolManager.getPool(payload.poolId)
+    if (!pool || pool.creatorPeerId !== fromPeerId) {
+      return
+    }
+
+    if (payload.phase === SwapPhase.SETUP) {
+      if (payload.participants) {
+        this._applyRoster(pool, payload.participants)
+      }
+      await this._startSetup(pool)
+    }
+  }
+
+  /**
+   * Handle pool abort
+   */
+  private async _handlePoolAbort(
+    payload: PoolAbortPayload,
+    fromPeerId: string,
+  ): Promise<void> {
+    const pool = this.poolManager.getPool(payload.poolId)
+    if (
+      !pool ||
+      (fromPeerId !== pool.creatorPeerId &&
+        !pool.participantMap.has(fromPeerId))
+    ) {
+      return
+    }
+    await this._abortLocally(pool, payload.reason)
+  }
+
+  /**
+   * Handle pool announcement from GossipSub
+   */
+  private _handlePoolAnnouncement = (data: Uint8Array): void => {
+    try {
+      const announcement = JSON.parse(
+        Buffer.from(data).toString('utf8'),
+      ) as PoolAnnouncement
+
+      if (
+        typeof announcement.poolId !== 'string' ||
+        typeof announcement.creatorPeerId !== 'string' ||
+        typeof announcement.denomination !== 'number' ||
+        announcement.creatorPeerId === this.peerId ||
+        announcement.expiresAt <= Date.now()
+      ) {
+        return
+      }
+
+      this.discoveredPools.set(announcement.poolId, announcement)
+      this.emit(SwapSigEvent.POOL_DISCOVERED, announcement)
+    } catch (error) {
+      console.warn('[SwapSig] Invalid pool announcement:', error)
+    }
+  }
+
+  // ============================================================================
+  // MuSig2 Session Handling
+  // ============================================================================
+
+  /**
+   * Route MuSig2 session events to settlement handling
+   */
+  private _setupMuSig2Handlers(): void {
+    this.musig2.on(
+      MuSig2Event.SESSION_DISCOVERED,
+      (announcement: SessionAnnouncement) => {
+        this._onSettlementAnnounced(announcement).catch(error =>
+          console.error('[SwapSig] Failed to join settlement session:', error),
+        )
+      },
+    )
+
+    this.musig2.on(MuSig2Event.SESSION_READY, (sessionId: string) => {
+      const context = this._settlementForSession(sessionId)
+      if (!context?.isLeader) {
+        return
+      }
+      this._onSettlementSessionReady(context).catch(error =>
+        this._failSettlement(context, error),
+      )
+    })
+
+    this.musig2.on(MuSig2Event.NONCES_COMPLETE, (sessionId: string) => {
+      const context = this._settlementForSession(sessionId)
+      if (!context) {
+        return
+      }
+      this.musig2
+        .sharePartialSignature(sessionId, this.privateKey)
+        .catch(error => this._failSettlement(context, error))
+    })
+
+    this.musig2.on(MuSig2Event.PARTIAL_SIGS_COMPLETE, (sessionId: string) => {
+      const context = this._settlementForSession(sessionId)
+      if (!context) {
+        return
+      }
+      this._onSettlementSigned(context).catch(error =>
+        this._failSettlement(context, error),
+      )
+    })
+  }
+
+  /**
+   * Join a discovered settlement session if it belongs to one of ours
+   */
+  private async _onSettlementAnnounced(
+    announcement: SessionAnnouncement,
+  ): Promise<void> {
+    const poolId = announcement.metadata?.swapPoolId
+    const sourceIndex = announcement.metadata?.sourceIndex
+    if (
+      typeof poolId !== 'string' ||
+      typeof sourceIndex !== 'number' ||
+      !this.registrations.has(poolId)
+    ) {
+      return
+    }
+
+    const key = settlementKey(poolId, sourceIndex)
+    const context = this.settlements.get(key)
+    if (!context) {
+      // Still revealing; join once our settlement context exists
+      this.pendingAnnouncements.set(key, announcement)
+      return
+    }
+    if (context.isLeader || context.sessionId) {
+      return
+    }
+
+    await this._joinSettlementSession(context, announcement)
+  }
+
+  /**
+   * All signers joined the leader's session: notify them and share nonces
+   */
+  private async _onSettlementSessionReady(
+    context: SettlementContext,
+  ): Promise<void> {
+    const pool = this.poolManager.requirePool(context.poolId)
+    const payload: SettlementReadyPayload = {
+      poolId: context.poolId,
+      sessionId: context.sessionId!,
+      sourceIndex: context.sourceIndex,
+      timestamp: Date.now(),
+    }
+
+    await Promise.all(
+      context.group.participantIndices
+        .map(index => pool.participants[index].peerId)
+        .filter(peerId => peerId !== this.peerId)
+        .map(peerId =>
+          this._send(peerId, SwapSigMessageType.SETTLEMENT_READY, payload),
+        ),
+    )
+
+    await this._startNonceExchange(context)
+  }
+
+  /**
+   * All partial signatures collected for a settlement session
+   */
+  private async _onSettlementSigned(context: SettlementContext): Promise<void> {
+    const sessionId = context.sessionId!
+    if (context.isLeader) {
+      await this.musig2.finalizeSession(sessionId)
+    }
+
+    const signature = this.musig2.getSession(sessionId)?.session.finalSignature
+    if (!signature) {
+      throw new Error(`Settlement session ${sessionId} has no final signature`)
+    }
+
+    await this._completeSettlement(context, signature)
+  }
+
+  /**
+   * Abort the pool after a settlement signing failure
+   */
+  private _failSettlement(context: SettlementContext, error: unknown): void {
+    console.error(
+      `[SwapSig] Settlement signing failed for source ${context.sourceIndex} in pool ${context.poolId}:`,
+      error,
+    )
+    this.abortPool(
+      context.poolId,
+      `Settlement signing failed: ${error instanceof Error ? error.message : String(error)}`,
+    ).catch(console.error)
+  }
+
+  /**
+   * Link a settlement context to its MuSig2 session
+   */
+  private _bindSettlementSession(
+    context: SettlementContext,
+    sessionId: string,
+  ): void {
+    context.sessionId = sessionId
+    this.settlementSessions.set(
+      sessionId,
+      settlementKey(context.poolId, context.sourceIndex),
+    )
+
+    const pool = this.poolManager.getPool(context.poolId)
+    const info = pool?.settlementMapping.get(context.sourceIndex)
+    if (info) {
+      info.sessionId = sessionId
+    }
+  }
+
+  /**
+   * Get the settlement context for a MuSig2 session
+   */
+  private _settlementForSession(
+    sessionId: string,
+  ): SettlementContext | undefined {
+    const key = this.settlementSessions.get(sessionId)
+    return key ? this.settlements.get(key) : undefined
+  }
+
+  /**
+   * Drop settlement state for a pool
+   */
+  private _cleanupSettlements(poolId: string): void {
+    for (const [key, context] of this.settlements) {
+      if (context.poolId !== poolId) {
+        continue
+      }
+      if (context.sessionId) {
+        this.settlementSessions.delete(context.sessionId)
+      }
+      this.settlements.delete(key)
+      this.pendingAnnouncements.delete(key)
+    }
+  }
+
+  // ============================================================================
+  // Helpers
+  // ============================================================================
+
+  /**
+   * Get a tracked pool, tracking a discovered pool on first use
+   */
+  private _getOrTrackPool(poolId: string): SwapPool {
+    const existing = this.poolManager.getPool(poolId)
+    if (existing) {
+      return existing
+    }
+
+    const announcement =
+      this.discoveredPools.get(poolId) ??
+      (this.p2p.getResource(POOL_RESOURCE_TYPE, poolId)?.data as
+        | PoolAnnouncement
+        | undefined)
+    if (!announcement) {
+      throw new PoolNotFoundError(poolId)
+    }
+
+    return this.poolManager.createPool(
+      {
+        denomination: announcement.denomination,
+        minParticipants: announcement.minParticipants,
+        maxParticipants: announcement.maxParticipants,
+        feeRate: announcement.feeRate,
+        setupTimeout: announcement.setupTimeout,
+        settlementTimeout: announcement.settlementTimeout,
+        refundDelay: announcement.refundDelay,
+      },
+      {
+        poolId,
+        creatorPeerId: announcement.creatorPeerId,
+        burnConfig: announcement.burnConfig,
+      },
+    )
+  }
+
+  /**
+   * Send our registration to the pool creator and wait for the result
+   */
+  private async _requestJoin(
+    pool: SwapPool,
+    participant: Omit<SwapParticipant, 'participantIndex'>,
+  ): Promise<number> {
+    const result = new Promise<number>((resolve, reject) => {
+      this.pendingJoins.set(pool.poolId, {
+        resolve,
+        reject,
+        timeout: setTimeout(() => {
+          this.pendingJoins.delete(pool.poolId)
+          reject(new Error(`Pool join timed out: ${pool.poolId}`))
+        }, JOIN_TIMEOUT),
+      })
+    })
+
+    const payload: PoolJoinPayload = {
+      poolId: pool.poolId,
+      participant: serializeParticipant({
+        ...participant,
+        participantIndex: -1,
+      }),
+      timestamp: Date.now(),
+    }
+
+    try {
+      await this._send(
+        pool.creatorPeerId,
+        SwapSigMessageType.POOL_JOIN,
+        payload,
+      )
+    } catch (error) {
+      const pending = this.pendingJoins.get(pool.poolId)
+      if (pending) {
+        clearTimeout(pending.timeout)
+        this.pendingJoins.delete(pool.poolId)
+      }
+      throw error
+    }
+
+    return result
+  }
+
+  /**
+   * Relay the roster after a registration and start the pool when full
+   * (pool creator)
+   */
+  private async _onParticipantRegistered(
+    pool: SwapPool,
+    participant: SwapParticipant,
+  ): Promise<void> {
+    this.emit(SwapSigEvent.PARTICIPANT_JOINED, pool.poolId, participant)
+
+    const payload: ParticipantRegisteredPayload = {
+      poolId: pool.poolId,
+      participants: pool.participants.map(serializeParticipant),
+      timestamp: Date.now(),
+    }
+    await this._sendToPool(
+      pool,
+      SwapSigMessageType.PARTICIPANT_REGISTERED,
+      payload,
+    )
+
+    if (pool.participants.length >= pool.maxParticipants) {
+      await this.startSwap(pool.poolId)
+    }
+  }
+
+  /**
+   * Apply a roster received from the pool creator
+   */
+  private _applyRoster(
+    pool: SwapPool,
+    serialized: ParticipantRegisteredPayload['participants'],
+  ): void {
+    if (
+      pool.phase !== SwapPhase.DISCOVERY &&
+      pool.phase !== SwapPhase.REGISTRATION
+    ) {
+      return
+    }
+
+    const participants = serialized.map(deserializeParticipant)
+    for (const participant of participants) {
+      this._verifyParticipant(pool, participant)
+    }
+
+    const known = new Set(pool.participantMap.keys())
+    this.poolManager.setParticipants(pool.poolId, participants)
+    if (pool.phase === SwapPhase.DISCOVERY && participants.length > 0) {
+      this._transitionPhase(pool, SwapPhase.REGISTRATION)
+    }
+
+    for (const participant of pool.participants) {
+      if (!known.has(participant.peerId)) {
+        this.emit(SwapSigEvent.PARTICIPANT_JOINED, pool.poolId, participant)
+      }
+    }
+  }
+
+  /**
+   * Verify a participant's input and ownership proof
+   *
+   * @throws PoolValidationError if invalid
+   */
+  private _verifyParticipant(
+    pool: SwapPool,
+    participant: SwapParticipant,
+  ): void {
+    const { input, publicKey } = participant
+
+    if (
+      input.script.toHex() !== Script.buildPublicKeyHashOut(publicKey).toHex()
+    ) {
+      throw new PoolValidationError('Input is not owned by participant key')
+    }
+
+    const proofValid = Schnorr.verify(
+      ownershipMessage(pool.poolId, input.txId, input.outputIndex),
+      Signature.fromSchnorr(participant.ownershipProof),
+      publicKey,
+    )
+    if (!proofValid) {
+      throw new PoolValidationError('Invalid ownership proof')
+    }
+
+    const burnAmount = this._burnMechanismFor(pool).calculateBurnAmount(
+      pool.denomination,
+    )
+    if (input.amount <= pool.denomination + burnAmount) {
+      throw new PoolValidationError('Input value too small for pool')
+    }
+  }
+
+  /**
+   * Connect to a participant if not already connected
+   */
+  private async _ensureConnected(participant: SwapParticipant): Promise<void> {
+    if (
+      participant.peerId === this.peerId ||
+      this.p2p.isConnected(participant.peerId)
+    ) {
+      return
+    }
+
+    for (const addr of participant.multiaddrs ?? []) {
+      try {
+        await this.p2p.connectToPeer(addr)
+        return
+      } catch {
+        // Try next address
+      }
+    }
+  }
+
+  /**
+   * Burn mechanism for a pool's burn configuration
+   */
+  private _burnMechanismFor(pool: SwapPool): SwapSigBurnMechanism {
+    return new SwapSigBurnMechanism(pool.burnConfig)
+  }
+
+  /**
+   * Our participant index in a pool
+   */
+  private _myIndex(pool: SwapPool): number | undefined {
+    return pool.participantMap.get(this.peerId)?.participantIndex
+  }
+
+  /**
+   * Transition a pool and emit the phase change
+   */
+  private _transitionPhase(pool: SwapPool, phase: SwapPhase): void {
+    const oldPhase = this.poolManager.transitionPhase(pool.poolId, phase)
+    this.emit(SwapSigEvent.POOL_PHASE_CHANGED, pool.poolId, phase, oldPhase)
+  }
+
+  /**
+   * Abort a pool locally
+   */
+  private async _abortLocally(pool: SwapPool, reason: string): Promise<void> {
+    if (pool.aborted) {
+      return
+    }
+    this._clearPoolTimeout(pool.poolId)
+    this.poolManager.abortPool(pool.poolId, reason)
+
+    for (const context of this.settlements.values()) {
+      if (context.poolId === pool.poolId && context.sessionId) {
+        await this.musig2
+          .abortSession(context.sessionId, reason)
+          .catch(() => {})
+      }
+    }
+    this._cleanupSettlements(pool.poolId)
+
+    console.warn(`[SwapSig] Pool ${pool.poolId} aborted: ${reason}`)
+    this.emit(SwapSigEvent.POOL_ABORTED, pool.poolId, reason)
+  }
+
+  /**
+   * Set (or replace) the phase timeout of a pool
+   */
+  private _setPoolTimeout(pool: SwapPool, ms: number, reason: string): void {
+    this._clearPoolTimeout(pool.poolId)
+    this.poolTimeouts.set(
+      pool.poolId,
+      setTimeout(() => {
+        this.poolTimeouts.delete(pool.poolId)
+        this.abortPool(pool.poolId, reason).catch(console.error)
+      }, ms),
+    )
+  }
+
+  /**
+   * Clear the phase timeout of a pool
+   */
+  private _clearPoolTimeout(poolId: string): void {
+    const timeout = this.poolTimeouts.get(poolId)
+    if (timeout) {
+      clearTimeout(timeout)
+      this.poolTimeouts.delete(poolId)
+    }
+  }
+
+  /**
+   * Send a pool-wide message: the creator sends it to every participant,
+   * anyone else sends it to the creator for relay
+   */
+  private async _publish(
+    pool: SwapPool,
+    type: SwapSigMessageType,
+    payload: unknown,
+  ): Promise<void> {
+    if (pool.creatorPeerId === this.peerId) {
+      await this._sendToPool(pool, type, payload)
+    } else {
+      await this._send(pool.creatorPeerId, type, payload)
+    }
+  }
+
+  /**
+   * Send a message to every participant of a pool except ourselves
+   */
+  private async _sendToPool(
+    pool: SwapPool,
+    type: SwapSigMessageType,
+    payload: unknown,
+    exclude: string[] = [],
+  ): Promise<void> {
+    const peerIds = pool.participants
+      .map(p => p.peerId)
+      .filter(peerId => peerId !== this.peerId && !exclude.includes(peerId))
+
+    await Promise.all(
+      peerIds.map(peerId =>
+        this._send(peerId, type, payload).catch(error =>
+          console.error(
+            `[SwapSig] Failed to send ${type} to ${peerId}:`,
+            error,
+          ),
+        ),
+      ),
+    )
+  }
+
+  /**
+   * Send a SwapSig message to a peer
+   */
+  private async _send(
+    peerId: string,
+    type: SwapSigMessageType,
+    payload: unknown,
+  ): Promise<void> {
+    const message = this.protocol.createMessage(type, payload, this.peerId, {
+      protocol: this.protocolHandler.protocolName,
+    })
+    // Sent over the default message stream; the receiving coordinator routes
+    // it to the SwapSig protocol handler by message.protocol
+    await this.p2p.sendTo(peerId, message)
+  }
+}
+
+/**
+ * Message signed by a participant to prove ownership of its input
+ */
+function ownershipMessage(
+  poolId: string,
+  txId: string,
+  outputIndex: number,
+): Buffer {
+  const index = Buffer.alloc(4)
+  index.writeUInt32LE(outputIndex)
+  return Hash.sha256(
+    Buffer.concat([
+      Buffer.from('swapsig/ownership', 'utf8'),
+      Buffer.from(poolId, 'utf8'),
+      Buffer.from(txId, 'hex'),
+      index,
+    ]),
+  )
+}
+
+function settlementKey(poolId: string, sourceIndex: number): string {
+  return `${poolId}:${sourceIndex}`
+}
@@ -0,0 +1,53 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * SwapSig Error Classes
+ */
+
+/**
+ * Base class for all SwapSig errors
+ */
+export class SwapSigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SwapSigError'
+  }
+}
+
+/**
+ * Pool does not exist or is not tracked by this node
+ */
+export class PoolNotFoundError extends SwapSigError {
+  constructor(public readonly poolId: string) {
+    super(`Pool not found: ${poolId}`)
+    this.name = 'PoolNotFoundError'
+  }
+}
+
+/**
+ * Operation not allowed in the pool's current phase
+ */
+export class InvalidPhaseError extends SwapSigError {
+  constructor(
+    public readonly poolId: string,
+    public readonly phase: string,
+    public readonly operation: string,
+  ) {
+    super(`Cannot ${operation} in phase ${phase} (pool ${poolId})`)
+    this.name = 'InvalidPhaseError'
+  }
+}
+
+/**
+ * Invalid pool parameters or participant registration
+ */
+export class PoolValidationError extends SwapSigError {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PoolValidationError'
+  }
+}
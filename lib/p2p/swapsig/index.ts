@@ -0,0 +1,27 @@
+/**
+ * SwapSig P2P Module
+ *
+ * Exports all components for SwapSig privacy swaps over P2P networks
+ */
+
+export { SwapSigCoordinator } from './coordinator.js'
+export { SwapSigProtocolHandler } from './protocol.js'
+export { SwapPoolManager, SETTLEMENT_TX_SIZE_ESTIMATE } from './pool.js'
+export type { PoolCreationOptions } from './pool.js'
+export { SwapSigBurnMechanism } from './burn.js'
+export * from './types.js'
+export * from './errors.js'
+
+// Destination commitments
+export {
+  createDestinationCommitment,
+  openDestinationCommitment,
+  type DestinationCommitment,
+} from './commitment.js'
+
+// Serialization
+export {
+  serializeParticipant,
+  deserializeParticipant,
+  createPoolAnnouncement,
+} from './serialization.js'
@@ -0,0 +1,519 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * SwapSig Pool Management
+ *
+ * Tracks pool state, participant rosters and phase transitions, and computes
+ * the deterministic output groups and settlement mapping every participant
+ * derives independently from the same roster.
+ */
+
+import { Address } from '../../bitcore/address.js'
+import { Input } from '../../bitcore/transaction/input.js'
+import { buildMuSigRefundTaproot } from '../../bitcore/taproot/refund.js'
+import { Random } from '../../bitcore/crypto/random.js'
+import { PoolNotFoundError, PoolValidationError } from './errors.js'
+import {
+  SwapPhase,
+  DEFAULT_BURN_CONFIG,
+  type BurnConfig,
+  type CreatePoolParams,
+  type GroupSizeStrategy,
+  type OutputGroup,
+  type PoolStats,
+  type SettlementInfo,
+  type SwapParticipant,
+  type SwapPool,
+} from './types.js'
+
+/**
+ * Settlement transaction size estimate in bytes
+ * (1 Taproot key-path input, 1 P2PKH output)
+ */
+export const SETTLEMENT_TX_SIZE_ESTIMATE = 150
+
+/**
+ * Additional options when creating a pool
+ */
+export interface PoolCreationOptions {
+  /** Use this pool ID instead of generating one (pools discovered from peers) */
+  poolId?: string
+  creatorPeerId: string
+  burnConfig?: BurnConfig
+  defaults?: {
+    minParticipants: number
+    maxParticipants: number
+    feeRate: number
+    setupTimeout: number
+    settlementTimeout: number
+    refundDelay: number
+  }
+}
+
+/**
+ * SwapSig pool manager
+ */
+export class SwapPoolManager {
+  private pools: Map<string, SwapPool> = new Map()
+
+  /**
+   * Create a new pool
+   *
+   * @param params - Pool parameters
+   * @param options - Creator and defaults
+   * @returns Created pool
+   */
+  createPool(params: CreatePoolParams, options: PoolCreationOptions): SwapPool {
+    const defaults = options.defaults ?? {
+      minParticipants: 3,
+      maxParticipants: 10,
+      feeRate: 1,
+      setupTimeout: 600000,
+      settlementTimeout: 600000,
+      refundDelay: 86400,
+    }
+
+    const minParticipants = params.minParticipants ?? defaults.minParticipants
+    const maxParticipants = params.maxParticipants ?? defaults.maxParticipants
+    const feeRate = params.feeRate ?? defaults.feeRate
+    const refundDelay = params.refundDelay ?? defaults.refundDelay
+
+    if (
+      !Number.isSafeInteger(params.denomination) ||
+      params.denomination <= 0
+    ) {
+      throw new PoolValidationError(
+        `Invalid denomination: ${params.denomination}`,
+      )
+    }
+    if (minParticipants < 3) {
+      throw new PoolValidationError('Pools require at least 3 participants')
+    }
+    if (maxParticipants < minParticipants) {
+      throw new PoolValidationError(
+        'maxParticipants must be greater than or equal to minParticipants',
+      )
+    }
+    if (feeRate <= 0) {
+      throw new PoolValidationError(`Invalid fee rate: ${feeRate}`)
+    }
+
+    // Refund leaves use a BIP68 time-based relative lock
+    if (
+      !Number.isSafeInteger(refundDelay) ||
+      refundDelay < Input.SEQUENCE_LOCKTIME_GRANULARITY ||
+      refundDelay >=
+        Input.SEQUENCE_LOCKTIME_GRANULARITY * Input.SEQUENCE_LOCKTIME_MASK
+    ) {
+      throw new PoolValidationError(`Invalid refund delay: ${refundDelay}`)
+    }
+
+    const feePerParticipant = Math.ceil(feeRate * SETTLEMENT_TX_SIZE_ESTIMATE)
+    if (feePerParticipant >= params.denomination) {
+      throw new PoolValidationError(
+        'Denomination does not cover settlement fee',
+      )
+    }
+
+    const burnConfig: BurnConfig = {
+      ...(options.burnConfig ?? DEFAULT_BURN_CONFIG),
+    }
+    if (params.burnPercentage !== undefined) {
+      burnConfig.burnPercentage = params.burnPercentage
+    }
+
+    const poolId = options.poolId ?? Random.getRandomBuffer(32).toString('hex')
+    if (this.pools.has(poolId)) {
+      throw new PoolValidationError(`Pool already exists: ${poolId}`)
+    }
+
+    const pool: SwapPool = {
+      poolId,
+      creatorPeerId: options.creatorPeerId,
+      denomination: params.denomination,
+      minParticipants,
+      maxParticipants,
+      feeRate,
+      feePerParticipant,
+      burnConfig,
+      participants: [],
+      participantMap: new Map(),
+      outputGroups: [],
+      settlementMapping: new Map(),
+      phase: SwapPhase.DISCOVERY,
+      createdAt: Date.now(),
+      aborted: false,
+      setupTimeout: params.setupTimeout ?? defaults.setupTimeout,
+      settlementTimeout: params.settlementTimeout ?? defaults.settlementTimeout,
+      refundDelay,
+    }
+
+    this.pools.set(poolId, pool)
+    return pool
+  }
+
+  /**
+   * Get pool by ID
+   */
+  getPool(poolId: string): SwapPool | undefined {
+    return this.pools.get(poolId)
+  }
+
+  /**
+   * Get pool by ID or throw
+   */
+  requirePool(poolId: string): SwapPool {
+    const pool = this.pools.get(poolId)
+    if (!pool) {
+      throw new PoolNotFoundError(poolId)
+    }
+    return pool
+  }
+
+  /**
+   * Get all pools that are neither complete nor aborted
+   */
+  getActivePools(): SwapPool[] {
+    return Array.from(this.pools.values()).filter(
+      pool =>
+        pool.phase !== SwapPhase.COMPLETE && pool.phase !== SwapPhase.ABORTED,
+    )
+  }
+
+  /**
+   * Get all tracked pools
+   */
+  getAllPools(): SwapPool[] {
+    return Array.from(this.pools.values())
+  }
+
+  /**
+   * Remove a pool
+   */
+  removePool(poolId: string): boolean {
+    return this.pools.delete(poolId)
+  }
+
+  /**
+   * Add a participant to a pool (assigns the next participant index)
+   *
+   * @returns Assigned participant index
+   */
+  addParticipant(
+    poolId: string,
+    participant: Omit<SwapParticipant, 'participantIndex'>,
+  ): number {
+    const pool = this.requirePool(poolId)
+
+    if (
+      pool.phase !== SwapPhase.DISCOVERY &&
+      pool.phase !== SwapPhase.REGISTRATION
+    ) {
+      throw new PoolValidationError(
+        `Pool ${poolId} is not accepting participants (phase ${pool.phase})`,
+      )
+    }
+    if (pool.participants.length >= pool.maxParticipants) {
+      throw new PoolValidationError(`Pool ${poolId} is full`)
+    }
+    if (pool.participantMap.has(participant.peerId)) {
+      throw new PoolValidationError(
+        `Peer ${participant.peerId} already registered in pool ${poolId}`,
+      )
+    }
+    const duplicateInput = pool.participants.some(
+      p =>
+        p.input.txId === participant.input.txId &&
+        p.input.outputIndex === participant.input.outputIndex,
+    )
+    if (duplicateInput) {
+      throw new PoolValidationError('Input already registered in pool')
+    }
+
+    const participantIndex = pool.participants.length
+    const registered: SwapParticipant = { ...participant, participantIndex }
+    pool.participants.push(registered)
+    pool.participantMap.set(registered.peerId, registered)
+
+    if (pool.phase === SwapPhase.DISCOVERY) {
+      pool.phase = SwapPhase.REGISTRATION
+    }
+
+    return participantIndex
+  }
+
+  /**
+   * Replace a pool's roster (participants received from the pool creator)
+   */
+  setParticipants(poolId: string, participants: SwapParticipant[]): void {
+    const pool = this.requirePool(poolId)
+    const sorted = [...participants].sort(
+      (a, b) => a.participantIndex - b.participantIndex,
+    )
+
+    sorted.forEach((participant, index) => {
+      if (participant.participantIndex !== index) {
+        throw new PoolValidationError('Participant indices are not contiguous')
+      }
+      // Keep local progress (setup/reveal state) for known participants
+      const existing = pool.participantMap.get(participant.peerId)
+      if (existing && existing.participantIndex === index) {
+        sorted[index] = existing
+      }
+    })
+
+    pool.participants = sorted
+    pool.participantMap = new Map(sorted.map(p => [p.peerId, p]))
+  }
+
+  /**
+   * Remove a participant (only before setup starts)
+   */
+  removeParticipant(poolId: string, peerId: string): boolean {
+    const pool = this.requirePool(poolId)
+    if (
+      pool.phase !== SwapPhase.DISCOVERY &&
+      pool.phase !== SwapPhase.REGISTRATION
+    ) {
+      return false
+    }
+    if (!pool.participantMap.delete(peerId)) {
+      return false
+    }
+
+    pool.participants = pool.participants
+      .filter(p => p.peerId !== peerId)
+      .map((p, index) => {
+        p.participantIndex = index
+        return p
+      })
+    return true
+  }
+
+  /**
+   * Transition a pool to a new phase
+   *
+   * @returns Previous phase
+   */
+  transitionPhase(poolId: string, newPhase: SwapPhase): SwapPhase {
+    const pool = this.requirePool(poolId)
+    const oldPhase = pool.phase
+    pool.phase = newPhase
+
+    if (newPhase === SwapPhase.SETUP) {
+      pool.startedAt = Date.now()
+    } else if (newPhase === SwapPhase.COMPLETE) {
+      pool.completedAt = Date.now()
+    }
+
+    return oldPhase
+  }
+
+  /**
+   * Abort a pool
+   */
+  abortPool(poolId: string, reason: string): void {
+    const pool = this.requirePool(poolId)
+    pool.phase = SwapPhase.ABORTED
+    pool.aborted = true
+    pool.abortReason = reason
+  }
+
+  /**
+   * Determine optimal group size for a participant count
+   *
+   * - 3-9 participants: 2-of-2
+   * - 10-14 participants: 3-of-3
+   * - 15-49 participants: 5-of-5
+   * - 50+ participants: 10-of-10
+   */
+  determineOptimalGroupSize(participantCount: number): GroupSizeStrategy {
+    let groupSize: number
+    let reasoning: string
+    let recommendedRounds: number
+
+    if (participantCount < 10) {
+      groupSize = 2
+      reasoning =
+        'Small pool: circular 2-of-2 pairs keep coordination simple and fast'
+      recommendedRounds = 2
+    } else if (participantCount < 15) {
+      groupSize = 3
+      reasoning = 'Medium-small pool: 3-of-3 groups balance privacy and speed'
+      recommendedRounds = 1
+    } else if (participantCount < 50) {
+      groupSize = 5
+      reasoning = 'Medium-large pool: 5-of-5 groups give strong anonymity'
+      recommendedRounds = 1
+    } else {
+      groupSize = 10
+      reasoning = 'Large pool: 10-of-10 groups maximize anonymity per group'
+      recommendedRounds = 1
+    }
+
+    const groupCount =
+      groupSize === 2
+        ? participantCount
+        : Math.ceil(participantCount / groupSize)
+
+    return {
+      groupSize,
+      groupCount,
+      anonymityPerGroup: factorial(groupSize),
+      reasoning,
+      recommendedRounds,
+    }
+  }
+
+  /**
+   * Compute output groups for a pool
+   *
+   * 2-of-2: circular pairs [i, i+1]; participant i's setup output is locked
+   * to group i.
+   * Larger groups: consecutive non-overlapping groups, the last one padded
+   * with participants from the start; each participant's setup output is
+   * locked to the first group containing it.
+   */
+  computeOutputGroups(poolId: string, network?: string): OutputGroup[] {
+    const pool = this.requirePool(poolId)
+    const n = pool.participants.length
+    const strategy = this.determineOptimalGroupSize(n)
+    const { groupSize } = strategy
+
+    const memberSets: number[][] = []
+    const sourceSets: number[][] = []
+
+    if (groupSize === 2) {
+      for (let i = 0; i < n; i++) {
+        memberSets.push([i, (i + 1) % n])
+        sourceSets.push([i])
+      }
+    } else {
+      for (let start = 0; start < n; start += groupSize) {
+        const members: number[] = []
+        const sources: number[] = []
+        for (let i = start; i < start + groupSize && i < n; i++) {
+          members.push(i)
+          sources.push(i)
+        }
+        let padIndex = 0
+        while (members.length < groupSize) {
+          members.push(padIndex++)
+        }
+        memberSets.push(members)
+        sourceSets.push(sources)
+      }
+    }
+
+    pool.groupSizeStrategy = strategy
+    pool.outputGroups = memberSets.map((participantIndices, groupIndex) => {
+      const signers = participantIndices.map(
+        i => pool.participants[i].publicKey,
+      )
+      // Only the participants funding the shared output can reclaim it
+      const refund = buildMuSigRefundTaproot(
+        signers,
+        pool.refundDelay,
+        sourceSets[groupIndex].map(i => pool.participants[i].publicKey),
+      )
+      return {
+        groupIndex,
+        participantIndices,
+        sourceIndices: sourceSets[groupIndex],
+        signers,
+        aggregatedKey: refund.aggregatedPubKey,
+        keyAggContext: refund.keyAggContext,
+        taprootAddress: Address.fromTaprootCommitment(
+          refund.commitment,
+          network,
+        ),
+        taprootScript: refund.script,
+        refund,
+        amount: pool.denomination,
+      }
+    })
+
+    return pool.outputGroups
+  }
+
+  /**
+   * Compute settlement mapping for a pool
+   *
+   * The shared output funded by participant i is paid to participant
+   * (i + groupSize) mod n, which is never a signer of the group holding it.
+   */
+  computeSettlementMapping(poolId: string): Map<number, SettlementInfo> {
+    const pool = this.requirePool(poolId)
+    if (pool.outputGroups.length === 0) {
+      this.computeOutputGroups(poolId)
+    }
+
+    const n = pool.participants.length
+    const groupSize = pool.groupSizeStrategy!.groupSize
+    const mapping = new Map<number, SettlementInfo>()
+
+    for (const group of pool.outputGroups) {
+      for (const sourceIndex of group.sourceIndices) {
+        mapping.set(sourceIndex, {
+          sourceIndex,
+          groupIndex: group.groupIndex,
+          receiverIndex: (sourceIndex + groupSize) % n,
+          amount: pool.denomination - pool.feePerParticipant,
+          confirmed: false,
+        })
+      }
+    }
+
+    pool.settlementMapping = mapping
+    return mapping
+  }
+
+  /**
+   * Get output group holding a participant's setup output
+   */
+  getGroupForSource(poolId: string, sourceIndex: number): OutputGroup {
+    const pool = this.requirePool(poolId)
+    const group = pool.outputGroups.find(g =>
+      g.sourceIndices.includes(sourceIndex),
+    )
+    if (!group) {
+      throw new PoolValidationError(
+        `No output group for participant ${sourceIndex}`,
+      )
+    }
+    return group
+  }
+
+  /**
+   * Get pool statistics
+   */
+  getPoolStats(poolId: string, burnAmount: number): PoolStats | undefined {
+    const pool = this.pools.get(poolId)
+    if (!pool) {
+      return undefined
+    }
+
+    const participants = pool.participants.length
+    return {
+      poolId,
+      phase: pool.phase,
+      participants,
+      denomination: pool.denomination,
+      totalBurned: burnAmount * participants,
+      totalFees: pool.feePerParticipant * participants,
+      anonymitySet: participants,
+    }
+  }
+}
+
+function factorial(n: number): number {
+  let result = 1
+  for (let i = 2; i <= n; i++) {
+    result *= i
+  }
+  return result
+}
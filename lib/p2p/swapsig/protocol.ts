@@ -0,0 +1,82 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * SwapSig Protocol Handler
+ *
+ * Handles SwapSig-specific P2P messages and routes them to the coordinator.
+ * Only message structure is checked here; pool membership and
+ * cryptographic checks happen in the coordinator, which owns the pool state.
+ */
+
+import { EventEmitter } from 'events'
+import type { IProtocolHandler, P2PMessage, PeerInfo } from '../types.js'
+import { SwapSigMessageType } from './types.js'
+
+/**
+ * SwapSig Protocol Handler
+ *
+ * Implements IProtocolHandler for SwapSig messages. Each message type is
+ * re-emitted under its type name with (payload, from).
+ */
+export class SwapSigProtocolHandler
+  extends EventEmitter
+  implements IProtocolHandler
+{
+  readonly protocolName = 'swapsig'
+  readonly protocolId = '/lotus/swapsig/1.0.0'
+
+  /**
+   * Handle incoming SwapSig message
+   */
+  async handleMessage(message: P2PMessage, from: PeerInfo): Promise<void> {
+    if (message.protocol !== this.protocolName) {
+      console.warn(
+        `[SwapSigProtocol] Ignoring message with wrong protocol: ${message.protocol}`,
+      )
+      return
+    }
+
+    if (
+      !Object.values(SwapSigMessageType).includes(
+        message.type as SwapSigMessageType,
+      )
+    ) {
+      console.warn(
+        `[SwapSigProtocol] Unknown message type ${message.type} from ${from.peerId}`,
+      )
+      return
+    }
+
+    const payload = message.payload as { poolId?: unknown } | undefined
+    if (
+      !payload ||
+      typeof payload !== 'object' ||
+      typeof payload.poolId !== 'string'
+    ) {
+      console.warn(
+        `[SwapSigProtocol] Malformed ${message.type} payload from ${from.peerId}`,
+      )
+      return
+    }
+
+    this.emit(message.type, payload, from)
+  }
+
+  /**
+   * Handle peer connection
+   */
+  async onPeerConnected(peerId: string): Promise<void> {
+    this.emit('peer:connected', peerId)
+  }
+
+  /**
+   * Handle peer disconnection
+   */
+  async onPeerDisconnected(peerId: string): Promise<void> {
+    this.emit('peer:disconnected', peerId)
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * SwapSig P2P Serialization Utilities
+ *
+ * Converts SwapSig participants and pool announcements to/from JSON-safe
+ * wire formats
+ */
+
+import { PublicKey } from '../../bitcore/publickey.js'
+import { Address } from '../../bitcore/address.js'
+import { Script } from '../../bitcore/script.js'
+import { PoolValidationError } from './errors.js'
+import type {
+  PoolAnnouncement,
+  SerializedSwapParticipant,
+  SwapParticipant,
+  SwapPool,
+} from './types.js'
+
+/**
+ * Serialize a participant for transmission
+ *
+ * Local progress (setup, reveal) is not included; it is exchanged through
+ * dedicated messages.
+ */
+export function serializeParticipant(
+  participant: SwapParticipant,
+): SerializedSwapParticipant {
+  return {
+    peerId: participant.peerId,
+    participantIndex: participant.participantIndex,
+    publicKey: participant.publicKey.toString(),
+    input: {
+      txId: participant.input.txId,
+      outputIndex: participant.input.outputIndex,
+      amount: participant.input.amount,
+      script: participant.input.script.toHex(),
+      address: participant.input.address.toString(),
+    },
+    ownershipProof: participant.ownershipProof.toString('hex'),
+    finalOutputEncrypted: participant.finalOutputEncrypted.toString('hex'),
+    finalOutputCommitment: participant.finalOutputCommitment.toString('hex'),
+    multiaddrs: participant.multiaddrs,
+    joinedAt: participant.joinedAt,
+  }
+}
+
+/**
+ * Deserialize a participant received from a peer
+ *
+ * @throws PoolValidationError if any field is malformed
+ */
+export function deserializeParticipant(
+  data: SerializedSwapParticipant,
+): SwapParticipant {
+  try {
+    return {
+      peerId: data.peerId,
+      participantIndex: data.participantIndex,
+      publicKey: PublicKey.fromString(data.publicKey),
+      input: {
+        txId: data.input.txId,
+        outputIndex: data.input.outputIndex,
+        amount: data.input.amount,
+        script: Script.fromHex(data.input.script),
+        address: Address.fromString(data.input.address),
+      },
+      ownershipProof: Buffer.from(data.ownershipProof, 'hex'),
+      finalOutputEncrypted: Buffer.from(data.finalOutputEncrypted, 'hex'),
+      finalOutputCommitment: Buffer.from(data.finalOutputCommitment, 'hex'),
+      multiaddrs: data.multiaddrs,
+      setupConfirmed: false,
+      joinedAt: data.joinedAt,
+    }
+  } catch (error) {
+    throw new PoolValidationError(
+      `Malformed participant: ${error instanceof Error ? error.message : String(error)}`,
+    )
+  }
+}
+
+/**
+ * Build the public announcement for a pool
+ */
+export function createPoolAnnouncement(
+  pool: SwapPool,
+  ttl: number,
+): PoolAnnouncement {
+  return {
+    poolId: pool.poolId,
+    creatorPeerId: pool.creatorPeerId,
+    denomination: pool.denomination,
+    minParticipants: pool.minParticipants,
+    maxParticipants: pool.maxParticipants,
+    currentParticipants: pool.participants.length,
+    feeRate: pool.feeRate,
+    feePerParticipant: pool.feePerParticipant,
+    burnConfig: pool.burnConfig,
+    setupTimeout: pool.setupTimeout,
+    settlementTimeout: pool.settlementTimeout,
+    refundDelay: pool.refundDelay,
+    phase: pool.phase,
+    createdAt: pool.createdAt,
+    expiresAt: pool.createdAt + ttl,
+  }
+}
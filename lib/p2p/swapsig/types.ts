@@ -0,0 +1,610 @@
+/**
+ * Copyright 2025 The Lotusia Stewardship
+ * Github: https://github.com/LotusiaStewardship
+ * License: MIT
+ */
+
+/**
+ * SwapSig Protocol Types
+ *
+ * Type definitions for coordinating SwapSig privacy swaps over P2P networks.
+ * SwapSig runs in two on-chain rounds:
+ *
+ * 1. Setup: every participant moves one input of the pool denomination into a
+ *    MuSig2 Taproot output shared with the other members of its output group
+ * 2. Settlement: each shared output is spent via MuSig2 key path to the final
+ *    address of a participant that is NOT a signer of that group
+ */
+
+import type { PublicKey } from '../../bitcore/publickey.js'
+import type { Address } from '../../bitcore/address.js'
+import type { Script } from '../../bitcore/script.js'
+import type { MuSigKeyAggContext } from '../../bitcore/crypto/musig2.js'
+import type { MuSigRefundTaprootResult } from '../../bitcore/taproot/refund.js'
+import type { ChainBackend } from '../../chain/index.js'
+
+// ============================================================================
+// Protocol Phases
+// ============================================================================
+
+/**
+ * SwapSig pool phases
+ */
+export enum SwapPhase {
+  /** Pool announced, waiting for first registration */
+  DISCOVERY = 'discovery',
+  /** Participants registering inputs and destination commitments */
+  REGISTRATION = 'registration',
+  /** Destination commitments locked in (reserved for commitment rounds) */
+  COMMITMENT = 'commitment',
+  /** Building and broadcasting setup transactions */
+  SETUP = 'setup',
+  /** Waiting for setup transactions to confirm */
+  SETUP_CONFIRM = 'setup-confirm',
+  /** Revealing final destinations */
+  REVEAL = 'reveal',
+  /** MuSig2 signing and broadcast of settlement transactions */
+  SETTLEMENT = 'settlement',
+  /** Waiting for settlement transactions to confirm */
+  SETTLEMENT_CONFIRM = 'settlement-confirm',
+  /** Swap finished */
+  COMPLETE = 'complete',
+  /** Swap aborted */
+  ABORTED = 'aborted',
+}
+
+// ============================================================================
+// Message Types
+// ============================================================================
+
+/**
+ * SwapSig protocol message types
+ *
+ * Pool-wide messages are relayed through the pool creator, which acts as a
+ * hub only: every relayed value is verified by each participant
+ * (ownership proofs, destination commitments, on-chain setup outputs).
+ */
+export enum SwapSigMessageType {
+  /** Register an input with the pool creator (direct P2P) */
+  POOL_JOIN = 'swapsig:pool-join',
+
+  /** Registration result from the pool creator (direct P2P) */
+  POOL_JOIN_ACK = 'swapsig:pool-join-ack',
+
+  /** Full participant roster after a registration (creator → pool) */
+  PARTICIPANT_REGISTERED = 'swapsig:participant-registered',
+
+  /** Pool phase transition driven by the creator (creator → pool) */
+  PHASE_CHANGE = 'swapsig:phase-change',
+
+  /** Setup transaction broadcast by a participant */
+  SETUP_BROADCAST = 'swapsig:setup-broadcast',
+
+  /** Reveal key opening a participant's destination commitment */
+  DESTINATION_REVEAL = 'swapsig:destination-reveal',
+
+  /** All signers joined a settlement session (session leader → signers) */
+  SETTLEMENT_READY = 'swapsig:settlement-ready',
+
+  /** Settlement transaction broadcast by a session leader */
+  SETTLEMENT_BROADCAST = 'swapsig:settlement-broadcast',
+
+  /** Abort the pool */
+  POOL_ABORT = 'swapsig:pool-abort',
+}
+
+// ============================================================================
+// Events
+// ============================================================================
+
+/**
+ * SwapSig coordinator events
+ */
+export enum SwapSigEvent {
+  /** Pool created locally */
+  POOL_CREATED = 'swapsig:pool-created',
+  /** Pool announcement discovered from another peer */
+  POOL_DISCOVERED = 'swapsig:pool-discovered',
+  /** This node registered in a pool */
+  POOL_JOINED = 'swapsig:pool-joined',
+  /** Pool phase changed */
+  POOL_PHASE_CHANGED = 'swapsig:pool-phase-changed',
+  /** A participant registered in a tracked pool */
+  PARTICIPANT_JOINED = 'swapsig:participant-joined',
+  /** All setup transactions confirmed */
+  SETUP_COMPLETE = 'swapsig:setup-complete',
+  /** All destinations revealed and verified */
+  REVEAL_COMPLETE = 'swapsig:reveal-complete',
+  /** All settlement transactions broadcast */
+  SETTLEMENT_COMPLETE = 'swapsig:settlement-complete',
+  /** Swap finished */
+  POOL_COMPLETE = 'swapsig:pool-complete',
+  /** Pool aborted */
+  POOL_ABORTED = 'swapsig:pool-aborted',
+  /** Joined a settlement MuSig2 session created by another signer */
+  SWAPSIG_REQUEST_JOINED = 'swapsig:request-joined',
+  /** All signers present in a settlement session, nonce exchange started */
+  SWAPSIG_SESSION_READY = 'swapsig:session-ready',
+  /** Settlement session produced its final signature */
+  SWAPSIG_SESSION_COMPLETE = 'swapsig:session-complete',
+}
+
+/**
+ * Strongly-typed SwapSig event map
+ *
+ * Each entry lists the listener arguments for the event.
+ */
+export type SwapSigEventMap = {
+  'swapsig:pool-created': [pool: SwapPool]
+  'swapsig:pool-discovered': [announcement: PoolAnnouncement]
+  'swapsig:pool-joined': [poolId: string, participantIndex: number]
+  'swapsig:pool-phase-changed': [
+    poolId: string,
+    newPhase: SwapPhase,
+    oldPhase: SwapPhase,
+  ]
+  'swapsig:participant-joined': [poolId: string, participant: SwapParticipant]
+  'swapsig:setup-complete': [poolId: string]
+  'swapsig:reveal-complete': [poolId: string]
+  'swapsig:settlement-complete': [poolId: string]
+  'swapsig:pool-complete': [poolId: string]
+  'swapsig:pool-aborted': [poolId: string, reason: string]
+  'swapsig:request-joined': [sessionId: string, poolId: string]
+  'swapsig:session-ready': [sessionId: string, poolId: string]
+  'swapsig:session-complete': [sessionId: string, poolId: string]
+}
+
+// ============================================================================
+// Pool Types
+// ============================================================================
+
+/**
+ * Input registered by a participant
+ */
+export interface SwapInput {
+  txId: string
+  outputIndex: number
+  amount: number
+  script: Script
+  address: Address
+}
+
+/**
+ * SwapSig participant
+ */
+export interface SwapParticipant {
+  /** libp2p peer ID */
+  peerId: string
+
+  /** Position in the pool roster (assigned by the pool creator) */
+  participantIndex: number
+
+  /** Key owning the input and signing settlements */
+  publicKey: PublicKey
+
+  /** Input funding the setup transaction */
+  input: SwapInput
+
+  /** Schnorr signature proving ownership of the input */
+  ownershipProof: Buffer
+
+  /** Final destination encrypted under the reveal key */
+  finalOutputEncrypted: Buffer
+
+  /** Commitment to the final destination */
+  finalOutputCommitment: Buffer
+
+  /** Listen addresses for direct settlement connections */
+  multiaddrs?: string[]
+
+  /** Setup transaction ID */
+  setupTxId?: string
+
+  /** Setup transaction verified on-chain */
+  setupConfirmed: boolean
+
+  /** Key opening finalOutputEncrypted (set during reveal) */
+  revealKey?: Buffer
+
+  /** Final destination (set during reveal) */
+  finalAddress?: Address
+
+  joinedAt: number
+}
+
+/**
+ * Burn configuration (Sybil defense)
+ */
+export interface BurnConfig {
+  /** Fraction of the denomination to burn */
+  burnPercentage: number
+
+  /** Minimum burn in satoshis */
+  minimumBurn: number
+
+  /** Maximum burn in satoshis */
+  maximumBurn: number
+
+  /** LOKAD-style identifier pushed in the burn output */
+  burnIdentifier: string
+
+  /** Include the pool ID in the burn output */
+  poolIdInBurn: boolean
+
+  /** Burn output format version */
+  version: number
+}
+
+/**
+ * Group size selection for a pool
+ */
+export interface GroupSizeStrategy {
+  /** Signers per shared output (2, 3, 5 or 10) */
+  groupSize: number
+
+  /** Number of output groups */
+  groupCount: number
+
+  /** Possible input → output mappings per group (groupSize!) */
+  anonymityPerGroup: number
+
+  reasoning: string
+
+  recommendedRounds: number
+}
+
+/**
+ * Set of signers controlling shared outputs
+ */
+export interface OutputGroup {
+  groupIndex: number
+
+  /** Signers of this group */
+  participantIndices: number[]
+
+  /** Participants whose setup output is locked to this group */
+  sourceIndices: number[]
+
+  signers: PublicKey[]
+
+  /** MuSig2 aggregated (internal) key */
+  aggregatedKey: PublicKey
+
+  keyAggContext: MuSigKeyAggContext
+
+  taprootAddress: Address
+
+  taprootScript: Script
+
+  /** Refund leaves committed to by the shared output (one per source) */
+  refund: MuSigRefundTaprootResult
+
+  /** Amount of each shared output */
+  amount: number
+}
+
+/**
+ * Settlement of one shared output
+ */
+export interface SettlementInfo {
+  /** Participant whose setup output is being spent */
+  sourceIndex: number
+
+  groupIndex: number
+
+  /** Participant receiving the output */
+  receiverIndex: number
+
+  receiverAddress?: Address
+
+  /** Amount paid to the receiver */
+  amount: number
+
+  /** MuSig2 session signing the settlement */
+  sessionId?: string
+
+  settlementTxId?: string
+
+  confirmed: boolean
+}
+
+/**
+ * SwapSig pool
+ */
+export interface SwapPool {
+  poolId: string
+
+  /** Peer that created the pool and relays pool-wide messages */
+  creatorPeerId: string
+
+  denomination: number
+  minParticipants: number
+  maxParticipants: number
+
+  /** Fee rate in satoshis per byte */
+  feeRate: number
+
+  /** Settlement fee deducted from each shared output */
+  feePerParticipant: number
+
+  burnConfig: BurnConfig
+
+  /** Computed when the pool enters setup */
+  groupSizeStrategy?: GroupSizeStrategy
+
+  participants: SwapParticipant[]
+
+  /** Participants by peer ID */
+  participantMap: Map<string, SwapParticipant>
+
+  outputGroups: OutputGroup[]
+
+  /** Settlements by source participant index */
+  settlementMapping: Map<number, SettlementInfo>
+
+  phase: SwapPhase
+  createdAt: number
+  startedAt?: number
+  completedAt?: number
+  aborted: boolean
+  abortReason?: string
+
+  setupTimeout: number
+  settlementTimeout: number
+
+  /** Relative timelock of shared output refund leaves, in seconds */
+  refundDelay: number
+}
+
+/**
+ * Pool statistics
+ */
+export interface PoolStats {
+  poolId: string
+  phase: SwapPhase
+  participants: number
+  denomination: number
+  totalBurned: number
+  totalFees: number
+  anonymitySet: number
+}
+
+/**
+ * Parameters for creating a pool
+ */
+export interface CreatePoolParams {
+  denomination: number
+  minParticipants?: number
+  maxParticipants?: number
+  feeRate?: number
+  burnPercentage?: number
+  setupTimeout?: number
+  settlementTimeout?: number
+  refundDelay?: number
+}
+
+/**
+ * Pool announcement published on GossipSub and the DHT
+ */
+export interface PoolAnnouncement {
+  poolId: string
+  creatorPeerId: string
+  denomination: number
+  minParticipants: number
+  maxParticipants: number
+  currentParticipants: number
+  feeRate: number
+  feePerParticipant: number
+  burnConfig: BurnConfig
+  setupTimeout: number
+  settlementTimeout: number
+  refundDelay: number
+  phase: SwapPhase
+  createdAt: number
+  expiresAt: number
+}
+
+/**
+ * Filters for pool discovery
+ */
+export interface PoolFilters {
+  denomination?: number
+  minParticipants?: number
+  maxParticipants?: number
+}
+
+// ============================================================================
+// Message Payloads
+// ============================================================================
+
+/**
+ * Participant in wire format
+ */
+export interface SerializedSwapParticipant {
+  peerId: string
+  participantIndex: number
+  publicKey: string
+  input: {
+    txId: string
+    outputIndex: number
+    amount: number
+    script: string
+    address: string
+  }
+  ownershipProof: string
+  finalOutputEncrypted: string
+  finalOutputCommitment: string
+  multiaddrs?: string[]
+  joinedAt: number
+}
+
+/**
+ * Pool join request payload
+ */
+export interface PoolJoinPayload {
+  poolId: string
+  participant: SerializedSwapParticipant
+  timestamp: number
+}
+
+/**
+ * Pool join acknowledgment payload
+ */
+export interface PoolJoinAckPayload {
+  poolId: string
+  accepted: boolean
+  participantIndex?: number
+  reason?: string
+  timestamp: number
+}
+
+/**
+ * Participant roster payload
+ */
+export interface ParticipantRegisteredPayload {
+  poolId: string
+  participants: SerializedSwapParticipant[]
+  timestamp: number
+}
+
+/**
+ * Phase change payload
+ */
+export interface PhaseChangePayload {
+  poolId: string
+  phase: SwapPhase
+  /** Final roster (sent with the SETUP transition) */
+  participants?: SerializedSwapParticipant[]
+  timestamp: number
+}
+
+/**
+ * Setup broadcast payload
+ */
+export interface SetupBroadcastPayload {
+  poolId: string
+  participantIndex: number
+  txId: string
+  timestamp: number
+}
+
+/**
+ * Destination reveal payload
+ */
+export interface DestinationRevealPayload {
+  poolId: string
+  participantIndex: number
+  revealKey: string
+  timestamp: number
+}
+
+/**
+ * Settlement session ready payload
+ */
+export interface SettlementReadyPayload {
+  poolId: string
+  sessionId: string
+  sourceIndex: number
+  timestamp: number
+}
+
+/**
+ * Settlement broadcast payload
+ */
+export interface SettlementBroadcastPayload {
+  poolId: string
+  sourceIndex: number
+  txId: string
+  timestamp: number
+}
+
+/**
+ * Pool abort payload
+ */
+export interface PoolAbortPayload {
+  poolId: string
+  reason: string
+  timestamp: number
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * SwapSig coordinator configuration
+ */
+export interface SwapSigConfig {
+  /** Default minimum participants for new pools */
+  minParticipants?: number
+
+  /** Default maximum participants for new pools */
+  maxParticipants?: number
+
+  /** Default fee rate (satoshis per byte) */
+  feeRate?: number
+
+  /** Timeout for setup (broadcast + confirmation) in milliseconds */
+  setupTimeout?: number
+
+  /** Timeout for settlement in milliseconds */
+  settlementTimeout?: number
+
+  /**
+   * Relative timelock (seconds) after which a participant can reclaim a
+   * shared output through its refund leaf if settlement never happens
+   */
+  refundDelay?: number
+
+  /** Confirmations required for setup and settlement transactions */
+  requiredConfirmations?: number
+
+  /** Chronik endpoint(s) used to broadcast and verify transactions */
+  chronikUrl?: string | string[]
+
+  /** Chain backend used instead of Chronik (e.g. RPCBackend, MockChainBackend) */
+  chainBackend?: ChainBackend
+
+  /** Network for shared output addresses */
+  network?: string
+
+  /** Pool announcement GossipSub topic */
+  poolAnnouncementTopic?: string
+
+  /** Pool announcement TTL in milliseconds */
+  poolAnnouncementTTL?: number
+
+  /** Burn configuration overrides */
+  burnConfig?: Partial<BurnConfig>
+}
+
+/**
+ * Default burn configuration
+ */
+export const DEFAULT_BURN_CONFIG: BurnConfig = {
+  burnPercentage: 0.001, // 0.1%
+  minimumBurn: 100,
+  maximumBurn: 10000,
+  burnIdentifier: 'SWAPSIG_BURN',
+  poolIdInBurn: true,
+  version: 1,
+}
+
+/**
+ * Default SwapSig configuration
+ */
+export const DEFAULT_SWAPSIG_CONFIG: Required<
+  Omit<SwapSigConfig, 'burnConfig' | 'chainBackend'>
+> = {
+  minParticipants: 3,
+  maxParticipants: 10,
+  feeRate: 1,
+  setupTimeout: 600000, // 10 minutes
+  settlementTimeout: 600000, // 10 minutes
+  refundDelay: 86400, // 24 hours
+  requiredConfirmations: 1,
+  chronikUrl: 'https://chronik.lotusia.org',
+  network: 'livenet',
+  poolAnnouncementTopic: 'swapsig:pools',
+  poolAnnouncementTTL: 3600000, // 1 hour
+}
@@ -4,31 +4,19 @@
  * License: MIT
  */
 import { RPC as settings } from '../utils/settings.js'
+import { Transaction } from './bitcore/transaction/index.js'
+import { Block, BlockHeader } from './bitcore/block/index.js'
 
-/**
- * Individual JSON-RPC result types
- */
-type JSONRPCResult =
-  | string
-  | string[]
-  | number
-  | NetworkInfo
-  | MiningInfo
-  | MempoolInfo
-  | PeerInfo[]
-  | BlockStats
-  | BlockInfo
-  | RawTransaction
 /**
  * Raw JSON-RPC response from the RPC daemon
  */
 type JSONRPCResponse = {
-  result: JSONRPCResult
+  result: unknown
   error: null | {
     code: number
     message: string
   }
-  id: number
+  id: number | string | null
 }
 /**
  * Network information returned by the RPC daemon
@@ -231,6 +219,15 @@ export interface TransactionInput {
   vout: number
   /** Coinbase transaction data (for coinbase inputs) */
   coinbase?: string
+  /** Input script */
+  scriptSig?: {
+    /** Assembly representation */
+    asm: string
+    /** Hex-encoded script */
+    hex: string
+  }
+  /** Input sequence number */
+  sequence?: number
 }
 
 /**
@@ -239,6 +236,8 @@ export interface TransactionInput {
 export interface TransactionOutput {
   /** Output value in coins */
   value: number
+  /** Output index */
+  n?: number
   /** Script public key information */
   scriptPubKey: {
     /** Array of addresses */
@@ -247,6 +246,8 @@ export interface TransactionOutput {
     type: string
     /** Assembly representation */
     asm: string
+    /** Hex-encoded script */
+    hex?: string
   }
 }
 
@@ -256,6 +257,8 @@ export interface TransactionOutput {
 export interface RawTransaction {
   /** Transaction ID */
   txid: string
+  /** Serialized transaction */
+  hex?: string
   /** Transaction size in bytes */
   size: number
   /** Array of transaction inputs */
@@ -272,11 +275,749 @@ export interface RawTransaction {
   confirmations?: number
 }
 
-const { user, password, address, port } = settings
-const rpcUrl = `http://${address}:${port}`
+/**
+ * Decoded transaction returned by `decoderawtransaction`
+ */
+export interface DecodedTransaction {
+  /** Transaction ID */
+  txid: string
+  /** Transaction hash */
+  hash: string
+  /** Transaction version */
+  version: number
+  /** Transaction size in bytes */
+  size: number
+  /** Transaction lock time */
+  locktime: number
+  /** Array of transaction inputs */
+  vin: TransactionInput[]
+  /** Array of transaction outputs */
+  vout: TransactionOutput[]
+}
+
+/**
+ * Block header information returned by `getblockheader`
+ */
+export interface BlockHeaderInfo {
+  /** Block hash */
+  hash: string
+  /** Number of confirmations */
+  confirmations: number
+  /** Block height */
+  height: number
+  /** Block version */
+  version: number
+  /** Merkle root of the block's transactions */
+  merkleroot: string
+  /** Block timestamp */
+  time: number
+  /** Median time of the past blocks */
+  mediantime: number
+  /** Header nonce */
+  nonce: number
+  /** Compact difficulty target */
+  bits: string
+  /** Block difficulty */
+  difficulty: number
+  /** Total chain work (hex) */
+  chainwork: string
+  /** Number of transactions */
+  nTx: number
+  /** Previous block hash */
+  previousblockhash?: string
+  /** Next block hash */
+  nextblockhash?: string
+}
+
+/**
+ * Unspent output information returned by `gettxout`
+ */
+export interface TxOutInfo {
+  /** Hash of the block at the tip of the chain */
+  bestblock: string
+  /** Number of confirmations (0 if in mempool) */
+  confirmations: number
+  /** Output value in coins */
+  value: number
+  /** Script public key information */
+  scriptPubKey: {
+    /** Assembly representation */
+    asm: string
+    /** Hex-encoded script */
+    hex: string
+    /** Script type */
+    type: string
+    /** Array of addresses */
+    addresses?: Array<string>
+  }
+  /** Whether this is a coinbase output */
+  coinbase: boolean
+}
+
+/**
+ * Per-transaction result returned by `testmempoolaccept`
+ */
+export interface MempoolAcceptResult {
+  /** Transaction ID */
+  'txid': string
+  /** Whether the transaction would be accepted into the mempool */
+  'allowed': boolean
+  /** Rejection reason, if not allowed */
+  'reject-reason'?: string
+  /** Transaction size in bytes, if allowed */
+  'size'?: number
+  /** Transaction fees, if allowed */
+  'fees'?: {
+    /** Base fee in coins */
+    base: number
+  }
+}
+
+/**
+ * Unspent output found by `scantxoutset`
+ */
+export interface ScanTxOutSetUnspent {
+  /** Transaction ID */
+  txid: string
+  /** Output index */
+  vout: number
+  /** Hex-encoded output script */
+  scriptPubKey: string
+  /** Output descriptor matching the output */
+  desc: string
+  /** Output value in coins */
+  amount: number
+  /** Block height of the output */
+  height: number
+}
+
+/**
+ * Result of `scantxoutset start`
+ */
+export interface ScanTxOutSetResult {
+  /** Whether the scan completed */
+  success: boolean
+  /** Number of unspent outputs scanned */
+  txouts: number
+  /** Block height at which the scan was done */
+  height: number
+  /** Block hash at which the scan was done */
+  bestblock: string
+  /** Matching unspent outputs */
+  unspents: ScanTxOutSetUnspent[]
+  /** Total value of all matching outputs in coins */
+  total_amount: number
+}
+
+/**
+ * Wallet unspent output returned by `listunspent`
+ */
+export interface WalletUnspent {
+  /** Transaction ID */
+  txid: string
+  /** Output index */
+  vout: number
+  /** Address of the output */
+  address: string
+  /** Address label */
+  label?: string
+  /** Hex-encoded output script */
+  scriptPubKey: string
+  /** Output value in coins */
+  amount: number
+  /** Number of confirmations */
+  confirmations: number
+  /** Whether the wallet has the keys to spend the output */
+  spendable: boolean
+  /** Whether the wallet knows how to spend the output */
+  solvable: boolean
+  /** Whether the output is considered safe to spend */
+  safe: boolean
+}
+
+/**
+ * Single request in a JSON-RPC batch
+ */
+export interface RPCRequest {
+  /** The RPC method to call */
+  method: string
+  /** Array of parameters to pass to the RPC method */
+  params?: unknown[]
+}
+
+/**
+ * RPC client configuration
+ */
+export interface RPCClientConfig {
+  /** Full endpoint URL; overrides host, port and protocol */
+  url?: string
+  /** Node host (default: 127.0.0.1) */
+  host?: string
+  /** Node RPC port (default: 10604) */
+  port?: number | string
+  /** URL scheme (default: http) */
+  protocol?: 'http' | 'https'
+  /** RPC username */
+  user?: string
+  /** RPC password */
+  password?: string
+  /** Contents of the node's .cookie file (`__cookie__:<password>`) */
+  cookie?: string
+  /** Path to the node's .cookie file (Node.js only), read on first use */
+  cookieFile?: string
+  /** Wallet name for wallet RPCs on multi-wallet nodes */
+  wallet?: string
+  /** Request timeout in milliseconds (default: 30000) */
+  timeout?: number
+  /** Number of retries for transport failures (default: 2) */
+  retries?: number
+  /** Delay before the first retry in milliseconds, doubled each retry (default: 1000) */
+  retryDelay?: number
+}
+
+/** Default Lotus node RPC port */
+const DEFAULT_RPC_PORT = 10604
+
+/** RPC_IN_WARMUP: node is still starting up */
+const RPC_IN_WARMUP = -28
+
+/** RPC_VERIFY_ALREADY_IN_CHAIN: transaction is already in a block */
+const RPC_VERIFY_ALREADY_IN_CHAIN = -27
+
+/**
+ * Error returned by the RPC daemon, or raised while talking to it
+ */
+export class RPCError extends Error {
+  constructor(
+    message: string,
+    public readonly method: string,
+    /** JSON-RPC error code (undefined for transport errors) */
+    public readonly code?: number,
+  ) {
+    super(message)
+    this.name = 'RPCError'
+  }
+}
+
+/**
+ * JSON-RPC client for a Lotus node
+ *
+ * Each instance holds its own endpoint and credentials, so one process can
+ * talk to any number of nodes. Transport failures (network errors, timeouts,
+ * HTTP errors without a JSON-RPC body, node warmup) are retried; errors
+ * returned by the node are thrown as RPCError right away.
+ *
+ * @example
+ * ```typescript
+ * const rpc = new RPCClient({ host: '127.0.0.1', user: 'lotus', password: 'lotus' })
+ * const height = await rpc.getBlockCount()
+ * const [hash, info] = await rpc.batch([
+ *   { method: 'getblockhash', params: [height] },
+ *   { method: 'getmininginfo' },
+ * ])
+ * ```
+ */
+export class RPCClient {
+  private readonly url: string
+  private readonly timeout: number
+  private readonly retries: number
+  private readonly retryDelay: number
+  private readonly config: RPCClientConfig
+  private authorization?: string
+  private nextId = 0
+
+  constructor(config: RPCClientConfig = {}) {
+    this.config = config
+    this.timeout = config.timeout ?? 30000
+    this.retries = config.retries ?? 2
+    this.retryDelay = config.retryDelay ?? 1000
+
+    const base =
+      config.url ??
+      `${config.protocol ?? 'http'}://${config.host ?? '127.0.0.1'}:${config.port ?? DEFAULT_RPC_PORT}`
+    this.url = config.wallet
+      ? `${base.replace(/\/$/, '')}/wallet/${encodeURIComponent(config.wallet)}`
+      : base
+  }
+
+  /**
+   * Call an RPC method
+   *
+   * @param method - The RPC method to call
+   * @param params - Array of parameters to pass to the RPC method
+   * @returns The method's result
+   * @throws RPCError if the node returns an error or cannot be reached
+   */
+  async call<T = unknown>(method: string, params: unknown[] = []): Promise<T> {
+    const id = this.nextId++
+    const response = (await this._request(method, {
+      jsonrpc: '1.0',
+      id,
+      method,
+      params,
+    })) as JSONRPCResponse
+
+    if (response.error) {
+      throw new RPCError(
+        `JSON-RPC error: ${response.error.message} (code: ${response.error.code})`,
+        method,
+        response.error.code,
+      )
+    }
+    return response.result as T
+  }
+
+  /**
+   * Send several requests in one JSON-RPC batch
+   *
+   * @param requests - Requests to send
+   * @returns Results in request order
+   * @throws RPCError for the first request that failed
+   */
+  async batch<T extends unknown[] = unknown[]>(
+    requests: RPCRequest[],
+  ): Promise<T> {
+    if (requests.length === 0) {
+      return [] as unknown as T
+    }
+
+    const firstId = this.nextId
+    this.nextId += requests.length
+    const body = requests.map((request, i) => ({
+      jsonrpc: '1.0',
+      id: firstId + i,
+      method: request.method,
+      params: request.params ?? [],
+    }))
+
+    const response = await this._request('batch', body)
+    if (!Array.isArray(response)) {
+      const error = (response as JSONRPCResponse).error
+      throw new RPCError(
+        `JSON-RPC batch error: ${error?.message ?? 'invalid response'}`,
+        'batch',
+        error?.code,
+      )
+    }
+
+    const byId = new Map<unknown, JSONRPCResponse>()
+    for (const item of response as JSONRPCResponse[]) {
+      byId.set(item.id, item)
+    }
+
+    return requests.map((request, i) => {
+      const item = byId.get(firstId + i)
+      if (!item) {
+        throw new RPCError(
+          'JSON-RPC error: missing response in batch',
+          request.method,
+        )
+      }
+      if (item.error) {
+        throw new RPCError(
+          `JSON-RPC error: ${item.error.message} (code: ${item.error.code})`,
+          request.method,
+          item.error.code,
+        )
+      }
+      return item.result
+    }) as T
+  }
+
+  // ============================================================================
+  // Node Information
+  // ============================================================================
+
+  /**
+   * RPC command - `getmininginfo`
+   */
+  async getMiningInfo(): Promise<MiningInfo> {
+    return this.call<MiningInfo>('getmininginfo')
+  }
+
+  /**
+   * RPC command - `getnetworkinfo`
+   */
+  async getNetworkInfo(): Promise<NetworkInfo> {
+    return this.call<NetworkInfo>('getnetworkinfo')
+  }
+
+  /**
+   * RPC command - `getpeerinfo`
+   */
+  async getPeerInfo(): Promise<PeerInfo[]> {
+    return this.call<PeerInfo[]>('getpeerinfo')
+  }
+
+  /**
+   * RPC command - `getmempoolinfo`
+   */
+  async getMempoolInfo(): Promise<MempoolInfo> {
+    return this.call<MempoolInfo>('getmempoolinfo')
+  }
+
+  /**
+   * RPC command - `getrawmempool`
+   * @returns Array of transaction IDs in mempool
+   */
+  async getRawMemPool(): Promise<string[]> {
+    return this.call<string[]>('getrawmempool')
+  }
+
+  /**
+   * RPC command - `estimatefee`
+   * @returns Estimated fee rate in coins per kilobyte
+   */
+  async estimateFee(): Promise<number> {
+    return this.call<number>('estimatefee')
+  }
+
+  // ============================================================================
+  // Blocks
+  // ============================================================================
+
+  /**
+   * RPC command - `getblockcount`
+   */
+  async getBlockCount(): Promise<number> {
+    return this.call<number>('getblockcount')
+  }
+
+  /**
+   * RPC command - `getblockhash`
+   * @param height - Block height
+   */
+  async getBlockHash(height: number): Promise<string> {
+    return this.call<string>('getblockhash', [height])
+  }
+
+  /**
+   * RPC command - `getblockstats`
+   * @param hash - Block hash
+   */
+  async getBlockStats(hash: string): Promise<BlockStats> {
+    return this.call<BlockStats>('getblockstats', [hash])
+  }
+
+  /**
+   * RPC command - `getblock`
+   * @param hash - Block hash
+   */
+  async getBlock(hash: string): Promise<BlockInfo> {
+    return this.call<BlockInfo>('getblock', [hash])
+  }
+
+  /**
+   * RPC command - `getblock` (verbosity 0), parsed into a Block
+   * @param hash - Block hash
+   */
+  async getRawBlock(hash: string): Promise<Block> {
+    const hex = await this.call<string>('getblock', [hash, 0])
+    return Block.fromString(hex)
+  }
+
+  /**
+   * RPC command - `getblockheader`
+   * @param hash - Block hash
+   */
+  async getBlockHeader(hash: string): Promise<BlockHeaderInfo> {
+    return this.call<BlockHeaderInfo>('getblockheader', [hash, true])
+  }
+
+  /**
+   * RPC command - `getblockheader` (non-verbose), parsed into a BlockHeader
+   * @param hash - Block hash
+   */
+  async getRawBlockHeader(hash: string): Promise<BlockHeader> {
+    const hex = await this.call<string>('getblockheader', [hash, false])
+    return BlockHeader.fromString(hex)
+  }
+
+  // ============================================================================
+  // Transactions
+  // ============================================================================
+
+  /**
+   * RPC command - `getrawtransaction` (verbose)
+   * @param txid - Transaction ID
+   */
+  async getRawTransaction(txid: string): Promise<RawTransaction> {
+    return this.call<RawTransaction>('getrawtransaction', [txid, true])
+  }
+
+  /**
+   * RPC command - `getrawtransaction` (non-verbose), parsed into a Transaction
+   * @param txid - Transaction ID
+   */
+  async getTransaction(txid: string): Promise<Transaction> {
+    const hex = await this.call<string>('getrawtransaction', [txid, false])
+    return Transaction.fromString(hex)
+  }
+
+  /**
+   * RPC command - `decoderawtransaction`
+   * @param tx - Serialized transaction or Transaction
+   */
+  async decodeRawTransaction(
+    tx: string | Transaction,
+  ): Promise<DecodedTransaction> {
+    return this.call<DecodedTransaction>('decoderawtransaction', [
+      RPCClient.toHex(tx),
+    ])
+  }
+
+  /**
+   * RPC command - `gettxout`
+   * @param txid - Transaction ID
+   * @param vout - Output index
+   * @param includeMempool - Whether to include mempool outputs (default: true)
+   * @returns Output information, or null if spent or unknown
+   */
+  async getTxOut(
+    txid: string,
+    vout: number,
+    includeMempool = true,
+  ): Promise<TxOutInfo | null> {
+    return this.call<TxOutInfo | null>('gettxout', [txid, vout, includeMempool])
+  }
+
+  /**
+   * RPC command - `testmempoolaccept`
+   * @param txs - Serialized transactions or Transactions
+   */
+  async testMempoolAccept(
+    txs: Array<string | Transaction>,
+  ): Promise<MempoolAcceptResult[]> {
+    return this.call<MempoolAcceptResult[]>('testmempoolaccept', [
+      txs.map(tx => RPCClient.toHex(tx)),
+    ])
+  }
+
+  /**
+   * RPC command - `sendrawtransaction`
+   *
+   * A transaction the node already has counts as sent: a request retried
+   * after a timeout may find the first attempt already accepted.
+   *
+   * @param tx - Serialized transaction or Transaction
+   * @returns Transaction ID
+   */
+  async sendRawTransaction(tx: string | Transaction): Promise<string> {
+    try {
+      return await this.call<string>('sendrawtransaction', [
+        RPCClient.toHex(tx),
+      ])
+    } catch (error) {
+      if (
+        error instanceof RPCError &&
+        (error.code === RPC_VERIFY_ALREADY_IN_CHAIN ||
+          /txn-already-(in-mempool|known)/.test(error.message))
+      ) {
+        return (typeof tx === 'string' ? new Transaction(tx) : tx).id
+      }
+      throw error
+    }
+  }
+
+  /**
+   * RPC command - `scantxoutset start`
+   * @param descriptors - Output descriptors or `addr(...)`/`raw(...)` objects
+   */
+  async scanTxOutSet(descriptors: string[]): Promise<ScanTxOutSetResult> {
+    return this.call<ScanTxOutSetResult>('scantxoutset', ['start', descriptors])
+  }
+
+  // ============================================================================
+  // Wallet
+  // ============================================================================
+
+  /**
+   * RPC command - `getbalance`
+   * @returns Wallet balance in coins
+   */
+  async getBalance(): Promise<number> {
+    return this.call<number>('getbalance')
+  }
+
+  /**
+   * RPC command - `getnewaddress`
+   * @param label - Optional address label
+   */
+  async getNewAddress(label?: string): Promise<string> {
+    return this.call<string>('getnewaddress', label ? [label] : [])
+  }
+
+  /**
+   * RPC command - `listunspent`
+   * @param minConf - Minimum confirmations (default: 1)
+   * @param addresses - Only return outputs paying these addresses
+   */
+  async listUnspent(
+    minConf = 1,
+    addresses?: string[],
+  ): Promise<WalletUnspent[]> {
+    return this.call<WalletUnspent[]>(
+      'listunspent',
+      addresses ? [minConf, 9999999, addresses] : [minConf],
+    )
+  }
+
+  /**
+   * RPC command - `signrawtransactionwithwallet`
+   * @param tx - Serialized transaction or Transaction
+   * @returns Signed transaction and whether it is complete
+   */
+  async signRawTransactionWithWallet(
+    tx: string | Transaction,
+  ): Promise<{ hex: string; complete: boolean }> {
+    return this.call<{ hex: string; complete: boolean }>(
+      'signrawtransactionwithwallet',
+      [RPCClient.toHex(tx)],
+    )
+  }
+
+  /**
+   * Serialize a transaction argument
+   */
+  private static toHex(tx: string | Transaction): string {
+    return typeof tx === 'string' ? tx : tx.toString()
+  }
+
+  /**
+   * POST a JSON-RPC body, retrying transport failures
+   */
+  private async _request(method: string, body: unknown): Promise<unknown> {
+    let lastError: RPCError | undefined
+
+    for (let attempt = 0; attempt <= this.retries; attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve =>
+          setTimeout(resolve, this.retryDelay * 2 ** (attempt - 1)),
+        )
+      }
+
+      try {
+        const json = await this._post(method, body)
+        const error = Array.isArray(json)
+          ? undefined
+          : (json as JSONRPCResponse).error
+        if (error?.code === RPC_IN_WARMUP) {
+          lastError = new RPCError(
+            `JSON-RPC error: ${error.message} (code: ${error.code})`,
+            method,
+            error.code,
+          )
+          continue
+        }
+        return json
+      } catch (error) {
+        // Errors returned by the node are final
+        if (error instanceof RPCError && error.code !== undefined) {
+          throw error
+        }
+        lastError =
+          error instanceof RPCError
+            ? error
+            : new RPCError(
+                `RPC request failed: ${error instanceof Error ? error.message : String(error)}`,
+                method,
+              )
+      }
+    }
+
+    throw lastError!
+  }
+
+  /**
+   * POST a JSON-RPC body once
+   */
+  private async _post(method: string, body: unknown): Promise<unknown> {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), this.timeout)
+
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        body: JSON.stringify(body),
+        signal: controller.signal,
+        headers: new Headers({
+          'Content-Type': 'application/json',
+          'Authorization': await this._getAuthorization(),
+        }),
+      })
+
+      if (response.status === 401) {
+        // The cookie changes when the node restarts
+        this.authorization = undefined
+        throw new RPCError('RPC authentication failed', method)
+      }
+
+      // The node reports JSON-RPC errors with HTTP 500 and a JSON body
+      const text = await response.text()
+      try {
+        return JSON.parse(text)
+      } catch {
+        throw new RPCError(
+          `RPC HTTP error: ${response.status} ${response.statusText}`,
+          method,
+        )
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new RPCError(
+          `RPC request timed out after ${this.timeout}ms`,
+          method,
+        )
+      }
+      throw error
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  /**
+   * Get the HTTP Basic authorization header
+   */
+  private async _getAuthorization(): Promise<string> {
+    if (this.authorization) {
+      return this.authorization
+    }
+
+    let credentials: string
+    if (this.config.user !== undefined) {
+      credentials = `${this.config.user}:${this.config.password ?? ''}`
+    } else if (this.config.cookie) {
+      credentials = this.config.cookie.trim()
+    } else if (this.config.cookieFile) {
+      const { readFile } = await import('node:fs/promises')
+      credentials = (await readFile(this.config.cookieFile, 'utf8')).trim()
+    } else {
+      credentials = ':'
+    }
+
+    this.authorization = `Basic ${Buffer.from(credentials).toString('base64')}`
+    return this.authorization
+  }
+}
+
+/**
+ * Default client for the node configured in .env (NODE_RPC_*)
+ */
+let defaultClient: RPCClient | undefined
+
+function getDefaultClient(): RPCClient {
+  defaultClient ??= new RPCClient({
+    host: settings.address,
+    port: settings.port,
+    user: settings.user,
+    password: settings.password,
+    retries: 0,
+  })
+  return defaultClient
+}
 
 /**
- * Sends an RPC request to the Lotus daemon
+ * Sends an RPC request to the Lotus daemon configured in .env
  * @param method - The RPC method to call
  * @param params - Array of parameters to pass to the RPC method
  * @returns Promise that resolves to the JSON response from the RPC daemon
@@ -284,24 +1025,8 @@ const rpcUrl = `http://${address}:${port}`
 export async function sendRPCRequest(
   method: string,
   params: unknown[],
-): Promise<JSONRPCResult> {
-  const response = await fetch(rpcUrl, {
-    method: 'POST',
-    body: JSON.stringify({ method, params }),
-    credentials: 'include',
-    headers: new Headers({
-      Authorization: `Basic ${Buffer.from(`${user}:${password}`).toString(
-        'base64',
-      )}`,
-    }),
-  })
-  const json = (await response.json()) as JSONRPCResponse
-  if (json.error) {
-    throw new Error(
-      `JSON-RPC error: ${json.error.message} (code: ${json.error.code})`,
-    )
-  }
-  return json.result
+): Promise<unknown> {
+  return getDefaultClient().call(method, params)
 }
 
 /**
@@ -309,8 +1034,7 @@ export async function sendRPCRequest(
  * @returns {Promise<MiningInfo>} Raw mining information
  */
 export async function getMiningInfo(): Promise<MiningInfo> {
-  const result = await sendRPCRequest('getmininginfo', [])
-  return result as MiningInfo
+  return getDefaultClient().getMiningInfo()
 }
 
 /**
@@ -318,8 +1042,7 @@ export async function getMiningInfo(): Promise<MiningInfo> {
  * @returns {Promise<NetworkInfo>} Network information
  */
 export async function getNetworkInfo(): Promise<NetworkInfo> {
-  const result = await sendRPCRequest('getnetworkinfo', [])
-  return result as NetworkInfo
+  return getDefaultClient().getNetworkInfo()
 }
 
 /**
@@ -327,8 +1050,7 @@ export async function getNetworkInfo(): Promise<NetworkInfo> {
  * @returns {Promise<PeerInfo[]>} Array of peer connection information
  */
 export async function getPeerInfo(): Promise<PeerInfo[]> {
-  const result = await sendRPCRequest('getpeerinfo', [])
-  return result as PeerInfo[]
+  return getDefaultClient().getPeerInfo()
 }
 
 /**
@@ -336,8 +1058,7 @@ export async function getPeerInfo(): Promise<PeerInfo[]> {
  * @returns {Promise<number>} Current block count
  */
 export async function getBlockCount(): Promise<number> {
-  const result = await sendRPCRequest('getblockcount', [])
-  return result as number
+  return getDefaultClient().getBlockCount()
 }
 
 /**
@@ -346,8 +1067,7 @@ export async function getBlockCount(): Promise<number> {
  * @returns {Promise<string>} Block hash for the given height
  */
 export async function getBlockHash(height: number): Promise<string> {
-  const result = await sendRPCRequest('getblockhash', [height])
-  return result as string
+  return getDefaultClient().getBlockHash(height)
 }
 
 /**
@@ -356,8 +1076,7 @@ export async function getBlockHash(height: number): Promise<string> {
  * @returns {Promise<BlockStats>} Block statistics
  */
 export async function getBlockStats(hash: string): Promise<BlockStats> {
-  const result = await sendRPCRequest('getblockstats', [hash])
-  return result as BlockStats
+  return getDefaultClient().getBlockStats(hash)
 }
 
 /**
@@ -366,8 +1085,7 @@ export async function getBlockStats(hash: string): Promise<BlockStats> {
  * @returns {Promise<Block>} Block information
  */
 export async function getBlock(hash: string): Promise<BlockInfo> {
-  const result = await sendRPCRequest('getblock', [hash])
-  return result as BlockInfo
+  return getDefaultClient().getBlock(hash)
 }
 
 /**
@@ -376,8 +1094,7 @@ export async function getBlock(hash: string): Promise<BlockInfo> {
  * @returns {Promise<RawTransaction>} Raw transaction information
  */
 export async function getRawTransaction(txid: string): Promise<RawTransaction> {
-  const result = await sendRPCRequest('getrawtransaction', [txid, true])
-  return result as RawTransaction
+  return getDefaultClient().getRawTransaction(txid)
 }
 
 /**
@@ -385,8 +1102,7 @@ export async function getRawTransaction(txid: string): Promise<RawTransaction> {
  * @returns {Promise<string[]>} Array of transaction IDs in mempool
  */
 export async function getRawMemPool(): Promise<string[]> {
-  const result = await sendRPCRequest('getrawmempool', [])
-  return result as string[]
+  return getDefaultClient().getRawMemPool()
 }
 
 /**
@@ -394,6 +1110,5 @@ export async function getRawMemPool(): Promise<string[]> {
  * @returns {Promise<MempoolInfo>} Mempool information
  */
 export async function getMempoolInfo(): Promise<MempoolInfo> {
-  const result = await sendRPCRequest('getmempoolinfo', [])
-  return result as MempoolInfo
+  return getDefaultClient().getMempoolInfo()
 }
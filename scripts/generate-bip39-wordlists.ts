@@ -0,0 +1,154 @@
+#!/usr/bin/env node
+/**
+ * Generate BIP39 Word Lists
+ *
+ * Downloads the BIP39 reference word lists from the bitcoin/bips repository
+ * and writes them to lib/bitcore/mnemonic/words/, along with the `Words`
+ * index used by Mnemonic for language detection.
+ *
+ * Each list is checked for 2048 unique words before anything is written.
+ *
+ * Usage:
+ *   npx tsx scripts/generate-bip39-wordlists.ts [--source <url|dir>] [--help]
+ *
+ * --source reads `<language>.txt` from another URL or a local directory,
+ * e.g. a checkout of bitcoin/bips/bip-0039.
+ */
+
+import { readFileSync, writeFileSync } from 'fs'
+import { dirname, join } from 'path'
+import { fileURLToPath } from 'url'
+
+const DEFAULT_SOURCE =
+  'https://raw.githubusercontent.com/bitcoin/bips/master/bip-0039'
+
+const WORDS_DIR = join(
+  dirname(fileURLToPath(import.meta.url)),
+  '..',
+  'lib',
+  'bitcore',
+  'mnemonic',
+  'words',
+)
+
+/** Reference file name, `Words` key and exported constant per language */
+const LANGUAGES = [
+  { file: 'english', key: 'ENGLISH', name: 'english', title: 'English' },
+  { file: 'spanish', key: 'SPANISH', name: 'spanish', title: 'Spanish' },
+  { file: 'french', key: 'FRENCH', name: 'french', title: 'French' },
+  { file: 'italian', key: 'ITALIAN', name: 'italian', title: 'Italian' },
+  { file: 'czech', key: 'CZECH', name: 'czech', title: 'Czech' },
+  { file: 'japanese', key: 'JAPANESE', name: 'japanese', title: 'Japanese' },
+  { file: 'korean', key: 'KOREAN', name: 'korean', title: 'Korean' },
+  {
+    file: 'chinese_simplified',
+    key: 'CHINESE_SIMPLIFIED',
+    name: 'chineseSimplified',
+    title: 'Simplified Chinese',
+  },
+  {
+    file: 'chinese_traditional',
+    key: 'CHINESE_TRADITIONAL',
+    name: 'chineseTraditional',
+    title: 'Traditional Chinese',
+  },
+]
+
+if (process.argv.includes('--help')) {
+  console.log(
+    'Usage: npx tsx scripts/generate-bip39-wordlists.ts [--source <url|dir>]\n\n' +
+      `Writes ${LANGUAGES.map(l => l.file).join(', ')} to ${WORDS_DIR}\n` +
+      `Default source: ${DEFAULT_SOURCE}`,
+  )
+  process.exit(0)
+}
+
+const sourceIndex = process.argv.indexOf('--source')
+const SOURCE =
+  sourceIndex === -1 ? DEFAULT_SOURCE : process.argv[sourceIndex + 1]
+if (!SOURCE) {
+  console.error('--source requires a URL or directory')
+  process.exit(1)
+}
+
+async function readSource(file: string): Promise<string> {
+  if (!/^https?:\/\//.test(SOURCE)) {
+    return readFileSync(join(SOURCE, `${file}.txt`), 'utf8')
+  }
+  const response = await fetch(`${SOURCE}/${file}.txt`)
+  if (!response.ok) {
+    throw new Error(`Failed to download ${file}.txt: HTTP ${response.status}`)
+  }
+  return response.text()
+}
+
+async function fetchWordlist(file: string): Promise<string[]> {
+  const words = (await readSource(file))
+    .split('\n')
+    .map(word => word.trim())
+    .filter(word => word.length > 0)
+
+  if (words.length !== 2048 || new Set(words).size !== 2048) {
+    throw new Error(`${file}.txt does not contain 2048 unique words`)
+  }
+  return words
+}
+
+function renderWordlist(
+  language: (typeof LANGUAGES)[number],
+  words: string[],
+): string {
+  return `/**
+ * ${language.title} word list for BIP39 mnemonic generation
+ * Source: https://github.com/bitcoin/bips/blob/master/bip-0039/${language.file}.txt
+ */
+
+export const ${language.name} = [
+${words.map(word => `  '${word}',`).join('\n')}
+]
+`
+}
+
+function renderIndex(): string {
+  const imports = LANGUAGES.map(
+    l => `import { ${l.name} } from './${l.file}.js'`,
+  ).join('\n')
+  const entries = LANGUAGES.map(l => `  ${l.key}: ${l.name},`).join('\n')
+
+  return `/**
+ * Word lists for BIP39 mnemonic generation
+ * Generated by scripts/generate-bip39-wordlists.ts from the BIP39 reference
+ * lists. Mnemonic detects a phrase's language by trying each list in order.
+ */
+
+${imports}
+
+export const Words = {
+${entries}
+}
+`
+}
+
+async function main(): Promise<void> {
+  const lists = await Promise.all(
+    LANGUAGES.map(async language => ({
+      language,
+      words: await fetchWordlist(language.file),
+    })),
+  )
+
+  for (const { language, words } of lists) {
+    const path = join(WORDS_DIR, `${language.file}.ts`)
+    writeFileSync(path, renderWordlist(language, words))
+    console.log(`✓ ${path}`)
+  }
+
+  const indexPath = join(WORDS_DIR, 'index.ts')
+  writeFileSync(indexPath, renderIndex())
+  console.log(`✓ ${indexPath}`)
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -0,0 +1,286 @@
+/**
+ * Account Discovery Tests
+ *
+ * Covers BIP32 path parsing with hardened notation and gap-limit scanning of
+ * account chains against the in-memory chain backend and a stubbed lotusd
+ * RPCBackend.
+ */
+
+import { describe, it, beforeEach } from 'node:test'
+import assert from 'node:assert'
+import {
+  HDPrivateKey,
+  HDPublicKey,
+  PrivateKey,
+  Script,
+  Transaction,
+  buildKeyPathTaproot,
+  formatDerivationPath,
+  parseDerivationPath,
+  HARDENED_OFFSET,
+} from '../lib/bitcore/index.js'
+import {
+  MockChainBackend,
+  RPCBackend,
+  discoverAccount,
+  discoverAccounts,
+} from '../lib/chain/index.js'
+import {
+  RPCClient,
+  type RawTransaction,
+  type ScanTxOutSetResult,
+} from '../lib/rpc.js'
+
+const SEED = '000102030405060708090a0b0c0d0e0f'
+
+describe('Account Discovery', () => {
+  const root = HDPrivateKey.fromSeed(SEED)
+  const account = root.deriveChild("m/44'/10605'/0'")
+  const xpub = account.hdPublicKey
+
+  function p2pkh(chain: number, index: number): Script {
+    return Script.buildPublicKeyHashOut(
+      xpub.deriveChild(chain).deriveChild(index).publicKey,
+    )
+  }
+
+  describe('BIP32 paths', () => {
+    it('should parse every hardened notation', () => {
+      const expected = [44 + HARDENED_OFFSET, 10605 + HARDENED_OFFSET, 0, 5]
+      assert.deepStrictEqual(parseDerivationPath("m/44'/10605'/0/5"), expected)
+      assert.deepStrictEqual(parseDerivationPath('m/44h/10605H/0/5'), expected)
+      assert.strictEqual(formatDerivationPath(expected), "m/44'/10605'/0/5")
+      assert.deepStrictEqual(parseDerivationPath('m'), [])
+    })
+
+    it('should reject malformed paths', () => {
+      for (const path of [
+        '44/0',
+        'm/-1',
+        'm/1e3',
+        'm/0x10',
+        'm//1',
+        'm/2147483648',
+        "m/1''",
+      ]) {
+        assert.strictEqual(parseDerivationPath(path), null, path)
+      }
+    })
+
+    it('should derive h notation paths with HDPrivateKey', () => {
+      assert.strictEqual(
+        root.deriveChild('m/44h/10605h/0h').xprivkey,
+        account.xprivkey,
+      )
+    })
+
+    it('should derive paths with HDPublicKey and reject hardened steps', () => {
+      assert.ok(
+        xpub
+          .deriveChild('m/0/5')
+          .publicKey.toBuffer()
+          .equals(account.deriveChild('m/0/5').publicKey.toBuffer()),
+      )
+      assert.ok(HDPublicKey.isValidPath('m/0/5'))
+      assert.ok(!HDPublicKey.isValidPath('m/0h'))
+      assert.throws(() => xpub.deriveChild('m/0h'), /hardened/)
+      assert.throws(() => xpub.deriveChild('m/x'), /Invalid path/)
+    })
+  })
+
+  describe('discoverAccount()', () => {
+    let backend: MockChainBackend
+
+    beforeEach(() => {
+      backend = new MockChainBackend(100)
+    })
+
+    it('should find nothing for an unused account', async () => {
+      const result = await discoverAccount(backend, xpub, { gapLimit: 5 })
+      assert.deepStrictEqual(result.external, [])
+      assert.deepStrictEqual(result.internal, [])
+      assert.strictEqual(result.balance, 0)
+      assert.strictEqual(result.nextReceiveIndex, 0)
+      assert.strictEqual(result.nextChangeIndex, 0)
+    })
+
+    it('should follow used addresses within the gap limit', async () => {
+      backend.fund(p2pkh(0, 0), 1000)
+      backend.fund(p2pkh(0, 4), 2000)
+      backend.fund(p2pkh(0, 9), 3000)
+      // Beyond the gap after index 9
+      backend.fund(p2pkh(0, 15), 4000)
+      backend.fund(p2pkh(1, 2), 500)
+
+      const result = await discoverAccount(backend, xpub.toString(), {
+        gapLimit: 5,
+      })
+      assert.deepStrictEqual(
+        result.external.map(a => a.index),
+        [0, 4, 9],
+      )
+      assert.deepStrictEqual(
+        result.internal.map(a => a.path),
+        ['m/1/2'],
+      )
+      assert.strictEqual(result.balance, 6500)
+      assert.strictEqual(result.utxos.length, 4)
+      assert.strictEqual(result.nextReceiveIndex, 10)
+      assert.strictEqual(result.nextChangeIndex, 3)
+      assert.strictEqual(
+        result.external[1].address.toString(),
+        p2pkh(0, 4).toAddress()!.toString(),
+      )
+    })
+
+    it('should count spent addresses as used', async () => {
+      const key = account.deriveChild('m/0/0').privateKey
+      const utxo = backend.fund(p2pkh(0, 0), 10000)
+      const tx = new Transaction()
+        .from({
+          txId: utxo.txId,
+          outputIndex: utxo.outputIndex,
+          script: Script.fromHex(utxo.script),
+          satoshis: utxo.satoshis,
+        })
+        .to(new PrivateKey().toAddress(), 9000)
+        .sign(key)
+      await backend.broadcast(tx)
+      backend.fund(p2pkh(0, 3), 1000)
+
+      const result = await discoverAccount(backend, account, { gapLimit: 3 })
+      assert.deepStrictEqual(
+        result.external.map(a => [a.index, a.balance]),
+        [
+          [0, 0],
+          [3, 1000],
+        ],
+      )
+      assert.strictEqual(result.nextReceiveIndex, 4)
+    })
+
+    it('should scan Taproot addresses', async () => {
+      const pubkey = xpub.deriveChild(0).deriveChild(1).publicKey
+      backend.fund(buildKeyPathTaproot(pubkey), 5000)
+      backend.fund(p2pkh(0, 0), 1000)
+
+      const result = await discoverAccount(backend, xpub, {
+        gapLimit: 3,
+        addressType: 'p2tr',
+        network: 'testnet',
+      })
+      assert.strictEqual(result.external.length, 1)
+      assert.strictEqual(result.external[0].index, 1)
+      assert.ok(result.external[0].address.isPayToTaproot())
+      assert.strictEqual(result.external[0].address.network.name, 'testnet')
+      assert.strictEqual(result.balance, 5000)
+    })
+
+    it('should reject invalid gap limits', async () => {
+      await assert.rejects(
+        discoverAccount(backend, xpub, { gapLimit: 0 }),
+        /Gap limit/,
+      )
+    })
+  })
+
+  describe('discoverAccount() with RPCBackend', () => {
+    /**
+     * lotusd stub whose scantxoutset reports one unspent output per funded
+     * script, and nothing for spent ones
+     */
+    class UtxoSetRPCClient extends RPCClient {
+      constructor(private unspent: Map<string, number>) {
+        super()
+      }
+      async scanTxOutSet(descriptors: string[]): Promise<ScanTxOutSetResult> {
+        const scriptHex = descriptors[0].slice('raw('.length, -1)
+        const satoshis = this.unspent.get(scriptHex)
+        return {
+          unspents:
+            satoshis === undefined
+              ? []
+              : [
+                  {
+                    txid: scriptHex.slice(-64).padStart(64, '0'),
+                    vout: 0,
+                    scriptPubKey: scriptHex,
+                    desc: descriptors[0],
+                    amount: satoshis / 1_000_000,
+                    height: 100,
+                  },
+                ],
+        } as ScanTxOutSetResult
+      }
+      async getRawTransaction(txid: string): Promise<RawTransaction> {
+        return { txid, size: 0, vin: [], vout: [] }
+      }
+    }
+
+    it('should reject backends without full history', async () => {
+      const backend = new RPCBackend(new UtxoSetRPCClient(new Map()))
+      assert.strictEqual(backend.hasFullHistory, false)
+      await assert.rejects(
+        discoverAccount(backend, xpub, { gapLimit: 3 }),
+        /spent address history/,
+      )
+    })
+
+    it('should miss spent addresses when allowed to scan', async () => {
+      // m/0/0 was used but spent; only m/0/2 and m/0/4 still hold outputs
+      const backend = new RPCBackend(
+        new UtxoSetRPCClient(
+          new Map([
+            [p2pkh(0, 2).toHex(), 1000],
+            [p2pkh(0, 4).toHex(), 2000],
+          ]),
+        ),
+      )
+
+      const result = await discoverAccount(backend, xpub, {
+        gapLimit: 2,
+        allowPartialHistory: true,
+      })
+      // With full history, m/0/0 would have kept the scan going to m/0/4
+      assert.deepStrictEqual(result.external, [])
+      assert.strictEqual(result.nextReceiveIndex, 0)
+
+      const wider = await discoverAccount(backend, xpub, {
+        gapLimit: 3,
+        allowPartialHistory: true,
+      })
+      assert.deepStrictEqual(
+        wider.external.map(a => [a.index, a.balance]),
+        [
+          [2, 1000],
+          [4, 2000],
+        ],
+      )
+    })
+  })
+
+  describe('discoverAccounts()', () => {
+    it('should scan accounts until one is unused', async () => {
+      const backend = new MockChainBackend(100)
+      const account1 = root.deriveChild("m/44'/10605'/1'")
+      backend.fund(p2pkh(0, 0), 1000)
+      backend.fund(
+        Script.buildPublicKeyHashOut(account1.deriveChild('m/1/0').publicKey),
+        2000,
+      )
+
+      const accounts = await discoverAccounts(backend, root, { gapLimit: 2 })
+      assert.deepStrictEqual(
+        accounts.map(a => [a.path, a.balance]),
+        [
+          ["m/44'/10605'/0'", 1000],
+          ["m/44'/10605'/1'", 2000],
+        ],
+      )
+      assert.strictEqual(
+        accounts[1].xpub.toString(),
+        account1.hdPublicKey.toString(),
+      )
+    })
+  })
+})
@@ -0,0 +1,375 @@
+/**
+ * Adaptor Signature Tests
+ *
+ * Covers single-signer Schnorr adaptor signatures, MuSig2 adaptor signatures
+ * with the session manager, and a scriptless atomic swap between two MuSig2
+ * Taproot outputs.
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import {
+  BN,
+  Hash,
+  MuSigSessionManager,
+  Point,
+  PrivateKey,
+  Schnorr,
+  Script,
+  Transaction,
+  adaptorComplete,
+  adaptorExtract,
+  adaptorSign,
+  adaptorVerify,
+  buildMuSigTaprootKey,
+  musigAdaptorSigAgg,
+  musigKeyAgg,
+  musigNonceAgg,
+  musigNonceGen,
+  musigPartialSign,
+  musigPartialSigVerify,
+  type MuSigSession,
+} from '../lib/bitcore/index.js'
+
+const message = Hash.sha256(Buffer.from('adaptor signature'))
+
+/**
+ * Run both rounds of a MuSig2 session between all signers
+ */
+function runSessions(
+  manager: MuSigSessionManager,
+  keys: PrivateKey[],
+  sighash: Buffer,
+  metadata: Record<string, unknown> | undefined,
+  adaptorPoint: Point,
+): MuSigSession[] {
+  const signers = keys.map(key => key.publicKey)
+  const sessions = keys.map(key =>
+    manager.createSession(signers, key, sighash, metadata, adaptorPoint),
+  )
+
+  const nonces = sessions.map((session, i) =>
+    manager.generateNonces(session, keys[i]),
+  )
+  sessions.forEach(session => {
+    nonces.forEach((nonce, i) => {
+      if (sessions[i].myIndex !== session.myIndex) {
+        manager.receiveNonces(session, sessions[i].myIndex, nonce)
+      }
+    })
+  })
+
+  const partialSigs = sessions.map((session, i) =>
+    manager.createPartialSignature(session, keys[i]),
+  )
+  sessions.forEach(session => {
+    partialSigs.forEach((partialSig, i) => {
+      if (sessions[i].myIndex !== session.myIndex) {
+        manager.receivePartialSignature(
+          session,
+          sessions[i].myIndex,
+          partialSig,
+        )
+      }
+    })
+  })
+  return sessions
+}
+
+describe('Adaptor signatures', () => {
+  describe('Single signer', () => {
+    it('should complete a verified pre-signature into a valid signature', () => {
+      const alice = new PrivateKey()
+      // Enough runs to cover both nonce negation branches
+      for (let i = 0; i < 8; i++) {
+        const secret = new PrivateKey()
+        const adaptorPoint = secret.publicKey.point
+        const preSig = adaptorSign(message, alice, adaptorPoint)
+
+        assert.strictEqual(
+          adaptorVerify(message, preSig, alice.publicKey, adaptorPoint),
+          true,
+        )
+        const signature = adaptorComplete(preSig, secret.bn)
+        assert.strictEqual(
+          Schnorr.verify(message, signature, alice.publicKey, 'big'),
+          true,
+        )
+        assert.ok(adaptorExtract(preSig, signature, adaptorPoint).eq(secret.bn))
+      }
+    })
+
+    it('should not be a valid signature before completion', () => {
+      const alice = new PrivateKey()
+      const secret = new PrivateKey()
+      const preSig = adaptorSign(message, alice, secret.publicKey.point)
+
+      const incomplete = adaptorComplete(preSig, new BN(0))
+      assert.strictEqual(
+        Schnorr.verify(message, incomplete, alice.publicKey, 'big'),
+        false,
+      )
+    })
+
+    it('should reject a pre-signature for another adaptor point, key or message', () => {
+      const alice = new PrivateKey()
+      const adaptorPoint = new PrivateKey().publicKey.point
+      const preSig = adaptorSign(message, alice, adaptorPoint)
+
+      assert.strictEqual(
+        adaptorVerify(
+          message,
+          preSig,
+          alice.publicKey,
+          new PrivateKey().publicKey.point,
+        ),
+        false,
+      )
+      assert.strictEqual(
+        adaptorVerify(
+          message,
+          preSig,
+          new PrivateKey().publicKey,
+          adaptorPoint,
+        ),
+        false,
+      )
+      assert.strictEqual(
+        adaptorVerify(
+          Hash.sha256(Buffer.from('other')),
+          preSig,
+          alice.publicKey,
+          adaptorPoint,
+        ),
+        false,
+      )
+      assert.strictEqual(
+        adaptorVerify(
+          message,
+          { R: preSig.R, s: preSig.s.add(new BN(1)) },
+          alice.publicKey,
+          adaptorPoint,
+        ),
+        false,
+      )
+    })
+
+    it('should refuse to extract from an unrelated signature', () => {
+      const alice = new PrivateKey()
+      const secret = new PrivateKey()
+      const adaptorPoint = secret.publicKey.point
+      const preSig = adaptorSign(message, alice, adaptorPoint)
+
+      const plain = Schnorr.sign(message, alice, 'big')
+      assert.throws(
+        () => adaptorExtract(preSig, plain, adaptorPoint),
+        /does not match the adaptor signature/,
+      )
+      assert.throws(
+        () =>
+          adaptorExtract(
+            preSig,
+            adaptorComplete(preSig, secret.bn),
+            new PrivateKey().publicKey.point,
+          ),
+        /does not match the adaptor point/,
+      )
+    })
+  })
+
+  describe('MuSig2', () => {
+    it('should aggregate adaptor partial signatures into a pre-signature', () => {
+      const keys = [new PrivateKey(), new PrivateKey(), new PrivateKey()]
+      const ctx = musigKeyAgg(keys.map(key => key.publicKey))
+      const signers = ctx.pubkeys.map(
+        pubkey =>
+          keys.find(key => key.publicKey.toString() === pubkey.toString())!,
+      )
+      const secret = new PrivateKey()
+      const adaptorPoint = secret.publicKey.point
+
+      const nonces = signers.map(key =>
+        musigNonceGen(key, ctx.aggregatedPubKey, message),
+      )
+      const aggNonce = musigNonceAgg(nonces.map(nonce => nonce.publicNonces))
+      const partialSigs = signers.map((key, i) =>
+        musigPartialSign(
+          nonces[i],
+          key,
+          ctx,
+          i,
+          aggNonce,
+          message,
+          adaptorPoint,
+        ),
+      )
+
+      partialSigs.forEach((partialSig, i) => {
+        assert.strictEqual(
+          musigPartialSigVerify(
+            partialSig,
+            nonces[i].publicNonces,
+            signers[i].publicKey,
+            ctx,
+            i,
+            aggNonce,
+            message,
+            adaptorPoint,
+          ),
+          true,
+        )
+        // Not valid without the adaptor point
+        assert.strictEqual(
+          musigPartialSigVerify(
+            partialSig,
+            nonces[i].publicNonces,
+            signers[i].publicKey,
+            ctx,
+            i,
+            aggNonce,
+            message,
+          ),
+          false,
+        )
+      })
+
+      const preSig = musigAdaptorSigAgg(
+        partialSigs,
+        aggNonce,
+        message,
+        ctx.aggregatedPubKey,
+        adaptorPoint,
+      )
+      assert.strictEqual(
+        adaptorVerify(message, preSig, ctx.aggregatedPubKey, adaptorPoint),
+        true,
+      )
+      const signature = adaptorComplete(preSig, secret.bn)
+      assert.strictEqual(
+        Schnorr.verify(message, signature, ctx.aggregatedPubKey, 'big'),
+        true,
+      )
+    })
+
+    it('should complete adaptor sessions with the session manager', () => {
+      const keys = [new PrivateKey(), new PrivateKey()]
+      const secret = new PrivateKey()
+      const manager = new MuSigSessionManager()
+      const sessions = runSessions(
+        manager,
+        keys,
+        message,
+        undefined,
+        secret.publicKey.point,
+      )
+
+      const preSig = manager.getAdaptorSignature(sessions[0])
+      assert.strictEqual(
+        manager.getAdaptorSignature(sessions[1]).s.eq(preSig.s),
+        true,
+      )
+      assert.throws(
+        () => manager.getFinalSignature(sessions[0]),
+        /completeAdaptorSignature/,
+      )
+      assert.throws(
+        () => manager.completeAdaptorSignature(sessions[0], new BN(1)),
+        /does not match the adaptor point/,
+      )
+
+      const signature = manager.completeAdaptorSignature(sessions[0], secret.bn)
+      assert.strictEqual(manager.getFinalSignature(sessions[0]), signature)
+      assert.strictEqual(
+        Schnorr.verify(
+          message,
+          signature,
+          sessions[0].keyAggContext.aggregatedPubKey,
+          'big',
+        ),
+        true,
+      )
+    })
+
+    it('should refuse adaptor signatures for sessions without an adaptor point', () => {
+      const alice = new PrivateKey()
+      const manager = new MuSigSessionManager()
+      const session = manager.createSession(
+        [alice.publicKey, new PrivateKey().publicKey],
+        alice,
+        message,
+      )
+      assert.throws(
+        () => manager.getAdaptorSignature(session),
+        /no adaptor point/,
+      )
+    })
+  })
+
+  describe('Scriptless atomic swap', () => {
+    it('should let Bob claim his output with the secret revealed by Alice', () => {
+      const alice = new PrivateKey()
+      const bob = new PrivateKey()
+      const signers = [alice.publicKey, bob.publicKey]
+      const taproot = buildMuSigTaprootKey(signers)
+
+      // Alice picks the swap secret, Bob only learns the adaptor point
+      const secret = new PrivateKey()
+      const adaptorPoint = secret.publicKey.point
+
+      // Two jointly owned outputs, e.g. funded on either side of the swap
+      const claim = (txId: string, to: PrivateKey) =>
+        new Transaction()
+          .from({
+            txId,
+            outputIndex: 0,
+            script: taproot.script,
+            satoshis: 100000,
+            keyAggContext: taproot.keyAggContext,
+            mySignerIndex: 0,
+          })
+          .to(to.toAddress(), 99000)
+      const aliceClaim = claim('aa'.repeat(32), alice)
+      const bobClaim = claim('bb'.repeat(32), bob)
+
+      // Both claims are pre-signed for the same adaptor point
+      const manager = new MuSigSessionManager()
+      const metadata = { inputScriptType: 'taproot' }
+      const aliceSessions = runSessions(
+        manager,
+        [alice, bob],
+        aliceClaim.getMuSig2Sighash(0),
+        metadata,
+        adaptorPoint,
+      )
+      const bobSessions = runSessions(
+        manager,
+        [alice, bob],
+        bobClaim.getMuSig2Sighash(0),
+        metadata,
+        adaptorPoint,
+      )
+
+      // Alice claims her output, publishing the completed signature
+      const aliceSig = manager.completeAdaptorSignature(
+        aliceSessions[0],
+        secret.bn,
+      )
+      aliceClaim.inputs[0].setScript(
+        new Script().add(aliceSig.toTxFormat('schnorr')),
+      )
+      assert.strictEqual(aliceClaim.verifyScripts().valid, true)
+
+      // Bob extracts the secret from Alice's claim and claims his output
+      const extracted = adaptorExtract(
+        manager.getAdaptorSignature(aliceSessions[1]),
+        aliceSig,
+        adaptorPoint,
+      )
+      const bobSig = manager.completeAdaptorSignature(bobSessions[1], extracted)
+      bobClaim.inputs[0].setScript(
+        new Script().add(bobSig.toTxFormat('schnorr')),
+      )
+      assert.strictEqual(bobClaim.verifyScripts().valid, true)
+    })
+  })
+})
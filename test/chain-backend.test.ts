@@ -0,0 +1,557 @@
+/**
+ * Chain Backend Tests
+ *
+ * Exercises the in-memory backend directly, burn verification and
+ * confirmation tracking on top of it, and the Chronik/RPC adapters against
+ * stubbed clients.
+ */
+
+import { describe, it, beforeEach } from 'node:test'
+import assert from 'node:assert'
+import { ChronikClient, type Tx as ChronikTx } from 'chronik-client'
+import {
+  PrivateKey,
+  Script,
+  Opcode,
+  Output,
+  Transaction,
+  type Address,
+} from '../lib/bitcore/index.js'
+import {
+  ChronikBackend,
+  MockChainBackend,
+  RPCBackend,
+  type ChainUtxo,
+  type ScriptEvent,
+} from '../lib/chain/index.js'
+import { RPCClient, RPCError, type RPCRequest } from '../lib/rpc.js'
+import {
+  BurnVerifier,
+  TransactionMonitor,
+} from '../lib/p2p/blockchain-utils.js'
+
+const LOKAD_PREFIX = Buffer.from('TEST')
+
+function spend(
+  utxo: ChainUtxo,
+  key: PrivateKey,
+  outputs: Array<{ script: Script; satoshis: number }>,
+): Transaction {
+  const tx = new Transaction().from({
+    txId: utxo.txId,
+    outputIndex: utxo.outputIndex,
+    script: Script.fromHex(utxo.script),
+    satoshis: utxo.satoshis,
+  })
+  for (const output of outputs) {
+    tx.addOutput(
+      new Output({
+        script: output.script,
+        satoshis: output.satoshis,
+      }),
+    )
+  }
+  return tx.sign(key)
+}
+
+describe('Chain Backends', () => {
+  let key: PrivateKey
+  let address: Address
+  let backend: MockChainBackend
+
+  beforeEach(() => {
+    key = new PrivateKey()
+    address = key.toAddress()
+    backend = new MockChainBackend(100)
+  })
+
+  describe('MockChainBackend', () => {
+    it('should track funded outputs and the tip', async () => {
+      const utxo = backend.fund(address, 100000)
+
+      assert.strictEqual(utxo.blockHeight, 101)
+      assert.strictEqual((await backend.getTip()).height, 101)
+      const utxos = await backend.getUtxos(Script.fromAddress(address))
+      assert.deepStrictEqual(utxos, [utxo])
+    })
+
+    it('should move broadcast transactions from mempool into blocks', async () => {
+      const utxo = backend.fund(address, 100000)
+      const tx = spend(utxo, key, [
+        { script: Script.buildPublicKeyHashOut(address), satoshis: 99000 },
+      ])
+
+      const txId = await backend.broadcast(tx)
+      assert.strictEqual(txId, tx.id)
+      assert.strictEqual((await backend.getTransaction(txId))!.blockHeight, -1)
+      assert.deepStrictEqual(
+        (await backend.getUtxos(Script.fromAddress(address))).map(u => u.txId),
+        [txId],
+      )
+
+      const tip = backend.mineBlock()
+      const mined = await backend.getTransaction(txId)
+      assert.strictEqual(mined!.blockHeight, tip.height)
+      assert.strictEqual(mined!.blockHash, tip.hash)
+      assert.strictEqual(mined!.inputs[0].txId, utxo.txId)
+      assert.strictEqual(mined!.outputs[0].satoshis, 99000)
+    })
+
+    it('should reject double spends and unknown inputs', async () => {
+      const utxo = backend.fund(address, 100000)
+      const p2pkh = Script.buildPublicKeyHashOut(address)
+      await backend.broadcast(
+        spend(utxo, key, [{ script: p2pkh, satoshis: 99000 }]),
+      )
+
+      await assert.rejects(
+        backend.broadcast(
+          spend(utxo, key, [{ script: p2pkh, satoshis: 98000 }]),
+        ),
+        /already spent/,
+      )
+      await assert.rejects(
+        backend.broadcast(
+          spend({ ...utxo, txId: 'cd'.repeat(32) }, key, [
+            { script: p2pkh, satoshis: 98000 },
+          ]),
+        ),
+        /Missing input/,
+      )
+      assert.strictEqual(backend.broadcasts.length, 1)
+    })
+
+    it('should notify script subscribers', async () => {
+      const script = Script.fromAddress(address)
+      const events: ScriptEvent[] = []
+      const unsubscribe = await backend.subscribeToScript(script, event =>
+        events.push(event),
+      )
+
+      const utxo = backend.fund(address, 100000)
+      const tx = spend(utxo, key, [{ script, satoshis: 99000 }])
+      await backend.broadcast(tx)
+      backend.evict(tx.id)
+      unsubscribe()
+      backend.fund(address, 5000)
+
+      assert.deepStrictEqual(
+        events.map(event => event.type),
+        [
+          'added-to-mempool',
+          'confirmed',
+          'added-to-mempool',
+          'removed-from-mempool',
+        ],
+      )
+      assert.strictEqual(events[3].txId, tx.id)
+      // Eviction releases the spent output
+      assert.strictEqual((await backend.getUtxos(script)).length, 2)
+    })
+
+    it('should list script history newest first', async () => {
+      const script = Script.fromAddress(address)
+      const first = backend.fund(address, 100000)
+      const second = backend.fund(address, 5000)
+      const tx = spend(first, key, [
+        {
+          script: Script.fromAddress(new PrivateKey().toAddress()),
+          satoshis: 99000,
+        },
+      ])
+      await backend.broadcast(tx)
+
+      const history = await backend.getHistory(script)
+      assert.deepStrictEqual(
+        history.map(entry => entry.txId),
+        [tx.id, second.txId, first.txId],
+      )
+      assert.strictEqual((await backend.getHistory(script, 1)).length, 1)
+      assert.deepStrictEqual(
+        await backend.getHistory(
+          Script.fromAddress(new PrivateKey().toAddress()),
+        ),
+        [],
+      )
+    })
+  })
+
+  describe('BurnVerifier', () => {
+    let burnTxId: string
+
+    beforeEach(async () => {
+      const utxo = backend.fund(address, 100000)
+      // OP_RETURN <prefix> <version> <payload>
+      const lokad = new Script()
+        .add(Opcode.OP_RETURN)
+        .add(LOKAD_PREFIX)
+        .add(Buffer.from([1]))
+        .add(key.publicKey.toBuffer())
+      burnTxId = await backend.broadcast(
+        spend(utxo, key, [{ script: lokad, satoshis: 50000 }]),
+      )
+    })
+
+    it('should not verify burns until mined', async () => {
+      const verifier = new BurnVerifier(backend)
+      assert.strictEqual(
+        await verifier.verifyBurnTransaction(burnTxId, 0),
+        null,
+      )
+    })
+
+    it('should verify burns and report maturation', async () => {
+      const verifier = new BurnVerifier(backend)
+      backend.mineBlock()
+
+      let result = await verifier.verifyBurnTransaction(burnTxId, 0, 10)
+      assert.ok(result)
+      assert.strictEqual(result.burnAmount, 50000)
+      assert.strictEqual(result.confirmations, 1)
+      assert.strictEqual(result.isMatured, false)
+      assert.ok(result.lokadPrefix!.equals(LOKAD_PREFIX))
+      assert.strictEqual(result.lokadVersion, 1)
+      assert.ok(
+        verifier
+          .parsePublicKeyFromLokad(result.lokadPayload)!
+          .equals(key.publicKey.toBuffer()),
+      )
+
+      backend.mineBlocks(9)
+      result = await verifier.verifyBurnTransaction(burnTxId, 0, 10)
+      assert.strictEqual(result!.confirmations, 10)
+      assert.strictEqual(result!.isMatured, true)
+    })
+
+    it('should reject outputs that are not OP_RETURN', async () => {
+      const verifier = new BurnVerifier(backend)
+      const utxo = backend.fund(address, 100000)
+      assert.strictEqual(
+        await verifier.verifyBurnTransaction(utxo.txId, 0, 0),
+        null,
+      )
+    })
+  })
+
+  describe('TransactionMonitor', () => {
+    it('should track confirmations offline', async () => {
+      const monitor = new TransactionMonitor(backend)
+      const utxo = backend.fund(address, 100000)
+      const tx = spend(utxo, key, [
+        { script: Script.buildPublicKeyHashOut(address), satoshis: 99000 },
+      ])
+
+      const txId = await monitor.broadcastTransaction(tx.serialize())
+      assert.strictEqual(txId, tx.id)
+      assert.deepStrictEqual(await monitor.checkConfirmations(tx.id, 2), {
+        txId: tx.id,
+        blockHeight: -1,
+        confirmations: 0,
+        isConfirmed: false,
+      })
+
+      const waiting = monitor.waitForConfirmations(tx.id, 2, 5, 5000)
+      backend.mineBlocks(2)
+      const info = await waiting
+      assert.strictEqual(info!.confirmations, 2)
+      assert.strictEqual(info!.isConfirmed, true)
+
+      const utxos = await monitor.getUtxos(address.toString())
+      assert.deepStrictEqual(
+        utxos.map(u => u.txId),
+        [tx.id],
+      )
+    })
+
+    it('should return null for unknown transactions and failed broadcasts', async () => {
+      const monitor = new TransactionMonitor(backend)
+      assert.strictEqual(
+        await monitor.checkConfirmations('00'.repeat(32)),
+        null,
+      )
+      assert.strictEqual(await monitor.getTransaction('00'.repeat(32)), null)
+      assert.strictEqual(await monitor.broadcastTransaction('00'), null)
+    })
+  })
+
+  describe('ChronikBackend', () => {
+    const chronikTx: ChronikTx = {
+      txid: 'aa'.repeat(32),
+      version: 2,
+      inputs: [
+        {
+          prevOut: { txid: 'bb'.repeat(32), outIdx: 3 },
+          inputScript: '51',
+          outputScript: undefined,
+          value: '1000',
+          sequenceNo: 0xfffffffe,
+          slpBurn: undefined,
+          slpToken: undefined,
+        },
+      ],
+      outputs: [
+        {
+          value: '900',
+          outputScript: '6a',
+          slpToken: undefined,
+          spentBy: undefined,
+        },
+      ],
+      lockTime: 0,
+      slpTxData: undefined,
+      slpErrorMsg: undefined,
+      block: { height: 50, hash: 'cc'.repeat(32), timestamp: '1700000000' },
+      timeFirstSeen: '0',
+      size: 100,
+      isCoinbase: false,
+      network: 'XPI',
+    }
+
+    function stubClient(overrides: Partial<ChronikClient>): ChronikClient {
+      return Object.assign(Object.create(ChronikClient.prototype), overrides)
+    }
+
+    it('should convert Chronik transactions', async () => {
+      const chronik = new ChronikBackend(
+        stubClient({ tx: async () => chronikTx }),
+      )
+      assert.deepStrictEqual(await chronik.getTransaction(chronikTx.txid), {
+        txId: chronikTx.txid,
+        inputs: [
+          {
+            txId: 'bb'.repeat(32),
+            outputIndex: 3,
+            script: '51',
+            sequence: 0xfffffffe,
+          },
+        ],
+        outputs: [{ satoshis: 900, script: '6a' }],
+        blockHeight: 50,
+        blockHash: 'cc'.repeat(32),
+        timestamp: 1700000000,
+        isCoinbase: false,
+      })
+    })
+
+    it('should return null for unknown transactions', async () => {
+      const chronik = new ChronikBackend(
+        stubClient({
+          tx: async () => {
+            throw new Error('Failed getting /tx/00 (tx-not-found): not found')
+          },
+        }),
+      )
+      assert.strictEqual(await chronik.getTransaction('00'.repeat(32)), null)
+    })
+
+    it('should query UTXOs by script type and payload', async () => {
+      const script = Script.fromAddress(address)
+      let endpoint: string[] = []
+      const chronik = new ChronikBackend(
+        stubClient({
+          script: ((type: string, payload: string) => {
+            endpoint = [type, payload]
+            return {
+              utxos: async () => [
+                {
+                  outputScript: script.toHex(),
+                  utxos: [
+                    {
+                      outpoint: { txid: 'dd'.repeat(32), outIdx: 1 },
+                      blockHeight: 7,
+                      isCoinbase: false,
+                      value: '1234',
+                    },
+                  ],
+                },
+              ],
+            }
+          }) as unknown as ChronikClient['script'],
+        }),
+      )
+
+      const utxos = await chronik.getUtxos(script)
+      assert.deepStrictEqual(endpoint, [
+        'p2pkh',
+        script.getPublicKeyHash().toString('hex'),
+      ])
+      assert.deepStrictEqual(utxos, [
+        {
+          txId: 'dd'.repeat(32),
+          outputIndex: 1,
+          satoshis: 1234,
+          script: script.toHex(),
+          blockHeight: 7,
+          isCoinbase: false,
+        },
+      ])
+    })
+
+    it('should page through script history up to the limit', async () => {
+      const pages: number[][] = []
+      const chronik = new ChronikBackend(
+        stubClient({
+          script: (() => ({
+            history: async (page: number, pageSize: number) => {
+              pages.push([page, pageSize])
+              return { txs: [chronikTx, chronikTx], numPages: 3 }
+            },
+          })) as unknown as ChronikClient['script'],
+        }),
+      )
+
+      const all = await chronik.getHistory(Script.fromAddress(address))
+      assert.strictEqual(all.length, 6)
+      assert.deepStrictEqual(pages, [
+        [0, 200],
+        [1, 200],
+        [2, 200],
+      ])
+
+      pages.length = 0
+      const limited = await chronik.getHistory(Script.fromAddress(address), 3)
+      assert.strictEqual(limited.length, 3)
+      assert.deepStrictEqual(pages, [
+        [0, 3],
+        [1, 3],
+      ])
+    })
+  })
+
+  describe('RPCBackend', () => {
+    class StubRPCClient extends RPCClient {
+      calls: string[] = []
+      constructor(private results: Record<string, unknown>) {
+        super()
+      }
+      async call<T>(method: string): Promise<T> {
+        this.calls.push(method)
+        const result = this.results[method]
+        if (result instanceof RPCError) {
+          throw result
+        }
+        return result as T
+      }
+      async batch<T extends unknown[]>(requests: RPCRequest[]): Promise<T> {
+        return Promise.all(requests.map(r => this.call(r.method))) as Promise<T>
+      }
+    }
+
+    it('should convert RPC transactions to satoshis and heights', async () => {
+      const rpc = new StubRPCClient({
+        getrawtransaction: {
+          txid: 'aa'.repeat(32),
+          size: 100,
+          blockhash: 'cc'.repeat(32),
+          blocktime: 1700000000,
+          confirmations: 3,
+          vin: [
+            {
+              txid: 'bb'.repeat(32),
+              vout: 1,
+              scriptSig: { asm: '', hex: '51' },
+              sequence: 1,
+            },
+          ],
+          vout: [
+            {
+              value: 1.5,
+              n: 0,
+              scriptPubKey: {
+                addresses: [],
+                type: 'nulldata',
+                asm: '',
+                hex: '6a',
+              },
+            },
+          ],
+        },
+        getblockheader: { height: 98 },
+      })
+
+      const tx = await new RPCBackend(rpc).getTransaction('aa'.repeat(32))
+      assert.deepStrictEqual(tx, {
+        txId: 'aa'.repeat(32),
+        inputs: [
+          { txId: 'bb'.repeat(32), outputIndex: 1, script: '51', sequence: 1 },
+        ],
+        outputs: [{ satoshis: 1_500_000, script: '6a' }],
+        blockHeight: 98,
+        blockHash: 'cc'.repeat(32),
+        timestamp: 1700000000,
+        isCoinbase: false,
+      })
+    })
+
+    it('should return null for unknown transactions', async () => {
+      const rpc = new StubRPCClient({
+        getrawtransaction: new RPCError(
+          'No such mempool or blockchain transaction',
+          'getrawtransaction',
+          -5,
+        ),
+      })
+      assert.strictEqual(
+        await new RPCBackend(rpc).getTransaction('00'.repeat(32)),
+        null,
+      )
+    })
+
+    it('should read the tip in one batch', async () => {
+      const rpc = new StubRPCClient({
+        getblockcount: 12,
+        getbestblockhash: 'ee'.repeat(32),
+      })
+      assert.deepStrictEqual(await new RPCBackend(rpc).getTip(), {
+        height: 12,
+        hash: 'ee'.repeat(32),
+      })
+    })
+
+    it('should notify subscribers by polling', async () => {
+      const script = Script.fromAddress(address)
+      const rawTx = {
+        txid: 'ab'.repeat(32),
+        size: 100,
+        vin: [],
+        vout: [
+          {
+            value: 1,
+            scriptPubKey: {
+              addresses: [],
+              type: 'pubkeyhash',
+              asm: '',
+              hex: script.toHex(),
+            },
+          },
+        ],
+      }
+      const results: Record<string, unknown> = {
+        getblockcount: 10,
+        getrawmempool: [],
+        getrawtransaction: rawTx,
+      }
+      const rpc = new StubRPCClient(results)
+      const backend = new RPCBackend(rpc, { pollInterval: 60000 })
+
+      const events: ScriptEvent[] = []
+      const unsubscribe = await backend.subscribeToScript(script, event =>
+        events.push(event),
+      )
+
+      results.getrawmempool = [rawTx.txid]
+      await backend.poll()
+      results.getrawmempool = []
+      results.getblockcount = 11
+      results.getblockhash = 'ff'.repeat(32)
+      results.getblock = { tx: [rawTx] }
+      await backend.poll()
+      unsubscribe()
+
+      assert.deepStrictEqual(events, [
+        { type: 'added-to-mempool', txId: rawTx.txid },
+        { type: 'confirmed', txId: rawTx.txid },
+      ])
+    })
+  })
+})
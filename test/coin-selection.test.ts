@@ -0,0 +1,336 @@
+/**
+ * Coin Selection Tests
+ *
+ * Covers each strategy, input size estimation per input type, and funding
+ * transactions through Transaction.selectInputs().
+ */
+
+import { describe, it, beforeEach } from 'node:test'
+import assert from 'node:assert'
+import {
+  PrivateKey,
+  Script,
+  Output,
+  Transaction,
+  TaprootInput,
+  Interpreter,
+  selectCoins,
+  CoinSelectionError,
+  buildMuSigRefundTaproot,
+  createControlBlock,
+  type Address,
+  type UnspentOutputData,
+} from '../lib/bitcore/index.js'
+
+// version + input count + output count + locktime
+const TX_OVERHEAD = 4 + 1 + 1 + 4
+// outpoint + sequence + script length + 107-byte P2PKH scriptSig
+const P2PKH_INPUT_SIZE = 40 + 1 + 107
+const P2PKH_OUTPUT_SIZE = 34
+
+let nextTxId = 0
+function utxo(address: Address | Script, satoshis: number): UnspentOutputData {
+  return {
+    txId: (++nextTxId).toString(16).padStart(64, '0'),
+    outputIndex: 0,
+    script: address instanceof Script ? address : Script.fromAddress(address),
+    satoshis,
+  }
+}
+
+function amounts(selected: UnspentOutputData[]): number[] {
+  return selected.map(u => Number(u.satoshis))
+}
+
+describe('Coin Selection', () => {
+  let key: PrivateKey
+  let address: Address
+  let outputs: Output[]
+
+  beforeEach(() => {
+    key = new PrivateKey()
+    address = key.toAddress()
+    outputs = [
+      new Output({
+        script: Script.fromAddress(new PrivateKey().toAddress()),
+        satoshis: 50000,
+      }),
+    ]
+  })
+
+  describe('Branch and bound', () => {
+    it('should find a changeless selection', () => {
+      // Exactly covers one output plus the fee of a 1-in/1-out transaction
+      const exact = 50000 + TX_OVERHEAD + P2PKH_INPUT_SIZE + P2PKH_OUTPUT_SIZE
+      const pool = [
+        utxo(address, 200000),
+        utxo(address, exact),
+        utxo(address, 30000),
+      ]
+
+      const result = selectCoins(pool, outputs)
+      assert.strictEqual(result.strategy, 'branch-and-bound')
+      assert.deepStrictEqual(amounts(result.selected), [exact])
+      assert.strictEqual(result.change, 0)
+      assert.strictEqual(result.fee, exact - 50000)
+    })
+
+    it('should combine inputs to avoid change', () => {
+      const pool = [
+        utxo(address, 200000),
+        utxo(address, 30000),
+        utxo(address, 20400),
+      ]
+
+      const result = selectCoins(pool, outputs)
+      assert.strictEqual(result.strategy, 'branch-and-bound')
+      assert.deepStrictEqual(amounts(result.selected), [30000, 20400])
+      assert.strictEqual(result.change, 0)
+    })
+
+    it('should fall back to largest-first when change is unavoidable', () => {
+      const pool = [utxo(address, 200000), utxo(address, 10000)]
+
+      const result = selectCoins(pool, outputs)
+      assert.strictEqual(result.strategy, 'largest-first')
+      assert.deepStrictEqual(amounts(result.selected), [200000])
+      assert.ok(result.change > 0)
+    })
+
+    it('should search large pools without exhausting the stack', () => {
+      const pool = Array.from({ length: 20000 }, (_, i) =>
+        utxo(address, 1000 + (i % 7)),
+      )
+
+      const small = selectCoins(pool, outputs, { feePerByte: 1 })
+      assert.ok(small.selected.length > 1)
+
+      // Consolidate most of the pool into a single output
+      const consolidation = selectCoins(
+        pool,
+        [
+          new Output({
+            script: Script.fromAddress(address),
+            satoshis: 15_000_000,
+          }),
+        ],
+        { feePerByte: 1 },
+      )
+      assert.ok(consolidation.selected.length > 15000)
+      assert.ok(consolidation.fee > 0)
+    })
+  })
+
+  describe('Strategies', () => {
+    const pool = () => [
+      utxo(address, 10000),
+      utxo(address, 20000),
+      utxo(address, 40000),
+      utxo(address, 80000),
+    ]
+
+    it('largest-first should use the fewest inputs', () => {
+      const result = selectCoins(pool(), outputs, {
+        strategy: 'largest-first',
+      })
+      assert.deepStrictEqual(amounts(result.selected), [80000])
+      assert.strictEqual(
+        result.size,
+        TX_OVERHEAD + P2PKH_INPUT_SIZE + 2 * P2PKH_OUTPUT_SIZE,
+      )
+      assert.strictEqual(result.fee, result.size)
+      assert.strictEqual(result.change, 80000 - 50000 - result.fee)
+    })
+
+    it('smallest-first should consolidate small outputs', () => {
+      const result = selectCoins(pool(), outputs, {
+        strategy: 'smallest-first',
+      })
+      assert.deepStrictEqual(amounts(result.selected), [10000, 20000, 40000])
+      assert.strictEqual(result.inputAmount, result.fee + result.change + 50000)
+    })
+
+    it('privacy should spend a whole script group without mixing', () => {
+      const other = new PrivateKey().toAddress()
+      const result = selectCoins(
+        [
+          utxo(address, 30000),
+          utxo(address, 30000),
+          utxo(other, 500000),
+          utxo(other, 1000),
+        ],
+        outputs,
+        { strategy: 'privacy' },
+      )
+      assert.deepStrictEqual(amounts(result.selected), [30000, 30000])
+    })
+
+    it('privacy should combine whole groups when none suffices alone', () => {
+      const other = new PrivateKey().toAddress()
+      const result = selectCoins(
+        [utxo(address, 30000), utxo(address, 10000), utxo(other, 25000)],
+        outputs,
+        { strategy: 'privacy' },
+      )
+      assert.deepStrictEqual(
+        amounts(result.selected).sort((a, b) => a - b),
+        [10000, 25000, 30000],
+      )
+    })
+
+    it('should respect the fee rate', () => {
+      const result = selectCoins(pool(), outputs, {
+        strategy: 'largest-first',
+        feePerByte: 5,
+      })
+      assert.strictEqual(result.fee, result.size * 5)
+    })
+  })
+
+  describe('Input sizes', () => {
+    it('should size P2SH multisig inputs with the given keys', () => {
+      const keys = [new PrivateKey(), new PrivateKey(), new PrivateKey()]
+      const pubkeys = keys.map(k => k.publicKey)
+      const redeemScript = Script.buildMultisigOut(pubkeys, 2)
+      const p2sh = utxo(Script.buildScriptHashOut(redeemScript), 100000)
+
+      const single = selectCoins([utxo(address, 100000)], outputs, {
+        strategy: 'largest-first',
+      })
+      const multisig = selectCoins([p2sh], outputs, {
+        strategy: 'largest-first',
+        pubkeys,
+        threshold: 2,
+      })
+      assert.ok(multisig.size > single.size)
+    })
+
+    it('should size Taproot key path and script path inputs', () => {
+      const signers = [key.publicKey, new PrivateKey().publicKey]
+      const refund = buildMuSigRefundTaproot(signers, 86400)
+      const keyPath = utxo(refund.script, 100000)
+
+      const scriptPath = new TaprootInput({
+        prevTxId: Buffer.from(keyPath.txId!, 'hex'),
+        outputIndex: 0,
+        output: new Output({ script: refund.script, satoshis: 100000 }),
+        script: new Script(),
+        tapScript: refund.leaves[0].script,
+        controlBlock: createControlBlock(
+          refund.aggregatedPubKey,
+          0,
+          refund.scriptTree,
+        ),
+      })
+
+      const keyResult = selectCoins([keyPath], outputs, {
+        strategy: 'largest-first',
+      })
+      const scriptResult = selectCoins([scriptPath], outputs, {
+        strategy: 'largest-first',
+      })
+
+      assert.strictEqual(
+        keyResult.size,
+        TX_OVERHEAD + 40 + 1 + 66 + 2 * P2PKH_OUTPUT_SIZE,
+      )
+      // <signature> <leaf script> <control block>, each with a 1-byte push
+      const leafSize = refund.leaves[0].script.toBuffer().length
+      const scriptSigSize =
+        1 + 65 + 1 + leafSize + 1 + scriptPath.controlBlock!.length
+      assert.strictEqual(
+        scriptResult.size,
+        TX_OVERHEAD + 40 + 1 + scriptSigSize + 2 * P2PKH_OUTPUT_SIZE,
+      )
+      assert.strictEqual(scriptResult.selected[0], scriptPath)
+    })
+  })
+
+  describe('Failures', () => {
+    it('should skip UTXOs worth less than their spending fee', () => {
+      assert.throws(
+        () => selectCoins([utxo(address, 100), utxo(address, 140)], outputs),
+        (error: CoinSelectionError) =>
+          error instanceof CoinSelectionError && error.available === 0,
+      )
+    })
+
+    it('should throw CoinSelectionError on insufficient funds', () => {
+      assert.throws(
+        () =>
+          selectCoins([utxo(address, 20000), utxo(address, 20000)], outputs),
+        /Insufficient funds/,
+      )
+    })
+
+    it('should respect maxInputs', () => {
+      const pool = [
+        utxo(address, 20000),
+        utxo(address, 20000),
+        utxo(address, 20000),
+      ]
+      assert.ok(selectCoins(pool, outputs))
+      assert.throws(
+        () => selectCoins(pool, outputs, { maxInputs: 2 }),
+        CoinSelectionError,
+      )
+    })
+  })
+
+  describe('Transaction.selectInputs()', () => {
+    it('should fund, sign and verify a transaction', () => {
+      const pool = [
+        utxo(address, 10000),
+        utxo(address, 70000),
+        utxo(address, 40000),
+      ]
+      const tx = new Transaction().to(new PrivateKey().toAddress(), 50000)
+
+      const result = tx.selectInputs(pool, {
+        strategy: 'largest-first',
+        changeAddress: address,
+        feePerByte: 2,
+      })
+      tx.sign(key)
+
+      assert.strictEqual(tx.inputs.length, 1)
+      assert.strictEqual(tx.getFee(), result.fee)
+      assert.strictEqual(tx.getChangeOutput()!.satoshis, result.change)
+      assert.ok(tx.isFullySigned())
+      assert.ok(tx.toBuffer().length <= result.size)
+      assert.ok(tx.serialize())
+
+      const interpreter = new Interpreter()
+      const valid = interpreter.verify(
+        tx.inputs[0].script!,
+        tx.inputs[0].output!.script,
+        tx,
+        0,
+        Interpreter.SCRIPT_VERIFY_STRICTENC |
+          Interpreter.SCRIPT_ENABLE_SIGHASH_FORKID,
+        BigInt(tx.inputs[0].output!.satoshis),
+      )
+      assert.ok(valid, interpreter.errstr)
+    })
+
+    it('should leave excess to the fee when change would be dust', () => {
+      const exact =
+        50000 + TX_OVERHEAD + P2PKH_INPUT_SIZE + P2PKH_OUTPUT_SIZE + 300
+      const tx = new Transaction().to(new PrivateKey().toAddress(), 50000)
+
+      const result = tx.selectInputs([utxo(address, exact)], {
+        changeAddress: address,
+      })
+      assert.strictEqual(result.change, 0)
+      assert.strictEqual(tx.outputs.length, 1)
+      assert.strictEqual(tx.getFee(), exact - 50000)
+    })
+
+    it('should require a transaction without inputs', () => {
+      const tx = new Transaction()
+        .from(utxo(address, 100000))
+        .to(address, 50000)
+      assert.throws(() => tx.selectInputs([utxo(address, 100000)]))
+    })
+  })
+})
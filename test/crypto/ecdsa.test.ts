@@ -0,0 +1,32 @@
+/**
+ * ECDSA Tests
+ *
+ * Covers public key recovery from ECDSA signatures, as used by compact
+ * message signatures.
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import { ECDSA, Hash, PrivateKey } from '../../lib/bitcore/index.js'
+
+describe('ECDSA', () => {
+  describe('Public key recovery', () => {
+    it('should recover the signing key', () => {
+      const key = new PrivateKey(
+        '18e14a7b6a307f426a94f8114701e7c8e774e7f9a47e2c2035db29a206321725',
+      )
+      for (let i = 0; i < 8; i++) {
+        const ecdsa = new ECDSA({
+          hashbuf: Hash.sha256(Buffer.from(`recovery ${i}`)),
+          privkey: key,
+        })
+        ecdsa.sign()
+        ecdsa.calci()
+        assert.strictEqual(
+          ecdsa.toPublicKey().toString(),
+          key.publicKey.toString(),
+        )
+      }
+    })
+  })
+})
@@ -11,6 +11,7 @@ import {
 } from '../../lib/bitcore/musig2/session.js'
 import { Schnorr } from '../../lib/bitcore/crypto/schnorr.js'
 import { BN } from '../../lib/bitcore/crypto/bn.js'
+import { tweakPublicKey } from '../../lib/bitcore/taproot.js'
 
 describe('MuSig2 Session Manager', () => {
   describe('Session Creation', () => {
@@ -685,4 +686,108 @@ describe('MuSig2 Session Manager', () => {
       }, /Cannot generate nonces in phase/)
     })
   })
+
+  describe('Out-of-order messages', () => {
+    /**
+     * Sessions for two signers, each with its own index into the sorted keys
+     */
+    function createSessions(metadata?: Record<string, unknown>) {
+      const keys = [new PrivateKey(), new PrivateKey()]
+      const message = Buffer.alloc(32).fill(0x42)
+      const manager = new MuSigSessionManager()
+      const sessions = keys.map(key =>
+        manager.createSession(
+          keys.map(k => k.publicKey),
+          key,
+          message,
+          metadata,
+        ),
+      )
+      return { keys, message, manager, sessions }
+    }
+
+    it('should aggregate nonces received before its own', () => {
+      const { keys, manager, sessions } = createSessions()
+      const [alice, bob] = sessions
+
+      const bobNonces = manager.generateNonces(bob, keys[1])
+      manager.receiveNonces(alice, bob.myIndex, bobNonces)
+      assert.strictEqual(alice.aggregatedNonce, undefined)
+
+      const aliceNonces = manager.generateNonces(alice, keys[0])
+      manager.receiveNonces(bob, alice.myIndex, aliceNonces)
+
+      const [aliceAggNonce, bobAggNonce] = sessions.map(
+        session => session.aggregatedNonce!,
+      )
+      assert.ok(aliceAggNonce.R1.eq(bobAggNonce.R1))
+      assert.ok(aliceAggNonce.R2.eq(bobAggNonce.R2))
+    })
+
+    it('should finalize when partial signatures arrive before its own', () => {
+      const { keys, message, manager, sessions } = createSessions()
+      const [alice, bob] = sessions
+      const aliceNonces = manager.generateNonces(alice, keys[0])
+      const bobNonces = manager.generateNonces(bob, keys[1])
+      manager.receiveNonces(alice, bob.myIndex, bobNonces)
+      manager.receiveNonces(bob, alice.myIndex, aliceNonces)
+      // As MuSig2P2PCoordinator does once all nonces are in
+      alice.phase = MuSigSessionPhase.PARTIAL_SIG_EXCHANGE
+
+      const bobPartialSig = manager.createPartialSignature(bob, keys[1])
+      manager.receivePartialSignature(alice, bob.myIndex, bobPartialSig)
+      assert.strictEqual(alice.finalSignature, undefined)
+
+      const alicePartialSig = manager.createPartialSignature(alice, keys[0])
+      assert.ok(alice.finalSignature)
+
+      manager.receivePartialSignature(bob, alice.myIndex, alicePartialSig)
+      assert.strictEqual(
+        manager.getFinalSignature(bob).toString(),
+        manager.getFinalSignature(alice).toString(),
+      )
+      assert.ok(
+        Schnorr.verify(
+          message,
+          alice.finalSignature,
+          alice.keyAggContext.aggregatedPubKey,
+          'big',
+        ),
+      )
+    })
+
+    it('should sign Taproot sessions for the tweaked key', () => {
+      const merkleRoot = Buffer.alloc(32).fill(0x07)
+      for (const metadata of [
+        { inputScriptType: 'taproot' },
+        {
+          inputScriptType: 'taproot',
+          taprootMerkleRoot: merkleRoot.toString('hex'),
+        },
+      ]) {
+        const { keys, message, manager, sessions } = createSessions(metadata)
+        const [alice, bob] = sessions
+        const aliceNonces = manager.generateNonces(alice, keys[0])
+        const bobNonces = manager.generateNonces(bob, keys[1])
+        manager.receiveNonces(alice, bob.myIndex, bobNonces)
+        manager.receiveNonces(bob, alice.myIndex, aliceNonces)
+
+        // Each side verifies the other's partial signature against the
+        // tweaked key before accepting it
+        const alicePartialSig = manager.createPartialSignature(alice, keys[0])
+        const bobPartialSig = manager.createPartialSignature(bob, keys[1])
+        manager.receivePartialSignature(alice, bob.myIndex, bobPartialSig)
+        manager.receivePartialSignature(bob, alice.myIndex, alicePartialSig)
+
+        const aggregatedPubKey = alice.keyAggContext.aggregatedPubKey
+        const commitment = tweakPublicKey(
+          aggregatedPubKey,
+          metadata.taprootMerkleRoot ? merkleRoot : Buffer.alloc(32),
+        )
+        const signature = manager.getFinalSignature(alice)
+        assert.ok(Schnorr.verify(message, signature, commitment, 'big'))
+        assert.ok(!Schnorr.verify(message, signature, aggregatedPubKey, 'big'))
+      }
+    })
+  })
 })
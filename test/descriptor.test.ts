@@ -0,0 +1,230 @@
+/**
+ * Output Descriptor Tests
+ *
+ * Covers checksums, key expressions, each script expression and range
+ * derivation of scripts and addresses.
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import {
+  Address,
+  Descriptor,
+  DescriptorError,
+  descriptorChecksum,
+  HDPrivateKey,
+  PrivateKey,
+  Script,
+  XAddress,
+  buildKeyPathTaproot,
+  buildScriptPathTaproot,
+  musigKeyAgg,
+} from '../lib/bitcore/index.js'
+
+const SEED = '000102030405060708090a0b0c0d0e0f'
+
+describe('Descriptor', () => {
+  const root = HDPrivateKey.fromSeed(SEED)
+  const account = root.deriveChild("m/44'/10605'/0'")
+  const xprv = account.toString()
+  const xpub = account.hdPublicKey.toString()
+
+  describe('Checksum', () => {
+    it('should match the BIP380 test vector', () => {
+      assert.strictEqual(descriptorChecksum('raw(deadbeef)'), '89f8spxm')
+    })
+
+    it('should verify checksums when present', () => {
+      assert.ok(Descriptor.parse('raw(deadbeef)#89f8spxm'))
+      assert.throws(
+        () => Descriptor.parse('raw(deadbeef)#89f8spxn'),
+        DescriptorError,
+      )
+      assert.throws(
+        () => Descriptor.parse('raw(deadbeef)', { requireChecksum: true }),
+        /missing/,
+      )
+    })
+
+    it('should round-trip through toString', () => {
+      const desc = Descriptor.parse(`pkh(${xpub}/0/*)`)
+      const str = desc.toString()
+      assert.strictEqual(str, `pkh(${xpub}/0/*)#${desc.checksum}`)
+      assert.strictEqual(Descriptor.parse(str).toString(), str)
+    })
+  })
+
+  describe('Key expressions', () => {
+    it('should derive ranged xpub keys', () => {
+      const desc = Descriptor.parse(`pkh(${xpub}/0/*)`)
+      assert.ok(desc.isRange())
+      assert.strictEqual(desc.network.name, 'livenet')
+
+      for (let i = 0; i < 3; i++) {
+        const pubkey = account.deriveChild(0).deriveChild(i).publicKey
+        assert.strictEqual(
+          desc.getScript(i).toHex(),
+          Script.buildPublicKeyHashOut(pubkey).toHex(),
+        )
+      }
+    })
+
+    it('should derive hardened steps from an xprv and hide it by default', () => {
+      const desc = Descriptor.parse(`pk([00112233/44h/10605'/0']${xprv}/1'/*h)`)
+      assert.ok(desc.hasPrivateKeys())
+      const pubkey = account.deriveChild(1, true).deriveChild(5, true).publicKey
+      assert.strictEqual(
+        desc.getScript(5).toHex(),
+        Script.buildPublicKeyOut(pubkey).toHex(),
+      )
+      assert.ok(desc.toString().includes(`[00112233/44'/10605'/0']${xpub}`))
+      assert.ok(desc.toString(true).includes(xprv))
+    })
+
+    it('should accept hex public keys and WIF private keys', () => {
+      const key = new PrivateKey()
+      const fromHex = Descriptor.parse(`pkh(${key.publicKey.toString()})`)
+      const fromWIF = Descriptor.parse(`pkh(${key.toWIF()})`)
+      assert.ok(!fromHex.isRange())
+      assert.strictEqual(
+        fromHex.getScript().toHex(),
+        fromWIF.getScript().toHex(),
+      )
+      assert.strictEqual(fromWIF.toString(), fromHex.toString())
+    })
+
+    it('should reject invalid key expressions', () => {
+      const pubkey = new PrivateKey().publicKey.toString()
+      for (const bad of [
+        `pkh(${xpub}/0'/*)`,
+        `pkh(${pubkey}/0)`,
+        `pkh(${pubkey.slice(2)})`,
+        `pkh(musig(${pubkey},${pubkey}))`,
+        `pkh([0011/0]${pubkey})`,
+      ]) {
+        assert.throws(() => Descriptor.parse(bad), DescriptorError, bad)
+      }
+    })
+  })
+
+  describe('Script expressions', () => {
+    const keys = [new PrivateKey(), new PrivateKey(), new PrivateKey()]
+    const pubkeys = keys.map(k => k.publicKey)
+    const hex = pubkeys.map(p => p.toString())
+
+    it('should build sh(multi()) in descriptor key order', () => {
+      const desc = Descriptor.parse(`sh(multi(2,${hex.join(',')}))`)
+      const redeem = Script.buildMultisigOut(pubkeys, 2, { noSorting: true })
+      const expansion = desc.expand()
+      assert.strictEqual(expansion.redeemScript!.toHex(), redeem.toHex())
+      assert.strictEqual(
+        desc.getAddress().toString(),
+        Address.payingTo(redeem).toString(),
+      )
+    })
+
+    it('should build sh(sortedmulti()) independent of key order', () => {
+      const a = Descriptor.parse(`sh(sortedmulti(2,${hex.join(',')}))`)
+      const b = Descriptor.parse(
+        `sh(sortedmulti(2,${[...hex].reverse().join(',')}))`,
+      )
+      assert.strictEqual(a.getScript().toHex(), b.getScript().toHex())
+      assert.ok(a.getScript().isScriptHashOut())
+    })
+
+    it('should reject invalid multisig thresholds', () => {
+      assert.throws(
+        () => Descriptor.parse(`multi(4,${hex.join(',')})`),
+        /threshold/,
+      )
+      assert.throws(() => Descriptor.parse(`multi(0,${hex[0]})`), /threshold/)
+    })
+
+    it('should build key path only tr()', () => {
+      const desc = Descriptor.parse(`tr(${hex[0]})`)
+      const script = buildKeyPathTaproot(pubkeys[0])
+      assert.strictEqual(desc.getScript().toHex(), script.toHex())
+      assert.ok(desc.getAddress().isPayToTaproot())
+    })
+
+    it('should build tr() with a script tree', () => {
+      const desc = Descriptor.parse(
+        `tr(${hex[0]},{pk(${hex[1]}),{pkh(${hex[2]}),pk(${hex[0]})}})`,
+      )
+      const tree = {
+        left: { script: Script.buildPublicKeyOut(pubkeys[1]) },
+        right: {
+          left: { script: Script.buildPublicKeyHashOut(pubkeys[2]) },
+          right: { script: Script.buildPublicKeyOut(pubkeys[0]) },
+        },
+      }
+      const expected = buildScriptPathTaproot(pubkeys[0], tree)
+
+      const expansion = desc.expand()
+      assert.strictEqual(expansion.script.toHex(), expected.script.toHex())
+      assert.ok(expansion.merkleRoot!.equals(expected.merkleRoot))
+      assert.strictEqual(expansion.leaves!.length, 3)
+      assert.strictEqual(expansion.publicKeys.length, 4)
+    })
+
+    it('should aggregate musig() keys in tr()', () => {
+      const desc = Descriptor.parse(
+        `tr(musig(${hex[0]},${hex[1]}),pk(musig(${hex[1]},${hex[2]})))`,
+      )
+      const internal = musigKeyAgg([pubkeys[0], pubkeys[1]]).aggregatedPubKey
+      const leaf = musigKeyAgg([pubkeys[1], pubkeys[2]]).aggregatedPubKey
+      const expected = buildScriptPathTaproot(internal, {
+        script: Script.buildPublicKeyOut(leaf),
+      })
+      assert.strictEqual(desc.getScript().toHex(), expected.script.toHex())
+    })
+
+    it('should only allow sh() and tr() at the top level', () => {
+      assert.throws(() => Descriptor.parse(`sh(sh(pkh(${hex[0]})))`), /top/)
+      assert.throws(() => Descriptor.parse(`sh(tr(${hex[0]}))`), /top/)
+      assert.throws(() => Descriptor.parse('foo(00)'), /Unknown/)
+    })
+
+    it('should parse addr() and raw()', () => {
+      const address = keys[0].toAddress()
+      const desc = Descriptor.parse(`addr(${address.toString()})`)
+      assert.strictEqual(desc.getAddress().toString(), address.toString())
+      assert.strictEqual(
+        desc.getScript().toHex(),
+        Script.fromAddress(address).toHex(),
+      )
+      assert.throws(() => Descriptor.parse('raw(deadbeef)').getAddress(), {
+        name: 'DescriptorError',
+      })
+    })
+  })
+
+  describe('Ranges', () => {
+    it('should derive ranges of scripts, addresses and XAddresses', () => {
+      const desc = Descriptor.parse(`tr(${xpub}/0/*)`)
+      const scripts = desc.getScripts(0, 5)
+      const addresses = desc.getAddresses(0, 5, 'testnet')
+      const xaddresses = desc.getXAddresses(0, 5)
+
+      assert.strictEqual(new Set(scripts.map(s => s.toHex())).size, 5)
+      for (let i = 0; i < 5; i++) {
+        assert.strictEqual(addresses[i].network.name, 'testnet')
+        assert.strictEqual(
+          Script.fromAddress(addresses[i]).toHex(),
+          scripts[i].toHex(),
+        )
+        assert.ok(xaddresses[i] instanceof XAddress)
+        assert.strictEqual(
+          xaddresses[i].toString(),
+          desc.getAddress(i).toXAddress(),
+        )
+      }
+    })
+
+    it('should reject ranges on non-range descriptors', () => {
+      const desc = Descriptor.parse(`pkh(${xpub}/0/0)`)
+      assert.strictEqual(desc.getScripts(0, 1).length, 1)
+      assert.throws(() => desc.getScripts(0, 2), /not ranged/)
+    })
+  })
+})
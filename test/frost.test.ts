@@ -0,0 +1,426 @@
+/**
+ * FROST Threshold Signature Tests
+ *
+ * Covers distributed key generation, signing with different signing sets,
+ * identifiable aborts and Taproot key-path spends with FrostSigner.
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import {
+  BN,
+  FrostError,
+  FrostSigner,
+  Hash,
+  Point,
+  PrivateKey,
+  Schnorr,
+  Script,
+  Signature,
+  Transaction,
+  buildFrostTaprootKey,
+  createFrostTaprootAddress,
+  frostDkgFinalize,
+  frostDkgRound1,
+  frostDkgRound2,
+  frostLagrangeCoefficient,
+  frostNonceGen,
+  frostPartialSign,
+  frostSigAgg,
+  frostVerifyDkgCommitment,
+  frostVerifyDkgShare,
+  type FrostDkgSecret,
+  type FrostKeyShare,
+} from '../lib/bitcore/index.js'
+
+const context = Hash.sha256(Buffer.from('frost test'))
+
+/**
+ * Run a DKG ceremony between all participants
+ */
+function runDkg(
+  threshold: number,
+  maxSigners: number,
+): { secrets: FrostDkgSecret[]; keyShares: FrostKeyShare[] } {
+  const secrets = Array.from({ length: maxSigners }, (_, i) =>
+    frostDkgRound1(i + 1, threshold, maxSigners, context),
+  )
+  const sent = secrets.map(secret => frostDkgRound2(secret))
+  const keyShares = secrets.map(secret => {
+    const received = new Map<number, BN>()
+    for (const sender of secrets) {
+      if (sender !== secret) {
+        received.set(
+          sender.participantIndex,
+          sent[sender.participantIndex - 1].get(secret.participantIndex)!,
+        )
+      }
+    }
+    return frostDkgFinalize(
+      secret,
+      secrets.filter(s => s !== secret).map(s => s.commitment),
+      received,
+    )
+  })
+  return { secrets, keyShares }
+}
+
+/**
+ * Sign a message with the given signing set
+ */
+function signWith(
+  signers: FrostKeyShare[],
+  message: Buffer,
+  tweak?: Buffer,
+): Signature {
+  const nonces = signers.map(keyShare => frostNonceGen(keyShare, message))
+  const commitments = nonces.map(nonce => nonce.commitment)
+  const partialSigs = new Map(
+    signers.map((keyShare, i) => [
+      keyShare.participantIndex,
+      frostPartialSign(nonces[i], keyShare, commitments, message, tweak),
+    ]),
+  )
+  return frostSigAgg(partialSigs, commitments, message, signers[0], tweak)
+}
+
+// 3-of-5 group shared by the signing tests
+const { secrets, keyShares } = runDkg(3, 5)
+const groupPublicKey = keyShares[0].groupPublicKey
+const message = Hash.sha256(Buffer.from('FROST signing'))
+
+describe('FROST', () => {
+  describe('Distributed key generation', () => {
+    it('should give every participant the same group key and verification shares', () => {
+      for (const keyShare of keyShares) {
+        assert.strictEqual(
+          keyShare.groupPublicKey.toString(),
+          groupPublicKey.toString(),
+        )
+        assert.strictEqual(keyShare.threshold, 3)
+        assert.strictEqual(keyShare.maxSigners, 5)
+        for (const other of keyShares) {
+          assert.ok(
+            keyShare.verificationShares
+              .get(other.participantIndex)!
+              .eq(Point.getG().mul(other.secretShare)),
+          )
+        }
+      }
+    })
+
+    it('should interpolate the group secret from any threshold of shares', () => {
+      const n = Point.getN()
+      const groupSecret = secrets
+        .reduce((sum, secret) => sum.add(secret.coefficients[0]), new BN(0))
+        .umod(n)
+      assert.ok(Point.getG().mul(groupSecret).eq(groupPublicKey.point))
+
+      for (const indices of [
+        [1, 2, 3],
+        [2, 4, 5],
+        [1, 3, 5],
+      ]) {
+        const interpolated = indices
+          .reduce(
+            (sum, index) =>
+              sum.add(
+                frostLagrangeCoefficient(index, indices).mul(
+                  keyShares[index - 1].secretShare,
+                ),
+              ),
+            new BN(0),
+          )
+          .umod(n)
+        assert.ok(interpolated.eq(groupSecret))
+      }
+    })
+
+    it('should verify round 1 packages against the ceremony context', () => {
+      const { commitment } = secrets[0]
+      assert.strictEqual(frostVerifyDkgCommitment(commitment, 3, context), true)
+      assert.strictEqual(
+        frostVerifyDkgCommitment(
+          commitment,
+          3,
+          Hash.sha256(Buffer.from('other ceremony')),
+        ),
+        false,
+      )
+      assert.strictEqual(
+        frostVerifyDkgCommitment(commitment, 2, context),
+        false,
+      )
+    })
+
+    it('should name the participant that sent an invalid share', () => {
+      const ceremony = Array.from({ length: 3 }, (_, i) =>
+        frostDkgRound1(i + 1, 2, 3, context),
+      )
+      const shareFor1 = (sender: FrostDkgSecret) =>
+        frostDkgRound2(sender).get(1)!
+      const badShare = shareFor1(ceremony[2]).add(new BN(1))
+      assert.strictEqual(
+        frostVerifyDkgShare(badShare, 1, ceremony[2].commitment),
+        false,
+      )
+
+      assert.throws(
+        () =>
+          frostDkgFinalize(
+            ceremony[0],
+            ceremony.slice(1).map(s => s.commitment),
+            new Map([
+              [2, shareFor1(ceremony[1])],
+              [3, badShare],
+            ]),
+          ),
+        (error: unknown) =>
+          error instanceof FrostError &&
+          error.culprits.length === 1 &&
+          error.culprits[0] === 3,
+      )
+    })
+
+    it('should only accept one package and share from each peer', () => {
+      const ceremony = Array.from({ length: 3 }, (_, i) =>
+        frostDkgRound1(i + 1, 2, 3, context),
+      )
+      const [own, ...peers] = ceremony
+      const commitments = peers.map(s => s.commitment)
+      const shares = new Map(
+        peers.map(s => [s.participantIndex, frostDkgRound2(s).get(1)!]),
+      )
+      assert.ok(frostDkgFinalize(own, commitments, shares))
+
+      // A fourth participant, at an out of range index, or as this one
+      const extra = frostDkgRound1(4, 2, 4, context)
+      for (const commitment of [
+        extra.commitment,
+        { ...extra.commitment, participantIndex: 0 },
+        own.commitment,
+        peers[0].commitment,
+      ]) {
+        assert.throws(
+          () => frostDkgFinalize(own, [...commitments, commitment], shares),
+          /Unexpected or duplicate DKG package/,
+        )
+      }
+      for (const index of [0, 1, 4, 2.5]) {
+        assert.throws(
+          () =>
+            frostDkgFinalize(
+              own,
+              commitments,
+              new Map([...shares, [index, new BN(1)]]),
+            ),
+          /Unexpected DKG share/,
+        )
+      }
+
+      // Missing entries name the peer
+      assert.throws(
+        () => frostDkgFinalize(own, commitments.slice(1), shares),
+        (error: unknown) =>
+          error instanceof FrostError &&
+          error.culprits.length === 1 &&
+          error.culprits[0] === 2,
+      )
+    })
+
+    it('should reject invalid threshold parameters', () => {
+      assert.throws(() => frostDkgRound1(1, 0, 3, context))
+      assert.throws(() => frostDkgRound1(1, 4, 3, context))
+      assert.throws(() => frostDkgRound1(4, 2, 3, context))
+    })
+  })
+
+  describe('Signing', () => {
+    it('should produce valid signatures with different signing sets', () => {
+      for (const indices of [
+        [1, 2, 3],
+        [2, 4, 5],
+        [1, 2, 3, 4, 5],
+      ]) {
+        const signature = signWith(
+          indices.map(index => keyShares[index - 1]),
+          message,
+        )
+        assert.strictEqual(
+          Schnorr.verify(message, signature, groupPublicKey, 'big'),
+          true,
+          `signing set ${indices}`,
+        )
+      }
+    })
+
+    it('should sign for the tweaked key when given a tweak', () => {
+      const tweak = Hash.sha256(Buffer.from('tweak'))
+      const signature = signWith(
+        [keyShares[0], keyShares[4], keyShares[2]],
+        message,
+        tweak,
+      )
+      assert.strictEqual(
+        Schnorr.verify(
+          message,
+          signature,
+          groupPublicKey.addScalar(tweak),
+          'big',
+        ),
+        true,
+      )
+      assert.strictEqual(
+        Schnorr.verify(message, signature, groupPublicKey, 'big'),
+        false,
+      )
+    })
+
+    it('should name the signers of invalid partial signatures', () => {
+      const signers = [keyShares[0], keyShares[1], keyShares[3]]
+      const nonces = signers.map(keyShare => frostNonceGen(keyShare, message))
+      const commitments = nonces.map(nonce => nonce.commitment)
+      const partialSigs = new Map(
+        signers.map((keyShare, i) => [
+          keyShare.participantIndex,
+          frostPartialSign(nonces[i], keyShare, commitments, message),
+        ]),
+      )
+      partialSigs.set(4, partialSigs.get(4)!.add(new BN(1)))
+
+      assert.throws(
+        () => frostSigAgg(partialSigs, commitments, message, keyShares[0]),
+        (error: unknown) =>
+          error instanceof FrostError &&
+          error.culprits.length === 1 &&
+          error.culprits[0] === 4,
+      )
+    })
+
+    it('should refuse to sign with fewer than threshold signers', () => {
+      const signers = [keyShares[0], keyShares[1]]
+      const nonces = signers.map(keyShare => frostNonceGen(keyShare, message))
+      const commitments = nonces.map(nonce => nonce.commitment)
+      assert.throws(() =>
+        frostPartialSign(nonces[0], signers[0], commitments, message),
+      )
+    })
+  })
+
+  describe('Taproot key path', () => {
+    it('should create a Taproot address for the group key', () => {
+      const taproot = buildFrostTaprootKey(groupPublicKey)
+      assert.ok(taproot.script.isPayToTaproot())
+      assert.ok(
+        taproot.commitment.point.eq(
+          groupPublicKey.addScalar(taproot.tweak).point,
+        ),
+      )
+
+      const { address } = createFrostTaprootAddress(groupPublicKey, 'testnet')
+      assert.ok(address.toString().length > 0)
+    })
+
+    it('should spend a FROST Taproot output with FrostSigner', () => {
+      const signers = [keyShares[1], keyShares[2], keyShares[4]].map(
+        keyShare => new FrostSigner({ keyShare }),
+      )
+      const taproot = signers[0].prepareTaproot()
+      const amount = 100000
+
+      const tx = new Transaction()
+        .from({
+          txId: '33'.repeat(32),
+          outputIndex: 0,
+          script: taproot.script,
+          satoshis: amount,
+        })
+        .to(new PrivateKey().toAddress(), amount - 1000)
+
+      const nonces = signers.map(signer => signer.prepare())
+      const commitments = nonces.map(nonce => nonce.commitment)
+      const partialSigs = new Map(
+        signers.map((signer, i) => [
+          signer.participantIndex,
+          signer.signTaprootInput(
+            taproot,
+            nonces[i],
+            commitments,
+            tx,
+            0,
+            amount,
+          ),
+        ]),
+      )
+      const signature = signers[0].completeTaprootSigning(
+        taproot,
+        commitments,
+        partialSigs,
+        tx,
+        0,
+        amount,
+      )
+
+      tx.inputs[0].setScript(new Script().add(signature.toTxFormat('schnorr')))
+      assert.strictEqual(tx.verifyScripts().valid, true)
+    })
+
+    it('should refuse to reuse a nonce', () => {
+      const signer = new FrostSigner({ keyShare: keyShares[0] })
+      const others = [keyShares[1], keyShares[2]]
+      const nonce = signer.prepare(message)
+      const commitments = [
+        nonce.commitment,
+        ...others.map(keyShare => frostNonceGen(keyShare, message).commitment),
+      ]
+
+      signer.createPartialSignature(nonce, commitments, message)
+      assert.throws(
+        () => signer.createPartialSignature(nonce, commitments, message),
+        /nonce already used/,
+      )
+    })
+
+    it('should draw fresh nonces on every prepare() call', () => {
+      const signer = new FrostSigner({ keyShare: keyShares[0] })
+      const first = signer.prepare(message).commitment
+      const second = signer.prepare(message).commitment
+      assert.ok(!first.hiding.eq(second.hiding))
+      assert.ok(!first.binding.eq(second.binding))
+
+      // Extra input is mixed in alongside the randomness, not instead of it
+      const extraInput = Buffer.alloc(32, 0x01)
+      const [third, fourth] = [0, 1].map(
+        () => frostNonceGen(keyShares[0], message, extraInput).commitment,
+      )
+      assert.ok(!third.hiding.eq(fourth.hiding))
+      assert.ok(!third.binding.eq(fourth.binding))
+    })
+
+    it('should reject sighash types without SIGHASH_LOTUS', () => {
+      const signer = new FrostSigner({ keyShare: keyShares[0] })
+      const taproot = signer.prepareTaproot()
+      const tx = new Transaction()
+        .from({
+          txId: '44'.repeat(32),
+          outputIndex: 0,
+          script: taproot.script,
+          satoshis: 50000,
+        })
+        .to(new PrivateKey().toAddress(), 49000)
+      const nonce = signer.prepare()
+
+      assert.throws(() =>
+        signer.signTaprootInput(
+          taproot,
+          nonce,
+          [nonce.commitment],
+          tx,
+          0,
+          50000,
+          Signature.SIGHASH_ALL,
+        ),
+      )
+    })
+  })
+})
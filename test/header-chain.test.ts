@@ -0,0 +1,323 @@
+/**
+ * Header Chain Tests
+ *
+ * Covers header validation and connection, the ASERT difficulty rule,
+ * reorganizations to the most-work chain and SPV merkle proofs.
+ */
+
+import { describe, it, beforeEach } from 'node:test'
+import assert from 'node:assert'
+import {
+  BN,
+  Block,
+  BlockHeader,
+  BufferUtil,
+  HeaderChain,
+  HeaderChainError,
+  LOTUS_TARGET_SPACING,
+  ASERT_HALF_LIFE,
+  Output,
+  Script,
+  Transaction,
+  type DifficultyRule,
+  type HeaderChainOptions,
+} from '../lib/bitcore/index.js'
+
+// Regtest-like target: about every other hash is a valid proof of work
+const EASY_BITS = 0x207fffff
+const GENESIS_TIME = 1_700_000_000
+
+/**
+ * Mine a header on top of its parent
+ */
+function mine(
+  parent: BlockHeader,
+  options: {
+    time?: number
+    bits?: number
+    merkleRoot?: Buffer
+    height?: number
+  } = {},
+): BlockHeader {
+  const header = new BlockHeader({
+    prevHash: BufferUtil.reverse(Buffer.from(parent.hash, 'hex')),
+    bits: options.bits ?? EASY_BITS,
+    time: options.time ?? parent.time + LOTUS_TARGET_SPACING,
+    height: options.height ?? parent.height + 1,
+    merkleRoot: options.merkleRoot,
+  })
+  for (let nonce = 0; ; nonce++) {
+    const candidate = new BlockHeader({ ...header, nonce: new BN(nonce) })
+    if (candidate.validProofOfWork()) {
+      return candidate
+    }
+  }
+}
+
+/**
+ * Mine a chain of headers on top of a parent
+ */
+function mineChain(parent: BlockHeader, length: number): BlockHeader[] {
+  const headers: BlockHeader[] = []
+  for (let i = 0; i < length; i++) {
+    headers.push(mine(headers[i - 1] ?? parent))
+  }
+  return headers
+}
+
+describe('HeaderChain', () => {
+  let genesis: BlockHeader
+  let rule: DifficultyRule
+  let chain: HeaderChain
+
+  beforeEach(() => {
+    genesis = new BlockHeader({ bits: EASY_BITS, time: GENESIS_TIME })
+    rule = HeaderChain.asertRule(
+      {
+        height: 0,
+        bits: EASY_BITS,
+        parentTime: GENESIS_TIME - LOTUS_TARGET_SPACING,
+      },
+      EASY_BITS,
+    )
+    chain = new HeaderChain(genesis, { difficultyRule: rule })
+  })
+
+  describe('Connecting headers', () => {
+    it('should connect headers and track the tip', () => {
+      const headers = mineChain(genesis, 5)
+      const updates = chain.addHeaders(headers.map(header => header.toBuffer()))
+
+      assert.ok(updates.every(update => update.added))
+      assert.strictEqual(chain.height, 5)
+      assert.strictEqual(chain.tip.hash, headers[4].hash)
+      assert.strictEqual(chain.getEntryAt(2)!.hash, headers[1].hash)
+      assert.strictEqual(chain.getConfirmations(headers[1].hash), 4)
+      assert.strictEqual(
+        chain.tip.chainWork,
+        HeaderChain.getWork(EASY_BITS) * 6n,
+      )
+      assert.strictEqual(chain.add(headers[2]).added, false)
+    })
+
+    it('should reject headers that do not extend a known header', () => {
+      const [first] = mineChain(genesis, 1)
+      const orphan = mine(first)
+      assert.throws(() => chain.add(orphan), HeaderChainError)
+      assert.throws(() => chain.add(orphan), /unknown parent/)
+    })
+
+    it('should reject height gaps, early timestamps and bad work', () => {
+      assert.throws(
+        () => chain.add(mine(genesis, { height: 2 })),
+        /has height 2, expected 1/,
+      )
+      assert.throws(
+        () => chain.add(mine(genesis, { time: GENESIS_TIME })),
+        /median time/,
+      )
+      assert.throws(
+        () => chain.add(mine(genesis, { bits: 0x207ffffe })),
+        /has bits 0x207ffffe, expected 0x207fffff/,
+      )
+
+      let header = mine(genesis)
+      for (let nonce = 0; header.validProofOfWork(); nonce++) {
+        header = new BlockHeader({ ...mine(genesis), nonce: new BN(nonce) })
+      }
+      assert.throws(() => chain.add(header), /invalid proof of work/)
+    })
+
+    it('should require a difficulty rule', () => {
+      assert.throws(
+        () => new HeaderChain(genesis, {} as HeaderChainOptions),
+        /difficulty rule is required/,
+      )
+    })
+  })
+
+  // Only isolated mainnet headers are available as test data, so no run of
+  // real headers is connected here
+  describe('Lotus mainnet headers', () => {
+    // Block 15290, from @abcpros/bitcore-lib-xpi's test/data/merkleblocks.js
+    const BLOCK_15290 =
+      '4f0bfafc3e3ab70f3e8741c7b74d068298f0ed33c86d9b7dd0b0390000000000' +
+      '20223e1b2218dc6000000000183422810c648bcb01a5030000000000ba3b0000' +
+      '63a3214bb079b14a6a30e47febaa0ecbe4ee557aa8992980ee37010000000000' +
+      '7bc0e12a069b62f53acc37c9b911dddfb0860cf8af11fe0aa7c859e1fd05d88f' +
+      '1406e05881e299367766d313e26c05564ec91bf721d31726bd6e46e60689539a'
+
+    it('should root a chain at a real header', () => {
+      const root = new HeaderChain(BLOCK_15290, {
+        difficultyRule: HeaderChain.fixedRule(),
+      }).root
+      assert.strictEqual(
+        root.hash,
+        '0000000000388126659ce43a6933bf0a10e63847489df8be552ec77b8f229839',
+      )
+      assert.strictEqual(root.height, 15290)
+      assert.strictEqual(root.header.bits, 0x1b3e2220)
+      assert.ok(root.header.validProofOfWork())
+      assert.strictEqual(root.chainWork, HeaderChain.getWork(0x1b3e2220))
+    })
+  })
+
+  describe('Difficulty', () => {
+    const ANCHOR = { height: 100, bits: 0x1c7fff80, parentTime: 1_000_000 }
+    const POW_LIMIT = 0x1d00ffff
+    const parentAt = (height: number, time: number) => ({
+      header: new BlockHeader({ time, height }),
+      hash: '',
+      height,
+      chainWork: 0n,
+    })
+
+    it('should keep the anchor target on schedule', () => {
+      const asert = HeaderChain.asertRule(ANCHOR, POW_LIMIT)
+      const onSchedule = ANCHOR.parentTime + 11 * LOTUS_TARGET_SPACING
+      assert.strictEqual(
+        asert(parentAt(110, onSchedule), new BlockHeader()),
+        ANCHOR.bits,
+      )
+    })
+
+    it('should halve or double the target per half-life of drift', () => {
+      const asert = HeaderChain.asertRule(ANCHOR, POW_LIMIT)
+      const onSchedule = ANCHOR.parentTime + 11 * LOTUS_TARGET_SPACING
+      const target = HeaderChain.bitsToTarget(ANCHOR.bits)
+
+      const early = asert(
+        parentAt(110, onSchedule - ASERT_HALF_LIFE),
+        new BlockHeader(),
+      )
+      assert.strictEqual(HeaderChain.bitsToTarget(early), target / 2n)
+      const late = asert(
+        parentAt(110, onSchedule + ASERT_HALF_LIFE),
+        new BlockHeader(),
+      )
+      assert.strictEqual(HeaderChain.bitsToTarget(late), target * 2n)
+
+      // Slightly late blocks ease the target a little
+      const lateBits = asert(parentAt(110, onSchedule + 600), new BlockHeader())
+      assert.ok(HeaderChain.bitsToTarget(lateBits) > target)
+      assert.ok(HeaderChain.bitsToTarget(lateBits) < target * 2n)
+    })
+
+    it('should never exceed the proof of work limit', () => {
+      const asert = HeaderChain.asertRule(ANCHOR, ANCHOR.bits)
+      assert.strictEqual(
+        asert(parentAt(110, ANCHOR.parentTime + 10 ** 8), new BlockHeader()),
+        ANCHOR.bits,
+      )
+    })
+
+    it('should convert between bits and targets', () => {
+      for (const bits of [0x1d00ffff, 0x1c0fffff, 0x207fffff, 0x1b0404cb]) {
+        assert.strictEqual(
+          HeaderChain.targetToBits(HeaderChain.bitsToTarget(bits)),
+          bits,
+        )
+      }
+      assert.strictEqual(HeaderChain.bitsToTarget(0x1d00ffff), 0xffffn << 208n)
+      // Targets with the mantissa sign bit set gain an exponent byte
+      assert.strictEqual(HeaderChain.targetToBits(0x80n), 0x02008000)
+    })
+  })
+
+  describe('Reorganizations', () => {
+    it('should switch to the branch with the most work', () => {
+      const main = mineChain(genesis, 3)
+      chain.addHeaders(main)
+
+      // Extend genesis with a competing branch at a later time, so its
+      // hashes differ from the main chain's
+      const branch: BlockHeader[] = []
+      for (let i = 0; i < 4; i++) {
+        const parent = branch[i - 1] ?? genesis
+        branch.push(mine(parent, { time: parent.time + 121 }))
+      }
+
+      // Equal work keeps the first-seen tip
+      const updates = chain.addHeaders(branch.slice(0, 3))
+      assert.ok(updates.every(update => update.connected.length === 0))
+      assert.strictEqual(chain.tip.hash, main[2].hash)
+      assert.ok(!chain.isInMainChain(branch[2].hash))
+
+      const reorg = chain.add(branch[3])
+      assert.deepStrictEqual(
+        reorg.disconnected.map(entry => entry.hash),
+        [main[2].hash, main[1].hash, main[0].hash],
+      )
+      assert.deepStrictEqual(
+        reorg.connected.map(entry => entry.hash),
+        branch.map(header => header.hash),
+      )
+      assert.strictEqual(chain.tip.hash, branch[3].hash)
+      assert.strictEqual(chain.getConfirmations(main[0].hash), 0)
+      assert.strictEqual(chain.getEntryAt(1)!.hash, branch[0].hash)
+    })
+  })
+
+  describe('SPV proofs', () => {
+    function buildBlock(parent: BlockHeader, count: number): Block {
+      const transactions = Array.from({ length: count }, (_, i) =>
+        new Transaction().addOutput(
+          new Output({
+            script: Script.buildDataOut(`tx ${parent.height} ${i}`),
+            satoshis: 0,
+          }),
+        ),
+      )
+      const block = new Block({ transactions })
+      block.header = mine(parent, { merkleRoot: block.getMerkleRoot() })
+      return block
+    }
+
+    it('should prove every transaction of a block', () => {
+      for (const count of [1, 2, 5, 8]) {
+        const block = buildBlock(genesis, count)
+        assert.ok(block.validMerkleRoot())
+        block.transactions.forEach((tx, index) => {
+          const proof = block.getMerkleProof(tx.id)
+          assert.strictEqual(proof.index, index)
+          assert.ok(Block.verifyMerkleProof(proof, block.header))
+        })
+      }
+    })
+
+    it('should reject tampered proofs', () => {
+      const block = buildBlock(genesis, 5)
+      const proof = block.getMerkleProof(block.transactions[3].id)
+      assert.ok(!Block.verifyMerkleProof({ ...proof, index: 2 }, block.header))
+      assert.ok(
+        !Block.verifyMerkleProof(
+          { ...proof, txid: block.transactions[2].id },
+          block.header,
+        ),
+      )
+      assert.ok(
+        !Block.verifyMerkleProof(
+          { ...proof, branch: [...proof.branch].reverse() },
+          block.header,
+        ),
+      )
+      assert.throws(() => block.getMerkleProof('00'.repeat(32)), /not in block/)
+    })
+
+    it('should only accept proofs for main chain blocks', () => {
+      const block = buildBlock(genesis, 3)
+      chain.add(block.header)
+      const proof = block.getMerkleProof(block.transactions[1].id)
+      assert.ok(chain.verifyMerkleProof(proof))
+
+      // A heavier branch without the block reorganizes it away
+      let parent = genesis
+      for (let i = 0; i < 2; i++) {
+        parent = mine(parent, { time: parent.time + 121 })
+        chain.add(parent)
+      }
+      assert.ok(!chain.isInMainChain(block.hash))
+      assert.ok(!chain.verifyMerkleProof(proof))
+    })
+  })
+})
@@ -0,0 +1,197 @@
+/**
+ * Interpreter Trace Tests
+ *
+ * Covers step recording across scriptSig, scriptPubKey, P2SH redeem script
+ * and Taproot script-path execution, branch state, failures, and the JSON
+ * and table renderings.
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import {
+  Hash,
+  Interpreter,
+  InterpreterTrace,
+  Opcode,
+  PrivateKey,
+  Script,
+  Transaction,
+  buildScriptPathTaproot,
+  createControlBlock,
+  type TapNode,
+} from '../lib/bitcore/index.js'
+
+const FLAGS =
+  Interpreter.SCRIPT_VERIFY_P2SH |
+  Interpreter.SCRIPT_VERIFY_STRICTENC |
+  Interpreter.SCRIPT_ENABLE_SIGHASH_FORKID
+
+function verify(
+  scriptSig: Script,
+  scriptPubKey: Script,
+  tx = new Transaction(),
+) {
+  const trace = new InterpreterTrace()
+  const interpreter = new Interpreter({ trace })
+  const valid = interpreter.verify(scriptSig, scriptPubKey, tx, 0, FLAGS, 0n)
+  return { valid, trace, interpreter }
+}
+
+describe('InterpreterTrace', () => {
+  it('should record the scriptSig and scriptPubKey of a P2PKH spend', () => {
+    const key = new PrivateKey()
+    const utxo = {
+      txId: '11'.repeat(32),
+      outputIndex: 0,
+      script: Script.fromAddress(key.toAddress()),
+      satoshis: 10000,
+    }
+    const tx = new Transaction()
+      .from(utxo)
+      .to(new PrivateKey().toAddress(), 9000)
+      .sign(key)
+    const input = tx.inputs[0]
+
+    const trace = new InterpreterTrace()
+    const interpreter = new Interpreter({ trace })
+    assert.ok(
+      interpreter.verify(input.script!, utxo.script, tx, 0, FLAGS, 10000n),
+    )
+
+    assert.deepStrictEqual(
+      trace.steps.map(step => `${step.phase}:${step.pc}`),
+      [
+        'scriptSig:0',
+        'scriptSig:1',
+        'scriptPubKey:0',
+        'scriptPubKey:1',
+        'scriptPubKey:2',
+        'scriptPubKey:3',
+        'scriptPubKey:4',
+      ],
+    )
+    const dup = trace.steps[2]
+    assert.strictEqual(dup.asm, 'OP_DUP')
+    assert.strictEqual(dup.stackBefore.length, 2)
+    assert.deepStrictEqual(dup.stackAfter, [
+      ...dup.stackBefore,
+      key.publicKey.toBuffer().toString('hex'),
+    ])
+    assert.strictEqual(trace.steps[6].asm, 'OP_CHECKSIG')
+    assert.deepStrictEqual(trace.steps[6].stackAfter, ['01'])
+    assert.strictEqual(trace.valid, true)
+    assert.strictEqual(trace.failedStep, undefined)
+  })
+
+  it('should record branch state and the failing step', () => {
+    const script = new Script()
+      .add(Opcode.OP_1)
+      .add(Opcode.OP_IF)
+      .add(Opcode.OP_0)
+      .add(Opcode.OP_ELSE)
+      .add(Opcode.OP_1)
+      .add(Opcode.OP_ENDIF)
+      .add(Opcode.OP_VERIFY)
+    const { valid, trace, interpreter } = verify(new Script(), script)
+
+    assert.ok(!valid)
+    assert.deepStrictEqual(
+      trace.steps.map(step => step.vfExecAfter),
+      [[], [true], [true], [false], [false], [], []],
+    )
+    assert.deepStrictEqual(
+      trace.steps.map(step => step.executed),
+      [true, true, true, true, false, true, true],
+    )
+    // The skipped OP_1 leaves the stack untouched
+    assert.deepStrictEqual(trace.steps[4].stackAfter, [''])
+    assert.strictEqual(trace.failedStep, trace.steps[6])
+    assert.strictEqual(trace.failedStep!.error, interpreter.errstr)
+    assert.strictEqual(trace.error, interpreter.errstr)
+  })
+
+  it('should trace the P2SH redeem script', () => {
+    const redeemScript = new Script().add(Opcode.OP_2).add(Opcode.OP_EQUAL)
+    const scriptSig = new Script().add(Opcode.OP_2).add(redeemScript.toBuffer())
+    const { valid, trace } = verify(
+      scriptSig,
+      Script.buildScriptHashOut(redeemScript),
+    )
+
+    assert.ok(valid)
+    const redeem = trace.steps.filter(step => step.phase === 'redeemScript')
+    assert.deepStrictEqual(
+      redeem.map(step => step.asm),
+      ['OP_2', 'OP_EQUAL'],
+    )
+    assert.deepStrictEqual(redeem[0].stackBefore, ['02'])
+    assert.deepStrictEqual(redeem[1].stackAfter, ['01'])
+  })
+
+  it('should trace Taproot script-path leaves with their state', () => {
+    const state = Hash.sha256(Buffer.from('state'))
+    const leaf = new Script()
+      .add(Opcode.OP_DROP)
+      .add(Opcode.OP_3)
+      .add(Opcode.OP_EQUAL)
+    const tree: TapNode = { script: leaf }
+    const internalKey = new PrivateKey().publicKey
+    const { script } = buildScriptPathTaproot(internalKey, tree, state)
+    const scriptSig = new Script()
+      .add(Opcode.OP_3)
+      .add(leaf.toBuffer())
+      .add(createControlBlock(internalKey, 0, tree))
+
+    const { valid, trace } = verify(scriptSig, script)
+    assert.ok(valid, trace.error)
+    const tapscript = trace.steps.filter(step => step.phase === 'tapscript')
+    assert.deepStrictEqual(
+      tapscript.map(step => step.asm),
+      ['OP_DROP', 'OP_3', 'OP_EQUAL'],
+    )
+    assert.deepStrictEqual(tapscript[0].stackBefore, [
+      '03',
+      state.toString('hex'),
+    ])
+  })
+
+  it('should export JSON and render an ASM table', () => {
+    const script = new Script()
+      .add(Opcode.OP_1)
+      .add(Opcode.OP_TOALTSTACK)
+      .add(Buffer.alloc(40, 0xab))
+      .add(Opcode.OP_0)
+      .add(Opcode.OP_VERIFY)
+    const { trace } = verify(new Script(), script)
+
+    const json = JSON.parse(JSON.stringify(trace))
+    assert.deepStrictEqual(json, JSON.parse(JSON.stringify(trace.toObject())))
+    assert.strictEqual(json.valid, false)
+    assert.deepStrictEqual(json.steps[1].altstackAfter, ['01'])
+
+    const table = trace.toTable({ maxItemLength: 8 }).split('\n')
+    assert.match(
+      table[0],
+      /^STEP\s+PHASE\s+PC\s+OPCODE\s+EXEC\s+BRANCH\s+STACK/,
+    )
+    assert.strictEqual(table.length, 1 + trace.steps.length + 1)
+    assert.match(table[2], /OP_TOALTSTACK\s+\| alt: 01$/)
+    assert.match(table[3], /abababab… +abababab… \| alt: 01$/)
+    assert.match(table[5], /OP_VERIFY .*SCRIPT_ERR_VERIFY/)
+    assert.match(table[6], /^Result: SCRIPT_ERR_VERIFY/)
+  })
+
+  it('should record steps driven one at a time', () => {
+    const trace = new InterpreterTrace()
+    const interpreter = new Interpreter({
+      script: new Script().add(Opcode.OP_2).add(Opcode.OP_DUP),
+      trace,
+    })
+    assert.ok(interpreter.step())
+    assert.strictEqual(trace.steps.length, 1)
+    assert.strictEqual(trace.steps[0].phase, 'script')
+    assert.ok(interpreter.step())
+    assert.deepStrictEqual(trace.steps[1].stackAfter, ['02', '02'])
+    assert.strictEqual(trace.valid, undefined)
+  })
+})
@@ -0,0 +1,90 @@
+/**
+ * Interpreter Tests
+ *
+ * Covers direct script evaluation: the value pushed by OP_0, and inputs
+ * spending zero-satoshi outputs under SIGHASH_FORKID.
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import {
+  Interpreter,
+  PrivateKey,
+  Script,
+  Transaction,
+} from '../lib/bitcore/index.js'
+
+const FLAGS =
+  Interpreter.SCRIPT_VERIFY_P2SH |
+  Interpreter.SCRIPT_VERIFY_STRICTENC |
+  Interpreter.SCRIPT_ENABLE_SIGHASH_FORKID
+
+describe('Interpreter', () => {
+  describe('OP_0', () => {
+    it('should push an empty vector', () => {
+      const interpreter = new Interpreter()
+      interpreter.set({ script: Script.fromASM('OP_0 OP_SIZE') })
+      assert.ok(interpreter.evaluate())
+      assert.deepStrictEqual(interpreter.stack, [
+        Buffer.alloc(0),
+        Buffer.alloc(0),
+      ])
+    })
+
+    it('should equal an empty push', () => {
+      const interpreter = new Interpreter()
+      assert.ok(
+        interpreter.verify(
+          Script.fromASM('OP_0'),
+          Script.fromASM('OP_SIZE OP_0 OP_EQUALVERIFY OP_0 OP_EQUAL'),
+          new Transaction(),
+          0,
+          Interpreter.SCRIPT_VERIFY_NONE,
+          0n,
+        ),
+        interpreter.errstr,
+      )
+    })
+  })
+
+  describe('Zero-satoshi inputs', () => {
+    const key = new PrivateKey()
+
+    function spendZeroSatoshis(): Transaction {
+      return new Transaction()
+        .from({
+          txId: '11'.repeat(32),
+          outputIndex: 0,
+          script: Script.fromAddress(key.toAddress()),
+          satoshis: 0,
+        })
+        .addData('zero')
+        .sign(key)
+    }
+
+    it('should verify a SIGHASH_FORKID signature over a zero amount', () => {
+      const tx = spendZeroSatoshis()
+      const input = tx.inputs[0]
+      const interpreter = new Interpreter()
+      assert.ok(
+        interpreter.verify(
+          input.script!,
+          input.output!.script,
+          tx,
+          0,
+          FLAGS,
+          0n,
+        ),
+        interpreter.errstr,
+      )
+      assert.strictEqual(interpreter.satoshisBN, 0n)
+    })
+
+    it('should keep a zero amount passed to set()', () => {
+      const interpreter = new Interpreter()
+      interpreter.set({ satoshisBN: 5n })
+      interpreter.set({ satoshisBN: 0n })
+      assert.strictEqual(interpreter.satoshisBN, 0n)
+    })
+  })
+})
@@ -0,0 +1,155 @@
+/**
+ * Message Tests
+ *
+ * Covers magic prefixes and legacy compatibility, Schnorr message
+ * signatures for P2PKH and Taproot addresses and BIP322-style proofs of
+ * ownership.
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import {
+  Address,
+  Message,
+  PrivateKey,
+  XAddress,
+  tweakPublicKey,
+} from '../lib/bitcore/index.js'
+
+const CHALLENGE = 'Log in to lotusia.org: nonce 8f3a1c'
+
+describe('Message', () => {
+  const key = new PrivateKey()
+  const address = key.toAddress()
+
+  describe('Magic prefix', () => {
+    it('should sign with the Lotus prefix by default', () => {
+      const message = new Message(CHALLENGE)
+      assert.ok(message.magic.equals(Message.LOTUS_MAGIC_BYTES))
+      const signature = message.sign(key)
+      assert.ok(message.verify(address, signature))
+      assert.ok(
+        !new Message(CHALLENGE, { magic: Message.BITCOIN_MAGIC_BYTES }).verify(
+          address,
+          signature,
+        ),
+      )
+    })
+
+    it('should accept legacy Bitcoin prefix signatures', () => {
+      const legacy = new Message(CHALLENGE, {
+        magic: Message.BITCOIN_MAGIC_BYTES,
+      }).sign(key)
+      const message = new Message(CHALLENGE)
+      assert.ok(message.verify(address, legacy))
+      assert.strictEqual(message.error, undefined)
+      assert.strictEqual(
+        message.recoverPublicKey(address, legacy),
+        key.publicKey.toString(),
+      )
+
+      // An explicit prefix disables the fallback
+      assert.ok(
+        !new Message(CHALLENGE, { magic: Message.LOTUS_MAGIC_BYTES }).verify(
+          address,
+          legacy,
+        ),
+      )
+    })
+
+    it('should support custom prefixes', () => {
+      const message = new Message(CHALLENGE, { magic: 'Example Login:\n' })
+      const signature = message.sign(key)
+      assert.ok(message.verify(address, signature))
+      assert.ok(!new Message(CHALLENGE).verify(address, signature))
+    })
+  })
+
+  describe('Schnorr signatures', () => {
+    it('should verify against P2PKH addresses and XAddresses', () => {
+      const message = new Message(CHALLENGE)
+      const signature = message.signSchnorr(key)
+      assert.strictEqual(Buffer.from(signature, 'base64').length, 97)
+      assert.ok(message.verify(address, signature))
+      assert.ok(message.verify(address.toString(), signature))
+      assert.ok(
+        message.verify(XAddress.fromString(address.toString()), signature),
+      )
+      assert.ok(!new Message('other').verify(address, signature))
+    })
+
+    it('should verify against key-path Taproot addresses', () => {
+      const taproot = Address.fromTaprootCommitment(
+        tweakPublicKey(key.publicKey),
+      )
+      const message = new Message(CHALLENGE)
+      const signature = message.signSchnorr(key, { taproot: true })
+      assert.ok(message.verify(taproot, signature))
+
+      // An untweaked key does not match the commitment
+      assert.ok(!message.verify(taproot, message.signSchnorr(key)))
+      assert.match(message.error!, /did not match the address/)
+      assert.ok(!message.verify(new PrivateKey().toAddress(), signature))
+    })
+  })
+
+  describe('Proofs of ownership', () => {
+    it('should prove control of a P2PKH address', () => {
+      const message = new Message(CHALLENGE)
+      const proof = message.signProof(key, address)
+      assert.ok(message.verifyProof(address, proof))
+      assert.ok(message.verify(address, proof))
+      assert.ok(!new Message('other').verify(address, proof))
+      assert.ok(!message.verify(new PrivateKey().toAddress(), proof))
+    })
+
+    it('should prove control of a Taproot address with a script tree', () => {
+      const merkleRoot = Buffer.alloc(32, 7)
+      const taproot = Address.fromTaprootCommitment(
+        tweakPublicKey(key.publicKey, merkleRoot),
+      )
+      const message = new Message(CHALLENGE)
+      const proof = message.signProof(key, taproot, { merkleRoot })
+      assert.ok(message.verify(taproot, proof))
+      assert.ok(!new Message('other').verify(taproot, proof))
+    })
+
+    it('should prove control of a P2SH multisig address', () => {
+      const keys = [key, new PrivateKey(), new PrivateKey()]
+      const publicKeys = keys.map(k => k.publicKey)
+      const multisig = Address.createMultisig(publicKeys, 2)
+      const message = new Message(CHALLENGE)
+
+      const proof = message.signProof([keys[0], keys[2]], multisig, {
+        publicKeys,
+        threshold: 2,
+      })
+      assert.ok(message.verify(multisig, proof))
+      assert.throws(
+        () =>
+          message.signProof([keys[0]], multisig, { publicKeys, threshold: 2 }),
+        /cannot prove ownership/,
+      )
+      assert.throws(
+        () => message.signProof(keys, multisig, { publicKeys, threshold: 3 }),
+        /do not match the address/,
+      )
+    })
+
+    it('should refuse keys that cannot spend from the address', () => {
+      const message = new Message(CHALLENGE)
+      assert.throws(
+        () => message.signProof(new PrivateKey(), address),
+        /cannot prove ownership/,
+      )
+      assert.throws(
+        () =>
+          message.signProof(
+            new PrivateKey(),
+            Address.fromTaprootCommitment(tweakPublicKey(key.publicKey)),
+          ),
+        /cannot prove ownership/,
+      )
+    })
+  })
+})
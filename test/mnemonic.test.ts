@@ -0,0 +1,176 @@
+/**
+ * Mnemonic Tests
+ *
+ * Covers the BIP39 reference vectors (English and Japanese), the entropy
+ * round-trip API, Unicode normalization of phrases and passphrases, language
+ * detection and phrase validation.
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import { readFileSync } from 'node:fs'
+import { Mnemonic } from '../lib/bitcore/index.js'
+
+// https://github.com/trezor/python-mnemonic/blob/master/vectors.json
+const VECTORS = [
+  {
+    entropy: '00000000000000000000000000000000',
+    phrase:
+      'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+    seed: 'c55257c360c07c72029aebc1b53c05ed0362ada38ead3e3e9efa3708e53495531f09a6987599d18264c1e1c92f2cf141630c7a3c4ab7c81b2f001698e7463b04',
+  },
+  {
+    entropy: '7f7f7f7f7f7f7f7f7f7f7f7f7f7f7f7f',
+    phrase:
+      'legal winner thank year wave sausage worth useful legal winner thank yellow',
+    seed: '2e8905819b8723fe2c1d161860e5ee1830318dbf49a83bd451cfb8440c28bd6fa457fe1296106559a3c80937a1c1069be3a3a5bd381ee6260e8d9739fce1f607',
+  },
+]
+
+const JAPANESE_VECTORS: {
+  passphrase: string
+  entropy: string
+  mnemonic: string
+  seed: string
+}[] = JSON.parse(
+  readFileSync(
+    new URL('./vectors/bip39/japanese.json', import.meta.url),
+    'utf8',
+  ),
+).vectors
+
+describe('Mnemonic', () => {
+  describe('Entropy', () => {
+    for (const vector of VECTORS) {
+      it(`should match the reference vector for ${vector.entropy}`, () => {
+        const mnemonic = Mnemonic.fromEntropy(
+          Buffer.from(vector.entropy, 'hex'),
+        )
+        assert.strictEqual(mnemonic.phrase, vector.phrase)
+        assert.strictEqual(
+          mnemonic.toSeed('TREZOR').toString('hex'),
+          vector.seed,
+        )
+        assert.strictEqual(
+          new Mnemonic(vector.phrase).toEntropy().toString('hex'),
+          vector.entropy,
+        )
+      })
+    }
+
+    it('should round-trip every entropy length', () => {
+      for (const bytes of [16, 20, 24, 28, 32]) {
+        const entropy = Buffer.alloc(bytes, bytes)
+        const mnemonic = Mnemonic.fromEntropy(entropy)
+        assert.strictEqual(mnemonic.phrase.split(' ').length, (bytes * 3) / 4)
+        assert.ok(mnemonic.toEntropy().equals(entropy))
+        assert.ok(new Mnemonic(mnemonic.phrase).toEntropy().equals(entropy))
+      }
+    })
+
+    it('should reject invalid entropy lengths', () => {
+      for (const bytes of [0, 12, 17, 36]) {
+        assert.throws(
+          () => Mnemonic.fromEntropy(Buffer.alloc(bytes)),
+          /Entropy/,
+        )
+      }
+    })
+  })
+
+  describe('Japanese', () => {
+    for (const vector of JAPANESE_VECTORS) {
+      it(`should match the reference vector for ${vector.entropy}`, () => {
+        const entropy = Buffer.from(vector.entropy, 'hex')
+        const mnemonic = Mnemonic.fromEntropy(entropy, Mnemonic.Words.JAPANESE)
+        assert.strictEqual(mnemonic.phrase, vector.mnemonic)
+
+        // Detected from the phrase, passphrase NFKD normalized
+        const restored = new Mnemonic(vector.mnemonic)
+        assert.strictEqual(restored.language, 'JAPANESE')
+        assert.ok(restored.toEntropy().equals(entropy))
+        assert.strictEqual(
+          restored.toSeed(vector.passphrase).toString('hex'),
+          vector.seed,
+        )
+      })
+    }
+
+    it('should join words typed with ASCII spaces with ideographic spaces', () => {
+      const { mnemonic, passphrase, seed } = JAPANESE_VECTORS[5]
+      const typed = mnemonic.split('\u3000').join(' ')
+      const restored = new Mnemonic(typed)
+      assert.strictEqual(restored.phrase, mnemonic)
+      assert.strictEqual(restored.toSeed(passphrase).toString('hex'), seed)
+    })
+  })
+
+  describe('Normalization', () => {
+    const { phrase, seed } = VECTORS[1]
+
+    it('should accept ideographic spaces and extra whitespace', () => {
+      const typed = `  ${phrase.split(' ').join('\u3000')}\n`
+      const mnemonic = new Mnemonic(typed)
+      assert.strictEqual(mnemonic.phrase, phrase)
+      assert.strictEqual(mnemonic.toSeed('TREZOR').toString('hex'), seed)
+    })
+
+    it('should NFKD normalize words', () => {
+      // Fullwidth Latin letters decompose to ASCII
+      const fullwidth = phrase.replace('legal', 'ｌｅｇａｌ')
+      assert.ok(Mnemonic.isValid(fullwidth))
+      assert.strictEqual(new Mnemonic(fullwidth).phrase, phrase)
+    })
+
+    it('should NFKD normalize passphrases', () => {
+      const mnemonic = new Mnemonic(phrase)
+      // Precomposed and combining-accent spellings give the same seed
+      const composed = mnemonic.toSeed('caf\u00e9')
+      assert.ok(composed.equals(mnemonic.toSeed('cafe\u0301')))
+      assert.ok(!composed.equals(mnemonic.toSeed('cafe')))
+    })
+  })
+
+  describe('Validation', () => {
+    it('should detect the language', () => {
+      const mnemonic = new Mnemonic()
+      assert.strictEqual(mnemonic.language, 'ENGLISH')
+      assert.strictEqual(
+        Mnemonic._getDictionary(mnemonic.phrase),
+        Mnemonic.Words.ENGLISH,
+      )
+      assert.strictEqual(Mnemonic._getDictionary('not bip39 words'), undefined)
+    })
+
+    it('should detect every word list', () => {
+      const entropy = Buffer.from('9e885d952ad362caeb4efe34a8e91bd2', 'hex')
+      for (const [language, wordlist] of Object.entries(Mnemonic.Words)) {
+        const { phrase } = Mnemonic.fromEntropy(entropy, wordlist)
+        const detected = new Mnemonic(phrase)
+        assert.strictEqual(detected.language, language)
+        assert.strictEqual(detected.phrase, phrase)
+        assert.ok(detected.toEntropy().equals(entropy), language)
+      }
+    })
+
+    it('should detect accented words in either normal form', () => {
+      const entropy = Buffer.alloc(16, 0x01)
+      for (const wordlist of [Mnemonic.Words.FRENCH, Mnemonic.Words.SPANISH]) {
+        const { phrase } = Mnemonic.fromEntropy(entropy, wordlist)
+        for (const form of ['NFC', 'NFD'] as const) {
+          const typed = phrase.normalize(form)
+          assert.strictEqual(Mnemonic._getDictionary(typed), wordlist)
+          assert.ok(new Mnemonic(typed).toEntropy().equals(entropy))
+        }
+      }
+    })
+
+    it('should reject bad checksums and word counts', () => {
+      const words = VECTORS[0].phrase.split(' ')
+      assert.ok(!Mnemonic.isValid([...words.slice(0, 11), 'abandon'].join(' ')))
+      assert.ok(!Mnemonic.isValid(words.slice(0, 11).join(' ')))
+      assert.ok(!Mnemonic.isValid(''))
+      assert.throws(() => new Mnemonic(words.slice(0, 9).join(' ') + ' zoo'))
+    })
+  })
+})
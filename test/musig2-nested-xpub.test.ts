@@ -0,0 +1,452 @@
+/**
+ * Nested MuSig2 and Aggregate Xpub Tests
+ *
+ * Covers tweaked key aggregation contexts, signing for an aggregated key
+ * that is itself a participant of another aggregation, and BIP328-style
+ * aggregate extended public keys with per-payment Taproot outputs.
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import {
+  BN,
+  Hash,
+  HDPublicKey,
+  MuSig2Signer,
+  Point,
+  PrivateKey,
+  Schnorr,
+  Script,
+  Signature,
+  Transaction,
+  TAPROOT_SIGHASH_TYPE,
+  buildMuSigTaprootKey,
+  musigAggregateXpub,
+  musigApplyTweak,
+  musigDeriveKeyAggContext,
+  musigKeyAgg,
+  musigNestedKeyAggContext,
+  musigNonceAgg,
+  musigNonceGen,
+  musigPartialSign,
+  musigPartialSigVerify,
+  musigSigAgg,
+  sighash,
+  signTaprootKeyPathWithMuSig2,
+  type MuSigKeyAggContext,
+} from '../lib/bitcore/index.js'
+
+const message = Hash.sha256(Buffer.from('nested musig2'))
+
+/**
+ * Sign a message with every signer of a key aggregation context
+ */
+function signAll(
+  keyAggContext: MuSigKeyAggContext,
+  privateKeys: PrivateKey[],
+  msg: Buffer = message,
+): Signature {
+  const signers = keyAggContext.pubkeys.map(
+    pk => privateKeys.find(k => k.publicKey.toString() === pk.toString())!,
+  )
+  const nonces = signers.map(k =>
+    musigNonceGen(k, keyAggContext.aggregatedPubKey, msg),
+  )
+  const aggNonce = musigNonceAgg(nonces.map(nonce => nonce.publicNonces))
+  const partialSigs = signers.map((k, i) => {
+    const partialSig = musigPartialSign(
+      nonces[i],
+      k,
+      keyAggContext,
+      i,
+      aggNonce,
+      msg,
+    )
+    assert.ok(
+      musigPartialSigVerify(
+        partialSig,
+        nonces[i].publicNonces,
+        k.publicKey,
+        keyAggContext,
+        i,
+        aggNonce,
+        msg,
+      ),
+    )
+    return partialSig
+  })
+  return musigSigAgg(partialSigs, aggNonce, msg, keyAggContext.aggregatedPubKey)
+}
+
+describe('Nested MuSig2 and aggregate xpubs', () => {
+  const alice = new PrivateKey()
+  const bob = new PrivateKey()
+  const carol = new PrivateKey()
+
+  describe('musigApplyTweak', () => {
+    it('should sign for the tweaked key', () => {
+      const ctx = musigKeyAgg([alice.publicKey, bob.publicKey])
+      const tweak = Hash.sha256(Buffer.from('tweak'))
+      const tweaked = musigApplyTweak(ctx, tweak)
+
+      assert.strictEqual(
+        tweaked.aggregatedPubKey.toString(),
+        ctx.aggregatedPubKey.addScalar(tweak).toString(),
+      )
+      const signature = signAll(tweaked, [alice, bob])
+      assert.ok(
+        Schnorr.verify(message, signature, tweaked.aggregatedPubKey, 'big'),
+      )
+      assert.ok(
+        !Schnorr.verify(message, signature, ctx.aggregatedPubKey, 'big'),
+      )
+    })
+
+    it('should accumulate tweaks', () => {
+      const ctx = musigKeyAgg([alice.publicKey, bob.publicKey])
+      const t1 = Hash.sha256(Buffer.from('first'))
+      const t2 = Hash.sha256(Buffer.from('second'))
+      const twice = musigApplyTweak(musigApplyTweak(ctx, t1), t2)
+
+      assert.strictEqual(
+        twice.aggregatedPubKey.toString(),
+        ctx.aggregatedPubKey.addScalar(t1).addScalar(t2).toString(),
+      )
+      const signature = signAll(twice, [alice, bob])
+      assert.ok(
+        Schnorr.verify(message, signature, twice.aggregatedPubKey, 'big'),
+      )
+    })
+  })
+
+  describe('musigNestedKeyAggContext', () => {
+    /**
+     * Sign for `outer` where participant `innerIndex` is the `inner` group
+     */
+    function signNested(
+      outer: MuSigKeyAggContext,
+      inner: MuSigKeyAggContext,
+      innerKeys: PrivateKey[],
+      directKeys: PrivateKey[],
+    ): Signature {
+      const innerIndex = outer.pubkeys.findIndex(
+        pk => pk.toString() === inner.aggregatedPubKey.toString(),
+      )
+      const nested = musigNestedKeyAggContext(outer, innerIndex, inner)
+      const members = inner.pubkeys.map(
+        pk => innerKeys.find(k => k.publicKey.toString() === pk.toString())!,
+      )
+      const memberNonces = members.map(k =>
+        musigNonceGen(k, outer.aggregatedPubKey, message),
+      )
+      const innerNonce = musigNonceAgg(
+        memberNonces.map(nonce => nonce.publicNonces),
+      )
+
+      // Outer participants in order: direct signers and the inner group
+      const direct = outer.pubkeys.map(pk =>
+        directKeys.find(k => k.publicKey.toString() === pk.toString()),
+      )
+      const directNonces = direct.map(k =>
+        k ? musigNonceGen(k, outer.aggregatedPubKey, message) : undefined,
+      )
+      const outerNonce = musigNonceAgg(
+        outer.pubkeys.map((_, i) =>
+          i === innerIndex
+            ? [innerNonce.R1, innerNonce.R2]
+            : directNonces[i]!.publicNonces,
+        ),
+      )
+
+      // The inner group's partial signature is the sum of its members'
+      const n = Point.getN()
+      let innerPartial = new BN(0)
+      members.forEach((k, j) => {
+        const partialSig = musigPartialSign(
+          memberNonces[j],
+          k,
+          nested,
+          j,
+          outerNonce,
+          message,
+        )
+        assert.ok(
+          musigPartialSigVerify(
+            partialSig,
+            memberNonces[j].publicNonces,
+            k.publicKey,
+            nested,
+            j,
+            outerNonce,
+            message,
+          ),
+        )
+        innerPartial = innerPartial.add(partialSig).umod(n)
+      })
+      assert.ok(
+        musigPartialSigVerify(
+          innerPartial,
+          [innerNonce.R1, innerNonce.R2],
+          inner.aggregatedPubKey,
+          outer,
+          innerIndex,
+          outerNonce,
+          message,
+        ),
+      )
+
+      const partialSigs = outer.pubkeys.map((_, i) =>
+        i === innerIndex
+          ? innerPartial
+          : musigPartialSign(
+              directNonces[i]!,
+              direct[i]!,
+              outer,
+              i,
+              outerNonce,
+              message,
+            ),
+      )
+      return musigSigAgg(
+        partialSigs,
+        outerNonce,
+        message,
+        outer.aggregatedPubKey,
+      )
+    }
+
+    it('should sign for an outer key with a nested group', () => {
+      const inner = musigKeyAgg([bob.publicKey, carol.publicKey])
+      const outer = musigKeyAgg([alice.publicKey, inner.aggregatedPubKey])
+
+      const signature = signNested(outer, inner, [bob, carol], [alice])
+      assert.ok(
+        Schnorr.verify(message, signature, outer.aggregatedPubKey, 'big'),
+      )
+    })
+
+    it('should carry outer and inner tweaks', () => {
+      const inner = musigApplyTweak(
+        musigKeyAgg([bob.publicKey, carol.publicKey]),
+        Hash.sha256(Buffer.from('inner')),
+      )
+      const outer = musigApplyTweak(
+        musigKeyAgg([alice.publicKey, inner.aggregatedPubKey]),
+        Hash.sha256(Buffer.from('outer')),
+      )
+
+      const signature = signNested(outer, inner, [bob, carol], [alice])
+      assert.ok(
+        Schnorr.verify(message, signature, outer.aggregatedPubKey, 'big'),
+      )
+    })
+
+    it('should nest more than one level', () => {
+      const dave = new PrivateKey()
+      const innermost = musigKeyAgg([carol.publicKey, dave.publicKey])
+      const middle = musigKeyAgg([bob.publicKey, innermost.aggregatedPubKey])
+      const outer = musigKeyAgg([alice.publicKey, middle.aggregatedPubKey])
+
+      // Flatten: every leaf signs with its path's combined coefficients
+      const middleIndex = outer.pubkeys.findIndex(
+        pk => pk.toString() === middle.aggregatedPubKey.toString(),
+      )
+      const middleView = musigNestedKeyAggContext(outer, middleIndex, middle)
+      const innermostIndex = middle.pubkeys.findIndex(
+        pk => pk.toString() === innermost.aggregatedPubKey.toString(),
+      )
+      const innermostView = musigNestedKeyAggContext(
+        middleView,
+        innermostIndex,
+        innermost,
+      )
+
+      const leaves: { key: PrivateKey; ctx: MuSigKeyAggContext; i: number }[] =
+        []
+      outer.pubkeys.forEach((pk, i) => {
+        if (pk.toString() === alice.publicKey.toString()) {
+          leaves.push({ key: alice, ctx: outer, i })
+        }
+      })
+      middle.pubkeys.forEach((pk, i) => {
+        if (pk.toString() === bob.publicKey.toString()) {
+          leaves.push({ key: bob, ctx: middleView, i })
+        }
+      })
+      innermost.pubkeys.forEach((pk, i) => {
+        const key = [carol, dave].find(
+          k => k.publicKey.toString() === pk.toString(),
+        )!
+        leaves.push({ key, ctx: innermostView, i })
+      })
+
+      const nonces = leaves.map(leaf =>
+        musigNonceGen(leaf.key, outer.aggregatedPubKey, message),
+      )
+      const aggNonce = musigNonceAgg(nonces.map(nonce => nonce.publicNonces))
+      const partialSigs = leaves.map((leaf, j) =>
+        musigPartialSign(
+          nonces[j],
+          leaf.key,
+          leaf.ctx,
+          leaf.i,
+          aggNonce,
+          message,
+        ),
+      )
+      const signature = musigSigAgg(
+        partialSigs,
+        aggNonce,
+        message,
+        outer.aggregatedPubKey,
+      )
+      assert.ok(
+        Schnorr.verify(message, signature, outer.aggregatedPubKey, 'big'),
+      )
+    })
+
+    it('should reject an inner group that is not the outer participant', () => {
+      const inner = musigKeyAgg([bob.publicKey, carol.publicKey])
+      const outer = musigKeyAgg([alice.publicKey, inner.aggregatedPubKey])
+      const aliceIndex = outer.pubkeys.findIndex(
+        pk => pk.toString() === alice.publicKey.toString(),
+      )
+
+      assert.throws(
+        () => musigNestedKeyAggContext(outer, aliceIndex, inner),
+        /not the outer participant key/,
+      )
+      assert.throws(
+        () => musigNestedKeyAggContext(outer, 5, inner),
+        /Invalid signer index/,
+      )
+    })
+  })
+
+  describe('Aggregate xpub', () => {
+    const ctx = musigKeyAgg([alice.publicKey, bob.publicKey, carol.publicKey])
+
+    it('should derive the same keys as the synthetic xpub', () => {
+      const xpub = musigAggregateXpub(ctx)
+      assert.strictEqual(xpub.depth, 0)
+      assert.strictEqual(
+        xpub.publicKey.toString(),
+        ctx.aggregatedPubKey.toString(),
+      )
+
+      // Watch-only wallets can derive from the serialized xpub
+      const watchOnly = new HDPublicKey(xpub.toString())
+      for (const path of ['m/0', 'm/0/5', 'm/1/2/3']) {
+        const derived = musigDeriveKeyAggContext(ctx, path)
+        assert.strictEqual(
+          derived.aggregatedPubKey.toString(),
+          watchOnly.deriveChild(path).publicKey.toString(),
+          path,
+        )
+      }
+      assert.strictEqual(
+        musigDeriveKeyAggContext(ctx, [0, 5]).aggregatedPubKey.toString(),
+        musigDeriveKeyAggContext(ctx, 'm/0/5').aggregatedPubKey.toString(),
+      )
+    })
+
+    it('should sign for derived keys without a new key aggregation', () => {
+      for (const path of ['m/0/0', 'm/0/1']) {
+        const derived = musigDeriveKeyAggContext(ctx, path)
+        const signature = signAll(derived, [alice, bob, carol])
+        assert.ok(
+          Schnorr.verify(message, signature, derived.aggregatedPubKey, 'big'),
+        )
+      }
+    })
+
+    it('should reject hardened paths and tweaked contexts', () => {
+      assert.throws(() => musigDeriveKeyAggContext(ctx, "m/0'"), /hardened/)
+      assert.throws(() => musigDeriveKeyAggContext(ctx, 'x/0'), /Invalid path/)
+
+      const derived = musigDeriveKeyAggContext(ctx, 'm/0')
+      assert.throws(() => musigAggregateXpub(derived), /untweaked/)
+      assert.throws(() => musigDeriveKeyAggContext(derived, 'm/1'), /untweaked/)
+    })
+
+    it('should spend a per-payment Taproot output of a derived key', () => {
+      const derived = musigDeriveKeyAggContext(ctx, 'm/0/7')
+      const taproot = buildMuSigTaprootKey(derived)
+      assert.strictEqual(
+        taproot.aggregatedPubKey.toString(),
+        derived.aggregatedPubKey.toString(),
+      )
+      assert.notStrictEqual(
+        taproot.commitment.toString(),
+        buildMuSigTaprootKey(ctx).commitment.toString(),
+      )
+
+      const amount = 100000
+      const tx = new Transaction()
+        .from({
+          txId: '55'.repeat(32),
+          outputIndex: 0,
+          script: taproot.script,
+          satoshis: amount,
+        })
+        .to(new PrivateKey().toAddress(), amount - 1000)
+      const sighashBuffer = sighash(
+        tx,
+        TAPROOT_SIGHASH_TYPE,
+        0,
+        taproot.script,
+        new BN(amount),
+      )
+
+      const signers = derived.pubkeys.map(
+        pk =>
+          [alice, bob, carol].find(
+            k => k.publicKey.toString() === pk.toString(),
+          )!,
+      )
+      const nonces = signers.map(k =>
+        musigNonceGen(k, taproot.commitment, sighashBuffer),
+      )
+      const aggNonce = musigNonceAgg(nonces.map(nonce => nonce.publicNonces))
+      const partialSigs = signers.map((k, i) =>
+        signTaprootKeyPathWithMuSig2(
+          nonces[i],
+          k,
+          derived,
+          i,
+          aggNonce,
+          sighashBuffer,
+          taproot.tweak,
+        ),
+      )
+      const signature = musigSigAgg(
+        partialSigs,
+        aggNonce,
+        sighashBuffer,
+        taproot.commitment,
+        TAPROOT_SIGHASH_TYPE,
+      )
+
+      tx.inputs[0].setScript(new Script().add(signature.toTxFormat('schnorr')))
+      assert.strictEqual(tx.verifyScripts().valid, true)
+    })
+
+    it('should prepare derived Taproot outputs with MuSig2Signer', () => {
+      const signer = new MuSig2Signer({
+        signers: [alice.publicKey, bob.publicKey, carol.publicKey],
+        myPrivateKey: alice,
+      })
+      const prepared = signer.prepareTaproot(undefined, 'm/0/7')
+      assert.strictEqual(
+        prepared.commitment.toString(),
+        buildMuSigTaprootKey(
+          musigDeriveKeyAggContext(ctx, 'm/0/7'),
+        ).commitment.toString(),
+      )
+      assert.strictEqual(
+        prepared.aggregatedPubKey.toString(),
+        musigAggregateXpub(ctx).deriveChild('m/0/7').publicKey.toString(),
+      )
+    })
+  })
+})
@@ -0,0 +1,229 @@
+/**
+ * NFT Provenance Tests
+ *
+ * Covers tracing NFT transfers back to the mint against the in-memory chain
+ * backend, collection binding, and histories that duplicate or lose the NFT.
+ */
+
+import { describe, it, beforeEach } from 'node:test'
+import assert from 'node:assert'
+import {
+  NFTUtil,
+  Networks,
+  Output,
+  PrivateKey,
+  Script,
+  Transaction,
+  buildKeyPathTaproot,
+  type NFTCollectionMetadata,
+  type NFTMetadata,
+  type NFTUtxo,
+} from '../lib/bitcore/index.js'
+import {
+  MockChainBackend,
+  NFTProvenanceError,
+  traceNFTProvenance,
+} from '../lib/chain/index.js'
+
+const metadata: NFTMetadata = {
+  name: 'Lotus Blossom #1',
+  description: 'Provenance test NFT',
+  image: 'ipfs://QmProvenance',
+}
+
+describe('NFT Provenance', () => {
+  let backend: MockChainBackend
+  let minter: PrivateKey
+
+  beforeEach(() => {
+    backend = new MockChainBackend(100)
+    minter = new PrivateKey(undefined, Networks.regtest)
+  })
+
+  /**
+   * Mint an NFT paying to `owner` from a funded P2PKH output
+   */
+  async function mint(
+    owner: PrivateKey,
+    nftScript: Script = NFTUtil.createKeyPathNFT(
+      owner.publicKey,
+      metadata,
+      1000,
+    ).script,
+  ): Promise<NFTUtxo> {
+    const funding = backend.fund(
+      Script.buildPublicKeyHashOut(minter.publicKey),
+      100000,
+    )
+    const tx = new Transaction()
+      .from({
+        txId: funding.txId,
+        outputIndex: 0,
+        script: Script.fromHex(funding.script),
+        satoshis: funding.satoshis,
+      })
+      .addOutput(new Output({ script: nftScript, satoshis: 1000 }))
+      .change(minter.toAddress())
+      .sign(minter)
+    await backend.broadcast(tx)
+    backend.mineBlock()
+    return { txid: tx.id, outputIndex: 0, script: nftScript, satoshis: 1000 }
+  }
+
+  /**
+   * Transfer an NFT and mine the transfer
+   */
+  async function transfer(
+    nftUtxo: NFTUtxo,
+    from: PrivateKey,
+    to: PrivateKey,
+  ): Promise<NFTUtxo> {
+    const tx = NFTUtil.transferNFT({
+      currentOwnerKey: from,
+      newOwnerKey: to.publicKey,
+      nftUtxo,
+      metadataHash: NFTUtil.extractMetadataHash(nftUtxo.script)!,
+    })
+    await backend.broadcast(tx)
+    backend.mineBlock()
+    return {
+      txid: tx.id,
+      outputIndex: 0,
+      script: tx.outputs[0].script,
+      satoshis: tx.outputs[0].satoshis,
+    }
+  }
+
+  it('should trace transfers back to the mint', async () => {
+    const alice = new PrivateKey()
+    const bob = new PrivateKey()
+    const carol = new PrivateKey()
+
+    const minted = await mint(alice)
+    const toBob = await transfer(minted, alice, bob)
+    const toCarol = await transfer(toBob, bob, carol)
+
+    const result = await traceNFTProvenance(backend, toCarol, { metadata })
+    assert.strictEqual(result.mintTxId, minted.txid)
+    assert.deepStrictEqual(
+      result.transfers.map(t => t.txid),
+      [minted.txid, toBob.txid, toCarol.txid],
+    )
+    assert.deepStrictEqual(
+      result.transfers.map(t => [t.from, t.to]),
+      [
+        [null, minted.script.toAddress()!.toString()],
+        [
+          minted.script.toAddress()!.toString(),
+          toBob.script.toAddress()!.toString(),
+        ],
+        [
+          toBob.script.toAddress()!.toString(),
+          toCarol.script.toAddress()!.toString(),
+        ],
+      ],
+    )
+    assert.ok(result.transfers.every(t => t.blockHeight! > 100))
+    assert.ok(result.transfers.every(t => t.timestamp > 0))
+    assert.ok(NFTUtil.verifyProvenance(result.transfers))
+    assert.ok(result.metadataHash.equals(NFTUtil.hashMetadata(metadata)))
+    assert.strictEqual(result.metadataVerified, true)
+    assert.strictEqual(result.collection, null)
+    assert.ok(result.utxo.script.equals(toCarol.script))
+  })
+
+  it('should accept chain outpoints and trace a fresh mint', async () => {
+    const minted = await mint(new PrivateKey())
+    const result = await traceNFTProvenance(backend, {
+      txId: minted.txid,
+      outputIndex: 0,
+    })
+    assert.strictEqual(result.transfers.length, 1)
+    assert.strictEqual(result.transfers[0].from, null)
+    assert.strictEqual(result.metadataVerified, undefined)
+  })
+
+  it('should bind collection NFTs to their collection', async () => {
+    const owner = new PrivateKey()
+    const collectionInfo: NFTCollectionMetadata = {
+      name: 'Blossoms',
+      description: 'A test collection',
+      totalSupply: 10,
+      creator: owner.toAddress().toString(),
+    }
+    const collectionHash = NFTUtil.hashCollection(collectionInfo)
+    const nft = NFTUtil.createCollectionNFT(
+      owner.publicKey,
+      collectionHash,
+      metadata,
+    )
+    const minted = await mint(owner, nft.script)
+
+    const result = await traceNFTProvenance(backend, minted, {
+      metadata,
+      collection: collectionInfo,
+    })
+    assert.ok(result.collection!.collectionHash.equals(collectionHash))
+    assert.strictEqual(result.collection!.verified, true)
+    assert.strictEqual(result.metadataVerified, true)
+
+    const other = await traceNFTProvenance(backend, minted, {
+      metadata,
+      collection: NFTUtil.hashCollection({ ...collectionInfo, name: 'Other' }),
+    })
+    assert.strictEqual(other.collection!.verified, false)
+    assert.strictEqual(other.metadataVerified, false)
+  })
+
+  it('should reject duplicated NFT state', async () => {
+    const alice = new PrivateKey()
+    const minted = await mint(alice)
+    const hash = NFTUtil.extractMetadataHash(minted.script)!
+    const copy = new Transaction()
+    copy.addInput(
+      new Transaction().from({
+        txId: minted.txid,
+        outputIndex: 0,
+        script: minted.script,
+        satoshis: 1000,
+      }).inputs[0],
+    )
+    for (const key of [new PrivateKey(), new PrivateKey()]) {
+      copy.addOutput(
+        new Output({
+          script: buildKeyPathTaproot(key.publicKey, hash),
+          satoshis: 500,
+        }),
+      )
+    }
+    backend.addTransaction(copy, backend.height + 1)
+
+    await assert.rejects(
+      traceNFTProvenance(backend, { txId: copy.id, outputIndex: 1 }),
+      NFTProvenanceError,
+    )
+  })
+
+  it('should reject non-NFT outputs and unknown transactions', async () => {
+    const funding = backend.fund(
+      Script.buildPublicKeyHashOut(minter.publicKey),
+      1000,
+    )
+    await assert.rejects(traceNFTProvenance(backend, funding), /is not an NFT/)
+    await assert.rejects(
+      traceNFTProvenance(backend, { txId: 'ff'.repeat(32), outputIndex: 0 }),
+      /not found/,
+    )
+  })
+
+  it('should stop after the maximum number of hops', async () => {
+    const alice = new PrivateKey()
+    const bob = new PrivateKey()
+    const minted = await mint(alice)
+    const toBob = await transfer(minted, alice, bob)
+    await assert.rejects(
+      traceNFTProvenance(backend, toBob, { maxHops: 1 }),
+      /longer than 1/,
+    )
+  })
+})
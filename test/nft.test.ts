@@ -22,6 +22,12 @@ import {
   TapNode,
   NFTMetadata,
   NFTCollectionMetadata,
+  NFTUtxo,
+  NFTPolicy,
+  Interpreter,
+  BN,
+  sign,
+  sighashPreimage,
 } from '../lib/bitcore/index.js'
 
 describe('NFT Module', () => {
@@ -386,6 +392,147 @@ describe('NFT Module', () => {
     })
   })
 
+  describe('Batch Transfer', () => {
+    const FUNDING_TXID = '55'.repeat(32)
+    const VERIFY_FLAGS =
+      Interpreter.SCRIPT_VERIFY_STRICTENC |
+      Interpreter.SCRIPT_ENABLE_SIGHASH_FORKID |
+      Interpreter.SCRIPT_ENABLE_SCHNORR_MULTISIG
+
+    let secondOwnerKey: PrivateKey
+
+    function batch(count: number, owners: PrivateKey[]) {
+      return Array.from({ length: count }, (_, index) => {
+        const itemMetadata = { ...metadata, name: `Item #${index}` }
+        const owner = owners[index % owners.length]
+        const nft = NFTUtil.createKeyPathNFT(owner.publicKey, itemMetadata)
+        return {
+          currentOwnerKey: owner,
+          newOwnerKey: new PrivateKey(undefined, Networks.regtest).publicKey,
+          nftUtxo: {
+            txid: index.toString(16).padStart(64, '0'),
+            outputIndex: index % 3,
+            script: nft.script,
+            satoshis: 1000,
+          },
+          metadataHash: nft.metadataHash,
+        }
+      })
+    }
+
+    function verifyInputs(tx: Transaction) {
+      return tx.inputs.every((input, index) =>
+        new Interpreter().verify(
+          input.script!,
+          input.output!.script,
+          tx,
+          index,
+          VERIFY_FLAGS,
+          BigInt(input.output!.satoshis),
+        ),
+      )
+    }
+
+    beforeEach(() => {
+      secondOwnerKey = new PrivateKey(undefined, Networks.regtest)
+    })
+
+    it('should move NFTs from several owners in one transaction', () => {
+      const transfers = batch(3, [ownerKey, secondOwnerKey])
+      const tx = NFTUtil.transferBatch({ transfers, fee: 100 })
+
+      assert.strictEqual(tx.inputs.length, 3)
+      assert.deepStrictEqual(
+        tx.outputs.map(output => output.satoshis),
+        [966, 967, 967],
+      )
+      transfers.forEach((transfer, index) => {
+        assert.ok(
+          tx.outputs[index].script.equals(
+            buildKeyPathTaproot(transfer.newOwnerKey, transfer.metadataHash),
+          ),
+        )
+      })
+      assert.ok(NFTUtil.validateBatchTransfer(tx))
+      assert.ok(verifyInputs(tx))
+    })
+
+    it('should pay the fee from funding inputs', () => {
+      const transfers = batch(50, [ownerKey])
+      const tx = NFTUtil.transferBatch({
+        transfers,
+        fundingUtxos: [
+          {
+            txId: FUNDING_TXID,
+            outputIndex: 0,
+            script: Script.buildPublicKeyHashOut(secondOwnerKey.publicKey),
+            satoshis: 1_000_000,
+          },
+        ],
+        fundingKey: secondOwnerKey,
+      })
+
+      assert.strictEqual(tx.inputs.length, 51)
+      assert.strictEqual(tx.outputs.length, 51)
+      assert.ok(
+        tx.outputs.slice(0, 50).every(output => output.satoshis === 1000),
+      )
+      assert.ok(
+        tx.outputs[50].script.equals(
+          Script.buildPublicKeyHashOut(secondOwnerKey.publicKey),
+        ),
+      )
+      assert.ok(tx.getFee() > 0)
+      assert.ok(tx.isFullySigned())
+      assert.ok(NFTUtil.validateBatchTransfer(tx))
+      assert.ok(verifyInputs(tx))
+    })
+
+    it('should reject invalid batches', () => {
+      const transfers = batch(2, [ownerKey])
+      assert.throws(
+        () => NFTUtil.transferBatch({ transfers: [] }),
+        /At least one NFT transfer/,
+      )
+      assert.throws(
+        () =>
+          NFTUtil.transferBatch({
+            transfers: [
+              transfers[0],
+              { ...transfers[1], currentOwnerKey: secondOwnerKey },
+            ],
+          }),
+        /Key does not own the NFT of transfer 1/,
+      )
+      assert.throws(
+        () =>
+          NFTUtil.transferBatch({ transfers: [transfers[0], transfers[0]] }),
+        /transferred more than once/,
+      )
+      assert.throws(
+        () => NFTUtil.transferBatch({ transfers, fee: 1000 }),
+        /dust limit/,
+      )
+      assert.throws(
+        () => NFTUtil.transferBatch({ transfers, fundingUtxos: [] }),
+        /Funding key is required/,
+      )
+    })
+
+    it('should detect batches that do not preserve every NFT', () => {
+      const transfers = batch(2, [ownerKey])
+      const tx = NFTUtil.transferBatch({ transfers })
+      tx.outputs[1] = new Output({
+        script: buildKeyPathTaproot(
+          secondOwnerKey.publicKey,
+          transfers[0].metadataHash,
+        ),
+        satoshis: 1000,
+      })
+      assert.ok(!NFTUtil.validateBatchTransfer(tx))
+    })
+  })
+
   describe('NFT Verification', () => {
     it('should identify NFT script', () => {
       const nft = NFTUtil.createKeyPathNFT(
@@ -589,4 +736,577 @@ describe('NFT Module', () => {
       })
     })
   })
+
+  describe('Atomic Swap', () => {
+    const NFT_TXID = '11'.repeat(32)
+    const FUNDING_TXID = '22'.repeat(32)
+    const PRICE = 5_000_000
+    const VERIFY_FLAGS =
+      Interpreter.SCRIPT_VERIFY_STRICTENC |
+      Interpreter.SCRIPT_ENABLE_SIGHASH_FORKID |
+      Interpreter.SCRIPT_ENABLE_SCHNORR_MULTISIG
+
+    let buyerKey: PrivateKey
+    let nftUtxo: NFTUtxo
+
+    function fundingUtxo(satoshis: number) {
+      return {
+        txId: FUNDING_TXID,
+        outputIndex: 1,
+        script: Script.buildPublicKeyHashOut(buyerKey.publicKey),
+        satoshis,
+      }
+    }
+
+    function verifyInput(tx: Transaction, index: number) {
+      const input = tx.inputs[index]
+      const interpreter = new Interpreter()
+      const valid = interpreter.verify(
+        input.script!,
+        input.output!.script,
+        tx,
+        index,
+        VERIFY_FLAGS,
+        BigInt(input.output!.satoshis),
+      )
+      return { valid, errstr: interpreter.errstr }
+    }
+
+    beforeEach(() => {
+      buyerKey = new PrivateKey(undefined, Networks.regtest)
+      const nft = NFTUtil.createKeyPathNFT(
+        ownerKey.publicKey,
+        metadata,
+        1000,
+        Networks.regtest,
+      )
+      nftUtxo = {
+        txid: NFT_TXID,
+        outputIndex: 0,
+        script: nft.script,
+        satoshis: 1000,
+      }
+    })
+
+    it('should create and verify a signed offer', () => {
+      const offer = NFTUtil.createSwapOffer({
+        sellerKey: ownerKey,
+        nftUtxo,
+        metadataHash,
+        price: PRICE,
+      })
+      assert.strictEqual(offer.signature.length, 65)
+      assert.strictEqual(offer.signature[64], NFTUtil.SWAP_SIGHASH_TYPE)
+      assert.strictEqual(offer.payment.satoshis, PRICE)
+      assert.ok(
+        offer.payment.script.equals(
+          Script.buildPublicKeyHashOut(ownerKey.publicKey),
+        ),
+      )
+      assert.ok(NFTUtil.verifySwapOffer(offer))
+    })
+
+    it('should round-trip offers through JSON', () => {
+      const offer = NFTUtil.createSwapOffer({
+        sellerKey: ownerKey,
+        nftUtxo,
+        metadataHash,
+        price: PRICE,
+      })
+      const decoded = NFTUtil.deserializeSwapOffer(
+        NFTUtil.serializeSwapOffer(offer),
+      )
+      assert.ok(NFTUtil.verifySwapOffer(decoded))
+      assert.ok(decoded.nftUtxo.script.equals(nftUtxo.script))
+      assert.ok(decoded.signature.equals(offer.signature))
+    })
+
+    it('should reject tampered offers and non-owners', () => {
+      const offer = NFTUtil.createSwapOffer({
+        sellerKey: ownerKey,
+        nftUtxo,
+        metadataHash,
+        price: PRICE,
+      })
+      const cheaper = {
+        ...offer,
+        payment: new Output({ script: offer.payment.script, satoshis: 1000 }),
+      }
+      assert.ok(!NFTUtil.verifySwapOffer(cheaper))
+      assert.throws(
+        () =>
+          NFTUtil.completeSwapOffer(cheaper, {
+            buyerKey,
+            fundingUtxos: [fundingUtxo(10_000_000)],
+          }),
+        /Invalid swap offer/,
+      )
+      assert.throws(
+        () =>
+          NFTUtil.createSwapOffer({
+            sellerKey: buyerKey,
+            nftUtxo,
+            metadataHash,
+            price: PRICE,
+          }),
+        /does not own/,
+      )
+    })
+
+    it('should complete the swap with a valid transaction', () => {
+      const offer = NFTUtil.deserializeSwapOffer(
+        NFTUtil.serializeSwapOffer(
+          NFTUtil.createSwapOffer({
+            sellerKey: ownerKey,
+            nftUtxo,
+            metadataHash,
+            price: PRICE,
+          }),
+        ),
+      )
+      const tx = NFTUtil.completeSwapOffer(offer, {
+        buyerKey,
+        fundingUtxos: [fundingUtxo(10_000_000)],
+      })
+
+      assert.strictEqual(tx.inputs.length, 2)
+      assert.strictEqual(tx.outputs.length, 3)
+      assert.strictEqual(tx.outputs[0].satoshis, PRICE)
+      assert.ok(
+        tx.outputs[1].script.equals(
+          buildKeyPathTaproot(buyerKey.publicKey, metadataHash),
+        ),
+      )
+      assert.strictEqual(tx.outputs[1].satoshis, 1000)
+      assert.ok(tx.isFullySigned())
+      assert.ok(NFTUtil.validateSwap(tx, offer))
+
+      for (const index of [0, 1]) {
+        const { valid, errstr } = verifyInput(tx, index)
+        assert.ok(valid, `Input ${index} should verify: ${errstr}`)
+      }
+    })
+
+    it('should reject insufficient funding', () => {
+      const offer = NFTUtil.createSwapOffer({
+        sellerKey: ownerKey,
+        nftUtxo,
+        metadataHash,
+        price: PRICE,
+      })
+      assert.throws(
+        () =>
+          NFTUtil.completeSwapOffer(offer, {
+            buyerKey,
+            fundingUtxos: [fundingUtxo(PRICE)],
+          }),
+        /Insufficient funds/,
+      )
+    })
+
+    it('should detect swaps that do not preserve the metadata hash', () => {
+      const offer = NFTUtil.createSwapOffer({
+        sellerKey: ownerKey,
+        nftUtxo,
+        metadataHash,
+        price: PRICE,
+      })
+      const tx = NFTUtil.completeSwapOffer(offer, {
+        buyerKey,
+        fundingUtxos: [fundingUtxo(10_000_000)],
+      })
+      tx.outputs[1] = new Output({
+        script: buildKeyPathTaproot(
+          buyerKey.publicKey,
+          Hash.sha256(Buffer.from('fake')),
+        ),
+        satoshis: 1000,
+      })
+      assert.ok(!NFTUtil.validateSwap(tx, offer))
+    })
+  })
+
+  describe('Policy Script Trees', () => {
+    const NFT_TXID = '33'.repeat(32)
+    const FUNDING_TXID = '44'.repeat(32)
+    const ROYALTY = 1_000_000
+    const LOCKTIME = 100_000
+    const VERIFY_FLAGS =
+      Interpreter.SCRIPT_VERIFY_STRICTENC |
+      Interpreter.SCRIPT_ENABLE_SIGHASH_FORKID |
+      Interpreter.SCRIPT_ENABLE_SCHNORR_MULTISIG |
+      Interpreter.SCRIPT_VERIFY_CHECKLOCKTIMEVERIFY
+
+    let creatorKey: PrivateKey
+    let escrowKey: PrivateKey
+    let newOwnerKey: PrivateKey
+    let policy: NFTPolicy
+
+    function policyUtxo(key: PublicKey, nftPolicy: NFTPolicy): NFTUtxo {
+      const nft = NFTUtil.createPolicyNFT(key, metadata, nftPolicy)
+      return {
+        txid: NFT_TXID,
+        outputIndex: 0,
+        script: nft.script,
+        satoshis: 1000,
+      }
+    }
+
+    function fundingUtxo(key: PrivateKey, satoshis: number) {
+      return {
+        txId: FUNDING_TXID,
+        outputIndex: 0,
+        script: Script.buildPublicKeyHashOut(key.publicKey),
+        satoshis,
+      }
+    }
+
+    function verifyInput(tx: Transaction, index: number) {
+      const input = tx.inputs[index]
+      const interpreter = new Interpreter()
+      const valid = interpreter.verify(
+        input.script!,
+        input.output!.script,
+        tx,
+        index,
+        VERIFY_FLAGS,
+        BigInt(input.output!.satoshis),
+      )
+      return { valid, errstr: interpreter.errstr }
+    }
+
+    // Re-sign input 0 validly after editing the outputs, so only the
+    // covenant can object
+    function resignPolicyInput(
+      tx: Transaction,
+      nftUtxo: NFTUtxo,
+      covenantSighashType: number,
+    ) {
+      const chunks = tx.inputs[0].script!.chunks
+      const leafScript = Script.fromBuffer(chunks[3].buf!)
+      const satoshisBN = new BN(nftUtxo.satoshis)
+      const signature = (type: number) =>
+        sign(
+          tx,
+          ownerKey,
+          type,
+          0,
+          leafScript,
+          satoshisBN,
+          undefined,
+          'schnorr',
+        ).toTxFormat('schnorr')
+      tx.inputs[0].setScript(
+        new Script()
+          .add(signature(NFTUtil.POLICY_SIGHASH_TYPE))
+          .add(signature(covenantSighashType))
+          .add(
+            sighashPreimage(tx, covenantSighashType, 0, leafScript, satoshisBN),
+          )
+          .add(chunks[3].buf!)
+          .add(chunks[4].buf!),
+      )
+    }
+
+    beforeEach(() => {
+      creatorKey = new PrivateKey(undefined, Networks.regtest)
+      escrowKey = new PrivateKey(undefined, Networks.regtest)
+      newOwnerKey = new PrivateKey(undefined, Networks.regtest)
+      policy = {
+        royalty: { address: creatorKey.toAddress(), satoshis: ROYALTY },
+        burnable: true,
+      }
+    })
+
+    it('should commit the enabled leaves to the script tree', () => {
+      const nft = NFTUtil.createPolicyNFT(ownerKey.publicKey, metadata, {
+        ...policy,
+        escrow: { publicKey: escrowKey.publicKey, locktime: LOCKTIME },
+      })
+      assert.strictEqual(nft.leaves.length, 3)
+      assert.ok(
+        nft.internalPubKey
+          .toBuffer()
+          .equals(NFTUtil.UNSPENDABLE_KEY.toBuffer()),
+      )
+      assert.ok(NFTUtil.extractMetadataHash(nft.script)!.equals(metadataHash))
+
+      // Without a royalty the owner keeps the key path
+      const burnable = NFTUtil.createPolicyNFT(ownerKey.publicKey, metadata, {
+        burnable: true,
+      })
+      assert.strictEqual(burnable.leaves.length, 1)
+      assert.ok(
+        burnable.internalPubKey
+          .toBuffer()
+          .equals(ownerKey.publicKey.toBuffer()),
+      )
+      assert.throws(
+        () => NFTUtil.createPolicyNFT(ownerKey.publicKey, metadata, {}),
+        /at least one leaf/,
+      )
+    })
+
+    it('should transfer through the royalty leaf', () => {
+      const nftUtxo = policyUtxo(ownerKey.publicKey, policy)
+      const tx = NFTUtil.transferWithRoyalty({
+        currentOwnerKey: ownerKey,
+        newOwnerKey: newOwnerKey.publicKey,
+        nftUtxo,
+        metadataHash,
+        policy,
+        fundingUtxos: [fundingUtxo(ownerKey, 5_000_000)],
+      })
+
+      assert.strictEqual(tx.outputs[0].satoshis, ROYALTY)
+      assert.ok(
+        tx.outputs[0].script.equals(
+          Script.buildPublicKeyHashOut(creatorKey.publicKey),
+        ),
+      )
+      // The new owner's NFT carries the same policy
+      assert.ok(
+        tx.outputs[1].script.equals(
+          NFTUtil.createPolicyNFT(newOwnerKey.publicKey, metadata, policy)
+            .script,
+        ),
+      )
+      assert.ok(tx.isFullySigned())
+      for (let index = 0; index < tx.inputs.length; index++) {
+        assert.deepStrictEqual(verifyInput(tx, index), {
+          valid: true,
+          errstr: '',
+        })
+      }
+    })
+
+    it('should reject royalty leaf spends that underpay the creator', () => {
+      const nftUtxo = policyUtxo(ownerKey.publicKey, policy)
+      const tx = NFTUtil.transferWithRoyalty({
+        currentOwnerKey: ownerKey,
+        newOwnerKey: newOwnerKey.publicKey,
+        nftUtxo,
+        metadataHash,
+        policy,
+        fundingUtxos: [fundingUtxo(ownerKey, 5_000_000)],
+      })
+      tx.outputs[0] = new Output({
+        script: tx.outputs[0].script,
+        satoshis: ROYALTY / 2,
+      })
+
+      resignPolicyInput(tx, nftUtxo, NFTUtil.COVENANT_SIGHASH_TYPE)
+      assert.deepStrictEqual(verifyInput(tx, 0), {
+        valid: false,
+        errstr: 'SCRIPT_ERR_EQUALVERIFY',
+      })
+    })
+
+    it('should refuse new policies that drop the royalty', () => {
+      const nftUtxo = policyUtxo(ownerKey.publicKey, policy)
+      for (const newPolicy of [
+        { burnable: true },
+        { ...policy, royalty: { ...policy.royalty!, satoshis: 546 } },
+        {
+          ...policy,
+          royalty: { address: newOwnerKey.toAddress(), satoshis: ROYALTY },
+        },
+      ]) {
+        assert.throws(
+          () =>
+            NFTUtil.transferWithRoyalty({
+              currentOwnerKey: ownerKey,
+              newOwnerKey: newOwnerKey.publicKey,
+              nftUtxo,
+              metadataHash,
+              policy,
+              newPolicy,
+              fundingUtxos: [fundingUtxo(ownerKey, 5_000_000)],
+            }),
+          /must keep the royalty/,
+        )
+      }
+    })
+
+    it('should only enforce the royalty on the spent output', () => {
+      const nftUtxo = policyUtxo(ownerKey.publicKey, policy)
+      const tx = NFTUtil.transferWithRoyalty({
+        currentOwnerKey: ownerKey,
+        newOwnerKey: newOwnerKey.publicKey,
+        nftUtxo,
+        metadataHash,
+        policy,
+        fundingUtxos: [fundingUtxo(ownerKey, 5_000_000)],
+      })
+      // A hand-built transfer can move the NFT to a plain key path output
+      tx.outputs[1] = new Output({
+        script: buildKeyPathTaproot(newOwnerKey.publicKey, metadataHash),
+        satoshis: nftUtxo.satoshis,
+      })
+
+      resignPolicyInput(tx, nftUtxo, NFTUtil.COVENANT_SIGHASH_TYPE)
+      assert.deepStrictEqual(verifyInput(tx, 0), { valid: true, errstr: '' })
+    })
+
+    it('should provably burn through the burn leaf', () => {
+      const nftUtxo = policyUtxo(ownerKey.publicKey, policy)
+      const tx = NFTUtil.burnNFT({
+        ownerKey,
+        nftUtxo,
+        metadataHash,
+        policy,
+      })
+
+      // The NFT's value goes to the fee
+      assert.strictEqual(tx.outputs.length, 1)
+      assert.strictEqual(tx.outputs[0].satoshis, 0)
+      assert.ok(tx.outputs[0].script.isDataOut())
+      assert.ok(NFTUtil.validateBurn(tx, metadataHash))
+      assert.deepStrictEqual(verifyInput(tx, 0), { valid: true, errstr: '' })
+
+      assert.throws(
+        () =>
+          NFTUtil.burnNFT({
+            ownerKey,
+            nftUtxo,
+            metadataHash,
+            policy: { royalty: policy.royalty },
+          }),
+        /no burn leaf/,
+      )
+    })
+
+    it('should reject burn leaf spends that recreate the NFT', () => {
+      const nftUtxo = policyUtxo(ownerKey.publicKey, policy)
+      const tx = NFTUtil.burnNFT({ ownerKey, nftUtxo, metadataHash, policy })
+      // OP_RETURN at output 0, the NFT moved to output 1 without a royalty
+      tx.addOutput(
+        new Output({
+          script: NFTUtil.createPolicyNFT(newOwnerKey.publicKey, metadata, {
+            burnable: true,
+          }).script,
+          satoshis: nftUtxo.satoshis,
+        }),
+      )
+
+      // hashOutputs of an ALL preimage now covers the recreated NFT
+      resignPolicyInput(tx, nftUtxo, NFTUtil.POLICY_SIGHASH_TYPE)
+      assert.deepStrictEqual(verifyInput(tx, 0), {
+        valid: false,
+        errstr: 'SCRIPT_ERR_EQUALVERIFY',
+      })
+
+      // A SINGLE preimage only covers the OP_RETURN, but has the wrong type
+      resignPolicyInput(tx, nftUtxo, NFTUtil.COVENANT_SIGHASH_TYPE)
+      assert.deepStrictEqual(verifyInput(tx, 0), {
+        valid: false,
+        errstr: 'SCRIPT_ERR_EQUALVERIFY',
+      })
+      assert.strictEqual(NFTUtil.validateBurn(tx, metadataHash), false)
+    })
+
+    it('should let the escrow key claim after the lock time', () => {
+      const escrowPolicy: NFTPolicy = {
+        escrow: { publicKey: escrowKey.publicKey, locktime: LOCKTIME },
+      }
+      const nftUtxo = policyUtxo(ownerKey.publicKey, escrowPolicy)
+      const tx = NFTUtil.claimEscrow({
+        escrowKey,
+        ownerKey: ownerKey.publicKey,
+        nftUtxo,
+        metadataHash,
+        policy: escrowPolicy,
+        fundingUtxos: [fundingUtxo(escrowKey, 100_000)],
+      })
+
+      assert.strictEqual(tx.nLockTime, LOCKTIME)
+      assert.ok(
+        tx.outputs[0].script.equals(
+          buildKeyPathTaproot(escrowKey.publicKey, metadataHash),
+        ),
+      )
+      assert.deepStrictEqual(verifyInput(tx, 0), { valid: true, errstr: '' })
+
+      tx.nLockTime = LOCKTIME - 1
+      assert.deepStrictEqual(verifyInput(tx, 0), {
+        valid: false,
+        errstr: 'SCRIPT_ERR_UNSATISFIED_LOCKTIME',
+      })
+    })
+
+    it('should pay the royalty when claiming escrow', () => {
+      const escrowPolicy: NFTPolicy = {
+        ...policy,
+        escrow: { publicKey: escrowKey.publicKey, locktime: LOCKTIME },
+      }
+      const nftUtxo = policyUtxo(ownerKey.publicKey, escrowPolicy)
+      const tx = NFTUtil.claimEscrow({
+        escrowKey,
+        ownerKey: ownerKey.publicKey,
+        nftUtxo,
+        metadataHash,
+        policy: escrowPolicy,
+        recipientKey: newOwnerKey.publicKey,
+        fundingUtxos: [fundingUtxo(escrowKey, 5_000_000)],
+      })
+
+      assert.strictEqual(tx.outputs[0].satoshis, ROYALTY)
+      assert.ok(
+        tx.outputs[1].script.equals(
+          NFTUtil.createPolicyNFT(newOwnerKey.publicKey, metadata, policy)
+            .script,
+        ),
+      )
+      for (let index = 0; index < tx.inputs.length; index++) {
+        assert.deepStrictEqual(verifyInput(tx, index), {
+          valid: true,
+          errstr: '',
+        })
+      }
+
+      assert.throws(
+        () =>
+          NFTUtil.claimEscrow({
+            escrowKey: newOwnerKey,
+            ownerKey: ownerKey.publicKey,
+            nftUtxo,
+            metadataHash,
+            policy: escrowPolicy,
+            fundingUtxos: [fundingUtxo(newOwnerKey, 5_000_000)],
+          }),
+        /does not belong to the escrow leaf/,
+      )
+    })
+
+    it('should reject UTXOs that do not match the policy', () => {
+      const nftUtxo = policyUtxo(ownerKey.publicKey, policy)
+      assert.throws(
+        () =>
+          NFTUtil.transferWithRoyalty({
+            currentOwnerKey: ownerKey,
+            newOwnerKey: newOwnerKey.publicKey,
+            nftUtxo,
+            metadataHash,
+            policy: {
+              ...policy,
+              royalty: { address: creatorKey.toAddress(), satoshis: 546 },
+            },
+            fundingUtxos: [fundingUtxo(ownerKey, 5_000_000)],
+          }),
+        /does not match the policy/,
+      )
+      assert.throws(
+        () =>
+          NFTUtil.transferWithRoyalty({
+            currentOwnerKey: ownerKey,
+            newOwnerKey: newOwnerKey.publicKey,
+            nftUtxo,
+            metadataHash,
+            policy,
+            fundingUtxos: [fundingUtxo(ownerKey, ROYALTY)],
+          }),
+        /Insufficient funds/,
+      )
+    })
+  })
 })
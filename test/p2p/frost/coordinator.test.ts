@@ -0,0 +1,241 @@
+/**
+ * FROST P2P Coordinator Tests
+ *
+ * Covers a DKG ceremony between five peers, threshold signing with a subset
+ * of them while the others are offline, and identifiable aborts for invalid
+ * packages, invalid partial signatures and unresponsive signers.
+ */
+
+import { describe, it, afterEach } from 'node:test'
+import assert from 'node:assert'
+import { FrostP2PCoordinator } from '../../../lib/p2p/frost/coordinator.js'
+import {
+  FrostEvent,
+  FrostMessageType,
+  type FrostGroup,
+  type FrostP2PConfig,
+  type FrostParticipant,
+} from '../../../lib/p2p/frost/types.js'
+import {
+  Hash,
+  PrivateKey,
+  Schnorr,
+  buildFrostTaprootKey,
+  type Signature,
+} from '../../../lib/bitcore/index.js'
+import { FakeNetwork, waitFor } from '../helpers/fake-network.js'
+
+interface Peer {
+  frost: FrostP2PCoordinator
+  privateKey: PrivateKey
+  group?: FrostGroup
+  dkgAborts: { reason: string; culprits: number[] }[]
+  signatures: Map<string, Signature>
+  signingAborts: Map<string, { reason: string; culprits: number[] }>
+}
+
+const running: FrostP2PCoordinator[] = []
+
+/**
+ * Start peers that join every DKG and approve every signing request
+ */
+function startPeers(
+  network: FakeNetwork,
+  count: number,
+  config?: FrostP2PConfig,
+): { peers: Peer[]; participants: FrostParticipant[] } {
+  const peers = Array.from({ length: count }, (_, i) => {
+    const frost = new FrostP2PCoordinator(network.node(`peer-${i + 1}`), config)
+    running.push(frost)
+    const peer: Peer = {
+      frost,
+      privateKey: new PrivateKey(),
+      dkgAborts: [],
+      signatures: new Map(),
+      signingAborts: new Map(),
+    }
+
+    frost.on(FrostEvent.DKG_REQUESTED, sessionId => {
+      frost.joinDkg(sessionId, peer.privateKey).catch(() => undefined)
+    })
+    frost.on(FrostEvent.DKG_COMPLETE, (_, group) => {
+      peer.group = group
+    })
+    frost.on(FrostEvent.DKG_ABORTED, (_, reason, culprits) => {
+      peer.dkgAborts.push({ reason, culprits })
+    })
+    frost.on(FrostEvent.SIGNING_REQUESTED, sessionId => {
+      frost.approveSigning(sessionId, peer.group!).catch(() => undefined)
+    })
+    frost.on(FrostEvent.SIGNING_COMPLETE, (sessionId, signature) => {
+      peer.signatures.set(sessionId, signature)
+    })
+    frost.on(FrostEvent.SIGNING_ABORTED, (sessionId, reason, culprits) => {
+      peer.signingAborts.set(sessionId, { reason, culprits })
+    })
+    return peer
+  })
+
+  const participants = peers.map(peer => ({
+    peerId: peer.frost.peerId,
+    publicKey: peer.privateKey.publicKey,
+  }))
+  return { peers, participants }
+}
+
+/**
+ * Run a 3-of-5 DKG initiated by the first peer
+ */
+async function runDkg(network: FakeNetwork, config?: FrostP2PConfig) {
+  const { peers, participants } = startPeers(network, 5, config)
+  await peers[0].frost.createDkg(participants, 3, peers[0].privateKey)
+  await waitFor(() => peers.every(peer => peer.group), 'DKG completion')
+  return peers
+}
+
+const message = Hash.sha256(Buffer.from('FROST P2P signing'))
+
+describe('FrostP2PCoordinator', () => {
+  afterEach(async () => {
+    for (const frost of running.splice(0)) {
+      await frost.cleanup()
+    }
+  })
+
+  it('should run a DKG giving every peer the same group key', async () => {
+    const peers = await runDkg(new FakeNetwork())
+
+    const groupKey = peers[0].group!.keyShare.groupPublicKey.toString()
+    peers.forEach((peer, i) => {
+      assert.strictEqual(
+        peer.group!.keyShare.groupPublicKey.toString(),
+        groupKey,
+      )
+      assert.strictEqual(peer.group!.keyShare.participantIndex, i + 1)
+      assert.strictEqual(peer.group!.participants.length, 5)
+    })
+  })
+
+  it('should sign with three of five peers while two are offline', async () => {
+    const network = new FakeNetwork()
+    const peers = await runDkg(network)
+    network.offline.add(peers[0].frost.peerId)
+    network.offline.add(peers[2].frost.peerId)
+
+    const group = peers[1].group!
+    const taproot = buildFrostTaprootKey(group.keyShare.groupPublicKey)
+    const sessionId = await peers[1].frost.requestSignature(
+      group,
+      message,
+      [2, 4, 5],
+      taproot.tweak,
+    )
+
+    const signers = [peers[1], peers[3], peers[4]]
+    await waitFor(
+      () => signers.every(peer => peer.signatures.has(sessionId)),
+      'signing completion',
+    )
+    for (const peer of signers) {
+      assert.strictEqual(
+        Schnorr.verify(
+          message,
+          peer.signatures.get(sessionId)!,
+          taproot.commitment,
+          'big',
+        ),
+        true,
+      )
+    }
+  })
+
+  it('should abort the DKG naming a peer with an invalid package', async () => {
+    const network = new FakeNetwork()
+    const { peers, participants } = startPeers(network, 3)
+    network.tamper = (from, message) => {
+      if (
+        from === participants[2].peerId &&
+        message.type === FrostMessageType.DKG_COMMITMENT
+      ) {
+        const payload = message.payload as { proofMu: string }
+        payload.proofMu = '00'.repeat(31) + '01'
+      }
+    }
+
+    await peers[0].frost.createDkg(participants, 2, peers[0].privateKey)
+    await waitFor(
+      () => peers[0].dkgAborts.length > 0 && peers[1].dkgAborts.length > 0,
+      'DKG abort',
+    )
+    assert.deepStrictEqual(peers[0].dkgAborts[0].culprits, [3])
+    assert.deepStrictEqual(peers[1].dkgAborts[0].culprits, [3])
+    assert.ok(peers.every(peer => !peer.group))
+  })
+
+  it('should abort signing naming a signer with an invalid partial signature', async () => {
+    const network = new FakeNetwork()
+    const peers = await runDkg(network)
+    network.tamper = (from, message) => {
+      if (
+        from === peers[3].frost.peerId &&
+        message.type === FrostMessageType.SIGNATURE_SHARE
+      ) {
+        const payload = message.payload as { partialSig: string }
+        payload.partialSig = '00'.repeat(31) + '01'
+      }
+    }
+
+    const sessionId = await peers[0].frost.requestSignature(
+      peers[0].group!,
+      message,
+      [1, 2, 4],
+    )
+    await waitFor(
+      () =>
+        peers[0].signingAborts.has(sessionId) &&
+        peers[1].signingAborts.has(sessionId),
+      'signing abort',
+    )
+    assert.deepStrictEqual(peers[0].signingAborts.get(sessionId)!.culprits, [4])
+    assert.deepStrictEqual(peers[1].signingAborts.get(sessionId)!.culprits, [4])
+    assert.ok(peers.every(peer => !peer.signatures.has(sessionId)))
+  })
+
+  it('should time out naming signers that did not respond', async () => {
+    const network = new FakeNetwork()
+    const peers = await runDkg(network, { signingTimeout: 200 })
+    network.offline.add(peers[4].frost.peerId)
+
+    const sessionId = await peers[0].frost.requestSignature(
+      peers[0].group!,
+      message,
+      [1, 2, 5],
+    )
+    await waitFor(
+      () => peers[0].signingAborts.has(sessionId),
+      'signing timeout',
+    )
+    assert.deepStrictEqual(peers[0].signingAborts.get(sessionId), {
+      reason: 'Signing timed out',
+      culprits: [5],
+    })
+  })
+
+  it('should reject invalid signing requests', async () => {
+    const peers = await runDkg(new FakeNetwork())
+    const group = peers[0].group!
+
+    await assert.rejects(
+      peers[0].frost.requestSignature(group, message, [1, 2]),
+      /at least 3/,
+    )
+    await assert.rejects(
+      peers[0].frost.requestSignature(group, message, [1, 2, 6]),
+      /at least 3/,
+    )
+    await assert.rejects(
+      peers[0].frost.requestSignature(group, message.subarray(1), [1, 2, 3]),
+      /32 bytes/,
+    )
+  })
+})
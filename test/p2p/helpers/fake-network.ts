@@ -0,0 +1,106 @@
+/**
+ * In-process P2P Network for Tests
+ *
+ * Stands in for libp2p in protocol tests: FakeNetwork hands each peer a fake
+ * P2PCoordinator and delivers their direct messages and broadcasts to the
+ * other peers' protocol handlers on the next turn of the event loop.
+ */
+
+import type { P2PCoordinator } from '../../../lib/p2p/coordinator.js'
+import type { IProtocolHandler, P2PMessage } from '../../../lib/p2p/types.js'
+
+/**
+ * FakeNetwork options
+ */
+export interface FakeNetworkOptions {
+  /**
+   * Also hand broadcasts to the sender's own protocol handler once sent, as
+   * P2PCoordinator.broadcast() does (default: false)
+   */
+  selfDelivery?: boolean
+}
+
+/**
+ * In-process network delivering messages between fake P2P coordinators
+ */
+export class FakeNetwork {
+  handlers = new Map<string, IProtocolHandler>()
+
+  /** Peers whose messages are dropped, both sent and received */
+  offline = new Set<string>()
+
+  /** Called with every delivered copy of a message, before it is handled */
+  tamper?: (from: string, message: P2PMessage) => void
+
+  constructor(private options: FakeNetworkOptions = {}) {}
+
+  deliver(from: string, to: string, message: P2PMessage): void {
+    const handler = this.handlers.get(to)
+    if (!handler || this.offline.has(from) || this.offline.has(to)) {
+      return
+    }
+    // Round-trip through JSON like a real transport
+    const received = JSON.parse(JSON.stringify(message)) as P2PMessage
+    this.tamper?.(from, received)
+    setImmediate(() => {
+      handler.handleMessage(received, { peerId: from } as never)
+    })
+  }
+
+  /**
+   * Fake P2P coordinator of a peer on this network
+   */
+  node(peerId: string): P2PCoordinator {
+    const fake = {
+      peerId,
+      registerProtocol: (handler: IProtocolHandler) => {
+        this.handlers.set(peerId, handler)
+      },
+      getCoreSecurityManager: () => ({
+        registerProtocolValidator: () => undefined,
+      }),
+      subscribeToTopic: async () => undefined,
+      unsubscribeFromTopic: async () => undefined,
+      publishToTopic: async () => undefined,
+      sendTo: async (to: string, message: P2PMessage) => {
+        this.deliver(peerId, to, message)
+      },
+      broadcast: async (
+        message: P2PMessage,
+        options: { includedOnly: string[] },
+      ) => {
+        for (const to of options.includedOnly) {
+          this.deliver(peerId, to, message)
+        }
+        if (this.options.selfDelivery) {
+          await this.handlers
+            .get(peerId)
+            ?.handleMessage(message, { peerId } as never)
+        }
+      },
+    }
+    return fake as unknown as P2PCoordinator
+  }
+}
+
+/**
+ * Poll until a condition holds
+ *
+ * @param condition - Checked every 5 ms; may be async
+ * @param what - Description for the timeout error
+ * @param timeout - Milliseconds before giving up (default: 5000)
+ * @throws Error if the condition does not hold in time
+ */
+export async function waitFor(
+  condition: () => boolean | Promise<boolean>,
+  what: string,
+  timeout = 5000,
+): Promise<void> {
+  const deadline = Date.now() + timeout
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for ${what}`)
+    }
+    await new Promise(resolve => setTimeout(resolve, 5))
+  }
+}
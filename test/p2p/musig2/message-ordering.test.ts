@@ -0,0 +1,166 @@
+/**
+ * MuSig2 Message Ordering Tests
+ *
+ * Covers MuSig2P2PCoordinator sessions where the other signer's nonce and
+ * partial signature arrive before our own are created, and broadcasts that
+ * P2PCoordinator also delivers back to the sender.
+ */
+
+import { describe, it, afterEach } from 'node:test'
+import assert from 'node:assert'
+import { MuSig2P2PCoordinator } from '../../../lib/p2p/musig2/coordinator.js'
+import {
+  MuSig2Event,
+  type MuSig2P2PConfig,
+  type SessionAnnouncement,
+} from '../../../lib/p2p/musig2/types.js'
+import {
+  Hash,
+  PrivateKey,
+  Schnorr,
+  Signature,
+} from '../../../lib/bitcore/index.js'
+import { FakeNetwork, waitFor } from '../helpers/fake-network.js'
+
+const config: MuSig2P2PConfig = {
+  enableAutoCleanup: false,
+  enableCoordinatorElection: false,
+}
+
+const message = Hash.sha256(Buffer.from('message ordering'))
+
+// The joining signer assumes the coordinator has signer index 0
+const [aliceKey, bobKey] = [new PrivateKey(), new PrivateKey()].sort((a, b) =>
+  a.publicKey.toBuffer().compare(b.publicKey.toBuffer()),
+)
+
+interface Signer {
+  coordinator: MuSig2P2PCoordinator
+  events: string[]
+  errors: unknown[]
+}
+
+const running: MuSig2P2PCoordinator[] = []
+
+function startSigner(network: FakeNetwork, peerId: string): Signer {
+  const coordinator = new MuSig2P2PCoordinator(network.node(peerId), config)
+  running.push(coordinator)
+
+  const signer: Signer = { coordinator, events: [], errors: [] }
+  for (const event of [
+    MuSig2Event.NONCES_COMPLETE,
+    MuSig2Event.PARTIAL_SIGS_COMPLETE,
+    MuSig2Event.SESSION_ABORTED,
+  ]) {
+    coordinator.on(event, () => signer.events.push(event))
+  }
+  coordinator.on('protocol:error', error => signer.errors.push(error))
+  return signer
+}
+
+/**
+ * Create a session on alice and join it from bob
+ */
+async function setupSession(alice: Signer, bob: Signer): Promise<string> {
+  const sessionId = await alice.coordinator.createSession(
+    [aliceKey.publicKey, bobKey.publicKey],
+    aliceKey,
+    message,
+  )
+  await alice.coordinator.announceSession(sessionId)
+  const announcement = alice.coordinator.getSession(sessionId)!
+    .announcement as SessionAnnouncement
+  await bob.coordinator.joinSession(announcement, bobKey, message)
+  await waitFor(
+    () => bob.coordinator.getParticipants(sessionId).length === 1,
+    'join acknowledgment',
+  )
+  return sessionId
+}
+
+describe('MuSig2 message ordering', () => {
+  afterEach(async () => {
+    for (const coordinator of running.splice(0)) {
+      await coordinator.cleanup()
+    }
+  })
+
+  it('should complete rounds whose other messages arrived first', async () => {
+    const network = new FakeNetwork({ selfDelivery: true })
+    const alice = startSigner(network, 'alice')
+    const bob = startSigner(network, 'bob')
+    const sessionId = await setupSession(alice, bob)
+    const aliceSession = alice.coordinator.getSession(sessionId)!.session
+
+    // Bob's nonce reaches alice before she generates hers
+    await bob.coordinator.shareNonces(sessionId, bobKey)
+    await waitFor(
+      () => aliceSession.receivedPublicNonces.size === 1,
+      "bob's nonce",
+    )
+    assert.deepStrictEqual(alice.events, [])
+
+    await alice.coordinator.shareNonces(sessionId, aliceKey)
+    assert.deepStrictEqual(alice.events, [MuSig2Event.NONCES_COMPLETE])
+    await waitFor(() => bob.events.length === 1, 'nonces on bob')
+    assert.deepStrictEqual(bob.events, [MuSig2Event.NONCES_COMPLETE])
+
+    // Bob's partial signature reaches alice before she signs
+    await bob.coordinator.sharePartialSignature(sessionId, bobKey)
+    await waitFor(
+      () => aliceSession.receivedPartialSigs.size === 1,
+      "bob's partial signature",
+    )
+    assert.strictEqual(alice.events.length, 1)
+
+    await alice.coordinator.sharePartialSignature(sessionId, aliceKey)
+    assert.deepStrictEqual(alice.events, [
+      MuSig2Event.NONCES_COMPLETE,
+      MuSig2Event.PARTIAL_SIGS_COMPLETE,
+    ])
+    await waitFor(() => bob.events.length === 2, 'partial sigs on bob')
+    assert.deepStrictEqual(bob.events, alice.events)
+
+    const signature = await alice.coordinator.finalizeSession(sessionId)
+    assert.ok(
+      Schnorr.verify(
+        message,
+        Signature.fromSchnorr(signature),
+        aliceSession.keyAggContext.aggregatedPubKey,
+        'big',
+      ),
+    )
+    assert.deepStrictEqual([...alice.errors, ...bob.errors], [])
+  })
+
+  it('should ignore its own broadcasts', async () => {
+    const network = new FakeNetwork({ selfDelivery: true })
+    const alice = startSigner(network, 'alice')
+    const bob = startSigner(network, 'bob')
+    const sessionId = await setupSession(alice, bob)
+
+    await alice.coordinator.shareNonces(sessionId, aliceKey)
+    await bob.coordinator.shareNonces(sessionId, bobKey)
+    await waitFor(
+      () => alice.events.length === 1 && bob.events.length === 1,
+      'nonce exchange',
+    )
+    await alice.coordinator.sharePartialSignature(sessionId, aliceKey)
+    await bob.coordinator.sharePartialSignature(sessionId, bobKey)
+    await waitFor(
+      () => alice.events.length === 2 && bob.events.length === 2,
+      'partial signature exchange',
+    )
+    assert.deepStrictEqual([...alice.errors, ...bob.errors], [])
+
+    // Our own abort is not handled a second time as if from a peer
+    await alice.coordinator.abortSession(sessionId, 'Test abort')
+    await waitFor(() => bob.events.length === 3, 'abort on bob')
+    assert.deepStrictEqual(
+      alice.events.filter(event => event === MuSig2Event.SESSION_ABORTED),
+      [MuSig2Event.SESSION_ABORTED],
+    )
+    assert.deepStrictEqual(bob.events.at(-1), MuSig2Event.SESSION_ABORTED)
+    assert.deepStrictEqual([...alice.errors, ...bob.errors], [])
+  })
+})
@@ -0,0 +1,310 @@
+/**
+ * MuSig2 Session Recovery Tests
+ *
+ * Covers session persistence in MuSig2P2PCoordinator, recovery of missed
+ * nonces and partial signatures from peers after a restart, refusal to sign
+ * with a lost secret nonce, and the peer reconnect timeout.
+ */
+
+import { describe, it, afterEach } from 'node:test'
+import assert from 'node:assert'
+import { MuSig2P2PCoordinator } from '../../../lib/p2p/musig2/coordinator.js'
+import {
+  InMemorySessionStorage,
+  SessionPersistence,
+} from '../../../lib/p2p/musig2/session-persistence.js'
+import {
+  MuSig2Event,
+  MuSig2MessageType,
+  type MuSig2P2PConfig,
+  type SessionAnnouncement,
+} from '../../../lib/p2p/musig2/types.js'
+import { MuSigSessionPhase } from '../../../lib/bitcore/musig2/session.js'
+import type { P2PMessage } from '../../../lib/p2p/types.js'
+import { Hash, PrivateKey, Schnorr } from '../../../lib/bitcore/index.js'
+import { FakeNetwork, waitFor } from '../helpers/fake-network.js'
+
+const config: MuSig2P2PConfig = {
+  enableAutoCleanup: false,
+  enableCoordinatorElection: false,
+}
+
+const message = Hash.sha256(Buffer.from('session recovery'))
+
+// The joining signer assumes the coordinator has signer index 0
+const [aliceKey, bobKey] = [new PrivateKey(), new PrivateKey()].sort((a, b) =>
+  a.publicKey.toBuffer().compare(b.publicKey.toBuffer()),
+)
+
+const running: MuSig2P2PCoordinator[] = []
+
+function startCoordinator(
+  network: FakeNetwork,
+  peerId: string,
+  persistence?: SessionPersistence,
+  musig2Config: MuSig2P2PConfig = config,
+): MuSig2P2PCoordinator {
+  const coordinator = new MuSig2P2PCoordinator(
+    network.node(peerId),
+    musig2Config,
+    undefined,
+    undefined,
+    undefined,
+    persistence,
+  )
+  running.push(coordinator)
+  return coordinator
+}
+
+/**
+ * Create a session on alice and join it from bob
+ */
+async function setupSession(
+  alice: MuSig2P2PCoordinator,
+  bob: MuSig2P2PCoordinator,
+): Promise<string> {
+  const sessionId = await alice.createSession(
+    [aliceKey.publicKey, bobKey.publicKey],
+    aliceKey,
+    message,
+  )
+  await alice.announceSession(sessionId)
+  const announcement = alice.getSession(sessionId)!
+    .announcement as SessionAnnouncement
+  await bob.joinSession(announcement, bobKey, message)
+  await waitFor(
+    () => bob.getParticipants(sessionId).length === 1,
+    'join acknowledgment',
+  )
+  return sessionId
+}
+
+async function exchangeNonces(
+  alice: MuSig2P2PCoordinator,
+  bob: MuSig2P2PCoordinator,
+  sessionId: string,
+): Promise<void> {
+  await alice.shareNonces(sessionId, aliceKey)
+  await bob.shareNonces(sessionId, bobKey)
+  await waitFor(
+    () =>
+      [alice, bob].every(
+        coordinator =>
+          coordinator.getSession(sessionId)?.session.phase ===
+          MuSigSessionPhase.PARTIAL_SIG_EXCHANGE,
+      ),
+    'nonce exchange',
+  )
+}
+
+describe('MuSig2 session recovery', () => {
+  afterEach(async () => {
+    for (const coordinator of running.splice(0)) {
+      await coordinator.cleanup()
+    }
+  })
+
+  it('should persist sessions and delete them once complete', async () => {
+    const network = new FakeNetwork()
+    const aliceStorage = new InMemorySessionStorage()
+    const bobStorage = new InMemorySessionStorage()
+    const alice = startCoordinator(
+      network,
+      'alice',
+      new SessionPersistence(aliceStorage),
+    )
+    const bob = startCoordinator(
+      network,
+      'bob',
+      new SessionPersistence(bobStorage),
+    )
+
+    const sessionId = await setupSession(alice, bob)
+    await waitFor(
+      async () =>
+        (await aliceStorage.load(sessionId))?.participants.length === 1,
+      'persisted participant',
+    )
+    assert.strictEqual(
+      (await aliceStorage.load(sessionId))!.phase,
+      MuSigSessionPhase.INIT,
+    )
+
+    await exchangeNonces(alice, bob, sessionId)
+    await waitFor(
+      async () =>
+        (await aliceStorage.load(sessionId))?.phase ===
+        MuSigSessionPhase.PARTIAL_SIG_EXCHANGE,
+      'persisted phase',
+    )
+    const persisted = (await aliceStorage.load(sessionId))!
+    assert.ok(persisted.myPublicNonce)
+    assert.deepStrictEqual(Object.keys(persisted.receivedNonces), ['1'])
+    // The secret nonce never reaches storage
+    assert.ok(!JSON.stringify(persisted).includes('mySecretNonce'))
+
+    await alice.sharePartialSignature(sessionId, aliceKey)
+    assert.ok((await aliceStorage.load(sessionId))!.myPartialSig)
+    await bob.sharePartialSignature(sessionId, bobKey)
+    await waitFor(() => alice.canFinalizeSession(sessionId), 'partial sigs')
+    await alice.finalizeSession(sessionId)
+
+    await waitFor(
+      async () =>
+        (await aliceStorage.loadAll()).length === 0 &&
+        (await bobStorage.loadAll()).length === 0,
+      'deleted sessions',
+    )
+  })
+
+  it('should recover missed partial signatures after a restart', async () => {
+    const network = new FakeNetwork()
+    const aliceStorage = new InMemorySessionStorage()
+    const alice = startCoordinator(
+      network,
+      'alice',
+      new SessionPersistence(aliceStorage),
+    )
+    const bob = startCoordinator(network, 'bob')
+
+    const sessionId = await setupSession(alice, bob)
+    await exchangeNonces(alice, bob, sessionId)
+
+    // Alice signs and crashes before her partial signature goes out, then
+    // misses bob's partial signature while down
+    network.offline.add('alice')
+    await alice.sharePartialSignature(sessionId, aliceKey)
+    await alice.cleanup()
+    running.splice(running.indexOf(alice), 1)
+    await bob.sharePartialSignature(sessionId, bobKey)
+    network.offline.delete('alice')
+
+    const restarted = startCoordinator(
+      network,
+      'alice',
+      new SessionPersistence(aliceStorage),
+    )
+    const recovered: unknown[][] = []
+    restarted.on(MuSig2Event.SESSION_RECOVERED, (...args) =>
+      recovered.push(args),
+    )
+    await restarted.initialize()
+    assert.deepStrictEqual(recovered, [
+      [sessionId, MuSigSessionPhase.PARTIAL_SIG_EXCHANGE],
+    ])
+
+    await waitFor(
+      () =>
+        restarted.canFinalizeSession(sessionId) &&
+        bob.canFinalizeSession(sessionId),
+      'recovered partial sigs',
+    )
+    const signature = await restarted.finalizeSession(sessionId)
+    const { session } = bob.getSession(sessionId)!
+    assert.deepStrictEqual(signature, session.finalSignature!.toBuffer())
+    assert.ok(
+      Schnorr.verify(
+        message,
+        session.finalSignature!,
+        session.keyAggContext.aggregatedPubKey,
+        'big',
+      ),
+    )
+  })
+
+  it('should abort a session whose secret nonce was lost', async () => {
+    const network = new FakeNetwork()
+    const aliceStorage = new InMemorySessionStorage()
+    const alice = startCoordinator(
+      network,
+      'alice',
+      new SessionPersistence(aliceStorage),
+    )
+    const bob = startCoordinator(network, 'bob')
+
+    const sessionId = await setupSession(alice, bob)
+    await alice.shareNonces(sessionId, aliceKey)
+    const { myPublicNonce } = (await aliceStorage.load(sessionId))!
+    await alice.cleanup()
+    running.splice(running.indexOf(alice), 1)
+
+    const restarted = startCoordinator(
+      network,
+      'alice',
+      new SessionPersistence(aliceStorage),
+    )
+    const aborted: unknown[][] = []
+    restarted.on(MuSig2Event.SESSION_ABORTED, (...args) => aborted.push(args))
+    await restarted.initialize()
+
+    assert.deepStrictEqual(aborted, [
+      [sessionId, 'Secret nonce lost in restart'],
+    ])
+    assert.strictEqual(restarted.getSession(sessionId), undefined)
+    await waitFor(() => !bob.hasSession(sessionId), 'abort on bob')
+    await waitFor(
+      async () => (await aliceStorage.loadAll()).length === 0,
+      'deleted session',
+    )
+    assert.ok(myPublicNonce)
+  })
+
+  it('should only share session state with participants', async () => {
+    const network = new FakeNetwork()
+    const alice = startCoordinator(network, 'alice')
+    const bob = startCoordinator(network, 'bob')
+    const sessionId = await setupSession(alice, bob)
+
+    const responses: P2PMessage[] = []
+    network.handlers.set('mallory', {
+      protocolName: 'musig2',
+      protocolId: '/lotus/musig2/1.0.0',
+      handleMessage: async (received: P2PMessage) => {
+        responses.push(received)
+      },
+    })
+    network.deliver('mallory', 'alice', {
+      type: MuSig2MessageType.SESSION_RECOVERY_REQUEST,
+      from: 'mallory',
+      payload: {
+        sessionId,
+        requestingPeerId: 'bob',
+        lastKnownPhase: MuSigSessionPhase.INIT,
+        timestamp: Date.now(),
+      },
+      timestamp: Date.now(),
+      messageId: 'recovery-request-1',
+      protocol: 'musig2',
+    })
+
+    await waitFor(() => responses.length === 1, 'recovery response')
+    assert.strictEqual(
+      responses[0].type,
+      MuSig2MessageType.SESSION_RECOVERY_RESPONSE,
+    )
+    assert.deepStrictEqual(
+      { ...(responses[0].payload as object), timestamp: 0 },
+      { sessionId, found: false, timestamp: 0 },
+    )
+  })
+
+  it('should wait for a disconnected peer to reconnect', async () => {
+    const network = new FakeNetwork()
+    const alice = startCoordinator(network, 'alice', undefined, {
+      ...config,
+      peerReconnectTimeout: 50,
+    })
+    const bob = startCoordinator(network, 'bob')
+    const sessionId = await setupSession(alice, bob)
+    await alice.shareNonces(sessionId, aliceKey)
+
+    const handler = network.handlers.get('alice')!
+    await handler.onPeerDisconnected!('bob')
+    await handler.onPeerConnected!('bob')
+    await new Promise(resolve => setTimeout(resolve, 100))
+    assert.ok(alice.hasSession(sessionId))
+
+    await handler.onPeerDisconnected!('bob')
+    await waitFor(() => !alice.hasSession(sessionId), 'abort after timeout')
+  })
+})
@@ -0,0 +1,388 @@
+/**
+ * MuSig2 Session Storage Tests
+ *
+ * Covers record encryption, the file system and IndexedDB session storages,
+ * atomic writes, and TTL eviction through SessionPersistence.cleanupExpired.
+ */
+
+import { describe, it, before, after, mock } from 'node:test'
+import assert from 'node:assert'
+import {
+  mkdtemp,
+  readFile,
+  readdir,
+  rm,
+  stat,
+  writeFile,
+} from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  SessionEncryption,
+  FileSessionStorage,
+  IndexedDBSessionStorage,
+  type EncryptedSessionRecord,
+} from '../../../lib/p2p/musig2/session-storage.js'
+import {
+  SessionPersistence,
+  type SerializedSession,
+} from '../../../lib/p2p/musig2/session-persistence.js'
+import { SessionStorageError } from '../../../lib/p2p/musig2/errors.js'
+import { MuSigSessionManager } from '../../../lib/bitcore/musig2/session.js'
+import { Hash, PrivateKey } from '../../../lib/bitcore/index.js'
+
+const alice = new PrivateKey()
+const bob = new PrivateKey()
+
+// Fast key derivation for tests
+const passphrase = () => SessionEncryption.fromPassphrase('correct horse', 1000)
+
+let sessions = 0
+
+function serializedSession(lastActivity = Date.now()): SerializedSession {
+  const session = new MuSigSessionManager().createSession(
+    [alice.publicKey, bob.publicKey],
+    alice,
+    Hash.sha256(Buffer.from(`session storage ${sessions++}`)),
+    { label: 'private-label' },
+  )
+  return new SessionPersistence().serialize({
+    session,
+    coordinatorPeerId: 'coordinator-peer',
+    participants: new Map(),
+    isCoordinator: true,
+    createdAt: lastActivity,
+    lastActivity,
+  })
+}
+
+/**
+ * Minimal in-memory IndexedDB factory
+ *
+ * Supports one database version and object stores keyed by 'id'.
+ */
+function fakeIndexedDB(): IDBFactory {
+  const databases = new Map<string, Map<string, Map<string, unknown>>>()
+
+  const open = (name: string) => {
+    const request: Record<string, unknown> & {
+      onupgradeneeded?: () => void
+      onsuccess?: () => void
+    } = {}
+    setImmediate(() => {
+      const upgrade = !databases.has(name)
+      const stores = databases.get(name) ?? new Map()
+      databases.set(name, stores)
+
+      request.result = {
+        createObjectStore: (storeName: string) => {
+          stores.set(storeName, new Map())
+        },
+        transaction: (storeName: string) => {
+          const data = stores.get(storeName)!
+          const pending: (() => void)[] = []
+          const transaction: Record<string, unknown> & {
+            oncomplete?: () => void
+          } = {}
+          const req = (run: () => unknown) => {
+            const request: Record<string, unknown> = {}
+            pending.push(() => {
+              request.result = run()
+            })
+            return request
+          }
+          transaction.objectStore = () => ({
+            put: (value: { id: string }) =>
+              req(() => data.set(value.id, structuredClone(value))),
+            get: (id: string) => req(() => structuredClone(data.get(id))),
+            getAll: () =>
+              req(() =>
+                [...data.values()].map(value => structuredClone(value)),
+              ),
+            delete: (id: string) => req(() => data.delete(id)),
+            clear: () => req(() => data.clear()),
+          })
+          setImmediate(() => {
+            pending.forEach(run => run())
+            transaction.oncomplete?.()
+          })
+          return transaction
+        },
+        close: () => undefined,
+      }
+      if (upgrade) request.onupgradeneeded?.()
+      request.onsuccess?.()
+    })
+    return request
+  }
+
+  return { open } as unknown as IDBFactory
+}
+
+describe('SessionEncryption', () => {
+  it('should encrypt and decrypt records', async () => {
+    const data = serializedSession()
+    for (const encryption of [
+      passphrase(),
+      SessionEncryption.fromPrivateKey(alice),
+    ]) {
+      const record = await encryption.encrypt(data, data.lastActivity + 1000)
+      assert.strictEqual(
+        record.id,
+        Hash.sha256(Buffer.from(data.sessionId)).toString('hex'),
+      )
+      const json = JSON.stringify(record)
+      for (const plaintext of [
+        data.sessionId,
+        data.message,
+        data.signers[0],
+        'private-label',
+        'coordinator-peer',
+      ]) {
+        assert.ok(!json.includes(plaintext), plaintext)
+      }
+      assert.deepStrictEqual(
+        await encryption.decrypt(record),
+        JSON.parse(JSON.stringify(data)),
+      )
+    }
+  })
+
+  it('should reject wrong keys and tampered records', async () => {
+    const data = serializedSession()
+    const record = await passphrase().encrypt(data, data.lastActivity + 1000)
+
+    // Any instance with the same passphrase decrypts
+    assert.strictEqual(
+      (await passphrase().decrypt(record)).sessionId,
+      data.sessionId,
+    )
+
+    const rejects = (
+      encryption: SessionEncryption,
+      tampered: EncryptedSessionRecord,
+    ) => assert.rejects(encryption.decrypt(tampered), SessionStorageError)
+
+    await rejects(SessionEncryption.fromPassphrase('wrong', 1000), record)
+    await rejects(SessionEncryption.fromPrivateKey(alice), record)
+    await rejects(passphrase(), { ...record, expiresAt: record.expiresAt + 1 })
+    await rejects(passphrase(), { ...record, id: '00'.repeat(32) })
+
+    // The iteration count is never taken from storage
+    await rejects(passphrase(), { ...record, iterations: 1_000_000_000 })
+    await rejects(
+      SessionEncryption.fromPassphrase('correct horse', 2000),
+      record,
+    )
+
+    const hkdf = await SessionEncryption.fromPrivateKey(alice).encrypt(
+      data,
+      data.lastActivity + 1000,
+    )
+    await rejects(SessionEncryption.fromPrivateKey(bob), hkdf)
+  })
+})
+
+describe('FileSessionStorage', () => {
+  let directory: string
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'musig2-sessions-'))
+  })
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('should store encrypted records atomically', async () => {
+    const path = join(directory, 'store')
+    const storage = new FileSessionStorage(path, passphrase())
+    const first = serializedSession()
+    const second = serializedSession()
+
+    assert.deepStrictEqual(await storage.loadAll(), [])
+    await storage.save(first.sessionId, first)
+    await storage.save(second.sessionId, second)
+    await storage.save(first.sessionId, { ...first, phase: second.phase })
+
+    const files = await readdir(path)
+    assert.strictEqual(files.length, 2)
+    assert.ok(files.every(file => file.endsWith('.json')))
+    for (const file of files) {
+      const contents = await readFile(join(path, file), 'utf8')
+      assert.ok(!contents.includes(first.message))
+      assert.ok(!contents.includes('private-label'))
+      assert.strictEqual((await stat(join(path, file))).mode & 0o777, 0o600)
+    }
+
+    // A new instance with the same passphrase reads the records
+    const reopened = new FileSessionStorage(path, passphrase())
+    assert.strictEqual(
+      (await reopened.load(first.sessionId))!.sessionId,
+      first.sessionId,
+    )
+    assert.deepStrictEqual(
+      (await reopened.loadAll()).map(data => data.sessionId).sort(),
+      [first.sessionId, second.sessionId].sort(),
+    )
+    await assert.rejects(
+      new FileSessionStorage(path, SessionEncryption.fromPrivateKey(bob)).load(
+        first.sessionId,
+      ),
+      SessionStorageError,
+    )
+
+    await reopened.delete(first.sessionId)
+    assert.strictEqual(await reopened.load(first.sessionId), null)
+    await reopened.clear()
+    assert.deepStrictEqual(await readdir(path), [])
+  })
+
+  it('should evict expired records through SessionPersistence', async () => {
+    const path = join(directory, 'ttl')
+    const storage = new FileSessionStorage(path, passphrase(), { ttl: 1000 })
+    const persistence = new SessionPersistence(storage, 60 * 60 * 1000)
+
+    const stale = serializedSession(Date.now() - 2000)
+    const fresh = serializedSession()
+    await storage.save(stale.sessionId, stale)
+    await storage.save(fresh.sessionId, fresh)
+
+    assert.strictEqual(await persistence.cleanupExpired(), 1)
+    assert.strictEqual((await readdir(path)).length, 1)
+    assert.deepStrictEqual(
+      (await persistence.loadActive()).map(data => data.sessionId),
+      [fresh.sessionId],
+    )
+
+    // Expired records are never returned
+    await storage.save(stale.sessionId, stale)
+    assert.strictEqual(await storage.load(stale.sessionId), null)
+    assert.strictEqual((await readdir(path)).length, 1)
+  })
+
+  it('should skip records it cannot parse or decrypt', async () => {
+    const warn = mock.method(console, 'warn', () => {})
+    try {
+      const path = join(directory, 'corrupt')
+      const storage = new FileSessionStorage(path, passphrase())
+      const good = serializedSession()
+      const foreign = serializedSession()
+      const stale = serializedSession(Date.now() - 60 * 60 * 1000)
+      await storage.save(good.sessionId, good)
+      await storage.save(stale.sessionId, stale)
+      await new FileSessionStorage(
+        path,
+        SessionEncryption.fromPrivateKey(bob),
+      ).save(foreign.sessionId, foreign)
+      await writeFile(join(path, 'garbage.json'), 'not json')
+      await writeFile(join(path, 'null.json'), 'null')
+
+      // Recovery goes ahead with the records it can read
+      const persistence = new SessionPersistence(storage)
+      assert.strictEqual(await persistence.cleanupExpired(), 1)
+      assert.deepStrictEqual(
+        (await persistence.loadActive()).map(data => data.sessionId),
+        [good.sessionId],
+      )
+      assert.ok(warn.mock.callCount() >= 3)
+      assert.ok(
+        warn.mock.calls.every(call =>
+          String(call.arguments[0]).startsWith('[MuSig2] Skipping'),
+        ),
+      )
+      // Skipped records stay on disk
+      assert.strictEqual((await readdir(path)).length, 4)
+      await assert.rejects(storage.load(foreign.sessionId), SessionStorageError)
+    } finally {
+      warn.mock.restore()
+    }
+  })
+})
+
+describe('IndexedDBSessionStorage', () => {
+  it('should store encrypted records', async () => {
+    const indexedDB = fakeIndexedDB()
+    const storage = new IndexedDBSessionStorage(
+      SessionEncryption.fromPrivateKey(alice),
+      { indexedDB },
+    )
+    const first = serializedSession()
+    const second = serializedSession()
+
+    await storage.save(first.sessionId, first)
+    await storage.save(second.sessionId, second)
+    assert.strictEqual(
+      (await storage.load(first.sessionId))!.sessionId,
+      first.sessionId,
+    )
+    assert.strictEqual(await storage.load('unknown'), null)
+    await storage.close()
+
+    const reopened = new IndexedDBSessionStorage(
+      SessionEncryption.fromPrivateKey(alice),
+      { indexedDB },
+    )
+    assert.deepStrictEqual(
+      (await reopened.loadAll()).map(data => data.sessionId).sort(),
+      [first.sessionId, second.sessionId].sort(),
+    )
+    await reopened.delete(first.sessionId)
+    assert.strictEqual((await reopened.loadAll()).length, 1)
+    await reopened.clear()
+    assert.deepStrictEqual(await reopened.loadAll(), [])
+  })
+
+  it('should evict expired records', async () => {
+    const storage = new IndexedDBSessionStorage(passphrase(), {
+      indexedDB: fakeIndexedDB(),
+      ttl: 1000,
+    })
+    const stale = serializedSession(Date.now() - 2000)
+    const fresh = serializedSession()
+    await storage.save(stale.sessionId, stale)
+    await storage.save(fresh.sessionId, fresh)
+
+    assert.strictEqual(
+      await new SessionPersistence(storage).cleanupExpired(),
+      1,
+    )
+    assert.deepStrictEqual(
+      (await storage.loadAll()).map(data => data.sessionId),
+      [fresh.sessionId],
+    )
+  })
+
+  it('should skip records it cannot decrypt', async () => {
+    const warn = mock.method(console, 'warn', () => {})
+    try {
+      const indexedDB = fakeIndexedDB()
+      const storage = new IndexedDBSessionStorage(passphrase(), { indexedDB })
+      const good = serializedSession()
+      const foreign = serializedSession()
+      await storage.save(good.sessionId, good)
+      await new IndexedDBSessionStorage(SessionEncryption.fromPrivateKey(bob), {
+        indexedDB,
+      }).save(foreign.sessionId, foreign)
+
+      assert.strictEqual(
+        await new SessionPersistence(storage).cleanupExpired(),
+        0,
+      )
+      assert.deepStrictEqual(
+        (await storage.loadAll()).map(data => data.sessionId),
+        [good.sessionId],
+      )
+      assert.ok(warn.mock.callCount() >= 1)
+    } finally {
+      warn.mock.restore()
+    }
+  })
+
+  it('should fail without IndexedDB', async () => {
+    const storage = new IndexedDBSessionStorage(passphrase(), {
+      indexedDB: undefined,
+    })
+    await assert.rejects(storage.loadAll(), SessionStorageError)
+  })
+})
@@ -0,0 +1,464 @@
+/**
+ * PSBT Tests
+ *
+ * Tests the partially signed transaction container: serialization and each
+ * role (creator, updater, signer, combiner, finalizer, extractor) for P2PKH,
+ * P2SH multisig, Taproot key path, Taproot script path and MuSig2 inputs.
+ */
+
+import { describe, it, beforeEach } from 'node:test'
+import assert from 'node:assert'
+import {
+  PrivateKey,
+  Script,
+  Interpreter,
+  Transaction,
+  Signature,
+  PSBT,
+  PSBTError,
+  buildKeyPathTaproot,
+  buildMuSigRefundTaproot,
+  createControlBlock,
+  musigNonceGen,
+  type MuSigRefundTaprootResult,
+} from '../lib/bitcore/index.js'
+
+const VERIFY_FLAGS =
+  Interpreter.SCRIPT_VERIFY_P2SH |
+  Interpreter.SCRIPT_VERIFY_STRICTENC |
+  Interpreter.SCRIPT_VERIFY_CHECKSEQUENCEVERIFY |
+  Interpreter.SCRIPT_ENABLE_SIGHASH_FORKID
+
+function txId(n: number): string {
+  return n.toString(16).padStart(64, '0')
+}
+
+function verifyAll(tx: Transaction): void {
+  tx.inputs.forEach((input, index) => {
+    const interpreter = new Interpreter()
+    const valid = interpreter.verify(
+      input.script!,
+      input.output!.script,
+      tx,
+      index,
+      VERIFY_FLAGS,
+      BigInt(input.output!.satoshis),
+    )
+    assert.ok(valid, `Input ${index} should verify: ${interpreter.errstr}`)
+  })
+}
+
+describe('PSBT', () => {
+  let alice: PrivateKey
+  let bob: PrivateKey
+  let carol: PrivateKey
+
+  beforeEach(() => {
+    alice = new PrivateKey()
+    bob = new PrivateKey()
+    carol = new PrivateKey()
+  })
+
+  function buildP2PKHTransaction(): Transaction {
+    return new Transaction()
+      .from({
+        txId: txId(1),
+        outputIndex: 0,
+        script: Script.fromAddress(alice.toAddress()),
+        satoshis: 50000,
+      })
+      .from({
+        txId: txId(2),
+        outputIndex: 1,
+        script: Script.fromAddress(bob.toAddress()),
+        satoshis: 70000,
+      })
+      .to(carol.toAddress(), 119000)
+  }
+
+  describe('Serialization', () => {
+    it('should round trip through base64 and hex', () => {
+      const psbt = new PSBT(buildP2PKHTransaction()).sign(alice)
+      const decoded = PSBT.fromBase64(psbt.toBase64())
+
+      assert.strictEqual(decoded.id, psbt.id)
+      assert.strictEqual(decoded.toHex(), psbt.toHex())
+      assert.strictEqual(decoded.inputs[0].utxo!.satoshis, 50000)
+      assert.strictEqual(decoded.inputs[0].partialSigs.size, 1)
+      assert.strictEqual(PSBT.fromHex(psbt.toHex()).toBase64(), psbt.toBase64())
+    })
+
+    it('should keep the unsigned transaction free of input scripts', () => {
+      const tx = buildP2PKHTransaction().sign([alice, bob])
+      const psbt = new PSBT(tx)
+
+      assert.ok(psbt.tx.inputs.every(input => input.scriptBuffer.length === 0))
+      assert.ok(psbt.isFinalized())
+      assert.strictEqual(psbt.extractTransaction().serialize(), tx.serialize())
+    })
+
+    it('should preserve unknown keys', () => {
+      const psbt = new PSBT(buildP2PKHTransaction())
+      psbt.unknown.set('fc01', Buffer.from('global'))
+      psbt.inputs[1].unknown.set('fc02', Buffer.from('input'))
+      psbt.outputs[0].unknown.set('fc03', Buffer.from('output'))
+
+      const decoded = PSBT.fromBuffer(psbt.toBuffer())
+      assert.deepStrictEqual(decoded.unknown.get('fc01'), Buffer.from('global'))
+      assert.deepStrictEqual(
+        decoded.inputs[1].unknown.get('fc02'),
+        Buffer.from('input'),
+      )
+      assert.deepStrictEqual(
+        decoded.outputs[0].unknown.get('fc03'),
+        Buffer.from('output'),
+      )
+    })
+
+    it('should reject invalid encodings', () => {
+      const buf = new PSBT(buildP2PKHTransaction()).toBuffer()
+
+      const badMagic = Buffer.from(buf)
+      badMagic[0] = 0x00
+      assert.throws(() => PSBT.fromBuffer(badMagic), /magic/)
+      assert.throws(
+        () => PSBT.fromBuffer(buf.subarray(0, buf.length - 1)),
+        PSBTError,
+      )
+      assert.throws(
+        () => PSBT.fromBuffer(Buffer.concat([buf, Buffer.from([0x00])])),
+        /Unexpected data/,
+      )
+    })
+  })
+
+  describe('P2PKH', () => {
+    it('should sign on separate devices and finalize', () => {
+      const created = new PSBT(buildP2PKHTransaction()).toBase64()
+
+      const fromAlice = PSBT.fromBase64(created).sign(alice).toBase64()
+      const fromBob = PSBT.fromBase64(fromAlice).sign(bob)
+
+      assert.strictEqual(fromBob.inputs[0].partialSigs.size, 1)
+      assert.strictEqual(fromBob.inputs[1].partialSigs.size, 1)
+
+      const tx = fromBob.finalize().extractTransaction()
+      assert.strictEqual(tx.id, PSBT.fromBase64(created).id)
+      assert.ok(tx.serialize())
+      verifyAll(tx)
+    })
+
+    it('should combine signatures made in parallel', () => {
+      const psbt = new PSBT(buildP2PKHTransaction())
+      const combined = PSBT.combine([
+        psbt.clone().sign(alice),
+        psbt.clone().sign(bob, { signingMethod: 'schnorr' }),
+      ])
+
+      verifyAll(combined.finalize().extractTransaction())
+    })
+
+    it('should refuse to combine different transactions', () => {
+      const other = buildP2PKHTransaction().to(alice.toAddress(), 600)
+      assert.throws(
+        () => new PSBT(buildP2PKHTransaction()).combine(new PSBT(other)),
+        /different transactions/,
+      )
+    })
+
+    it('should not finalize or extract inputs missing signatures', () => {
+      const psbt = new PSBT(buildP2PKHTransaction()).sign(alice)
+
+      assert.throws(() => psbt.extractTransaction(), /not finalized/)
+      psbt.finalizeInput(0)
+      assert.strictEqual(psbt.inputs[0].partialSigs.size, 0)
+      assert.throws(() => psbt.finalize(), /Input 1 cannot be finalized/)
+      assert.ok(!psbt.isFinalized())
+    })
+  })
+
+  describe('P2SH multisig', () => {
+    it('should capture the redeem script and collect signatures', () => {
+      const pubkeys = [alice.publicKey, bob.publicKey, carol.publicKey]
+      const redeemScript = Script.buildMultisigOut(pubkeys, 2)
+      const tx = new Transaction()
+        .from(
+          {
+            txId: txId(3),
+            outputIndex: 0,
+            script: Script.buildScriptHashOut(redeemScript),
+            satoshis: 100000,
+          },
+          pubkeys,
+          2,
+        )
+        .to(alice.toAddress(), 99000)
+
+      const psbt = new PSBT(tx)
+      assert.ok(psbt.inputs[0].redeemScript!.equals(redeemScript))
+
+      const decoded = PSBT.fromBuffer(psbt.toBuffer())
+      const combined = PSBT.combine([
+        decoded.clone().sign(carol),
+        decoded.clone().sign(alice),
+      ])
+      assert.strictEqual(combined.inputs[0].partialSigs.size, 2)
+
+      verifyAll(combined.finalize().extractTransaction())
+    })
+  })
+
+  describe('Taproot', () => {
+    it('should sign the key path with SIGHASH_LOTUS', () => {
+      const tx = new Transaction()
+        .from({
+          txId: txId(4),
+          outputIndex: 0,
+          script: buildKeyPathTaproot(alice.publicKey),
+          satoshis: 100000,
+        })
+        .to(bob.toAddress(), 99000)
+
+      const psbt = PSBT.fromBuffer(new PSBT(tx).toBuffer()).sign(alice)
+      assert.strictEqual(psbt.inputs[0].tapKeySig!.length, 65)
+      assert.strictEqual(
+        psbt.inputs[0].tapKeySig![64],
+        Signature.SIGHASH_ALL | Signature.SIGHASH_LOTUS,
+      )
+
+      verifyAll(psbt.finalize().extractTransaction())
+    })
+
+    it('should enforce the SIGHASH rules of the key path', () => {
+      const tx = new Transaction()
+        .from({
+          txId: txId(5),
+          outputIndex: 0,
+          script: buildKeyPathTaproot(alice.publicKey),
+          satoshis: 100000,
+        })
+        .to(bob.toAddress(), 99000)
+
+      const psbt = new PSBT(tx).updateInput(0, {
+        sighashType: Signature.SIGHASH_ALL | Signature.SIGHASH_FORKID,
+      })
+      assert.throws(() => psbt.sign(alice), /must use SIGHASH_LOTUS/)
+
+      const missingUtxo = new PSBT(tx)
+      missingUtxo.inputs[0].utxo = undefined
+      assert.throws(() => missingUtxo.getSighash(0), /missing its spent output/)
+    })
+
+    it('should require every spent output for SIGHASH_LOTUS', () => {
+      const tx = new Transaction()
+        .from({
+          txId: txId(6),
+          outputIndex: 0,
+          script: buildKeyPathTaproot(alice.publicKey),
+          satoshis: 100000,
+        })
+        .from({
+          txId: txId(7),
+          outputIndex: 0,
+          script: Script.fromAddress(bob.toAddress()),
+          satoshis: 100000,
+        })
+        .to(bob.toAddress(), 199000)
+
+      const psbt = new PSBT(tx)
+      psbt.inputs[1].utxo = undefined
+      assert.throws(() => psbt.sign(alice), /input 1 is missing/)
+
+      psbt.updateInput(1, { utxo: tx.inputs[1].output! })
+      verifyAll(psbt.sign(alice).sign(bob).finalize().extractTransaction())
+    })
+
+    describe('Script path', () => {
+      let refund: MuSigRefundTaprootResult
+
+      beforeEach(() => {
+        refund = buildMuSigRefundTaproot(
+          [alice.publicKey, bob.publicKey],
+          86400,
+        )
+      })
+
+      function buildRefundTransaction(): Transaction {
+        const tx = new Transaction()
+          .from({
+            txId: txId(8),
+            outputIndex: 0,
+            script: refund.script,
+            satoshis: 100000,
+          })
+          .to(bob.toAddress(), 99000)
+        tx.inputs[0].sequenceNumber = refund.refundSequence
+        return tx
+      }
+
+      it('should sign a leaf added by the updater', () => {
+        const leafIndex = refund.refundPubKeys.findIndex(
+          key => key.toString() === bob.publicKey.toString(),
+        )
+        const psbt = new PSBT(buildRefundTransaction()).updateInput(0, {
+          tapInternalKey: refund.aggregatedPubKey,
+          tapMerkleRoot: refund.merkleRoot,
+          tapLeafScript: {
+            script: refund.leaves[leafIndex].script,
+            controlBlock: createControlBlock(
+              refund.aggregatedPubKey,
+              leafIndex,
+              refund.scriptTree,
+            ),
+          },
+        })
+
+        // Alice has no part in Bob's leaf and cannot use the key path
+        psbt.sign(alice)
+        assert.strictEqual(psbt.inputs[0].tapScriptSigs.size, 0)
+        assert.strictEqual(psbt.inputs[0].tapKeySig, undefined)
+
+        const signed = PSBT.fromBuffer(psbt.toBuffer()).sign(bob)
+        assert.strictEqual(signed.inputs[0].tapScriptSigs.size, 1)
+
+        const tx = signed.finalize().extractTransaction()
+        assert.strictEqual(tx.inputs[0].script!.chunks.length, 3)
+        verifyAll(tx)
+      })
+
+      it('should reject SIGHASH_LOTUS for script path signatures', () => {
+        const psbt = new PSBT(buildRefundTransaction()).updateInput(0, {
+          sighashType: Signature.SIGHASH_ALL | Signature.SIGHASH_LOTUS,
+          tapLeafScript: {
+            script: refund.leaves[0].script,
+            controlBlock: createControlBlock(
+              refund.aggregatedPubKey,
+              0,
+              refund.scriptTree,
+            ),
+          },
+        })
+        const signer =
+          refund.refundPubKeys[0].toString() === alice.publicKey.toString()
+            ? alice
+            : bob
+        assert.throws(() => psbt.sign(signer), /must use SIGHASH_FORKID/)
+      })
+    })
+
+    describe('MuSig2', () => {
+      it('should carry nonces and partial signatures between signers', () => {
+        const refund = buildMuSigRefundTaproot(
+          [alice.publicKey, bob.publicKey],
+          86400,
+        )
+        const tx = new Transaction()
+          .from({
+            txId: txId(9),
+            outputIndex: 0,
+            script: refund.script,
+            satoshis: 100000,
+            keyAggContext: refund.keyAggContext,
+            mySignerIndex: 0,
+          })
+          .to(carol.toAddress(), 99000)
+
+        // The creator captures the MuSigTaprootInput participants
+        const created = new PSBT(tx).updateInput(0, {
+          tapMerkleRoot: refund.merkleRoot,
+        })
+        assert.strictEqual(created.inputs[0].musig2Participants!.length, 2)
+
+        const sighash = created.getSighash(0)
+        const aliceNonce = musigNonceGen(
+          alice,
+          refund.aggregatedPubKey,
+          sighash,
+        )
+        const bobNonce = musigNonceGen(bob, refund.aggregatedPubKey, sighash)
+
+        // Round 1: exchange public nonces through serialized PSBTs
+        const withNonces = PSBT.combine([
+          created
+            .clone()
+            .addMuSig2PublicNonce(0, alice.publicKey, aliceNonce.publicNonces),
+          created
+            .clone()
+            .addMuSig2PublicNonce(0, bob.publicKey, bobNonce.publicNonces),
+        ])
+        assert.strictEqual(withNonces.inputs[0].musig2PubNonces.size, 2)
+
+        // Round 2: partial signatures
+        const fromAlice = PSBT.fromBase64(withNonces.toBase64()).signMuSig2(
+          0,
+          alice,
+          aliceNonce,
+        )
+        const fromBob = PSBT.fromBase64(withNonces.toBase64()).signMuSig2(
+          0,
+          bob,
+          bobNonce,
+        )
+
+        // Partial signatures are verified when added
+        assert.throws(
+          () =>
+            fromAlice
+              .clone()
+              .addMuSig2PartialSignature(
+                0,
+                bob.publicKey,
+                fromAlice.inputs[0].musig2PartialSigs.get(
+                  alice.publicKey.toString(),
+                )!,
+              ),
+          /Invalid MuSig2 partial signature/,
+        )
+        assert.throws(
+          () =>
+            created.addMuSig2PublicNonce(
+              0,
+              carol.publicKey,
+              aliceNonce.publicNonces,
+            ),
+          /not a MuSig2 participant/,
+        )
+
+        const tx2 = PSBT.combine([fromAlice, fromBob])
+          .finalize()
+          .extractTransaction()
+        assert.strictEqual(tx2.id, tx.id)
+        verifyAll(tx2)
+      })
+
+      it('should sort participant keys read from other signers', () => {
+        const psbt = new PSBT(buildP2PKHTransaction()).updateInput(0, {
+          musig2Participants: [alice.publicKey, bob.publicKey, carol.publicKey],
+        })
+        const sorted = psbt.inputs[0].musig2Participants!.map(key =>
+          key.toString(),
+        )
+
+        // Another implementation may list the keys in any order
+        psbt.inputs[0].musig2Participants!.reverse()
+        const decoded = PSBT.fromBuffer(psbt.toBuffer())
+        assert.deepStrictEqual(
+          decoded.inputs[0].musig2Participants!.map(key => key.toString()),
+          sorted,
+        )
+      })
+
+      it('should reject truncated participant keys', () => {
+        const psbt = new PSBT(buildP2PKHTransaction())
+        psbt.inputs[0].unknown.set(
+          `1a${alice.publicKey.toString()}`,
+          Buffer.concat([alice.publicKey.toBuffer(), Buffer.alloc(20)]),
+        )
+        assert.throws(
+          () => PSBT.fromBuffer(psbt.toBuffer()),
+          /Invalid MuSig2 participant public keys/,
+        )
+      })
+    })
+  })
+})
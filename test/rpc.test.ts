@@ -0,0 +1,337 @@
+/**
+ * RPCClient Tests
+ *
+ * Runs the client against a local HTTP server standing in for the node.
+ */
+
+import { describe, it, before, after, beforeEach } from 'node:test'
+import assert from 'node:assert'
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { RPCClient, RPCError } from '../lib/rpc.js'
+import {
+  Transaction,
+  PrivateKey,
+  Script,
+  Block,
+  BlockHeader,
+} from '../lib/bitcore/index.js'
+
+interface RecordedRequest {
+  url: string
+  authorization?: string
+  body: unknown
+}
+
+type Handler = (
+  body: { id: number; method: string; params: unknown[] },
+  res: http.ServerResponse,
+) => unknown
+
+describe('RPCClient', () => {
+  let server: http.Server
+  let port: number
+  let requests: RecordedRequest[]
+  let handler: Handler
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      let data = ''
+      req.on('data', chunk => (data += chunk))
+      req.on('end', () => {
+        const body = JSON.parse(data)
+        requests.push({
+          url: req.url!,
+          authorization: req.headers.authorization,
+          body,
+        })
+        const reply = Array.isArray(body)
+          ? body.map(item => handler(item, res))
+          : handler(body, res)
+        // Handlers returning nothing answer (or stall) on their own
+        if (reply !== undefined && !res.writableEnded) {
+          res.setHeader('Content-Type', 'application/json')
+          res.end(JSON.stringify(reply))
+        }
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    port = (server.address() as AddressInfo).port
+  })
+
+  after(async () => {
+    server.closeAllConnections()
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    requests = []
+    handler = body => ({ result: body.method, error: null, id: body.id })
+  })
+
+  function client(config = {}) {
+    return new RPCClient({ port, retryDelay: 1, ...config })
+  }
+
+  describe('Authentication', () => {
+    it('should send user and password as basic auth', async () => {
+      await client({ user: 'alice', password: 'secret' }).getBlockCount()
+      assert.strictEqual(
+        requests[0].authorization,
+        `Basic ${Buffer.from('alice:secret').toString('base64')}`,
+      )
+    })
+
+    it('should send the auth cookie', async () => {
+      await client({ cookie: '__cookie__:abc123\n' }).getBlockCount()
+      assert.strictEqual(
+        requests[0].authorization,
+        `Basic ${Buffer.from('__cookie__:abc123').toString('base64')}`,
+      )
+    })
+
+    it('should keep credentials per instance', async () => {
+      await client({ user: 'a', password: '1' }).getBlockCount()
+      await client({ user: 'b', password: '2' }).getBlockCount()
+      assert.notStrictEqual(
+        requests[0].authorization,
+        requests[1].authorization,
+      )
+    })
+
+    it('should route wallet calls to the wallet endpoint', async () => {
+      await client({ wallet: 'hot wallet' }).getBalance()
+      assert.strictEqual(requests[0].url, '/wallet/hot%20wallet')
+    })
+  })
+
+  describe('Requests', () => {
+    it('should send the method and params', async () => {
+      await client().getTxOut('aa'.repeat(32), 1)
+      const body = requests[0].body as { method: string; params: unknown[] }
+      assert.strictEqual(body.method, 'gettxout')
+      assert.deepStrictEqual(body.params, ['aa'.repeat(32), 1, true])
+    })
+
+    it('should throw RPCError with the node error code', async () => {
+      handler = (body, res) => {
+        res.statusCode = 500
+        return {
+          result: null,
+          error: { code: -25, message: 'Missing inputs' },
+          id: body.id,
+        }
+      }
+      await assert.rejects(client().sendRawTransaction('00'), error => {
+        assert.ok(error instanceof RPCError)
+        assert.strictEqual(error.code, -25)
+        assert.strictEqual(error.method, 'sendrawtransaction')
+        return true
+      })
+      // Node errors are not retried
+      assert.strictEqual(requests.length, 1)
+    })
+
+    it('should send batches and return results in request order', async () => {
+      handler = body => ({
+        result: `${body.method}:${(body.params as unknown[]).join(',')}`,
+        error: null,
+        id: body.id,
+      })
+      const results = await client().batch([
+        { method: 'getblockhash', params: [1] },
+        { method: 'getblockhash', params: [2] },
+        { method: 'getblockcount' },
+      ])
+      assert.strictEqual(requests.length, 1)
+      assert.deepStrictEqual(results, [
+        'getblockhash:1',
+        'getblockhash:2',
+        'getblockcount:',
+      ])
+    })
+
+    it('should throw for a failed request in a batch', async () => {
+      handler = body =>
+        body.method === 'bad'
+          ? {
+              result: null,
+              error: { code: -32601, message: 'nope' },
+              id: body.id,
+            }
+          : { result: 1, error: null, id: body.id }
+      await assert.rejects(
+        client().batch([{ method: 'good' }, { method: 'bad' }]),
+        (error: RPCError) => error.method === 'bad' && error.code === -32601,
+      )
+    })
+  })
+
+  describe('Retries', () => {
+    it('should retry HTTP errors without a JSON-RPC body', async () => {
+      let calls = 0
+      handler = (body, res) => {
+        if (calls++ === 0) {
+          res.statusCode = 503
+          res.end('Service Unavailable')
+          return
+        }
+        return { result: 42, error: null, id: body.id }
+      }
+      assert.strictEqual(await client().getBlockCount(), 42)
+      assert.strictEqual(requests.length, 2)
+    })
+
+    it('should retry while the node is warming up', async () => {
+      let calls = 0
+      handler = (body, res) => {
+        if (calls++ < 2) {
+          res.statusCode = 500
+          return {
+            result: null,
+            error: { code: -28, message: 'Loading block index...' },
+            id: body.id,
+          }
+        }
+        return { result: 7, error: null, id: body.id }
+      }
+      assert.strictEqual(await client().getBlockCount(), 7)
+      assert.strictEqual(requests.length, 3)
+    })
+
+    it('should give up after the configured retries', async () => {
+      handler = (_body, res) => {
+        res.statusCode = 502
+        res.end('Bad Gateway')
+      }
+      await assert.rejects(client({ retries: 1 }).getBlockCount(), RPCError)
+      assert.strictEqual(requests.length, 2)
+    })
+
+    it('should time out slow requests', async () => {
+      handler = (_body, res) => {
+        setTimeout(() => res.end('{}'), 500)
+      }
+      await assert.rejects(
+        client({ timeout: 50, retries: 0 }).getBlockCount(),
+        /timed out after 50ms/,
+      )
+    })
+
+    it('should treat a resent transaction the node already has as sent', async () => {
+      const tx = new Transaction()
+        .from({
+          txId: 'ab'.repeat(32),
+          outputIndex: 0,
+          script: Script.buildPublicKeyHashOut(new PrivateKey().toAddress()),
+          satoshis: 100000,
+        })
+        .to(new PrivateKey().toAddress(), 90000)
+
+      for (const error of [
+        { code: -26, message: 'txn-already-in-mempool' },
+        { code: -27, message: 'Transaction already in block chain' },
+      ]) {
+        // The first attempt reaches the node but its reply times out
+        let calls = 0
+        handler = (body, res) => {
+          if (calls++ === 0) {
+            setTimeout(() => res.end('{}'), 200)
+            return
+          }
+          res.statusCode = 500
+          return { result: null, error, id: body.id }
+        }
+        requests = []
+        assert.strictEqual(
+          await client({ timeout: 50 }).sendRawTransaction(tx.toString()),
+          tx.id,
+        )
+        assert.strictEqual(requests.length, 2)
+      }
+
+      handler = (body, res) => {
+        res.statusCode = 500
+        return {
+          result: null,
+          error: { code: -26, message: 'mandatory-script-verify-flag-failed' },
+          id: body.id,
+        }
+      }
+      await assert.rejects(
+        client().sendRawTransaction(tx),
+        (error: RPCError) => error.code === -26,
+      )
+    })
+  })
+
+  describe('Conversions', () => {
+    const key = new PrivateKey()
+
+    function fundedTransaction() {
+      return new Transaction()
+        .from({
+          txId: 'ab'.repeat(32),
+          outputIndex: 0,
+          script: Script.buildPublicKeyHashOut(key.toAddress()),
+          satoshis: 100000,
+        })
+        .to(key.toAddress(), 90000)
+    }
+
+    it('should parse raw transactions into Transaction', async () => {
+      const tx = fundedTransaction()
+      handler = body => ({ result: tx.toString(), error: null, id: body.id })
+
+      const parsed = await client().getTransaction(tx.id)
+      assert.ok(parsed instanceof Transaction)
+      assert.strictEqual(parsed.id, tx.id)
+      const body = requests[0].body as { params: unknown[] }
+      assert.deepStrictEqual(body.params, [tx.id, false])
+    })
+
+    it('should serialize Transaction arguments', async () => {
+      const tx = fundedTransaction()
+      await client().testMempoolAccept([tx, 'beef'])
+      const body = requests[0].body as { params: unknown[] }
+      assert.deepStrictEqual(body.params, [[tx.toString(), 'beef']])
+    })
+
+    it('should parse raw block headers into BlockHeader', async () => {
+      const header = new BlockHeader({
+        prevHash: Buffer.alloc(32, 1),
+        merkleRoot: Buffer.alloc(32, 2),
+        time: 1700000000,
+        bits: 0x1d00ffff,
+        height: 100,
+      })
+      handler = body => ({
+        result: header.toString(),
+        error: null,
+        id: body.id,
+      })
+
+      const parsed = await client().getRawBlockHeader('00'.repeat(32))
+      assert.ok(parsed instanceof BlockHeader)
+      assert.strictEqual(parsed.hash, header.hash)
+      assert.strictEqual(parsed.height, 100)
+    })
+
+    it('should parse raw blocks into Block', async () => {
+      const block = Block.fromObject({
+        header: new BlockHeader({ time: 1700000000, height: 100 }),
+        transactions: [fundedTransaction()],
+      })
+      handler = body => ({
+        result: block.toString(),
+        error: null,
+        id: body.id,
+      })
+
+      const parsed = await client().getRawBlock(block.hash)
+      assert.ok(parsed instanceof Block)
+      assert.strictEqual(parsed.hash, block.hash)
+      assert.strictEqual(parsed.transactions[0].id, block.transactions[0].id)
+    })
+  })
+})
@@ -0,0 +1,214 @@
+/**
+ * SLIP-39 Tests
+ *
+ * Covers the SLIP-39 reference vectors, group and member thresholds,
+ * passphrase encryption and the BIP39 mnemonic backup helpers.
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import { Mnemonic, Slip39, pbkdf2 } from '../lib/bitcore/index.js'
+
+// https://github.com/trezor/python-shamir-mnemonic/blob/master/vectors.json
+const VECTORS = [
+  {
+    description: '1-of-1 share, 128 bits',
+    mnemonics: [
+      'duckling enlarge academic academic agency result length solution fridge kidney coal piece deal husband erode duke ajar critical decision keyboard',
+    ],
+    secret: 'bb54aac4b89dc868ba37d9cc21b2cece',
+  },
+  {
+    description: '2-of-3 shares, 128 bits',
+    mnemonics: [
+      'shadow pistol academic always adequate wildlife fancy gross oasis cylinder mustang wrist rescue view short owner flip making coding armed',
+      'shadow pistol academic acid actress prayer class unknown daughter sweater depict flip twice unkind craft early superior advocate guest smoking',
+    ],
+    secret: 'b43ceb7e57a0ea8766221624d01b0864',
+  },
+  {
+    description: '1-of-1 share, 256 bits',
+    mnemonics: [
+      'theory painting academic academic armed sweater year military elder discuss acne wildlife boring employer fused large satoshi bundle carbon diagnose anatomy hamster leaves tracks paces beyond phantom capital marvel lips brave detect luck',
+    ],
+    secret: '989baf9dcaad5b10ca33dfd8cc75e42477025dce88ae83e75a230086a0e00e92',
+  },
+]
+
+const SECRET = Buffer.from('000102030405060708090a0b0c0d0e0f', 'hex')
+
+describe('Slip39', () => {
+  describe('Reference vectors', () => {
+    for (const vector of VECTORS) {
+      it(`should recover the secret of the ${vector.description} vector`, () => {
+        assert.strictEqual(
+          Slip39.combine(vector.mnemonics, 'TREZOR').toString('hex'),
+          vector.secret,
+        )
+      })
+    }
+
+    it('should re-encode decoded shares', () => {
+      for (const mnemonic of VECTORS.flatMap(v => v.mnemonics)) {
+        assert.strictEqual(
+          Slip39.encodeShare(Slip39.decodeShare(mnemonic)),
+          mnemonic,
+        )
+      }
+    })
+
+    it('should reject bad checksums and short mnemonics', () => {
+      const words = VECTORS[0].mnemonics[0].split(' ')
+      assert.ok(Slip39.isValid(words.join(' ')))
+      assert.ok(!Slip39.isValid([...words.slice(0, -1), 'kidney'].join(' ')))
+      assert.ok(!Slip39.isValid(words.slice(0, 19).join(' ')))
+      assert.throws(
+        () => Slip39.combine([[...words.slice(0, -1), 'kidney'].join(' ')]),
+        /checksum/,
+      )
+    })
+
+    it('should match words by their first four letters', () => {
+      const abbreviated = VECTORS[0].mnemonics[0]
+        .split(' ')
+        .map(word => word.slice(0, 4).toUpperCase())
+        .join(' ')
+      assert.strictEqual(
+        Slip39.combine([abbreviated], 'TREZOR').toString('hex'),
+        VECTORS[0].secret,
+      )
+    })
+  })
+
+  describe('split() and combine()', () => {
+    it('should recover from any threshold subset of members', () => {
+      const [shares] = Slip39.split(SECRET, 1, [{ threshold: 3, count: 5 }], {
+        iterationExponent: 0,
+      })
+      assert.strictEqual(shares.length, 5)
+      for (const subset of [
+        [0, 1, 2],
+        [4, 2, 0],
+        [1, 3, 4],
+      ]) {
+        const recovered = Slip39.combine(subset.map(i => shares[i]))
+        assert.ok(recovered.equals(SECRET))
+      }
+      assert.throws(
+        () => Slip39.combine(shares.slice(0, 2)),
+        /Insufficient number of mnemonic groups/,
+      )
+    })
+
+    it('should require the group threshold of complete groups', () => {
+      const groups = Slip39.split(
+        SECRET,
+        2,
+        [
+          { threshold: 1, count: 1 },
+          { threshold: 2, count: 3 },
+          { threshold: 3, count: 5 },
+        ],
+        { iterationExponent: 0 },
+      )
+      assert.deepStrictEqual(
+        groups.map(group => group.length),
+        [1, 3, 5],
+      )
+      assert.ok(Slip39.combine([groups[0][0], ...groups[1]]).equals(SECRET))
+      assert.ok(
+        Slip39.combine([
+          groups[2][4],
+          groups[1][2],
+          groups[2][0],
+          groups[1][1],
+          groups[2][3],
+        ]).equals(SECRET),
+      )
+      // Group 2 is short of its member threshold
+      assert.throws(
+        () => Slip39.combine([groups[0][0], groups[2][0], groups[2][1]]),
+        /Insufficient/,
+      )
+    })
+
+    it('should encrypt the secret with the passphrase', () => {
+      for (const extendable of [true, false]) {
+        const [[share]] = Slip39.split(
+          SECRET,
+          1,
+          [{ threshold: 1, count: 1 }],
+          {
+            passphrase: 'TREZOR',
+            iterationExponent: 0,
+            extendable,
+          },
+        )
+        assert.strictEqual(Slip39.decodeShare(share).extendable, extendable)
+        assert.ok(Slip39.combine([share], 'TREZOR').equals(SECRET))
+        assert.ok(!Slip39.combine([share]).equals(SECRET))
+      }
+    })
+
+    it('should reject mixed shares and invalid parameters', () => {
+      const [shares] = Slip39.split(SECRET, 1, [{ threshold: 2, count: 2 }], {
+        iterationExponent: 0,
+      })
+      const other = Slip39.decodeShare(shares[1])
+      const foreign = Slip39.encodeShare({
+        ...other,
+        identifier: other.identifier ^ 1,
+      })
+      assert.throws(() => Slip39.combine([shares[0], foreign]), /same 2 words/)
+
+      assert.throws(
+        () =>
+          Slip39.split(SECRET.subarray(0, 15), 1, [{ threshold: 1, count: 1 }]),
+        /at least 16 bytes/,
+      )
+      assert.throws(
+        () => Slip39.split(SECRET, 1, [{ threshold: 1, count: 3 }]),
+        /member threshold 1/,
+      )
+      assert.throws(
+        () => Slip39.split(SECRET, 2, [{ threshold: 2, count: 3 }]),
+        /Group threshold/,
+      )
+      assert.throws(
+        () =>
+          Slip39.split(SECRET, 1, [{ threshold: 1, count: 1 }], {
+            passphrase: 'café',
+          }),
+        /printable ASCII/,
+      )
+    })
+  })
+
+  describe('Mnemonic backups', () => {
+    it('should restore a BIP39 mnemonic from its shares', () => {
+      const mnemonic = new Mnemonic()
+      const [shares] = Slip39.fromMnemonic(
+        mnemonic,
+        1,
+        [{ threshold: 2, count: 3 }],
+        { passphrase: 'treasury', iterationExponent: 0 },
+      )
+      const recovered = Slip39.toMnemonic([shares[2], shares[0]], 'treasury')
+      assert.strictEqual(recovered.phrase, mnemonic.phrase)
+      assert.strictEqual(
+        recovered.toHDPrivateKey().xprivkey,
+        mnemonic.toHDPrivateKey().xprivkey,
+      )
+    })
+  })
+
+  describe('pbkdf2()', () => {
+    it('should support HMAC-SHA256', () => {
+      // RFC 7914 PBKDF2-HMAC-SHA256 test vector
+      assert.strictEqual(
+        pbkdf2('passwd', 'salt', 1, 64, 'sha256').toString('hex'),
+        '55ac046e56e3089fec1691c22544b605f94185216dde0465e68b9d57c20dacbc49ca9cccf179b645991664b39d77ef317c71b845b1e30bd509112041d3a19783',
+      )
+    })
+  })
+})
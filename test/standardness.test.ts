@@ -0,0 +1,297 @@
+/**
+ * Standardness Policy Tests
+ *
+ * Covers output templates, dust, OP_RETURN limits, relay fees, lock times,
+ * signature check counting and Taproot spend rules of checkStandardness().
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import {
+  ECDSA,
+  Hash,
+  Opcode,
+  Output,
+  PrivateKey,
+  Script,
+  Signature,
+  Transaction,
+  buildKeyPathTaproot,
+  buildScriptPathTaproot,
+  checkStandardness,
+  createControlBlock,
+  getDustThreshold,
+  type StandardnessResult,
+  type TapNode,
+} from '../lib/bitcore/index.js'
+
+const key = new PrivateKey()
+const recipient = new PrivateKey().toAddress()
+
+function utxo(
+  script: Script = Script.fromAddress(key.toAddress()),
+  satoshis = 100000,
+) {
+  return {
+    txId: '11'.repeat(32),
+    outputIndex: 0,
+    script,
+    satoshis,
+  }
+}
+
+function reasons(result: StandardnessResult): string[] {
+  return result.violations.map(violation => violation.reason)
+}
+
+describe('checkStandardness', () => {
+  it('should accept a standard P2PKH spend', () => {
+    const coin = utxo()
+    const tx = new Transaction()
+      .from(coin)
+      .to(recipient, 99000)
+      .addData('hello')
+      .sign(key)
+
+    const result = checkStandardness(tx)
+    assert.deepStrictEqual(result.violations, [])
+    assert.ok(result.standard)
+    assert.strictEqual(result.fee, 1000)
+    assert.strictEqual(result.size, tx.toBuffer().length)
+    assert.strictEqual(result.sigChecks, 1)
+
+    // Spent outputs may be supplied separately
+    const bare = new Transaction(tx.toBuffer())
+    assert.ok(!bare.hasAllUtxoInfo())
+    assert.ok(checkStandardness(bare, [coin]).standard)
+    assert.ok(!bare.hasAllUtxoInfo())
+    assert.deepStrictEqual(reasons(checkStandardness(bare)), ['missing-inputs'])
+  })
+
+  it('should report every output violation', () => {
+    const multisig = Script.buildMultisigOut(
+      [1, 2, 3, 4].map(() => new PrivateKey().publicKey),
+      1,
+    )
+    const tx = new Transaction()
+      .from(utxo(undefined, 200000))
+      .addOutput(
+        new Output({ script: Script.fromAddress(recipient), satoshis: 545 }),
+      )
+      .addOutput(
+        new Output({ script: new Script().add(Opcode.OP_1), satoshis: 1000 }),
+      )
+      .addOutput(new Output({ script: multisig, satoshis: 1000 }))
+      .addOutput(
+        new Output({
+          script: Script.buildDataOut(Buffer.alloc(221)),
+          satoshis: 0,
+        }),
+      )
+      .addData('a')
+      .addData('b')
+      .addData('c')
+      .sign(key)
+
+    const result = checkStandardness(tx)
+    assert.deepStrictEqual(
+      result.violations.map(({ reason, output }) => [reason, output]),
+      [
+        ['dust', 0],
+        ['scriptpubkey', 1],
+        ['scriptpubkey', 2],
+        ['oversize-op-return', 3],
+        ['multi-op-return', undefined],
+      ],
+    )
+    assert.ok(!result.standard)
+    assert.strictEqual(result.sigChecks, 1)
+  })
+
+  it('should compute dust thresholds per output type', () => {
+    const pubkey = key.publicKey
+    assert.strictEqual(
+      getDustThreshold(Script.fromAddress(key.toAddress())),
+      Transaction.DUST_AMOUNT,
+    )
+    assert.strictEqual(
+      getDustThreshold(
+        Script.buildScriptHashOut(Script.buildMultisigOut([pubkey], 1)),
+      ),
+      540,
+    )
+    assert.strictEqual(getDustThreshold(buildKeyPathTaproot(pubkey)), 579)
+    assert.strictEqual(
+      getDustThreshold(buildKeyPathTaproot(pubkey, Buffer.alloc(32))),
+      678,
+    )
+    assert.strictEqual(getDustThreshold(Script.buildDataOut('data')), 0)
+    assert.strictEqual(
+      getDustThreshold(Script.fromAddress(key.toAddress()), 2000),
+      1092,
+    )
+    assert.ok(buildKeyPathTaproot(pubkey).isStandard())
+  })
+
+  it('should enforce the minimum relay fee', () => {
+    const tx = new Transaction()
+      .from(utxo(undefined, 10000))
+      .to(recipient, 9900)
+      .sign(key)
+    assert.deepStrictEqual(reasons(checkStandardness(tx)), [
+      'min-relay-fee-not-met',
+    ])
+    assert.ok(checkStandardness(tx, [], { feePerKb: 500 }).standard)
+
+    const overspend = new Transaction()
+      .from(utxo(undefined, 10000))
+      .to(recipient, 20000)
+      .sign(key)
+    assert.deepStrictEqual(reasons(checkStandardness(overspend)), [
+      'bad-txns-in-belowout',
+    ])
+  })
+
+  it('should check absolute and relative lock times', () => {
+    const locked = new Transaction()
+      .from(utxo())
+      .to(recipient, 99000)
+      .lockUntilBlockHeight(1000)
+      .sign(key)
+    assert.deepStrictEqual(
+      reasons(checkStandardness(locked, [], { height: 1000 })),
+      ['non-final'],
+    )
+    assert.ok(checkStandardness(locked, [], { height: 1001 }).standard)
+    // Without chain state lock times are not checked
+    assert.ok(checkStandardness(locked).standard)
+
+    const coin = { ...utxo(), height: 100 }
+    const relative = new Transaction().from(coin).to(recipient, 99000)
+    relative.inputs[0].sequenceNumber = 10
+    relative.sign(key)
+    const early = checkStandardness(relative, [coin], { height: 109 })
+    assert.deepStrictEqual(
+      early.violations.map(({ reason, input }) => [reason, input]),
+      [['non-BIP68-final', 0]],
+    )
+    assert.ok(checkStandardness(relative, [coin], { height: 110 }).standard)
+  })
+
+  it('should count signature checks', () => {
+    const keys = [key, new PrivateKey(), new PrivateKey()]
+    const publicKeys = keys.map(k => k.publicKey)
+    const tx = new Transaction()
+      .from(utxo(Script.buildMultisigOut(publicKeys, 2), 100000), publicKeys, 2)
+      .to(recipient, 99000)
+      .sign([keys[0], keys[2]])
+
+    // Legacy multisig checks every key
+    const result = checkStandardness(tx)
+    assert.deepStrictEqual(result.violations, [])
+    assert.strictEqual(result.sigChecks, 3)
+  })
+
+  it('should limit signature checks per input script size', () => {
+    const message = Buffer.from('policy')
+    const signature = ECDSA.sign(Hash.sha256(message), key, 'big').toDER()
+    const redeemScript = new Script()
+    for (let i = 0; i < 9; i++) {
+      redeemScript.add(Opcode.OP_3DUP).add(Opcode.OP_CHECKDATASIGVERIFY)
+    }
+    redeemScript.add(Opcode.OP_CHECKDATASIG)
+    const coin = utxo(Script.buildScriptHashOut(redeemScript))
+
+    const tx = new Transaction().from(coin).to(recipient, 99000)
+    tx.inputs[0].setScript(
+      new Script()
+        .add(signature)
+        .add(message)
+        .add(key.publicKey.toBuffer())
+        .add(redeemScript.toBuffer()),
+    )
+
+    const result = checkStandardness(tx, [coin])
+    assert.deepStrictEqual(
+      result.violations.map(({ reason, input }) => [reason, input]),
+      [['input-sigchecks', 0]],
+    )
+    assert.strictEqual(result.sigChecks, 10)
+  })
+
+  it('should reject non-push input scripts and failed scripts', () => {
+    const tx = new Transaction().from(utxo()).to(recipient, 99000)
+    tx.inputs[0].setScript(new Script().add(Opcode.OP_1).add(Opcode.OP_DUP))
+    assert.deepStrictEqual(reasons(checkStandardness(tx)), [
+      'scriptsig-not-pushonly',
+    ])
+
+    tx.inputs[0].setScript(new Script().add(Opcode.OP_1))
+    const result = checkStandardness(tx)
+    assert.deepStrictEqual(reasons(result), ['script-verify-failed'])
+    assert.match(result.violations[0].message, /SCRIPT_ERR_/)
+  })
+
+  describe('Taproot', () => {
+    const leaf = new Script()
+      .add(Opcode.OP_1)
+      .add(Opcode.OP_VERIFY)
+      .add(Opcode.OP_1)
+    const tree: TapNode = { script: leaf }
+    const internalKey = key.publicKey
+    const { script } = buildScriptPathTaproot(internalKey, tree)
+    const controlBlock = createControlBlock(internalKey, 0, tree)
+
+    function spend(scriptSig: Script) {
+      const tx = new Transaction().from(utxo(script)).to(recipient, 99000)
+      tx.inputs[0].setScript(scriptSig)
+      return checkStandardness(tx)
+    }
+
+    it('should accept key path and script path spends', () => {
+      const tx = new Transaction()
+        .from(utxo(buildKeyPathTaproot(key.publicKey)))
+        .to(recipient, 99000)
+        .sign(key, Signature.SIGHASH_ALL | Signature.SIGHASH_LOTUS, 'schnorr')
+      const result = checkStandardness(tx)
+      assert.deepStrictEqual(result.violations, [])
+      assert.strictEqual(result.sigChecks, 1)
+
+      assert.ok(
+        spend(new Script().add(leaf.toBuffer()).add(controlBlock)).standard,
+      )
+    })
+
+    it('should reject an annex', () => {
+      const result = spend(
+        new Script()
+          .add(leaf.toBuffer())
+          .add(controlBlock)
+          .add(Buffer.from([0x50, 0x01])),
+      )
+      assert.deepStrictEqual(
+        result.violations.map(({ reason, input }) => [reason, input]),
+        [['taproot-annex', 0]],
+      )
+    })
+
+    it('should reject malformed control blocks', () => {
+      assert.deepStrictEqual(
+        reasons(
+          spend(
+            new Script()
+              .add(leaf.toBuffer())
+              .add(controlBlock.subarray(0, controlBlock.length - 1)),
+          ),
+        ),
+        ['taproot-control-block'],
+      )
+
+      const badVersion = Buffer.from(controlBlock)
+      badVersion[0] = (badVersion[0] & ~0xfe) | 0xc2
+      const result = spend(new Script().add(leaf.toBuffer()).add(badVersion))
+      assert.deepStrictEqual(reasons(result), ['taproot-control-block'])
+      assert.match(result.violations[0].message, /leaf version 0xc2/)
+    })
+  })
+})
@@ -0,0 +1,280 @@
+/**
+ * SwapSig Coordinator Tests
+ *
+ * Runs pools between three coordinators on local libp2p nodes against a
+ * mock chain: a full setup → reveal → settlement swap, a participant whose
+ * setup transaction never confirms, and a participant aborting the pool.
+ */
+
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert'
+import { PrivateKey } from '../../lib/bitcore/privatekey.js'
+import { Script } from '../../lib/bitcore/script.js'
+import { Output, Transaction } from '../../lib/bitcore/transaction/index.js'
+import { MockChainBackend } from '../../lib/chain/mock.js'
+import { SwapSigCoordinator } from '../../lib/p2p/swapsig/coordinator.js'
+import {
+  SwapPhase,
+  SwapSigEvent,
+  type SwapSigEventMap,
+} from '../../lib/p2p/swapsig/types.js'
+
+/**
+ * Mock chain that mines every broadcast transaction straight away, except
+ * those spending a stalled output, which stay unconfirmed
+ */
+class AutoMiningBackend extends MockChainBackend {
+  readonly stalled = new Set<string>()
+  private stalledTxs = new Set<string>()
+
+  async broadcast(tx: Transaction | string): Promise<string> {
+    const transaction = typeof tx === 'string' ? new Transaction(tx) : tx
+    const txId = await super.broadcast(transaction)
+    if (
+      transaction.inputs.some(input =>
+        this.stalled.has(input.prevTxId.toString('hex')),
+      )
+    ) {
+      this.stalledTxs.add(txId)
+    } else {
+      this.mineBlock()
+    }
+    return txId
+  }
+
+  async getTransaction(txId: string) {
+    const tx = await super.getTransaction(txId)
+    if (tx && this.stalledTxs.has(txId)) {
+      tx.blockHeight = -1
+    }
+    return tx
+  }
+}
+
+interface Peer {
+  key: PrivateKey
+  destination: PrivateKey
+  coordinator: SwapSigCoordinator
+}
+
+const denomination = 1000000
+
+/**
+ * Wait for a pool event on a coordinator
+ */
+function waitForPoolEvent<E extends SwapSigEvent>(
+  coordinator: SwapSigCoordinator,
+  event: E,
+  poolId: string,
+  timeout = 30000,
+): Promise<SwapSigEventMap[E]> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      coordinator.off(event, listener as never)
+      reject(new Error(`Timed out waiting for ${event} on ${poolId}`))
+    }, timeout)
+    const listener = (...args: SwapSigEventMap[E]) => {
+      if (args[0] !== poolId) {
+        return
+      }
+      clearTimeout(timer)
+      coordinator.off(event, listener as never)
+      resolve(args)
+    }
+    coordinator.on(event, listener as never)
+  })
+}
+
+describe('SwapSigCoordinator', () => {
+  const backend = new AutoMiningBackend()
+  let peers: Peer[]
+  let alice: Peer
+
+  before(async () => {
+    peers = ['alice', 'bob', 'carol'].map(() => {
+      const key = new PrivateKey()
+      return {
+        key,
+        destination: new PrivateKey(),
+        coordinator: new SwapSigCoordinator(
+          key,
+          {
+            listen: ['/ip4/127.0.0.1/tcp/0'],
+            enableDHT: false,
+            bootstrapPeers: [],
+          },
+          {},
+          {
+            minParticipants: 3,
+            maxParticipants: 3,
+            chainBackend: backend,
+            requiredConfirmations: 1,
+          },
+        ),
+      }
+    })
+    alice = peers[0]
+
+    for (const peer of peers) {
+      await peer.coordinator.start()
+    }
+    // Full mesh, so pool announcements and settlement sessions reach everyone
+    for (let i = 0; i < peers.length; i++) {
+      for (let j = i + 1; j < peers.length; j++) {
+        await peers[i].coordinator.connectToPeer(
+          peers[j].coordinator.libp2pNode.getMultiaddrs()[0].toString(),
+        )
+      }
+    }
+    // Let GossipSub exchange topic subscriptions
+    await new Promise(resolve => setTimeout(resolve, 1500))
+  })
+
+  after(async () => {
+    for (const peer of peers) {
+      await peer.coordinator.stop()
+    }
+  })
+
+  /**
+   * Create a pool on Alice's node and wait until the others discover it
+   */
+  async function createPool(
+    params: { maxParticipants?: number; setupTimeout?: number } = {},
+  ): Promise<string> {
+    const [, ...others] = peers
+    const discovered = others.map(
+      peer =>
+        new Promise<string>(resolve => {
+          peer.coordinator.on(SwapSigEvent.POOL_DISCOVERED, announcement =>
+            resolve(announcement.poolId),
+          )
+        }),
+    )
+    const poolId = await alice.coordinator.createPool({
+      denomination,
+      ...params,
+    })
+    for (const found of discovered) {
+      assert.strictEqual(await found, poolId)
+    }
+    return poolId
+  }
+
+  /**
+   * Fund a peer and register the output in a pool
+   */
+  async function join(peer: Peer, poolId: string): Promise<void> {
+    const utxo = backend.fund(peer.key.toAddress(), denomination * 2)
+    await peer.coordinator.joinPool(poolId, utxo, peer.destination.toAddress())
+  }
+
+  it('should swap through setup, reveal and settlement', async () => {
+    const poolId = await createPool()
+
+    const complete = peers.map(peer =>
+      waitForPoolEvent(peer.coordinator, SwapSigEvent.POOL_COMPLETE, poolId),
+    )
+    const reveals = peers.map(peer =>
+      waitForPoolEvent(peer.coordinator, SwapSigEvent.REVEAL_COMPLETE, poolId),
+    )
+    const setups = peers.map(peer =>
+      waitForPoolEvent(peer.coordinator, SwapSigEvent.SETUP_COMPLETE, poolId),
+    )
+
+    // The pool starts by itself once the third participant registers
+    for (const peer of peers) {
+      await join(peer, poolId)
+    }
+    await Promise.all([...setups, ...reveals, ...complete])
+
+    for (const peer of peers) {
+      const pool = peer.coordinator.getPool(poolId)!
+      assert.strictEqual(pool.phase, SwapPhase.COMPLETE)
+      assert.strictEqual(pool.participants.length, 3)
+    }
+
+    // Every destination received one settlement output, each signed with a
+    // valid MuSig2 key-path signature for the shared Taproot output
+    const pool = alice.coordinator.getPool(poolId)!
+    for (const peer of peers) {
+      const utxos = await backend.getUtxos(
+        Script.fromAddress(peer.destination.toAddress()),
+      )
+      assert.strictEqual(utxos.length, 1)
+      assert.strictEqual(utxos[0].blockHeight > 0, true)
+    }
+    for (const info of pool.settlementMapping.values()) {
+      const group = pool.outputGroups[info.groupIndex]
+      const source = pool.participants[info.sourceIndex]
+      const settlement = new Transaction(
+        backend.broadcasts.find(
+          hex => new Transaction(hex).id === info.settlementTxId,
+        )!,
+      )
+      assert.strictEqual(
+        settlement.inputs[0].prevTxId.toString('hex'),
+        source.setupTxId,
+      )
+      settlement.inputs[0].output = new Output({
+        script: group.taprootScript,
+        satoshis: denomination,
+      })
+      assert.strictEqual(settlement.verifyScripts().valid, true)
+    }
+  })
+
+  it('should abort when a setup transaction never confirms', async () => {
+    const poolId = await createPool({ setupTimeout: 3000 })
+    const aborted = peers.map(peer =>
+      waitForPoolEvent(peer.coordinator, SwapSigEvent.POOL_ABORTED, poolId),
+    )
+
+    // Carol's setup transaction is broadcast but never mined
+    await join(peers[0], poolId)
+    await join(peers[1], poolId)
+    const utxo = backend.fund(peers[2].key.toAddress(), denomination * 2)
+    backend.stalled.add(utxo.txId)
+    await peers[2].coordinator.joinPool(
+      poolId,
+      utxo,
+      peers[2].destination.toAddress(),
+    )
+
+    for (const [, reason] of await Promise.all(aborted)) {
+      assert.strictEqual(reason, 'Setup timeout')
+    }
+    for (const peer of peers) {
+      const pool = peer.coordinator.getPool(poolId)!
+      assert.strictEqual(pool.phase, SwapPhase.ABORTED)
+      assert.deepStrictEqual(
+        pool.participants.map(p => p.setupConfirmed),
+        [true, true, false],
+      )
+    }
+  })
+
+  it('should abort on every peer when a participant aborts', async () => {
+    const poolId = await createPool({ maxParticipants: 4 })
+    for (const peer of peers) {
+      await join(peer, poolId)
+    }
+    assert.strictEqual(
+      alice.coordinator.getPool(poolId)!.phase,
+      SwapPhase.REGISTRATION,
+    )
+
+    const aborted = peers.map(peer =>
+      waitForPoolEvent(peer.coordinator, SwapSigEvent.POOL_ABORTED, poolId),
+    )
+    // Bob's abort reaches Carol through the pool creator
+    await peers[1].coordinator.abortPool(poolId, 'Participant left')
+
+    for (const [, reason] of await Promise.all(aborted)) {
+      assert.strictEqual(reason, 'Participant left')
+    }
+    for (const peer of peers) {
+      assert.strictEqual(peer.coordinator.getPool(poolId)!.aborted, true)
+    }
+  })
+})
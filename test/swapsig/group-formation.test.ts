@@ -452,4 +452,66 @@ describe('SwapSig Group Formation', () => {
       assert.strictEqual(strategy50.groupSize, 10, '50 should use 10-of-10')
     })
   })
+
+  describe('Refund Leaves', () => {
+    function createParticipants(n: number): SwapParticipant[] {
+      return Array.from({ length: n }, (_, i) => {
+        const key = new PrivateKey()
+        const address = key.toAddress()
+        return {
+          peerId: `peer-${i}`,
+          participantIndex: i,
+          publicKey: key.publicKey,
+          input: {
+            txId: '0'.repeat(64),
+            outputIndex: i,
+            amount: 1000000,
+            script: Script.fromAddress(address),
+            address: address,
+          },
+          ownershipProof: Buffer.from('proof'),
+          finalOutputEncrypted: Buffer.from('encrypted'),
+          finalOutputCommitment: Buffer.from('commitment'),
+          setupConfirmed: false,
+          joinedAt: Date.now(),
+        }
+      })
+    }
+
+    it('should give refund leaves only to the sources of each group', () => {
+      for (const n of [3, 10]) {
+        const manager = new SwapPoolManager()
+        const pool = manager.createPool(
+          { denomination: 100000, maxParticipants: n, refundDelay: 3600 },
+          { creatorPeerId: 'peer-0' },
+        )
+        manager.setParticipants(pool.poolId, createParticipants(n))
+
+        for (const group of manager.computeOutputGroups(pool.poolId)) {
+          assert.strictEqual(group.refund.refundDelay, 3600)
+          assert.deepStrictEqual(
+            group.refund.refundPubKeys.map(key => key.toString()),
+            group.sourceIndices.map(i =>
+              pool.participants[i].publicKey.toString(),
+            ),
+          )
+          assert.ok(group.taprootScript.equals(group.refund.script))
+        }
+      }
+    })
+
+    it('should reject refund delays outside the BIP68 time range', () => {
+      const manager = new SwapPoolManager()
+      for (const refundDelay of [0, 100, 512 * 0xffff]) {
+        assert.throws(
+          () =>
+            manager.createPool(
+              { denomination: 100000, refundDelay },
+              { creatorPeerId: 'peer-0' },
+            ),
+          /Invalid refund delay/,
+        )
+      }
+    })
+  })
 })
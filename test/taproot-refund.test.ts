@@ -0,0 +1,335 @@
+/**
+ * Timelocked Refund Path Tests
+ *
+ * Tests MuSig2 Taproot outputs that commit to a CSV refund leaf per signer,
+ * and the refund spend builder.
+ */
+
+import { describe, it, beforeEach } from 'node:test'
+import assert from 'node:assert'
+import {
+  PrivateKey,
+  Script,
+  Opcode,
+  Input,
+  Interpreter,
+  Transaction,
+  Output,
+  buildMuSigTaprootKey,
+  buildMuSigRefundTaproot,
+  buildRefundLeafScript,
+  buildRefundSpend,
+  getRefundSequence,
+  verifyTaprootScriptPath,
+  TaprootInput,
+  MuSigSessionManager,
+  type MuSigRefundTaprootResult,
+} from '../lib/bitcore/index.js'
+
+const REFUND_DELAY = 24 * 60 * 60
+const FUNDING_TXID = 'ab'.repeat(32)
+
+const VERIFY_FLAGS =
+  Interpreter.SCRIPT_VERIFY_STRICTENC |
+  Interpreter.SCRIPT_VERIFY_CHECKSEQUENCEVERIFY |
+  Interpreter.SCRIPT_ENABLE_SIGHASH_FORKID |
+  Interpreter.SCRIPT_ENABLE_SCHNORR_MULTISIG
+
+function verifyInput(tx: Transaction, refund: MuSigRefundTaprootResult) {
+  const interpreter = new Interpreter()
+  const valid = interpreter.verify(
+    tx.inputs[0].script,
+    refund.script,
+    tx,
+    0,
+    VERIFY_FLAGS,
+    100000n,
+  )
+  return { valid, errstr: interpreter.errstr }
+}
+
+describe('Taproot Refund Paths', () => {
+  let alice: PrivateKey
+  let bob: PrivateKey
+  let carol: PrivateKey
+
+  beforeEach(() => {
+    alice = new PrivateKey()
+    bob = new PrivateKey()
+    carol = new PrivateKey()
+  })
+
+  describe('Leaf scripts', () => {
+    it('should encode the sequence like Input.lockForSeconds()', () => {
+      const input = new Input().lockForSeconds(REFUND_DELAY)
+      assert.strictEqual(getRefundSequence(REFUND_DELAY), input.sequenceNumber)
+      assert.ok(
+        getRefundSequence(REFUND_DELAY) & Input.SEQUENCE_LOCKTIME_TYPE_FLAG,
+      )
+    })
+
+    it('should build <seq> CSV DROP <pubkey> CHECKSIG', () => {
+      const script = buildRefundLeafScript(alice.publicKey, REFUND_DELAY)
+      const chunks = script.chunks
+
+      assert.strictEqual(chunks.length, 5)
+      assert.strictEqual(chunks[1].opcodenum, Opcode.OP_CHECKSEQUENCEVERIFY)
+      assert.strictEqual(chunks[2].opcodenum, Opcode.OP_DROP)
+      assert.ok(chunks[3].buf!.equals(alice.publicKey.toBuffer()))
+      assert.strictEqual(chunks[4].opcodenum, Opcode.OP_CHECKSIG)
+    })
+  })
+
+  describe('Output construction', () => {
+    it('should use the MuSig2 aggregate as internal key', () => {
+      const signers = [alice.publicKey, bob.publicKey, carol.publicKey]
+      const refund = buildMuSigRefundTaproot(signers, REFUND_DELAY)
+      const keyPathOnly = buildMuSigTaprootKey(signers)
+
+      assert.strictEqual(
+        refund.aggregatedPubKey.toString(),
+        keyPathOnly.aggregatedPubKey.toString(),
+      )
+      // Committing to the refund leaves changes the output
+      assert.notStrictEqual(
+        refund.commitment.toString(),
+        keyPathOnly.commitment.toString(),
+      )
+      assert.ok(refund.script.isPayToTaproot())
+    })
+
+    it('should create one leaf per signer, in signer order', () => {
+      const signers = [alice.publicKey, bob.publicKey, carol.publicKey]
+      const refund = buildMuSigRefundTaproot(signers, REFUND_DELAY)
+
+      assert.strictEqual(refund.leaves.length, 3)
+      signers.forEach((key, i) => {
+        assert.ok(
+          refund.leaves[i].script
+            .toBuffer()
+            .equals(buildRefundLeafScript(key, REFUND_DELAY).toBuffer()),
+        )
+      })
+    })
+
+    it('should restrict refund leaves to the given keys', () => {
+      const signers = [alice.publicKey, bob.publicKey, carol.publicKey]
+      const refund = buildMuSigRefundTaproot(signers, REFUND_DELAY, [
+        bob.publicKey,
+      ])
+
+      assert.strictEqual(refund.leaves.length, 1)
+      assert.strictEqual(
+        refund.aggregatedPubKey.toString(),
+        buildMuSigTaprootKey(signers).aggregatedPubKey.toString(),
+      )
+      assert.throws(
+        () =>
+          buildRefundSpend({
+            refund,
+            utxo: { txId: FUNDING_TXID, outputIndex: 0, satoshis: 100000 },
+            privateKey: alice,
+            address: alice.toAddress(),
+            fee: 500,
+          }),
+        /does not belong to any refund leaf/,
+      )
+    })
+
+    it('should reject an empty signer set', () => {
+      assert.throws(() => buildMuSigRefundTaproot([], REFUND_DELAY))
+    })
+  })
+
+  describe('Cooperative key path', () => {
+    it('should sign with the tweak committing to the refund leaves', () => {
+      const refund = buildMuSigRefundTaproot(
+        [alice.publicKey, bob.publicKey],
+        REFUND_DELAY,
+      )
+      const keys = [alice, bob]
+
+      const tx = new Transaction()
+        .from({
+          txId: FUNDING_TXID,
+          outputIndex: 0,
+          script: refund.script,
+          satoshis: 100000,
+          keyAggContext: refund.keyAggContext,
+          mySignerIndex: 0,
+        })
+        .to(carol.toAddress(), 99500)
+      const sighash = tx.getMuSig2Sighash(0)
+
+      const manager = new MuSigSessionManager()
+      const metadata = {
+        inputScriptType: 'taproot',
+        taprootMerkleRoot: refund.merkleRoot.toString('hex'),
+      }
+      const sessions = keys.map(key =>
+        manager.createSession(
+          [alice.publicKey, bob.publicKey],
+          key,
+          sighash,
+          metadata,
+        ),
+      )
+
+      const nonces = sessions.map((session, i) =>
+        manager.generateNonces(session, keys[i]),
+      )
+      sessions.forEach(session => {
+        nonces.forEach((nonce, i) => {
+          const signerIndex = sessions[i].myIndex
+          if (signerIndex !== session.myIndex) {
+            manager.receiveNonces(session, signerIndex, nonce)
+          }
+        })
+      })
+
+      const partialSigs = sessions.map((session, i) =>
+        manager.createPartialSignature(session, keys[i]),
+      )
+      sessions.forEach(session => {
+        partialSigs.forEach((partialSig, i) => {
+          const signerIndex = sessions[i].myIndex
+          if (signerIndex !== session.myIndex) {
+            manager.receivePartialSignature(session, signerIndex, partialSig)
+          }
+        })
+      })
+
+      const signature = manager.getFinalSignature(sessions[0])
+      tx.inputs[0].setScript(new Script().add(signature.toTxFormat('schnorr')))
+
+      const { valid, errstr } = verifyInput(tx, refund)
+      assert.ok(valid, `Key path spend should verify: ${errstr}`)
+    })
+  })
+
+  describe('Refund spend', () => {
+    let refund: MuSigRefundTaprootResult
+
+    beforeEach(() => {
+      refund = buildMuSigRefundTaproot(
+        [alice.publicKey, bob.publicKey, carol.publicKey],
+        REFUND_DELAY,
+      )
+    })
+
+    it('should produce a control block that proves the leaf', () => {
+      const { controlBlock, leafScript } = buildRefundSpend({
+        refund,
+        utxo: { txId: FUNDING_TXID, outputIndex: 0, satoshis: 100000 },
+        privateKey: bob,
+        address: bob.toAddress(),
+        fee: 500,
+      })
+
+      const merklePath: Buffer[] = []
+      for (let i = 33; i < controlBlock.length; i += 32) {
+        merklePath.push(controlBlock.subarray(i, i + 32))
+      }
+
+      assert.ok(
+        verifyTaprootScriptPath(
+          controlBlock.subarray(1, 33),
+          leafScript,
+          refund.commitment.toBuffer(),
+          controlBlock[0] & 0xfe,
+          merklePath,
+          controlBlock[0] & 0x01,
+        ),
+      )
+    })
+
+    it('should build a spend that verifies for every signer', () => {
+      for (const [i, key] of [alice, bob, carol].entries()) {
+        const { transaction, leafIndex } = buildRefundSpend({
+          refund,
+          utxo: { txId: FUNDING_TXID, outputIndex: 0, satoshis: 100000 },
+          privateKey: key,
+          address: key.toAddress(),
+          fee: 500,
+        })
+
+        assert.strictEqual(leafIndex, i)
+        assert.strictEqual(
+          transaction.inputs[0].sequenceNumber,
+          refund.refundSequence,
+        )
+        assert.strictEqual(transaction.outputs[0].satoshis, 99500)
+
+        const { valid, errstr } = verifyInput(transaction, refund)
+        assert.ok(valid, `Refund spend should verify: ${errstr}`)
+      }
+    })
+
+    it('should fail when the input sequence is below the refund delay', () => {
+      const { transaction } = buildRefundSpend({
+        refund,
+        utxo: { txId: FUNDING_TXID, outputIndex: 0, satoshis: 100000 },
+        privateKey: alice,
+        address: alice.toAddress(),
+        fee: 500,
+      })
+
+      transaction.inputs[0].lockForSeconds(REFUND_DELAY / 2)
+
+      const { valid, errstr } = verifyInput(transaction, refund)
+      assert.strictEqual(valid, false)
+      assert.strictEqual(errstr, 'SCRIPT_ERR_UNSATISFIED_LOCKTIME')
+    })
+
+    it('should fail when signed by a non-participant', () => {
+      assert.throws(
+        () =>
+          buildRefundSpend({
+            refund,
+            utxo: { txId: FUNDING_TXID, outputIndex: 0, satoshis: 100000 },
+            privateKey: new PrivateKey(),
+            address: alice.toAddress(),
+            fee: 500,
+          }),
+        /does not belong to any refund leaf/,
+      )
+    })
+
+    it('should reject outputs below the dust limit', () => {
+      assert.throws(
+        () =>
+          buildRefundSpend({
+            refund,
+            utxo: { txId: FUNDING_TXID, outputIndex: 0, satoshis: 1000 },
+            privateKey: alice,
+            address: alice.toAddress(),
+            fee: 500,
+          }),
+        /dust limit/,
+      )
+    })
+
+    it('should estimate the script path input size', () => {
+      const { transaction } = buildRefundSpend({
+        refund,
+        utxo: { txId: FUNDING_TXID, outputIndex: 0, satoshis: 100000 },
+        privateKey: alice,
+        address: alice.toAddress(),
+        fee: 500,
+      })
+
+      const input = transaction.inputs[0] as TaprootInput
+      const script = input.script.toBuffer()
+      assert.ok(input._estimateSize() > 66)
+      assert.ok(input._estimateSize() >= script.length)
+
+      const keyPathInput = new TaprootInput({
+        prevTxId: Buffer.from(FUNDING_TXID, 'hex'),
+        outputIndex: 0,
+        output: new Output({ script: refund.script, satoshis: 100000 }),
+        script: new Script(),
+      })
+      assert.strictEqual(keyPathInput._estimateSize(), 66)
+    })
+  })
+})
@@ -0,0 +1,114 @@
+/**
+ * Transaction Script Verification Tests
+ *
+ * Covers Transaction.verifyScripts(): per-input results, error strings,
+ * signature check counts and verification flags.
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import {
+  Interpreter,
+  Opcode,
+  PrivateKey,
+  Script,
+  Signature,
+  Transaction,
+  buildKeyPathTaproot,
+} from '../lib/bitcore/index.js'
+
+const alice = new PrivateKey()
+const bob = new PrivateKey()
+const recipient = new PrivateKey().toAddress()
+
+function buildTransaction(): Transaction {
+  return new Transaction()
+    .from({
+      txId: '11'.repeat(32),
+      outputIndex: 0,
+      script: Script.fromAddress(alice.toAddress()),
+      satoshis: 50000,
+    })
+    .from({
+      txId: '22'.repeat(32),
+      outputIndex: 1,
+      script: buildKeyPathTaproot(bob.publicKey),
+      satoshis: 50000,
+    })
+    .to(recipient, 99000)
+    .sign(
+      [alice, bob],
+      Signature.SIGHASH_ALL | Signature.SIGHASH_LOTUS,
+      'schnorr',
+    )
+}
+
+describe('Transaction.verifyScripts', () => {
+  it('should verify every input against its spent output', () => {
+    const result = buildTransaction().verifyScripts()
+    assert.deepStrictEqual(result, {
+      valid: true,
+      inputs: [
+        { index: 0, valid: true, error: undefined, sigChecks: 1 },
+        { index: 1, valid: true, error: undefined, sigChecks: 1 },
+      ],
+      sigChecks: 2,
+    })
+  })
+
+  it('should report the failing input with its script error', () => {
+    const tx = buildTransaction()
+    // Corrupt the signature of the first input
+    const [sig, pubkey] = tx.inputs[0].script!.chunks
+    const forged = Buffer.from(sig.buf!)
+    forged[10] ^= 0x01
+    tx.inputs[0].setScript(new Script().add(forged).add(pubkey.buf!))
+
+    const result = tx.verifyScripts()
+    assert.strictEqual(result.valid, false)
+    assert.strictEqual(result.inputs[0].valid, false)
+    assert.match(result.inputs[0].error!, /^SCRIPT_ERR_/)
+    assert.strictEqual(result.inputs[1].valid, true)
+    assert.match(
+      tx.verify() as string,
+      /^Input 0 script verification failed: SCRIPT_ERR_/,
+    )
+  })
+
+  it('should report inputs without a spent output', () => {
+    const tx = new Transaction(buildTransaction().toBuffer())
+    tx.inputs[1].output = buildTransaction().inputs[1].output
+
+    const result = tx.verifyScripts()
+    assert.strictEqual(result.valid, false)
+    assert.deepStrictEqual(result.inputs[0], {
+      index: 0,
+      valid: false,
+      error: 'missing spent output',
+      sigChecks: 0,
+    })
+    // The taproot sighash commits to every spent output
+    assert.strictEqual(result.inputs[1].valid, false)
+  })
+
+  it('should default to the lotusd standard flags', () => {
+    const tx = buildTransaction()
+    const scriptSig = tx.inputs[0].script!
+    // An extra push leaves the stack unclean, which only policy rejects
+    tx.inputs[0].setScript(
+      new Script()
+        .add(Opcode.OP_1)
+        .add(scriptSig.chunks[0].buf!)
+        .add(scriptSig.chunks[1].buf!),
+    )
+
+    const standard = tx.verifyScripts()
+    assert.strictEqual(standard.inputs[0].error, 'SCRIPT_ERR_CLEANSTACK')
+    assert.ok(
+      tx.verifyScripts(
+        Interpreter.STANDARD_SCRIPT_VERIFY_FLAGS &
+          ~Interpreter.SCRIPT_VERIFY_CLEANSTACK,
+      ).valid,
+    )
+  })
+})